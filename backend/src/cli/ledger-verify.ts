@@ -0,0 +1,4 @@
+#!/usr/bin/env node
+import { runVerify } from './verify.js';
+
+process.exitCode = await runVerify(process.argv.slice(2));
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { generateKeyPairSync, sign, constants, createHash } from 'crypto';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runVerify } from './verify.js';
+
+let dir: string;
+let paths: Record<'file' | 'manifest' | 'key' | 'keyJson' | 'verification' | 'tampered', string>;
+let signature: string;
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'ledger-verify-'));
+
+  // Local RSA key in place of KMS
+  const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const publicKeyPem = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+
+  const file = Buffer.from('<html><body>Recall notice</body></html>');
+  const manifest = JSON.stringify({
+    sourceId: 'source-1',
+    s3Key: 'sources/source-1/snapshot.html',
+    sha256: createHash('sha256').update(file).digest('hex'),
+    byteLength: file.length,
+    mimeType: 'text/html',
+    retrievedAt: '2024-01-15T00:00:00.000Z',
+    publisher: 'CPSC',
+    url: 'https://cpsc.gov/recall',
+    verifiedAt: '2024-01-15T00:00:00.000Z',
+    verificationAlgorithm: 'RSASSA_PSS_SHA_256',
+    verificationKeyId: 'alias/ledger-signing',
+  });
+  signature = sign('sha256', Buffer.from(manifest), {
+    key: privateKey,
+    padding: constants.RSA_PKCS1_PSS_PADDING,
+    saltLength: 32,
+  }).toString('base64');
+
+  paths = {
+    file: join(dir, 'snapshot.html'),
+    manifest: join(dir, 'manifest.json'),
+    key: join(dir, 'key.pem'),
+    keyJson: join(dir, 'public-key.json'),
+    verification: join(dir, 'verification.json'),
+    tampered: join(dir, 'tampered.html'),
+  };
+  await Promise.all([
+    writeFile(paths.file, file),
+    writeFile(paths.tampered, Buffer.from('<html><body>Nothing to see</body></html>')),
+    writeFile(paths.manifest, manifest),
+    writeFile(paths.key, publicKeyPem),
+    writeFile(paths.keyJson, JSON.stringify({ keyId: 'key-1', publicKeyPem })),
+    writeFile(paths.verification, JSON.stringify({ sourceId: 'source-1', signature })),
+  ]);
+});
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+async function run(args: string[]): Promise<{ status: number; output: string }> {
+  let output = '';
+  const status = await runVerify(args, (text) => {
+    output += text;
+  });
+  return { status, output };
+}
+
+describe('ledger-verify', () => {
+  it('verifies with a PEM key and an inline signature', async () => {
+    const { status, output } = await run([
+      paths.file,
+      '--manifest', paths.manifest,
+      '--public-key', paths.key,
+      '--signature', signature,
+    ]);
+
+    expect(status).toBe(0);
+    expect(output).toContain('VERIFIED');
+    expect(output).not.toContain('FAIL');
+  });
+
+  it('reads the saved public-key and verification responses', async () => {
+    const { status } = await run([
+      paths.file,
+      '--manifest', paths.manifest,
+      '--public-key', paths.keyJson,
+      '--verification', paths.verification,
+    ]);
+
+    expect(status).toBe(0);
+  });
+
+  it('exits 1 for a file that does not match the manifest', async () => {
+    const { status, output } = await run([
+      paths.tampered,
+      '--manifest', paths.manifest,
+      '--public-key', paths.key,
+      '--signature', signature,
+      '--json',
+    ]);
+
+    expect(status).toBe(1);
+    expect(JSON.parse(output)).toMatchObject({ valid: false });
+  });
+
+  it('exits 2 when required arguments are missing', async () => {
+    const { status, output } = await run([paths.file, '--manifest', paths.manifest]);
+
+    expect(status).toBe(2);
+    expect(output).toContain('Usage: ledger-verify');
+  });
+});
@@ -0,0 +1,126 @@
+import { readFile } from 'fs/promises';
+import { parseArgs } from 'util';
+import type { SourceVerificationResponse, VerificationPublicKeyResponse } from '@ledger/shared';
+import { verifySourceFile } from '../lib/verification.js';
+
+export const USAGE = `Usage: ledger-verify <file> --manifest <manifest.json> --public-key <key>
+                     (--signature <base64> | --verification <verification.json>) [--json]
+
+Verifies a downloaded source document against its signed manifest without
+contacting the ledger.
+
+  <file>            The source document as downloaded
+  --manifest        Manifest JSON from the verification manifestUrl, unmodified
+  --public-key      PEM public key, or the saved response of GET /verification/public-key
+  --signature       Base64 manifest signature
+  --verification    Saved response of GET /sources/{id}/verification (supplies the signature)
+  --json            Print the result as JSON
+
+Exit status: 0 verified, 1 verification failed, 2 usage or input error.`;
+
+type Write = (text: string) => void;
+
+/** Accept either a PEM file or the JSON body of the public-key endpoint */
+function parsePublicKey(contents: string): string {
+  const trimmed = contents.trim();
+  if (!trimmed.startsWith('{')) {
+    return trimmed;
+  }
+  const response = JSON.parse(trimmed) as Partial<VerificationPublicKeyResponse>;
+  if (!response.publicKeyPem) {
+    throw new Error('Public key JSON has no publicKeyPem');
+  }
+  return response.publicKeyPem;
+}
+
+async function readSignature(signature?: string, verificationPath?: string): Promise<string> {
+  if (signature) {
+    return signature;
+  }
+  const response = JSON.parse(
+    await readFile(verificationPath!, 'utf8')
+  ) as Partial<SourceVerificationResponse>;
+  if (!response.signature) {
+    throw new Error('Verification response has no signature; the source may not be verified yet');
+  }
+  return response.signature;
+}
+
+/**
+ * Run ledger-verify with the given arguments and return the exit status.
+ * Output goes through write so tests can capture it.
+ */
+export async function runVerify(
+  args: string[],
+  write: Write = (text) => process.stdout.write(text)
+): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        manifest: { type: 'string' },
+        'public-key': { type: 'string' },
+        signature: { type: 'string' },
+        verification: { type: 'string' },
+        json: { type: 'boolean', default: false },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    });
+  } catch (error) {
+    write(`${error instanceof Error ? error.message : String(error)}\n\n${USAGE}\n`);
+    return 2;
+  }
+
+  const { values, positionals } = parsed;
+  if (values.help) {
+    write(`${USAGE}\n`);
+    return 0;
+  }
+  if (
+    positionals.length !== 1 ||
+    !values.manifest ||
+    !values['public-key'] ||
+    (!values.signature && !values.verification)
+  ) {
+    write(`${USAGE}\n`);
+    return 2;
+  }
+
+  let result;
+  try {
+    const [file, manifestBytes, publicKeyFile, signature] = await Promise.all([
+      readFile(positionals[0]),
+      readFile(values.manifest),
+      readFile(values['public-key'], 'utf8'),
+      readSignature(values.signature, values.verification),
+    ]);
+    result = verifySourceFile({
+      file,
+      manifestBytes,
+      signature,
+      publicKey: parsePublicKey(publicKeyFile),
+    });
+  } catch (error) {
+    write(`Error: ${error instanceof Error ? error.message : String(error)}\n`);
+    return 2;
+  }
+
+  if (values.json) {
+    write(`${JSON.stringify(result, null, 2)}\n`);
+  } else {
+    for (const check of result.checks) {
+      write(`${check.ok ? 'PASS' : 'FAIL'}  ${check.detail}\n`);
+    }
+    if (result.manifest) {
+      write(`\nSource:    ${result.manifest.sourceId}\n`);
+      write(`Publisher: ${result.manifest.publisher}\n`);
+      write(`URL:       ${result.manifest.url}\n`);
+      write(`Verified:  ${result.manifest.verifiedAt}\n`);
+    }
+    write(`\n${result.valid ? 'VERIFIED' : 'NOT VERIFIED'}\n`);
+  }
+
+  return result.valid ? 0 : 1;
+}
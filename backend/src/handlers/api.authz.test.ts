@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import type { APIGatewayProxyEventV2, Context } from 'aws-lambda';
 import { handler } from './api.js';
+import { createTestJwtSigner, idTokenClaims, jwksFetch } from '../lib/jwt.fixtures.js';
 
 // Mock SSM to prevent read-only mode checks from hitting AWS
 vi.mock('../lib/ssm.js', () => ({
@@ -18,6 +19,8 @@ vi.mock('../lib/services/cards.js', () => ({
   createCard: vi.fn(() => Promise.reject(new Error('Should not reach service'))),
   getCard: vi.fn(() => Promise.reject(new Error('Should not reach service'))),
   listCards: vi.fn(() => Promise.resolve({ items: [], hasMore: false })),
+  publishCard: vi.fn(() => Promise.resolve({ cardId: 'card_123', status: 'PUBLISHED' })),
+  disputeCard: vi.fn(() => Promise.resolve({ cardId: 'card_123', status: 'DISPUTED' })),
   isSourceReferencedByPublishedCard: vi.fn(() => Promise.resolve(false)),
 }));
 
@@ -48,16 +51,41 @@ vi.mock('../lib/services/summary.js', () => ({
   getEntitySummary: vi.fn(() => Promise.reject(new Error('Should not reach service'))),
 }));
 
+vi.mock('../lib/services/publish-schedule.js', () => ({
+  publishNow: vi.fn(() =>
+    Promise.resolve({ card: { cardId: 'card_123', status: 'PUBLISHED' }, clearedSchedule: null })
+  ),
+}));
+
 vi.mock('../lib/services/audit.js', () => ({
   logAuditEvent: vi.fn(() => Promise.resolve()),
 }));
 
-// Helper to create a minimal JWT (not cryptographically valid, just for testing payload parsing)
+// Point JWT verification at a locally generated stand-in for the user pool
+vi.mock('../lib/config.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../lib/config.js')>();
+  return {
+    config: {
+      ...actual.config,
+      region: 'us-east-1',
+      auth: { userPoolId: 'us-east-1_TestPool', clientId: 'test-client-id' },
+    },
+  };
+});
+
+const signer = createTestJwtSigner();
+vi.stubGlobal('fetch', jwksFetch(signer));
+
+// Helper to create an ID token signed by the test pool key
 function createTestJwt(payload: Record<string, unknown>): string {
-  const header = Buffer.from(JSON.stringify({ alg: 'RS256', typ: 'JWT' })).toString('base64url');
-  const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
-  const signature = 'test_signature';
-  return `${header}.${body}.${signature}`;
+  return signer.sign(idTokenClaims(payload));
+}
+
+// Helper to create a JWT with a made-up signature, as the handler used to accept
+function createUnsignedJwt(payload: Record<string, unknown>): string {
+  const header = Buffer.from(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid: signer.kid })).toString('base64url');
+  const body = Buffer.from(JSON.stringify(idTokenClaims(payload))).toString('base64url');
+  return `${header}.${body}.test_signature`;
 }
 
 // Helper to create a mock API Gateway event
@@ -171,6 +199,76 @@ describe('Authorization Tests', () => {
     });
   });
 
+  describe('Admin endpoints require a verified JWT', () => {
+    function adminEvent(token: string): APIGatewayProxyEventV2 {
+      return createMockEvent({
+        rawPath: '/admin/cards',
+        headers: {
+          authorization: `Bearer ${token}`,
+        },
+        requestContext: {
+          ...createMockEvent().requestContext,
+          http: {
+            method: 'GET',
+            path: '/admin/cards',
+            protocol: 'HTTP/1.1',
+            sourceIp: '127.0.0.1',
+            userAgent: 'test',
+          },
+        },
+      });
+    }
+
+    it('returns 401 for a forged admin token', async () => {
+      const token = createUnsignedJwt({ sub: 'user-123', 'cognito:groups': ['admin'] });
+
+      const result = await handler(adminEvent(token), mockContext);
+
+      const response = result as { statusCode: number; body: string };
+      expect(response.statusCode).toBe(401);
+
+      const body = JSON.parse(response.body);
+      expect(body.error.code).toBe('UNAUTHORIZED');
+      expect(body.error.message).toBe('Invalid token signature');
+    });
+
+    it('returns 401 for an expired admin token', async () => {
+      const token = createTestJwt({
+        sub: 'user-123',
+        'cognito:groups': ['admin'],
+        exp: Math.floor(Date.now() / 1000) - 3600,
+      });
+
+      const result = await handler(adminEvent(token), mockContext);
+
+      const response = result as { statusCode: number; body: string };
+      expect(response.statusCode).toBe(401);
+      expect(JSON.parse(response.body).error.message).toBe('Token expired');
+    });
+
+    it('returns 401 for a token issued to another app client', async () => {
+      const token = createTestJwt({
+        sub: 'user-123',
+        'cognito:groups': ['admin'],
+        aud: 'another-client',
+      });
+
+      const result = await handler(adminEvent(token), mockContext);
+
+      const response = result as { statusCode: number; body: string };
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('accepts a valid admin token', async () => {
+      const token = createTestJwt({ sub: 'user-123', 'cognito:groups': ['admin'] });
+
+      const result = await handler(adminEvent(token), mockContext);
+
+      const response = result as { statusCode: number; body: string };
+      expect(response.statusCode).toBe(200);
+    });
+  });
+
   describe('Admin endpoints require admin group membership', () => {
     it('returns 403 for admin endpoint with valid JWT but no admin group', async () => {
       const token = createTestJwt({
@@ -267,6 +365,108 @@ describe('Authorization Tests', () => {
     });
   });
 
+  describe('Admin routes enforce role permissions', () => {
+    function roleEvent(
+      method: string,
+      path: string,
+      groups: string[],
+      body?: unknown
+    ): APIGatewayProxyEventV2 {
+      const token = createTestJwt({ sub: 'user-789', 'cognito:groups': groups });
+      return createMockEvent({
+        rawPath: path,
+        headers: {
+          authorization: `Bearer ${token}`,
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+        requestContext: {
+          ...createMockEvent().requestContext,
+          http: {
+            method,
+            path,
+            protocol: 'HTTP/1.1',
+            sourceIp: '127.0.0.1',
+            userAgent: 'test',
+          },
+        },
+      });
+    }
+
+    async function send(
+      event: APIGatewayProxyEventV2
+    ): Promise<{ statusCode: number; body: { error?: { code: string; message: string } } }> {
+      const result = (await handler(event, mockContext)) as { statusCode: number; body: string };
+      return { statusCode: result.statusCode, body: JSON.parse(result.body) };
+    }
+
+    it('lets a researcher read admin lists', async () => {
+      const response = await send(roleEvent('GET', '/admin/cards', ['researcher']));
+
+      expect(response.statusCode).toBe(200);
+    });
+
+    it('returns 403 when a researcher tries to publish', async () => {
+      const response = await send(roleEvent('POST', '/admin/cards/card_123/publish', ['researcher']));
+
+      expect(response.statusCode).toBe(403);
+      expect(response.body.error?.code).toBe('FORBIDDEN');
+      expect(response.body.error?.message).toBe('Permission required: card:publish');
+    });
+
+    it('lets an editor dispute but not retract', async () => {
+      const dispute = await send(
+        roleEvent('POST', '/admin/cards/card_123/dispute', ['editor'], { reason: 'Source withdrawn' })
+      );
+      const retract = await send(
+        roleEvent('POST', '/admin/cards/card_123/retract', ['editor'], { reason: 'Wrong' })
+      );
+
+      expect(dispute.statusCode).toBe(200);
+      expect(retract.statusCode).toBe(403);
+      expect(retract.body.error?.message).toBe('Permission required: card:retract');
+    });
+
+    it('lets a publisher publish but not change scoring weights', async () => {
+      const publish = await send(roleEvent('POST', '/admin/cards/card_123/publish', ['publisher']));
+      const weights = await send(
+        roleEvent('POST', '/admin/config/scoring-weights', ['publisher'], { weights: {} })
+      );
+
+      expect(publish.statusCode).toBe(200);
+      expect(weights.statusCode).toBe(403);
+      expect(weights.body.error?.message).toBe('Permission required: config:write');
+    });
+
+    it('keeps intake feed changes to config:write holders', async () => {
+      const create = await send(roleEvent('POST', '/admin/feeds', ['publisher'], { id: 'new_feed' }));
+      const disable = await send(
+        roleEvent('PUT', '/admin/feeds/ftc_press_releases', ['editor'], { enabled: false })
+      );
+
+      expect(create.statusCode).toBe(403);
+      expect(disable.statusCode).toBe(403);
+      expect(disable.body.error?.message).toBe('Permission required: config:write');
+    });
+
+    it('combines permissions across groups', async () => {
+      const response = await send(
+        roleEvent('POST', '/admin/cards/card_123/publish', ['researcher', 'publisher'])
+      );
+
+      expect(response.statusCode).toBe(200);
+    });
+
+    it('checks permissions before running the service', async () => {
+      const { publishCard } = await import('../lib/services/cards.js');
+      const { publishNow } = await import('../lib/services/publish-schedule.js');
+
+      await send(roleEvent('POST', '/admin/cards/card_123/publish', ['editor']));
+
+      expect(publishNow).not.toHaveBeenCalled();
+      expect(publishCard).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Public endpoints do not require authentication', () => {
     it('allows unauthenticated access to /health', async () => {
       const event = createMockEvent({
@@ -317,6 +517,30 @@ describe('Authorization Tests', () => {
       expect(Array.isArray(body.items)).toBe(true);
     });
 
+    it('treats an invalid token on a public route as anonymous', async () => {
+      const event = createMockEvent({
+        rawPath: '/entities',
+        headers: {
+          authorization: `Bearer ${createUnsignedJwt({ sub: 'user-123' })}`,
+        },
+        requestContext: {
+          ...createMockEvent().requestContext,
+          http: {
+            method: 'GET',
+            path: '/entities',
+            protocol: 'HTTP/1.1',
+            sourceIp: '127.0.0.1',
+            userAgent: 'test',
+          },
+        },
+      });
+
+      const result = await handler(event, mockContext);
+
+      const response = result as { statusCode: number; body: string };
+      expect(response.statusCode).toBe(200);
+    });
+
     it('allows unauthenticated access to /entities', async () => {
       const event = createMockEvent({
         rawPath: '/entities',
@@ -351,6 +575,12 @@ describe('Authorization Tests', () => {
       { method: 'POST', path: '/admin/intake/int_123/promote' },
       { method: 'POST', path: '/admin/intake/int_123/retry-extraction' },
       { method: 'POST', path: '/admin/intake/retry-all-failed' },
+      { method: 'GET', path: '/admin/intake/runs' },
+      { method: 'GET', path: '/admin/intake/feed-health' },
+      { method: 'GET', path: '/admin/intake/clusters/cl_123' },
+      { method: 'GET', path: '/admin/source-alerts' },
+      { method: 'POST', path: '/admin/sources/src_123/alerts/alt_123/acknowledge' },
+      { method: 'GET', path: '/admin/cards/card_123/source-alerts' },
       { method: 'POST', path: '/admin/relationships' },
       { method: 'GET', path: '/admin/relationships' },
     ];
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { APIGatewayProxyEventV2, Context } from 'aws-lambda';
+import { handler } from './api.js';
+import * as entityService from '../lib/services/entities.js';
+import { VersionConflictError } from '../lib/errors.js';
+import { createTestJwtSigner, idTokenClaims, jwksFetch } from '../lib/jwt.fixtures.js';
+
+vi.mock('../lib/ssm.js', () => ({
+  isReadOnlyMode: vi.fn(() => Promise.resolve(false)),
+}));
+
+vi.mock('../lib/services/entities.js', () => ({
+  updateEntity: vi.fn(),
+}));
+
+vi.mock('../lib/services/audit.js', () => ({
+  logAuditEvent: vi.fn(() => Promise.resolve()),
+}));
+
+// Point JWT verification at a locally generated stand-in for the user pool
+vi.mock('../lib/config.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../lib/config.js')>();
+  return {
+    config: {
+      ...actual.config,
+      region: 'us-east-1',
+      auth: { userPoolId: 'us-east-1_TestPool', clientId: 'test-client-id' },
+    },
+  };
+});
+
+const signer = createTestJwtSigner();
+vi.stubGlobal('fetch', jwksFetch(signer));
+
+const editorToken = signer.sign(idTokenClaims({ sub: 'editor-1', 'cognito:groups': ['editor'] }));
+
+function updateEntityEvent(
+  body: Record<string, unknown>,
+  headers: Record<string, string> = {}
+): APIGatewayProxyEventV2 {
+  return {
+    version: '2.0',
+    routeKey: '$default',
+    rawPath: '/admin/entities/ent-1',
+    rawQueryString: '',
+    headers: { authorization: `Bearer ${editorToken}`, ...headers },
+    body: JSON.stringify(body),
+    requestContext: {
+      http: {
+        method: 'PUT',
+        path: '/admin/entities/ent-1',
+        protocol: 'HTTP/1.1',
+        sourceIp: '127.0.0.1',
+        userAgent: 'test',
+      },
+      requestId: 'test-request-id',
+    },
+    isBase64Encoded: false,
+  } as unknown as APIGatewayProxyEventV2;
+}
+
+const mockContext = { awsRequestId: 'test-request-id' } as Context;
+
+const entity = {
+  entityId: 'ent-1',
+  name: 'Acme Corp',
+  type: 'CORPORATION',
+  aliases: [],
+  version: 4,
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-03T00:00:00Z',
+};
+
+type Response = { statusCode: number; headers?: Record<string, string>; body: string };
+
+describe('Optimistic concurrency on admin updates', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(entityService.updateEntity).mockResolvedValue(entity as never);
+  });
+
+  it('passes the If-Match version to the service and returns the new ETag', async () => {
+    const result = (await handler(
+      updateEntityEvent({ name: 'Acme Corp' }, { 'if-match': 'W/"3"' }),
+      mockContext
+    )) as Response;
+
+    expect(result.statusCode).toBe(200);
+    expect(result.headers?.ETag).toBe('"4"');
+    expect(entityService.updateEntity).toHaveBeenCalledWith(
+      'ent-1',
+      expect.not.objectContaining({ expectedVersion: expect.anything() }),
+      'editor-1',
+      3
+    );
+  });
+
+  it('accepts expectedVersion in the body and keeps it out of the update', async () => {
+    await handler(updateEntityEvent({ name: 'Acme Corp', expectedVersion: 3 }), mockContext);
+
+    expect(entityService.updateEntity).toHaveBeenCalledWith(
+      'ent-1',
+      expect.not.objectContaining({ expectedVersion: expect.anything() }),
+      'editor-1',
+      3
+    );
+  });
+
+  it('rejects If-Match and expectedVersion that disagree', async () => {
+    const result = (await handler(
+      updateEntityEvent({ name: 'Acme Corp', expectedVersion: 2 }, { 'if-match': '"3"' }),
+      mockContext
+    )) as Response;
+
+    expect(result.statusCode).toBe(400);
+    expect(entityService.updateEntity).not.toHaveBeenCalled();
+  });
+
+  it('returns CONFLICT with the current version and field diff', async () => {
+    vi.mocked(entityService.updateEntity).mockRejectedValueOnce(
+      new VersionConflictError('Entity', {
+        currentVersion: 4,
+        current: entity,
+        changes: [{ field: 'name', change: 'modified', before: 'Acme Corp', after: 'Acme Inc' }],
+      })
+    );
+
+    const result = (await handler(
+      updateEntityEvent({ name: 'Acme Inc' }, { 'if-match': '"3"' }),
+      mockContext
+    )) as Response;
+
+    expect(result.statusCode).toBe(409);
+    const body = JSON.parse(result.body) as {
+      error: { code: string; details: { currentVersion: number; changes: unknown[] } };
+    };
+    expect(body.error.code).toBe('CONFLICT');
+    expect(body.error.details.currentVersion).toBe(4);
+    expect(body.error.details.changes).toHaveLength(1);
+  });
+});
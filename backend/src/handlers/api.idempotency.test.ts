@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { APIGatewayProxyEventV2, Context } from 'aws-lambda';
+import { handler } from './api.js';
+import * as entityService from '../lib/services/entities.js';
+import * as idempotencyService from '../lib/services/idempotency.js';
+import { IdempotencyConflictError } from '../lib/errors.js';
+import { createTestJwtSigner, idTokenClaims, jwksFetch } from '../lib/jwt.fixtures.js';
+
+vi.mock('../lib/ssm.js', () => ({
+  isReadOnlyMode: vi.fn(() => Promise.resolve(false)),
+}));
+
+vi.mock('../lib/services/entities.js', () => ({
+  createEntity: vi.fn(),
+}));
+
+vi.mock('../lib/services/audit.js', () => ({
+  logAuditEvent: vi.fn(() => Promise.resolve()),
+}));
+
+// Keep key validation and fingerprinting real; stub the storage calls
+vi.mock('../lib/services/idempotency.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../lib/services/idempotency.js')>();
+  return {
+    ...actual,
+    beginIdempotentRequest: vi.fn(),
+    completeIdempotentRequest: vi.fn(() => Promise.resolve()),
+    releaseIdempotentRequest: vi.fn(() => Promise.resolve()),
+  };
+});
+
+// Point JWT verification at a locally generated stand-in for the user pool
+vi.mock('../lib/config.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../lib/config.js')>();
+  return {
+    config: {
+      ...actual.config,
+      region: 'us-east-1',
+      auth: { userPoolId: 'us-east-1_TestPool', clientId: 'test-client-id' },
+    },
+  };
+});
+
+const signer = createTestJwtSigner();
+vi.stubGlobal('fetch', jwksFetch(signer));
+
+function createTestJwt(payload: Record<string, unknown>): string {
+  return signer.sign(idTokenClaims(payload));
+}
+
+const adminToken = createTestJwt({ sub: 'admin-1', 'cognito:groups': ['admin'] });
+
+function createEntityEvent(
+  body: Record<string, unknown>,
+  headers: Record<string, string> = {}
+): APIGatewayProxyEventV2 {
+  return {
+    version: '2.0',
+    routeKey: '$default',
+    rawPath: '/admin/entities',
+    rawQueryString: '',
+    headers: { authorization: `Bearer ${adminToken}`, ...headers },
+    body: JSON.stringify(body),
+    requestContext: {
+      http: {
+        method: 'POST',
+        path: '/admin/entities',
+        protocol: 'HTTP/1.1',
+        sourceIp: '127.0.0.1',
+        userAgent: 'test',
+      },
+      requestId: 'test-request-id',
+    },
+    isBase64Encoded: false,
+  } as unknown as APIGatewayProxyEventV2;
+}
+
+const mockContext = { awsRequestId: 'test-request-id' } as Context;
+
+const createdEntity = {
+  entityId: 'ent-1',
+  name: 'Acme Corp',
+  type: 'CORPORATION',
+  aliases: [],
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+};
+
+type Response = { statusCode: number; headers?: Record<string, string>; body: string };
+
+describe('Idempotency-Key handling', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(entityService.createEntity).mockResolvedValue(createdEntity as never);
+  });
+
+  it('runs normally without an Idempotency-Key header', async () => {
+    const result = (await handler(
+      createEntityEvent({ name: 'Acme Corp', type: 'CORPORATION' }),
+      mockContext
+    )) as Response;
+
+    expect(result.statusCode).toBe(201);
+    expect(idempotencyService.beginIdempotentRequest).not.toHaveBeenCalled();
+  });
+
+  it('records the response of a first request', async () => {
+    vi.mocked(idempotencyService.beginIdempotentRequest).mockResolvedValueOnce({ replay: false });
+
+    const result = (await handler(
+      createEntityEvent({ name: 'Acme Corp', type: 'CORPORATION' }, { 'idempotency-key': 'key-1' }),
+      mockContext
+    )) as Response;
+
+    expect(result.statusCode).toBe(201);
+    expect(idempotencyService.beginIdempotentRequest).toHaveBeenCalledWith(
+      'key-1',
+      'admin-1',
+      expect.any(String)
+    );
+    expect(idempotencyService.completeIdempotentRequest).toHaveBeenCalledWith(
+      'key-1',
+      'admin-1',
+      201,
+      result.body,
+      expect.objectContaining({ 'Content-Type': 'application/json' })
+    );
+  });
+
+  it('replays a stored response without calling the handler', async () => {
+    vi.mocked(idempotencyService.beginIdempotentRequest).mockResolvedValueOnce({
+      replay: true,
+      statusCode: 201,
+      headers: { 'Content-Type': 'application/json', ETag: '"1"' },
+      body: JSON.stringify(createdEntity),
+    });
+
+    const result = (await handler(
+      createEntityEvent({ name: 'Acme Corp', type: 'CORPORATION' }, { 'idempotency-key': 'key-1' }),
+      mockContext
+    )) as Response;
+
+    expect(result.statusCode).toBe(201);
+    expect(result.headers?.['Idempotent-Replayed']).toBe('true');
+    expect(result.headers?.ETag).toBe('"1"');
+    expect(JSON.parse(result.body).entityId).toBe('ent-1');
+    expect(entityService.createEntity).not.toHaveBeenCalled();
+  });
+
+  it('returns 409 IDEMPOTENCY_CONFLICT for a mismatched body', async () => {
+    vi.mocked(idempotencyService.beginIdempotentRequest).mockRejectedValueOnce(
+      new IdempotencyConflictError()
+    );
+
+    const result = (await handler(
+      createEntityEvent({ name: 'Other Corp', type: 'CORPORATION' }, { 'idempotency-key': 'key-1' }),
+      mockContext
+    )) as Response;
+
+    expect(result.statusCode).toBe(409);
+    expect(JSON.parse(result.body).error.code).toBe('IDEMPOTENCY_CONFLICT');
+    expect(entityService.createEntity).not.toHaveBeenCalled();
+  });
+
+  it('releases the key when the handler fails so the request can be retried', async () => {
+    vi.mocked(idempotencyService.beginIdempotentRequest).mockResolvedValueOnce({ replay: false });
+
+    const result = (await handler(
+      createEntityEvent({ type: 'CORPORATION' }, { 'idempotency-key': 'key-1' }),
+      mockContext
+    )) as Response;
+
+    expect(result.statusCode).toBe(400);
+    expect(idempotencyService.releaseIdempotentRequest).toHaveBeenCalledWith('key-1', 'admin-1');
+    expect(idempotencyService.completeIdempotentRequest).not.toHaveBeenCalled();
+  });
+
+  it('rejects malformed keys', async () => {
+    const result = (await handler(
+      createEntityEvent({ name: 'Acme Corp', type: 'CORPORATION' }, { 'idempotency-key': 'bad key' }),
+      mockContext
+    )) as Response;
+
+    expect(result.statusCode).toBe(400);
+    expect(entityService.createEntity).not.toHaveBeenCalled();
+  });
+});
@@ -5,9 +5,11 @@ import type {
 } from 'aws-lambda';
 import { ZodError } from 'zod';
 import type { HealthResponse, ApiError } from '@ledger/shared';
+import { Permission, permissionsForGroups } from '@ledger/shared';
 import { config } from '../lib/config.js';
 import { createRequestLogger, type Logger } from '../lib/logger.js';
-import { AppError, ReadOnlyModeError, ValidationError } from '../lib/errors.js';
+import { AppError, ReadOnlyModeError, UnauthorizedError, ValidationError } from '../lib/errors.js';
+import { verifyCognitoJwt, type CognitoClaims } from '../lib/jwt.js';
 import { isReadOnlyMode } from '../lib/ssm.js';
 
 // Services
@@ -18,6 +20,25 @@ import * as auditService from '../lib/services/audit.js';
 import * as intakeService from '../lib/services/intake.js';
 import * as relationshipService from '../lib/services/relationships.js';
 import * as summaryService from '../lib/services/summary.js';
+import * as scoringService from '../lib/services/scoring.js';
+import * as scoringWeightsService from '../lib/services/scoring-weights.js';
+import * as idempotencyService from '../lib/services/idempotency.js';
+import * as tagService from '../lib/services/tags.js';
+import * as searchService from '../lib/services/search.js';
+import * as replyService from '../lib/services/replies.js';
+import * as statusHistoryService from '../lib/services/status-history.js';
+import * as cardVersionService from '../lib/services/card-versions.js';
+import * as approvalService from '../lib/services/approvals.js';
+import * as publishScheduleService from '../lib/services/publish-schedule.js';
+import * as reviewThreadService from '../lib/services/review-threads.js';
+import * as correctionsService from '../lib/services/corrections.js';
+import * as promotionService from '../lib/services/promotion.js';
+import * as intakeFeedService from '../lib/services/intake-feeds.js';
+import * as intakeRunService from '../lib/services/intake-runs.js';
+import * as intakeClusterService from '../lib/services/intake-clusters.js';
+import * as sourceWatchService from '../lib/services/source-watch.js';
+import type { PromotionEntity } from '../lib/services/promotion.js';
+import { renderCorrectionsFeed } from '../lib/templates/corrections-feed.js';
 
 // Validation schemas
 import {
@@ -29,12 +50,20 @@ import {
   disputeCardSchema,
   correctCardSchema,
   retractCardSchema,
+  approveCardSchema,
+  schedulePublishSchema,
+  migrateStatusHistorySchema,
   cardQuerySchema,
+  cardDiffQuerySchema,
   entityQuerySchema,
   entityCardsQuerySchema,
   auditQuerySchema,
   intakeQuerySchema,
   intakePromoteSchema,
+  paginationSchema,
+  createIntakeFeedSchema,
+  updateIntakeFeedSchema,
+  updateIntakeRailsSchema,
   createRelationshipSchema,
   updateRelationshipSchema,
   retractRelationshipSchema,
@@ -43,6 +72,26 @@ import {
   addAliasSchema,
   entitySummaryQuerySchema,
   entitySearchSchema,
+  createScoringWeightsSchema,
+  previewScoringWeightsSchema,
+  tagQuerySchema,
+  tagCardsQuerySchema,
+  mergeTagsSchema,
+  normalizeTagsSchema,
+  rebuildTagIndexSchema,
+  searchQuerySchema,
+  rebuildSearchIndexSchema,
+  correctionsQuerySchema,
+  rebuildCorrectionsLogSchema,
+  createReplySchema,
+  replyQuerySchema,
+  moderateReplySchema,
+  sourceAlertQuerySchema,
+  acknowledgeSourceAlertSchema,
+  rejectReplySchema,
+  createReviewThreadSchema,
+  addReviewCommentSchema,
+  reviewMentionsQuerySchema,
 } from '../lib/validation.js';
 
 // Route handler type
@@ -56,6 +105,13 @@ interface HandlerContext {
   logger: Logger;
   userId?: string;
   isAdmin: boolean;
+  permissions: Permission[];
+}
+
+// Admin routes name the permission they need; those that don't are admin-only
+interface Route {
+  handler: RouteHandler;
+  permission?: Permission;
 }
 
 // Parse path parameters
@@ -72,6 +128,19 @@ function getQueryParams(event: APIGatewayProxyEventV2): Record<string, string> {
   );
 }
 
+// Resolve the caller's address. Behind CloudFront, sourceIp is the edge node, so
+// prefer the hop CloudFront appended to X-Forwarded-For (the last entry).
+function getClientIp(event: APIGatewayProxyEventV2): string {
+  const forwardedFor = event.headers?.['x-forwarded-for'];
+  const lastHop = forwardedFor?.split(',').pop()?.trim();
+  return lastHop || event.requestContext.http.sourceIp;
+}
+
+// Base URL for absolute links in feeds
+function getSiteUrl(event: APIGatewayProxyEventV2): string {
+  return config.site.url || `https://${event.headers?.host ?? event.requestContext.domainName}`;
+}
+
 // Parse JSON body
 function parseBody<T>(event: APIGatewayProxyEventV2): T {
   if (!event.body) {
@@ -118,13 +187,116 @@ async function checkReadOnly(method: string): Promise<void> {
   }
 }
 
-// Extract user info from JWT claims
+// Read and validate the Idempotency-Key header (HTTP API lowercases header names)
+function getIdempotencyKey(event: APIGatewayProxyEventV2): string | undefined {
+  const value = event.headers?.['idempotency-key'];
+  return value === undefined ? undefined : idempotencyService.validateIdempotencyKey(value);
+}
+
+// Version an edit was based on, from If-Match ("3" or W/"3") or the body's
+// expectedVersion. Sending both with different values is rejected.
+function getExpectedVersion(
+  event: APIGatewayProxyEventV2,
+  bodyVersion?: number
+): number | undefined {
+  const header = event.headers?.['if-match'];
+  if (header === undefined) {
+    return bodyVersion;
+  }
+  const match = /^(?:W\/)?"?(\d+)"?$/.exec(header.trim());
+  if (!match) {
+    throw new ValidationError('If-Match must be a version number, e.g. "3"');
+  }
+  const version = Number(match[1]);
+  if (bodyVersion !== undefined && bodyVersion !== version) {
+    throw new ValidationError('If-Match and expectedVersion disagree');
+  }
+  return version;
+}
+
+// ETag carrying a record's version, for clients that use If-Match
+function versionTag(version?: number): Record<string, string> {
+  return { ETag: `"${version ?? 1}"` };
+}
+
+// Run a mutation under an idempotency key: replay a stored success, or
+// execute the handler and record its response for later retries
+async function executeIdempotent(
+  event: APIGatewayProxyEventV2,
+  handler: RouteHandler,
+  ctx: HandlerContext,
+  idempotencyKey: string,
+  method: string,
+  path: string
+): Promise<APIGatewayProxyResultV2> {
+  const rawBody = event.body && event.isBase64Encoded
+    ? Buffer.from(event.body, 'base64').toString('utf-8')
+    : event.body;
+  const fingerprint = idempotencyService.fingerprintRequest(method, path, rawBody);
+
+  const claim = await idempotencyService.beginIdempotentRequest(
+    idempotencyKey,
+    ctx.userId!,
+    fingerprint
+  );
+  if (claim.replay) {
+    ctx.logger.info({ idempotencyKey }, 'Replaying stored idempotent response');
+    return {
+      statusCode: claim.statusCode,
+      headers: {
+        'Content-Type': 'application/json',
+        ...claim.headers,
+        'Idempotent-Replayed': 'true',
+      },
+      body: claim.body,
+    };
+  }
+
+  let response: APIGatewayProxyResultV2;
+  try {
+    response = await handler(event, ctx);
+  } catch (error) {
+    await idempotencyService
+      .releaseIdempotentRequest(idempotencyKey, ctx.userId!)
+      .catch((releaseError) =>
+        ctx.logger.error({ error: releaseError, idempotencyKey }, 'Failed to release idempotency key')
+      );
+    throw error;
+  }
+
+  const {
+    statusCode = 200,
+    body = '',
+    headers = {},
+  } = response as { statusCode?: number; body?: string; headers?: Record<string, string | number | boolean> };
+  try {
+    if (statusCode < 300) {
+      await idempotencyService.completeIdempotentRequest(
+        idempotencyKey,
+        ctx.userId!,
+        statusCode,
+        body,
+        Object.fromEntries(Object.entries(headers).map(([name, value]) => [name, String(value)]))
+      );
+    } else {
+      await idempotencyService.releaseIdempotentRequest(idempotencyKey, ctx.userId!);
+    }
+  } catch (error) {
+    // The mutation already happened; don't turn its response into an error
+    ctx.logger.error({ error, idempotencyKey }, 'Failed to record idempotent response');
+  }
+
+  return response;
+}
+
+// Extract user info from verified JWT claims
 interface JwtUserInfo {
   userId: string | undefined;
   groups: string[];
+  authError?: UnauthorizedError; // set when a token was sent but failed verification
 }
 
-function getUserInfoFromEvent(event: APIGatewayProxyEventV2): JwtUserInfo {
+async function getUserInfoFromEvent(event: APIGatewayProxyEventV2): Promise<JwtUserInfo> {
   // Extract JWT from Authorization header (Bearer token)
   const authHeader = event.headers?.authorization || event.headers?.Authorization;
   if (!authHeader || !authHeader.startsWith('Bearer ')) {
@@ -133,50 +305,48 @@ function getUserInfoFromEvent(event: APIGatewayProxyEventV2): JwtUserInfo {
 
   const token = authHeader.slice(7); // Remove 'Bearer ' prefix
 
+  let payload: CognitoClaims;
   try {
-    // Decode JWT payload (middle part) - we don't verify signature here as that's
-    // done by Cognito during token issuance. In production, you might want to
-    // verify the signature using Cognito's JWKS.
-    const parts = token.split('.');
-    if (parts.length !== 3) {
-      return { userId: undefined, groups: [] };
+    payload = await verifyCognitoJwt(token);
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return { userId: undefined, groups: [], authError: error };
     }
+    throw error;
+  }
 
-    const payload = JSON.parse(Buffer.from(parts[1], 'base64').toString('utf8'));
-
-    // Extract groups from Cognito claims
-    let groups: string[] = [];
-    const groupsClaim = payload['cognito:groups'];
-    if (Array.isArray(groupsClaim)) {
-      groups = groupsClaim as string[];
-    } else if (typeof groupsClaim === 'string') {
-      try {
-        const parsed = JSON.parse(groupsClaim);
-        if (Array.isArray(parsed)) {
-          groups = parsed;
-        }
-      } catch {
-        groups = groupsClaim.split(',').map((g: string) => g.trim()).filter(Boolean);
+  // Extract groups from Cognito claims
+  let groups: string[] = [];
+  const groupsClaim = payload['cognito:groups'];
+  if (Array.isArray(groupsClaim)) {
+    groups = groupsClaim as string[];
+  } else if (typeof groupsClaim === 'string') {
+    try {
+      const parsed = JSON.parse(groupsClaim);
+      if (Array.isArray(parsed)) {
+        groups = parsed;
       }
+    } catch {
+      groups = groupsClaim.split(',').map((g: string) => g.trim()).filter(Boolean);
     }
-
-    return {
-      userId: payload.sub as string | undefined,
-      groups,
-    };
-  } catch {
-    // Invalid JWT format
-    return { userId: undefined, groups: [] };
   }
+
+  return {
+    userId: payload.sub,
+    groups,
+  };
 }
 
-// Check if user has admin group membership
 function isUserAdmin(groups: string[]): boolean {
   return groups.includes('admin');
 }
 
+function hasPermission(permissions: Permission[], groups: string[], route: Route): boolean {
+  return route.permission ? permissions.includes(route.permission) : isUserAdmin(groups);
+}
+
 // Route definitions
-const routes: Record<string, Record<string, RouteHandler>> = {
+const routes: Record<string, Route> = {
   // Public routes
   'GET /health': {
     handler: async () => {
@@ -250,6 +420,92 @@ const routes: Record<string, Record<string, RouteHandler>> = {
       return jsonResponse(200, card);
     },
   },
+  'GET /cards/{cardId}/versions': {
+    handler: async (event, _ctx) => {
+      const cardId = getPathParam(event, 'cardId');
+      const versions = await cardVersionService.listCardVersions(cardId, true);
+      return jsonResponse(200, { items: versions });
+    },
+  },
+  'GET /cards/{cardId}/diff': {
+    handler: async (event, _ctx) => {
+      const cardId = getPathParam(event, 'cardId');
+      const { from, to } = cardDiffQuerySchema.parse(getQueryParams(event));
+      const diff = await cardVersionService.diffCardVersions(cardId, from, to, true);
+      return jsonResponse(200, diff);
+    },
+  },
+
+  // Corrections log
+  'GET /corrections': {
+    handler: async (event, _ctx) => {
+      const query = correctionsQuerySchema.parse(getQueryParams(event));
+      const result = await correctionsService.listCorrections(query);
+      return jsonResponse(200, result);
+    },
+  },
+  'GET /corrections/feed.atom': {
+    handler: async (event, _ctx) => {
+      const entries = await correctionsService.listRecentCorrections(50);
+      return {
+        statusCode: 200,
+        headers: {
+          'Content-Type': 'application/atom+xml; charset=utf-8',
+          'Cache-Control': 'public, max-age=300',
+        },
+        body: renderCorrectionsFeed(entries, getSiteUrl(event)),
+      };
+    },
+  },
+
+  // Right of reply
+  'GET /cards/{cardId}/replies': {
+    handler: async (event, _ctx) => {
+      const cardId = getPathParam(event, 'cardId');
+      const card = await cardService.getCard(cardId);
+      const publicStatuses = ['PUBLISHED', 'DISPUTED', 'CORRECTED', 'RETRACTED'];
+      if (!publicStatuses.includes(card.status)) {
+        throw new AppError('NOT_FOUND', 'Card not found', 404);
+      }
+      const replies = await replyService.listPublishedReplies(cardId);
+      return jsonResponse(200, { items: replies });
+    },
+  },
+  'POST /cards/{cardId}/replies': {
+    handler: async (event, _ctx) => {
+      const cardId = getPathParam(event, 'cardId');
+      const input = createReplySchema.parse(parseBody(event));
+      const reply = await replyService.submitReply(cardId, input, getClientIp(event));
+      // Contact details stay private; the submitter only needs a receipt
+      return jsonResponse(202, { replyId: reply.replyId, status: reply.status });
+    },
+  },
+
+  // Tags
+  'GET /tags': {
+    handler: async (event, _ctx) => {
+      const query = tagQuerySchema.parse(getQueryParams(event));
+      const result = await tagService.listTags(query);
+      return jsonResponse(200, result);
+    },
+  },
+  'GET /tags/{tag}/cards': {
+    handler: async (event, _ctx) => {
+      const tag = getPathParam(event, 'tag');
+      const query = tagCardsQuerySchema.parse(getQueryParams(event));
+      const result = await tagService.listTagCards(tag, query);
+      return jsonResponse(200, result);
+    },
+  },
+
+  // Search
+  'GET /search': {
+    handler: async (event, _ctx) => {
+      const query = searchQuerySchema.parse(getQueryParams(event));
+      const result = await searchService.search(query);
+      return jsonResponse(200, result);
+    },
+  },
 
   // Sources
   'GET /sources/{sourceId}': {
@@ -282,9 +538,16 @@ const routes: Record<string, Record<string, RouteHandler>> = {
       return jsonResponse(200, result);
     },
   },
+  'GET /verification/public-key': {
+    handler: async (_event, _ctx) => {
+      const result = await sourceService.getVerificationPublicKey();
+      return jsonResponse(200, result, { 'Cache-Control': 'public, max-age=3600' });
+    },
+  },
 
   // Admin: Entities
   'POST /admin/entities': {
+    permission: Permission.ENTITY_WRITE,
     handler: async (event, ctx) => {
       const input = createEntitySchema.parse(parseBody(event));
       const entity = await entityService.createEntity(input, ctx.userId!);
@@ -299,10 +562,16 @@ const routes: Record<string, Record<string, RouteHandler>> = {
     },
   },
   'PUT /admin/entities/{entityId}': {
+    permission: Permission.ENTITY_WRITE,
     handler: async (event, ctx) => {
       const entityId = getPathParam(event, 'entityId');
-      const input = updateEntitySchema.parse(parseBody(event));
-      const entity = await entityService.updateEntity(entityId, input, ctx.userId!);
+      const { expectedVersion, ...input } = updateEntitySchema.parse(parseBody(event));
+      const entity = await entityService.updateEntity(
+        entityId,
+        input,
+        ctx.userId!,
+        getExpectedVersion(event, expectedVersion)
+      );
       await auditService.logAuditEvent(
         'UPDATE_ENTITY',
         'entity',
@@ -310,12 +579,13 @@ const routes: Record<string, Record<string, RouteHandler>> = {
         ctx.userId!,
         { diff: input, requestId: ctx.requestId }
       );
-      return jsonResponse(200, entity);
+      return jsonResponse(200, entity, versionTag(entity.version));
     },
   },
 
   // Admin: Sources
   'POST /admin/sources': {
+    permission: Permission.SOURCE_CREATE,
     handler: async (event, ctx) => {
       const input = createSourceSchema.parse(parseBody(event));
       const source = await sourceService.createSource(input, ctx.userId!);
@@ -330,6 +600,7 @@ const routes: Record<string, Record<string, RouteHandler>> = {
     },
   },
   'POST /admin/sources/{sourceId}/upload-url': {
+    permission: Permission.SOURCE_CREATE,
     handler: async (event, ctx) => {
       const sourceId = getPathParam(event, 'sourceId');
       const body = parseBody<{ contentType: string }>(event);
@@ -342,6 +613,7 @@ const routes: Record<string, Record<string, RouteHandler>> = {
     },
   },
   'POST /admin/sources/{sourceId}/finalize': {
+    permission: Permission.SOURCE_CREATE,
     handler: async (event, ctx) => {
       const sourceId = getPathParam(event, 'sourceId');
       const source = await sourceService.finalizeSource(sourceId, ctx.userId!);
@@ -356,23 +628,114 @@ const routes: Record<string, Record<string, RouteHandler>> = {
     },
   },
 
+  // Admin: Source change alerts
+  'GET /admin/source-alerts': {
+    permission: Permission.ADMIN_READ,
+    handler: async (event, _ctx) => {
+      const query = sourceAlertQuerySchema.parse(getQueryParams(event));
+      const result = await sourceWatchService.listSourceAlerts(query);
+      return jsonResponse(200, result);
+    },
+  },
+  'POST /admin/sources/{sourceId}/alerts/{alertId}/acknowledge': {
+    permission: Permission.SOURCE_CREATE,
+    handler: async (event, ctx) => {
+      const sourceId = getPathParam(event, 'sourceId');
+      const alertId = getPathParam(event, 'alertId');
+      const input = acknowledgeSourceAlertSchema.parse(parseBody(event));
+      const alert = await sourceWatchService.acknowledgeSourceAlert(sourceId, alertId, ctx.userId!, input.note);
+      await auditService.logAuditEvent(
+        'ACKNOWLEDGE_SOURCE_ALERT',
+        'source',
+        sourceId,
+        ctx.userId!,
+        {
+          metadata: { alertId, cardIds: alert.cardIds },
+          requestId: ctx.requestId,
+        }
+      );
+      return jsonResponse(200, alert);
+    },
+  },
+
   // Admin: Cards
   'GET /admin/cards': {
+    permission: Permission.ADMIN_READ,
     handler: async (event, _ctx) => {
       const query = cardQuerySchema.parse(getQueryParams(event));
       const result = await cardService.listCards(query, true); // true = include all statuses
       return jsonResponse(200, result);
     },
   },
+  'GET /admin/cards/scheduled': {
+    permission: Permission.ADMIN_READ,
+    handler: async (_event, _ctx) => {
+      const schedules = await publishScheduleService.listScheduledPublishes();
+      return jsonResponse(200, { items: schedules });
+    },
+  },
   'GET /admin/cards/{cardId}': {
+    permission: Permission.ADMIN_READ,
     handler: async (event, _ctx) => {
       const cardId = getPathParam(event, 'cardId');
-      const card = await cardService.getCardWithEntities(cardId);
+      const [card, publishSchedule] = await Promise.all([
+        cardService.getCardWithEntities(cardId),
+        publishScheduleService.getPublishSchedule(cardId),
+      ]);
       // Admin can view any status
-      return jsonResponse(200, card);
+      return jsonResponse(
+        200,
+        publishSchedule ? { ...card, publishSchedule } : card,
+        versionTag(card.version)
+      );
+    },
+  },
+  'GET /admin/cards/{cardId}/versions': {
+    permission: Permission.ADMIN_READ,
+    handler: async (event, _ctx) => {
+      const cardId = getPathParam(event, 'cardId');
+      const versions = await cardVersionService.listCardVersions(cardId, false);
+      return jsonResponse(200, { items: versions });
+    },
+  },
+  'GET /admin/cards/{cardId}/diff': {
+    permission: Permission.ADMIN_READ,
+    handler: async (event, _ctx) => {
+      const cardId = getPathParam(event, 'cardId');
+      const { from, to } = cardDiffQuerySchema.parse(getQueryParams(event));
+      const diff = await cardVersionService.diffCardVersions(cardId, from, to, false);
+      return jsonResponse(200, diff);
+    },
+  },
+  'GET /admin/cards/{cardId}/approvals': {
+    permission: Permission.ADMIN_READ,
+    handler: async (event, _ctx) => {
+      const cardId = getPathParam(event, 'cardId');
+      const approvals = await approvalService.getCardApprovals(cardId);
+      return jsonResponse(200, approvals);
+    },
+  },
+  'POST /admin/cards/{cardId}/approvals': {
+    permission: Permission.CARD_APPROVE,
+    handler: async (event, ctx) => {
+      const cardId = getPathParam(event, 'cardId');
+      const input = approveCardSchema.parse(parseBody(event));
+      const status = await approvalService.approveCard(cardId, input, ctx.userId!);
+      await auditService.logAuditEvent(
+        'APPROVE_CARD',
+        'card',
+        cardId,
+        ctx.userId!,
+        {
+          metadata: { action: input.action, version: status.version, note: input.note },
+          requestId: ctx.requestId,
+        }
+      );
+      return jsonResponse(201, status);
     },
   },
   'POST /admin/cards': {
+    permission: Permission.CARD_CREATE,
     handler: async (event, ctx) => {
       const input = createCardSchema.parse(parseBody(event));
       const card = await cardService.createCard(input, ctx.userId!);
@@ -387,10 +750,16 @@ const routes: Record<string, Record<string, RouteHandler>> = {
     },
   },
   'PUT /admin/cards/{cardId}': {
+    permission: Permission.CARD_CREATE,
     handler: async (event, ctx) => {
       const cardId = getPathParam(event, 'cardId');
-      const input = updateCardSchema.parse(parseBody(event));
-      const card = await cardService.updateCard(cardId, input, ctx.userId!);
+      const { expectedVersion, ...input } = updateCardSchema.parse(parseBody(event));
+      const card = await cardService.updateCard(
+        cardId,
+        input,
+        ctx.userId!,
+        getExpectedVersion(event, expectedVersion)
+      );
       await auditService.logAuditEvent(
         'UPDATE_CARD',
         'card',
@@ -398,10 +767,11 @@ const routes: Record<string, Record<string, RouteHandler>> = {
         ctx.userId!,
         { diff: input, requestId: ctx.requestId }
       );
-      return jsonResponse(200, card);
+      return jsonResponse(200, card, versionTag(card.version));
     },
   },
   'POST /admin/cards/{cardId}/submit': {
+    permission: Permission.CARD_CREATE,
     handler: async (event, ctx) => {
       const cardId = getPathParam(event, 'cardId');
       const card = await cardService.submitCard(cardId, ctx.userId!);
@@ -416,20 +786,62 @@ const routes: Record<string, Record<string, RouteHandler>> = {
     },
   },
   'POST /admin/cards/{cardId}/publish': {
+    permission: Permission.CARD_PUBLISH,
     handler: async (event, ctx) => {
       const cardId = getPathParam(event, 'cardId');
-      const card = await cardService.publishCard(cardId, ctx.userId!);
+      const { card, clearedSchedule } = await publishScheduleService.publishNow(cardId, ctx.userId!);
       await auditService.logAuditEvent(
         'PUBLISH_CARD',
         'card',
         card.cardId,
         ctx.userId!,
-        { requestId: ctx.requestId }
+        {
+          ...(clearedSchedule && { metadata: { scheduledPublishAt: clearedSchedule.scheduledPublishAt } }),
+          requestId: ctx.requestId,
+        }
       );
       return jsonResponse(200, card);
     },
   },
+  'POST /admin/cards/{cardId}/schedule': {
+    permission: Permission.CARD_PUBLISH,
+    handler: async (event, ctx) => {
+      const cardId = getPathParam(event, 'cardId');
+      const input = schedulePublishSchema.parse(parseBody(event));
+      const schedule = await publishScheduleService.schedulePublish(cardId, input, ctx.userId!);
+      await auditService.logAuditEvent(
+        'SCHEDULE_CARD',
+        'card',
+        cardId,
+        ctx.userId!,
+        {
+          metadata: { scheduledPublishAt: schedule.scheduledPublishAt, note: input.note },
+          requestId: ctx.requestId,
+        }
+      );
+      return jsonResponse(200, schedule);
+    },
+  },
+  'POST /admin/cards/{cardId}/unschedule': {
+    permission: Permission.CARD_PUBLISH,
+    handler: async (event, ctx) => {
+      const cardId = getPathParam(event, 'cardId');
+      const schedule = await publishScheduleService.cancelScheduledPublish(cardId);
+      await auditService.logAuditEvent(
+        'UNSCHEDULE_CARD',
+        'card',
+        cardId,
+        ctx.userId!,
+        {
+          metadata: { scheduledPublishAt: schedule.scheduledPublishAt },
+          requestId: ctx.requestId,
+        }
+      );
+      return jsonResponse(200, schedule);
+    },
+  },
   'POST /admin/cards/{cardId}/dispute': {
+    permission: Permission.CARD_CORRECT,
     handler: async (event, ctx) => {
       const cardId = getPathParam(event, 'cardId');
       const input = disputeCardSchema.parse(parseBody(event));
@@ -445,21 +857,31 @@ const routes: Record<string, Record<string, RouteHandler>> = {
     },
   },
   'POST /admin/cards/{cardId}/correct': {
+    permission: Permission.CARD_CORRECT,
     handler: async (event, ctx) => {
       const cardId = getPathParam(event, 'cardId');
       const input = correctCardSchema.parse(parseBody(event));
-      const card = await cardService.correctCard(cardId, input.correctionNote, ctx.userId!);
+      const card = await cardService.correctCard(
+        cardId,
+        input.correctionNote,
+        ctx.userId!,
+        input.material
+      );
       await auditService.logAuditEvent(
         'CORRECT_CARD',
         'card',
         card.cardId,
         ctx.userId!,
-        { metadata: { correctionNote: input.correctionNote }, requestId: ctx.requestId }
+        {
+          metadata: { correctionNote: input.correctionNote, material: input.material },
+          requestId: ctx.requestId,
+        }
       );
       return jsonResponse(200, card);
     },
   },
   'POST /admin/cards/{cardId}/retract': {
+    permission: Permission.CARD_RETRACT,
     handler: async (event, ctx) => {
       const cardId = getPathParam(event, 'cardId');
       const input = retractCardSchema.parse(parseBody(event));
@@ -475,6 +897,7 @@ const routes: Record<string, Record<string, RouteHandler>> = {
     },
   },
   'POST /admin/cards/{cardId}/archive': {
+    permission: Permission.CARD_ARCHIVE,
     handler: async (event, ctx) => {
       const cardId = getPathParam(event, 'cardId');
       const card = await cardService.archiveCard(cardId, ctx.userId!);
@@ -489,6 +912,7 @@ const routes: Record<string, Record<string, RouteHandler>> = {
     },
   },
   'POST /admin/cards/{cardId}/restore': {
+    permission: Permission.CARD_ARCHIVE,
     handler: async (event, ctx) => {
       const cardId = getPathParam(event, 'cardId');
       const card = await cardService.restoreCard(cardId, ctx.userId!);
@@ -502,9 +926,33 @@ const routes: Record<string, Record<string, RouteHandler>> = {
       return jsonResponse(200, card);
     },
   },
+  'POST /admin/cards/migrate-status-history': {
+    permission: Permission.MAINTENANCE_RUN,
+    handler: async (event, ctx) => {
+      const input = migrateStatusHistorySchema.parse(parseBody(event));
+      const result = await statusHistoryService.migrateStatusHistory(input.cursor, input.dryRun);
+      if (!result.dryRun && result.cardsMigrated > 0) {
+        await auditService.logAuditEvent(
+          'MIGRATE_STATUS_HISTORY',
+          'card',
+          '*',
+          ctx.userId!,
+          {
+            metadata: {
+              cardsMigrated: result.cardsMigrated,
+              versionsRewritten: result.versionsRewritten,
+            },
+            requestId: ctx.requestId,
+          }
+        );
+      }
+      return jsonResponse(200, result);
+    },
+  },
 
   // Admin: Stats
   'GET /admin/stats': {
+    permission: Permission.ADMIN_READ,
     handler: async () => {
       const [cardStats, entityCount, pendingIntakeCount] = await Promise.all([
         cardService.getAdminStats(),
@@ -526,6 +974,7 @@ const routes: Record<string, Record<string, RouteHandler>> = {
 
   // Admin: Audit
   'GET /admin/audit': {
+    permission: Permission.AUDIT_READ,
     handler: async (event, _ctx) => {
       const query = auditQuerySchema.parse(getQueryParams(event));
       const result = await auditService.listAuditLogs(query);
@@ -535,6 +984,7 @@ const routes: Record<string, Record<string, RouteHandler>> = {
 
   // Admin: Intake
   'GET /admin/intake': {
+    permission: Permission.ADMIN_READ,
     handler: async (event, _ctx) => {
       const query = intakeQuerySchema.parse(getQueryParams(event));
       const result = await intakeService.listIntakeByStatus(
@@ -550,7 +1000,37 @@ const routes: Record<string, Record<string, RouteHandler>> = {
       });
     },
   },
+  'GET /admin/intake/runs': {
+    permission: Permission.ADMIN_READ,
+    handler: async (event) => {
+      const query = paginationSchema.parse(getQueryParams(event));
+      const result = await intakeRunService.listIntakeRuns(query);
+      return jsonResponse(200, result);
+    },
+  },
+  'GET /admin/intake/runs/{runId}': {
+    permission: Permission.ADMIN_READ,
+    handler: async (event) => {
+      const run = await intakeRunService.getIntakeRun(getPathParam(event, 'runId'));
+      return jsonResponse(200, run);
+    },
+  },
+  'GET /admin/intake/feed-health': {
+    permission: Permission.ADMIN_READ,
+    handler: async () => {
+      const items = await intakeRunService.listFeedHealth();
+      return jsonResponse(200, { items });
+    },
+  },
+  'GET /admin/intake/clusters/{clusterId}': {
+    permission: Permission.ADMIN_READ,
+    handler: async (event) => {
+      const cluster = await intakeClusterService.getIntakeCluster(getPathParam(event, 'clusterId'));
+      return jsonResponse(200, cluster);
+    },
+  },
   'GET /admin/intake/{intakeId}': {
+    permission: Permission.ADMIN_READ,
     handler: async (event, _ctx) => {
       const intakeId = getPathParam(event, 'intakeId');
       const item = await intakeService.getIntakeItem(intakeId);
@@ -558,6 +1038,7 @@ const routes: Record<string, Record<string, RouteHandler>> = {
     },
   },
   'POST /admin/intake/{intakeId}/reject': {
+    permission: Permission.INTAKE_REVIEW,
     handler: async (event, ctx) => {
       const intakeId = getPathParam(event, 'intakeId');
       // First get the item to get feedId and publishedAt
@@ -579,6 +1060,7 @@ const routes: Record<string, Record<string, RouteHandler>> = {
     },
   },
   'POST /admin/intake/{intakeId}/retry-extraction': {
+    permission: Permission.INTAKE_REVIEW,
     handler: async (event, ctx) => {
       const intakeId = getPathParam(event, 'intakeId');
       const existing = await intakeService.getIntakeItem(intakeId);
@@ -594,6 +1076,7 @@ const routes: Record<string, Record<string, RouteHandler>> = {
     },
   },
   'POST /admin/intake/retry-all-failed': {
+    permission: Permission.INTAKE_REVIEW,
     handler: async (_event, ctx) => {
       let count = 0;
       let cursor: Record<string, unknown> | undefined;
@@ -612,189 +1095,125 @@ const routes: Record<string, Record<string, RouteHandler>> = {
     },
   },
   'POST /admin/intake/{intakeId}/promote': {
+    permission: Permission.INTAKE_PROMOTE,
     handler: async (event, ctx) => {
       const intakeId = getPathParam(event, 'intakeId');
       const input = intakePromoteSchema.parse(parseBody(event));
 
-      // Get the intake item
       const intakeItem = await intakeService.getIntakeItem(intakeId);
 
-      // Collect all entity IDs (supports both legacy single and new multi-entity format)
-      const entityIds: string[] = [];
+      // Legacy single-entity fields and the multi-entity ones may be mixed
+      const entities: PromotionEntity[] = [
+        ...(input.entityId ? [{ entityId: input.entityId }] : []),
+        ...(input.createEntity ? [{ create: input.createEntity }] : []),
+        ...(input.entityIds ?? []).map((entityId) => ({ entityId })),
+        ...(input.createEntities ?? []).map((create) => ({ create })),
+      ];
 
-      // Legacy single entity support
-      if (input.entityId) {
-        entityIds.push(input.entityId);
-      }
-      if (input.createEntity) {
-        const entity = await entityService.createEntity(
-          {
-            name: input.createEntity.name,
-            type: input.createEntity.type,
-            aliases: [],
+      const { promotion, replayed } = await promotionService.promoteIntake(
+        intakeId,
+        {
+          entities,
+          relationships: input.createRelationships?.map((rel) => ({
+            from: { entityId: rel.fromEntityId },
+            to: { entityId: rel.toEntityId },
+            type: rel.type,
+            description: rel.description,
+          })),
+          card: {
+            summary: input.cardSummary,
+            category: 'consumer',
+            tags: input.tags || intakeItem.suggestedTags || [],
           },
-          ctx.userId!
-        );
-        entityIds.push(entity.entityId);
-        await auditService.logAuditEvent(
-          'CREATE_ENTITY',
-          'entity',
-          entity.entityId,
-          ctx.userId!,
-          { requestId: ctx.requestId, metadata: { fromIntake: intakeId } }
-        );
-      }
+          includeCluster: input.includeCluster,
+        },
+        ctx.userId!
+      );
 
-      // Multi-entity support
-      if (input.entityIds) {
-        entityIds.push(...input.entityIds);
-      }
-      if (input.createEntities) {
-        for (const newEntity of input.createEntities) {
-          const entity = await entityService.createEntity(
-            {
-              name: newEntity.name,
-              type: newEntity.type,
-              aliases: [],
-            },
-            ctx.userId!
+      const { sourceId, cardId, entityIds } = promotion;
+      const relationshipIds = promotionService.promotionTargets(promotion, 'CREATE_RELATIONSHIP');
+      // Cluster members attached as further sources, with the source made for each
+      const clusterSources = promotion.steps
+        .filter((step) => step.type === 'CREATE_SOURCE' && step.intakeId)
+        .map((step) => ({ intakeId: step.intakeId!, sourceId: step.targetId }));
+      // PDFs the promoted page links to, attached from their ingestion snapshots
+      const linkedPdfSources = promotion.steps
+        .filter((step) => step.type === 'CREATE_SOURCE' && step.linkedPdfUrl)
+        .map((step) => step.targetId);
+
+      // A retry of a finished promotion was audited the first time round
+      if (!replayed) {
+        const auditOptions = (metadata: Record<string, unknown>) => ({ requestId: ctx.requestId, metadata });
+
+        for (const entityId of promotionService.promotionTargets(promotion, 'CREATE_ENTITY')) {
+          await auditService.logAuditEvent('CREATE_ENTITY', 'entity', entityId, ctx.userId!, auditOptions({ fromIntake: intakeId }));
+        }
+        await auditService.logAuditEvent('CREATE_SOURCE', 'source', sourceId, ctx.userId!, auditOptions({ fromIntake: intakeId }));
+        for (const pdfSourceId of linkedPdfSources) {
+          await auditService.logAuditEvent(
+            'CREATE_SOURCE',
+            'source',
+            pdfSourceId,
+            ctx.userId!,
+            auditOptions({ fromIntake: intakeId, linkedFrom: sourceId })
           );
-          entityIds.push(entity.entityId);
+        }
+        for (const member of clusterSources) {
           await auditService.logAuditEvent(
-            'CREATE_ENTITY',
-            'entity',
-            entity.entityId,
+            'CREATE_SOURCE',
+            'source',
+            member.sourceId,
             ctx.userId!,
-            { requestId: ctx.requestId, metadata: { fromIntake: intakeId } }
+            auditOptions({ fromIntake: member.intakeId })
           );
         }
-      }
-
-      // Dedupe entity IDs (in case same ID provided multiple ways)
-      const uniqueEntityIds = [...new Set(entityIds)];
-
-      if (uniqueEntityIds.length === 0) {
-        throw new ValidationError('At least one entity must be provided');
-      }
-
-      // Create source from intake item
-      const source = await sourceService.createSource(
-        {
-          title: intakeItem.title,
-          publisher: intakeItem.publisher,
-          url: intakeItem.canonicalUrl,
-          docType: 'HTML',
-          excerpt: intakeItem.summary,
-        },
-        ctx.userId!
-      );
-      await auditService.logAuditEvent(
-        'CREATE_SOURCE',
-        'source',
-        source.sourceId,
-        ctx.userId!,
-        { requestId: ctx.requestId, metadata: { fromIntake: intakeId } }
-      );
-
-      // Capture HTML snapshot from the URL
-      // This fetches the page, computes SHA-256, uploads to S3, and creates signed manifest
-      let verifiedSource = source;
-      try {
-        verifiedSource = await sourceService.captureHtmlSnapshot(
-          source.sourceId,
-          intakeItem.canonicalUrl,
-          ctx.userId!
+        await auditService.logAuditEvent(
+          'CREATE_CARD',
+          'card',
+          cardId,
+          ctx.userId!,
+          auditOptions({ fromIntake: intakeId, entityCount: entityIds.length })
         );
-        ctx.logger.info({
-          sourceId: source.sourceId,
-          sha256: verifiedSource.sha256,
-          byteLength: verifiedSource.byteLength,
-        }, 'HTML snapshot captured');
-      } catch (snapshotError) {
-        // Log warning but don't fail the promotion - source is still created
-        ctx.logger.warn({
-          sourceId: source.sourceId,
-          url: intakeItem.canonicalUrl,
-          error: snapshotError instanceof Error ? snapshotError.message : String(snapshotError),
-        }, 'Failed to capture HTML snapshot');
-      }
-
-      // Create card from intake item with all selected entities
-      const card = await cardService.createCard(
-        {
-          title: intakeItem.title,
-          claim: intakeItem.title,
-          summary: input.cardSummary,
-          category: 'consumer',
-          entityIds: uniqueEntityIds,
-          eventDate: intakeItem.publishedAt.split('T')[0],
-          sourceRefs: [source.sourceId],
-          evidenceStrength: 'HIGH',
-          tags: input.tags || intakeItem.suggestedTags || [],
-        },
-        ctx.userId!
-      );
-      await auditService.logAuditEvent(
-        'CREATE_CARD',
-        'card',
-        card.cardId,
-        ctx.userId!,
-        { requestId: ctx.requestId, metadata: { fromIntake: intakeId, entityCount: uniqueEntityIds.length } }
-      );
-
-      // Create relationships from LLM suggestions (as DRAFT, linked to this source)
-      const relationshipIds: string[] = [];
-      if (input.createRelationships && input.createRelationships.length > 0) {
-        for (const rel of input.createRelationships) {
-          const relationship = await relationshipService.createRelationship(
-            {
-              fromEntityId: rel.fromEntityId,
-              toEntityId: rel.toEntityId,
-              type: rel.type,
-              sourceRefs: [source.sourceId],
-              description: rel.description,
-            },
-            ctx.userId!
-          );
-          relationshipIds.push(relationship.relationshipId);
+        for (const relationshipId of relationshipIds) {
           await auditService.logAuditEvent(
             'CREATE_RELATIONSHIP',
             'relationship',
-            relationship.relationshipId,
+            relationshipId,
             ctx.userId!,
-            { requestId: ctx.requestId, metadata: { fromIntake: intakeId, sourceId: source.sourceId } }
+            auditOptions({ fromIntake: intakeId, sourceId })
+          );
+        }
+        await auditService.logAuditEvent(
+          'PROMOTE_INTAKE',
+          'intake',
+          intakeId,
+          ctx.userId!,
+          auditOptions({ sourceId, cardId, relationshipCount: relationshipIds.length, promotionId: promotion.promotionId })
+        );
+        for (const member of clusterSources) {
+          await auditService.logAuditEvent(
+            'PROMOTE_INTAKE',
+            'intake',
+            member.intakeId,
+            ctx.userId!,
+            auditOptions({ sourceId: member.sourceId, cardId, withIntake: intakeId, promotionId: promotion.promotionId })
           );
         }
       }
 
-      // Mark intake item as promoted
-      await intakeService.markIntakePromoted(
-        intakeItem.feedId,
-        intakeItem.publishedAt,
-        intakeId,
-        source.sourceId,
-        card.cardId,
-        ctx.userId!
-      );
-      await auditService.logAuditEvent(
-        'PROMOTE_INTAKE',
-        'intake',
-        intakeId,
-        ctx.userId!,
-        { requestId: ctx.requestId, metadata: { sourceId: source.sourceId, cardId: card.cardId, relationshipCount: relationshipIds.length } }
-      );
-
-      return jsonResponse(201, {
-        sourceId: source.sourceId,
-        cardId: card.cardId,
-        entityIds: uniqueEntityIds,
+      return jsonResponse(replayed ? 200 : 201, {
+        sourceId,
+        cardId,
+        entityIds,
         relationshipIds: relationshipIds.length > 0 ? relationshipIds : undefined,
+        clusterIntakeIds: clusterSources.length > 0 ? clusterSources.map((member) => member.intakeId) : undefined,
       });
     },
   },
 
   // Admin: Relationships
   'GET /admin/relationships': {
+    permission: Permission.ADMIN_READ,
     handler: async (event, _ctx) => {
       const query = relationshipQuerySchema.parse(getQueryParams(event));
       const result = await relationshipService.listRelationships(query);
@@ -802,13 +1221,15 @@ const routes: Record<string, Record<string, RouteHandler>> = {
     },
   },
   'GET /admin/relationships/{relationshipId}': {
+    permission: Permission.ADMIN_READ,
     handler: async (event, _ctx) => {
       const relationshipId = getPathParam(event, 'relationshipId');
       const relationship = await relationshipService.getRelationship(relationshipId);
-      return jsonResponse(200, relationship);
+      return jsonResponse(200, relationship, versionTag(relationship.version));
     },
   },
   'POST /admin/relationships': {
+    permission: Permission.RELATIONSHIP_CREATE,
     handler: async (event, ctx) => {
       const input = createRelationshipSchema.parse(parseBody(event));
       const relationship = await relationshipService.createRelationship(input, ctx.userId!);
@@ -823,10 +1244,16 @@ const routes: Record<string, Record<string, RouteHandler>> = {
     },
   },
   'PUT /admin/relationships/{relationshipId}': {
+    permission: Permission.RELATIONSHIP_CREATE,
     handler: async (event, ctx) => {
       const relationshipId = getPathParam(event, 'relationshipId');
-      const input = updateRelationshipSchema.parse(parseBody(event));
-      const relationship = await relationshipService.updateRelationship(relationshipId, input, ctx.userId!);
+      const { expectedVersion, ...input } = updateRelationshipSchema.parse(parseBody(event));
+      const relationship = await relationshipService.updateRelationship(
+        relationshipId,
+        input,
+        ctx.userId!,
+        getExpectedVersion(event, expectedVersion)
+      );
       await auditService.logAuditEvent(
         'UPDATE_RELATIONSHIP',
         'relationship',
@@ -834,10 +1261,11 @@ const routes: Record<string, Record<string, RouteHandler>> = {
         ctx.userId!,
         { diff: input, requestId: ctx.requestId }
       );
-      return jsonResponse(200, relationship);
+      return jsonResponse(200, relationship, versionTag(relationship.version));
     },
   },
   'POST /admin/relationships/{relationshipId}/publish': {
+    permission: Permission.RELATIONSHIP_PUBLISH,
     handler: async (event, ctx) => {
       const relationshipId = getPathParam(event, 'relationshipId');
       const relationship = await relationshipService.publishRelationship(relationshipId, ctx.userId!);
@@ -852,6 +1280,7 @@ const routes: Record<string, Record<string, RouteHandler>> = {
     },
   },
   'POST /admin/relationships/{relationshipId}/retract': {
+    permission: Permission.RELATIONSHIP_RETRACT,
     handler: async (event, ctx) => {
       const relationshipId = getPathParam(event, 'relationshipId');
       const input = retractRelationshipSchema.parse(parseBody(event));
@@ -867,6 +1296,123 @@ const routes: Record<string, Record<string, RouteHandler>> = {
     },
   },
 
+  // Admin: Review threads
+  'GET /admin/cards/{cardId}/threads': {
+    permission: Permission.ADMIN_READ,
+    handler: async (event, _ctx) => {
+      const cardId = getPathParam(event, 'cardId');
+      const threads = await reviewThreadService.listThreads('card', cardId);
+      return jsonResponse(200, { items: threads });
+    },
+  },
+  'GET /admin/cards/{cardId}/source-alerts': {
+    permission: Permission.ADMIN_READ,
+    handler: async (event, _ctx) => {
+      const cardId = getPathParam(event, 'cardId');
+      const alerts = await sourceWatchService.listCardSourceAlerts(cardId);
+      return jsonResponse(200, { items: alerts });
+    },
+  },
+  'POST /admin/cards/{cardId}/threads': {
+    permission: Permission.REVIEW_COMMENT,
+    handler: async (event, ctx) => {
+      const cardId = getPathParam(event, 'cardId');
+      const input = createReviewThreadSchema.parse(parseBody(event));
+      const thread = await reviewThreadService.createThread('card', cardId, input, ctx.userId!);
+      await auditService.logAuditEvent(
+        'CREATE_REVIEW_THREAD',
+        'card',
+        cardId,
+        ctx.userId!,
+        { metadata: { threadId: thread.threadId, anchor: thread.anchor }, requestId: ctx.requestId }
+      );
+      return jsonResponse(201, thread);
+    },
+  },
+  'GET /admin/relationships/{relationshipId}/threads': {
+    permission: Permission.ADMIN_READ,
+    handler: async (event, _ctx) => {
+      const relationshipId = getPathParam(event, 'relationshipId');
+      const threads = await reviewThreadService.listThreads('relationship', relationshipId);
+      return jsonResponse(200, { items: threads });
+    },
+  },
+  'POST /admin/relationships/{relationshipId}/threads': {
+    permission: Permission.REVIEW_COMMENT,
+    handler: async (event, ctx) => {
+      const relationshipId = getPathParam(event, 'relationshipId');
+      const input = createReviewThreadSchema.parse(parseBody(event));
+      const thread = await reviewThreadService.createThread(
+        'relationship',
+        relationshipId,
+        input,
+        ctx.userId!
+      );
+      await auditService.logAuditEvent(
+        'CREATE_REVIEW_THREAD',
+        'relationship',
+        relationshipId,
+        ctx.userId!,
+        { metadata: { threadId: thread.threadId, anchor: thread.anchor }, requestId: ctx.requestId }
+      );
+      return jsonResponse(201, thread);
+    },
+  },
+  'GET /admin/review-threads/mentions': {
+    permission: Permission.ADMIN_READ,
+    handler: async (event, _ctx) => {
+      const query = reviewMentionsQuerySchema.parse(getQueryParams(event));
+      const result = await reviewThreadService.listMentions(query);
+      return jsonResponse(200, result);
+    },
+  },
+  'POST /admin/review-threads/{threadId}/comments': {
+    permission: Permission.REVIEW_COMMENT,
+    handler: async (event, ctx) => {
+      const threadId = getPathParam(event, 'threadId');
+      const input = addReviewCommentSchema.parse(parseBody(event));
+      const thread = await reviewThreadService.addComment(threadId, input.body, ctx.userId!);
+      await auditService.logAuditEvent(
+        'COMMENT_REVIEW_THREAD',
+        thread.targetType,
+        thread.targetId,
+        ctx.userId!,
+        { metadata: { threadId }, requestId: ctx.requestId }
+      );
+      return jsonResponse(201, thread);
+    },
+  },
+  'POST /admin/review-threads/{threadId}/resolve': {
+    permission: Permission.REVIEW_COMMENT,
+    handler: async (event, ctx) => {
+      const threadId = getPathParam(event, 'threadId');
+      const thread = await reviewThreadService.setThreadStatus(threadId, 'RESOLVED', ctx.userId!);
+      await auditService.logAuditEvent(
+        'RESOLVE_REVIEW_THREAD',
+        thread.targetType,
+        thread.targetId,
+        ctx.userId!,
+        { metadata: { threadId }, requestId: ctx.requestId }
+      );
+      return jsonResponse(200, thread);
+    },
+  },
+  'POST /admin/review-threads/{threadId}/unresolve': {
+    permission: Permission.REVIEW_COMMENT,
+    handler: async (event, ctx) => {
+      const threadId = getPathParam(event, 'threadId');
+      const thread = await reviewThreadService.setThreadStatus(threadId, 'OPEN', ctx.userId!);
+      await auditService.logAuditEvent(
+        'UNRESOLVE_REVIEW_THREAD',
+        thread.targetType,
+        thread.targetId,
+        ctx.userId!,
+        { metadata: { threadId }, requestId: ctx.requestId }
+      );
+      return jsonResponse(200, thread);
+    },
+  },
+
   // Public: All published relationships (for network graph)
   'GET /relationships': {
     handler: async (event, _ctx) => {
@@ -912,8 +1458,278 @@ const routes: Record<string, Record<string, RouteHandler>> = {
     },
   },
 
+  // Scoring weights (public: active version only)
+  'GET /config/scoring-weights': {
+    handler: async () => {
+      const active = await scoringWeightsService.getActiveScoringWeights();
+      return jsonResponse(200, active);
+    },
+  },
+
+  // Admin: Scoring weights
+  'GET /admin/config/scoring-weights': {
+    permission: Permission.ADMIN_READ,
+    handler: async () => {
+      const [active, history, latestJob] = await Promise.all([
+        scoringWeightsService.getActiveScoringWeights(),
+        scoringWeightsService.listScoringWeightVersions(),
+        scoringWeightsService.getLatestRescoreJob(),
+      ]);
+      return jsonResponse(200, { active, history, latestJob });
+    },
+  },
+  'POST /admin/config/scoring-weights': {
+    permission: Permission.CONFIG_WRITE,
+    handler: async (event, ctx) => {
+      const input = createScoringWeightsSchema.parse(parseBody(event));
+      const previous = await scoringWeightsService.getActiveScoringWeights();
+      const created = await scoringWeightsService.createScoringWeightsVersion(input, ctx.userId!);
+      const job = await scoringWeightsService.createRescoreJob(created.version, ctx.userId!);
+      await auditService.logAuditEvent(
+        'UPDATE_SCORING_WEIGHTS',
+        'config',
+        'scoring-weights',
+        ctx.userId!,
+        {
+          diff: { before: previous.weights, after: created.weights },
+          metadata: { version: created.version, note: input.note, rescoreJobId: job.jobId },
+          requestId: ctx.requestId,
+        }
+      );
+      return jsonResponse(201, { config: created, job });
+    },
+  },
+  'POST /admin/config/scoring-weights/preview': {
+    permission: Permission.ADMIN_READ,
+    handler: async (event, _ctx) => {
+      const input = previewScoringWeightsSchema.parse(parseBody(event));
+      const preview = await scoringService.previewScoringWeights(input.weights);
+      return jsonResponse(200, preview);
+    },
+  },
+  'POST /admin/config/scoring-weights/rescore': {
+    permission: Permission.CONFIG_WRITE,
+    handler: async (_event, ctx) => {
+      const active = await scoringWeightsService.getActiveScoringWeights();
+      const job = await scoringWeightsService.createRescoreJob(active.version, ctx.userId!);
+      return jsonResponse(202, job);
+    },
+  },
+
+  // Admin: Intake feeds
+  'GET /admin/feeds': {
+    permission: Permission.ADMIN_READ,
+    handler: async () => {
+      const result = await intakeFeedService.getIntakeFeeds();
+      return jsonResponse(200, result);
+    },
+  },
+  'POST /admin/feeds': {
+    permission: Permission.CONFIG_WRITE,
+    handler: async (event, ctx) => {
+      const input = createIntakeFeedSchema.parse(parseBody(event));
+      const feed = await intakeFeedService.createFeed(input, ctx.userId!);
+      await auditService.logAuditEvent('CREATE_FEED', 'feed', feed.id, ctx.userId!, {
+        diff: input,
+        requestId: ctx.requestId,
+      });
+      return jsonResponse(201, feed, versionTag(feed.version));
+    },
+  },
+  // Fetch and parse a feed that hasn't been saved yet; nothing is ingested
+  'POST /admin/feeds/test-fetch': {
+    permission: Permission.CONFIG_WRITE,
+    handler: async (event) => {
+      const input = createIntakeFeedSchema.parse(parseBody(event));
+      const feed = await intakeFeedService.validateDraftFeed(input);
+      const rails = intakeService.getRailsWithEnvOverrides(await intakeFeedService.getIntakeRails());
+      const preview = await intakeService.previewFeed(feed, rails);
+      return jsonResponse(200, preview);
+    },
+  },
+  'GET /admin/feeds/{feedId}': {
+    permission: Permission.ADMIN_READ,
+    handler: async (event) => {
+      const feed = await intakeFeedService.getFeed(getPathParam(event, 'feedId'));
+      return jsonResponse(200, feed, versionTag(feed.version));
+    },
+  },
+  'PUT /admin/feeds/{feedId}': {
+    permission: Permission.CONFIG_WRITE,
+    handler: async (event, ctx) => {
+      const feedId = getPathParam(event, 'feedId');
+      const { expectedVersion, ...input } = updateIntakeFeedSchema.parse(parseBody(event));
+      const feed = await intakeFeedService.updateFeed(
+        feedId,
+        input,
+        ctx.userId!,
+        getExpectedVersion(event, expectedVersion)
+      );
+      await auditService.logAuditEvent('UPDATE_FEED', 'feed', feedId, ctx.userId!, {
+        diff: input,
+        metadata: { version: feed.version },
+        requestId: ctx.requestId,
+      });
+      return jsonResponse(200, feed, versionTag(feed.version));
+    },
+  },
+  'POST /admin/feeds/{feedId}/test-fetch': {
+    permission: Permission.CONFIG_WRITE,
+    handler: async (event) => {
+      const feed = await intakeFeedService.getFeed(getPathParam(event, 'feedId'));
+      const rails = intakeService.getRailsWithEnvOverrides(await intakeFeedService.getIntakeRails());
+      const preview = await intakeService.previewFeed(feed, rails);
+      return jsonResponse(200, preview);
+    },
+  },
+  'PUT /admin/config/intake-rails': {
+    permission: Permission.CONFIG_WRITE,
+    handler: async (event, ctx) => {
+      const { expectedVersion, ...input } = updateIntakeRailsSchema.parse(parseBody(event));
+      const previous = await intakeFeedService.getIntakeRails();
+      const rails = await intakeFeedService.updateIntakeRails(
+        input,
+        ctx.userId!,
+        getExpectedVersion(event, expectedVersion)
+      );
+      await auditService.logAuditEvent('UPDATE_INTAKE_RAILS', 'config', 'intake-rails', ctx.userId!, {
+        diff: { before: previous, after: rails },
+        metadata: { version: rails.version },
+        requestId: ctx.requestId,
+      });
+      return jsonResponse(200, rails, versionTag(rails.version));
+    },
+  },
+
+  // Admin: Tags
+  'POST /admin/tags/merge': {
+    permission: Permission.TAG_WRITE,
+    handler: async (event, ctx) => {
+      const input = mergeTagsSchema.parse(parseBody(event));
+      const result = await tagService.mergeTags(input.from, input.into, ctx.userId!, input.dryRun);
+      if (!result.dryRun) {
+        await auditService.logAuditEvent(
+          'MERGE_TAGS',
+          'tag',
+          tagService.normalizeTag(input.into),
+          ctx.userId!,
+          {
+            metadata: { from: input.from, cardsUpdated: result.cardsUpdated },
+            requestId: ctx.requestId,
+          }
+        );
+      }
+      return jsonResponse(200, result);
+    },
+  },
+  'POST /admin/tags/normalize': {
+    permission: Permission.TAG_WRITE,
+    handler: async (event, ctx) => {
+      const input = normalizeTagsSchema.parse(parseBody(event));
+      const result = await tagService.normalizeCardTags(ctx.userId!, input.dryRun);
+      if (!result.dryRun) {
+        await auditService.logAuditEvent(
+          'NORMALIZE_TAGS',
+          'tag',
+          '*',
+          ctx.userId!,
+          {
+            metadata: { cardsChecked: result.cardsChecked, cardsUpdated: result.cardsUpdated },
+            requestId: ctx.requestId,
+          }
+        );
+      }
+      return jsonResponse(200, result);
+    },
+  },
+  'POST /admin/tags/rebuild': {
+    permission: Permission.MAINTENANCE_RUN,
+    handler: async (event, _ctx) => {
+      const input = rebuildTagIndexSchema.parse(parseBody(event));
+      const result = await tagService.rebuildTagIndex(input.cursor);
+      return jsonResponse(200, result);
+    },
+  },
+
+  // Admin: Search
+  'POST /admin/search/rebuild': {
+    permission: Permission.MAINTENANCE_RUN,
+    handler: async (event, _ctx) => {
+      const input = rebuildSearchIndexSchema.parse(parseBody(event));
+      const result = await searchService.rebuildSearchIndex(input.cursor);
+      return jsonResponse(200, result);
+    },
+  },
+
+  // Admin: Corrections log
+  'POST /admin/corrections/rebuild': {
+    permission: Permission.MAINTENANCE_RUN,
+    handler: async (event, _ctx) => {
+      const input = rebuildCorrectionsLogSchema.parse(parseBody(event));
+      const result = await correctionsService.rebuildCorrectionsLog(input.cursor);
+      return jsonResponse(200, result);
+    },
+  },
+
+  // Admin: Right-of-reply moderation
+  'GET /admin/replies': {
+    permission: Permission.REPLY_MODERATE,
+    handler: async (event, _ctx) => {
+      const query = replyQuerySchema.parse(getQueryParams(event));
+      const result = await replyService.listReplies(query);
+      return jsonResponse(200, result);
+    },
+  },
+  'GET /admin/replies/{replyId}': {
+    permission: Permission.REPLY_MODERATE,
+    handler: async (event, _ctx) => {
+      const replyId = getPathParam(event, 'replyId');
+      const reply = await replyService.getReply(replyId);
+      return jsonResponse(200, reply);
+    },
+  },
+  'POST /admin/replies/{replyId}/publish': {
+    permission: Permission.REPLY_MODERATE,
+    handler: async (event, ctx) => {
+      const replyId = getPathParam(event, 'replyId');
+      const input = moderateReplySchema.parse(parseBody(event));
+      const reply = await replyService.publishReply(replyId, ctx.userId!, input.note);
+      await auditService.logAuditEvent(
+        'PUBLISH_REPLY',
+        'reply',
+        replyId,
+        ctx.userId!,
+        {
+          metadata: { cardId: reply.cardId, entityId: reply.entityId },
+          requestId: ctx.requestId,
+        }
+      );
+      return jsonResponse(200, reply);
+    },
+  },
+  'POST /admin/replies/{replyId}/reject': {
+    permission: Permission.REPLY_MODERATE,
+    handler: async (event, ctx) => {
+      const replyId = getPathParam(event, 'replyId');
+      const input = rejectReplySchema.parse(parseBody(event));
+      const reply = await replyService.rejectReply(replyId, ctx.userId!, input.reason);
+      await auditService.logAuditEvent(
+        'REJECT_REPLY',
+        'reply',
+        replyId,
+        ctx.userId!,
+        {
+          metadata: { cardId: reply.cardId, entityId: reply.entityId, reason: input.reason },
+          requestId: ctx.requestId,
+        }
+      );
+      return jsonResponse(200, reply);
+    },
+  },
+
   // Admin: Entity Aliases
   'POST /admin/entities/{entityId}/aliases': {
+    permission: Permission.ENTITY_WRITE,
     handler: async (event, ctx) => {
       const entityId = getPathParam(event, 'entityId');
       const input = addAliasSchema.parse(parseBody(event));
@@ -946,12 +1762,12 @@ const routes: Record<string, Record<string, RouteHandler>> = {
 function matchRoute(
   method: string,
   path: string
-): { handler: RouteHandler; params: Record<string, string> } | null {
+): { route: Route; params: Record<string, string> } | null {
   const routeKey = `${method} ${path}`;
 
   // Direct match
   if (routes[routeKey]) {
-    return { handler: routes[routeKey].handler, params: {} };
+    return { route: routes[routeKey], params: {} };
   }
 
   // Pattern matching with path parameters
@@ -978,7 +1794,7 @@ function matchRoute(
     }
 
     if (matches) {
-      return { handler: route.handler, params };
+      return { route, params };
     }
   }
 
@@ -1021,9 +1837,16 @@ export async function handler(
 
     // Check admin requirement
     const isAdminRoute = requiresAdmin(method, path);
-    const { userId, groups } = getUserInfoFromEvent(event);
+    const { userId, groups, authError } = await getUserInfoFromEvent(event);
+    const permissions = permissionsForGroups(groups);
 
     if (isAdminRoute) {
+      // A token that fails verification is rejected with the reason
+      if (authError) {
+        logger.warn({ reason: authError.message }, 'Rejected admin request with invalid JWT');
+        throw authError;
+      }
+
       // Must have a valid JWT
       if (!userId) {
         return jsonResponse(401, {
@@ -1035,9 +1858,9 @@ export async function handler(
         });
       }
 
-      // Must be in the admin group - having a valid JWT is not enough
-      if (!isUserAdmin(groups)) {
-        logger.warn({ userId, groups }, 'User attempted admin access without admin group');
+      // Must hold a staff role - having a valid JWT is not enough
+      if (permissions.length === 0) {
+        logger.warn({ userId, groups }, 'User attempted admin access without a staff group');
         return jsonResponse(403, {
           error: {
             code: 'FORBIDDEN',
@@ -1046,6 +1869,19 @@ export async function handler(
           },
         });
       }
+
+      // ...and that role must grant this route's permission
+      if (!hasPermission(permissions, groups, match.route)) {
+        const required = match.route.permission ?? 'admin';
+        logger.warn({ userId, groups, required }, 'User lacks permission for admin route');
+        return jsonResponse(403, {
+          error: {
+            code: 'FORBIDDEN',
+            message: `Permission required: ${required}`,
+            requestId,
+          },
+        });
+      }
     }
 
     const handlerContext: HandlerContext = {
@@ -1053,10 +1889,14 @@ export async function handler(
       logger,
       userId,
       isAdmin: isUserAdmin(groups),
+      permissions,
     };
 
-    // Execute handler
-    const response = await match.handler(event, handlerContext);
+    // Execute handler (admin mutations honor Idempotency-Key)
+    const idempotencyKey = isAdminRoute && method !== 'GET' ? getIdempotencyKey(event) : undefined;
+    const response = idempotencyKey
+      ? await executeIdempotent(event, match.route.handler, handlerContext, idempotencyKey, method, path)
+      : await match.route.handler(event, handlerContext);
 
     // Log status code if available (response can be string for HTTP API format 2.0)
     const statusCode = typeof response === 'object' && response !== null ? (response as { statusCode?: number }).statusCode : undefined;
@@ -4,6 +4,7 @@ import { logger } from '../lib/logger.js';
 import { config } from '../lib/config.js';
 import { listIntakeByStatus, updateIntakeItem } from '../lib/services/intake.js';
 import { extractFromIntakeItem } from '../lib/services/extraction.js';
+import { clusterRecentIntake } from '../lib/services/intake-clusters.js';
 
 /**
  * Lambda handler for LLM-based entity and relationship extraction.
@@ -83,6 +84,19 @@ export async function handler(event: ScheduledEvent, context: Context): Promise<
       },
       'Completed intake extraction run'
     );
+
+    // Extracted entities tell apart stories the text alone can't, so
+    // recluster before the editor sees these items
+    if (succeeded > 0) {
+      try {
+        await clusterRecentIntake();
+      } catch (error) {
+        logger.error(
+          { requestId, error: error instanceof Error ? error.message : 'Unknown error' },
+          'Failed to cluster intake items'
+        );
+      }
+    }
   } catch (error) {
     logger.error(
       {
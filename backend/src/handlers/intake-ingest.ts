@@ -1,9 +1,12 @@
 import type { ScheduledEvent, Context } from 'aws-lambda';
 import { logger } from '../lib/logger.js';
 import { runIntakeIngestion } from '../lib/services/intake.js';
+import { getIntakeFeeds } from '../lib/services/intake-feeds.js';
+import { snapshotIngestedItems } from '../lib/services/intake-snapshots.js';
+import { clusterRecentIntake } from '../lib/services/intake-clusters.js';
 
 /**
- * Lambda handler for scheduled RSS ingestion
+ * Lambda handler for scheduled feed ingestion (RSS, Atom and JSON Feed)
  * Triggered by EventBridge on a daily schedule
  */
 export async function handler(event: ScheduledEvent, context: Context): Promise<void> {
@@ -19,7 +22,8 @@ export async function handler(event: ScheduledEvent, context: Context): Promise<
   );
 
   try {
-    const summary = await runIntakeIngestion();
+    const { rails, feeds } = await getIntakeFeeds();
+    const summary = await runIntakeIngestion(rails, feeds);
 
     logger.info(
       {
@@ -29,6 +33,7 @@ export async function handler(event: ScheduledEvent, context: Context): Promise<
         totalSkipped: summary.totalSkipped,
         feedResults: summary.feedResults.map((r) => ({
           feedId: r.feedId,
+          fetchStatus: r.fetchStatus,
           ingested: r.itemsIngested,
           skipped: r.itemsSkipped,
           errors: r.errors.length,
@@ -49,6 +54,29 @@ export async function handler(event: ScheduledEvent, context: Context): Promise<
         );
       }
     }
+
+    // Snapshot what this run ingested while the pages still say what they said
+    if (summary.totalIngested > 0) {
+      try {
+        const snapshots = await snapshotIngestedItems(summary.startedAt, rails);
+        logger.info({ requestId, runId: summary.runId, ...snapshots }, 'Captured intake snapshots');
+      } catch (error) {
+        logger.error(
+          { requestId, runId: summary.runId, error: error instanceof Error ? error.message : 'Unknown error' },
+          'Failed to capture intake snapshots'
+        );
+      }
+
+      // Group the new items with other feeds' reports of the same story
+      try {
+        await clusterRecentIntake();
+      } catch (error) {
+        logger.error(
+          { requestId, runId: summary.runId, error: error instanceof Error ? error.message : 'Unknown error' },
+          'Failed to cluster intake items'
+        );
+      }
+    }
   } catch (error) {
     logger.error(
       {
@@ -0,0 +1,63 @@
+/**
+ * Scheduled Publish Lambda Handler
+ *
+ * Publishes REVIEW cards whose scheduled or embargoed release time has
+ * passed. Runs on a schedule via EventBridge; cards that are still blocked
+ * (missing approvals, unverified sources) keep their schedule and are
+ * retried on the next run.
+ */
+
+import type { ScheduledEvent, Context } from 'aws-lambda';
+import { logger } from '../lib/logger.js';
+import { isReadOnlyMode } from '../lib/ssm.js';
+import { runScheduledPublishes } from '../lib/services/publish-schedule.js';
+
+const scheduleLogger = logger.child({ handler: 'scheduled-publish' });
+
+export async function handler(event: ScheduledEvent, context: Context): Promise<void> {
+  const requestId = context.awsRequestId;
+
+  if (await isReadOnlyMode()) {
+    scheduleLogger.info({ requestId }, 'Read-only mode; skipping scheduled publishes');
+    return;
+  }
+
+  try {
+    const summary = await runScheduledPublishes();
+
+    if (summary.due === 0) {
+      scheduleLogger.debug({ requestId, time: event.time }, 'No scheduled publishes due');
+      return;
+    }
+
+    scheduleLogger.info(
+      {
+        requestId,
+        due: summary.due,
+        published: summary.published,
+        blocked: summary.blocked,
+        dropped: summary.dropped,
+      },
+      'Completed scheduled publish run'
+    );
+
+    for (const result of summary.results) {
+      if (result.outcome !== 'published') {
+        scheduleLogger.warn(
+          { cardId: result.cardId, outcome: result.outcome, reason: result.reason },
+          'Scheduled publish did not run'
+        );
+      }
+    }
+  } catch (error) {
+    scheduleLogger.error(
+      {
+        requestId,
+        error: (error as Error).message,
+        stack: (error as Error).stack,
+      },
+      'Scheduled publish run failed'
+    );
+    throw error;
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Scoring Rescore Lambda Handler
+ *
+ * Works through the latest queued rescore job in batches, stamping every
+ * entity's aggregate score with the active weights version. Runs on a
+ * schedule via EventBridge; idle runs exit after a single query.
+ */
+
+import type { ScheduledEvent, Context } from 'aws-lambda';
+import { logger } from '../lib/logger.js';
+import { runRescoreJob } from '../lib/services/scoring.js';
+
+const rescoreLogger = logger.child({ handler: 'scoring-rescore' });
+
+export async function handler(event: ScheduledEvent, context: Context): Promise<void> {
+  const requestId = context.awsRequestId;
+
+  try {
+    const job = await runRescoreJob();
+
+    if (!job) {
+      rescoreLogger.debug({ requestId, time: event.time }, 'No pending rescore job');
+      return;
+    }
+
+    rescoreLogger.info(
+      {
+        requestId,
+        jobId: job.jobId,
+        weightConfigVersion: job.weightConfigVersion,
+        status: job.status,
+        entitiesProcessed: job.entitiesProcessed,
+        errors: job.errors,
+      },
+      'Rescore batch complete'
+    );
+  } catch (error) {
+    rescoreLogger.error(
+      {
+        requestId,
+        error: (error as Error).message,
+        stack: (error as Error).stack,
+      },
+      'Rescore run failed'
+    );
+    throw error;
+  }
+}
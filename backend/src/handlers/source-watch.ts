@@ -0,0 +1,42 @@
+/**
+ * Source Watch Lambda Handler
+ *
+ * Fetches the sources of recently promoted intake items again and raises a
+ * change alert, with a text diff, on each one whose page no longer matches
+ * what was captured. Runs daily via EventBridge.
+ */
+
+import type { ScheduledEvent, Context } from 'aws-lambda';
+import { logger } from '../lib/logger.js';
+import { watchPromotedSources } from '../lib/services/source-watch.js';
+
+const watchLogger = logger.child({ handler: 'source-watch' });
+
+export async function handler(event: ScheduledEvent, context: Context): Promise<void> {
+  const requestId = context.awsRequestId;
+
+  try {
+    const summary = await watchPromotedSources();
+
+    watchLogger.info(
+      {
+        requestId,
+        time: event.time,
+        checked: summary.checked,
+        changed: summary.changed,
+        failed: summary.failed,
+      },
+      'Completed source watch run'
+    );
+  } catch (error) {
+    watchLogger.error(
+      {
+        requestId,
+        error: (error as Error).message,
+        stack: (error as Error).stack,
+      },
+      'Source watch run failed'
+    );
+    throw error;
+  }
+}
@@ -11,8 +11,14 @@ export const config = {
     audit: process.env.AUDIT_TABLE || 'LedgerAudit',
     idempotency: process.env.IDEMPOTENCY_TABLE || 'LedgerIdempotency',
     tagIndex: process.env.TAG_INDEX_TABLE || 'LedgerTagIndex',
+    searchIndex: process.env.SEARCH_INDEX_TABLE || 'LedgerSearchIndex',
+    replies: process.env.REPLIES_TABLE || 'LedgerReplies',
+    corrections: process.env.CORRECTIONS_TABLE || 'LedgerCorrections',
+    reviewThreads: process.env.REVIEW_THREADS_TABLE || 'LedgerReviewThreads',
     intake: process.env.INTAKE_TABLE || 'LedgerIntake',
     relationships: process.env.RELATIONSHIPS_TABLE || 'LedgerRelationships',
+    config: process.env.CONFIG_TABLE || 'LedgerConfig',
+    hostPoliteness: process.env.HOST_POLITENESS_TABLE || 'LedgerHostPoliteness',
   },
 
   // S3 Buckets
@@ -21,6 +27,12 @@ export const config = {
     publicSite: process.env.PUBLIC_SITE_BUCKET || 'ledger-public-site',
   },
 
+  // Cognito user pool that issues admin JWTs
+  auth: {
+    userPoolId: process.env.COGNITO_USER_POOL_ID || '',
+    clientId: process.env.COGNITO_CLIENT_ID || '',
+  },
+
   // KMS
   kms: {
     signingKeyId: process.env.KMS_SIGNING_KEY_ID || '',
@@ -34,6 +46,11 @@ export const config = {
     idempotencyTtlHours: 48,
   },
 
+  // Public site (absolute links in feeds); falls back to the request host
+  site: {
+    url: process.env.PUBLIC_SITE_URL || '',
+  },
+
   // Feature flags
   features: {
     readOnly: process.env.LEDGER_READONLY === 'true',
@@ -65,6 +82,31 @@ export const config = {
     promptTemplateKey: process.env.EDITOR_PROMPT_KEY || 'prompts/editor-template.txt',
   },
 
+  // Re-checking the pages behind recently promoted intake items
+  sourceWatch: {
+    windowDays: parseInt(process.env.SOURCE_WATCH_WINDOW_DAYS || '30', 10),
+    maxSourcesPerRun: parseInt(process.env.SOURCE_WATCH_MAX_SOURCES || '100', 10),
+    // Sign changed content as a new snapshot version instead of only alerting
+    captureSnapshots: process.env.SOURCE_WATCH_CAPTURE_SNAPSHOTS === 'true',
+  },
+
+  // Entity scoring
+  scoring: {
+    rescoreBatchSize: parseInt(process.env.RESCORE_BATCH_SIZE || '200', 10),
+  },
+
+  // Independent sign-offs required per card action (0 disables the check)
+  approvals: {
+    publishQuorum: parseInt(process.env.APPROVAL_QUORUM_PUBLISH || '1', 10),
+    retractQuorum: parseInt(process.env.APPROVAL_QUORUM_RETRACT || '1', 10),
+    correctQuorum: parseInt(process.env.APPROVAL_QUORUM_CORRECT || '1', 10),
+  },
+
+  // Right-of-reply submissions
+  replies: {
+    maxPerClientPerHour: parseInt(process.env.REPLY_RATE_LIMIT_PER_HOUR || '5', 10),
+  },
+
   // App version (set during build)
   version: process.env.APP_VERSION || '0.1.0',
 } as const;
@@ -4,6 +4,7 @@ import {
   GetCommand,
   PutCommand,
   UpdateCommand,
+  DeleteCommand,
   QueryCommand,
   ScanCommand,
   BatchWriteCommand,
@@ -11,6 +12,7 @@ import {
   type GetCommandInput,
   type PutCommandInput,
   type UpdateCommandInput,
+  type DeleteCommandInput,
   type QueryCommandInput,
   type ScanCommandInput,
   type BatchWriteCommandInput,
@@ -46,6 +48,10 @@ export async function updateItem(params: UpdateCommandInput): Promise<void> {
   await docClient.send(new UpdateCommand(params));
 }
 
+export async function deleteItem(params: DeleteCommandInput): Promise<void> {
+  await docClient.send(new DeleteCommand(params));
+}
+
 export async function queryItems<T>(
   params: QueryCommandInput
 ): Promise<{ items: T[]; lastEvaluatedKey?: Record<string, unknown> }> {
@@ -124,6 +130,11 @@ export async function transactWrite(params: TransactWriteCommandInput): Promise<
   await docClient.send(new TransactWriteCommand(params));
 }
 
+// True when a write was rejected by its ConditionExpression
+export function isConditionalCheckFailed(error: unknown): boolean {
+  return (error as { name?: string } | null)?.name === 'ConditionalCheckFailedException';
+}
+
 // Cursor encoding/decoding for pagination
 export function encodeCursor(lastEvaluatedKey: Record<string, unknown>): string {
   return Buffer.from(JSON.stringify(lastEvaluatedKey)).toString('base64url');
@@ -15,6 +15,7 @@ import {
   IdempotencyConflictError,
   ReadOnlyModeError,
   SourceNotPublicError,
+  VersionConflictError,
 } from './errors.js';
 
 describe('error classes', () => {
@@ -173,4 +174,19 @@ describe('error classes', () => {
       expect(error.name).toBe('SourceNotPublicError');
     });
   });
+
+  describe('VersionConflictError', () => {
+    it('reports CONFLICT with the current version and field changes', () => {
+      const changes = [{ field: 'title', change: 'modified' as const, before: 'New', after: 'Old' }];
+      const error = new VersionConflictError('Card', {
+        currentVersion: 4,
+        current: { cardId: 'card-1', title: 'New', version: 4 },
+        changes,
+      });
+      expect(error.message).toBe('Card was changed by someone else and is now at version 4');
+      expect(error.statusCode).toBe(409);
+      expect(error.code).toBe(ErrorCode.CONFLICT);
+      expect(error.toApiError('req-1').error.details).toMatchObject({ currentVersion: 4, changes });
+    });
+  });
 });
\ No newline at end of file
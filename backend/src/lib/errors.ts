@@ -1,4 +1,4 @@
-import { ErrorCode, type ApiError } from '@ledger/shared';
+import { ErrorCode, type ApiError, type VersionConflictDetails } from '@ledger/shared';
 
 export class AppError extends Error {
   constructor(
@@ -141,3 +141,27 @@ export class SourceNotPublicError extends AppError {
     this.name = 'SourceNotPublicError';
   }
 }
+
+export class ApprovalRequiredError extends AppError {
+  constructor(action: string, blocking: string[]) {
+    super(
+      ErrorCode.APPROVAL_REQUIRED,
+      `${action} needs independent approval: ${blocking.join('; ')}`,
+      409,
+      { action, blocking }
+    );
+    this.name = 'ApprovalRequiredError';
+  }
+}
+
+export class VersionConflictError extends AppError {
+  constructor(resource: string, details: VersionConflictDetails) {
+    super(
+      ErrorCode.CONFLICT,
+      `${resource} was changed by someone else and is now at version ${details.currentVersion}`,
+      409,
+      { ...details }
+    );
+    this.name = 'VersionConflictError';
+  }
+}
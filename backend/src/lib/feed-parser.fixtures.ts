@@ -0,0 +1,123 @@
+// Test-only feeds, trimmed from what the publishers in config/feeds.json and
+// similar agencies actually serve, one per supported format.
+
+export const RSS2_FEED = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0"
+  xmlns:atom="http://www.w3.org/2005/Atom"
+  xmlns:dc="http://purl.org/dc/elements/1.1/"
+  xmlns:content="http://purl.org/rss/1.0/modules/content/">
+  <channel>
+    <title>FTC Press Releases</title>
+    <link>https://www.ftc.gov/news-events/news/press-releases</link>
+    <atom:link href="https://www.ftc.gov/feeds/press-release.xml" rel="self" type="application/rss+xml" />
+    <item>
+      <title>FTC Sues Acme Corp. Over &#8220;Free&#8221; Trial Subscriptions</title>
+      <atom:link href="https://www.ftc.gov/feeds/item/1" rel="self" />
+      <link>https://www.ftc.gov/news-events/news/press-releases/2024/03/ftc-sues-acme</link>
+      <description><![CDATA[<p>The Federal Trade Commission today sued <b>Acme Corp.</b> &amp; its CEO.</p>]]></description>
+      <pubDate>Tue, 05 Mar 2024 14:30:00 -0500</pubDate>
+      <dc:creator>Office of Public Affairs</dc:creator>
+      <guid isPermaLink="false">ftc-2024-0305-acme</guid>
+      <category>Consumer Protection</category>
+      <category>Subscriptions</category>
+    </item>
+    <item>
+      <title>Statement on Data Broker Settlement</title>
+      <guid>https://www.ftc.gov/news-events/news/press-releases/2024/03/data-broker-statement</guid>
+      <dc:date>2024-03-04T09:00:00Z</dc:date>
+      <content:encoded><![CDATA[<p>Chair statement on the settlement.</p>]]></content:encoded>
+    </item>
+  </channel>
+</rss>
+`;
+
+export const RSS1_FEED = `<?xml version="1.0" encoding="utf-8"?>
+<rdf:RDF
+  xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#"
+  xmlns="http://purl.org/rss/1.0/"
+  xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel rdf:about="https://www.courtlistener.example/opinions/">
+    <title>Ninth Circuit Opinions</title>
+    <link>https://www.courtlistener.example/opinions/</link>
+    <items>
+      <rdf:Seq>
+        <rdf:li rdf:resource="https://www.courtlistener.example/opinion/4821/"/>
+      </rdf:Seq>
+    </items>
+  </channel>
+  <item rdf:about="https://www.courtlistener.example/opinion/4821/">
+    <title>United States v. Acme Holdings, LLC</title>
+    <link>https://www.courtlistener.example/opinion/4821/</link>
+    <description>Affirming the district court&apos;s civil penalty order.</description>
+    <dc:date>2024-02-28T17:05:00-08:00</dc:date>
+    <dc:subject>Antitrust</dc:subject>
+  </item>
+  <item rdf:about="https://www.courtlistener.example/opinion/4822/">
+    <title>In re Widget Pricing Litigation</title>
+    <dc:date>2024-02-29</dc:date>
+  </item>
+</rdf:RDF>
+`;
+
+export const ATOM_FEED = `<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE feed [
+  <!ENTITY agency "Office of the Attorney General">
+]>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:base="https://oag.state.example/">
+  <title type="html">Attorney General &amp;amp; Consumer News</title>
+  <link href="https://oag.state.example/news" rel="alternate" type="text/html"/>
+  <link href="https://oag.state.example/news.atom" rel="self"/>
+  <updated>2024-03-06T12:00:00Z</updated>
+  <id>tag:oag.state.example,2024:news</id>
+  <entry>
+    <title>AG Reaches $2.1M Settlement with Acme Corp.</title>
+    <link rel="self" href="/api/news/2024-118"/>
+    <link rel="alternate" type="application/pdf" href="/files/2024-118.pdf"/>
+    <link href="news/2024-118"/>
+    <id>tag:oag.state.example,2024:news/2024-118</id>
+    <published>2024-03-06T10:15:00-05:00</published>
+    <updated>2024-03-06T16:40:00-05:00</updated>
+    <summary type="html">&lt;p&gt;The settlement resolves claims of deceptive billing.&lt;/p&gt;</summary>
+    <category term="consumer-protection" label="Consumer Protection"/>
+    <category term="settlements"/>
+  </entry>
+  <entry xml:base="https://oag.state.example/press/">
+    <title type="xhtml"><div xmlns="http://www.w3.org/1999/xhtml">Court Blocks <em>Widget</em> Merger</div></title>
+    <link href="2024-117"/>
+    <id>tag:oag.state.example,2024:press/2024-117</id>
+    <updated>2024-03-05T09:00:00Z</updated>
+    <content type="xhtml"><div xmlns="http://www.w3.org/1999/xhtml"><p>A federal judge granted the injunction.</p></div></content>
+  </entry>
+  <entry>
+    <title>Entry without a link</title>
+    <id>tag:oag.state.example,2024:draft</id>
+    <updated>2024-03-04T09:00:00Z</updated>
+  </entry>
+</feed>
+`;
+
+export const JSON_FEED = JSON.stringify({
+  version: 'https://jsonfeed.org/version/1.1',
+  title: 'CFPB Enforcement Actions',
+  home_page_url: 'https://www.consumerfinance.example/enforcement/',
+  items: [
+    {
+      id: 'cfpb-2024-07',
+      url: 'actions/acme-lending/',
+      title: 'CFPB Orders Acme Lending to Pay $12 Million',
+      content_html: '<p>The Bureau found Acme Lending misled borrowers.</p>',
+      date_published: '2024-03-01T15:00:00Z',
+      date_modified: '2024-03-02T10:00:00Z',
+      tags: ['Lending', 'Consent orders'],
+    },
+    {
+      id: 42,
+      external_url: 'https://www.consumerfinance.example/about-us/blog/update/',
+      summary: 'Quarterly enforcement update',
+    },
+    {
+      id: 'no-url',
+      title: 'Item without a URL',
+    },
+  ],
+});
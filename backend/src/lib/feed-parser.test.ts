@@ -0,0 +1,355 @@
+import { describe, it, expect } from 'vitest';
+import { feedItemDate, parseFeed } from './feed-parser.js';
+import { ATOM_FEED, JSON_FEED, RSS1_FEED, RSS2_FEED } from './feed-parser.fixtures.js';
+
+describe('feed parser', () => {
+  describe('RSS 2.0', () => {
+    it('parses items from the fixture feed', () => {
+      const feed = parseFeed(RSS2_FEED);
+
+      expect(feed.format).toBe('rss2');
+      expect(feed.title).toBe('FTC Press Releases');
+      expect(feed.items).toHaveLength(2);
+      expect(feed.items[0]).toEqual({
+        title: 'FTC Sues Acme Corp. Over “Free” Trial Subscriptions',
+        link: 'https://www.ftc.gov/news-events/news/press-releases/2024/03/ftc-sues-acme',
+        guid: 'ftc-2024-0305-acme',
+        published: 'Tue, 05 Mar 2024 14:30:00 -0500',
+        updated: undefined,
+        description: '<p>The Federal Trade Commission today sued <b>Acme Corp.</b> &amp; its CEO.</p>',
+        categories: ['Consumer Protection', 'Subscriptions'],
+      });
+    });
+
+    it('ignores atom:link elements inside items', () => {
+      const [item] = parseFeed(RSS2_FEED).items;
+      expect(item.link).not.toContain('/feeds/item/');
+    });
+
+    it('falls back to a permalink guid, dc:date and content:encoded', () => {
+      const item = parseFeed(RSS2_FEED).items[1];
+
+      expect(item.link).toBe('https://www.ftc.gov/news-events/news/press-releases/2024/03/data-broker-statement');
+      expect(item.published).toBe('2024-03-04T09:00:00Z');
+      expect(item.description).toBe('<p>Chair statement on the settlement.</p>');
+    });
+
+    it('parses basic RSS feed items', () => {
+      const xml = `
+        <?xml version="1.0" encoding="UTF-8"?>
+        <rss version="2.0">
+          <channel>
+            <title>FTC Press Releases</title>
+            <item>
+              <title>FTC Takes Action Against Company</title>
+              <link>https://www.ftc.gov/news/press-releases/2024/01/example</link>
+              <pubDate>Mon, 15 Jan 2024 10:00:00 GMT</pubDate>
+              <guid>ftc-2024-001</guid>
+              <description>The FTC today announced...</description>
+              <category>Enforcement</category>
+              <category>Consumer Protection</category>
+            </item>
+          </channel>
+        </rss>
+      `;
+
+      const { items } = parseFeed(xml);
+
+      expect(items).toHaveLength(1);
+      expect(items[0].title).toBe('FTC Takes Action Against Company');
+      expect(items[0].link).toBe('https://www.ftc.gov/news/press-releases/2024/01/example');
+      expect(items[0].published).toBe('Mon, 15 Jan 2024 10:00:00 GMT');
+      expect(items[0].guid).toBe('ftc-2024-001');
+      expect(items[0].description).toBe('The FTC today announced...');
+      expect(items[0].categories).toEqual(['Enforcement', 'Consumer Protection']);
+    });
+
+    it('parses CDATA content', () => {
+      const xml = `
+        <rss version="2.0">
+          <channel>
+            <item>
+              <title><![CDATA[FTC & SEC Joint Statement]]></title>
+              <link>https://www.ftc.gov/news</link>
+            </item>
+          </channel>
+        </rss>
+      `;
+
+      const { items } = parseFeed(xml);
+
+      expect(items).toHaveLength(1);
+      expect(items[0].title).toBe('FTC & SEC Joint Statement');
+    });
+
+    it('decodes XML, HTML and numeric entities', () => {
+      const xml = `
+        <rss version="2.0">
+          <channel>
+            <item>
+              <title>Company &amp; Partners &quot;Agreement&quot;&nbsp;&#x2014; &#128220; &bogus; AT&T</title>
+              <link>https://www.ftc.gov/news</link>
+            </item>
+          </channel>
+        </rss>
+      `;
+
+      const { items } = parseFeed(xml);
+
+      expect(items).toHaveLength(1);
+      expect(items[0].title).toBe('Company & Partners "Agreement" — 📜 &bogus; AT&T');
+    });
+
+    it('handles multiple items', () => {
+      const xml = `
+        <rss version="2.0">
+          <channel>
+            <item>
+              <title>First Item</title>
+              <link>https://www.ftc.gov/1</link>
+            </item>
+            <item>
+              <title>Second Item</title>
+              <link>https://www.ftc.gov/2</link>
+            </item>
+            <item>
+              <title>Third Item</title>
+              <link>https://www.ftc.gov/3</link>
+            </item>
+          </channel>
+        </rss>
+      `;
+
+      const { items } = parseFeed(xml);
+
+      expect(items).toHaveLength(3);
+      expect(items.map((i) => i.title)).toEqual(['First Item', 'Second Item', 'Third Item']);
+    });
+
+    it('skips items without title or link', () => {
+      const xml = `
+        <rss version="2.0">
+          <channel>
+            <item>
+              <title>Has Title Only</title>
+            </item>
+            <item>
+              <link>https://www.ftc.gov/has-link-only</link>
+            </item>
+            <item>
+              <title>Valid Item</title>
+              <link>https://www.ftc.gov/valid</link>
+            </item>
+          </channel>
+        </rss>
+      `;
+
+      const { items } = parseFeed(xml);
+
+      expect(items).toHaveLength(1);
+      expect(items[0].title).toBe('Valid Item');
+    });
+
+    it('handles empty feed', () => {
+      const xml = `
+        <rss version="2.0">
+          <channel>
+            <title>Empty Feed</title>
+          </channel>
+        </rss>
+      `;
+
+      expect(parseFeed(xml).items).toHaveLength(0);
+    });
+
+    it('handles SEC litigation releases format with newlines in link tags', () => {
+      // SEC litigation releases have newlines between URL and closing tag,
+      // and use dc:creator without declaring the prefix
+      const xml = `
+        <?xml version="1.0" encoding="utf-8"?>
+        <rss version="2.0" xml:base="https://www.sec.gov/">
+          <channel>
+            <title>Litigation Releases</title>
+            <item>
+              <title>David J. Bradford and Gerardo L. Linarducci</title>
+              <link>https://www.sec.gov/enforcement-litigation/litigation-releases/lr-26456
+</link>
+              <description>David J. Bradford and Gerardo L. Linarducci</description>
+              <pubDate>Tue, 30 Dec 2025 17:27:40 -0500</pubDate>
+              <dc:creator>LR-26456</dc:creator>
+              <guid isPermaLink="false">9a667d43-6c25-4baa-a54d-f12922530803</guid>
+            </item>
+            <item>
+              <title>Caroline Ellison, Gary Wang, and Nishad Singh</title>
+              <link>https://www.sec.gov/enforcement-litigation/litigation-releases/lr-26450
+</link>
+              <description>Caroline Ellison, Gary Wang, and Nishad Singh</description>
+              <pubDate>Fri, 19 Dec 2025 11:39:26 -0500</pubDate>
+              <dc:creator>LR-26450</dc:creator>
+              <guid isPermaLink="false">00487736-b86f-411c-bb5e-17660121d154</guid>
+            </item>
+          </channel>
+        </rss>
+      `;
+
+      const { items } = parseFeed(xml);
+
+      expect(items).toHaveLength(2);
+      expect(items[0].title).toBe('David J. Bradford and Gerardo L. Linarducci');
+      expect(items[0].link).toBe('https://www.sec.gov/enforcement-litigation/litigation-releases/lr-26456');
+      expect(items[0].published).toBe('Tue, 30 Dec 2025 17:27:40 -0500');
+      expect(items[0].guid).toBe('9a667d43-6c25-4baa-a54d-f12922530803');
+
+      expect(items[1].title).toBe('Caroline Ellison, Gary Wang, and Nishad Singh');
+      expect(items[1].link).toBe('https://www.sec.gov/enforcement-litigation/litigation-releases/lr-26450');
+    });
+
+    it('tolerates unclosed HTML tags in descriptions', () => {
+      const xml = `
+        <rss version="2.0"><channel>
+          <item>
+            <title>Press release</title>
+            <description>Line one<br>Line two</description>
+            <link>https://www.ftc.gov/a</link>
+          </item>
+          <item><title>Next</title><link>https://www.ftc.gov/b</link></item>
+        </channel></rss>
+      `;
+
+      const { items } = parseFeed(xml);
+
+      expect(items.map((i) => i.link)).toEqual(['https://www.ftc.gov/a', 'https://www.ftc.gov/b']);
+    });
+  });
+
+  describe('RSS 1.0', () => {
+    it('parses items beside the channel', () => {
+      const feed = parseFeed(RSS1_FEED);
+
+      expect(feed.format).toBe('rss1');
+      expect(feed.title).toBe('Ninth Circuit Opinions');
+      expect(feed.items[0]).toEqual({
+        title: 'United States v. Acme Holdings, LLC',
+        link: 'https://www.courtlistener.example/opinion/4821/',
+        guid: 'https://www.courtlistener.example/opinion/4821/',
+        published: '2024-02-28T17:05:00-08:00',
+        description: "Affirming the district court's civil penalty order.",
+        categories: ['Antitrust'],
+      });
+    });
+
+    it('uses rdf:about when an item has no link', () => {
+      const item = parseFeed(RSS1_FEED).items[1];
+
+      expect(item.link).toBe('https://www.courtlistener.example/opinion/4822/');
+      expect(item.published).toBe('2024-02-29');
+    });
+  });
+
+  describe('Atom 1.0', () => {
+    it('parses entries and decodes html titles', () => {
+      const feed = parseFeed(ATOM_FEED);
+
+      expect(feed.format).toBe('atom');
+      expect(feed.title).toBe('Attorney General & Consumer News');
+      expect(feed.items).toHaveLength(2);
+      expect(feed.items[0]).toEqual({
+        title: 'AG Reaches $2.1M Settlement with Acme Corp.',
+        link: 'https://oag.state.example/news/2024-118',
+        guid: 'tag:oag.state.example,2024:news/2024-118',
+        published: '2024-03-06T10:15:00-05:00',
+        updated: '2024-03-06T16:40:00-05:00',
+        description: '<p>The settlement resolves claims of deceptive billing.</p>',
+        categories: ['Consumer Protection', 'settlements'],
+      });
+    });
+
+    it('picks the HTML alternate link over self and other media types', () => {
+      const [entry] = parseFeed(ATOM_FEED).items;
+      expect(entry.link).toBe('https://oag.state.example/news/2024-118');
+    });
+
+    it('resolves links against the entry xml:base and reads xhtml text', () => {
+      const entry = parseFeed(ATOM_FEED).items[1];
+
+      expect(entry.link).toBe('https://oag.state.example/press/2024-117');
+      expect(entry.title).toBe('Court Blocks Widget Merger');
+      expect(entry.description).toBe('A federal judge granted the injunction.');
+      expect(entry.published).toBeUndefined();
+      expect(entry.updated).toBe('2024-03-05T09:00:00Z');
+    });
+
+    it('works with a prefixed Atom namespace', () => {
+      const xml = `
+        <a:feed xmlns:a="http://www.w3.org/2005/Atom">
+          <a:entry>
+            <a:title>Prefixed</a:title>
+            <a:link href="https://www.justice.gov/opa/pr/1"/>
+            <a:updated>2024-03-01T00:00:00Z</a:updated>
+          </a:entry>
+        </a:feed>
+      `;
+
+      expect(parseFeed(xml).items.map((i) => i.link)).toEqual(['https://www.justice.gov/opa/pr/1']);
+    });
+  });
+
+  describe('JSON Feed', () => {
+    it('parses items and resolves relative URLs', () => {
+      const feed = parseFeed(JSON_FEED);
+
+      expect(feed.format).toBe('jsonfeed');
+      expect(feed.title).toBe('CFPB Enforcement Actions');
+      expect(feed.items).toHaveLength(2);
+      expect(feed.items[0]).toEqual({
+        title: 'CFPB Orders Acme Lending to Pay $12 Million',
+        link: 'https://www.consumerfinance.example/enforcement/actions/acme-lending/',
+        guid: 'cfpb-2024-07',
+        published: '2024-03-01T15:00:00Z',
+        updated: '2024-03-02T10:00:00Z',
+        description: '<p>The Bureau found Acme Lending misled borrowers.</p>',
+        categories: ['Lending', 'Consent orders'],
+      });
+    });
+
+    it('uses the summary as the title and external_url as the link when needed', () => {
+      const item = parseFeed(JSON_FEED).items[1];
+
+      expect(item.title).toBe('Quarterly enforcement update');
+      expect(item.link).toBe('https://www.consumerfinance.example/about-us/blog/update/');
+      expect(item.guid).toBe('42');
+    });
+
+    it('rejects JSON that is not a feed', () => {
+      expect(() => parseFeed('{"items": []}')).toThrow('not a JSON Feed');
+    });
+  });
+
+  it('rejects documents in other formats', () => {
+    expect(() => parseFeed('<html><body>Not found</body></html>')).toThrow('Unrecognized feed format');
+    expect(() => parseFeed('Service unavailable')).toThrow();
+  });
+
+  it('ignores a byte order mark and leading whitespace', () => {
+    expect(parseFeed(`\uFEFF\n  ${RSS2_FEED}`).items).toHaveLength(2);
+  });
+
+  describe('feedItemDate', () => {
+    it('prefers the published date', () => {
+      expect(
+        feedItemDate({ title: 't', link: 'l', published: 'Tue, 05 Mar 2024 14:30:00 -0500', updated: '2024-03-07T00:00:00Z' })
+      ).toBe('2024-03-05T19:30:00.000Z');
+    });
+
+    it('falls back to the updated date', () => {
+      expect(feedItemDate({ title: 't', link: 'l', updated: '2024-03-05T09:00:00Z' })).toBe('2024-03-05T09:00:00.000Z');
+    });
+
+    it('skips dates it cannot parse', () => {
+      expect(feedItemDate({ title: 't', link: 'l', published: 'last Tuesday', updated: '2024-03-05T09:00:00Z' })).toBe(
+        '2024-03-05T09:00:00.000Z'
+      );
+      expect(feedItemDate({ title: 't', link: 'l', published: 'last Tuesday' })).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,279 @@
+import {
+  XML_NAMESPACES as NS,
+  childElement,
+  childElements,
+  childText,
+  decodeEntities,
+  getAttribute,
+  parseXml,
+  textContent,
+  type XmlElement,
+} from './xml.js';
+
+// Parsers for the syndication formats agencies and courts publish: RSS 2.0
+// (and the 0.9x dialects), RSS 1.0/RDF, Atom 1.0 and JSON Feed. Each yields
+// the same item shape for intake.
+
+export type FeedFormat = 'rss2' | 'rss1' | 'atom' | 'jsonfeed';
+
+export interface FeedItem {
+  title: string;
+  link: string;
+  guid?: string;
+  published?: string;       // as written in the feed
+  updated?: string;
+  description?: string;     // may contain HTML
+  categories?: string[];
+}
+
+export interface ParsedFeed {
+  format: FeedFormat;
+  title?: string;
+  items: FeedItem[];
+}
+
+function compact(values: Array<string | undefined>): string[] | undefined {
+  const present = values.map((v) => v?.trim()).filter((v): v is string => !!v);
+  return present.length > 0 ? present : undefined;
+}
+
+function resolveUrl(href: string, base: string | undefined): string {
+  if (!base) {
+    return href;
+  }
+  try {
+    return new URL(href, base).toString();
+  } catch {
+    return href;
+  }
+}
+
+// Whether an RSS guid can stand in for a missing link
+function isPermalink(guid: XmlElement | undefined): boolean {
+  if (!guid || getAttribute(guid, 'isPermaLink') === 'false') {
+    return false;
+  }
+  return /^https?:\/\//i.test(textContent(guid).trim());
+}
+
+function parseRss2(root: XmlElement): ParsedFeed {
+  const channel = childElement(root, 'channel') ?? root;
+  const base = getAttribute(root, 'base', NS.xml);
+  // Items are normally inside the channel, but 0.91 feeds sometimes put them beside it
+  const itemElements = [...childElements(channel, 'item'), ...(channel === root ? [] : childElements(root, 'item'))];
+
+  const items: FeedItem[] = [];
+  for (const item of itemElements) {
+    const title = childText(item, 'title', null);
+    const guidElement = childElement(item, 'guid', null);
+    // atom:link rel="self" and the like also appear in RSS items
+    const link = childText(item, 'link', null) ?? (isPermalink(guidElement) ? textContent(guidElement!).trim() : undefined);
+    if (!title || !link) {
+      continue;
+    }
+
+    items.push({
+      title,
+      link: resolveUrl(link, base),
+      guid: guidElement ? textContent(guidElement).trim() || undefined : undefined,
+      published: childText(item, 'pubDate', null) ?? childText(item, 'date', NS.dc),
+      updated: childText(item, 'updated', NS.atom) ?? childText(item, 'modified', NS.dcterms),
+      description: childText(item, 'description', null) ?? childText(item, 'encoded', NS.content),
+      categories: compact(childElements(item, 'category', null).map(textContent)),
+    });
+  }
+
+  return { format: 'rss2', title: childText(channel, 'title', null), items };
+}
+
+function parseRss1(root: XmlElement): ParsedFeed {
+  const channel = childElement(root, 'channel', NS.rss1);
+
+  const items: FeedItem[] = [];
+  // RSS 1.0 items are siblings of the channel, not children
+  for (const item of childElements(root, 'item', NS.rss1)) {
+    const title = childText(item, 'title', NS.rss1);
+    const link = childText(item, 'link', NS.rss1) ?? getAttribute(item, 'about', NS.rdf);
+    if (!title || !link) {
+      continue;
+    }
+
+    items.push({
+      title,
+      link,
+      guid: getAttribute(item, 'about', NS.rdf),
+      published: childText(item, 'date', NS.dc),
+      description: childText(item, 'description', NS.rss1) ?? childText(item, 'encoded', NS.content),
+      categories: compact(childElements(item, 'subject', NS.dc).map(textContent)),
+    });
+  }
+
+  return { format: 'rss1', title: channel ? childText(channel, 'title', NS.rss1) : undefined, items };
+}
+
+// Atom text constructs: type="html" carries escaped markup, type="xhtml" a div
+// whose text is what we want
+function atomText(element: XmlElement | undefined): string | undefined {
+  if (!element) {
+    return undefined;
+  }
+  const text = textContent(element).trim();
+  return text || undefined;
+}
+
+function atomPlainText(element: XmlElement | undefined): string | undefined {
+  const text = atomText(element);
+  if (!text || getAttribute(element!, 'type') !== 'html') {
+    return text;
+  }
+  return decodeEntities(text.replace(/<[^>]*>/g, ' ')).replace(/\s+/g, ' ').trim() || undefined;
+}
+
+function xmlBase(element: XmlElement, inherited: string | undefined): string | undefined {
+  const base = getAttribute(element, 'base', NS.xml);
+  return base ? resolveUrl(base, inherited) : inherited;
+}
+
+/**
+ * The entry's web page: rel="alternate" (the default rel), preferring HTML
+ * over other media types, falling back to any link with an href.
+ */
+function atomLink(entry: XmlElement, base: string | undefined): string | undefined {
+  const links = childElements(entry, 'link', NS.atom).filter((link) => getAttribute(link, 'href'));
+  const alternates = links.filter((link) => (getAttribute(link, 'rel') ?? 'alternate') === 'alternate');
+  const chosen =
+    alternates.find((link) => /html/i.test(getAttribute(link, 'type') ?? 'text/html')) ??
+    alternates[0] ??
+    links.find((link) => getAttribute(link, 'rel') !== 'self') ??
+    links[0];
+  return chosen ? resolveUrl(getAttribute(chosen, 'href')!, xmlBase(chosen, base)) : undefined;
+}
+
+function parseAtom(root: XmlElement): ParsedFeed {
+  const feedBase = xmlBase(root, undefined) ?? atomLink(root, undefined);
+
+  const items: FeedItem[] = [];
+  for (const entry of childElements(root, 'entry', NS.atom)) {
+    const base = xmlBase(entry, feedBase);
+    const title = atomPlainText(childElement(entry, 'title', NS.atom));
+    const link = atomLink(entry, base);
+    if (!title || !link) {
+      continue;
+    }
+
+    items.push({
+      title,
+      link,
+      guid: childText(entry, 'id', NS.atom),
+      // Atom requires updated; published is optional and the better intake date
+      published: childText(entry, 'published', NS.atom),
+      updated: childText(entry, 'updated', NS.atom),
+      description:
+        atomText(childElement(entry, 'summary', NS.atom)) ?? atomText(childElement(entry, 'content', NS.atom)),
+      categories: compact(
+        childElements(entry, 'category', NS.atom).map((c) => getAttribute(c, 'label') ?? getAttribute(c, 'term'))
+      ),
+    });
+  }
+
+  return { format: 'atom', title: atomPlainText(childElement(root, 'title', NS.atom)), items };
+}
+
+interface JsonFeedItem {
+  id?: unknown;
+  url?: unknown;
+  external_url?: unknown;
+  title?: unknown;
+  summary?: unknown;
+  content_text?: unknown;
+  content_html?: unknown;
+  date_published?: unknown;
+  date_modified?: unknown;
+  tags?: unknown;
+}
+
+function str(value: unknown): string | undefined {
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function parseJsonFeed(body: string): ParsedFeed {
+  let feed: { version?: unknown; title?: unknown; home_page_url?: unknown; items?: unknown };
+  try {
+    feed = JSON.parse(body);
+  } catch (error) {
+    throw new Error(`Invalid JSON Feed: ${(error as Error).message}`);
+  }
+  if (!str(feed.version)?.startsWith('https://jsonfeed.org/version/') || !Array.isArray(feed.items)) {
+    throw new Error('Unrecognized feed format: JSON document is not a JSON Feed');
+  }
+  const base = str(feed.home_page_url);
+
+  const items: FeedItem[] = [];
+  for (const item of feed.items as JsonFeedItem[]) {
+    if (!item || typeof item !== 'object') {
+      continue;
+    }
+    // Titles are optional in JSON Feed; microblog-style items only have a summary
+    const title = str(item.title) ?? str(item.summary);
+    const url = str(item.url) ?? str(item.external_url);
+    if (!title || !url) {
+      continue;
+    }
+
+    items.push({
+      title,
+      link: resolveUrl(url, base),
+      guid: str(item.id),
+      published: str(item.date_published),
+      updated: str(item.date_modified),
+      description: str(item.summary) ?? str(item.content_text) ?? str(item.content_html),
+      categories: Array.isArray(item.tags) ? compact(item.tags.map(str)) : undefined,
+    });
+  }
+
+  return { format: 'jsonfeed', title: str(feed.title), items };
+}
+
+/**
+ * Detect a feed's format from its content and parse it. Throws when the
+ * document isn't a feed in any supported format.
+ */
+export function parseFeed(body: string): ParsedFeed {
+  const text = body.replace(/^\uFEFF/, '').trim();
+
+  if (text.startsWith('{')) {
+    return parseJsonFeed(text);
+  }
+
+  const root = parseXml(text);
+  if (root.local === 'rss' || (root.local === 'channel' && !root.ns)) {
+    return parseRss2(root);
+  }
+  if (root.local === 'RDF' && root.ns === NS.rdf) {
+    return parseRss1(root);
+  }
+  if (root.local === 'feed' && root.ns === NS.atom) {
+    return parseAtom(root);
+  }
+  throw new Error(`Unrecognized feed format: root element <${root.name}>`);
+}
+
+/**
+ * The date intake files an item under, as ISO 8601: when it was published,
+ * or when it was last updated if the feed doesn't say. Undefined when
+ * neither is present or parseable.
+ */
+export function feedItemDate(item: FeedItem): string | undefined {
+  for (const value of [item.published, item.updated]) {
+    if (value) {
+      const date = new Date(value);
+      if (!Number.isNaN(date.getTime())) {
+        return date.toISOString();
+      }
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,67 @@
+import type { CardFieldChange } from '@ledger/shared';
+
+/** JSON with object keys sorted, so equal values always serialize the same way */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, v]) => `${JSON.stringify(key)}:${stableStringify(v)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Field-level differences between two versions of a record, skipping the
+ * fields in `ignored`. Missing and empty values are treated alike, so a
+ * field going from absent to [] is no change.
+ */
+export function diffFields(
+  from: object,
+  to: object,
+  ignored: ReadonlySet<string> = new Set()
+): CardFieldChange[] {
+  const fields = [...new Set([...Object.keys(to), ...Object.keys(from)])].filter(
+    (field) => !ignored.has(field)
+  );
+  const changes: CardFieldChange[] = [];
+
+  for (const field of fields) {
+    const before = (from as Record<string, unknown>)[field];
+    const after = (to as Record<string, unknown>)[field];
+
+    if (isEmpty(before) && isEmpty(after)) {
+      continue;
+    }
+    if (stableStringify(before) === stableStringify(after)) {
+      continue;
+    }
+
+    const change: CardFieldChange = isEmpty(before)
+      ? { field, change: 'added', after }
+      : isEmpty(after)
+        ? { field, change: 'removed', before }
+        : { field, change: 'modified', before, after };
+
+    if (Array.isArray(before) || Array.isArray(after)) {
+      const beforeItems = (before as unknown[] | undefined) ?? [];
+      const afterItems = (after as unknown[] | undefined) ?? [];
+      const beforeKeys = new Set(beforeItems.map(stableStringify));
+      const afterKeys = new Set(afterItems.map(stableStringify));
+      change.itemsAdded = afterItems.filter((item) => !beforeKeys.has(stableStringify(item)));
+      change.itemsRemoved = beforeItems.filter((item) => !afterKeys.has(stableStringify(item)));
+    }
+
+    changes.push(change);
+  }
+
+  return changes;
+}
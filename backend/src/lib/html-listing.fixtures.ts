@@ -0,0 +1,105 @@
+import type { HtmlListingConfig } from '@ledger/shared';
+
+// Test-only listing pages, trimmed from agency sites that publish releases
+// as HTML only, with the listing selectors a feed entry would use for each.
+
+export const OSHA_NEWS_URL = 'https://www.osha.gov/news/newsreleases';
+
+export const OSHA_NEWS_LISTING: HtmlListingConfig = {
+  item: 'div.view-content > div.views-row',
+  link: 'h2.title a',
+  date: { selector: 'time', attr: 'datetime' },
+  summary: '.field--name-body',
+  nextPage: 'li.pager__item--next a[rel=next]',
+  maxPages: 2,
+};
+
+export const OSHA_NEWS_PAGE_1 = `<!DOCTYPE html>
+<html lang="en" dir="ltr">
+<head>
+  <meta charset="utf-8">
+  <title>News Releases | Occupational Safety and Health Administration</title>
+  <link rel="stylesheet" href="/themes/osha/css/style.css">
+  <script>
+    window.dataLayer = window.dataLayer || [];
+    if (document.querySelector("a > b")) { console.log("<div class='views-row'>"); }
+  </script>
+</head>
+<body class="path-news">
+  <nav class="usa-nav"><ul><li><a href="/news">News</a><li><a href="/laws-regs">Laws</a></ul></nav>
+  <main id="main-content">
+    <h1>News Releases</h1>
+    <div class="view-content">
+      <div class="views-row">
+        <h2 class="title"><a href="/news/newsreleases/region4/03052024">OSHA cites Georgia manufacturer after worker&rsquo;s fatal fall</a></h2>
+        <div class="date"><time datetime="2024-03-05T12:00:00Z">March 5, 2024</time></div>
+        <div class="field--name-body"><p>Investigators found the employer
+          failed to provide fall protection.<br>Proposed penalties total $161,323.</p></div>
+      </div>
+      <div class="views-row">
+        <h2 class="title"><a href="https://www.osha.gov/news/newsreleases/national/03042024?utm_source=listing">Department of Labor announces heat safety campaign</a></h2>
+        <div class="date"><time datetime="2024-03-04T12:00:00Z">March 4, 2024</time></div>
+        <div class="field--name-body"><p>The campaign runs through September.</p></div>
+      </div>
+      <div class="views-row views-row--promo">
+        <img src="/sites/default/files/promo.png" alt="Subscribe">
+        <p>Subscribe to OSHA QuickTakes</p>
+      </div>
+    </div>
+    <nav class="pager">
+      <ul>
+        <li class="pager__item pager__item--current">1</li>
+        <li class="pager__item pager__item--next"><a href="?page=1" rel="next" title="Go to next page">Next</a></li>
+      </ul>
+    </nav>
+  </main>
+</body>
+</html>
+`;
+
+export const OSHA_NEWS_PAGE_2 = `<!DOCTYPE html>
+<html lang="en">
+<body>
+  <div class="view-content">
+    <div class="views-row">
+      <h2 class="title"><a href="/news/newsreleases/national/03042024?utm_source=listing">Department of Labor announces heat safety campaign</a></h2>
+      <div class="date"><time datetime="2024-03-04T12:00:00Z">March 4, 2024</time></div>
+    </div>
+    <div class="views-row">
+      <h2 class="title"><a href="/news/newsreleases/region6/03012024">Texas contractor faces penalties for trenching hazards</a></h2>
+      <div class="date"><time datetime="2024-03-01T12:00:00Z">March 1, 2024</time></div>
+    </div>
+  </div>
+  <nav class="pager">
+    <ul>
+      <li class="pager__item pager__item--previous"><a href="?page=0" rel="prev">Previous</a></li>
+      <li class="pager__item pager__item--next"><a href="?page=2" rel="next">Next</a></li>
+    </ul>
+  </nav>
+</body>
+</html>
+`;
+
+// A state AG page: a bare table, uppercase tags, unquoted attributes,
+// omitted </td> and </tr>, and a <base> element
+export const STATE_AG_URL = 'https://ag.state.example/consumer/actions.aspx';
+
+export const STATE_AG_LISTING: HtmlListingConfig = {
+  item: 'table#actions tr:not(.header)',
+  link: 'td:nth-child(2) a',
+  date: 'td:first-child',
+};
+
+export const STATE_AG_PAGE = `<HTML>
+<HEAD><BASE HREF="https://ag.state.example/press/"></HEAD>
+<BODY>
+<TABLE ID=actions>
+  <TR class=header><TH>Date<TH>Action
+  <TR><TD>02/27/2024<TD><A HREF="2024/acme-settlement.html">Attorney General Secures $3M from Acme Corp. &amp; Affiliates</A>
+  <TR><TD>02/20/2024<TD><A HREF="javascript:void(0)">Press kit</A>
+  <TR><TD>02/14/2024<TD><A HREF="/press/2024/widget-lawsuit.html">  Lawsuit
+      Filed Against Widget Co.  </A>
+</TABLE>
+</BODY>
+</HTML>
+`;
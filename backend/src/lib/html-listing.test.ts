@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { parseHtmlListing } from './html-listing.js';
+import {
+  OSHA_NEWS_LISTING,
+  OSHA_NEWS_PAGE_1,
+  OSHA_NEWS_PAGE_2,
+  OSHA_NEWS_URL,
+  STATE_AG_LISTING,
+  STATE_AG_PAGE,
+  STATE_AG_URL,
+} from './html-listing.fixtures.js';
+
+describe('html listing parser', () => {
+  it('extracts items using the configured selectors', () => {
+    const page = parseHtmlListing(OSHA_NEWS_PAGE_1, OSHA_NEWS_URL, OSHA_NEWS_LISTING);
+
+    expect(page.items).toEqual([
+      {
+        title: 'OSHA cites Georgia manufacturer after worker’s fatal fall',
+        link: 'https://www.osha.gov/news/newsreleases/region4/03052024',
+        guid: 'https://www.osha.gov/news/newsreleases/region4/03052024',
+        published: '2024-03-05T12:00:00Z',
+        description: 'Investigators found the employer failed to provide fall protection.Proposed penalties total $161,323.',
+      },
+      {
+        title: 'Department of Labor announces heat safety campaign',
+        link: 'https://www.osha.gov/news/newsreleases/national/03042024?utm_source=listing',
+        guid: 'https://www.osha.gov/news/newsreleases/national/03042024?utm_source=listing',
+        published: '2024-03-04T12:00:00Z',
+        description: 'The campaign runs through September.',
+      },
+    ]);
+  });
+
+  it('ignores markup inside scripts and rows without a link', () => {
+    const page = parseHtmlListing(OSHA_NEWS_PAGE_1, OSHA_NEWS_URL, OSHA_NEWS_LISTING);
+
+    expect(page.items.map((i) => i.title)).not.toContain('Subscribe to OSHA QuickTakes');
+    expect(page.items).toHaveLength(2);
+  });
+
+  it('resolves the next page link against the page URL', () => {
+    const first = parseHtmlListing(OSHA_NEWS_PAGE_1, OSHA_NEWS_URL, OSHA_NEWS_LISTING);
+    expect(first.nextPageUrl).toBe('https://www.osha.gov/news/newsreleases?page=1');
+
+    const second = parseHtmlListing(OSHA_NEWS_PAGE_2, first.nextPageUrl!, OSHA_NEWS_LISTING);
+    expect(second.nextPageUrl).toBe('https://www.osha.gov/news/newsreleases?page=2');
+    expect(second.items.map((i) => i.link)).toEqual([
+      'https://www.osha.gov/news/newsreleases/national/03042024?utm_source=listing',
+      'https://www.osha.gov/news/newsreleases/region6/03012024',
+    ]);
+  });
+
+  it('has no next page without a nextPage selector or match', () => {
+    expect(parseHtmlListing(OSHA_NEWS_PAGE_1, OSHA_NEWS_URL, { ...OSHA_NEWS_LISTING, nextPage: undefined }).nextPageUrl)
+      .toBeUndefined();
+    expect(parseHtmlListing(STATE_AG_PAGE, STATE_AG_URL, STATE_AG_LISTING).nextPageUrl).toBeUndefined();
+  });
+
+  it('copes with legacy markup: omitted end tags, uppercase names and <base>', () => {
+    const page = parseHtmlListing(STATE_AG_PAGE, STATE_AG_URL, STATE_AG_LISTING);
+
+    expect(page.items).toEqual([
+      {
+        title: 'Attorney General Secures $3M from Acme Corp. & Affiliates',
+        link: 'https://ag.state.example/press/2024/acme-settlement.html',
+        guid: 'https://ag.state.example/press/2024/acme-settlement.html',
+        published: '02/27/2024',
+        description: undefined,
+      },
+      {
+        title: 'Lawsuit Filed Against Widget Co.',
+        link: 'https://ag.state.example/press/2024/widget-lawsuit.html',
+        guid: 'https://ag.state.example/press/2024/widget-lawsuit.html',
+        published: '02/14/2024',
+        description: undefined,
+      },
+    ]);
+  });
+
+  it('lets the item itself be the link', () => {
+    const html = `
+      <ul class="releases">
+        <li><a class="release" href="/a">First</a>
+        <li><a class="release" href="/b">Second</a>
+        <li><a class="release" href="/a">First again</a>
+      </ul>`;
+
+    const page = parseHtmlListing(html, 'https://www.consumerfinance.gov/enforcement/', {
+      item: 'ul.releases a.release',
+      link: 'a',
+    });
+
+    expect(page.items.map((i) => [i.title, i.link])).toEqual([
+      ['First', 'https://www.consumerfinance.gov/a'],
+      ['Second', 'https://www.consumerfinance.gov/b'],
+    ]);
+  });
+});
@@ -0,0 +1,82 @@
+import type { HtmlListingConfig, ListingField } from '@ledger/shared';
+import type { FeedItem } from './feed-parser.js';
+import { matches, selectAll, selectOne } from './selectors.js';
+import { parseHtml, textContent, type XmlElement } from './xml.js';
+
+// Turns a publisher's HTML listing page (news releases, enforcement actions)
+// into feed items, using the selectors configured for the feed.
+
+export interface ListingPage {
+  items: FeedItem[];
+  nextPageUrl?: string;
+}
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function resolveUrl(href: string, base: string): string | undefined {
+  try {
+    const url = new URL(href, base);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function fieldSpec(field: ListingField, defaultAttr?: string): { selector: string; attr?: string } {
+  return typeof field === 'string' ? { selector: field, attr: defaultAttr } : field;
+}
+
+/**
+ * Read a field from an item. The selector may match the item element itself
+ * (e.g. when items are the links), otherwise its first matching descendant.
+ */
+function readField(item: XmlElement, field: ListingField | undefined, defaultAttr?: string): string | undefined {
+  if (!field) {
+    return undefined;
+  }
+  const { selector, attr } = fieldSpec(field, defaultAttr);
+  const element = matches(item, selector) ? item : selectOne(item, selector);
+  if (!element) {
+    return undefined;
+  }
+  const value = attr ? element.attrs[attr.toLowerCase()] : textContent(element);
+  return value ? collapse(value) || undefined : undefined;
+}
+
+/**
+ * Extract items from one listing page. Links are resolved against the page
+ * URL (or its <base href>); items without a usable link or title are skipped.
+ */
+export function parseHtmlListing(html: string, pageUrl: string, listing: HtmlListingConfig): ListingPage {
+  const document = parseHtml(html);
+  const baseHref = selectOne(document, 'base[href]')?.attrs.href;
+  const base = (baseHref && resolveUrl(baseHref, pageUrl)) || pageUrl;
+
+  const items: FeedItem[] = [];
+  const seen = new Set<string>();
+
+  for (const element of selectAll(document, listing.item)) {
+    const href = readField(element, listing.link, 'href');
+    const link = href ? resolveUrl(href, base) : undefined;
+    const title = readField(element, listing.title ?? fieldSpec(listing.link).selector);
+    if (!link || !title || seen.has(link)) {
+      continue;
+    }
+    seen.add(link);
+
+    items.push({
+      title,
+      link,
+      guid: link,
+      published: readField(element, listing.date),
+      description: readField(element, listing.summary),
+    });
+  }
+
+  const nextHref = listing.nextPage ? selectOne(document, listing.nextPage)?.attrs.href : undefined;
+  const nextPageUrl = nextHref ? resolveUrl(nextHref, base) : undefined;
+
+  return { items, nextPageUrl: nextPageUrl !== pageUrl ? nextPageUrl : undefined };
+}
@@ -0,0 +1,61 @@
+import { generateKeyPairSync, sign, type KeyObject } from 'crypto';
+
+// Test-only helpers: a locally generated RS256 key standing in for the
+// Cognito user pool, its JWKS, and a signer for tokens it would issue.
+
+export const TEST_REGION = 'us-east-1';
+export const TEST_USER_POOL_ID = 'us-east-1_TestPool';
+export const TEST_CLIENT_ID = 'test-client-id';
+export const TEST_ISSUER = `https://cognito-idp.${TEST_REGION}.amazonaws.com/${TEST_USER_POOL_ID}`;
+
+export interface TestJwtSigner {
+  kid: string;
+  jwks: { keys: Array<Record<string, unknown>> };
+  sign(claims: Record<string, unknown>, header?: Record<string, unknown>): string;
+}
+
+function encode(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+export function createTestJwtSigner(kid = 'test-key-1'): TestJwtSigner {
+  const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  return {
+    kid,
+    jwks: { keys: [{ ...publicKey.export({ format: 'jwk' }), kid, alg: 'RS256', use: 'sig' }] },
+    sign: (claims, header = {}) => signWith(privateKey, claims, { alg: 'RS256', kid, ...header }),
+  };
+}
+
+function signWith(
+  privateKey: KeyObject,
+  claims: Record<string, unknown>,
+  header: Record<string, unknown>
+): string {
+  const signingInput = `${encode(header)}.${encode(claims)}`;
+  const signature = sign('RSA-SHA256', Buffer.from(signingInput), privateKey).toString('base64url');
+  return `${signingInput}.${signature}`;
+}
+
+/** Claims of a current Cognito ID token for the test pool */
+export function idTokenClaims(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    sub: 'user-123',
+    iss: TEST_ISSUER,
+    aud: TEST_CLIENT_ID,
+    token_use: 'id',
+    iat: now,
+    exp: now + 3600,
+    ...overrides,
+  };
+}
+
+/** fetch stand-in that serves the signer's JWKS */
+export function jwksFetch(signer: TestJwtSigner): typeof fetch {
+  return (async () =>
+    new Response(JSON.stringify(signer.jwks), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    })) as typeof fetch;
+}
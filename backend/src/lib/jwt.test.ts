@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { verifyCognitoJwt, clearJwksCache } from './jwt.js';
+import { UnauthorizedError } from './errors.js';
+import {
+  TEST_CLIENT_ID,
+  TEST_ISSUER,
+  createTestJwtSigner,
+  idTokenClaims,
+  jwksFetch,
+} from './jwt.fixtures.js';
+
+// Matches the fixture pool; vi.mock is hoisted above the fixture import
+vi.mock('./config.js', () => ({
+  config: {
+    region: 'us-east-1',
+    auth: {
+      userPoolId: 'us-east-1_TestPool',
+      clientId: 'test-client-id',
+    },
+  },
+}));
+
+vi.mock('./logger.js', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn() },
+}));
+
+const signer = createTestJwtSigner();
+
+async function expectRejected(token: string, message: string): Promise<void> {
+  const error = await verifyCognitoJwt(token).catch((e: unknown) => e);
+  expect(error).toBeInstanceOf(UnauthorizedError);
+  expect((error as UnauthorizedError).code).toBe('UNAUTHORIZED');
+  expect((error as UnauthorizedError).message).toBe(message);
+}
+
+describe('verifyCognitoJwt', () => {
+  beforeEach(() => {
+    clearJwksCache();
+    vi.stubGlobal('fetch', vi.fn(jwksFetch(signer)));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('accepts a valid ID token and caches the JWKS', async () => {
+    const token = signer.sign(idTokenClaims({ 'cognito:groups': ['admin'] }));
+
+    const claims = await verifyCognitoJwt(token);
+    await verifyCognitoJwt(token);
+
+    expect(claims.sub).toBe('user-123');
+    expect(claims['cognito:groups']).toEqual(['admin']);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(fetch).toHaveBeenCalledWith(`${TEST_ISSUER}/.well-known/jwks.json`);
+  });
+
+  it('accepts an access token for the app client', async () => {
+    const token = signer.sign(
+      idTokenClaims({ token_use: 'access', aud: undefined, client_id: TEST_CLIENT_ID })
+    );
+
+    await expect(verifyCognitoJwt(token)).resolves.toMatchObject({ token_use: 'access' });
+  });
+
+  it('rejects unsigned and tampered tokens', async () => {
+    const token = signer.sign(idTokenClaims());
+    const [header, , signature] = token.split('.');
+    const forgedPayload = Buffer.from(
+      JSON.stringify(idTokenClaims({ 'cognito:groups': ['admin'] }))
+    ).toString('base64url');
+
+    await expectRejected(`${header}.${forgedPayload}.${signature}`, 'Invalid token signature');
+    await expectRejected(signer.sign(idTokenClaims(), { alg: 'none' }), 'Unsupported token algorithm');
+    await expectRejected('not-a-jwt', 'Malformed token');
+  });
+
+  it('rejects tokens signed by a key outside the JWKS', async () => {
+    const impostor = createTestJwtSigner('impostor-key');
+
+    await expectRejected(impostor.sign(idTokenClaims()), 'Token signed with an unknown key');
+  });
+
+  it('rejects a different key reusing a published kid', async () => {
+    const impostor = createTestJwtSigner(signer.kid);
+
+    await expectRejected(impostor.sign(idTokenClaims()), 'Invalid token signature');
+  });
+
+  it('checks issuer, audience and token use', async () => {
+    await expectRejected(
+      signer.sign(idTokenClaims({ iss: 'https://cognito-idp.us-east-1.amazonaws.com/other' })),
+      'Token issuer mismatch'
+    );
+    await expectRejected(signer.sign(idTokenClaims({ aud: 'other-client' })), 'Token audience mismatch');
+    await expectRejected(
+      signer.sign(idTokenClaims({ token_use: 'access', client_id: 'other-client' })),
+      'Token client mismatch'
+    );
+    await expectRejected(signer.sign(idTokenClaims({ token_use: 'refresh' })), 'Unsupported token use');
+  });
+
+  it('checks expiry and not-before with clock tolerance', async () => {
+    const now = Math.floor(Date.now() / 1000);
+
+    await expectRejected(signer.sign(idTokenClaims({ exp: now - 120 })), 'Token expired');
+    await expectRejected(signer.sign(idTokenClaims({ nbf: now + 600 })), 'Token not yet valid');
+    await expect(verifyCognitoJwt(signer.sign(idTokenClaims({ exp: now - 30 })))).resolves.toBeDefined();
+  });
+
+  it('picks up a rotated key on an unknown kid', async () => {
+    const rotated = createTestJwtSigner('rotated-key');
+    await verifyCognitoJwt(signer.sign(idTokenClaims()));
+
+    vi.mocked(fetch).mockImplementation(jwksFetch(rotated));
+    // Refreshes are throttled, so pretend the last fetch was a while ago
+    vi.useFakeTimers({ now: Date.now() + 5 * 60_000, toFake: ['Date'] });
+    try {
+      await expect(verifyCognitoJwt(rotated.sign(idTokenClaims()))).resolves.toBeDefined();
+    } finally {
+      vi.useRealTimers();
+    }
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not refetch the JWKS for every unknown kid', async () => {
+    const impostor = createTestJwtSigner('impostor-key');
+    await verifyCognitoJwt(signer.sign(idTokenClaims()));
+
+    await expectRejected(impostor.sign(idTokenClaims()), 'Token signed with an unknown key');
+    await expectRejected(impostor.sign(idTokenClaims()), 'Token signed with an unknown key');
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,165 @@
+import { createPublicKey, verify, type KeyObject } from 'crypto';
+import { config } from './config.js';
+import { logger } from './logger.js';
+import { UnauthorizedError } from './errors.js';
+
+// Cognito signs ID and access tokens with RS256 keys published as a JWKS.
+// Keys are cached for an hour; an unknown kid triggers one early refresh so
+// rotated keys are picked up without letting bad tokens hammer the endpoint.
+const JWKS_CACHE_TTL_MS = 60 * 60_000;
+const JWKS_MIN_REFRESH_MS = 60_000;
+const CLOCK_TOLERANCE_SECONDS = 60;
+
+export interface CognitoClaims {
+  sub: string;
+  iss: string;
+  token_use: 'id' | 'access';
+  exp: number;
+  iat?: number;
+  nbf?: number;
+  aud?: string;                    // ID tokens
+  client_id?: string;              // access tokens
+  'cognito:groups'?: string[] | string;
+  [claim: string]: unknown;
+}
+
+interface Jwk {
+  kid?: string;
+  kty?: string;
+  alg?: string;
+  n?: string;
+  e?: string;
+}
+
+let cachedKeys = new Map<string, KeyObject>();
+let cacheExpiry = 0;
+let lastFetch = 0;
+
+export function cognitoIssuer(): string {
+  return `https://cognito-idp.${config.region}.amazonaws.com/${config.auth.userPoolId}`;
+}
+
+async function fetchJwks(): Promise<void> {
+  const url = `${cognitoIssuer()}/.well-known/jwks.json`;
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`JWKS request failed with status ${response.status}`);
+  }
+
+  const { keys } = (await response.json()) as { keys?: Jwk[] };
+  const next = new Map<string, KeyObject>();
+  for (const jwk of keys ?? []) {
+    if (jwk.kid && jwk.kty === 'RSA') {
+      next.set(jwk.kid, createPublicKey({ key: jwk, format: 'jwk' }));
+    }
+  }
+
+  const now = Date.now();
+  cachedKeys = next;
+  cacheExpiry = now + JWKS_CACHE_TTL_MS;
+  lastFetch = now;
+}
+
+async function getSigningKey(kid: string): Promise<KeyObject> {
+  const now = Date.now();
+  const stale = now >= cacheExpiry;
+  const unknownKid = !cachedKeys.has(kid) && now - lastFetch >= JWKS_MIN_REFRESH_MS;
+
+  if (stale || unknownKid) {
+    try {
+      await fetchJwks();
+    } catch (error) {
+      logger.error({ error }, 'Failed to fetch Cognito JWKS');
+      // Keep using the keys we have; without any, nothing can be verified
+    }
+  }
+
+  const key = cachedKeys.get(kid);
+  if (!key) {
+    throw new UnauthorizedError('Token signed with an unknown key');
+  }
+  return key;
+}
+
+function decodeSegment<T>(segment: string, name: string): T {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T;
+  } catch {
+    throw new UnauthorizedError(`Malformed token ${name}`);
+  }
+}
+
+/**
+ * Verify a Cognito JWT: RS256 signature against the user pool JWKS, issuer,
+ * token_use, audience (aud for ID tokens, client_id for access tokens) and
+ * exp/nbf with a small clock tolerance. Throws UnauthorizedError on any failure.
+ */
+export async function verifyCognitoJwt(token: string): Promise<CognitoClaims> {
+  if (!config.auth.userPoolId || !config.auth.clientId) {
+    logger.error('Cognito user pool is not configured; rejecting token');
+    throw new UnauthorizedError('Token verification is not configured');
+  }
+
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new UnauthorizedError('Malformed token');
+  }
+  const [encodedHeader, encodedPayload, encodedSignature] = parts;
+
+  const header = decodeSegment<{ alg?: string; kid?: string }>(encodedHeader, 'header');
+  if (header.alg !== 'RS256' || !header.kid) {
+    throw new UnauthorizedError('Unsupported token algorithm');
+  }
+
+  const key = await getSigningKey(header.kid);
+  const signatureValid = verify(
+    'RSA-SHA256',
+    Buffer.from(`${encodedHeader}.${encodedPayload}`),
+    key,
+    Buffer.from(encodedSignature, 'base64url')
+  );
+  if (!signatureValid) {
+    throw new UnauthorizedError('Invalid token signature');
+  }
+
+  const claims = decodeSegment<CognitoClaims>(encodedPayload, 'payload');
+
+  if (claims.iss !== cognitoIssuer()) {
+    throw new UnauthorizedError('Token issuer mismatch');
+  }
+
+  if (claims.token_use === 'id') {
+    if (claims.aud !== config.auth.clientId) {
+      throw new UnauthorizedError('Token audience mismatch');
+    }
+  } else if (claims.token_use === 'access') {
+    if (claims.client_id !== config.auth.clientId) {
+      throw new UnauthorizedError('Token client mismatch');
+    }
+  } else {
+    throw new UnauthorizedError('Unsupported token use');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof claims.exp !== 'number' || claims.exp + CLOCK_TOLERANCE_SECONDS <= now) {
+    throw new UnauthorizedError('Token expired');
+  }
+  if (typeof claims.nbf === 'number' && claims.nbf - CLOCK_TOLERANCE_SECONDS > now) {
+    throw new UnauthorizedError('Token not yet valid');
+  }
+
+  if (typeof claims.sub !== 'string' || !claims.sub) {
+    throw new UnauthorizedError('Token has no subject');
+  }
+
+  return claims;
+}
+
+/**
+ * Clear the JWKS cache (useful for testing)
+ */
+export function clearJwksCache(): void {
+  cachedKeys = new Map();
+  cacheExpiry = 0;
+  lastFetch = 0;
+}
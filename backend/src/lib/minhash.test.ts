@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { SIGNATURE_SIZE, estimateSimilarity, minhash, tokenize } from './minhash.js';
+
+function jaccard(a: string[], b: string[]): number {
+  const left = new Set(a);
+  const right = new Set(b);
+  const shared = [...left].filter((x) => right.has(x)).length;
+  return shared / (left.size + right.size - shared);
+}
+
+describe('tokenize', () => {
+  it('lower-cases, strips accents and drops stopwords', () => {
+    expect(tokenize('Société Générale to pay $1,250,000 in the FTC case')).toEqual([
+      'societe',
+      'generale',
+      'pay',
+      '1250000',
+      'ftc',
+      'case',
+    ]);
+  });
+});
+
+describe('minhash', () => {
+  it('gives identical sets identical signatures regardless of order', () => {
+    const a = minhash(['acme', 'settlement', 'billing']);
+    const b = minhash(['billing', 'acme', 'settlement', 'acme']);
+
+    expect(a).toHaveLength(SIGNATURE_SIZE);
+    expect(a).toEqual(b);
+    expect(estimateSimilarity(a, b)).toBe(1);
+  });
+
+  it('estimates Jaccard similarity', () => {
+    const a = Array.from({ length: 60 }, (_, i) => `word${i}`);
+    const b = Array.from({ length: 60 }, (_, i) => `word${i + 30}`);
+
+    expect(Math.abs(estimateSimilarity(minhash(a), minhash(b)) - jaccard(a, b))).toBeLessThan(0.12);
+  });
+
+  it('treats empty sets as unrelated', () => {
+    expect(estimateSimilarity(minhash([]), minhash([]))).toBe(0);
+  });
+});
@@ -0,0 +1,76 @@
+// MinHash signatures: a fixed-size sketch of a set of features whose
+// positions agree, between two sets, in proportion to their Jaccard
+// similarity. Used to spot the same story published by different agencies.
+
+// Positions in a signature; the estimate's error shrinks with 1/sqrt(this)
+export const SIGNATURE_SIZE = 128;
+
+// Words that say nothing about which story an item is about
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'in', 'into',
+  'is', 'it', 'its', 'of', 'on', 'or', 'that', 'the', 'their', 'this', 'to', 'was', 'were',
+  'will', 'with', 'after', 'against', 'over', 'under', 'who', 'which', 'also', 'said', 'today',
+]);
+
+/** Lower-cased words and numbers, without accents or stopwords */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/(\d),(?=\d{3}\b)/g, '$1')
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 1 && !STOPWORDS.has(token));
+}
+
+// FNV-1a, 32-bit
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Murmur3's finalizer; with a different seed per position it stands in for
+// an independent hash function
+function mix(hash: number, seed: number): number {
+  let h = (hash ^ Math.imul(seed, 0x9e3779b1)) >>> 0;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+/** The MinHash signature of a set of features */
+export function minhash(features: Iterable<string>, size = SIGNATURE_SIZE): number[] {
+  const signature = new Array<number>(size).fill(0xffffffff);
+  for (const feature of new Set(features)) {
+    const base = hashString(feature);
+    for (let i = 0; i < size; i++) {
+      const h = mix(base, i + 1);
+      if (h < signature[i]) {
+        signature[i] = h;
+      }
+    }
+  }
+  return signature;
+}
+
+/** Estimated Jaccard similarity of the sets behind two signatures */
+export function estimateSimilarity(a: number[], b: number[]): number {
+  const size = Math.min(a.length, b.length);
+  if (size === 0) {
+    return 0;
+  }
+  let same = 0;
+  for (let i = 0; i < size; i++) {
+    if (a[i] === b[i] && a[i] !== 0xffffffff) {
+      same++;
+    }
+  }
+  return same / size;
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { isAllowedByRobots, parseRobotsTxt } from './robots.js';
+
+const robotsTxt = `
+# Federal agency robots.txt
+User-agent: *
+Crawl-delay: 10
+Disallow: /search
+Disallow: /*.pdf$
+Allow: /search/about
+
+User-agent: BadBot
+User-agent: OtherBot
+Disallow: /
+`;
+
+describe('robots.txt', () => {
+  it('applies the * group when no group names us', () => {
+    const policy = parseRobotsTxt(robotsTxt, 'AccountabilityLedger');
+
+    expect(policy.crawlDelayMs).toBe(10_000);
+    expect(isAllowedByRobots(policy, '/news/newsreleases')).toBe(true);
+    expect(isAllowedByRobots(policy, '/search?q=osha')).toBe(false);
+  });
+
+  it('prefers the longest matching rule, and Allow on a tie', () => {
+    const policy = parseRobotsTxt(robotsTxt, 'AccountabilityLedger');
+    expect(isAllowedByRobots(policy, '/search/about')).toBe(true);
+
+    const tied = parseRobotsTxt('User-agent: *\nDisallow: /page\nAllow: /page', 'AccountabilityLedger');
+    expect(isAllowedByRobots(tied, '/page')).toBe(true);
+  });
+
+  it('supports * and $ in rule paths', () => {
+    const policy = parseRobotsTxt(robotsTxt, 'AccountabilityLedger');
+
+    expect(isAllowedByRobots(policy, '/files/report.pdf')).toBe(false);
+    expect(isAllowedByRobots(policy, '/files/report.pdf?download=1')).toBe(true);
+  });
+
+  it('uses the group naming our product token, case-insensitively, over *', () => {
+    const text = `${robotsTxt}\nuser-agent: accountabilityledger\nDisallow: /news/\n`;
+    const policy = parseRobotsTxt(text, 'AccountabilityLedger');
+
+    expect(isAllowedByRobots(policy, '/news/newsreleases')).toBe(false);
+    expect(isAllowedByRobots(policy, '/search')).toBe(true);
+    expect(policy.crawlDelayMs).toBeUndefined();
+  });
+
+  it('allows everything without a matching group or rules', () => {
+    const policy = parseRobotsTxt('User-agent: BadBot\nDisallow: /', 'AccountabilityLedger');
+    expect(isAllowedByRobots(policy, '/anything')).toBe(true);
+
+    const empty = parseRobotsTxt('User-agent: *\nDisallow:', 'AccountabilityLedger');
+    expect(empty.rules).toEqual([]);
+  });
+
+  it('always allows robots.txt itself', () => {
+    expect(isAllowedByRobots({ rules: [{ allow: false, path: '/' }] }, '/robots.txt')).toBe(true);
+  });
+});
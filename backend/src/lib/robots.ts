@@ -0,0 +1,111 @@
+// A robots.txt reader following RFC 9309: the group for our product token
+// (or "*" when there is none), Allow/Disallow rules with * and $ wildcards,
+// longest match wins and Allow wins ties. Crawl-delay isn't in the RFC but
+// is widely used, so it is read too.
+
+export interface RobotsRule {
+  allow: boolean;
+  path: string;
+}
+
+export interface RobotsPolicy {
+  rules: RobotsRule[];
+  crawlDelayMs?: number;
+}
+
+interface Group {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelayMs?: number;
+}
+
+// Anything past this is ignored, as the RFC allows
+const MAX_ROBOTS_BYTES = 500 * 1024;
+
+// Crawl-delay values beyond this are treated as this
+const MAX_CRAWL_DELAY_MS = 60_000;
+
+/** Parse robots.txt and keep the rules that apply to the given product token */
+export function parseRobotsTxt(text: string, productToken: string): RobotsPolicy {
+  const groups: Group[] = [];
+  let current: Group | undefined;
+  let inAgentLines = false;
+
+  for (const rawLine of text.slice(0, MAX_ROBOTS_BYTES).split(/\r\n|\r|\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const colon = line.indexOf(':');
+    if (colon === -1) {
+      continue;
+    }
+    const field = line.slice(0, colon).trim().toLowerCase();
+    const value = line.slice(colon + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (!current || !inAgentLines) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      inAgentLines = true;
+      continue;
+    }
+    inAgentLines = false;
+    if (!current) {
+      continue;
+    }
+
+    if ((field === 'allow' || field === 'disallow') && value) {
+      current.rules.push({ allow: field === 'allow', path: value });
+    } else if (field === 'crawl-delay') {
+      const seconds = parseFloat(value);
+      if (Number.isFinite(seconds) && seconds >= 0) {
+        current.crawlDelayMs = Math.min(Math.round(seconds * 1000), MAX_CRAWL_DELAY_MS);
+      }
+    }
+  }
+
+  const token = productToken.toLowerCase();
+  let matched = groups.filter((group) => group.agents.includes(token));
+  if (matched.length === 0) {
+    matched = groups.filter((group) => group.agents.includes('*'));
+  }
+
+  // Groups naming the same agent are merged
+  const delays = matched.flatMap((group) => (group.crawlDelayMs === undefined ? [] : [group.crawlDelayMs]));
+  return {
+    rules: matched.flatMap((group) => group.rules),
+    ...(delays.length > 0 && { crawlDelayMs: Math.max(...delays) }),
+  };
+}
+
+function rulePattern(path: string): RegExp {
+  const anchored = path.endsWith('$');
+  const body = (anchored ? path.slice(0, -1) : path)
+    .split('*')
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/** Whether a URL path (with its query string) may be fetched under the policy */
+export function isAllowedByRobots(policy: RobotsPolicy, pathAndQuery: string): boolean {
+  if (pathAndQuery === '/robots.txt') {
+    return true;
+  }
+
+  let best: RobotsRule | undefined;
+  for (const rule of policy.rules) {
+    if (!rulePattern(rule.path).test(pathAndQuery)) {
+      continue;
+    }
+    if (
+      !best ||
+      rule.path.length > best.path.length ||
+      (rule.path.length === best.path.length && rule.allow)
+    ) {
+      best = rule;
+    }
+  }
+  return best?.allow ?? true;
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { SelectorSyntaxError, matches, selectAll } from './selectors.js';
+import { parseHtml } from './xml.js';
+
+const html = `
+  <div id="main" class="content wide">
+    <ul class="list">
+      <li class="item first" data-kind="press-release">One</li>
+      <li class="item" data-kind="statement">Two</li>
+      <li class="item featured" data-kind="press-release-update">Three</li>
+      <li class="item">Four</li>
+    </ul>
+    <p lang="en-US">Intro</p>
+    <p>Outro</p>
+  </div>`;
+
+function texts(selector: string): string[] {
+  return selectAll(parseHtml(html), selector).map((el) => el.children.join('').trim());
+}
+
+describe('selectors', () => {
+  it('matches type, class, id and universal selectors', () => {
+    expect(texts('li')).toHaveLength(4);
+    expect(texts('.item.featured')).toEqual(['Three']);
+    expect(texts('#main > p')).toEqual(['Intro', 'Outro']);
+    expect(texts('ul > *')).toHaveLength(4);
+  });
+
+  it('matches attribute selectors', () => {
+    expect(texts('[data-kind="press-release"]')).toEqual(['One']);
+    expect(texts('[data-kind^=press]')).toEqual(['One', 'Three']);
+    expect(texts("[data-kind$='update']")).toEqual(['Three']);
+    expect(texts('[data-kind*=state]')).toEqual(['Two']);
+    expect(texts('[class~=first]')).toEqual(['One']);
+    expect(texts('[lang|=en]')).toEqual(['Intro']);
+    expect(texts('[DATA-KIND="STATEMENT" i]')).toEqual(['Two']);
+    expect(texts('li[data-kind]')).toHaveLength(3);
+  });
+
+  it('matches structural pseudo-classes and :not()', () => {
+    expect(texts('li:first-child')).toEqual(['One']);
+    expect(texts('li:last-child')).toEqual(['Four']);
+    expect(texts('li:nth-child(2)')).toEqual(['Two']);
+    expect(texts('li:nth-child(odd)')).toEqual(['One', 'Three']);
+    expect(texts('li:nth-child(2n+2)')).toEqual(['Two', 'Four']);
+    expect(texts('li:not(.first)')).toEqual(['Two', 'Three', 'Four']);
+  });
+
+  it('matches descendant, sibling and grouped selectors', () => {
+    expect(texts('div li.first')).toEqual(['One']);
+    expect(texts('li.first + li')).toEqual(['Two']);
+    expect(texts('li.first ~ li')).toEqual(['Two', 'Three', 'Four']);
+    expect(texts('ul + p, li.featured')).toEqual(['Three', 'Intro']);
+  });
+
+  it('checks a single element', () => {
+    const [li] = selectAll(parseHtml(html), 'li');
+    expect(matches(li, '.list > .item')).toBe(true);
+    expect(matches(li, 'p')).toBe(false);
+  });
+
+  it('reports invalid selectors', () => {
+    expect(() => texts('li[')).toThrow(SelectorSyntaxError);
+    expect(() => texts('li:hover')).toThrow('unsupported pseudo-class ":hover"');
+    expect(() => texts('')).toThrow(SelectorSyntaxError);
+  });
+});
@@ -0,0 +1,345 @@
+import type { XmlElement } from './xml.js';
+
+// A CSS selector subset for picking items out of scraped listing pages:
+// type, universal, #id, .class and attribute selectors ([a], [a=v], ~= ^= $=
+// *= |=), :first-child, :last-child, :nth-child(n|odd|even|an+b) and :not(),
+// combined with descendant, child (>), adjacent (+) and sibling (~)
+// combinators, in comma-separated lists.
+
+type AttrOperator = '=' | '~=' | '^=' | '$=' | '*=' | '|=';
+
+interface Compound {
+  tag?: string;
+  ids: string[];
+  classes: string[];
+  attrs: Array<{ name: string; op?: AttrOperator; value?: string; caseInsensitive?: boolean }>;
+  pseudos: Array<{ nth: [number, number] } | { last: true } | { not: Compound }>;
+}
+
+type Combinator = ' ' | '>' | '+' | '~';
+
+// Compounds left to right, each with the combinator joining it to the previous one
+type Complex = Array<{ combinator: Combinator; compound: Compound }>;
+
+export class SelectorSyntaxError extends Error {
+  constructor(selector: string, detail: string) {
+    super(`Invalid selector "${selector}": ${detail}`);
+    this.name = 'SelectorSyntaxError';
+  }
+}
+
+const IDENT = /^-?[A-Za-z_\u00A0-\uFFFF][\w\u00A0-\uFFFF-]*/;
+
+class SelectorParser {
+  private pos = 0;
+
+  constructor(private readonly source: string) {}
+
+  parseList(): Complex[] {
+    const list: Complex[] = [];
+    do {
+      this.skipSpace();
+      list.push(this.parseComplex());
+      this.skipSpace();
+    } while (this.eat(','));
+    if (this.pos < this.source.length) {
+      this.fail(`unexpected "${this.source[this.pos]}"`);
+    }
+    return list;
+  }
+
+  private parseComplex(): Complex {
+    const complex: Complex = [{ combinator: ' ', compound: this.parseCompound() }];
+    for (;;) {
+      const hadSpace = this.skipSpace();
+      const next = this.source[this.pos];
+      if (next === '>' || next === '+' || next === '~') {
+        this.pos++;
+        this.skipSpace();
+        complex.push({ combinator: next, compound: this.parseCompound() });
+      } else if (hadSpace && next !== undefined && next !== ',' && next !== ')') {
+        complex.push({ combinator: ' ', compound: this.parseCompound() });
+      } else {
+        return complex;
+      }
+    }
+  }
+
+  private parseCompound(): Compound {
+    const compound: Compound = { ids: [], classes: [], attrs: [], pseudos: [] };
+    const start = this.pos;
+
+    if (this.eat('*')) {
+      // universal; no tag constraint
+    } else {
+      const tag = this.ident(false);
+      if (tag) {
+        compound.tag = tag.toLowerCase();
+      }
+    }
+
+    for (;;) {
+      if (this.eat('#')) {
+        compound.ids.push(this.ident(true)!);
+      } else if (this.eat('.')) {
+        compound.classes.push(this.ident(true)!);
+      } else if (this.eat('[')) {
+        compound.attrs.push(this.parseAttribute());
+      } else if (this.eat(':')) {
+        compound.pseudos.push(this.parsePseudo());
+      } else {
+        break;
+      }
+    }
+
+    if (this.pos === start) {
+      this.fail(this.pos < this.source.length ? `unexpected "${this.source[this.pos]}"` : 'expected a selector');
+    }
+    return compound;
+  }
+
+  private parseAttribute(): Compound['attrs'][number] {
+    this.skipSpace();
+    const name = this.ident(true)!.toLowerCase();
+    this.skipSpace();
+    if (this.eat(']')) {
+      return { name };
+    }
+    const op = (['~=', '^=', '$=', '*=', '|=', '='] as const).find((candidate) => this.eat(candidate));
+    if (!op) {
+      this.fail('expected an attribute operator');
+    }
+    this.skipSpace();
+    const value = this.quoted() ?? this.ident(true)!;
+    this.skipSpace();
+    const caseInsensitive = this.eat('i') || this.eat('I');
+    this.skipSpace();
+    if (!this.eat(']')) {
+      this.fail('expected "]"');
+    }
+    return { name, op, value, caseInsensitive };
+  }
+
+  private parsePseudo(): Compound['pseudos'][number] {
+    const name = this.ident(true)!.toLowerCase();
+    switch (name) {
+      case 'first-child':
+        return { nth: [0, 1] };
+      case 'last-child':
+        return { last: true };
+      case 'nth-child': {
+        const arg = this.argument();
+        return { nth: parseNth(arg) ?? this.fail(`bad :nth-child argument "${arg}"`) };
+      }
+      case 'not': {
+        const inner = new SelectorParser(this.argument()).parseList();
+        if (inner.length !== 1 || inner[0].length !== 1) {
+          this.fail(':not() takes a single compound selector');
+        }
+        return { not: inner[0][0].compound };
+      }
+      default:
+        return this.fail(`unsupported pseudo-class ":${name}"`);
+    }
+  }
+
+  private argument(): string {
+    if (!this.eat('(')) {
+      this.fail('expected "("');
+    }
+    const close = this.source.indexOf(')', this.pos);
+    if (close === -1) {
+      this.fail('expected ")"');
+    }
+    const arg = this.source.slice(this.pos, close).trim();
+    this.pos = close + 1;
+    return arg;
+  }
+
+  private ident(required: boolean): string | undefined {
+    const match = IDENT.exec(this.source.slice(this.pos));
+    if (!match) {
+      if (required) {
+        this.fail('expected a name');
+      }
+      return undefined;
+    }
+    this.pos += match[0].length;
+    return match[0];
+  }
+
+  private quoted(): string | undefined {
+    const quote = this.source[this.pos];
+    if (quote !== '"' && quote !== "'") {
+      return undefined;
+    }
+    const end = this.source.indexOf(quote, this.pos + 1);
+    if (end === -1) {
+      this.fail('unterminated string');
+    }
+    const value = this.source.slice(this.pos + 1, end);
+    this.pos = end + 1;
+    return value;
+  }
+
+  private eat(token: string): boolean {
+    if (this.source.startsWith(token, this.pos)) {
+      this.pos += token.length;
+      return true;
+    }
+    return false;
+  }
+
+  private skipSpace(): boolean {
+    const start = this.pos;
+    while (/\s/.test(this.source[this.pos] ?? '')) {
+      this.pos++;
+    }
+    return this.pos > start;
+  }
+
+  private fail(detail: string): never {
+    throw new SelectorSyntaxError(this.source, detail);
+  }
+}
+
+// an+b as [a, b]
+function parseNth(arg: string): [number, number] | undefined {
+  const text = arg.replace(/\s+/g, '').toLowerCase();
+  if (text === 'odd') return [2, 1];
+  if (text === 'even') return [2, 0];
+  if (/^[+-]?\d+$/.test(text)) return [0, parseInt(text, 10)];
+  const match = /^([+-]?\d*)n([+-]\d+)?$/.exec(text);
+  if (!match) return undefined;
+  const a = match[1] === '' || match[1] === '+' ? 1 : match[1] === '-' ? -1 : parseInt(match[1], 10);
+  return [a, match[2] ? parseInt(match[2], 10) : 0];
+}
+
+function elementChildren(element: XmlElement): XmlElement[] {
+  return element.children.filter((node): node is XmlElement => typeof node !== 'string');
+}
+
+function siblingsOf(element: XmlElement): XmlElement[] {
+  return element.parent ? elementChildren(element.parent) : [element];
+}
+
+function matchesAttr(element: XmlElement, attr: Compound['attrs'][number]): boolean {
+  const raw = element.attrs[attr.name];
+  if (raw === undefined) {
+    return false;
+  }
+  if (!attr.op) {
+    return true;
+  }
+  const actual = attr.caseInsensitive ? raw.toLowerCase() : raw;
+  const expected = attr.caseInsensitive ? attr.value!.toLowerCase() : attr.value!;
+  switch (attr.op) {
+    case '=':
+      return actual === expected;
+    case '~=':
+      return actual.split(/\s+/).includes(expected);
+    case '^=':
+      return expected !== '' && actual.startsWith(expected);
+    case '$=':
+      return expected !== '' && actual.endsWith(expected);
+    case '*=':
+      return expected !== '' && actual.includes(expected);
+    case '|=':
+      return actual === expected || actual.startsWith(`${expected}-`);
+  }
+}
+
+function matchesCompound(element: XmlElement, compound: Compound): boolean {
+  if (element.name.startsWith('#')) {
+    return false;
+  }
+  if (compound.tag && element.name.toLowerCase() !== compound.tag) {
+    return false;
+  }
+  if (compound.ids.some((id) => element.attrs.id !== id)) {
+    return false;
+  }
+  if (compound.classes.length > 0) {
+    const classes = (element.attrs.class ?? '').split(/\s+/);
+    if (!compound.classes.every((c) => classes.includes(c))) {
+      return false;
+    }
+  }
+  if (!compound.attrs.every((attr) => matchesAttr(element, attr))) {
+    return false;
+  }
+  return compound.pseudos.every((pseudo) => {
+    if ('not' in pseudo) {
+      return !matchesCompound(element, pseudo.not);
+    }
+    const siblings = siblingsOf(element);
+    if ('last' in pseudo) {
+      return siblings[siblings.length - 1] === element;
+    }
+    const [a, b] = pseudo.nth;
+    const position = siblings.indexOf(element) + 1;
+    return a === 0 ? position === b : (position - b) / a >= 0 && (position - b) % a === 0;
+  });
+}
+
+// Match right to left: the last compound against the element, then walk out
+function matchesComplex(element: XmlElement, complex: Complex, index = complex.length - 1): boolean {
+  if (!matchesCompound(element, complex[index].compound)) {
+    return false;
+  }
+  if (index === 0) {
+    return true;
+  }
+
+  const { combinator } = complex[index];
+  if (combinator === '>') {
+    return !!element.parent && matchesComplex(element.parent, complex, index - 1);
+  }
+  if (combinator === ' ') {
+    for (let ancestor = element.parent; ancestor; ancestor = ancestor.parent) {
+      if (matchesComplex(ancestor, complex, index - 1)) {
+        return true;
+      }
+    }
+    return false;
+  }
+  const siblings = siblingsOf(element);
+  const preceding = siblings.slice(0, siblings.indexOf(element));
+  if (combinator === '+') {
+    const previous = preceding[preceding.length - 1];
+    return !!previous && matchesComplex(previous, complex, index - 1);
+  }
+  return preceding.some((sibling) => matchesComplex(sibling, complex, index - 1));
+}
+
+/** Throw SelectorSyntaxError if the selector is outside the supported subset */
+export function validateSelector(selector: string): void {
+  new SelectorParser(selector).parseList();
+}
+
+/** Whether the element itself matches the selector */
+export function matches(element: XmlElement, selector: string): boolean {
+  return new SelectorParser(selector).parseList().some((complex) => matchesComplex(element, complex));
+}
+
+/** Descendants of `root` matching the selector, in document order */
+export function selectAll(root: XmlElement, selector: string): XmlElement[] {
+  const list = new SelectorParser(selector).parseList();
+  const found: XmlElement[] = [];
+
+  const visit = (element: XmlElement) => {
+    for (const child of elementChildren(element)) {
+      if (list.some((complex) => matchesComplex(child, complex))) {
+        found.push(child);
+      }
+      visit(child);
+    }
+  };
+  visit(root);
+
+  return found;
+}
+
+export function selectOne(root: XmlElement, selector: string): XmlElement | undefined {
+  return selectAll(root, selector)[0];
+}
@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { CardApproval, EvidenceCard } from '@ledger/shared';
+import {
+  approveCard,
+  assertApprovalQuorum,
+  evaluateApprovals,
+  getCardApprovals,
+} from './approvals.js';
+import * as dynamodb from '../dynamodb.js';
+import * as cards from './cards.js';
+import * as sources from './sources.js';
+import * as reviewThreads from './review-threads.js';
+import { ApprovalRequiredError, ConflictError, ForbiddenError } from '../errors.js';
+import { makeCard } from '../../test-utils/fixtures.js';
+
+vi.mock('../dynamodb.js', () => ({
+  putItem: vi.fn(),
+  queryItems: vi.fn(),
+  isConditionalCheckFailed: vi.fn(
+    (error: unknown) => (error as Error).name === 'ConditionalCheckFailedException'
+  ),
+  stripKeys: vi.fn((item) => {
+    const rest = { ...item };
+    delete rest.PK;
+    delete rest.SK;
+    return rest;
+  }),
+}));
+
+vi.mock('./cards.js', () => ({
+  getCard: vi.fn(),
+}));
+
+vi.mock('./sources.js', () => ({
+  getSourcesByIds: vi.fn(() => Promise.resolve([])),
+}));
+
+vi.mock('./review-threads.js', () => ({
+  countOpenThreads: vi.fn(() => Promise.resolve(0)),
+}));
+
+vi.mock('../config.js', () => ({
+  config: {
+    tables: {
+      cards: 'test-cards-table',
+    },
+    approvals: {
+      publishQuorum: 2,
+      retractQuorum: 1,
+      correctQuorum: 0,
+    },
+  },
+}));
+
+// Cards under review unless a test says otherwise
+function reviewCard(overrides: Partial<EvidenceCard> = {}): EvidenceCard {
+  return makeCard({ status: 'REVIEW', version: 4, createdBy: 'author-1', updatedBy: 'editor-1', ...overrides });
+}
+
+function approval(approvedBy: string, overrides: Partial<CardApproval> = {}): CardApproval {
+  return {
+    cardId: 'card-1',
+    version: 4,
+    action: 'PUBLISH',
+    approvedBy,
+    approvedAt: '2024-01-15T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('approvals service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('evaluateApprovals', () => {
+    it('counts only independent approvals of the current version', () => {
+      const status = evaluateApprovals(reviewCard(), 'PUBLISH', [
+        approval('reviewer-1'),
+        approval('author-1'),                  // author
+        approval('editor-1'),                  // last editor
+        approval('reviewer-2', { version: 3 }), // stale version
+        approval('reviewer-3', { action: 'RETRACT' }),
+      ]);
+
+      expect(status.approvals.map((a) => a.approvedBy)).toEqual(['reviewer-1']);
+      expect(status).toMatchObject({ quorum: 2, remaining: 1, satisfied: false });
+      expect(status.blocking).toEqual([
+        'Needs 1 more approval from someone other than the author or last editor',
+      ]);
+    });
+
+    it('does not count the acting user for retractions', () => {
+      const card = reviewCard({ status: 'PUBLISHED' });
+      const approvals = [approval('reviewer-1', { action: 'RETRACT' })];
+
+      expect(evaluateApprovals(card, 'RETRACT', approvals).satisfied).toBe(true);
+      expect(evaluateApprovals(card, 'RETRACT', approvals, 'reviewer-1').satisfied).toBe(false);
+    });
+  });
+
+  describe('approveCard', () => {
+    it('records an approval keyed by version and action', async () => {
+      vi.mocked(cards.getCard).mockResolvedValueOnce(reviewCard());
+      vi.mocked(dynamodb.queryItems).mockResolvedValueOnce({
+        items: [{ PK: 'CARD#card-1', SK: 'APPROVAL#V#4#PUBLISH#reviewer-1', ...approval('reviewer-1') }],
+      });
+
+      const status = await approveCard('card-1', { action: 'PUBLISH', note: 'Sources check out' }, 'reviewer-1');
+
+      const put = vi.mocked(dynamodb.putItem).mock.calls[0][0];
+      expect(put.Item).toMatchObject({
+        PK: 'CARD#card-1',
+        SK: 'APPROVAL#V#4#PUBLISH#reviewer-1',
+        approvedBy: 'reviewer-1',
+        note: 'Sources check out',
+      });
+      expect(put.ConditionExpression).toBe('attribute_not_exists(PK)');
+      expect(status.remaining).toBe(1);
+    });
+
+    it('rejects approvals from the author or last editor', async () => {
+      vi.mocked(cards.getCard).mockResolvedValue(reviewCard());
+
+      await expect(approveCard('card-1', { action: 'PUBLISH' }, 'author-1')).rejects.toThrow(ForbiddenError);
+      await expect(approveCard('card-1', { action: 'PUBLISH' }, 'editor-1')).rejects.toThrow(ForbiddenError);
+      expect(dynamodb.putItem).not.toHaveBeenCalled();
+    });
+
+    it('rejects actions that do not apply to the card status', async () => {
+      vi.mocked(cards.getCard).mockResolvedValueOnce(reviewCard({ status: 'DRAFT' }));
+
+      await expect(approveCard('card-1', { action: 'PUBLISH' }, 'reviewer-1')).rejects.toThrow(
+        'Cannot approve PUBLISH for a card in DRAFT'
+      );
+    });
+
+    it('rejects a second approval of the same version', async () => {
+      vi.mocked(cards.getCard).mockResolvedValueOnce(reviewCard());
+      const conditionFailed = new Error('The conditional request failed');
+      conditionFailed.name = 'ConditionalCheckFailedException';
+      vi.mocked(dynamodb.putItem).mockRejectedValueOnce(conditionFailed);
+
+      await expect(approveCard('card-1', { action: 'PUBLISH' }, 'reviewer-1')).rejects.toThrow(ConflictError);
+    });
+  });
+
+  describe('getCardApprovals', () => {
+    it('reports open actions, unverified sources and open threads', async () => {
+      vi.mocked(cards.getCard).mockResolvedValueOnce(reviewCard());
+      vi.mocked(dynamodb.queryItems).mockResolvedValueOnce({ items: [] });
+      vi.mocked(sources.getSourcesByIds).mockResolvedValueOnce([
+        { sourceId: 'source-1', title: 'Consent decree', verificationStatus: 'PENDING' },
+      ]);
+      vi.mocked(reviewThreads.countOpenThreads).mockResolvedValueOnce(2);
+
+      const result = await getCardApprovals('card-1');
+
+      expect(result.ineligibleApprovers).toEqual(['author-1', 'editor-1']);
+      expect(result.actions).toHaveLength(1);
+      expect(result.actions[0].blocking).toEqual([
+        'Needs 2 more approvals from someone other than the author or last editor',
+        'Source source-1 is not verified',
+        '2 unresolved review threads',
+      ]);
+      expect(reviewThreads.countOpenThreads).toHaveBeenCalledWith('card', 'card-1');
+    });
+  });
+
+  describe('assertApprovalQuorum', () => {
+    it('throws until the quorum is met', async () => {
+      vi.mocked(dynamodb.queryItems).mockResolvedValueOnce({ items: [approval('reviewer-1')] });
+
+      const error = await assertApprovalQuorum(reviewCard(), 'PUBLISH', 'author-1').catch((e) => e);
+
+      expect(error).toBeInstanceOf(ApprovalRequiredError);
+      expect(error.statusCode).toBe(409);
+      expect(error.details).toMatchObject({ action: 'PUBLISH' });
+    });
+
+    it('passes once enough reviewers have signed off', async () => {
+      vi.mocked(dynamodb.queryItems).mockResolvedValueOnce({
+        items: [approval('reviewer-1'), approval('reviewer-2')],
+      });
+
+      await expect(assertApprovalQuorum(reviewCard(), 'PUBLISH', 'author-1')).resolves.toBeUndefined();
+    });
+
+    it('skips the lookup when the quorum is zero', async () => {
+      await assertApprovalQuorum(reviewCard({ status: 'PUBLISHED' }), 'CORRECT', 'editor-2');
+
+      expect(dynamodb.queryItems).not.toHaveBeenCalled();
+    });
+  });
+});
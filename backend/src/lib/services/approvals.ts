@@ -0,0 +1,206 @@
+import type {
+  ApprovalAction,
+  CardApproval,
+  CardApprovalStatus,
+  CardApprovalsResponse,
+  CardStatus,
+  EvidenceCard,
+} from '@ledger/shared';
+import { config } from '../config.js';
+import { putItem, queryItems, stripKeys, isConditionalCheckFailed } from '../dynamodb.js';
+import { ApprovalRequiredError, ConflictError, ForbiddenError } from '../errors.js';
+import { getCard } from './cards.js';
+import { getSourcesByIds } from './sources.js';
+import { countOpenThreads } from './review-threads.js';
+import type { ApproveCardInput } from '../validation.js';
+
+const TABLE = config.tables.cards;
+
+// Approvals live in the card's partition next to its versions:
+//   PK CARD#{cardId}  SK APPROVAL#V#{version}#{action}#{approvedBy}
+// Keying on the version means editing a card discards its earlier sign-offs.
+
+// Card statuses each action can be approved from
+const ACTION_STATUSES: Record<ApprovalAction, CardStatus[]> = {
+  PUBLISH: ['REVIEW', 'DISPUTED'],
+  RETRACT: ['PUBLISHED', 'DISPUTED', 'CORRECTED'],
+  CORRECT: ['PUBLISHED', 'DISPUTED'],
+};
+
+type ApprovalItem = CardApproval & { PK: string; SK: string };
+
+export function quorumFor(action: ApprovalAction): number {
+  switch (action) {
+    case 'PUBLISH':
+      return config.approvals.publishQuorum;
+    case 'RETRACT':
+      return config.approvals.retractQuorum;
+    case 'CORRECT':
+      return config.approvals.correctQuorum;
+  }
+}
+
+/** Users whose sign-off doesn't count: the card's author and whoever last edited it */
+export function ineligibleApprovers(card: EvidenceCard): string[] {
+  return [...new Set([card.createdBy, card.updatedBy])];
+}
+
+/**
+ * Count independent approvals of an action on the card's current version.
+ * Retractions and corrections are started by the acting user, so when
+ * actorId is given their own approval is not counted either.
+ */
+export function evaluateApprovals(
+  card: EvidenceCard,
+  action: ApprovalAction,
+  approvals: CardApproval[],
+  actorId?: string
+): CardApprovalStatus {
+  const quorum = quorumFor(action);
+  const excluded = new Set(ineligibleApprovers(card));
+  if (actorId && action !== 'PUBLISH') {
+    excluded.add(actorId);
+  }
+
+  const counted = approvals.filter(
+    (approval) =>
+      approval.action === action &&
+      approval.version === card.version &&
+      !excluded.has(approval.approvedBy)
+  );
+  const remaining = Math.max(0, quorum - counted.length);
+
+  const blocking: string[] = [];
+  if (remaining > 0) {
+    blocking.push(
+      `Needs ${remaining} more approval${remaining === 1 ? '' : 's'} from someone other than the author or last editor`
+    );
+  }
+
+  return {
+    action,
+    version: card.version,
+    quorum,
+    approvals: counted,
+    remaining,
+    satisfied: remaining === 0,
+    blocking,
+  };
+}
+
+async function listVersionApprovals(cardId: string, version: number): Promise<CardApproval[]> {
+  const { items } = await queryItems<ApprovalItem>({
+    TableName: TABLE,
+    KeyConditionExpression: 'PK = :pk AND begins_with(SK, :skPrefix)',
+    ExpressionAttributeValues: {
+      ':pk': `CARD#${cardId}`,
+      ':skPrefix': `APPROVAL#V#${version}#`,
+    },
+  });
+  return items.map((item) => stripKeys(item));
+}
+
+/**
+ * Sign off on an action for the card's current version. The author and last
+ * editor can't approve, and each user approves a given version once.
+ */
+export async function approveCard(
+  cardId: string,
+  input: ApproveCardInput,
+  userId: string
+): Promise<CardApprovalStatus> {
+  const card = await getCard(cardId);
+
+  if (!ACTION_STATUSES[input.action].includes(card.status)) {
+    throw new ConflictError(`Cannot approve ${input.action} for a card in ${card.status}`);
+  }
+  if (ineligibleApprovers(card).includes(userId)) {
+    throw new ForbiddenError('The author or last editor of a card cannot approve it');
+  }
+
+  const approval: CardApproval = {
+    cardId,
+    version: card.version,
+    action: input.action,
+    approvedBy: userId,
+    approvedAt: new Date().toISOString(),
+    ...(input.note && { note: input.note }),
+  };
+
+  try {
+    await putItem({
+      TableName: TABLE,
+      Item: {
+        PK: `CARD#${cardId}`,
+        SK: `APPROVAL#V#${card.version}#${input.action}#${userId}`,
+        ...approval,
+      },
+      ConditionExpression: 'attribute_not_exists(PK)',
+    });
+  } catch (error) {
+    if (isConditionalCheckFailed(error)) {
+      throw new ConflictError(`You have already approved ${input.action} for version ${card.version}`);
+    }
+    throw error;
+  }
+
+  const approvals = await listVersionApprovals(cardId, card.version);
+  return evaluateApprovals(card, input.action, approvals);
+}
+
+/**
+ * Approval state of every action open to the card in its current status,
+ * for the review queue. Publishing also lists unverified sources and
+ * unresolved review threads.
+ */
+export async function getCardApprovals(cardId: string): Promise<CardApprovalsResponse> {
+  const card = await getCard(cardId);
+  const approvals = await listVersionApprovals(cardId, card.version);
+
+  const actions = (Object.keys(ACTION_STATUSES) as ApprovalAction[])
+    .filter((action) => ACTION_STATUSES[action].includes(card.status))
+    .map((action) => evaluateApprovals(card, action, approvals));
+
+  const publish = actions.find((status) => status.action === 'PUBLISH');
+  if (publish) {
+    const [sources, openThreads] = await Promise.all([
+      card.sourceRefs.length > 0 ? getSourcesByIds(card.sourceRefs) : Promise.resolve([]),
+      countOpenThreads('card', cardId),
+    ]);
+    for (const source of sources) {
+      if (source.verificationStatus !== 'VERIFIED') {
+        publish.blocking.push(`Source ${source.sourceId} is not verified`);
+      }
+    }
+    if (openThreads > 0) {
+      publish.blocking.push(
+        `${openThreads} unresolved review thread${openThreads === 1 ? '' : 's'}`
+      );
+    }
+  }
+
+  return {
+    cardId,
+    version: card.version,
+    status: card.status,
+    ineligibleApprovers: ineligibleApprovers(card),
+    actions,
+  };
+}
+
+/** Throw ApprovalRequiredError unless the action has its quorum on this version */
+export async function assertApprovalQuorum(
+  card: EvidenceCard,
+  action: ApprovalAction,
+  actorId: string
+): Promise<void> {
+  if (quorumFor(action) <= 0) {
+    return;
+  }
+
+  const approvals = await listVersionApprovals(card.cardId, card.version);
+  const status = evaluateApprovals(card, action, approvals, actorId);
+  if (!status.satisfied) {
+    throw new ApprovalRequiredError(action, status.blocking);
+  }
+}
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { EvidenceCard } from '@ledger/shared';
+import { diffCards, listCardVersions, diffCardVersions } from './card-versions.js';
+import * as dynamodb from '../dynamodb.js';
+import * as cards from './cards.js';
+import { NotFoundError } from '../errors.js';
+import { makeCardVersion } from '../../test-utils/fixtures.js';
+
+vi.mock('../dynamodb.js', () => ({
+  queryItems: vi.fn(),
+  stripKeys: vi.fn((item) => {
+    const rest = { ...item };
+    delete rest.PK;
+    delete rest.SK;
+    return rest;
+  }),
+}));
+
+vi.mock('./cards.js', () => ({
+  getCard: vi.fn(),
+}));
+
+vi.mock('../config.js', () => ({
+  config: {
+    tables: {
+      cards: 'test-cards-table',
+    },
+  },
+}));
+
+describe('card versions service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('diffCards', () => {
+    it('ignores bookkeeping fields', () => {
+      expect(diffCards(makeCardVersion(2), makeCardVersion(3, { updatedBy: 'editor-1' }))).toEqual([]);
+    });
+
+    it('reports added and removed items for array fields', () => {
+      const changes = diffCards(
+        makeCardVersion(2),
+        makeCardVersion(3, { sourceRefs: ['source-2', 'source-1'], entityIds: [] })
+      );
+
+      expect(changes).toEqual([
+        {
+          field: 'entityIds',
+          change: 'removed',
+          before: ['entity-1'],
+          itemsAdded: [],
+          itemsRemoved: ['entity-1'],
+        },
+        {
+          field: 'sourceRefs',
+          change: 'modified',
+          before: ['source-1'],
+          after: ['source-2', 'source-1'],
+          itemsAdded: ['source-2'],
+          itemsRemoved: [],
+        },
+      ]);
+    });
+
+    it('compares nested objects by value, not key order', () => {
+      const before = makeCardVersion(2, {
+        monetaryAmount: { value: 100000, currency: 'USD', type: 'SETTLEMENT' },
+      } as Partial<EvidenceCard>);
+      const reordered = makeCardVersion(3, {
+        monetaryAmount: { type: 'SETTLEMENT', currency: 'USD', value: 100000 },
+      } as Partial<EvidenceCard>);
+      const corrected = makeCardVersion(4, {
+        monetaryAmount: { value: 120000, currency: 'USD', type: 'SETTLEMENT' },
+      } as Partial<EvidenceCard>);
+
+      expect(diffCards(before, reordered)).toEqual([]);
+      expect(diffCards(before, corrected)).toEqual([
+        {
+          field: 'monetaryAmount',
+          change: 'modified',
+          before: before.monetaryAmount,
+          after: corrected.monetaryAmount,
+        },
+      ]);
+    });
+  });
+
+  describe('listCardVersions', () => {
+    const versions = [
+      makeCardVersion(1, { status: 'DRAFT' }),
+      makeCardVersion(2, { status: 'REVIEW' }),
+      makeCardVersion(3),
+      makeCardVersion(10, {
+        status: 'CORRECTED',
+        statusHistory: [
+          { status: 'CORRECTED', reason: 'Amount updated', actor: 'editor-1', at: 'x', version: 10 },
+        ],
+      }),
+    ];
+
+    it('hides pre-publication versions from the public, in numeric order', async () => {
+      vi.mocked(dynamodb.queryItems).mockResolvedValueOnce({ items: [...versions].reverse() });
+
+      const result = await listCardVersions('card-1', true);
+
+      expect(result.map((v) => v.version)).toEqual([3, 10]);
+      expect(result[1].reason).toBe('Amount updated');
+    });
+
+    it('returns every version to admins', async () => {
+      vi.mocked(dynamodb.queryItems).mockResolvedValueOnce({ items: versions });
+
+      const result = await listCardVersions('card-1', false);
+
+      expect(result.map((v) => v.version)).toEqual([1, 2, 3, 10]);
+    });
+
+    it('treats cards that are not public as not found', async () => {
+      vi.mocked(dynamodb.queryItems).mockResolvedValueOnce({ items: versions.slice(0, 2) });
+
+      await expect(listCardVersions('card-1', true)).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('diffCardVersions', () => {
+    it('refuses to show a draft version publicly', async () => {
+      vi.mocked(cards.getCard).mockImplementation(async (_cardId, version) =>
+        version === 2 ? makeCardVersion(2, { status: 'REVIEW' }) : makeCardVersion(3)
+      );
+
+      await expect(diffCardVersions('card-1', 2, 3, true)).rejects.toThrow(NotFoundError);
+      await expect(diffCardVersions('card-1', 2, 3, false)).resolves.toMatchObject({
+        from: { version: 2, status: 'REVIEW' },
+        to: { version: 3, status: 'PUBLISHED' },
+      });
+    });
+  });
+});
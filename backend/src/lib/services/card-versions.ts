@@ -0,0 +1,125 @@
+import type {
+  EvidenceCard,
+  CardStatus,
+  CardVersionSummary,
+  CardFieldChange,
+  CardVersionDiff,
+} from '@ledger/shared';
+import { config } from '../config.js';
+import { queryItems, stripKeys } from '../dynamodb.js';
+import { NotFoundError } from '../errors.js';
+import { diffFields } from '../field-diff.js';
+import { getCard } from './cards.js';
+
+const TABLE = config.tables.cards;
+
+// Statuses whose versions readers may see. Drafts and review rounds stay private.
+export const PUBLIC_CARD_STATUSES: CardStatus[] = ['PUBLISHED', 'DISPUTED', 'CORRECTED', 'RETRACTED'];
+
+// Bookkeeping that changes on every version and says nothing about the content
+const IGNORED_FIELDS = new Set([
+  'version',
+  'createdAt',
+  'createdBy',
+  'updatedAt',
+  'updatedBy',
+  'statusHistory',
+]);
+
+type VersionItem = Pick<
+  EvidenceCard,
+  'version' | 'status' | 'title' | 'updatedAt' | 'updatedBy' | 'statusHistory'
+>;
+
+function toSummary(card: VersionItem): CardVersionSummary {
+  const summary: CardVersionSummary = {
+    version: card.version,
+    status: card.status,
+    title: card.title,
+    updatedAt: card.updatedAt,
+    updatedBy: card.updatedBy,
+  };
+  const change = card.statusHistory?.find((entry) => entry.version === card.version);
+  if (change?.reason) {
+    summary.reason = change.reason;
+  }
+  return summary;
+}
+
+/** Field-level differences between two versions of a card */
+export function diffCards(from: EvidenceCard, to: EvidenceCard): CardFieldChange[] {
+  return diffFields(from, to, IGNORED_FIELDS);
+}
+
+/**
+ * Every stored version of a card, oldest first. With publicOnly, versions
+ * from before publication are left out, and a card that is not currently
+ * public is reported as not found.
+ */
+export async function listCardVersions(
+  cardId: string,
+  publicOnly: boolean
+): Promise<CardVersionSummary[]> {
+  const versions: VersionItem[] = [];
+  let cursor: Record<string, unknown> | undefined;
+
+  do {
+    const { items, lastEvaluatedKey } = await queryItems<VersionItem & { PK: string; SK: string }>({
+      TableName: TABLE,
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :skPrefix)',
+      ExpressionAttributeValues: {
+        ':pk': `CARD#${cardId}`,
+        ':skPrefix': 'V#',
+      },
+      ProjectionExpression: '#version, #status, title, updatedAt, updatedBy, statusHistory',
+      ExpressionAttributeNames: { '#version': 'version', '#status': 'status' },
+      ExclusiveStartKey: cursor,
+    });
+    versions.push(...items.map(stripKeys));
+    cursor = lastEvaluatedKey;
+  } while (cursor);
+
+  // V#10 sorts before V#2
+  versions.sort((a, b) => a.version - b.version);
+
+  const latest = versions[versions.length - 1];
+  if (!latest || (publicOnly && !PUBLIC_CARD_STATUSES.includes(latest.status))) {
+    throw new NotFoundError('Card', cardId);
+  }
+
+  return versions
+    .filter((version) => !publicOnly || PUBLIC_CARD_STATUSES.includes(version.status))
+    .map(toSummary);
+}
+
+/** Compare two stored versions of a card */
+export async function diffCardVersions(
+  cardId: string,
+  fromVersion: number,
+  toVersion: number,
+  publicOnly: boolean
+): Promise<CardVersionDiff> {
+  const [from, to, latest] = await Promise.all([
+    getCard(cardId, fromVersion),
+    getCard(cardId, toVersion),
+    publicOnly ? getCard(cardId) : undefined,
+  ]);
+
+  if (latest && !PUBLIC_CARD_STATUSES.includes(latest.status)) {
+    throw new NotFoundError('Card', cardId);
+  }
+  if (publicOnly) {
+    for (const card of [from, to]) {
+      if (!PUBLIC_CARD_STATUSES.includes(card.status)) {
+        throw new NotFoundError('Card', `${cardId}@v${card.version}`);
+      }
+    }
+  }
+
+  return {
+    cardId,
+    from: toSummary(from),
+    to: toSummary(to),
+    changes: diffCards(from, to),
+  };
+}
@@ -1,6 +1,17 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { listPublishedCards, listEntityCards } from './cards.js';
+import type { EvidenceCard } from '@ledger/shared';
+import {
+  getCard,
+  listPublishedCards,
+  listEntityCards,
+  retractCard,
+  submitCard,
+  updateCard,
+} from './cards.js';
 import * as dynamodb from '../dynamodb.js';
+import * as corrections from './corrections.js';
+import * as approvals from './approvals.js';
+import { ApprovalRequiredError, VersionConflictError } from '../errors.js';
 
 // Mock dynamodb module
 vi.mock('../dynamodb.js', () => ({
@@ -11,12 +22,40 @@ vi.mock('../dynamodb.js', () => ({
   updateItem: vi.fn(),
   encodeCursor: vi.fn((key) => Buffer.from(JSON.stringify(key)).toString('base64')),
   decodeCursor: vi.fn((cursor) => JSON.parse(Buffer.from(cursor, 'base64').toString())),
+  isConditionalCheckFailed: vi.fn(
+    (error: unknown) => (error as Error).name === 'ConditionalCheckFailedException'
+  ),
   stripKeys: vi.fn((item) => {
     const { PK, SK, GSI1PK, GSI1SK, GSI2PK, GSI2SK, ...rest } = item;
     return rest;
   }),
 }));
 
+vi.mock('./scoring.js', () => ({
+  recomputeEntityScores: vi.fn(),
+}));
+
+vi.mock('./tags.js', () => ({
+  syncCardTags: vi.fn(),
+  listTagCards: vi.fn(),
+}));
+
+vi.mock('./search.js', () => ({
+  syncCardSearch: vi.fn(),
+}));
+
+vi.mock('./corrections.js', () => ({
+  recordCardCorrection: vi.fn(),
+}));
+
+vi.mock('./approvals.js', () => ({
+  assertApprovalQuorum: vi.fn(),
+}));
+
+vi.mock('./review-threads.js', () => ({
+  assertNoOpenThreads: vi.fn(),
+}));
+
 // Mock config
 vi.mock('../config.js', () => ({
   config: {
@@ -207,4 +246,157 @@ describe('cards service', () => {
       expect(callArgs.FilterExpression).not.toBe('status = :status');
     });
   });
+
+  describe('getCard', () => {
+    it('returns the highest version even though V#10 sorts before V#9', async () => {
+      vi.mocked(dynamodb.queryItems).mockResolvedValueOnce({
+        items: [
+          { PK: 'CARD#card-1', SK: 'V#1', cardId: 'card-1', version: 1 },
+          { PK: 'CARD#card-1', SK: 'V#10', cardId: 'card-1', version: 10 },
+          { PK: 'CARD#card-1', SK: 'V#9', cardId: 'card-1', version: 9 },
+        ],
+      });
+
+      const card = await getCard('card-1');
+
+      expect(card.version).toBe(10);
+    });
+  });
+
+  describe('updateCard', () => {
+    const draft = {
+      PK: 'CARD#card-1',
+      SK: 'V#5',
+      cardId: 'card-1',
+      title: 'Warehouse wage theft settlement',
+      claim: 'Paid $2M to settle claims',
+      status: 'DRAFT',
+      entityIds: ['entity-1'],
+      version: 5,
+      updatedBy: 'user-1',
+    };
+    const conditionFailed = Object.assign(new Error('The conditional request failed'), {
+      name: 'ConditionalCheckFailedException',
+    });
+
+    it('writes the next version only if nobody else has', async () => {
+      vi.mocked(dynamodb.queryItems).mockResolvedValueOnce({ items: [draft] });
+
+      const card = await updateCard('card-1', { title: 'Updated title' }, 'user-2', 5);
+
+      expect(card.version).toBe(6);
+      expect(dynamodb.putItem).toHaveBeenCalledWith(
+        expect.objectContaining({
+          Item: expect.objectContaining({ SK: 'V#6', title: 'Updated title' }),
+          ConditionExpression: 'attribute_not_exists(SK)',
+        })
+      );
+    });
+
+    it('rejects an edit based on an older version with the current card and a diff', async () => {
+      vi.mocked(dynamodb.queryItems).mockResolvedValueOnce({ items: [draft] });
+
+      const error = await updateCard(
+        'card-1',
+        { title: 'Updated title', claim: 'Paid $2M to settle claims' },
+        'user-2',
+        4
+      ).catch((e) => e);
+
+      expect(error).toBeInstanceOf(VersionConflictError);
+      expect(error.details).toMatchObject({
+        currentVersion: 5,
+        current: { title: 'Warehouse wage theft settlement' },
+        changes: [
+          {
+            field: 'title',
+            change: 'modified',
+            before: 'Warehouse wage theft settlement',
+            after: 'Updated title',
+          },
+        ],
+      });
+      expect(dynamodb.putItem).not.toHaveBeenCalled();
+    });
+
+    it('turns a lost write race into a version conflict', async () => {
+      vi.mocked(dynamodb.queryItems)
+        .mockResolvedValueOnce({ items: [draft] })
+        .mockResolvedValueOnce({ items: [draft, { ...draft, SK: 'V#6', title: 'Their title', version: 6 }] });
+      vi.mocked(dynamodb.putItem).mockRejectedValueOnce(conditionFailed);
+
+      const error = await updateCard('card-1', { title: 'Updated title' }, 'user-2').catch((e) => e);
+
+      expect(error).toBeInstanceOf(VersionConflictError);
+      expect(error.details).toMatchObject({
+        currentVersion: 6,
+        changes: [{ field: 'title', before: 'Their title', after: 'Updated title' }],
+      });
+    });
+  });
+
+  describe('statusHistory', () => {
+    const publishedCard = {
+      PK: 'CARD#card-1',
+      SK: 'V#3',
+      cardId: 'card-1',
+      title: 'Test',
+      status: 'PUBLISHED',
+      counterpoint: 'Acme disputes the figures.',
+      entityIds: ['entity-1'],
+      version: 3,
+      statusHistory: [
+        { status: 'DRAFT', actor: 'user-1', at: '2024-01-01T00:00:00Z', version: 1 },
+        { status: 'PUBLISHED', actor: 'user-1', at: '2024-01-02T00:00:00Z', version: 3 },
+      ],
+    };
+
+    it('records the retraction reason without touching counterpoint', async () => {
+      vi.mocked(dynamodb.queryItems).mockResolvedValueOnce({ items: [publishedCard] });
+
+      const card = await retractCard('card-1', 'Source document was forged', 'editor-1');
+
+      expect(card.counterpoint).toBe('Acme disputes the figures.');
+      expect(card.statusHistory).toHaveLength(3);
+      expect(card.statusHistory![2]).toEqual({
+        status: 'RETRACTED',
+        reason: 'Source document was forged',
+        actor: 'editor-1',
+        at: card.updatedAt,
+        version: 4,
+      });
+      expect(corrections.recordCardCorrection).toHaveBeenCalledWith(card);
+      expect(approvals.assertApprovalQuorum).toHaveBeenCalledWith(
+        expect.objectContaining({ cardId: 'card-1', version: 3 }),
+        'RETRACT',
+        'editor-1'
+      );
+    });
+
+    it('does not retract without the approval quorum', async () => {
+      vi.mocked(dynamodb.queryItems).mockResolvedValueOnce({ items: [publishedCard] });
+      vi.mocked(approvals.assertApprovalQuorum).mockRejectedValueOnce(
+        new ApprovalRequiredError('RETRACT', ['Needs 1 more approval'])
+      );
+
+      await expect(retractCard('card-1', 'Source document was forged', 'editor-1')).rejects.toThrow(
+        ApprovalRequiredError
+      );
+      expect(dynamodb.putItem).not.toHaveBeenCalled();
+      expect(corrections.recordCardCorrection).not.toHaveBeenCalled();
+    });
+
+    it('records plain transitions without a reason', async () => {
+      vi.mocked(dynamodb.queryItems).mockResolvedValueOnce({
+        items: [{ ...publishedCard, status: 'DRAFT', version: 1, statusHistory: undefined }],
+      });
+
+      const card: EvidenceCard = await submitCard('card-1', 'user-1');
+
+      expect(card.statusHistory).toEqual([
+        { status: 'REVIEW', actor: 'user-1', at: card.updatedAt, version: 2 },
+      ]);
+      expect(corrections.recordCardCorrection).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -1,19 +1,40 @@
 import { ulid } from 'ulid';
-import type { EvidenceCard, EvidenceCardWithEntities, PaginatedResponse, CardStatus } from '@ledger/shared';
+import type {
+  EvidenceCard,
+  EvidenceCardWithEntities,
+  PaginatedResponse,
+  CardStatus,
+  CardStatusChange,
+} from '@ledger/shared';
 import { config } from '../config.js';
 import {
   getItem,
   putItem,
+  deleteItem,
   queryItems,
   scanItems,
   transactWrite,
   encodeCursor,
   decodeCursor,
   stripKeys,
+  isConditionalCheckFailed,
 } from '../dynamodb.js';
-import { NotFoundError, InvalidStateTransitionError, SourceNotVerifiedError } from '../errors.js';
+import {
+  NotFoundError,
+  ConflictError,
+  InvalidStateTransitionError,
+  SourceNotVerifiedError,
+  VersionConflictError,
+} from '../errors.js';
 import { getSource, getSourcesByIds } from './sources.js';
 import { getEntitiesByIds } from './entities.js';
+import { recomputeEntityScores } from './scoring.js';
+import { syncCardTags, listTagCards } from './tags.js';
+import { syncCardSearch } from './search.js';
+import { recordCardCorrection } from './corrections.js';
+import { assertApprovalQuorum } from './approvals.js';
+import { assertNoOpenThreads } from './review-threads.js';
+import { diffCards } from './card-versions.js';
 import type { CreateCardInput, UpdateCardInput, CardQueryInput, EntityCardsQueryInput } from '../validation.js';
 
 const TABLE = config.tables.cards;
@@ -33,12 +54,32 @@ function canTransition(from: CardStatus, to: CardStatus): boolean {
   return VALID_TRANSITIONS[from]?.includes(to) ?? false;
 }
 
+/** Append the card's current status to its timeline, stamped with the version it produced */
+function withStatusChange(
+  card: EvidenceCard,
+  actor: string,
+  at: string,
+  reason?: string
+): EvidenceCard {
+  const change: CardStatusChange = { status: card.status, actor, at, version: card.version };
+  if (reason) {
+    change.reason = reason;
+  }
+  return { ...card, statusHistory: [...(card.statusHistory ?? []), change] };
+}
+
+/** Refresh the public tag and search indexes after a card write */
+async function syncCardIndexes(card: EvidenceCard, previousTags?: string[]): Promise<void> {
+  await syncCardTags(card, previousTags);
+  await syncCardSearch(card);
+}
+
 export async function createCard(
   input: CreateCardInput,
-  userId: string
+  userId: string,
+  cardId: string = ulid()
 ): Promise<EvidenceCard> {
   const now = new Date().toISOString();
-  const cardId = ulid();
 
   const card: EvidenceCard = {
     cardId,
@@ -60,6 +101,7 @@ export async function createCard(
     updatedAt: now,
     createdBy: userId,
     updatedBy: userId,
+    statusHistory: [{ status: 'DRAFT', actor: userId, at: now, version: 1 }],
   };
 
   await putItem({
@@ -91,7 +133,41 @@ export async function getCard(cardId: string, version?: number): Promise<Evidenc
     return stripKeys(item);
   }
 
-  // Get latest version
+  // Get latest version. Sort keys compare as strings (V#10 before V#9),
+  // so read every version and take the highest number.
+  let latest: (EvidenceCard & { PK: string; SK: string }) | undefined;
+  let cursor: Record<string, unknown> | undefined;
+
+  do {
+    const { items, lastEvaluatedKey } = await queryItems<EvidenceCard & { PK: string; SK: string }>({
+      TableName: TABLE,
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :skPrefix)',
+      ExpressionAttributeValues: {
+        ':pk': `CARD#${cardId}`,
+        ':skPrefix': 'V#',
+      },
+      ExclusiveStartKey: cursor,
+    });
+    for (const item of items) {
+      if (!latest || item.version > latest.version) {
+        latest = item;
+      }
+    }
+    cursor = lastEvaluatedKey;
+  } while (cursor);
+
+  if (!latest) {
+    throw new NotFoundError('Card', cardId);
+  }
+
+  return stripKeys(latest);
+}
+
+/**
+ * Remove every stored version of a card that was never published. Used to
+ * roll back a failed intake promotion; published cards are retracted instead.
+ */
+export async function deleteDraftCard(cardId: string): Promise<void> {
   const { items } = await queryItems<EvidenceCard & { PK: string; SK: string }>({
     TableName: TABLE,
     KeyConditionExpression: 'PK = :pk AND begins_with(SK, :skPrefix)',
@@ -99,15 +175,15 @@ export async function getCard(cardId: string, version?: number): Promise<Evidenc
       ':pk': `CARD#${cardId}`,
       ':skPrefix': 'V#',
     },
-    ScanIndexForward: false,
-    Limit: 1,
   });
 
-  if (items.length === 0) {
-    throw new NotFoundError('Card', cardId);
+  if (items.some((item) => item.status !== 'DRAFT')) {
+    throw new ConflictError(`Card ${cardId} has left DRAFT and can't be deleted`);
   }
 
-  return stripKeys(items[0]);
+  for (const item of items) {
+    await deleteItem({ TableName: TABLE, Key: { PK: item.PK, SK: item.SK } });
+  }
 }
 
 export async function getCardWithEntities(
@@ -126,10 +202,25 @@ export async function getCardWithEntities(
   };
 }
 
+/** Conflict for an edit based on an older version, diffing the stored card against the edit */
+function cardVersionConflict(current: EvidenceCard, input: UpdateCardInput): VersionConflictError {
+  return new VersionConflictError('Card', {
+    currentVersion: current.version,
+    current,
+    changes: diffCards(current, { ...current, ...(input as Partial<EvidenceCard>) }),
+  });
+}
+
+/**
+ * Save an edit as a new version. With expectedVersion, the edit is rejected
+ * unless the card is still at that version; either way two edits racing
+ * from the same version can't both be written.
+ */
 export async function updateCard(
   cardId: string,
   input: UpdateCardInput,
-  userId: string
+  userId: string,
+  expectedVersion?: number
 ): Promise<EvidenceCard> {
   const existing = await getCard(cardId);
 
@@ -141,6 +232,10 @@ export async function updateCard(
     );
   }
 
+  if (expectedVersion !== undefined && expectedVersion !== existing.version) {
+    throw cardVersionConflict(existing, input);
+  }
+
   const now = new Date().toISOString();
   const newVersion = existing.version + 1;
 
@@ -152,14 +247,22 @@ export async function updateCard(
     updatedBy: userId,
   };
 
-  await putItem({
-    TableName: TABLE,
-    Item: {
-      PK: `CARD#${cardId}`,
-      SK: `V#${newVersion}`,
-      ...updated,
-    },
-  });
+  try {
+    await putItem({
+      TableName: TABLE,
+      Item: {
+        PK: `CARD#${cardId}`,
+        SK: `V#${newVersion}`,
+        ...updated,
+      },
+      ConditionExpression: 'attribute_not_exists(SK)',
+    });
+  } catch (error) {
+    if (isConditionalCheckFailed(error)) {
+      throw cardVersionConflict(await getCard(cardId), input);
+    }
+    throw error;
+  }
 
   return updated;
 }
@@ -170,6 +273,8 @@ export async function submitCard(cardId: string, userId: string): Promise<Eviden
 
 export async function publishCard(cardId: string, userId: string): Promise<EvidenceCard> {
   const card = await getCard(cardId);
+  await assertApprovalQuorum(card, 'PUBLISH', userId);
+  await assertNoOpenThreads('card', cardId);
 
   // Verify all sources are verified
   for (const sourceId of card.sourceRefs) {
@@ -184,14 +289,18 @@ export async function publishCard(cardId: string, userId: string): Promise<Evide
   const yearMonth = publishDate.substring(0, 7); // YYYY-MM
 
   const newVersion = card.version + 1;
-  const updated: EvidenceCard = {
-    ...card,
-    status: 'PUBLISHED' as CardStatus,
-    publishDate,
-    version: newVersion,
-    updatedAt: now,
-    updatedBy: userId,
-  };
+  const updated = withStatusChange(
+    {
+      ...card,
+      status: 'PUBLISHED' as CardStatus,
+      publishDate,
+      version: newVersion,
+      updatedAt: now,
+      updatedBy: userId,
+    },
+    userId,
+    now
+  );
 
   // Use transaction to update card and create index entries
   const transactItems: Array<{
@@ -242,6 +351,8 @@ export async function publishCard(cardId: string, userId: string): Promise<Evide
   }
 
   await transactWrite({ TransactItems: transactItems });
+  await recomputeEntityScores(updated.entityIds);
+  await syncCardIndexes(updated);
 
   return updated;
 }
@@ -256,42 +367,59 @@ export async function disputeCard(
   const now = new Date().toISOString();
   const newVersion = card.version + 1;
 
-  const updated: EvidenceCard = {
-    ...card,
-    status: 'DISPUTED' as CardStatus,
-    counterpoint: card.counterpoint
-      ? `${card.counterpoint}\n\n---\n\n[Dispute ${now}]: ${reason}`
-      : `[Dispute ${now}]: ${reason}`,
-    version: newVersion,
-    updatedAt: now,
-    updatedBy: userId,
-  };
+  const updated = withStatusChange(
+    {
+      ...card,
+      status: 'DISPUTED' as CardStatus,
+      version: newVersion,
+      updatedAt: now,
+      updatedBy: userId,
+    },
+    userId,
+    now,
+    reason
+  );
 
-  return saveCardVersion(updated);
+  await saveCardVersion(updated);
+  await syncCardIndexes(updated);
+  await recordCardCorrection(updated);
+
+  return updated;
 }
 
 export async function correctCard(
   cardId: string,
   correctionNote: string,
-  userId: string
+  userId: string,
+  material = true
 ): Promise<EvidenceCard> {
   const card = await getCard(cardId);
+  if (material) {
+    await assertApprovalQuorum(card, 'CORRECT', userId);
+  }
 
   const now = new Date().toISOString();
   const newVersion = card.version + 1;
 
-  const updated: EvidenceCard = {
-    ...card,
-    status: 'CORRECTED' as CardStatus,
-    counterpoint: card.counterpoint
-      ? `${card.counterpoint}\n\n---\n\n[Correction ${now}]: ${correctionNote}`
-      : `[Correction ${now}]: ${correctionNote}`,
-    version: newVersion,
-    updatedAt: now,
-    updatedBy: userId,
-  };
+  const updated = withStatusChange(
+    {
+      ...card,
+      status: 'CORRECTED' as CardStatus,
+      version: newVersion,
+      updatedAt: now,
+      updatedBy: userId,
+    },
+    userId,
+    now,
+    correctionNote
+  );
 
-  return saveCardVersion(updated);
+  await saveCardVersion(updated);
+  await recomputeEntityScores(updated.entityIds);
+  await syncCardIndexes(updated);
+  await recordCardCorrection(updated);
+
+  return updated;
 }
 
 export async function retractCard(
@@ -300,26 +428,62 @@ export async function retractCard(
   userId: string
 ): Promise<EvidenceCard> {
   const card = await getCard(cardId);
+  await assertApprovalQuorum(card, 'RETRACT', userId);
 
   const now = new Date().toISOString();
   const newVersion = card.version + 1;
 
+  const updated = withStatusChange(
+    {
+      ...card,
+      status: 'RETRACTED' as CardStatus,
+      version: newVersion,
+      updatedAt: now,
+      updatedBy: userId,
+    },
+    userId,
+    now,
+    reason
+  );
+
+  await saveCardVersion(updated);
+  await recomputeEntityScores(updated.entityIds);
+  await syncCardIndexes(updated);
+  await recordCardCorrection(updated);
+
+  return updated;
+}
+
+/**
+ * Replace a card's tags as a new version without changing its status.
+ * Used by the admin tag merge/normalize tooling; the tag index is updated
+ * for both the old and new tags.
+ */
+export async function retagCard(
+  cardId: string,
+  tags: string[],
+  userId: string
+): Promise<EvidenceCard> {
+  const card = await getCard(cardId);
+
   const updated: EvidenceCard = {
     ...card,
-    status: 'RETRACTED' as CardStatus,
-    counterpoint: card.counterpoint
-      ? `${card.counterpoint}\n\n---\n\n[Retraction ${now}]: ${reason}`
-      : `[Retraction ${now}]: ${reason}`,
-    version: newVersion,
-    updatedAt: now,
+    tags,
+    version: card.version + 1,
+    updatedAt: new Date().toISOString(),
     updatedBy: userId,
   };
 
-  return saveCardVersion(updated);
+  await saveCardVersion(updated);
+  await syncCardIndexes(updated, card.tags);
+
+  return updated;
 }
 
 export async function archiveCard(cardId: string, userId: string): Promise<EvidenceCard> {
-  return transitionCard(cardId, 'ARCHIVED', userId);
+  const updated = await transitionCard(cardId, 'ARCHIVED', userId);
+  await syncCardIndexes(updated);
+  return updated;
 }
 
 export async function restoreCard(cardId: string, userId: string): Promise<EvidenceCard> {
@@ -340,26 +504,39 @@ async function transitionCard(
   const now = new Date().toISOString();
   const newVersion = card.version + 1;
 
-  const updated: EvidenceCard = {
-    ...card,
-    status: newStatus,
-    version: newVersion,
-    updatedAt: now,
-    updatedBy: userId,
-  };
+  const updated = withStatusChange(
+    {
+      ...card,
+      status: newStatus,
+      version: newVersion,
+      updatedAt: now,
+      updatedBy: userId,
+    },
+    userId,
+    now
+  );
 
   return saveCardVersion(updated);
 }
 
+// Write a new version, failing if another write already produced it
 async function saveCardVersion(card: EvidenceCard): Promise<EvidenceCard> {
-  await putItem({
-    TableName: TABLE,
-    Item: {
-      PK: `CARD#${card.cardId}`,
-      SK: `V#${card.version}`,
-      ...card,
-    },
-  });
+  try {
+    await putItem({
+      TableName: TABLE,
+      Item: {
+        PK: `CARD#${card.cardId}`,
+        SK: `V#${card.version}`,
+        ...card,
+      },
+      ConditionExpression: 'attribute_not_exists(SK)',
+    });
+  } catch (error) {
+    if (isConditionalCheckFailed(error)) {
+      throw new ConflictError(`Card ${card.cardId} was changed by someone else; reload and try again`);
+    }
+    throw error;
+  }
 
   return card;
 }
@@ -428,6 +605,11 @@ export async function listCards(
 export async function listPublishedCards(
   query: CardQueryInput
 ): Promise<PaginatedResponse<EvidenceCard>> {
+  // Tag filters are served from the tag index, ordered by event date
+  if (query.tag) {
+    return listTagCards(query.tag, query);
+  }
+
   const limit = query.limit || 20;
   const cursorData = query.cursor ? decodeCursor(query.cursor) : undefined;
 
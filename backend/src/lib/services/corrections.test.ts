@@ -0,0 +1,219 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { EvidenceCard } from '@ledger/shared';
+import {
+  cardCorrectionEntries,
+  recordCardCorrection,
+  listCorrections,
+  rebuildCorrectionsLog,
+} from './corrections.js';
+import * as dynamodb from '../dynamodb.js';
+import * as cards from './cards.js';
+import * as relationships from './relationships.js';
+import { renderCorrectionsFeed } from '../templates/corrections-feed.js';
+
+vi.mock('../dynamodb.js', () => ({
+  putItem: vi.fn(),
+  updateItem: vi.fn(),
+  queryItems: vi.fn(),
+  scanItems: vi.fn(),
+  encodeCursor: vi.fn((key) => Buffer.from(JSON.stringify(key)).toString('base64url')),
+  decodeCursor: vi.fn((cursor) => JSON.parse(Buffer.from(cursor, 'base64url').toString())),
+  stripKeys: vi.fn((item) => {
+    const rest = { ...item };
+    delete rest.PK;
+    delete rest.SK;
+    return rest;
+  }),
+  isConditionalCheckFailed: vi.fn(
+    (error) => error instanceof Error && error.name === 'ConditionalCheckFailedException'
+  ),
+}));
+
+vi.mock('./cards.js', () => ({
+  getCard: vi.fn(),
+}));
+
+vi.mock('./entities.js', () => ({
+  getEntitiesByIds: vi.fn(async (ids: string[]) =>
+    ids.map((id) => ({ entityId: id, name: id === 'entity-1' ? 'Acme' : 'Globex' }))
+  ),
+}));
+
+vi.mock('./relationships.js', () => ({
+  listRelationships: vi.fn(),
+}));
+
+vi.mock('../config.js', () => ({
+  config: {
+    tables: {
+      cards: 'test-cards-table',
+      corrections: 'test-corrections-table',
+    },
+  },
+}));
+
+const card = {
+  cardId: 'card-1',
+  title: 'Warehouse wage theft settlement',
+  entityIds: ['entity-1'],
+  status: 'CORRECTED',
+  version: 4,
+  statusHistory: [
+    { status: 'DRAFT', actor: 'user-1', at: '2024-01-01T00:00:00.000Z', version: 1 },
+    { status: 'PUBLISHED', actor: 'user-1', at: '2024-01-02T00:00:00.000Z', version: 2 },
+    {
+      status: 'DISPUTED',
+      reason: 'Acme says the settlement was voluntary',
+      actor: 'editor-1',
+      at: '2024-03-01T10:00:00.000Z',
+      version: 3,
+    },
+    {
+      status: 'CORRECTED',
+      reason: 'Amount updated to $1.2M',
+      actor: 'editor-1',
+      at: '2024-04-01T10:00:00.000Z',
+      version: 4,
+    },
+  ],
+} as EvidenceCard;
+
+function conditionalCheckFailed(): Error {
+  const error = new Error('The conditional request failed');
+  error.name = 'ConditionalCheckFailedException';
+  return error;
+}
+
+describe('corrections service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('cardCorrectionEntries', () => {
+    it('keeps only disputes, corrections and retractions', () => {
+      const entries = cardCorrectionEntries(card);
+
+      expect(entries.map((entry) => entry.kind)).toEqual(['DISPUTED', 'CORRECTED']);
+      expect(entries[1]).toEqual({
+        targetType: 'card',
+        targetId: 'card-1',
+        title: 'Warehouse wage theft settlement',
+        kind: 'CORRECTED',
+        reason: 'Amount updated to $1.2M',
+        at: '2024-04-01T10:00:00.000Z',
+        version: 4,
+        previousVersion: 3,
+        entityIds: ['entity-1'],
+      });
+    });
+  });
+
+  describe('recordCardCorrection', () => {
+    it('logs the latest change and bumps the month count', async () => {
+      await recordCardCorrection(card);
+
+      expect(vi.mocked(dynamodb.putItem).mock.calls[0][0].Item).toMatchObject({
+        PK: 'MONTH#2024-04',
+        SK: '2024-04-01T10:00:00.000Z#card#card-1',
+        kind: 'CORRECTED',
+      });
+      expect(vi.mocked(dynamodb.updateItem).mock.calls[0][0].Key).toEqual({
+        PK: 'MONTHS',
+        SK: '2024-04',
+      });
+    });
+
+    it('ignores transitions that are not corrections', async () => {
+      await recordCardCorrection({ ...card, statusHistory: card.statusHistory!.slice(0, 2) });
+
+      expect(dynamodb.putItem).not.toHaveBeenCalled();
+    });
+
+    it('does not count an entry twice', async () => {
+      vi.mocked(dynamodb.putItem).mockRejectedValueOnce(conditionalCheckFailed());
+
+      await recordCardCorrection(card);
+
+      expect(dynamodb.updateItem).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listCorrections', () => {
+    it('defaults to the most recent month with entries', async () => {
+      vi.mocked(dynamodb.queryItems)
+        .mockResolvedValueOnce({
+          items: [
+            { PK: 'MONTHS', SK: '2024-04', month: '2024-04', count: 1 },
+            { PK: 'MONTHS', SK: '2024-03', month: '2024-03', count: 2 },
+          ],
+        })
+        .mockResolvedValueOnce({ items: [] });
+
+      const result = await listCorrections({ limit: 20 });
+
+      expect(result.month).toBe('2024-04');
+      expect(result.months).toEqual([
+        { month: '2024-04', count: 1 },
+        { month: '2024-03', count: 2 },
+      ]);
+      expect(vi.mocked(dynamodb.queryItems).mock.calls[1][0].ExpressionAttributeValues).toEqual({
+        ':pk': 'MONTH#2024-04',
+      });
+    });
+  });
+
+  describe('rebuildCorrectionsLog', () => {
+    it('moves on to retracted relationships once cards are done', async () => {
+      vi.mocked(dynamodb.scanItems).mockResolvedValueOnce({ items: [{ cardId: 'card-1' }] });
+      vi.mocked(cards.getCard).mockResolvedValueOnce(card);
+      vi.mocked(dynamodb.putItem)
+        .mockResolvedValueOnce(undefined as never)
+        .mockRejectedValueOnce(conditionalCheckFailed());
+
+      const first = await rebuildCorrectionsLog(undefined);
+
+      expect(first.entriesWritten).toBe(1);
+      expect(first.hasMore).toBe(true);
+
+      vi.mocked(relationships.listRelationships).mockResolvedValueOnce({
+        items: [
+          {
+            relationshipId: 'rel-1',
+            fromEntityId: 'entity-1',
+            toEntityId: 'entity-2',
+            type: 'SUBSIDIARY_OF',
+            status: 'RETRACTED',
+            retractionReason: 'Ownership was never completed',
+            retractedAt: '2024-05-01T00:00:00.000Z',
+          },
+        ],
+        hasMore: false,
+      } as never);
+
+      const second = await rebuildCorrectionsLog(first.cursor);
+
+      expect(second).toEqual({ entriesWritten: 1, cursor: undefined, hasMore: false });
+      expect(vi.mocked(dynamodb.putItem).mock.calls[2][0].Item).toMatchObject({
+        PK: 'MONTH#2024-05',
+        targetType: 'relationship',
+        title: 'Acme → Globex (SUBSIDIARY_OF)',
+        entityIds: ['entity-1', 'entity-2'],
+      });
+    });
+  });
+
+  describe('renderCorrectionsFeed', () => {
+    it('escapes entry text and links cards to their page', () => {
+      const [entry] = cardCorrectionEntries({
+        ...card,
+        title: 'Fees <hidden> & "junk"',
+      });
+
+      const feed = renderCorrectionsFeed([entry], 'https://ledger.example');
+
+      expect(feed).toContain('<title>Disputed: Fees &lt;hidden&gt; &amp; &quot;junk&quot;</title>');
+      expect(feed).toContain('href="https://ledger.example/cards/card-1"');
+      expect(feed).toContain('<updated>2024-03-01T10:00:00.000Z</updated>');
+    });
+  });
+});
@@ -0,0 +1,261 @@
+import type {
+  EvidenceCard,
+  CardStatusChange,
+  CorrectionEntry,
+  CorrectionKind,
+  CorrectionsLogResponse,
+  CorrectionsMonth,
+  Relationship,
+  RebuildCorrectionsLogResult,
+} from '@ledger/shared';
+import { config } from '../config.js';
+import {
+  putItem,
+  updateItem,
+  queryItems,
+  scanItems,
+  encodeCursor,
+  decodeCursor,
+  stripKeys,
+  isConditionalCheckFailed,
+} from '../dynamodb.js';
+import { logger } from '../logger.js';
+import { getCard } from './cards.js';
+import { getEntitiesByIds } from './entities.js';
+import { listRelationships } from './relationships.js';
+import type { CorrectionsQueryInput } from '../validation.js';
+
+const TABLE = config.tables.corrections;
+
+// Table layout:
+//   PK MONTH#{YYYY-MM}  SK {at}#{targetType}#{targetId}   log entry
+//   PK MONTHS           SK {YYYY-MM}                      entry count for the month
+
+const CORRECTION_KINDS = new Set<string>(['DISPUTED', 'CORRECTED', 'RETRACTED']);
+
+type CorrectionItem = CorrectionEntry & { PK: string; SK: string };
+
+function entryMonth(entry: CorrectionEntry): string {
+  return entry.at.substring(0, 7);
+}
+
+/**
+ * Write an entry unless it is already logged, keeping the month count in step.
+ * Returns false for duplicates so rebuilds can run repeatedly.
+ */
+async function writeEntry(entry: CorrectionEntry): Promise<boolean> {
+  const month = entryMonth(entry);
+
+  try {
+    await putItem({
+      TableName: TABLE,
+      Item: {
+        PK: `MONTH#${month}`,
+        SK: `${entry.at}#${entry.targetType}#${entry.targetId}`,
+        ...entry,
+      },
+      ConditionExpression: 'attribute_not_exists(PK)',
+    });
+  } catch (error) {
+    if (isConditionalCheckFailed(error)) {
+      return false;
+    }
+    throw error;
+  }
+
+  await updateItem({
+    TableName: TABLE,
+    Key: { PK: 'MONTHS', SK: month },
+    UpdateExpression: 'ADD #count :one SET #month = :month',
+    ExpressionAttributeNames: { '#count': 'count', '#month': 'month' },
+    ExpressionAttributeValues: { ':one': 1, ':month': month },
+  });
+
+  return true;
+}
+
+function toCardEntry(card: EvidenceCard, change: CardStatusChange): CorrectionEntry {
+  return {
+    targetType: 'card',
+    targetId: card.cardId,
+    title: card.title,
+    kind: change.status as CorrectionKind,
+    reason: change.reason,
+    at: change.at,
+    version: change.version,
+    previousVersion: change.version > 1 ? change.version - 1 : undefined,
+    entityIds: card.entityIds,
+  };
+}
+
+/** Every dispute, correction and retraction in a card's status history */
+export function cardCorrectionEntries(card: EvidenceCard): CorrectionEntry[] {
+  return (card.statusHistory ?? [])
+    .filter((change) => CORRECTION_KINDS.has(change.status))
+    .map((change) => toCardEntry(card, change));
+}
+
+async function toRelationshipEntry(relationship: Relationship): Promise<CorrectionEntry> {
+  const [from, to] = await getEntitiesByIds([relationship.fromEntityId, relationship.toEntityId]);
+  return {
+    targetType: 'relationship',
+    targetId: relationship.relationshipId,
+    title: `${from.name} → ${to.name} (${relationship.type})`,
+    kind: 'RETRACTED',
+    reason: relationship.retractionReason,
+    at: relationship.retractedAt ?? relationship.updatedAt,
+    entityIds: [relationship.fromEntityId, relationship.toEntityId],
+  };
+}
+
+/**
+ * Log the card's latest status change if it was a dispute, correction or
+ * retraction. Failures are logged; the transition itself has already committed.
+ */
+export async function recordCardCorrection(card: EvidenceCard): Promise<void> {
+  const latest = card.statusHistory?.[card.statusHistory.length - 1];
+  if (!latest || !CORRECTION_KINDS.has(latest.status)) {
+    return;
+  }
+
+  try {
+    await writeEntry(toCardEntry(card, latest));
+  } catch (error) {
+    logger.error({ error, cardId: card.cardId }, 'Failed to record card correction');
+  }
+}
+
+export async function recordRelationshipRetraction(relationship: Relationship): Promise<void> {
+  try {
+    await writeEntry(await toRelationshipEntry(relationship));
+  } catch (error) {
+    logger.error(
+      { error, relationshipId: relationship.relationshipId },
+      'Failed to record relationship retraction'
+    );
+  }
+}
+
+export async function listCorrectionMonths(): Promise<CorrectionsMonth[]> {
+  const months: CorrectionsMonth[] = [];
+  let cursor: Record<string, unknown> | undefined;
+
+  do {
+    const { items, lastEvaluatedKey } = await queryItems<CorrectionsMonth & { PK: string; SK: string }>({
+      TableName: TABLE,
+      KeyConditionExpression: 'PK = :pk',
+      ExpressionAttributeValues: { ':pk': 'MONTHS' },
+      ScanIndexForward: false,
+      ExclusiveStartKey: cursor,
+    });
+    months.push(...items.map((item) => ({ month: item.month, count: item.count })));
+    cursor = lastEvaluatedKey;
+  } while (cursor);
+
+  return months;
+}
+
+/**
+ * One month of the log, newest first. Without a month, the most recent
+ * month that has entries is returned.
+ */
+export async function listCorrections(query: CorrectionsQueryInput): Promise<CorrectionsLogResponse> {
+  const months = await listCorrectionMonths();
+  const month = query.month ?? months[0]?.month ?? new Date().toISOString().substring(0, 7);
+
+  const { items, lastEvaluatedKey } = await queryItems<CorrectionItem>({
+    TableName: TABLE,
+    KeyConditionExpression: 'PK = :pk',
+    ExpressionAttributeValues: { ':pk': `MONTH#${month}` },
+    ScanIndexForward: false,
+    Limit: query.limit,
+    ExclusiveStartKey: query.cursor ? decodeCursor(query.cursor) : undefined,
+  });
+
+  return {
+    month,
+    months,
+    items: items.map(stripKeys),
+    cursor: lastEvaluatedKey ? encodeCursor(lastEvaluatedKey) : undefined,
+    hasMore: !!lastEvaluatedKey,
+  };
+}
+
+/** Most recent entries across months, for the Atom feed */
+export async function listRecentCorrections(limit: number): Promise<CorrectionEntry[]> {
+  const entries: CorrectionEntry[] = [];
+
+  for (const { month } of await listCorrectionMonths()) {
+    const { items } = await queryItems<CorrectionItem>({
+      TableName: TABLE,
+      KeyConditionExpression: 'PK = :pk',
+      ExpressionAttributeValues: { ':pk': `MONTH#${month}` },
+      ScanIndexForward: false,
+      Limit: limit - entries.length,
+    });
+    entries.push(...items.map(stripKeys));
+    if (entries.length >= limit) {
+      break;
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Backfill one page of the log from card status histories, then from
+ * retracted relationships. Entries already logged are skipped, so the
+ * rebuild is safe to re-run. Pass the returned cursor back until hasMore is false.
+ */
+export async function rebuildCorrectionsLog(
+  cursor: string | undefined,
+  pageSize = 100
+): Promise<RebuildCorrectionsLogResult> {
+  const state = cursor ? decodeCursor(cursor) : undefined;
+  const phase = state?.phase === 'relationships' ? 'relationships' : 'cards';
+  const innerCursor = typeof state?.cursor === 'string' ? state.cursor : undefined;
+  let entriesWritten = 0;
+
+  if (phase === 'cards') {
+    // Only published cards can be disputed, corrected or retracted
+    const { items, lastEvaluatedKey } = await scanItems<{ cardId: string }>({
+      TableName: config.tables.cards,
+      FilterExpression: 'SK = :latest',
+      ExpressionAttributeValues: { ':latest': 'LATEST' },
+      ProjectionExpression: 'cardId',
+      Limit: pageSize,
+      ExclusiveStartKey: innerCursor ? decodeCursor(innerCursor) : undefined,
+    });
+
+    for (const { cardId } of items) {
+      for (const entry of cardCorrectionEntries(await getCard(cardId))) {
+        if (await writeEntry(entry)) {
+          entriesWritten++;
+        }
+      }
+    }
+
+    return {
+      entriesWritten,
+      cursor: encodeCursor(
+        lastEvaluatedKey
+          ? { phase: 'cards', cursor: encodeCursor(lastEvaluatedKey) }
+          : { phase: 'relationships' }
+      ),
+      hasMore: true,
+    };
+  }
+
+  const page = await listRelationships({ status: 'RETRACTED', limit: pageSize, cursor: innerCursor });
+  for (const relationship of page.items) {
+    if (await writeEntry(await toRelationshipEntry(relationship))) {
+      entriesWritten++;
+    }
+  }
+
+  return {
+    entriesWritten,
+    cursor: page.cursor ? encodeCursor({ phase: 'relationships', cursor: page.cursor }) : undefined,
+    hasMore: !!page.cursor,
+  };
+}
@@ -19,11 +19,14 @@ import { config } from '../config.js';
 import { invokeClaudeExtraction } from '../anthropic.js';
 import { logger } from '../logger.js';
 import { queryItems, putItem, stripKeys, scanItems } from '../dynamodb.js';
-import { createEntity, getEntity, findEntityByName } from './entities.js';
-import { createSource, captureHtmlSnapshot, autoVerifySource } from './sources.js';
-import { createCard, publishCard, listCards } from './cards.js';
-import { createRelationship, publishRelationship } from './relationships.js';
+import { getEntity, findEntityByName } from './entities.js';
+import { submitCard, publishCard, listCards } from './cards.js';
+import { publishRelationship } from './relationships.js';
+import { promoteIntake, promotionTargets } from './promotion.js';
+import { findPromotedClusterMember } from './intake-clusters.js';
+import type { PromoteIntakeRequest, PromotionEntity } from './promotion.js';
 import { logAuditEvent } from './audit.js';
+import { ApprovalRequiredError } from '../errors.js';
 
 // Create child logger for editor
 const editorLogger = logger.child({ service: 'editor' });
@@ -273,6 +276,26 @@ async function processItem(
   const { intakeId } = item;
 
   try {
+    // Another report of a story that already has a card needs no second one
+    const covering = await findPromotedClusterMember(item);
+    if (covering?.intakeId === intakeId) {
+      // Promoted earlier in this run along with its cluster
+      return { intakeId, decision: 'SKIP', reason: 'Already promoted with its story cluster' };
+    }
+    if (covering) {
+      const reason = `Story already covered by card ${covering.promotedCardId}`;
+      if (!dryRun) {
+        await updateIntakeEditorStatus(intakeId, 'SKIPPED', {
+          decision: 'SKIP',
+          reason,
+          confidence: 1,
+          decidedAt: new Date().toISOString(),
+          runId,
+        });
+      }
+      return { intakeId, decision: 'SKIP', reason };
+    }
+
     // Get matched entities for context
     const matchedEntities = await getMatchedEntities(item.suggestedEntities || []);
 
@@ -332,15 +355,32 @@ async function processItem(
       };
     }
 
-    // PUBLISH decision - resolve entities
+    // PUBLISH decision - resolve entities. New entities aren't created here;
+    // the promotion creates them along with the source and card.
+    const entities: PromotionEntity[] = [];
+    // Position of each resolved reference in `entities`, for relationship indexes
+    const positions: number[] = [];
     const resolvedEntityIds: string[] = [];
 
+    function addEntity(entity: PromotionEntity, key: string): void {
+      const existing = entities.findIndex((e) =>
+        'entityId' in e ? e.entityId === key : e.create.name.toLowerCase() === key
+      );
+      if (existing >= 0) {
+        positions.push(existing);
+        return;
+      }
+      positions.push(entities.length);
+      entities.push(entity);
+    }
+
     for (const entityRef of editorResponse.entities) {
       if ('matchedIndex' in entityRef) {
         // Use index to look up entity from the matched entities array
         const index = entityRef.matchedIndex;
         if (index >= 0 && index < matchedEntities.length) {
           const matched = matchedEntities[index];
+          addEntity({ entityId: matched.entityId }, matched.entityId);
           resolvedEntityIds.push(matched.entityId);
           editorLogger.debug({ entityId: matched.entityId, name: matched.name, index }, 'Using matched entity by index');
         } else {
@@ -350,6 +390,7 @@ async function processItem(
         // Legacy: Validate that the entity ID actually exists in the database
         const existingEntity = await getEntity(entityRef.entityId);
         if (existingEntity) {
+          addEntity({ entityId: entityRef.entityId }, entityRef.entityId);
           resolvedEntityIds.push(entityRef.entityId);
           editorLogger.debug({ entityId: entityRef.entityId, name: existingEntity.name }, 'Using existing entity by ID');
         } else {
@@ -359,12 +400,13 @@ async function processItem(
         // First check if entity with this name already exists
         const existingByName = await findEntityByName(entityRef.create.name);
         if (existingByName) {
+          addEntity({ entityId: existingByName.entityId }, existingByName.entityId);
           resolvedEntityIds.push(existingByName.entityId);
           editorLogger.info({ entityId: existingByName.entityId, name: existingByName.name }, 'Found existing entity by name');
           continue;
         }
 
-        // Create new entity - map LLM types to valid EntityType values
+        // New entity - map LLM types to valid EntityType values
         const typeMap: Record<string, EntityType> = {
           'CORPORATION': 'CORPORATION',
           'GOVERNMENT_AGENCY': 'AGENCY',
@@ -380,20 +422,14 @@ async function processItem(
         };
         const entityType = typeMap[entityRef.create.type.toUpperCase()] || 'CORPORATION';
 
-        const entity = await createEntity(
-          {
-            name: entityRef.create.name,
-            type: entityType,
-            aliases: [],
-          },
-          EDITOR_USER_ID
+        addEntity(
+          { create: { name: entityRef.create.name, type: entityType } },
+          entityRef.create.name.toLowerCase()
         );
-        resolvedEntityIds.push(entity.entityId);
-        editorLogger.info({ entityId: entity.entityId, name: entity.name }, 'Created new entity');
       }
     }
 
-    if (resolvedEntityIds.length === 0) {
+    if (entities.length === 0) {
       editorLogger.warn({ intakeId }, 'No entities resolved, skipping item');
       if (!dryRun) {
         await updateIntakeEditorStatus(intakeId, 'SKIPPED', {
@@ -409,7 +445,7 @@ async function processItem(
       };
     }
 
-    // Check for duplicates
+    // Check for duplicates (entities still to be created can't have cards yet)
     const isDuplicate = await checkForDuplicate(item.title, resolvedEntityIds);
     if (isDuplicate) {
       if (!dryRun) {
@@ -430,38 +466,11 @@ async function processItem(
       return {
         intakeId,
         decision: 'PUBLISH',
-        reason: `[DRY RUN] Would publish with ${resolvedEntityIds.length} entities`,
+        reason: `[DRY RUN] Would publish with ${entities.length} entities`,
         entityIds: resolvedEntityIds,
       };
     }
 
-    // Create source
-    const source = await createSource(
-      {
-        title: item.title,
-        url: item.canonicalUrl,
-        docType: 'HTML',
-        publisher: item.publisher,
-        excerpt: item.summary,
-      },
-      EDITOR_USER_ID
-    );
-
-    // Auto-verify sources from trusted government feeds
-    // These are official government RSS feeds (FTC, DOJ, GAO, SEC)
-    await autoVerifySource(source.sourceId, EDITOR_USER_ID);
-    editorLogger.debug({ sourceId: source.sourceId }, 'Auto-verified government source');
-
-    // Capture HTML snapshot (non-blocking)
-    try {
-      await captureHtmlSnapshot(source.sourceId, item.canonicalUrl, EDITOR_USER_ID);
-    } catch (snapshotError) {
-      editorLogger.warn(
-        { sourceId: source.sourceId, error: (snapshotError as Error).message },
-        'Failed to capture HTML snapshot, continuing anyway'
-      );
-    }
-
     // Determine category - validate LLM response or default to 'other'
     const validCategories: string[] = Object.values(CardCategoryEnum);
     const rawCategory = editorResponse.category?.toLowerCase();
@@ -469,27 +478,6 @@ async function processItem(
       ? rawCategory as CardCategory
       : 'other';
 
-    // Create card
-    const card = await createCard(
-      {
-        title: item.title,
-        claim: item.title,
-        summary: editorResponse.cardSummary || item.extractedSummary || item.summary || '',
-        category,
-        entityIds: resolvedEntityIds,
-        eventDate: item.publishedAt.split('T')[0],
-        sourceRefs: [source.sourceId],
-        evidenceStrength: 'HIGH',
-        tags: item.suggestedTags || [],
-      },
-      EDITOR_USER_ID
-    );
-
-    editorLogger.info({ cardId: card.cardId, intakeId }, 'Created card from intake');
-
-    // Create relationships
-    const relationshipIds: string[] = [];
-
     // Map LLM relationship types to valid RelationshipType values
     const relTypeMap: Record<string, RelationshipType> = {
       'OWNS': 'OWNS',
@@ -516,44 +504,63 @@ async function processItem(
       'OTHER': 'OTHER',
     };
 
+    const relationships: PromoteIntakeRequest['relationships'] = [];
     for (const relSpec of editorResponse.relationships) {
-      const fromEntityId = resolvedEntityIds[relSpec.fromEntityIndex];
-      const toEntityId = resolvedEntityIds[relSpec.toEntityIndex];
-
-      if (fromEntityId && toEntityId) {
-        try {
-          const relType = relTypeMap[relSpec.type.toUpperCase()] || 'OTHER';
-
-          const relationship = await createRelationship(
-            {
-              fromEntityId,
-              toEntityId,
-              type: relType,
-              description: relSpec.description,
-              sourceRefs: [source.sourceId],
-            },
-            EDITOR_USER_ID
-          );
-          relationshipIds.push(relationship.relationshipId);
-        } catch (relError) {
-          editorLogger.warn(
-            { error: (relError as Error).message, fromEntityId, toEntityId },
-            'Failed to create relationship'
-          );
-        }
+      const from = positions[relSpec.fromEntityIndex];
+      const to = positions[relSpec.toEntityIndex];
+      if (from === undefined || to === undefined) {
+        editorLogger.warn(
+          { fromEntityIndex: relSpec.fromEntityIndex, toEntityIndex: relSpec.toEntityIndex },
+          'Relationship refers to an unresolved entity, skipping'
+        );
+        continue;
       }
+      relationships.push({
+        from: { index: from },
+        to: { index: to },
+        type: relTypeMap[relSpec.type.toUpperCase()] || 'OTHER',
+        description: relSpec.description,
+      });
     }
 
-    // Publish card
+    // Sources from trusted government feeds (FTC, DOJ, GAO, SEC) are
+    // auto-verified. A failure here rolls the whole promotion back.
+    const { promotion } = await promoteIntake(
+      intakeId,
+      {
+        entities,
+        relationships,
+        card: {
+          summary: editorResponse.cardSummary || item.extractedSummary || item.summary || '',
+          category,
+          tags: item.suggestedTags || [],
+        },
+        verifySource: true,
+        includeCluster: true,
+      },
+      EDITOR_USER_ID
+    );
+    const { cardId, sourceId, entityIds } = promotion;
+    const relationshipIds = promotionTargets(promotion, 'CREATE_RELATIONSHIP');
+
+    editorLogger.info({ cardId, intakeId, promotionId: promotion.promotionId }, 'Created card from intake');
+
+    // Submit and publish card. The editor counts as the author, so when an
+    // approval quorum is configured the card waits in REVIEW for human sign-off.
     try {
-      await publishCard(card.cardId, EDITOR_USER_ID);
-      editorLogger.info({ cardId: card.cardId }, 'Published card');
+      await submitCard(cardId, EDITOR_USER_ID);
+      await publishCard(cardId, EDITOR_USER_ID);
+      editorLogger.info({ cardId }, 'Published card');
     } catch (publishError) {
-      editorLogger.error(
-        { error: (publishError as Error).message, cardId: card.cardId },
-        'Failed to publish card'
-      );
-      // Card stays as DRAFT, user can review later
+      if (publishError instanceof ApprovalRequiredError) {
+        editorLogger.info({ cardId }, 'Card queued for approval');
+      } else {
+        editorLogger.error(
+          { error: (publishError as Error).message, cardId },
+          'Failed to publish card'
+        );
+        // Card stays as DRAFT or REVIEW, user can review later
+      }
     }
 
     // Publish relationships
@@ -569,7 +576,7 @@ async function processItem(
     }
 
     // Update intake status
-    await updateIntakeEditorStatus(intakeId, 'APPROVED', decision, card.cardId, source.sourceId);
+    await updateIntakeEditorStatus(intakeId, 'APPROVED', decision, cardId, sourceId);
 
     // Audit log - use PROMOTE_INTAKE action since EDITOR_PUBLISH isn't in the enum
     await logAuditEvent(
@@ -579,9 +586,9 @@ async function processItem(
       EDITOR_USER_ID,
       {
         metadata: {
-          cardId: card.cardId,
-          sourceId: source.sourceId,
-          entityIds: resolvedEntityIds,
+          cardId,
+          sourceId,
+          entityIds,
           relationshipIds,
           confidence: editorResponse.confidence,
           runId,
@@ -594,8 +601,8 @@ async function processItem(
       intakeId,
       decision: 'PUBLISH',
       reason: editorResponse.reason,
-      cardId: card.cardId,
-      entityIds: resolvedEntityIds,
+      cardId,
+      entityIds,
       relationshipIds,
     };
   } catch (error) {
@@ -1,22 +1,38 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { normalizeName, findEntityByName, createEntity } from './entities.js';
+import {
+  normalizeName,
+  findEntityByName,
+  createEntity,
+  updateEntity,
+  listEntities,
+  saveEntityAggregateScore,
+} from './entities.js';
 import * as dynamodb from '../dynamodb.js';
-import { ConflictError } from '../errors.js';
+import * as search from './search.js';
+import { ConflictError, VersionConflictError } from '../errors.js';
 
 // Mock dynamodb module
 vi.mock('../dynamodb.js', () => ({
   getItem: vi.fn(),
   putItem: vi.fn(),
+  updateItem: vi.fn(),
   queryItems: vi.fn(),
   scanItems: vi.fn(),
   encodeCursor: vi.fn(),
   decodeCursor: vi.fn(),
+  isConditionalCheckFailed: vi.fn(
+    (error: unknown) => (error as Error).name === 'ConditionalCheckFailedException'
+  ),
   stripKeys: vi.fn((item) => {
     const { PK, SK, GSI1PK, GSI1SK, ...rest } = item;
     return rest;
   }),
 }));
 
+vi.mock('./search.js', () => ({
+  syncEntitySearch: vi.fn(),
+}));
+
 // Mock config
 vi.mock('../config.js', () => ({
   config: {
@@ -167,6 +183,7 @@ describe('entities service', () => {
       expect(result.entityId).toBeDefined();
       expect(result.aliases).toEqual([]);
       expect(dynamodb.putItem).toHaveBeenCalledTimes(1);
+      expect(search.syncEntitySearch).toHaveBeenCalledWith(result);
     });
 
     it('detects duplicates with different casing or punctuation', async () => {
@@ -195,4 +212,156 @@ describe('entities service', () => {
       expect(dynamodb.putItem).not.toHaveBeenCalled();
     });
   });
+
+  describe('updateEntity', () => {
+    const stored = {
+      PK: 'ENTITY#ent-1',
+      SK: 'META',
+      entityId: 'ent-1',
+      name: 'Acme Corp',
+      type: 'CORPORATION',
+      aliases: [],
+      version: 3,
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-01-02T00:00:00Z',
+    };
+
+    it('bumps the version and writes only if it is unchanged', async () => {
+      vi.mocked(dynamodb.getItem).mockResolvedValueOnce(stored);
+
+      const result = await updateEntity('ent-1', { website: 'https://acme.example' }, 'user-1', 3);
+
+      expect(result.version).toBe(4);
+      expect(dynamodb.updateItem).toHaveBeenCalledWith(
+        expect.objectContaining({
+          ConditionExpression: '#version = :version',
+          ExpressionAttributeValues: expect.objectContaining({ ':version': 3, ':nextVersion': 4 }),
+        })
+      );
+    });
+
+    it('writes only the edited fields, leaving a score saved since the read alone', async () => {
+      vi.mocked(dynamodb.getItem).mockResolvedValueOnce({
+        ...stored,
+        aggregateScore: {
+          overallScore: 4,
+          categoryScores: {},
+          totalCards: 1,
+          weightConfigVersion: 'default',
+          lastComputedAt: '2024-01-01T00:00:00Z',
+        },
+      });
+
+      await updateEntity('ent-1', { name: 'Acme Corporation', website: undefined }, 'user-1', 3);
+
+      const update = vi.mocked(dynamodb.updateItem).mock.calls[0][0];
+      expect(update.UpdateExpression).toBe(
+        'SET #version = :nextVersion, updatedAt = :updatedAt, GSI1PK = :gsi1pk, #name = :name'
+      );
+      expect(update.ExpressionAttributeValues).toMatchObject({
+        ':gsi1pk': 'NAME#acmecorporation',
+        ':name': 'Acme Corporation',
+      });
+      expect(update.ExpressionAttributeValues).not.toHaveProperty(':aggregateScore');
+      expect(dynamodb.putItem).not.toHaveBeenCalled();
+    });
+
+    it('treats entities saved before versioning as version 1', async () => {
+      const legacy = { ...stored };
+      delete (legacy as Partial<typeof stored>).version;
+      vi.mocked(dynamodb.getItem).mockResolvedValueOnce(legacy);
+
+      const result = await updateEntity('ent-1', { name: 'Acme Corporation' }, 'user-1', 1);
+
+      expect(result.version).toBe(2);
+      expect(vi.mocked(dynamodb.updateItem).mock.calls[0][0].ConditionExpression).toBe(
+        'attribute_not_exists(#version)'
+      );
+    });
+
+    it('rejects a stale expectedVersion with the current entity and a diff', async () => {
+      vi.mocked(dynamodb.getItem).mockResolvedValueOnce(stored);
+
+      const error = await updateEntity('ent-1', { name: 'Acme Inc' }, 'user-1', 2).catch((e) => e);
+
+      expect(error).toBeInstanceOf(VersionConflictError);
+      expect(error.details).toMatchObject({
+        currentVersion: 3,
+        changes: [{ field: 'name', change: 'modified', before: 'Acme Corp', after: 'Acme Inc' }],
+      });
+      expect(dynamodb.updateItem).not.toHaveBeenCalled();
+    });
+
+    it('reports a conflict when another edit lands first', async () => {
+      vi.mocked(dynamodb.getItem)
+        .mockResolvedValueOnce(stored)
+        .mockResolvedValueOnce({ ...stored, name: 'Acme Holdings', version: 4 });
+      const conditionFailed = new Error('The conditional request failed');
+      conditionFailed.name = 'ConditionalCheckFailedException';
+      vi.mocked(dynamodb.updateItem).mockRejectedValueOnce(conditionFailed);
+
+      const error = await updateEntity('ent-1', { website: 'https://acme.example' }, 'user-1').catch((e) => e);
+
+      expect(error).toBeInstanceOf(VersionConflictError);
+      expect(error.details.currentVersion).toBe(4);
+      expect(search.syncEntitySearch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('saveEntityAggregateScore', () => {
+    const score = {
+      overallScore: 7.5,
+      categoryScores: { labor: 7.5 },
+      totalCards: 2,
+      weightConfigVersion: 'default',
+      lastComputedAt: '2024-01-01T00:00:00Z',
+    };
+
+    it('stores the score and a zero-padded ranking key', async () => {
+      await saveEntityAggregateScore('123', score);
+
+      expect(dynamodb.updateItem).toHaveBeenCalledWith(
+        expect.objectContaining({
+          Key: { PK: 'ENTITY#123', SK: 'META' },
+          UpdateExpression: 'SET aggregateScore = :score, GSI2PK = :gsi2pk, GSI2SK = :gsi2sk',
+          ExpressionAttributeValues: {
+            ':score': score,
+            ':gsi2pk': 'SCORE',
+            ':gsi2sk': 'SCORE#007.50#ENTITY#123',
+          },
+        })
+      );
+    });
+
+    it('removes the entity from the ranking when no cards are scored', async () => {
+      await saveEntityAggregateScore('123', { ...score, overallScore: 0, totalCards: 0 });
+
+      expect(dynamodb.updateItem).toHaveBeenCalledWith(
+        expect.objectContaining({
+          UpdateExpression: 'SET aggregateScore = :score REMOVE GSI2PK, GSI2SK',
+        })
+      );
+    });
+  });
+
+  describe('listEntities', () => {
+    it('queries the score index in descending order when sorting by score', async () => {
+      vi.mocked(dynamodb.queryItems).mockResolvedValueOnce({
+        items: [],
+        lastEvaluatedKey: undefined,
+      });
+
+      await listEntities({ limit: 20, sort: 'score' });
+
+      expect(dynamodb.queryItems).toHaveBeenCalledWith(
+        expect.objectContaining({
+          IndexName: 'GSI2',
+          KeyConditionExpression: 'GSI2PK = :pk',
+          ExpressionAttributeValues: { ':pk': 'SCORE' },
+          ScanIndexForward: false,
+        })
+      );
+      expect(dynamodb.scanItems).not.toHaveBeenCalled();
+    });
+  });
 });
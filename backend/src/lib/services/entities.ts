@@ -1,21 +1,39 @@
 import { ulid } from 'ulid';
-import type { Entity, PaginatedResponse, EntitySearchResult, EntitySearchResponse } from '@ledger/shared';
+import type {
+  Entity,
+  EntityWithScore,
+  EntityAggregateScore,
+  PaginatedResponse,
+  EntitySearchResult,
+  EntitySearchResponse,
+} from '@ledger/shared';
 import { config } from '../config.js';
 import {
   getItem,
   putItem,
+  updateItem,
   queryItems,
   scanItems,
   countScanItems,
   encodeCursor,
   decodeCursor,
+  deleteItem,
   stripKeys,
+  isConditionalCheckFailed,
 } from '../dynamodb.js';
-import { NotFoundError, ConflictError } from '../errors.js';
+import { NotFoundError, ConflictError, VersionConflictError } from '../errors.js';
+import { diffFields } from '../field-diff.js';
+import { syncEntitySearch, removeEntitySearch } from './search.js';
 import type { CreateEntityInput, UpdateEntityInput, EntityQueryInput } from '../validation.js';
 
 const TABLE = config.tables.entities;
 
+// Fixed GSI2 partition holding every scored entity, sorted by overall score
+const SCORE_PARTITION = 'SCORE';
+
+// Left out of conflict diffs: bookkeeping, and scores the editor doesn't set
+const CONFLICT_IGNORED_FIELDS = new Set(['version', 'createdAt', 'updatedAt', 'aggregateScore']);
+
 /**
  * Normalize name for search index and matching.
  * Lowercases and removes all non-alphanumeric characters.
@@ -48,9 +66,28 @@ export async function findEntityByName(name: string): Promise<Entity | null> {
   return stripKeys(items[0]);
 }
 
+/**
+ * GSI2 keys for the score ranking index.
+ * Scores are zero-padded so lexical order matches numeric order.
+ * Entities without any scored cards stay out of the ranking.
+ */
+function scoreIndexKeys(
+  entityId: string,
+  score?: EntityAggregateScore
+): { GSI2PK: string; GSI2SK: string } | undefined {
+  if (!score || score.totalCards === 0) {
+    return undefined;
+  }
+  return {
+    GSI2PK: SCORE_PARTITION,
+    GSI2SK: `SCORE#${score.overallScore.toFixed(2).padStart(6, '0')}#ENTITY#${entityId}`,
+  };
+}
+
 export async function createEntity(
   input: CreateEntityInput,
-  _userId: string
+  _userId: string,
+  entityId: string = ulid()
 ): Promise<Entity> {
   // Check for existing entity with the same normalized name
   const existing = await findEntityByName(input.name);
@@ -61,7 +98,6 @@ export async function createEntity(
   }
 
   const now = new Date().toISOString();
-  const entityId = ulid();
 
   const entity: Entity = {
     entityId,
@@ -71,6 +107,7 @@ export async function createEntity(
     website: input.website,
     parentEntityId: input.parentEntityId,
     identifiers: input.identifiers,
+    version: 1,
     createdAt: now,
     updatedAt: now,
   };
@@ -85,12 +122,25 @@ export async function createEntity(
       ...entity,
     },
   });
+  await syncEntitySearch(entity);
 
   return entity;
 }
 
-export async function getEntity(entityId: string): Promise<Entity> {
-  const item = await getItem<Entity & { PK: string; SK: string }>({
+/**
+ * Remove an entity that nothing references yet. Used to roll back records
+ * created by a failed intake promotion; there is no admin route for it.
+ */
+export async function deleteEntity(entityId: string): Promise<void> {
+  await deleteItem({
+    TableName: TABLE,
+    Key: { PK: `ENTITY#${entityId}`, SK: 'META' },
+  });
+  await removeEntitySearch(entityId);
+}
+
+export async function getEntity(entityId: string): Promise<EntityWithScore> {
+  const item = await getItem<EntityWithScore & { PK: string; SK: string }>({
     TableName: TABLE,
     Key: {
       PK: `ENTITY#${entityId}`,
@@ -105,40 +155,136 @@ export async function getEntity(entityId: string): Promise<Entity> {
   return stripKeys(item);
 }
 
+function entityVersionConflict(current: EntityWithScore, input: UpdateEntityInput): VersionConflictError {
+  return new VersionConflictError('Entity', {
+    currentVersion: current.version ?? 1,
+    current,
+    changes: diffFields(current, { ...current, ...input }, CONFLICT_IGNORED_FIELDS),
+  });
+}
+
+/**
+ * Apply an edit. The write only succeeds if the entity is still at the
+ * version that was read, and expectedVersion (when given) must match it.
+ */
 export async function updateEntity(
   entityId: string,
   input: UpdateEntityInput,
-  _userId: string
+  _userId: string,
+  expectedVersion?: number
 ): Promise<Entity> {
   const existing = await getEntity(entityId);
+  const currentVersion = existing.version ?? 1;
+
+  if (expectedVersion !== undefined && expectedVersion !== currentVersion) {
+    throw entityVersionConflict(existing, input);
+  }
+
   const now = new Date().toISOString();
+  const edited = Object.entries(input).filter(([, value]) => value !== undefined);
 
-  const updated: Entity = {
+  const updated: EntityWithScore = {
     ...existing,
-    ...input,
+    ...Object.fromEntries(edited),
+    version: currentVersion + 1,
     updatedAt: now,
   };
 
-  await putItem({
+  // Only the edited fields are written: a whole-item put would restore the
+  // aggregateScore read above over one the scorer saved in the meantime
+  const assignments = ['#version = :nextVersion', 'updatedAt = :updatedAt', 'GSI1PK = :gsi1pk'];
+  const names: Record<string, string> = { '#version': 'version' };
+  const values: Record<string, unknown> = {
+    ':nextVersion': updated.version,
+    ':updatedAt': now,
+    ':gsi1pk': `NAME#${normalizeName(updated.name)}`,
+  };
+  for (const [field, value] of edited) {
+    assignments.push(`#${field} = :${field}`);
+    names[`#${field}`] = field;
+    values[`:${field}`] = value;
+  }
+
+  try {
+    await updateItem({
+      TableName: TABLE,
+      Key: { PK: `ENTITY#${entityId}`, SK: 'META' },
+      UpdateExpression: `SET ${assignments.join(', ')}`,
+      // Entities saved before versioning have no version attribute yet
+      ConditionExpression: existing.version === undefined
+        ? 'attribute_not_exists(#version)'
+        : '#version = :version',
+      ExpressionAttributeNames: names,
+      ExpressionAttributeValues: {
+        ...values,
+        ...(existing.version !== undefined && { ':version': existing.version }),
+      },
+    });
+  } catch (error) {
+    if (isConditionalCheckFailed(error)) {
+      throw entityVersionConflict(await getEntity(entityId), input);
+    }
+    throw error;
+  }
+  await syncEntitySearch(updated);
+
+  return updated;
+}
+
+/**
+ * Store a freshly computed aggregate score on the entity item and
+ * keep the score ranking index in step with it.
+ */
+export async function saveEntityAggregateScore(
+  entityId: string,
+  score: EntityAggregateScore
+): Promise<void> {
+  const indexKeys = scoreIndexKeys(entityId, score);
+
+  await updateItem({
     TableName: TABLE,
-    Item: {
+    Key: {
       PK: `ENTITY#${entityId}`,
       SK: 'META',
-      GSI1PK: `NAME#${normalizeName(updated.name)}`,
-      GSI1SK: `ENTITY#${entityId}`,
-      ...updated,
+    },
+    UpdateExpression: indexKeys
+      ? 'SET aggregateScore = :score, GSI2PK = :gsi2pk, GSI2SK = :gsi2sk'
+      : 'SET aggregateScore = :score REMOVE GSI2PK, GSI2SK',
+    ConditionExpression: 'attribute_exists(PK)',
+    ExpressionAttributeValues: {
+      ':score': score,
+      ...(indexKeys && { ':gsi2pk': indexKeys.GSI2PK, ':gsi2sk': indexKeys.GSI2SK }),
     },
   });
-
-  return updated;
 }
 
 export async function listEntities(
   query: EntityQueryInput
-): Promise<PaginatedResponse<Entity>> {
+): Promise<PaginatedResponse<EntityWithScore>> {
   const limit = query.limit || 20;
   const exclusiveStartKey = query.cursor ? decodeCursor(query.cursor) : undefined;
 
+  // Ranked listing: highest overall score first, via the score index
+  if (query.sort === 'score') {
+    const { items, lastEvaluatedKey } = await queryItems<EntityWithScore & { PK: string; SK: string }>({
+      TableName: TABLE,
+      IndexName: 'GSI2',
+      KeyConditionExpression: 'GSI2PK = :pk',
+      ExpressionAttributeValues: {
+        ':pk': SCORE_PARTITION,
+      },
+      ScanIndexForward: false,
+      Limit: limit,
+      ExclusiveStartKey: exclusiveStartKey,
+    });
+
+    return {
+      items: items.map((item) => stripKeys(item)),
+      cursor: lastEvaluatedKey ? encodeCursor(lastEvaluatedKey) : undefined,
+      hasMore: !!lastEvaluatedKey,
+    };
+  }
+
   // If searching by name prefix, use GSI1
   if (query.query) {
     const normalizedQuery = normalizeName(query.query);
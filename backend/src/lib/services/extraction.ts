@@ -9,18 +9,16 @@ import {
   type SuggestedSource,
 } from '@ledger/shared';
 import { S3Client, GetObjectCommand } from '@aws-sdk/client-s3';
-import UserAgent from 'user-agents';
 import { invokeClaudeExtraction } from '../anthropic.js';
 import { searchEntities, normalizeName } from './entities.js';
+import { politeFetch } from './host-politeness.js';
+import { getIntakeRails } from './intake-feeds.js';
 import { config } from '../config.js';
 import { logger } from '../logger.js';
 
 // S3 client for fetching prompt template
 const s3Client = new S3Client({ region: config.region });
 
-// User agent generator - provides realistic desktop browser user agents
-const userAgentGenerator = new UserAgent({ deviceCategory: 'desktop' });
-
 // Maximum content length to send to LLM (characters)
 const MAX_CONTENT_LENGTH = 50000;
 
@@ -163,45 +161,37 @@ async function fetchArticleContent(item: IntakeItem): Promise<string> {
   try {
     logger.info({ url: item.canonicalUrl }, 'Fetching article content for extraction');
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
-
-    try {
-      // Generate a realistic browser user agent for each request
-      const ua = userAgentGenerator.random();
-      const response = await fetch(item.canonicalUrl, {
-        signal: controller.signal,
-        headers: {
-          'User-Agent': ua.toString(),
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-          'Accept-Language': 'en-US,en;q=0.5',
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
+    // Article hosts are held to the same per-host limits as feed fetches, and
+    // the request names us rather than posing as a browser: robots.txt rules
+    // are matched on our product token, which a random User-Agent would dodge
+    const rails = await getIntakeRails();
+    const response = await politeFetch(item.canonicalUrl, {
+      limits: rails,
+      timeoutMs: FETCH_TIMEOUT_MS,
+      accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
 
-      const html = await response.text();
-      const textContent = extractTextFromHtml(html);
-
-      // Truncate if too long
-      if (textContent.length > MAX_CONTENT_LENGTH) {
-        logger.info(
-          { url: item.canonicalUrl, originalLength: textContent.length, truncatedTo: MAX_CONTENT_LENGTH },
-          'Truncating article content'
-        );
-        return textContent.slice(0, MAX_CONTENT_LENGTH) + '\n\n[Content truncated...]';
-      }
+    const html = await response.text();
+    const textContent = extractTextFromHtml(html);
 
+    // Truncate if too long
+    if (textContent.length > MAX_CONTENT_LENGTH) {
       logger.info(
-        { url: item.canonicalUrl, contentLength: textContent.length },
-        'Successfully fetched article content'
+        { url: item.canonicalUrl, originalLength: textContent.length, truncatedTo: MAX_CONTENT_LENGTH },
+        'Truncating article content'
       );
-      return textContent;
-    } finally {
-      clearTimeout(timeoutId);
+      return textContent.slice(0, MAX_CONTENT_LENGTH) + '\n\n[Content truncated...]';
     }
+
+    logger.info(
+      { url: item.canonicalUrl, contentLength: textContent.length },
+      'Successfully fetched article content'
+    );
+    return textContent;
   } catch (error) {
     logger.warn(
       { url: item.canonicalUrl, error: error instanceof Error ? error.message : 'Unknown' },
@@ -216,7 +206,7 @@ async function fetchArticleContent(item: IntakeItem): Promise<string> {
  * Extract readable text content from HTML.
  * Removes scripts, styles, navigation, and other non-content elements.
  */
-function extractTextFromHtml(html: string): string {
+export function extractTextFromHtml(html: string): string {
   // Remove script and style tags with their content
   let text = html
     .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
@@ -0,0 +1,216 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  politeFetch,
+  parseRetryAfter,
+  HostBackoffError,
+  RobotsDisallowedError,
+} from './host-politeness.js';
+import * as dynamodb from '../dynamodb.js';
+
+vi.mock('../dynamodb.js', () => ({
+  getItem: vi.fn(),
+  putItem: vi.fn(),
+  updateItem: vi.fn(),
+  isConditionalCheckFailed: vi.fn(
+    (error) => (error as { name?: string })?.name === 'ConditionalCheckFailedException'
+  ),
+}));
+
+vi.mock('../config.js', () => ({
+  config: {
+    tables: {
+      hostPoliteness: 'test-host-politeness-table',
+    },
+  },
+}));
+
+function conditionalCheckFailed(): Error {
+  const error = new Error('The conditional request failed');
+  error.name = 'ConditionalCheckFailedException';
+  return error;
+}
+
+const NOW = new Date('2024-03-05T12:00:00Z').getTime();
+
+const limits = { maxRequestsPerHostPerMinute: 60, minDelayMsBetweenRequestsSameHost: 0 };
+const options = { limits, timeoutMs: 1000, accept: 'text/html' };
+
+// Stored records by PK; anything else reads as missing
+function mockStore(records: Record<string, object>) {
+  vi.mocked(dynamodb.getItem).mockImplementation(async (params) => {
+    const { PK } = params.Key as { PK: string };
+    return records[PK] ? { PK, ...records[PK] } : null;
+  });
+}
+
+// A robots record that is still fresh, so robots.txt isn't fetched
+function storedRobots(rules: Array<{ allow: boolean; path: string }> = [], crawlDelayMs?: number) {
+  return { rules, crawlDelayMs, fetchedAt: new Date(NOW).toISOString(), expiresAt: NOW / 1000 + 3600 };
+}
+
+describe('host politeness', () => {
+  const fetchMock = vi.fn(async (url: URL | string, _init?: RequestInit) =>
+    String(url).endsWith('/robots.txt')
+      ? new Response('User-agent: *\nDisallow: /private/\n', { status: 200 })
+      : new Response('<html></html>', { status: 200 })
+  );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ toFake: ['Date', 'setTimeout'] });
+    vi.setSystemTime(NOW);
+    vi.stubGlobal('fetch', fetchMock);
+    vi.mocked(dynamodb.putItem).mockResolvedValue(undefined);
+    vi.mocked(dynamodb.updateItem).mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('reads robots.txt and takes a token before the first request to a host', async () => {
+    mockStore({});
+
+    const response = await politeFetch('https://www.ftc.gov/news', options);
+
+    expect(response.status).toBe(200);
+    expect(fetchMock.mock.calls.map(([url]) => String(url))).toEqual([
+      'https://www.ftc.gov/robots.txt',
+      'https://www.ftc.gov/news',
+    ]);
+    expect(fetchMock.mock.calls[1][1]).toMatchObject({
+      headers: { 'User-Agent': expect.stringMatching(/^AccountabilityLedger\//), Accept: 'text/html' },
+    });
+
+    const puts = vi.mocked(dynamodb.putItem).mock.calls.map(([params]) => params);
+    expect(puts.find((p) => p.Item!.PK === 'ROBOTS#www.ftc.gov')!.Item).toMatchObject({
+      rules: [{ allow: false, path: '/private/' }],
+      expiresAt: NOW / 1000 + 24 * 60 * 60,
+    });
+    const bucketPuts = puts.filter((p) => p.Item!.PK === 'HOST#www.ftc.gov');
+    expect(bucketPuts).toHaveLength(2);
+    expect(bucketPuts[1]).toMatchObject({
+      TableName: 'test-host-politeness-table',
+      Item: { tokens: 59, refilledAt: NOW, lastRequestAt: NOW, expiresAt: NOW / 1000 + 60 },
+      ConditionExpression: 'attribute_not_exists(PK)',
+    });
+  });
+
+  it('refuses paths robots.txt disallows', async () => {
+    mockStore({ 'ROBOTS#www.sec.gov': storedRobots([{ allow: false, path: '/cgi-bin/' }]) });
+
+    await expect(politeFetch('https://www.sec.gov/cgi-bin/browse-edgar', options)).rejects.toThrow(
+      RobotsDisallowedError
+    );
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('stays away from a host whose robots.txt is unreachable', async () => {
+    mockStore({});
+    fetchMock.mockResolvedValueOnce(new Response('', { status: 500, statusText: 'Internal Server Error' }));
+
+    await expect(politeFetch('https://www.osha.gov/news', options)).rejects.toThrow(
+      'robots.txt unreachable for https://www.osha.gov/news'
+    );
+    expect(dynamodb.putItem).toHaveBeenCalledWith(
+      expect.objectContaining({
+        Item: expect.objectContaining({ PK: 'ROBOTS#www.osha.gov', unreachable: true, expiresAt: NOW / 1000 + 600 }),
+      })
+    );
+  });
+
+  it('waits for the bucket to refill', async () => {
+    mockStore({
+      'ROBOTS#www.dol.gov': storedRobots(),
+      'HOST#www.dol.gov': { tokens: 0.5, refilledAt: NOW, lastRequestAt: NOW, version: 4, expiresAt: 0 },
+    });
+
+    const pending = politeFetch('https://www.dol.gov/newsroom', options);
+    await vi.advanceTimersByTimeAsync(499);
+    expect(fetchMock).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    await pending;
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(dynamodb.putItem).toHaveBeenCalledWith(
+      expect.objectContaining({
+        Item: expect.objectContaining({ PK: 'HOST#www.dol.gov', version: 5 }),
+        ConditionExpression: '#version = :version',
+        ExpressionAttributeValues: { ':version': 4 },
+      })
+    );
+  });
+
+  it('spaces requests by the longer of the configured delay and Crawl-delay', async () => {
+    mockStore({
+      'ROBOTS#www.epa.gov': storedRobots([], 5000),
+      'HOST#www.epa.gov': { tokens: 60, refilledAt: NOW - 2000, lastRequestAt: NOW - 2000, version: 1, expiresAt: 0 },
+    });
+
+    const spaced = { ...options, limits: { ...limits, minDelayMsBetweenRequestsSameHost: 1000 }, maxWaitMs: 2000 };
+
+    await expect(politeFetch('https://www.epa.gov/newsreleases', spaced)).rejects.toThrow(
+      new HostBackoffError('www.epa.gov', 3000)
+    );
+  });
+
+  it('gives up rather than wait out a long backoff', async () => {
+    mockStore({
+      'ROBOTS#www.cfpb.gov': storedRobots(),
+      'HOST#www.cfpb.gov': { backoffUntil: NOW + 10 * 60 * 1000, version: 1, expiresAt: 0 },
+    });
+
+    await expect(politeFetch('https://www.cfpb.gov/enforcement', options)).rejects.toThrow(
+      'Host www.cfpb.gov is rate limited for another 600s'
+    );
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('backs off the host for the Retry-After of a 429', async () => {
+    mockStore({ 'ROBOTS#www.fda.gov': storedRobots() });
+    fetchMock.mockResolvedValueOnce(
+      new Response('', { status: 429, statusText: 'Too Many Requests', headers: { 'Retry-After': '120' } })
+    );
+
+    const response = await politeFetch('https://www.fda.gov/news-events', options);
+
+    expect(response.status).toBe(429);
+    expect(dynamodb.updateItem).toHaveBeenCalledWith(
+      expect.objectContaining({
+        Key: { PK: 'HOST#www.fda.gov' },
+        ExpressionAttributeValues: {
+          ':backoffUntil': NOW + 120_000,
+          ':expiresAt': (NOW + 180_000) / 1000,
+          ':one': 1,
+        },
+      })
+    );
+  });
+
+  it('reads the bucket again after losing a race for the token', async () => {
+    mockStore({
+      'ROBOTS#www.nhtsa.gov': storedRobots(),
+      'HOST#www.nhtsa.gov': { tokens: 10, refilledAt: NOW, lastRequestAt: NOW - 5000, version: 7, expiresAt: 0 },
+    });
+    vi.mocked(dynamodb.putItem).mockRejectedValueOnce(conditionalCheckFailed());
+
+    await politeFetch('https://www.nhtsa.gov/press-releases', options);
+
+    expect(dynamodb.putItem).toHaveBeenCalledTimes(2);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  describe('parseRetryAfter', () => {
+    it('reads delays in seconds and HTTP dates', () => {
+      expect(parseRetryAfter('30', NOW)).toBe(30_000);
+      expect(parseRetryAfter('Tue, 05 Mar 2024 12:02:00 GMT', NOW)).toBe(120_000);
+      expect(parseRetryAfter('Tue, 05 Mar 2024 11:00:00 GMT', NOW)).toBe(0);
+    });
+
+    it('ignores missing or malformed values', () => {
+      expect(parseRetryAfter(null)).toBeUndefined();
+      expect(parseRetryAfter('soon')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,291 @@
+import type { IntakeRails } from '@ledger/shared';
+import { config } from '../config.js';
+import { getItem, putItem, updateItem, isConditionalCheckFailed } from '../dynamodb.js';
+import { logger } from '../logger.js';
+import { isAllowedByRobots, parseRobotsTxt, type RobotsPolicy } from '../robots.js';
+
+// Every request we make to a publisher's site (feeds, listing pages, article
+// text, snapshots) goes through politeFetch, so the per-host limits hold
+// across Lambdas and invocations rather than per process.
+
+const TABLE = config.tables.hostPoliteness;
+
+const PRODUCT_TOKEN = 'AccountabilityLedger';
+const USER_AGENT = `${PRODUCT_TOKEN}/1.0 (https://accountabilityledger.org)`;
+
+// The bucket refills maxRequestsPerHostPerMinute tokens over this window
+const REFILL_WINDOW_MS = 60_000;
+
+// Longest we'll wait for a host before giving up on the request
+const DEFAULT_MAX_WAIT_MS = 60_000;
+
+// Backoff when a 429 or 503 has no usable Retry-After, and the most we honour
+const DEFAULT_BACKOFF_MS = 60_000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+// How long robots.txt is trusted; an unreachable one is retried sooner
+const ROBOTS_TTL_MS = 24 * 60 * 60 * 1000;
+const ROBOTS_UNREACHABLE_TTL_MS = 10 * 60 * 1000;
+const ROBOTS_TIMEOUT_MS = 10_000;
+
+export type HostLimits = Pick<IntakeRails, 'maxRequestsPerHostPerMinute' | 'minDelayMsBetweenRequestsSameHost'>;
+
+export interface PoliteFetchOptions {
+  limits: HostLimits;
+  timeoutMs: number;
+  accept: string;
+  /** Extra request headers, e.g. for a conditional GET */
+  headers?: Record<string, string>;
+  /** Give up instead of waiting longer than this for the host (default 60s) */
+  maxWaitMs?: number;
+}
+
+export class HostBackoffError extends Error {
+  constructor(host: string, waitMs: number) {
+    super(`Host ${host} is rate limited for another ${Math.ceil(waitMs / 1000)}s`);
+    this.name = 'HostBackoffError';
+  }
+}
+
+export class RobotsDisallowedError extends Error {
+  constructor(url: string, reason = 'robots.txt disallows') {
+    super(`${reason} ${url}`);
+    this.name = 'RobotsDisallowedError';
+  }
+}
+
+// PK HOST#{host}: token bucket and Retry-After backoff
+interface HostState {
+  PK: string;
+  tokens?: number;
+  refilledAt?: number;
+  lastRequestAt?: number;
+  backoffUntil?: number;
+  version: number;
+  expiresAt: number;
+}
+
+// PK ROBOTS#{host}: the robots.txt rules that apply to us
+interface RobotsRecord extends RobotsPolicy {
+  PK: string;
+  unreachable?: boolean;
+  fetchedAt: string;
+  expiresAt: number;
+}
+
+// Robots policies already read by this process, by host
+const robotsCache = new Map<string, { policy: RobotsRecord; expiresAtMs: number }>();
+
+function hostKey(host: string): { PK: string } {
+  return { PK: `HOST#${host}` };
+}
+
+function robotsKey(host: string): { PK: string } {
+  return { PK: `ROBOTS#${host}` };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Take a token from the host's bucket, waiting until one is free, the
+ * minimum spacing since the last request has passed and any Retry-After
+ * backoff is over. Concurrent callers race on the version; the loser reads
+ * again.
+ */
+async function acquireHostSlot(host: string, limits: HostLimits, minDelayMs: number, maxWaitMs: number): Promise<void> {
+  const capacity = limits.maxRequestsPerHostPerMinute;
+  const refillPerMs = capacity / REFILL_WINDOW_MS;
+  const deadline = Date.now() + maxWaitMs;
+
+  for (;;) {
+    const state = await getItem<HostState>({ TableName: TABLE, Key: hostKey(host), ConsistentRead: true });
+    const now = Date.now();
+
+    const tokens =
+      state?.tokens === undefined || state.refilledAt === undefined
+        ? capacity
+        : Math.min(capacity, state.tokens + (now - state.refilledAt) * refillPerMs);
+    const waitMs = Math.max(
+      0,
+      (state?.backoffUntil ?? 0) - now,
+      (state?.lastRequestAt ?? 0) + minDelayMs - now,
+      tokens >= 1 ? 0 : Math.ceil((1 - tokens) / refillPerMs)
+    );
+
+    if (waitMs > 0) {
+      if (now + waitMs > deadline) {
+        throw new HostBackoffError(host, waitMs);
+      }
+      await sleep(waitMs);
+      continue;
+    }
+
+    const next: HostState = {
+      ...hostKey(host),
+      tokens: tokens - 1,
+      refilledAt: now,
+      lastRequestAt: now,
+      ...(state?.backoffUntil !== undefined && { backoffUntil: state.backoffUntil }),
+      version: (state?.version ?? 0) + 1,
+      // Once the bucket has refilled the record says nothing an absent one wouldn't
+      expiresAt: Math.ceil((now + REFILL_WINDOW_MS) / 1000),
+    };
+
+    try {
+      await putItem({
+        TableName: TABLE,
+        Item: next,
+        ...(state
+          ? {
+              ConditionExpression: '#version = :version',
+              ExpressionAttributeNames: { '#version': 'version' },
+              ExpressionAttributeValues: { ':version': state.version },
+            }
+          : { ConditionExpression: 'attribute_not_exists(PK)' }),
+      });
+      return;
+    } catch (error) {
+      if (!isConditionalCheckFailed(error)) {
+        throw error;
+      }
+    }
+  }
+}
+
+/** Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000;
+  }
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/** Hold off every request to the host until the backoff has passed */
+async function recordBackoff(host: string, response: Response): Promise<void> {
+  const backoffMs = Math.min(parseRetryAfter(response.headers.get('retry-after')) ?? DEFAULT_BACKOFF_MS, MAX_BACKOFF_MS);
+  const backoffUntil = Date.now() + backoffMs;
+
+  // Bumping the version makes an in-flight acquireHostSlot re-read rather than overwrite this
+  await updateItem({
+    TableName: TABLE,
+    Key: hostKey(host),
+    UpdateExpression: 'SET backoffUntil = :backoffUntil, expiresAt = :expiresAt ADD #version :one',
+    ExpressionAttributeNames: { '#version': 'version' },
+    ExpressionAttributeValues: {
+      ':backoffUntil': backoffUntil,
+      ':expiresAt': Math.ceil((backoffUntil + REFILL_WINDOW_MS) / 1000),
+      ':one': 1,
+    },
+  });
+
+  logger.warn({ host, status: response.status, backoffMs }, 'Host asked us to back off');
+}
+
+async function sendRequest(
+  url: URL,
+  accept: string,
+  timeoutMs: number,
+  headers: Record<string, string> = {}
+): Promise<Response> {
+  const response = await fetch(url, {
+    signal: AbortSignal.timeout(timeoutMs),
+    headers: {
+      ...headers,
+      'User-Agent': USER_AGENT,
+      Accept: accept,
+    },
+  });
+  if (response.status === 429 || response.status === 503) {
+    await recordBackoff(url.host, response);
+  }
+  return response;
+}
+
+/**
+ * Fetch and store a host's robots.txt. Per RFC 9309 a 4xx means no
+ * restrictions, while a server error or no answer at all means stay away
+ * until it can be read.
+ */
+async function fetchRobots(origin: URL, limits: HostLimits, maxWaitMs: number): Promise<RobotsRecord> {
+  const host = origin.host;
+  let policy: RobotsPolicy;
+  let unreachable = false;
+
+  await acquireHostSlot(host, limits, limits.minDelayMsBetweenRequestsSameHost, maxWaitMs);
+  try {
+    const response = await sendRequest(new URL('/robots.txt', origin), 'text/plain', ROBOTS_TIMEOUT_MS);
+    if (response.ok) {
+      policy = parseRobotsTxt(await response.text(), PRODUCT_TOKEN);
+    } else if (response.status >= 400 && response.status < 500) {
+      policy = { rules: [] };
+    } else {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+  } catch (error) {
+    logger.warn(
+      { host, error: error instanceof Error ? error.message : 'Unknown' },
+      'robots.txt unreachable; treating host as disallowed'
+    );
+    policy = { rules: [{ allow: false, path: '/' }] };
+    unreachable = true;
+  }
+
+  const now = Date.now();
+  const record: RobotsRecord = {
+    ...robotsKey(host),
+    ...policy,
+    ...(unreachable && { unreachable }),
+    fetchedAt: new Date(now).toISOString(),
+    expiresAt: Math.ceil((now + (unreachable ? ROBOTS_UNREACHABLE_TTL_MS : ROBOTS_TTL_MS)) / 1000),
+  };
+  await putItem({ TableName: TABLE, Item: record });
+  return record;
+}
+
+/** The host's robots policy, from this process, the table or the host itself */
+async function getRobotsPolicy(url: URL, limits: HostLimits, maxWaitMs: number): Promise<RobotsRecord> {
+  const host = url.host;
+  const now = Date.now();
+
+  const cached = robotsCache.get(host);
+  if (cached && cached.expiresAtMs > now) {
+    return cached.policy;
+  }
+
+  // TTL deletion lags, so an expired record can still be read back
+  let policy = await getItem<RobotsRecord>({ TableName: TABLE, Key: robotsKey(host) });
+  if (!policy || policy.expiresAt * 1000 <= now) {
+    policy = await fetchRobots(new URL(url.origin), limits, maxWaitMs);
+  }
+
+  robotsCache.set(host, { policy, expiresAtMs: policy.expiresAt * 1000 });
+  return policy;
+}
+
+/**
+ * Fetch a publisher URL politely: refused if robots.txt disallows it, held
+ * back by the host's shared token bucket (and Crawl-delay, if longer than
+ * the configured spacing), and a 429 or 503 backs off every later request
+ * to the host for its Retry-After. The response is returned whatever its
+ * status; callers decide what a failure means.
+ */
+export async function politeFetch(url: string, options: PoliteFetchOptions): Promise<Response> {
+  const target = new URL(url);
+  const maxWaitMs = options.maxWaitMs ?? DEFAULT_MAX_WAIT_MS;
+
+  const robots = await getRobotsPolicy(target, options.limits, maxWaitMs);
+  if (!isAllowedByRobots(robots, target.pathname + target.search)) {
+    throw new RobotsDisallowedError(url, robots.unreachable ? 'robots.txt unreachable for' : undefined);
+  }
+
+  const minDelayMs = Math.max(options.limits.minDelayMsBetweenRequestsSameHost, robots.crawlDelayMs ?? 0);
+  await acquireHostSlot(target.host, options.limits, minDelayMs, maxWaitMs);
+  return sendRequest(target, options.accept, options.timeoutMs, options.headers);
+}
@@ -0,0 +1,218 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  validateIdempotencyKey,
+  fingerprintRequest,
+  beginIdempotentRequest,
+  completeIdempotentRequest,
+  releaseIdempotentRequest,
+} from './idempotency.js';
+import * as dynamodb from '../dynamodb.js';
+import { ValidationError, ConflictError, IdempotencyConflictError } from '../errors.js';
+
+vi.mock('../dynamodb.js', () => ({
+  getItem: vi.fn(),
+  putItem: vi.fn(),
+  updateItem: vi.fn(),
+  deleteItem: vi.fn(),
+  isConditionalCheckFailed: vi.fn(
+    (error) => (error as { name?: string })?.name === 'ConditionalCheckFailedException'
+  ),
+}));
+
+vi.mock('../config.js', () => ({
+  config: {
+    tables: {
+      idempotency: 'test-idempotency-table',
+    },
+    api: {
+      idempotencyTtlHours: 48,
+    },
+  },
+}));
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+describe('idempotency service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('validateIdempotencyKey', () => {
+    it('accepts UUIDs', () => {
+      const key = '3f2b8c1e-5d4a-4b7e-9c2f-1a2b3c4d5e6f';
+      expect(validateIdempotencyKey(key)).toBe(key);
+    });
+
+    it('rejects empty, oversized, or whitespace keys', () => {
+      expect(() => validateIdempotencyKey('')).toThrow(ValidationError);
+      expect(() => validateIdempotencyKey('a'.repeat(256))).toThrow(ValidationError);
+      expect(() => validateIdempotencyKey('has space')).toThrow(ValidationError);
+    });
+  });
+
+  describe('fingerprintRequest', () => {
+    it('ignores JSON key order and whitespace', () => {
+      const a = fingerprintRequest('POST', '/admin/cards', '{"title":"A","tags":["x","y"]}');
+      const b = fingerprintRequest('POST', '/admin/cards', '{ "tags": ["x", "y"], "title": "A" }');
+      expect(a).toBe(b);
+    });
+
+    it('differs for different bodies, paths, or methods', () => {
+      const base = fingerprintRequest('POST', '/admin/cards', '{"title":"A"}');
+      expect(fingerprintRequest('POST', '/admin/cards', '{"title":"B"}')).not.toBe(base);
+      expect(fingerprintRequest('POST', '/admin/sources', '{"title":"A"}')).not.toBe(base);
+      expect(fingerprintRequest('PUT', '/admin/cards', '{"title":"A"}')).not.toBe(base);
+    });
+
+    it('treats array order as significant', () => {
+      expect(fingerprintRequest('POST', '/p', '[1,2]')).not.toBe(fingerprintRequest('POST', '/p', '[2,1]'));
+    });
+  });
+
+  describe('beginIdempotentRequest', () => {
+    it('claims a new key with a conditional put scoped to the user', async () => {
+      vi.mocked(dynamodb.getItem).mockResolvedValueOnce(null);
+
+      const result = await beginIdempotentRequest('key-1', 'user-1', 'fp');
+
+      expect(result).toEqual({ replay: false });
+      expect(dynamodb.putItem).toHaveBeenCalledWith(
+        expect.objectContaining({
+          TableName: 'test-idempotency-table',
+          Item: expect.objectContaining({
+            PK: 'IDEMPOTENCY#user-1#key-1',
+            status: 'IN_PROGRESS',
+            requestFingerprint: 'fp',
+          }),
+          ConditionExpression: 'attribute_not_exists(PK)',
+        })
+      );
+    });
+
+    it('replays a completed response with a matching fingerprint', async () => {
+      vi.mocked(dynamodb.getItem).mockResolvedValueOnce({
+        PK: 'IDEMPOTENCY#user-1#key-1',
+        status: 'COMPLETED',
+        requestFingerprint: 'fp',
+        statusCode: 201,
+        responsePayload: '{"cardId":"c1"}',
+        createdAt: new Date().toISOString(),
+        expiresAt: nowSeconds() + 3600,
+      });
+
+      const result = await beginIdempotentRequest('key-1', 'user-1', 'fp');
+
+      expect(result).toEqual({ replay: true, statusCode: 201, headers: {}, body: '{"cardId":"c1"}' });
+      expect(dynamodb.putItem).not.toHaveBeenCalled();
+    });
+
+    it('replays the stored response headers', async () => {
+      vi.mocked(dynamodb.getItem).mockResolvedValueOnce({
+        status: 'COMPLETED',
+        requestFingerprint: 'fp',
+        statusCode: 200,
+        responsePayload: '{"cardId":"c1"}',
+        responseHeaders: { 'Content-Type': 'application/json', ETag: '"3"' },
+        createdAt: new Date().toISOString(),
+        expiresAt: nowSeconds() + 3600,
+      });
+
+      const result = await beginIdempotentRequest('key-1', 'user-1', 'fp');
+
+      expect(result).toMatchObject({ replay: true, headers: { ETag: '"3"' } });
+    });
+
+    it('rejects a reused key with a different fingerprint', async () => {
+      vi.mocked(dynamodb.getItem).mockResolvedValueOnce({
+        status: 'COMPLETED',
+        requestFingerprint: 'other',
+        createdAt: new Date().toISOString(),
+        expiresAt: nowSeconds() + 3600,
+      });
+
+      await expect(beginIdempotentRequest('key-1', 'user-1', 'fp')).rejects.toThrow(
+        IdempotencyConflictError
+      );
+    });
+
+    it('rejects while the first attempt is still in progress', async () => {
+      vi.mocked(dynamodb.getItem).mockResolvedValueOnce({
+        status: 'IN_PROGRESS',
+        requestFingerprint: 'fp',
+        createdAt: new Date().toISOString(),
+        expiresAt: nowSeconds() + 3600,
+      });
+
+      await expect(beginIdempotentRequest('key-1', 'user-1', 'fp')).rejects.toThrow(ConflictError);
+    });
+
+    it('takes over an abandoned in-progress attempt', async () => {
+      const staleCreatedAt = new Date(Date.now() - 5 * 60_000).toISOString();
+      vi.mocked(dynamodb.getItem).mockResolvedValueOnce({
+        status: 'IN_PROGRESS',
+        requestFingerprint: 'fp',
+        createdAt: staleCreatedAt,
+        expiresAt: nowSeconds() + 3600,
+      });
+
+      const result = await beginIdempotentRequest('key-1', 'user-1', 'fp');
+
+      expect(result).toEqual({ replay: false });
+      expect(dynamodb.putItem).toHaveBeenCalledWith(
+        expect.objectContaining({
+          ConditionExpression: 'createdAt = :createdAt',
+          ExpressionAttributeValues: { ':createdAt': staleCreatedAt },
+        })
+      );
+    });
+
+    it('ignores expired records awaiting TTL deletion', async () => {
+      vi.mocked(dynamodb.getItem).mockResolvedValueOnce({
+        status: 'COMPLETED',
+        requestFingerprint: 'other',
+        createdAt: '2020-01-01T00:00:00Z',
+        expiresAt: nowSeconds() - 10,
+      });
+
+      const result = await beginIdempotentRequest('key-1', 'user-1', 'fp');
+
+      expect(result).toEqual({ replay: false });
+    });
+
+    it('maps a lost race on the claim to ConflictError', async () => {
+      vi.mocked(dynamodb.getItem).mockResolvedValueOnce(null);
+      const conditionalError = new Error('The conditional request failed');
+      conditionalError.name = 'ConditionalCheckFailedException';
+      vi.mocked(dynamodb.putItem).mockRejectedValueOnce(conditionalError);
+
+      await expect(beginIdempotentRequest('key-1', 'user-1', 'fp')).rejects.toThrow(ConflictError);
+    });
+  });
+
+  describe('completeIdempotentRequest / releaseIdempotentRequest', () => {
+    it('stores the response on completion', async () => {
+      await completeIdempotentRequest('key-1', 'user-1', 201, '{"ok":true}', { ETag: '"1"' });
+
+      expect(dynamodb.updateItem).toHaveBeenCalledWith(
+        expect.objectContaining({
+          Key: { PK: 'IDEMPOTENCY#user-1#key-1' },
+          ExpressionAttributeValues: {
+            ':status': 'COMPLETED',
+            ':statusCode': 201,
+            ':payload': '{"ok":true}',
+            ':headers': { ETag: '"1"' },
+          },
+        })
+      );
+    });
+
+    it('deletes the claim on release', async () => {
+      await releaseIdempotentRequest('key-1', 'user-1');
+
+      expect(dynamodb.deleteItem).toHaveBeenCalledWith({
+        TableName: 'test-idempotency-table',
+        Key: { PK: 'IDEMPOTENCY#user-1#key-1' },
+      });
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import { createHash } from 'crypto';
+import type { IdempotencyRecord } from '@ledger/shared';
+import { config } from '../config.js';
+import { getItem, putItem, updateItem, deleteItem, isConditionalCheckFailed } from '../dynamodb.js';
+import { ValidationError, ConflictError, IdempotencyConflictError } from '../errors.js';
+
+const TABLE = config.tables.idempotency;
+
+// Printable ASCII, no spaces; UUIDs and most client-generated keys fit
+const KEY_PATTERN = /^[\x21-\x7E]{1,255}$/;
+
+// An IN_PROGRESS record older than this is treated as abandoned (the API
+// Lambda times out at 30s), so a retry may take it over.
+const IN_PROGRESS_TIMEOUT_MS = 60_000;
+
+export type IdempotencyResult =
+  | { replay: false }
+  | { replay: true; statusCode: number; headers: Record<string, string>; body: string };
+
+function recordKey(actorUserId: string, idempotencyKey: string): { PK: string } {
+  // Keys are scoped per user so two admins can't collide on a key
+  return { PK: `IDEMPOTENCY#${actorUserId}#${idempotencyKey}` };
+}
+
+/** Validate a client-supplied Idempotency-Key header value */
+export function validateIdempotencyKey(key: string): string {
+  if (!KEY_PATTERN.test(key)) {
+    throw new ValidationError(
+      'Idempotency-Key must be 1-255 printable ASCII characters without spaces'
+    );
+  }
+  return key;
+}
+
+/** Serialize JSON with sorted object keys so key order doesn't change the fingerprint */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${canonicalJson((value as Record<string, unknown>)[k])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Fingerprint a request from its method, path and body.
+ * JSON bodies are canonicalized; anything else is hashed verbatim.
+ */
+export function fingerprintRequest(method: string, path: string, body?: string): string {
+  let normalizedBody = body ?? '';
+  if (body) {
+    try {
+      normalizedBody = canonicalJson(JSON.parse(body));
+    } catch {
+      // Not JSON - hash the raw body
+    }
+  }
+  return createHash('sha256')
+    .update(`${method} ${path}\n${normalizedBody}`)
+    .digest('hex');
+}
+
+/**
+ * Claim an idempotency key before running a mutation.
+ * Returns the stored response when the key has already completed with the
+ * same fingerprint. Throws IdempotencyConflictError when the key was used for
+ * a different request, and ConflictError while the first attempt is running.
+ */
+export async function beginIdempotentRequest(
+  idempotencyKey: string,
+  actorUserId: string,
+  requestFingerprint: string
+): Promise<IdempotencyResult> {
+  const key = recordKey(actorUserId, idempotencyKey);
+  const now = new Date();
+  const nowSeconds = Math.floor(now.getTime() / 1000);
+
+  const existing = await getItem<IdempotencyRecord & { PK: string }>({
+    TableName: TABLE,
+    Key: key,
+  });
+
+  // TTL deletion is lazy, so expired records may still be returned
+  const live = existing && existing.expiresAt > nowSeconds ? existing : null;
+
+  if (live) {
+    if (live.requestFingerprint !== requestFingerprint) {
+      throw new IdempotencyConflictError();
+    }
+    if (live.status === 'COMPLETED') {
+      return {
+        replay: true,
+        statusCode: live.statusCode!,
+        headers: live.responseHeaders ?? {},
+        body: live.responsePayload!,
+      };
+    }
+    if (now.getTime() - new Date(live.createdAt).getTime() < IN_PROGRESS_TIMEOUT_MS) {
+      throw new ConflictError('A request with this Idempotency-Key is still being processed');
+    }
+  }
+
+  const record: IdempotencyRecord = {
+    idempotencyKey,
+    status: 'IN_PROGRESS',
+    createdAt: now.toISOString(),
+    expiresAt: nowSeconds + config.api.idempotencyTtlHours * 3600,
+    requestFingerprint,
+    actorUserId,
+  };
+
+  try {
+    await putItem({
+      TableName: TABLE,
+      Item: { ...key, ...record },
+      // Either the key is new (or expired), or we are taking over the exact
+      // abandoned attempt we just read
+      ...(existing
+        ? {
+            ConditionExpression: 'createdAt = :createdAt',
+            ExpressionAttributeValues: { ':createdAt': existing.createdAt },
+          }
+        : { ConditionExpression: 'attribute_not_exists(PK)' }),
+    });
+  } catch (error) {
+    if (isConditionalCheckFailed(error)) {
+      throw new ConflictError('A request with this Idempotency-Key is still being processed');
+    }
+    throw error;
+  }
+
+  return { replay: false };
+}
+
+/**
+ * Store the successful response so retries with the same key replay it.
+ * Headers are kept too: a retrying client needs the ETag for its next
+ * conditional update.
+ */
+export async function completeIdempotentRequest(
+  idempotencyKey: string,
+  actorUserId: string,
+  statusCode: number,
+  responsePayload: string,
+  responseHeaders: Record<string, string> = {}
+): Promise<void> {
+  await updateItem({
+    TableName: TABLE,
+    Key: recordKey(actorUserId, idempotencyKey),
+    UpdateExpression:
+      'SET #status = :status, statusCode = :statusCode, responsePayload = :payload, responseHeaders = :headers',
+    ExpressionAttributeNames: { '#status': 'status' },
+    ExpressionAttributeValues: {
+      ':status': 'COMPLETED',
+      ':statusCode': statusCode,
+      ':payload': responsePayload,
+      ':headers': responseHeaders,
+    },
+  });
+}
+
+/**
+ * Drop the claim after a failed attempt.
+ * Only successes are replayed; a failed request can be retried with the same key.
+ */
+export async function releaseIdempotentRequest(
+  idempotencyKey: string,
+  actorUserId: string
+): Promise<void> {
+  await deleteItem({
+    TableName: TABLE,
+    Key: recordKey(actorUserId, idempotencyKey),
+  });
+}
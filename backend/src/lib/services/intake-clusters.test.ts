@@ -0,0 +1,208 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { IntakeItem, SuggestedEntity } from '@ledger/shared';
+import { clusterRecentIntake, getIntakeCluster, isSameStory, sketchIntakeItem } from './intake-clusters.js';
+import * as dynamodb from '../dynamodb.js';
+import { NotFoundError } from '../errors.js';
+import { makeIntakeItem } from '../../test-utils/fixtures.js';
+
+vi.mock('../dynamodb.js', () => ({
+  getItem: vi.fn(),
+  putItem: vi.fn(() => Promise.resolve()),
+  updateItem: vi.fn(() => Promise.resolve({})),
+  deleteItem: vi.fn(() => Promise.resolve()),
+  queryItems: vi.fn(),
+  isConditionalCheckFailed: vi.fn(() => false),
+  stripKeys: vi.fn((item) => {
+    const rest = { ...item };
+    delete rest.PK;
+    delete rest.SK;
+    return rest;
+  }),
+}));
+
+vi.mock('./intake.js', () => ({
+  getIntakeItemByKey: vi.fn(),
+}));
+
+vi.mock('../config.js', () => ({
+  config: {
+    tables: {
+      intake: 'test-intake-table',
+    },
+  },
+}));
+
+function entity(extractedName: string, suggestedType: SuggestedEntity['suggestedType']): SuggestedEntity {
+  return { extractedName, suggestedType, confidence: 0.9 } as SuggestedEntity;
+}
+
+// Extracted items from the morning's ingest
+function extractedItem(overrides: Partial<IntakeItem>): IntakeItem {
+  return makeIntakeItem({
+    publishedAt: '2024-03-05T15:00:00.000Z',
+    ingestedAt: '2024-03-06T06:00:00.000Z',
+    extractionStatus: 'COMPLETED',
+    ...overrides,
+  });
+}
+
+const ftc = extractedItem({
+  intakeId: 'intake-ftc',
+  feedId: 'ftc_press_releases',
+  title: 'Acme Corp. to Pay $5 Million to Settle FTC Charges Over Deceptive Subscription Billing',
+  summary: 'Acme Corp. will pay $5 million to settle charges that it billed consumers for subscriptions they never agreed to.',
+  suggestedEntities: [entity('Acme Corp.', 'CORPORATION'), entity('Federal Trade Commission', 'AGENCY')],
+});
+
+const doj = extractedItem({
+  intakeId: 'intake-doj',
+  feedId: 'doj_press_releases',
+  publishedAt: '2024-03-06T14:00:00.000Z',
+  title: 'Justice Department Secures $5 Million Settlement with Acme Corporation',
+  summary: 'Acme Corporation agreed to pay $5 million to resolve allegations that it charged consumers for subscriptions without their consent.',
+  suggestedEntities: [entity('Acme Corporation', 'CORPORATION'), entity('Department of Justice', 'AGENCY')],
+});
+
+const merger = extractedItem({
+  intakeId: 'intake-merger',
+  feedId: 'sec_litigation',
+  title: 'SEC Charges Former Acme Executives with Insider Trading Ahead of Merger',
+  summary: 'Two former Acme Corp. officers traded on confidential information about its acquisition of Widget Co.',
+  suggestedEntities: [entity('Acme Corp.', 'CORPORATION'), entity('Widget Co.', 'CORPORATION')],
+});
+
+function stored(item: IntakeItem): IntakeItem & { PK: string; SK: string } {
+  return { PK: `FEED#${item.feedId}`, SK: `TS#${item.publishedAt}#${item.intakeId}`, ...item };
+}
+
+// Recent items by status, as the GSI1 queries return them
+function mockRecent(newItems: IntakeItem[], promoted: IntakeItem[] = []): void {
+  vi.mocked(dynamodb.queryItems)
+    .mockResolvedValueOnce({ items: newItems.map(stored) })
+    .mockResolvedValueOnce({ items: promoted.map(stored) });
+}
+
+describe('intake clusters', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(dynamodb.getItem).mockResolvedValue(null);
+  });
+
+  describe('isSameStory', () => {
+    it('matches two agencies announcing the same settlement', () => {
+      expect(isSameStory(sketchIntakeItem(ftc), sketchIntakeItem(doj))).toBe(true);
+    });
+
+    it('keeps apart different stories about the same company', () => {
+      expect(isSameStory(sketchIntakeItem(ftc), sketchIntakeItem(merger))).toBe(false);
+    });
+
+    it('never matches items from the same feed', () => {
+      expect(isSameStory(sketchIntakeItem(ftc), sketchIntakeItem({ ...doj, feedId: ftc.feedId }))).toBe(false);
+    });
+
+    it('never matches items published more than a week apart', () => {
+      expect(isSameStory(sketchIntakeItem(ftc), sketchIntakeItem({ ...doj, publishedAt: '2024-03-14T14:00:00.000Z' }))).toBe(
+        false
+      );
+    });
+
+    it('needs near-identical text before extraction', () => {
+      const unextracted = (item: IntakeItem) => sketchIntakeItem({ ...item, extractionStatus: undefined });
+      const syndicated = { ...ftc, intakeId: 'intake-copy', feedId: 'consumer_news', summary: `${ftc.summary} Read more.` };
+
+      expect(isSameStory(unextracted(ftc), unextracted(doj))).toBe(false);
+      expect(isSameStory(unextracted(ftc), unextracted(syndicated))).toBe(true);
+    });
+  });
+
+  describe('clusterRecentIntake', () => {
+    it('groups matching items into a new cluster and tags each member', async () => {
+      mockRecent([ftc, merger], [doj]);
+
+      const result = await clusterRecentIntake(Date.parse('2024-03-07T00:00:00Z'));
+
+      expect(result).toEqual({ items: 3, clustersUpdated: 1 });
+      expect(dynamodb.queryItems).toHaveBeenCalledWith(
+        expect.objectContaining({
+          IndexName: 'GSI1',
+          ExpressionAttributeValues: { ':pk': 'STATUS#NEW', ':since': 'TS#2024-02-22T00:00:00.000Z' },
+        })
+      );
+
+      const record = vi.mocked(dynamodb.putItem).mock.calls[0][0].Item!;
+      expect(record).toMatchObject({
+        PK: `CLUSTER#${record.clusterId}`,
+        SK: 'META',
+        members: [
+          { intakeId: 'intake-ftc', feedId: 'ftc_press_releases', publishedAt: ftc.publishedAt },
+          { intakeId: 'intake-doj', feedId: 'doj_press_releases', publishedAt: doj.publishedAt },
+        ],
+      });
+      expect(vi.mocked(dynamodb.updateItem).mock.calls.map(([params]) => params.Key)).toEqual([
+        { PK: 'FEED#ftc_press_releases', SK: `TS#${ftc.publishedAt}#intake-ftc` },
+        { PK: 'FEED#doj_press_releases', SK: `TS#${doj.publishedAt}#intake-doj` },
+      ]);
+      expect(dynamodb.updateItem).toHaveBeenCalledWith(
+        expect.objectContaining({ ExpressionAttributeValues: { ':clusterId': record.clusterId } })
+      );
+    });
+
+    it('adds a late report to the existing cluster under its ID', async () => {
+      const members = [
+        { intakeId: 'intake-ftc', feedId: ftc.feedId, publishedAt: ftc.publishedAt },
+        { intakeId: 'intake-doj', feedId: doj.feedId, publishedAt: doj.publishedAt },
+      ];
+      vi.mocked(dynamodb.getItem).mockResolvedValueOnce({
+        PK: 'CLUSTER#cluster-1',
+        SK: 'META',
+        clusterId: 'cluster-1',
+        members,
+        createdAt: '2024-03-06T07:00:00.000Z',
+        updatedAt: '2024-03-06T07:00:00.000Z',
+      });
+      const late = { ...doj, intakeId: 'intake-late', feedId: 'consumer_news', summary: `${doj.summary} Read more.` };
+      mockRecent([late, { ...ftc, clusterId: 'cluster-1' }], [{ ...doj, clusterId: 'cluster-1', status: 'PROMOTED' }]);
+
+      await clusterRecentIntake(Date.parse('2024-03-07T00:00:00Z'));
+
+      expect(dynamodb.updateItem).toHaveBeenCalledTimes(1);
+      expect(dynamodb.updateItem).toHaveBeenCalledWith(
+        expect.objectContaining({
+          Key: { PK: 'FEED#consumer_news', SK: `TS#${late.publishedAt}#intake-late` },
+          ExpressionAttributeValues: { ':clusterId': 'cluster-1' },
+        })
+      );
+      expect(vi.mocked(dynamodb.putItem).mock.calls[0][0].Item).toMatchObject({
+        clusterId: 'cluster-1',
+        createdAt: '2024-03-06T07:00:00.000Z',
+        members: [...members, { intakeId: 'intake-late', feedId: 'consumer_news', publishedAt: late.publishedAt }],
+      });
+    });
+
+    it('leaves clusters alone when nothing has changed', async () => {
+      vi.mocked(dynamodb.getItem).mockResolvedValueOnce({
+        PK: 'CLUSTER#cluster-1',
+        SK: 'META',
+        clusterId: 'cluster-1',
+        members: [
+          { intakeId: 'intake-ftc', feedId: ftc.feedId, publishedAt: ftc.publishedAt },
+          { intakeId: 'intake-doj', feedId: doj.feedId, publishedAt: doj.publishedAt },
+        ],
+      });
+      mockRecent([{ ...ftc, clusterId: 'cluster-1' }, { ...doj, clusterId: 'cluster-1' }]);
+
+      const result = await clusterRecentIntake(Date.parse('2024-03-07T00:00:00Z'));
+
+      expect(result.clustersUpdated).toBe(0);
+      expect(dynamodb.putItem).not.toHaveBeenCalled();
+      expect(dynamodb.updateItem).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getIntakeCluster', () => {
+    it('throws NotFoundError for an unknown cluster', async () => {
+      await expect(getIntakeCluster('cluster-missing')).rejects.toThrow(NotFoundError);
+    });
+  });
+});
@@ -0,0 +1,313 @@
+import { ulid } from 'ulid';
+import type {
+  IntakeCluster,
+  IntakeClusterMember,
+  IntakeClusterResponse,
+  IntakeItem,
+  IntakeStatus,
+} from '@ledger/shared';
+import { config } from '../config.js';
+import { deleteItem, getItem, putItem, queryItems, stripKeys, updateItem, isConditionalCheckFailed } from '../dynamodb.js';
+import { NotFoundError } from '../errors.js';
+import { logger } from '../logger.js';
+import { estimateSimilarity, minhash, tokenize } from '../minhash.js';
+import { getIntakeItemByKey } from './intake.js';
+
+// The same settlement is often announced by DOJ, FTC and SEC under different
+// URLs, so URL dedupe lets all of them in. This pass groups such items into
+// story clusters, kept as CLUSTER#{clusterId} records in the intake table
+// with clusterId set on each member.
+
+const TABLE = config.tables.intake;
+
+// Items ingested or promoted this recently are compared with each other
+const CLUSTER_WINDOW_DAYS = 14;
+
+// Announcements of one event rarely land further apart than this
+const MAX_PUBLISHED_APART_DAYS = 7;
+
+// Agencies' releases share boilerplate, so text alone is only trusted when
+// it is very close; otherwise the items must also name a common subject
+const TEXT_ONLY_SIMILARITY = 0.5;
+const WITH_SUBJECT_SIMILARITY = 0.2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Dropped from entity names so "Acme Corp." and "Acme Corporation" match
+const NAME_SUFFIXES = new Set(['inc', 'corp', 'corporation', 'co', 'company', 'llc', 'ltd', 'lp', 'plc', 'na']);
+
+/** What clustering compares an item by */
+export interface StorySketch {
+  feedId: string;
+  publishedAtMs: number;
+  signature: number[];
+  // Entities the story is about (agencies excluded); undefined before extraction
+  subjects?: Set<string>;
+}
+
+function clusterKey(clusterId: string): { PK: string; SK: string } {
+  return { PK: `CLUSTER#${clusterId}`, SK: 'META' };
+}
+
+function itemKey(member: IntakeClusterMember): { PK: string; SK: string } {
+  return { PK: `FEED#${member.feedId}`, SK: `TS#${member.publishedAt}#${member.intakeId}` };
+}
+
+function memberOf(item: IntakeItem): IntakeClusterMember {
+  return { intakeId: item.intakeId, feedId: item.feedId, publishedAt: item.publishedAt };
+}
+
+function entityKey(name: string): string {
+  return tokenize(name)
+    .filter((token) => !NAME_SUFFIXES.has(token))
+    .join(' ');
+}
+
+export function sketchIntakeItem(item: IntakeItem): StorySketch {
+  const entities = item.extractionStatus === 'COMPLETED' ? item.suggestedEntities ?? [] : undefined;
+
+  const features = new Set(tokenize([item.title, item.summary, item.extractedSummary].filter(Boolean).join(' ')));
+  const subjects = entities && new Set<string>();
+  for (const entity of entities ?? []) {
+    const key = entity.matchedEntityId ?? entityKey(entity.extractedName);
+    if (!key) continue;
+    features.add(`entity:${key}`);
+    if (entity.suggestedType !== 'AGENCY') {
+      subjects!.add(key);
+    }
+  }
+
+  return {
+    feedId: item.feedId,
+    publishedAtMs: Date.parse(item.publishedAt),
+    signature: minhash(features),
+    subjects,
+  };
+}
+
+/**
+ * Whether two items report the same story. Items from one feed never do;
+ * a feed doesn't announce the same event twice under different URLs.
+ */
+export function isSameStory(a: StorySketch, b: StorySketch): boolean {
+  if (a.feedId === b.feedId || Math.abs(a.publishedAtMs - b.publishedAtMs) > MAX_PUBLISHED_APART_DAYS * DAY_MS) {
+    return false;
+  }
+
+  const similarity = estimateSimilarity(a.signature, b.signature);
+  if (a.subjects && b.subjects) {
+    const shared = [...a.subjects].some((subject) => b.subjects!.has(subject));
+    return shared && similarity >= WITH_SUBJECT_SIMILARITY;
+  }
+  return similarity >= TEXT_ONLY_SIMILARITY;
+}
+
+async function listRecentIntake(status: IntakeStatus, since: string): Promise<IntakeItem[]> {
+  const items: IntakeItem[] = [];
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+
+  do {
+    const page = await queryItems<IntakeItem & { PK: string; SK: string }>({
+      TableName: TABLE,
+      IndexName: 'GSI1',
+      KeyConditionExpression: 'GSI1PK = :pk AND GSI1SK >= :since',
+      ExpressionAttributeValues: {
+        ':pk': `STATUS#${status}`,
+        ':since': `TS#${since}`,
+      },
+      ExclusiveStartKey: exclusiveStartKey,
+    });
+    items.push(...page.items.map((item) => stripKeys(item) as IntakeItem));
+    exclusiveStartKey = page.lastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return items;
+}
+
+async function getClusterRecord(clusterId: string): Promise<IntakeCluster | null> {
+  const stored = await getItem<IntakeCluster & { PK: string; SK: string }>({
+    TableName: TABLE,
+    Key: clusterKey(clusterId),
+  });
+  return stored ? stripKeys(stored) : null;
+}
+
+async function setClusterId(member: IntakeClusterMember, clusterId: string): Promise<void> {
+  await updateItem({
+    TableName: TABLE,
+    Key: itemKey(member),
+    UpdateExpression: 'SET clusterId = :clusterId',
+    ConditionExpression: 'attribute_exists(PK)',
+    ExpressionAttributeValues: { ':clusterId': clusterId },
+  });
+}
+
+// The ID most of the group already carries, so clusters keep their IDs as they grow
+function pickClusterId(group: IntakeItem[]): string | undefined {
+  const counts = new Map<string, number>();
+  for (const item of group) {
+    if (item.clusterId) {
+      counts.set(item.clusterId, (counts.get(item.clusterId) ?? 0) + 1);
+    }
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))[0]?.[0];
+}
+
+/**
+ * Save one group as a cluster: the chosen cluster absorbs any others the
+ * group touches, including their members outside the window.
+ */
+async function saveCluster(group: IntakeItem[]): Promise<boolean> {
+  const clusterId = pickClusterId(group) ?? ulid();
+  const existing = await getClusterRecord(clusterId);
+
+  const members = new Map<string, IntakeClusterMember>();
+  for (const member of existing?.members ?? []) {
+    members.set(member.intakeId, member);
+  }
+  const before = members.size;
+
+  const retag: IntakeClusterMember[] = group.filter((item) => item.clusterId !== clusterId).map(memberOf);
+
+  const absorbed = new Set(group.map((item) => item.clusterId).filter((id): id is string => !!id && id !== clusterId));
+  for (const absorbedId of absorbed) {
+    const record = await getClusterRecord(absorbedId);
+    for (const member of record?.members ?? []) {
+      if (!group.some((item) => item.intakeId === member.intakeId)) {
+        retag.push(member);
+      }
+      members.set(member.intakeId, member);
+    }
+  }
+  for (const item of group) {
+    members.set(item.intakeId, memberOf(item));
+  }
+
+  if (members.size === before && retag.length === 0) {
+    return false;
+  }
+
+  for (const member of retag) {
+    try {
+      await setClusterId(member, clusterId);
+    } catch (error) {
+      // Deleted since; reading the cluster skips it
+      if (!isConditionalCheckFailed(error)) {
+        throw error;
+      }
+    }
+  }
+
+  const now = new Date().toISOString();
+  const cluster: IntakeCluster = {
+    clusterId,
+    members: [...members.values()].sort((a, b) => a.publishedAt.localeCompare(b.publishedAt)),
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+  await putItem({ TableName: TABLE, Item: { ...clusterKey(clusterId), ...cluster } });
+
+  for (const absorbedId of absorbed) {
+    await deleteItem({ TableName: TABLE, Key: clusterKey(absorbedId) });
+  }
+  return true;
+}
+
+/**
+ * Group recent NEW and PROMOTED items into story clusters. Promoted items
+ * are included so later reports of a story already on a card join its
+ * cluster. Clusters only grow; an item is never taken out of one.
+ */
+export async function clusterRecentIntake(now = Date.now()): Promise<{ items: number; clustersUpdated: number }> {
+  const since = new Date(now - CLUSTER_WINDOW_DAYS * DAY_MS).toISOString();
+  const items = [...(await listRecentIntake('NEW', since)), ...(await listRecentIntake('PROMOTED', since))];
+  const sketches = items.map(sketchIntakeItem);
+
+  // Union-find over item positions, seeded with the clusters already stored
+  const parent = items.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const union = (i: number, j: number): void => {
+    parent[find(i)] = find(j);
+  };
+
+  const byClusterId = new Map<string, number>();
+  items.forEach((item, i) => {
+    if (item.clusterId) {
+      const first = byClusterId.get(item.clusterId);
+      if (first === undefined) {
+        byClusterId.set(item.clusterId, i);
+      } else {
+        union(i, first);
+      }
+    }
+  });
+
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      if (find(i) !== find(j) && isSameStory(sketches[i], sketches[j])) {
+        union(i, j);
+      }
+    }
+  }
+
+  const groups = new Map<number, IntakeItem[]>();
+  items.forEach((item, i) => {
+    const root = find(i);
+    const group = groups.get(root);
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(root, [item]);
+    }
+  });
+
+  let clustersUpdated = 0;
+  for (const group of groups.values()) {
+    if (group.length > 1 && (await saveCluster(group))) {
+      clustersUpdated++;
+    }
+  }
+
+  logger.info({ items: items.length, clustersUpdated }, 'Clustered recent intake items');
+  return { items: items.length, clustersUpdated };
+}
+
+async function readMembers(cluster: IntakeCluster): Promise<IntakeItem[]> {
+  const items: IntakeItem[] = [];
+  for (const member of cluster.members) {
+    try {
+      items.push(await getIntakeItemByKey(member.feedId, member.publishedAt, member.intakeId));
+    } catch (error) {
+      if (!(error instanceof NotFoundError)) {
+        throw error;
+      }
+    }
+  }
+  return items;
+}
+
+/** Every item in a cluster, as currently stored */
+export async function getClusterItems(clusterId: string): Promise<IntakeItem[]> {
+  const cluster = await getClusterRecord(clusterId);
+  return cluster ? readMembers(cluster) : [];
+}
+
+export async function getIntakeCluster(clusterId: string): Promise<IntakeClusterResponse> {
+  const cluster = await getClusterRecord(clusterId);
+  if (!cluster) {
+    throw new NotFoundError('Intake cluster', clusterId);
+  }
+  return { cluster, items: await readMembers(cluster) };
+}
+
+/**
+ * The cluster member whose promotion already covers this item's story, if
+ * any; it may be the item itself when it was promoted with its cluster.
+ */
+export async function findPromotedClusterMember(item: IntakeItem): Promise<IntakeItem | undefined> {
+  if (!item.clusterId) {
+    return undefined;
+  }
+  const promoted = (await getClusterItems(item.clusterId)).filter((member) => member.status === 'PROMOTED');
+  return promoted.find((member) => member.intakeId === item.intakeId) ?? promoted[0];
+}
@@ -0,0 +1,280 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { IntakeFeed, IntakeRailsConfig } from '@ledger/shared';
+import {
+  getIntakeRails,
+  listFeeds,
+  createFeed,
+  updateFeed,
+  updateIntakeRails,
+} from './intake-feeds.js';
+import * as dynamodb from '../dynamodb.js';
+import { ConflictError, NotFoundError, ValidationError, VersionConflictError } from '../errors.js';
+import feedsConfig from '../../config/feeds.json' with { type: 'json' };
+
+vi.mock('../dynamodb.js', () => ({
+  getItem: vi.fn(),
+  putItem: vi.fn(),
+  queryItems: vi.fn(),
+  isConditionalCheckFailed: vi.fn(
+    (error) => (error as { name?: string })?.name === 'ConditionalCheckFailedException'
+  ),
+  stripKeys: vi.fn((item) => {
+    const rest = { ...item };
+    delete rest.PK;
+    delete rest.SK;
+    return rest;
+  }),
+}));
+
+vi.mock('../config.js', () => ({
+  config: {
+    tables: {
+      config: 'test-config-table',
+      intake: 'test-intake-table',
+    },
+  },
+}));
+
+function conditionalCheckFailed(): Error {
+  const error = new Error('The conditional request failed');
+  error.name = 'ConditionalCheckFailedException';
+  return error;
+}
+
+const storedRails: IntakeRailsConfig = {
+  ...feedsConfig.globalRails,
+  allowedDomains: ['www.ftc.gov', 'www.osha.gov'],
+  version: 3,
+  updatedAt: '2024-03-01T00:00:00Z',
+  updatedBy: 'admin-1',
+};
+
+const storedFeed: IntakeFeed = {
+  id: 'ftc_press_releases',
+  publisher: 'FTC',
+  name: 'FTC Press Releases',
+  url: 'https://www.ftc.gov/feeds/press-release.xml',
+  defaultTags: ['enforcement'],
+  perFeedCap: 5,
+  enabled: true,
+  version: 2,
+  createdAt: '2024-01-01T00:00:00Z',
+  createdBy: 'seed',
+  updatedAt: '2024-02-01T00:00:00Z',
+  updatedBy: 'admin-1',
+};
+
+const listingFeed = {
+  id: 'osha_news_releases',
+  kind: 'html' as const,
+  publisher: 'OSHA',
+  name: 'OSHA News Releases',
+  url: 'https://www.osha.gov/news/newsreleases',
+  listing: { item: 'div.views-row', link: 'h2 a' },
+  defaultTags: [],
+  perFeedCap: 5,
+  enabled: true,
+};
+
+// Rails lookups return the stored rails; feed lookups the given feed
+function mockStore(feed: IntakeFeed | null = storedFeed) {
+  vi.mocked(dynamodb.getItem).mockImplementation(async (params) => {
+    const key = params.Key as { PK: string; SK: string };
+    if (key.PK === 'INTAKE_RAILS') {
+      return { PK: key.PK, SK: key.SK, ...storedRails };
+    }
+    return feed && key.SK === `FEED#${feed.id}` ? { PK: key.PK, SK: key.SK, ...feed } : null;
+  });
+}
+
+describe('intake feeds service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(dynamodb.putItem).mockResolvedValue(undefined);
+  });
+
+  describe('getIntakeRails', () => {
+    it('returns the stored rails', async () => {
+      mockStore();
+
+      const rails = await getIntakeRails();
+
+      expect(rails).toEqual(storedRails);
+      expect(dynamodb.putItem).not.toHaveBeenCalled();
+    });
+
+    it('seeds feeds and rails from feeds.json when the store is empty', async () => {
+      vi.mocked(dynamodb.getItem).mockResolvedValueOnce(null);
+
+      const rails = await getIntakeRails();
+
+      expect(rails).toMatchObject({ ...feedsConfig.globalRails, version: 1, updatedBy: 'seed' });
+      const puts = vi.mocked(dynamodb.putItem).mock.calls.map(([params]) => params);
+      expect(puts.map((p) => p.Item!.SK)).toEqual([
+        ...feedsConfig.feeds.map((feed) => `FEED#${feed.id}`),
+        'CURRENT',
+      ]);
+      expect(puts.every((p) => p.ConditionExpression === 'attribute_not_exists(PK)')).toBe(true);
+      expect(puts[0].Item).toMatchObject({ ...feedsConfig.feeds[0], version: 1, createdBy: 'seed' });
+    });
+
+    it('keeps records written by a concurrent seed', async () => {
+      vi.mocked(dynamodb.getItem)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ PK: 'INTAKE_RAILS', SK: 'CURRENT', ...storedRails });
+      vi.mocked(dynamodb.putItem).mockRejectedValue(conditionalCheckFailed());
+
+      const rails = await getIntakeRails();
+
+      expect(rails).toEqual(storedRails);
+    });
+  });
+
+  describe('listFeeds', () => {
+    it('pages through every stored feed', async () => {
+      mockStore();
+      vi.mocked(dynamodb.queryItems)
+        .mockResolvedValueOnce({
+          items: [{ PK: 'INTAKE_FEED', SK: `FEED#${storedFeed.id}`, ...storedFeed }],
+          lastEvaluatedKey: { PK: 'INTAKE_FEED', SK: `FEED#${storedFeed.id}` },
+        })
+        .mockResolvedValueOnce({ items: [] });
+
+      const feeds = await listFeeds();
+
+      expect(feeds).toEqual([storedFeed]);
+      expect(dynamodb.queryItems).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('createFeed', () => {
+    it('stores a new feed at version 1', async () => {
+      mockStore();
+
+      const feed = await createFeed(listingFeed, 'admin-2');
+
+      expect(feed).toMatchObject({ ...listingFeed, version: 1, createdBy: 'admin-2', updatedBy: 'admin-2' });
+      expect(dynamodb.putItem).toHaveBeenCalledWith(
+        expect.objectContaining({
+          TableName: 'test-config-table',
+          Item: expect.objectContaining({ PK: 'INTAKE_FEED', SK: 'FEED#osha_news_releases' }),
+          ConditionExpression: 'attribute_not_exists(PK)',
+        })
+      );
+    });
+
+    it('rejects a URL outside the allowed domains', async () => {
+      mockStore();
+
+      await expect(
+        createFeed({ ...listingFeed, url: 'https://www.dol.gov/newsroom/releases' }, 'admin-2')
+      ).rejects.toThrow('Feed URL is not on an allowed domain: www.dol.gov');
+      expect(dynamodb.putItem).not.toHaveBeenCalled();
+    });
+
+    it('rejects listing selectors it cannot parse', async () => {
+      mockStore();
+
+      await expect(
+        createFeed({ ...listingFeed, listing: { item: 'div.views-row', link: 'h2 a:hover' } }, 'admin-2')
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('requires selectors for HTML listing feeds', async () => {
+      mockStore();
+
+      await expect(createFeed({ ...listingFeed, listing: undefined }, 'admin-2')).rejects.toThrow(
+        'HTML listing feeds need listing selectors'
+      );
+    });
+
+    it('throws ConflictError for an ID that is taken', async () => {
+      mockStore();
+      vi.mocked(dynamodb.putItem).mockRejectedValueOnce(conditionalCheckFailed());
+
+      await expect(createFeed(listingFeed, 'admin-2')).rejects.toThrow(ConflictError);
+    });
+  });
+
+  describe('updateFeed', () => {
+    it('applies the edit under a version condition', async () => {
+      mockStore();
+
+      const feed = await updateFeed(storedFeed.id, { enabled: false, perFeedCap: 2 }, 'admin-2', 2);
+
+      expect(feed).toMatchObject({ enabled: false, perFeedCap: 2, version: 3, updatedBy: 'admin-2' });
+      expect(dynamodb.putItem).toHaveBeenCalledWith(
+        expect.objectContaining({
+          ConditionExpression: '#version = :version',
+          ExpressionAttributeValues: { ':version': 2 },
+        })
+      );
+    });
+
+    it('drops listing selectors when a feed stops being an HTML listing', async () => {
+      mockStore({ ...storedFeed, ...listingFeed, version: 1, url: 'https://www.osha.gov/news/newsreleases' });
+
+      const feed = await updateFeed(listingFeed.id, { kind: 'feed', url: 'https://www.osha.gov/news/rss.xml' }, 'admin-2');
+
+      expect(feed.kind).toBe('feed');
+      expect(feed).not.toHaveProperty('listing');
+    });
+
+    it('rejects an edit based on an older version', async () => {
+      mockStore();
+
+      await expect(updateFeed(storedFeed.id, { enabled: false }, 'admin-2', 1)).rejects.toThrow(VersionConflictError);
+      expect(dynamodb.putItem).not.toHaveBeenCalled();
+    });
+
+    it('reports a concurrent write as a version conflict', async () => {
+      mockStore();
+      vi.mocked(dynamodb.putItem).mockRejectedValueOnce(conditionalCheckFailed());
+
+      await expect(updateFeed(storedFeed.id, { enabled: false }, 'admin-2')).rejects.toThrow(VersionConflictError);
+    });
+
+    it('throws NotFoundError for an unknown feed', async () => {
+      mockStore(null);
+
+      await expect(updateFeed('missing_feed', { enabled: false }, 'admin-2')).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('updateIntakeRails', () => {
+    const railsInput = { ...feedsConfig.globalRails, allowedDomains: storedRails.allowedDomains };
+
+    beforeEach(() => {
+      mockStore();
+      vi.mocked(dynamodb.queryItems).mockResolvedValue({
+        items: [{ PK: 'INTAKE_FEED', SK: `FEED#${storedFeed.id}`, ...storedFeed }],
+      });
+    });
+
+    it('replaces the rails and bumps the version', async () => {
+      const rails = await updateIntakeRails({ ...railsInput, maxItemsPerRun: 40 }, 'admin-2', 3);
+
+      expect(rails).toMatchObject({ maxItemsPerRun: 40, version: 4, updatedBy: 'admin-2' });
+      expect(dynamodb.putItem).toHaveBeenCalledWith(
+        expect.objectContaining({
+          Item: expect.objectContaining({ PK: 'INTAKE_RAILS', SK: 'CURRENT', maxItemsPerRun: 40 }),
+          ExpressionAttributeValues: { ':version': 3 },
+        })
+      );
+    });
+
+    it('refuses to drop a domain an enabled feed still uses', async () => {
+      await expect(
+        updateIntakeRails({ ...railsInput, allowedDomains: ['www.osha.gov'] }, 'admin-2')
+      ).rejects.toMatchObject({
+        message: 'Enabled feeds would fall outside the allowed domains',
+        details: { feedIds: ['ftc_press_releases'] },
+      });
+      expect(dynamodb.putItem).not.toHaveBeenCalled();
+    });
+
+    it('rejects an edit based on an older version', async () => {
+      await expect(updateIntakeRails(railsInput, 'admin-2', 2)).rejects.toThrow(VersionConflictError);
+    });
+  });
+});
@@ -0,0 +1,335 @@
+import type {
+  FeedConfig,
+  HtmlListingConfig,
+  IntakeFeed,
+  IntakeFeedsConfig,
+  IntakeFeedsResponse,
+  IntakeRails,
+  IntakeRailsConfig,
+} from '@ledger/shared';
+import { config } from '../config.js';
+import { getItem, putItem, queryItems, stripKeys, isConditionalCheckFailed } from '../dynamodb.js';
+import { ConflictError, NotFoundError, ValidationError, VersionConflictError } from '../errors.js';
+import { diffFields } from '../field-diff.js';
+import { logger } from '../logger.js';
+import { SelectorSyntaxError, validateSelector } from '../selectors.js';
+import { isAllowedDomain } from './intake.js';
+import type { CreateIntakeFeedInput, UpdateIntakeFeedInput, UpdateIntakeRailsInput } from '../validation.js';
+import seedConfig from '../../config/feeds.json' with { type: 'json' };
+
+const TABLE = config.tables.config;
+
+// Feeds: PK INTAKE_FEED, SK FEED#{feedId}
+const FEED_PK = 'INTAKE_FEED';
+// Rails: PK INTAKE_RAILS, SK CURRENT
+const RAILS_KEY = { PK: 'INTAKE_RAILS', SK: 'CURRENT' };
+
+// createdBy/updatedBy on records copied from feeds.json
+const SEED_ACTOR = 'seed';
+
+const CONFLICT_IGNORED_FIELDS = new Set(['version', 'createdAt', 'createdBy', 'updatedAt', 'updatedBy']);
+
+// Type assertion for imported JSON
+const typedSeedConfig = seedConfig as IntakeFeedsConfig;
+
+function feedKey(feedId: string): { PK: string; SK: string } {
+  return { PK: FEED_PK, SK: `FEED#${feedId}` };
+}
+
+// Write a record unless one is already there; false if it was
+async function putIfAbsent(key: { PK: string; SK: string }, record: object): Promise<boolean> {
+  try {
+    await putItem({
+      TableName: TABLE,
+      Item: { ...key, ...record },
+      ConditionExpression: 'attribute_not_exists(PK)',
+    });
+    return true;
+  } catch (error) {
+    if (isConditionalCheckFailed(error)) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Copy feeds.json into the store. Feeds are written before the rails, so
+ * the rails item marks a finished seed, and records that already exist are
+ * left alone; an interrupted seed is simply run again.
+ */
+async function seedFromConfig(): Promise<IntakeRailsConfig> {
+  const now = new Date().toISOString();
+
+  let seeded = 0;
+  for (const feed of typedSeedConfig.feeds) {
+    const stored: IntakeFeed = {
+      ...feed,
+      version: 1,
+      createdAt: now,
+      createdBy: SEED_ACTOR,
+      updatedAt: now,
+      updatedBy: SEED_ACTOR,
+    };
+    if (await putIfAbsent(feedKey(feed.id), stored)) {
+      seeded++;
+    }
+  }
+
+  const rails: IntakeRailsConfig = {
+    ...typedSeedConfig.globalRails,
+    version: 1,
+    updatedAt: now,
+    updatedBy: SEED_ACTOR,
+  };
+  if (!(await putIfAbsent(RAILS_KEY, rails))) {
+    // Another caller finished the seed first; theirs is the stored copy
+    const stored = await getItem<IntakeRailsConfig & { PK: string; SK: string }>({
+      TableName: TABLE,
+      Key: RAILS_KEY,
+    });
+    return stripKeys(stored!);
+  }
+
+  logger.info({ feeds: seeded }, 'Seeded intake feeds from feeds.json');
+  return rails;
+}
+
+/** The stored intake rails, seeding the store from feeds.json on first use */
+export async function getIntakeRails(): Promise<IntakeRailsConfig> {
+  const stored = await getItem<IntakeRailsConfig & { PK: string; SK: string }>({
+    TableName: TABLE,
+    Key: RAILS_KEY,
+  });
+  return stored ? stripKeys(stored) : seedFromConfig();
+}
+
+/** Every stored feed, enabled or not, ordered by ID */
+export async function listFeeds(): Promise<IntakeFeed[]> {
+  await getIntakeRails();
+
+  const feeds: IntakeFeed[] = [];
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+
+  do {
+    const { items, lastEvaluatedKey } = await queryItems<IntakeFeed & { PK: string; SK: string }>({
+      TableName: TABLE,
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :skPrefix)',
+      ExpressionAttributeValues: {
+        ':pk': FEED_PK,
+        ':skPrefix': 'FEED#',
+      },
+      ExclusiveStartKey: exclusiveStartKey,
+    });
+    feeds.push(...items.map((item) => stripKeys(item)));
+    exclusiveStartKey = lastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return feeds;
+}
+
+/** Feeds and rails together, as ingestion and the admin Feeds page use them */
+export async function getIntakeFeeds(): Promise<IntakeFeedsResponse> {
+  const rails = await getIntakeRails();
+  const feeds = await listFeeds();
+  return { feeds, rails };
+}
+
+export async function getFeed(feedId: string): Promise<IntakeFeed> {
+  await getIntakeRails();
+
+  const stored = await getItem<IntakeFeed & { PK: string; SK: string }>({
+    TableName: TABLE,
+    Key: feedKey(feedId),
+  });
+  if (!stored) {
+    throw new NotFoundError('Feed', feedId);
+  }
+  return stripKeys(stored);
+}
+
+function listingSelectors(listing: HtmlListingConfig): string[] {
+  const fields = [listing.link, listing.title, listing.date, listing.summary];
+  return [
+    listing.item,
+    ...fields.flatMap((field) => (field === undefined ? [] : [typeof field === 'string' ? field : field.selector])),
+    ...(listing.nextPage ? [listing.nextPage] : []),
+  ];
+}
+
+/**
+ * Check a feed against the rails before it is saved: its URL must be on the
+ * allowlist (ingestion would refuse it otherwise) and a listing feed needs
+ * selectors that parse.
+ */
+function validateFeed(feed: FeedConfig, rails: IntakeRails): void {
+  if (!isAllowedDomain(feed.url, rails.allowedDomains)) {
+    throw new ValidationError(
+      `Feed URL is not on an allowed domain: ${new URL(feed.url).hostname}. Add it to the intake rails first.`
+    );
+  }
+
+  if (feed.kind !== 'html') {
+    return;
+  }
+  if (!feed.listing) {
+    throw new ValidationError('HTML listing feeds need listing selectors');
+  }
+  for (const selector of listingSelectors(feed.listing)) {
+    try {
+      validateSelector(selector);
+    } catch (error) {
+      if (error instanceof SelectorSyntaxError) {
+        throw new ValidationError(error.message, { selector });
+      }
+      throw error;
+    }
+  }
+}
+
+// Listing selectors only mean something on HTML feeds; drop them otherwise
+function normalizeFeed<T extends FeedConfig>(feed: T): T {
+  if (feed.kind === 'html' || feed.listing === undefined) {
+    return feed;
+  }
+  const normalized = { ...feed };
+  delete normalized.listing;
+  return normalized;
+}
+
+/** Check a draft feed as createFeed would, without saving it */
+export async function validateDraftFeed(input: CreateIntakeFeedInput): Promise<FeedConfig> {
+  const feed = normalizeFeed<FeedConfig>(input);
+  validateFeed(feed, await getIntakeRails());
+  return feed;
+}
+
+/** Add a feed. IDs are permanent, since intake items record the feed they came from. */
+export async function createFeed(input: CreateIntakeFeedInput, userId: string): Promise<IntakeFeed> {
+  const feed = await validateDraftFeed(input);
+  const now = new Date().toISOString();
+
+  const created: IntakeFeed = {
+    ...feed,
+    version: 1,
+    createdAt: now,
+    createdBy: userId,
+    updatedAt: now,
+    updatedBy: userId,
+  };
+
+  if (!(await putIfAbsent(feedKey(feed.id), created))) {
+    throw new ConflictError(`Feed already exists: ${feed.id}`);
+  }
+  return created;
+}
+
+/**
+ * Edit a feed (including enabling or disabling it). The write only succeeds
+ * if the feed is still at the version that was read, and expectedVersion
+ * (when given) must match it.
+ */
+export async function updateFeed(
+  feedId: string,
+  input: UpdateIntakeFeedInput,
+  userId: string,
+  expectedVersion?: number
+): Promise<IntakeFeed> {
+  const existing = await getFeed(feedId);
+
+  if (expectedVersion !== undefined && expectedVersion !== existing.version) {
+    throw feedVersionConflict(existing, input);
+  }
+
+  const updated = normalizeFeed<IntakeFeed>({
+    ...existing,
+    ...input,
+    id: feedId,
+    version: existing.version + 1,
+    updatedAt: new Date().toISOString(),
+    updatedBy: userId,
+  });
+  validateFeed(updated, await getIntakeRails());
+
+  try {
+    await putItem({
+      TableName: TABLE,
+      Item: { ...feedKey(feedId), ...updated },
+      ConditionExpression: '#version = :version',
+      ExpressionAttributeNames: { '#version': 'version' },
+      ExpressionAttributeValues: { ':version': existing.version },
+    });
+  } catch (error) {
+    if (isConditionalCheckFailed(error)) {
+      throw feedVersionConflict(await getFeed(feedId), input);
+    }
+    throw error;
+  }
+
+  return updated;
+}
+
+function feedVersionConflict(current: IntakeFeed, input: UpdateIntakeFeedInput): VersionConflictError {
+  return new VersionConflictError('Feed', {
+    currentVersion: current.version,
+    current,
+    changes: diffFields(current, { ...current, ...input }, CONFLICT_IGNORED_FIELDS),
+  });
+}
+
+/**
+ * Replace the rails. Narrowing the allowlist is refused while an enabled
+ * feed's URL would fall outside it.
+ */
+export async function updateIntakeRails(
+  input: UpdateIntakeRailsInput,
+  userId: string,
+  expectedVersion?: number
+): Promise<IntakeRailsConfig> {
+  const existing = await getIntakeRails();
+
+  if (expectedVersion !== undefined && expectedVersion !== existing.version) {
+    throw railsVersionConflict(existing, input);
+  }
+
+  const stranded = (await listFeeds()).filter(
+    (feed) => feed.enabled && !isAllowedDomain(feed.url, input.allowedDomains)
+  );
+  if (stranded.length > 0) {
+    throw new ValidationError('Enabled feeds would fall outside the allowed domains', {
+      feedIds: stranded.map((feed) => feed.id),
+    });
+  }
+
+  const updated: IntakeRailsConfig = {
+    ...input,
+    version: existing.version + 1,
+    updatedAt: new Date().toISOString(),
+    updatedBy: userId,
+  };
+
+  try {
+    await putItem({
+      TableName: TABLE,
+      Item: { ...RAILS_KEY, ...updated },
+      ConditionExpression: '#version = :version',
+      ExpressionAttributeNames: { '#version': 'version' },
+      ExpressionAttributeValues: { ':version': existing.version },
+    });
+  } catch (error) {
+    if (isConditionalCheckFailed(error)) {
+      throw railsVersionConflict(await getIntakeRails(), input);
+    }
+    throw error;
+  }
+
+  return updated;
+}
+
+function railsVersionConflict(current: IntakeRailsConfig, input: UpdateIntakeRailsInput): VersionConflictError {
+  return new VersionConflictError('Intake rails', {
+    currentVersion: current.version,
+    current,
+    changes: diffFields(current, { ...current, ...input }, CONFLICT_IGNORED_FIELDS),
+  });
+}
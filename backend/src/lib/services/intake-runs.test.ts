@@ -0,0 +1,220 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { IntakeIngestResult, IntakeRunSummary } from '@ledger/shared';
+import {
+  assessFeedHealth,
+  getIntakeRun,
+  listIntakeRuns,
+  nextFeedHealth,
+  recordIntakeRun,
+  type FeedHealthRecord,
+} from './intake-runs.js';
+import * as dynamodb from '../dynamodb.js';
+import { NotFoundError } from '../errors.js';
+
+vi.mock('../dynamodb.js', () => ({
+  getItem: vi.fn(),
+  putItem: vi.fn(),
+  queryItems: vi.fn(),
+  encodeCursor: vi.fn((key) => Buffer.from(JSON.stringify(key)).toString('base64url')),
+  decodeCursor: vi.fn((cursor) => JSON.parse(Buffer.from(cursor, 'base64url').toString())),
+  stripKeys: vi.fn((item) => {
+    const rest = { ...item };
+    delete rest.PK;
+    delete rest.SK;
+    return rest;
+  }),
+}));
+
+vi.mock('../config.js', () => ({
+  config: {
+    tables: {
+      config: 'test-config-table',
+    },
+  },
+}));
+
+const run = { runId: '01HQRUN0000000000000000002', completedAt: '2024-03-05T06:01:00.000Z' };
+
+const okResult: IntakeIngestResult = {
+  feedId: 'ftc_press_releases',
+  fetchStatus: 'OK',
+  itemsIngested: 3,
+  itemsSkipped: 2,
+  errors: [],
+};
+
+const storedHealth: FeedHealthRecord = {
+  feedId: 'ftc_press_releases',
+  trackedSince: '2024-01-01T06:01:00.000Z',
+  lastRunId: '01HQRUN0000000000000000001',
+  lastRunAt: '2024-03-04T06:01:00.000Z',
+  lastFetchStatus: 'OK',
+  lastSuccessAt: '2024-03-04T06:01:00.000Z',
+  lastNewItemAt: '2024-03-04T06:01:00.000Z',
+  consecutiveFailures: 0,
+  parseErrors: 1,
+  recentNewItems: [2, 0, 4],
+  etag: '"abc123"',
+};
+
+describe('intake runs service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(dynamodb.putItem).mockResolvedValue(undefined);
+  });
+
+  describe('nextFeedHealth', () => {
+    it('starts tracking a feed on its first run', () => {
+      const health = nextFeedHealth(undefined, okResult, run, { etag: '"def456"' });
+
+      expect(health).toMatchObject({
+        trackedSince: run.completedAt,
+        lastSuccessAt: run.completedAt,
+        lastNewItemAt: run.completedAt,
+        consecutiveFailures: 0,
+        parseErrors: 0,
+        recentNewItems: [3],
+        etag: '"def456"',
+      });
+    });
+
+    it('counts failures in a row and keeps the last success and validators', () => {
+      const failed: IntakeIngestResult = {
+        ...okResult,
+        fetchStatus: 'PARSE_ERROR',
+        itemsIngested: 0,
+        errors: ['Unrecognized feed format: root element <html>'],
+      };
+
+      const once = nextFeedHealth(storedHealth, failed, run);
+      const twice = nextFeedHealth(once, failed, { ...run, runId: '01HQRUN0000000000000000003' });
+
+      expect(twice).toMatchObject({
+        lastFetchStatus: 'PARSE_ERROR',
+        lastSuccessAt: storedHealth.lastSuccessAt,
+        lastError: 'Unrecognized feed format: root element <html>',
+        consecutiveFailures: 2,
+        parseErrors: 3,
+        recentNewItems: [2, 0, 4],
+        etag: '"abc123"',
+      });
+    });
+
+    it('treats a 304 as a success with nothing new', () => {
+      const health = nextFeedHealth(
+        { ...storedHealth, consecutiveFailures: 2, lastError: 'HTTP 500' },
+        { ...okResult, fetchStatus: 'NOT_MODIFIED', itemsIngested: 0, itemsSkipped: 0 },
+        run
+      );
+
+      expect(health).toMatchObject({
+        lastSuccessAt: run.completedAt,
+        lastNewItemAt: storedHealth.lastNewItemAt,
+        consecutiveFailures: 0,
+        recentNewItems: [2, 0, 4, 0],
+        etag: '"abc123"',
+      });
+      expect(health.lastError).toBeUndefined();
+    });
+
+    it('keeps the last ten successful runs', () => {
+      const health = nextFeedHealth({ ...storedHealth, recentNewItems: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10] }, okResult, run);
+
+      expect(health.recentNewItems).toEqual([2, 3, 4, 5, 6, 7, 8, 9, 10, 3]);
+    });
+  });
+
+  describe('assessFeedHealth', () => {
+    const now = Date.parse('2024-03-05T12:00:00Z');
+
+    it('averages new items over recent runs', () => {
+      const health = assessFeedHealth(storedHealth, now);
+
+      expect(health).toMatchObject({ status: 'HEALTHY', averageNewItems: 2 });
+      expect(health).not.toHaveProperty('etag');
+    });
+
+    it('flags a feed that keeps failing', () => {
+      const health = assessFeedHealth({ ...storedHealth, consecutiveFailures: 3, lastError: 'HTTP 404: Not Found' }, now);
+
+      expect(health.status).toBe('FAILING');
+      expect(health.statusReason).toBe('Failed the last 3 runs: HTTP 404: Not Found');
+    });
+
+    it('flags a feed that fetches fine but has stopped producing items', () => {
+      const health = assessFeedHealth({ ...storedHealth, lastNewItemAt: '2024-02-15T06:01:00.000Z' }, now);
+
+      expect(health.status).toBe('STALE');
+      expect(health.statusReason).toBe('No new items in 19 days');
+    });
+
+    it('flags a feed that has never produced an item', () => {
+      const health = assessFeedHealth({ ...storedHealth, lastNewItemAt: undefined, recentNewItems: [0, 0] }, now);
+
+      expect(health.status).toBe('STALE');
+      expect(health.statusReason).toBe('No items ingested since tracking began 64 days ago');
+    });
+  });
+
+  describe('recordIntakeRun', () => {
+    it('stores the run and updates the health of each feed in it', async () => {
+      vi.mocked(dynamodb.queryItems).mockResolvedValueOnce({
+        items: [{ PK: 'INTAKE_FEED_HEALTH', SK: 'FEED#ftc_press_releases', ...storedHealth }],
+      });
+      const summary: IntakeRunSummary = {
+        ...run,
+        startedAt: '2024-03-05T06:00:00.000Z',
+        totalIngested: 3,
+        totalSkipped: 2,
+        feedResults: [
+          okResult,
+          { feedId: 'sec_litigation', fetchStatus: 'FETCH_ERROR', itemsIngested: 0, itemsSkipped: 0, errors: ['HTTP 503'] },
+        ],
+      };
+
+      await recordIntakeRun(summary, new Map([['ftc_press_releases', { etag: '"def456"' }]]));
+
+      const items = vi.mocked(dynamodb.putItem).mock.calls.map(([params]) => params.Item!);
+      expect(items[0]).toEqual({ PK: 'INTAKE_RUN', SK: `RUN#${run.runId}`, ...summary });
+      expect(items[1]).toMatchObject({
+        PK: 'INTAKE_FEED_HEALTH',
+        SK: 'FEED#ftc_press_releases',
+        trackedSince: storedHealth.trackedSince,
+        recentNewItems: [2, 0, 4, 3],
+        etag: '"def456"',
+      });
+      expect(items[2]).toMatchObject({ SK: 'FEED#sec_litigation', consecutiveFailures: 1, lastError: 'HTTP 503' });
+    });
+  });
+
+  describe('listIntakeRuns', () => {
+    it('pages through runs newest first', async () => {
+      const lastKey = { PK: 'INTAKE_RUN', SK: `RUN#${run.runId}` };
+      vi.mocked(dynamodb.queryItems).mockResolvedValueOnce({
+        items: [{ ...lastKey, runId: run.runId }],
+        lastEvaluatedKey: lastKey,
+      });
+
+      const page = await listIntakeRuns({ limit: 1 });
+
+      expect(page.items).toEqual([{ runId: run.runId }]);
+      expect(page.hasMore).toBe(true);
+      expect(dynamodb.queryItems).toHaveBeenCalledWith(
+        expect.objectContaining({ ScanIndexForward: false, Limit: 1, ExclusiveStartKey: undefined })
+      );
+
+      vi.mocked(dynamodb.queryItems).mockResolvedValueOnce({ items: [] });
+      await listIntakeRuns({ limit: 1, cursor: page.cursor });
+
+      expect(dynamodb.queryItems).toHaveBeenLastCalledWith(expect.objectContaining({ ExclusiveStartKey: lastKey }));
+    });
+  });
+
+  describe('getIntakeRun', () => {
+    it('throws NotFoundError for an unknown run', async () => {
+      vi.mocked(dynamodb.getItem).mockResolvedValueOnce(null);
+
+      await expect(getIntakeRun('01HQMISSING')).rejects.toThrow(NotFoundError);
+    });
+  });
+});
@@ -0,0 +1,214 @@
+import type {
+  FeedHealth,
+  FeedHealthStatus,
+  IntakeIngestResult,
+  IntakeRunSummary,
+  PaginatedResponse,
+  PaginationParams,
+} from '@ledger/shared';
+import { config } from '../config.js';
+import { getItem, putItem, queryItems, stripKeys, encodeCursor, decodeCursor } from '../dynamodb.js';
+import { NotFoundError } from '../errors.js';
+import { logger } from '../logger.js';
+
+const TABLE = config.tables.config;
+
+// Runs: PK INTAKE_RUN, SK RUN#{runId} (ULIDs, so newest sorts last)
+const RUN_PK = 'INTAKE_RUN';
+// Health: PK INTAKE_FEED_HEALTH, SK FEED#{feedId}
+const HEALTH_PK = 'INTAKE_FEED_HEALTH';
+
+// Successful runs averaged for averageNewItems
+const RECENT_RUNS = 10;
+
+// Failed runs in a row before a feed is flagged FAILING
+const FAILING_AFTER_FAILURES = 3;
+
+// Days of successful fetches without a new item before a feed is flagged STALE
+const STALE_AFTER_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** ETag and Last-Modified from a feed's last full download, for conditional GETs */
+export interface FeedValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+// What is stored; averageNewItems and status are worked out on read
+export type FeedHealthRecord = Omit<FeedHealth, 'averageNewItems' | 'status' | 'statusReason'> & FeedValidators;
+
+function runKey(runId: string): { PK: string; SK: string } {
+  return { PK: RUN_PK, SK: `RUN#${runId}` };
+}
+
+function healthKey(feedId: string): { PK: string; SK: string } {
+  return { PK: HEALTH_PK, SK: `FEED#${feedId}` };
+}
+
+/** Every feed's stored health record, by feed ID */
+export async function getFeedHealthRecords(): Promise<Map<string, FeedHealthRecord>> {
+  const records = new Map<string, FeedHealthRecord>();
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+
+  do {
+    const { items, lastEvaluatedKey } = await queryItems<FeedHealthRecord & { PK: string; SK: string }>({
+      TableName: TABLE,
+      KeyConditionExpression: 'PK = :pk',
+      ExpressionAttributeValues: { ':pk': HEALTH_PK },
+      ExclusiveStartKey: exclusiveStartKey,
+    });
+    for (const item of items) {
+      records.set(item.feedId, stripKeys(item));
+    }
+    exclusiveStartKey = lastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return records;
+}
+
+/**
+ * Fold one run's result for a feed into its health record. Validators are
+ * replaced after a full download and kept after a 304 or a failure.
+ */
+export function nextFeedHealth(
+  previous: FeedHealthRecord | undefined,
+  result: IntakeIngestResult,
+  run: Pick<IntakeRunSummary, 'runId' | 'completedAt'>,
+  validators?: FeedValidators
+): FeedHealthRecord {
+  const succeeded = result.fetchStatus === 'OK' || result.fetchStatus === 'NOT_MODIFIED';
+  const next: FeedHealthRecord = {
+    feedId: result.feedId,
+    trackedSince: previous?.trackedSince ?? run.completedAt,
+    lastRunId: run.runId,
+    lastRunAt: run.completedAt,
+    lastFetchStatus: result.fetchStatus,
+    lastSuccessAt: succeeded ? run.completedAt : previous?.lastSuccessAt,
+    lastNewItemAt: result.itemsIngested > 0 ? run.completedAt : previous?.lastNewItemAt,
+    lastError: succeeded ? undefined : result.errors[0],
+    consecutiveFailures: succeeded ? 0 : (previous?.consecutiveFailures ?? 0) + 1,
+    parseErrors: (previous?.parseErrors ?? 0) + (result.fetchStatus === 'PARSE_ERROR' ? 1 : 0),
+    recentNewItems: succeeded
+      ? [...(previous?.recentNewItems ?? []), result.itemsIngested].slice(-RECENT_RUNS)
+      : previous?.recentNewItems ?? [],
+    etag: previous?.etag,
+    lastModified: previous?.lastModified,
+  };
+
+  if (result.fetchStatus === 'OK' && validators) {
+    next.etag = validators.etag;
+    next.lastModified = validators.lastModified;
+  }
+  return next;
+}
+
+/** Add the derived stats and flag feeds that are failing or have gone quiet */
+export function assessFeedHealth(record: FeedHealthRecord, now = Date.now()): FeedHealth {
+  const { recentNewItems } = record;
+  const averageNewItems =
+    recentNewItems.length > 0 ? recentNewItems.reduce((sum, n) => sum + n, 0) / recentNewItems.length : 0;
+
+  let status: FeedHealthStatus = 'HEALTHY';
+  let statusReason: string | undefined;
+
+  const quietSince = Date.parse(record.lastNewItemAt ?? record.trackedSince);
+  const quietDays = Math.floor((now - quietSince) / DAY_MS);
+
+  if (record.consecutiveFailures >= FAILING_AFTER_FAILURES) {
+    status = 'FAILING';
+    statusReason = `Failed the last ${record.consecutiveFailures} runs: ${record.lastError ?? 'unknown error'}`;
+  } else if (record.lastSuccessAt && quietDays >= STALE_AFTER_DAYS) {
+    status = 'STALE';
+    statusReason = record.lastNewItemAt
+      ? `No new items in ${quietDays} days`
+      : `No items ingested since tracking began ${quietDays} days ago`;
+  }
+
+  const health: FeedHealth = {
+    feedId: record.feedId,
+    trackedSince: record.trackedSince,
+    lastRunId: record.lastRunId,
+    lastRunAt: record.lastRunAt,
+    lastFetchStatus: record.lastFetchStatus,
+    lastSuccessAt: record.lastSuccessAt,
+    lastNewItemAt: record.lastNewItemAt,
+    lastError: record.lastError,
+    consecutiveFailures: record.consecutiveFailures,
+    parseErrors: record.parseErrors,
+    recentNewItems,
+    averageNewItems: Math.round(averageNewItems * 10) / 10,
+    status,
+  };
+  if (statusReason) {
+    health.statusReason = statusReason;
+  }
+  return health;
+}
+
+/** Health of every feed that has been through a run, ordered by feed ID */
+export async function listFeedHealth(): Promise<FeedHealth[]> {
+  const records = await getFeedHealthRecords();
+  const now = Date.now();
+  return [...records.values()]
+    .sort((a, b) => a.feedId.localeCompare(b.feedId))
+    .map((record) => assessFeedHealth(record, now));
+}
+
+/**
+ * Store a finished run and update the health of every feed it fetched.
+ * validators holds the ETag/Last-Modified of each feed downloaded and read in full.
+ */
+export async function recordIntakeRun(
+  summary: IntakeRunSummary,
+  validators: Map<string, FeedValidators>
+): Promise<void> {
+  await putItem({
+    TableName: TABLE,
+    Item: { ...runKey(summary.runId), ...summary },
+  });
+
+  // One writer (the scheduled run), so health is a plain read-modify-write
+  const previous = await getFeedHealthRecords();
+  for (const result of summary.feedResults) {
+    const health = nextFeedHealth(previous.get(result.feedId), result, summary, validators.get(result.feedId));
+    await putItem({
+      TableName: TABLE,
+      Item: { ...healthKey(result.feedId), ...health },
+    });
+  }
+
+  logger.info({ runId: summary.runId, feeds: summary.feedResults.length }, 'Recorded intake run');
+}
+
+/** Runs, newest first */
+export async function listIntakeRuns(query: PaginationParams): Promise<PaginatedResponse<IntakeRunSummary>> {
+  const { items, lastEvaluatedKey } = await queryItems<IntakeRunSummary & { PK: string; SK: string }>({
+    TableName: TABLE,
+    KeyConditionExpression: 'PK = :pk AND begins_with(SK, :skPrefix)',
+    ExpressionAttributeValues: {
+      ':pk': RUN_PK,
+      ':skPrefix': 'RUN#',
+    },
+    ScanIndexForward: false,
+    Limit: query.limit || 20,
+    ExclusiveStartKey: query.cursor ? decodeCursor(query.cursor) : undefined,
+  });
+
+  return {
+    items: items.map((item) => stripKeys(item)),
+    cursor: lastEvaluatedKey ? encodeCursor(lastEvaluatedKey) : undefined,
+    hasMore: !!lastEvaluatedKey,
+  };
+}
+
+export async function getIntakeRun(runId: string): Promise<IntakeRunSummary> {
+  const stored = await getItem<IntakeRunSummary & { PK: string; SK: string }>({
+    TableName: TABLE,
+    Key: runKey(runId),
+  });
+  if (!stored) {
+    throw new NotFoundError('Intake run', runId);
+  }
+  return stripKeys(stored);
+}
@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { IntakeItem, IntakeRails } from '@ledger/shared';
+import {
+  captureIntakeSnapshots,
+  findLinkedPdfs,
+  readBodyWithin,
+  snapshotIngestedItems,
+} from './intake-snapshots.js';
+import * as s3 from '../s3.js';
+import * as intake from './intake.js';
+import { politeFetch } from './host-politeness.js';
+import { FileTooLargeError } from '../errors.js';
+
+vi.mock('../s3.js', () => ({
+  putObject: vi.fn(() => Promise.resolve()),
+}));
+
+vi.mock('./host-politeness.js', () => ({
+  politeFetch: vi.fn(),
+}));
+
+vi.mock('./intake.js', () => ({
+  isAllowedDomain: vi.fn((url: string, domains: string[]) => domains.some((d) => new URL(url).hostname.endsWith(d))),
+  listIntakeByStatus: vi.fn(),
+  updateIntakeItem: vi.fn((item, updates) => Promise.resolve({ ...item, ...updates })),
+}));
+
+vi.mock('../config.js', () => ({
+  config: {
+    buckets: { sources: 'test-sources-bucket' },
+  },
+}));
+
+const rails = {
+  maxRequestsPerHostPerMinute: 30,
+  minDelayMsBetweenRequestsSameHost: 0,
+  maxHtmlSnapshotBytes: 1024,
+  maxPdfBytes: 4096,
+  allowedDomains: ['ftc.gov'],
+} as IntakeRails;
+
+const item = {
+  intakeId: '01HQINTAKE000000000000001',
+  canonicalUrl: 'https://www.ftc.gov/news/acme',
+  status: 'NEW',
+  ingestedAt: '2024-03-05T06:00:30.000Z',
+} as IntakeItem;
+
+const page = `<html><body>
+  <a href="/system/files/acme-complaint.pdf">Complaint</a>
+  <a href="/system/files/acme-complaint.pdf#page=2">Complaint, page 2</a>
+  <a href="https://www.example.com/copy.pdf">Mirror</a>
+  <a href="/news/other">Other release</a>
+</body></html>`;
+
+function response(body: string, contentType: string, status = 200, statusText = 'OK'): Response {
+  return new Response(body, { status, statusText, headers: { 'Content-Type': contentType } });
+}
+
+describe('intake snapshots', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('findLinkedPdfs', () => {
+    it('resolves PDF links against the page and drops duplicates', () => {
+      expect(findLinkedPdfs(page, item.canonicalUrl)).toEqual([
+        'https://www.ftc.gov/system/files/acme-complaint.pdf',
+        'https://www.example.com/copy.pdf',
+      ]);
+    });
+  });
+
+  describe('readBodyWithin', () => {
+    it('stops reading once the body passes the limit', async () => {
+      await expect(readBodyWithin(new Response('x'.repeat(20)), 10)).rejects.toThrow(FileTooLargeError);
+      expect((await readBodyWithin(new Response('x'.repeat(10)), 10)).length).toBe(10);
+    });
+  });
+
+  describe('captureIntakeSnapshots', () => {
+    it('stores the page and the PDFs it links to on allowed domains', async () => {
+      vi.mocked(politeFetch)
+        .mockResolvedValueOnce(response(page, 'text/html; charset=utf-8'))
+        .mockResolvedValueOnce(response('%PDF-1.7', 'application/pdf'));
+
+      const updated = await captureIntakeSnapshots(item, rails);
+
+      expect(vi.mocked(politeFetch).mock.calls.map(([url]) => url)).toEqual([
+        'https://www.ftc.gov/news/acme',
+        'https://www.ftc.gov/system/files/acme-complaint.pdf',
+      ]);
+      expect(updated.snapshot).toMatchObject({
+        url: item.canonicalUrl,
+        bucket: 'test-sources-bucket',
+        key: expect.stringMatching(/^intake\/01HQINTAKE000000000000001\/[0-9a-f]{64}\.html$/),
+        byteLength: Buffer.byteLength(page),
+        mimeType: 'text/html',
+      });
+      expect(updated.linkedPdfSnapshots).toEqual([
+        expect.objectContaining({ mimeType: 'application/pdf', byteLength: 8, key: expect.stringMatching(/\.pdf$/) }),
+      ]);
+      expect(s3.putObject).toHaveBeenCalledTimes(2);
+    });
+
+    it('keeps the page when a linked PDF is over the limit', async () => {
+      vi.mocked(politeFetch)
+        .mockResolvedValueOnce(response(page, 'text/html'))
+        .mockResolvedValueOnce(response('x'.repeat(5000), 'application/pdf'));
+
+      const updated = await captureIntakeSnapshots(item, rails);
+
+      expect(updated.snapshot).toBeDefined();
+      expect(updated.linkedPdfSnapshots).toBeUndefined();
+      expect(s3.putObject).toHaveBeenCalledTimes(1);
+    });
+
+    it('refuses content that is neither HTML nor PDF', async () => {
+      vi.mocked(politeFetch).mockResolvedValueOnce(response('{}', 'application/json'));
+
+      await expect(captureIntakeSnapshots(item, rails)).rejects.toThrow('Unsupported content type application/json');
+      expect(s3.putObject).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('snapshotIngestedItems', () => {
+    it('snapshots items from this run and records failures on the item', async () => {
+      const failing = { ...item, intakeId: '01HQINTAKE000000000000002', canonicalUrl: 'https://www.ftc.gov/gone' };
+      const earlier = { ...item, intakeId: '01HQINTAKE000000000000000', ingestedAt: '2024-03-04T06:00:30.000Z' };
+      vi.mocked(intake.listIntakeByStatus).mockResolvedValueOnce({ items: [failing, item, earlier] });
+      vi.mocked(politeFetch)
+        .mockResolvedValueOnce(response('', 'text/html', 404, 'Not Found'))
+        .mockResolvedValueOnce(response('<html></html>', 'text/html'));
+
+      const result = await snapshotIngestedItems('2024-03-05T06:00:00.000Z', rails);
+
+      expect(result).toEqual({ captured: 1, failed: 1 });
+      expect(politeFetch).toHaveBeenCalledTimes(2);
+      expect(intake.updateIntakeItem).toHaveBeenCalledWith(failing, { snapshotError: 'HTTP 404: Not Found' });
+    });
+  });
+});
@@ -0,0 +1,198 @@
+import { createHash } from 'crypto';
+import type { IntakeItem, IntakeRails, IntakeSnapshot } from '@ledger/shared';
+import { config } from '../config.js';
+import { FileTooLargeError } from '../errors.js';
+import { logger } from '../logger.js';
+import { putObject } from '../s3.js';
+import { selectAll } from '../selectors.js';
+import { parseHtml } from '../xml.js';
+import { politeFetch } from './host-politeness.js';
+import { isAllowedDomain, listIntakeByStatus, updateIntakeItem } from './intake.js';
+
+// Press releases are snapshotted as soon as they are ingested, since agencies
+// edit or take down pages long before anyone promotes them. Promotion copies
+// the stored page into the Source rather than fetching it again.
+
+const BUCKET = config.buckets.sources;
+
+const SNAPSHOT_TIMEOUT_MS = 30_000;
+
+// Most PDFs a single press release can add to a run
+const MAX_LINKED_PDFS = 3;
+
+const HTML_TYPES = ['text/html', 'application/xhtml+xml'];
+const PDF_TYPE = 'application/pdf';
+
+/** Read a response body, giving up as soon as it passes maxBytes */
+export async function readBodyWithin(response: Response, maxBytes: number): Promise<Buffer> {
+  const declared = response.headers.get('content-length');
+  if (declared && parseInt(declared, 10) > maxBytes) {
+    await response.body?.cancel();
+    throw new FileTooLargeError(maxBytes);
+  }
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  const reader = response.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.length;
+    if (total > maxBytes) {
+      await reader.cancel();
+      throw new FileTooLargeError(maxBytes);
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+/** Links to PDFs on the page, resolved and de-duplicated in page order */
+export function findLinkedPdfs(html: string, pageUrl: string): string[] {
+  const links = new Set<string>();
+  for (const anchor of selectAll(parseHtml(html), 'a[href]')) {
+    try {
+      const url = new URL(anchor.attrs.href, pageUrl);
+      url.hash = '';
+      if ((url.protocol === 'http:' || url.protocol === 'https:') && url.pathname.toLowerCase().endsWith('.pdf')) {
+        links.add(url.toString());
+      }
+    } catch {
+      // Not a URL; skip it
+    }
+  }
+  return [...links];
+}
+
+/**
+ * Fetch a URL within the snapshot rails and store it under the item's prefix
+ * in the sources bucket, keyed by its hash. Only HTML and PDF are kept.
+ */
+async function storeSnapshot(
+  intakeId: string,
+  url: string,
+  rails: IntakeRails
+): Promise<{ snapshot: IntakeSnapshot; body: Buffer }> {
+  const response = await politeFetch(url, {
+    limits: rails,
+    timeoutMs: SNAPSHOT_TIMEOUT_MS,
+    accept: 'text/html,application/xhtml+xml,application/pdf;q=0.9',
+  });
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  const mimeType = (response.headers.get('content-type') || 'text/html').split(';')[0].trim().toLowerCase();
+  let maxBytes: number;
+  let extension: string;
+  if (mimeType === PDF_TYPE) {
+    maxBytes = rails.maxPdfBytes;
+    extension = 'pdf';
+  } else if (HTML_TYPES.includes(mimeType)) {
+    maxBytes = rails.maxHtmlSnapshotBytes;
+    extension = 'html';
+  } else {
+    await response.body?.cancel();
+    throw new Error(`Unsupported content type ${mimeType}`);
+  }
+
+  const body = await readBodyWithin(response, maxBytes);
+  const sha256 = createHash('sha256').update(body).digest('hex');
+  const key = `intake/${intakeId}/${sha256}.${extension}`;
+  await putObject(BUCKET, key, body, mimeType);
+
+  return {
+    snapshot: {
+      url,
+      bucket: BUCKET,
+      key,
+      sha256,
+      byteLength: body.length,
+      mimeType,
+      capturedAt: new Date().toISOString(),
+    },
+    body,
+  };
+}
+
+/**
+ * Snapshot an item's page and the PDFs it links to on allowed domains. A PDF
+ * that can't be captured is logged and left out; a failure on the page itself
+ * is thrown.
+ */
+export async function captureIntakeSnapshots(item: IntakeItem, rails: IntakeRails): Promise<IntakeItem> {
+  const page = await storeSnapshot(item.intakeId, item.canonicalUrl, rails);
+
+  const linkedPdfSnapshots: IntakeSnapshot[] = [];
+  if (page.snapshot.mimeType !== PDF_TYPE) {
+    const pdfs = findLinkedPdfs(page.body.toString('utf8'), item.canonicalUrl)
+      .filter((url) => isAllowedDomain(url, rails.allowedDomains))
+      .slice(0, MAX_LINKED_PDFS);
+
+    for (const url of pdfs) {
+      try {
+        const pdf = await storeSnapshot(item.intakeId, url, rails);
+        if (pdf.snapshot.mimeType === PDF_TYPE) {
+          linkedPdfSnapshots.push(pdf.snapshot);
+        }
+      } catch (error) {
+        logger.warn(
+          { intakeId: item.intakeId, url, error: error instanceof Error ? error.message : 'Unknown' },
+          'Failed to snapshot linked PDF'
+        );
+      }
+    }
+  }
+
+  return updateIntakeItem(item, {
+    snapshot: page.snapshot,
+    linkedPdfSnapshots: linkedPdfSnapshots.length > 0 ? linkedPdfSnapshots : undefined,
+    snapshotError: undefined,
+  });
+}
+
+/**
+ * Snapshot the NEW items ingested since `since` (i.e. by the run that just
+ * finished). Failures are recorded on the item; promotion then falls back to
+ * fetching the page itself.
+ */
+export async function snapshotIngestedItems(
+  since: string,
+  rails: IntakeRails
+): Promise<{ captured: number; failed: number }> {
+  let captured = 0;
+  let failed = 0;
+  let cursor: Record<string, unknown> | undefined;
+
+  // Newest first, so stop at the first item from an earlier run
+  let reachedEarlierRun = false;
+  do {
+    const page = await listIntakeByStatus('NEW', 50, cursor);
+    for (const item of page.items) {
+      if (item.ingestedAt < since) {
+        reachedEarlierRun = true;
+        break;
+      }
+      if (item.snapshot) {
+        continue;
+      }
+
+      try {
+        await captureIntakeSnapshots(item, rails);
+        captured++;
+      } catch (error) {
+        failed++;
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        logger.warn({ intakeId: item.intakeId, url: item.canonicalUrl, error: message }, 'Failed to snapshot intake item');
+        await updateIntakeItem(item, { snapshotError: message.slice(0, 500) });
+      }
+    }
+    cursor = page.lastEvaluatedKey;
+  } while (cursor && !reachedEarlierRun);
+
+  return { captured, failed };
+}
@@ -3,10 +3,33 @@ import {
   canonicalizeUrl,
   generateDedupeKey,
   isAllowedDomain,
-  parseRssFeed,
   getRailsWithEnvOverrides,
+  loadFeedItems,
+  fetchFeedUpdate,
+  previewFeed,
+  runIntakeIngestion,
+  FeedParseError,
 } from './intake.js';
-import type { IntakeRails } from '@ledger/shared';
+import type { FeedConfig, IntakeRails } from '@ledger/shared';
+import * as dynamodb from '../dynamodb.js';
+import { politeFetch } from './host-politeness.js';
+import {
+  OSHA_NEWS_LISTING,
+  OSHA_NEWS_PAGE_1,
+  OSHA_NEWS_PAGE_2,
+  OSHA_NEWS_URL,
+} from '../html-listing.fixtures.js';
+
+vi.mock('../dynamodb.js', () => ({
+  queryItems: vi.fn(async () => ({ items: [] })),
+  putItem: vi.fn(),
+  stripKeys: vi.fn(({ PK: _pk, SK: _sk, ...rest }) => rest),
+}));
+
+// Host limits and robots.txt are covered in host-politeness.test.ts
+vi.mock('./host-politeness.js', () => ({
+  politeFetch: vi.fn((url: string) => fetch(url)),
+}));
 
 describe('intake service', () => {
   describe('canonicalizeUrl', () => {
@@ -116,178 +139,6 @@ describe('intake service', () => {
     });
   });
 
-  describe('parseRssFeed', () => {
-    it('parses basic RSS feed items', () => {
-      const xml = `
-        <?xml version="1.0" encoding="UTF-8"?>
-        <rss version="2.0">
-          <channel>
-            <title>FTC Press Releases</title>
-            <item>
-              <title>FTC Takes Action Against Company</title>
-              <link>https://www.ftc.gov/news/press-releases/2024/01/example</link>
-              <pubDate>Mon, 15 Jan 2024 10:00:00 GMT</pubDate>
-              <guid>ftc-2024-001</guid>
-              <description>The FTC today announced...</description>
-              <category>Enforcement</category>
-              <category>Consumer Protection</category>
-            </item>
-          </channel>
-        </rss>
-      `;
-
-      const items = parseRssFeed(xml);
-
-      expect(items).toHaveLength(1);
-      expect(items[0].title).toBe('FTC Takes Action Against Company');
-      expect(items[0].link).toBe('https://www.ftc.gov/news/press-releases/2024/01/example');
-      expect(items[0].pubDate).toBe('Mon, 15 Jan 2024 10:00:00 GMT');
-      expect(items[0].guid).toBe('ftc-2024-001');
-      expect(items[0].description).toBe('The FTC today announced...');
-      expect(items[0].categories).toEqual(['Enforcement', 'Consumer Protection']);
-    });
-
-    it('parses CDATA content', () => {
-      const xml = `
-        <rss version="2.0">
-          <channel>
-            <item>
-              <title><![CDATA[FTC & SEC Joint Statement]]></title>
-              <link>https://www.ftc.gov/news</link>
-            </item>
-          </channel>
-        </rss>
-      `;
-
-      const items = parseRssFeed(xml);
-
-      expect(items).toHaveLength(1);
-      expect(items[0].title).toBe('FTC & SEC Joint Statement');
-    });
-
-    it('decodes HTML entities', () => {
-      const xml = `
-        <rss version="2.0">
-          <channel>
-            <item>
-              <title>Company &amp; Partners &quot;Agreement&quot;</title>
-              <link>https://www.ftc.gov/news</link>
-            </item>
-          </channel>
-        </rss>
-      `;
-
-      const items = parseRssFeed(xml);
-
-      expect(items).toHaveLength(1);
-      expect(items[0].title).toBe('Company & Partners "Agreement"');
-    });
-
-    it('handles multiple items', () => {
-      const xml = `
-        <rss version="2.0">
-          <channel>
-            <item>
-              <title>First Item</title>
-              <link>https://www.ftc.gov/1</link>
-            </item>
-            <item>
-              <title>Second Item</title>
-              <link>https://www.ftc.gov/2</link>
-            </item>
-            <item>
-              <title>Third Item</title>
-              <link>https://www.ftc.gov/3</link>
-            </item>
-          </channel>
-        </rss>
-      `;
-
-      const items = parseRssFeed(xml);
-
-      expect(items).toHaveLength(3);
-      expect(items.map((i) => i.title)).toEqual(['First Item', 'Second Item', 'Third Item']);
-    });
-
-    it('skips items without title or link', () => {
-      const xml = `
-        <rss version="2.0">
-          <channel>
-            <item>
-              <title>Has Title Only</title>
-            </item>
-            <item>
-              <link>https://www.ftc.gov/has-link-only</link>
-            </item>
-            <item>
-              <title>Valid Item</title>
-              <link>https://www.ftc.gov/valid</link>
-            </item>
-          </channel>
-        </rss>
-      `;
-
-      const items = parseRssFeed(xml);
-
-      expect(items).toHaveLength(1);
-      expect(items[0].title).toBe('Valid Item');
-    });
-
-    it('handles empty feed', () => {
-      const xml = `
-        <rss version="2.0">
-          <channel>
-            <title>Empty Feed</title>
-          </channel>
-        </rss>
-      `;
-
-      const items = parseRssFeed(xml);
-      expect(items).toHaveLength(0);
-    });
-
-    it('handles SEC litigation releases format with newlines in link tags', () => {
-      // SEC litigation releases have newlines between URL and closing tag
-      const xml = `
-        <?xml version="1.0" encoding="utf-8"?>
-        <rss version="2.0" xml:base="https://www.sec.gov/">
-          <channel>
-            <title>Litigation Releases</title>
-            <item>
-              <title>David J. Bradford and Gerardo L. Linarducci</title>
-              <link>https://www.sec.gov/enforcement-litigation/litigation-releases/lr-26456
-</link>
-              <description>David J. Bradford and Gerardo L. Linarducci</description>
-              <pubDate>Tue, 30 Dec 2025 17:27:40 -0500</pubDate>
-              <dc:creator>LR-26456</dc:creator>
-              <guid isPermaLink="false">9a667d43-6c25-4baa-a54d-f12922530803</guid>
-            </item>
-            <item>
-              <title>Caroline Ellison, Gary Wang, and Nishad Singh</title>
-              <link>https://www.sec.gov/enforcement-litigation/litigation-releases/lr-26450
-</link>
-              <description>Caroline Ellison, Gary Wang, and Nishad Singh</description>
-              <pubDate>Fri, 19 Dec 2025 11:39:26 -0500</pubDate>
-              <dc:creator>LR-26450</dc:creator>
-              <guid isPermaLink="false">00487736-b86f-411c-bb5e-17660121d154</guid>
-            </item>
-          </channel>
-        </rss>
-      `;
-
-      const items = parseRssFeed(xml);
-
-      expect(items).toHaveLength(2);
-      expect(items[0].title).toBe('David J. Bradford and Gerardo L. Linarducci');
-      expect(items[0].link).toBe('https://www.sec.gov/enforcement-litigation/litigation-releases/lr-26456');
-      expect(items[0].pubDate).toBe('Tue, 30 Dec 2025 17:27:40 -0500');
-      expect(items[0].guid).toBe('9a667d43-6c25-4baa-a54d-f12922530803');
-
-      expect(items[1].title).toBe('Caroline Ellison, Gary Wang, and Nishad Singh');
-      expect(items[1].link).toBe('https://www.sec.gov/enforcement-litigation/litigation-releases/lr-26450');
-    });
-  });
-
   describe('getRailsWithEnvOverrides', () => {
     const baseRails: IntakeRails = {
       maxItemsPerRun: 20,
@@ -399,4 +250,298 @@ describe('intake service', () => {
       expect(result.maxPdfBytes).toBe(26214400);
     });
   });
-});
\ No newline at end of file
+
+  describe('loadFeedItems', () => {
+    const rails: IntakeRails = {
+      maxItemsPerRun: 20,
+      maxPerFeedPerRun: 5,
+      maxRequestsPerHostPerMinute: 30,
+      minDelayMsBetweenRequestsSameHost: 0,
+      fetchTimeoutMs: 1000,
+      maxHtmlSnapshotBytes: 5242880,
+      maxPdfBytes: 26214400,
+      allowedDomains: ['www.osha.gov'],
+      stripQueryParams: ['utm_source'],
+    };
+
+    const listingFeed: FeedConfig = {
+      id: 'osha_news_releases',
+      kind: 'html',
+      publisher: 'OSHA',
+      name: 'OSHA News Releases',
+      url: OSHA_NEWS_URL,
+      listing: OSHA_NEWS_LISTING,
+      defaultTags: ['osha'],
+      perFeedCap: 5,
+      enabled: true,
+    };
+
+    const pages: Record<string, string> = {
+      [OSHA_NEWS_URL]: OSHA_NEWS_PAGE_1,
+      [`${OSHA_NEWS_URL}?page=1`]: OSHA_NEWS_PAGE_2,
+    };
+    const fetchMock = vi.fn(async (url: string) =>
+      pages[url] ? new Response(pages[url], { status: 200 }) : new Response('', { status: 404, statusText: 'Not Found' })
+    );
+
+    beforeEach(() => {
+      fetchMock.mockClear();
+      vi.stubGlobal('fetch', fetchMock);
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('follows listing pages up to maxPages and drops repeated links', async () => {
+      const items = await loadFeedItems(listingFeed, rails);
+
+      expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([OSHA_NEWS_URL, `${OSHA_NEWS_URL}?page=1`]);
+      expect(items.map((item) => item.link)).toEqual([
+        'https://www.osha.gov/news/newsreleases/region4/03052024',
+        'https://www.osha.gov/news/newsreleases/national/03042024?utm_source=listing',
+        'https://www.osha.gov/news/newsreleases/region6/03012024',
+      ]);
+    });
+
+    it('fetches through the shared host limits', async () => {
+      await loadFeedItems({ ...listingFeed, listing: { ...OSHA_NEWS_LISTING, maxPages: 1 } }, rails);
+
+      expect(politeFetch).toHaveBeenCalledWith(OSHA_NEWS_URL, {
+        limits: rails,
+        timeoutMs: 1000,
+        accept: 'text/html, application/xhtml+xml',
+        headers: {},
+      });
+    });
+
+    it('fetches only the first page by default', async () => {
+      const feed = { ...listingFeed, listing: { ...OSHA_NEWS_LISTING, maxPages: undefined } };
+
+      const items = await loadFeedItems(feed, rails);
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(items).toHaveLength(2);
+    });
+
+    it('refuses listing pages outside the allowed domains', async () => {
+      await expect(loadFeedItems(listingFeed, { ...rails, allowedDomains: ['www.ftc.gov'] })).rejects.toThrow(
+        'Feed URL not in allowed domains'
+      );
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('requires listing selectors for html feeds', async () => {
+      await expect(loadFeedItems({ ...listingFeed, listing: undefined }, rails)).rejects.toThrow(
+        'has no listing selectors'
+      );
+    });
+  });
+
+  describe('fetchFeedUpdate', () => {
+    const rails: IntakeRails = {
+      maxItemsPerRun: 20,
+      maxPerFeedPerRun: 5,
+      maxRequestsPerHostPerMinute: 30,
+      minDelayMsBetweenRequestsSameHost: 0,
+      fetchTimeoutMs: 1000,
+      maxHtmlSnapshotBytes: 5242880,
+      maxPdfBytes: 26214400,
+      allowedDomains: ['www.ftc.gov'],
+      stripQueryParams: ['utm_source'],
+    };
+
+    const feed: FeedConfig = {
+      id: 'ftc_press_releases',
+      publisher: 'FTC',
+      name: 'FTC Press Releases',
+      url: 'https://www.ftc.gov/feeds/press-release.xml',
+      defaultTags: [],
+      perFeedCap: 5,
+      enabled: true,
+    };
+
+    const rss = `<?xml version="1.0"?>
+      <rss version="2.0"><channel><title>FTC</title>
+        <item><title>FTC sues Acme</title><link>https://www.ftc.gov/news/acme</link></item>
+      </channel></rss>`;
+
+    it('sends the stored validators and reports a 304 as not modified', async () => {
+      vi.mocked(politeFetch).mockResolvedValueOnce(new Response(null, { status: 304 }));
+      const validators = { etag: '"abc123"', lastModified: 'Tue, 05 Mar 2024 12:00:00 GMT' };
+
+      const update = await fetchFeedUpdate(feed, rails, validators);
+
+      expect(update).toEqual({ notModified: true, items: [], validators });
+      expect(politeFetch).toHaveBeenLastCalledWith(
+        feed.url,
+        expect.objectContaining({
+          headers: { 'If-None-Match': '"abc123"', 'If-Modified-Since': 'Tue, 05 Mar 2024 12:00:00 GMT' },
+        })
+      );
+    });
+
+    it('returns the new validators with the items of a full download', async () => {
+      vi.mocked(politeFetch).mockResolvedValueOnce(
+        new Response(rss, { status: 200, headers: { ETag: '"def456"', 'Last-Modified': 'Wed, 06 Mar 2024 09:00:00 GMT' } })
+      );
+
+      const update = await fetchFeedUpdate(feed, rails, { etag: '"abc123"' });
+
+      expect(update.notModified).toBe(false);
+      expect(update.items.map((item) => item.title)).toEqual(['FTC sues Acme']);
+      expect(update.validators).toEqual({ etag: '"def456"', lastModified: 'Wed, 06 Mar 2024 09:00:00 GMT' });
+    });
+
+    it('tells parse failures apart from fetch failures', async () => {
+      vi.mocked(politeFetch).mockResolvedValueOnce(new Response('<html>Moved</html>', { status: 200 }));
+      await expect(fetchFeedUpdate(feed, rails)).rejects.toThrow(FeedParseError);
+
+      vi.mocked(politeFetch).mockResolvedValueOnce(new Response('', { status: 500, statusText: 'Server Error' }));
+      await expect(fetchFeedUpdate(feed, rails)).rejects.toThrow('HTTP 500: Server Error');
+    });
+  });
+
+  describe('previewFeed', () => {
+    const rails: IntakeRails = {
+      maxItemsPerRun: 20,
+      maxPerFeedPerRun: 5,
+      maxRequestsPerHostPerMinute: 30,
+      minDelayMsBetweenRequestsSameHost: 0,
+      fetchTimeoutMs: 1000,
+      maxHtmlSnapshotBytes: 5242880,
+      maxPdfBytes: 26214400,
+      allowedDomains: ['www.osha.gov'],
+      stripQueryParams: ['utm_source'],
+    };
+
+    const feed: FeedConfig = {
+      id: 'osha_news_releases',
+      kind: 'html',
+      publisher: 'OSHA',
+      name: 'OSHA News Releases',
+      url: OSHA_NEWS_URL,
+      listing: { ...OSHA_NEWS_LISTING, maxPages: 1 },
+      defaultTags: [],
+      perFeedCap: 5,
+      enabled: true,
+    };
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('reports canonical URLs and items that were already ingested', async () => {
+      vi.stubGlobal('fetch', vi.fn(async () => new Response(OSHA_NEWS_PAGE_1, { status: 200 })));
+      vi.mocked(dynamodb.queryItems)
+        .mockResolvedValueOnce({ items: [] })
+        .mockResolvedValueOnce({ items: [{ PK: 'INTAKE#existing' }] });
+
+      const preview = await previewFeed(feed, rails);
+
+      expect(preview.itemCount).toBe(2);
+      expect(preview.items).toEqual([
+        expect.objectContaining({
+          canonicalUrl: 'https://www.osha.gov/news/newsreleases/region4/03052024',
+          publishedAt: '2024-03-05T12:00:00.000Z',
+          allowed: true,
+          alreadyIngested: false,
+        }),
+        expect.objectContaining({
+          canonicalUrl: 'https://www.osha.gov/news/newsreleases/national/03042024',
+          allowed: true,
+          alreadyIngested: true,
+        }),
+      ]);
+    });
+
+    it('returns fetch failures instead of throwing', async () => {
+      vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 503, statusText: 'Service Unavailable' })));
+
+      const preview = await previewFeed(feed, rails);
+
+      expect(preview).toEqual({
+        feedId: 'osha_news_releases',
+        itemCount: 0,
+        items: [],
+        error: 'HTTP 503: Service Unavailable',
+      });
+    });
+  });
+
+  describe('runIntakeIngestion', () => {
+    const rails: IntakeRails = {
+      maxItemsPerRun: 20,
+      maxPerFeedPerRun: 5,
+      maxRequestsPerHostPerMinute: 30,
+      minDelayMsBetweenRequestsSameHost: 0,
+      fetchTimeoutMs: 1000,
+      maxHtmlSnapshotBytes: 5242880,
+      maxPdfBytes: 26214400,
+      allowedDomains: ['www.ftc.gov'],
+      stripQueryParams: ['utm_source'],
+    };
+
+    const feed: FeedConfig = {
+      id: 'ftc_press_releases',
+      publisher: 'FTC',
+      name: 'FTC Press Releases',
+      url: 'https://www.ftc.gov/feeds/press-release.xml',
+      defaultTags: [],
+      perFeedCap: 2,
+      enabled: true,
+    };
+
+    const rss = `<?xml version="1.0"?>
+      <rss version="2.0"><channel><title>FTC</title>
+        <item><title>FTC sues Acme</title><link>https://www.ftc.gov/news/acme</link>
+          <pubDate>Tue, 05 Mar 2024 12:00:00 GMT</pubDate></item>
+        <item><title>FTC fines Widget Co</title><link>https://www.ftc.gov/news/widget</link>
+          <pubDate>Tue, 05 Mar 2024 11:00:00 GMT</pubDate></item>
+        <item><title>FTC warns Gadget Inc</title><link>https://www.ftc.gov/news/gadget</link>
+          <pubDate>Tue, 05 Mar 2024 10:00:00 GMT</pubDate></item>
+      </channel></rss>`;
+
+    // Intake items and feed health, as the table would hold them
+    let table: Record<string, unknown>[];
+
+    beforeEach(() => {
+      table = [];
+      vi.mocked(dynamodb.putItem).mockImplementation(async ({ Item }) => {
+        table = table.filter((row) => row.PK !== Item!.PK || row.SK !== Item!.SK);
+        table.push(Item!);
+      });
+      vi.mocked(dynamodb.queryItems).mockImplementation(async ({ IndexName, ExpressionAttributeValues }) => {
+        const key = IndexName === 'GSI2' ? 'GSI2PK' : 'PK';
+        return { items: table.filter((row) => row[key] === ExpressionAttributeValues?.[':pk']) };
+      });
+      // The feed hasn't changed: it answers If-None-Match with a 304
+      vi.mocked(politeFetch).mockImplementation(async (_url, options) =>
+        (options.headers as Record<string, string> | undefined)?.['If-None-Match'] === '"v1"'
+          ? new Response(null, { status: 304 })
+          : new Response(rss, { status: 200, headers: { ETag: '"v1"' } })
+      );
+    });
+
+    afterEach(() => {
+      vi.mocked(dynamodb.queryItems).mockImplementation(async () => ({ items: [] }));
+      vi.mocked(politeFetch).mockImplementation((url: string) => fetch(url));
+    });
+
+    it('keeps fetching a feed in full until a run has read all of it', async () => {
+      const capped = await runIntakeIngestion(rails, [feed]);
+      expect(capped.totalIngested).toBe(2);
+
+      const rest = await runIntakeIngestion(rails, [feed]);
+      expect(rest.totalIngested).toBe(1);
+      expect(rest.feedResults[0].fetchStatus).toBe('OK');
+
+      const unchanged = await runIntakeIngestion(rails, [feed]);
+      expect(unchanged.feedResults[0].fetchStatus).toBe('NOT_MODIFIED');
+      expect(politeFetch).toHaveBeenLastCalledWith(
+        feed.url,
+        expect.objectContaining({ headers: { 'If-None-Match': '"v1"' } })
+      );
+    });
+  });
+});
@@ -4,25 +4,27 @@ import type {
   IntakeItem,
   IntakeStatus,
   FeedConfig,
+  FeedPreview,
   IntakeRails,
-  IntakeFeedsConfig,
+  FeedFetchStatus,
   IntakeIngestResult,
   IntakeRunSummary,
+  HtmlListingConfig,
 } from '@ledger/shared';
 import { config } from '../config.js';
 import { putItem, getItem, queryItems, scanItems, countQueryItems, stripKeys } from '../dynamodb.js';
 import { logger } from '../logger.js';
 import { NotFoundError } from '../errors.js';
-import feedsConfig from '../../config/feeds.json' with { type: 'json' };
+import { parseFeed, feedItemDate, type FeedItem } from '../feed-parser.js';
+import { parseHtmlListing } from '../html-listing.js';
+import { politeFetch } from './host-politeness.js';
+import { getFeedHealthRecords, recordIntakeRun, type FeedValidators } from './intake-runs.js';
 
 const TABLE = config.tables.intake;
 
-// Type assertion for imported JSON
-const typedFeedsConfig = feedsConfig as IntakeFeedsConfig;
-
 /**
  * Get rails config with environment variable overrides.
- * Environment variables take precedence over feeds.json values.
+ * Environment variables take precedence over the stored rails.
  *
  * Supported env vars:
  * - INTAKE_MAX_ITEMS_PER_RUN: Override globalRails.maxItemsPerRun
@@ -125,128 +127,17 @@ export function isAllowedDomain(url: string, allowedDomains: string[]): boolean
   }
 }
 
-// ============================================================
-// Rate Limiting
-// ============================================================
-
-interface RateLimiter {
-  lastRequestTime: Map<string, number>;
-  requestCounts: Map<string, number>;
-}
-
-const rateLimiter: RateLimiter = {
-  lastRequestTime: new Map(),
-  requestCounts: new Map(),
-};
-
-/**
- * Wait for rate limit before making request to a host
- */
-export async function waitForRateLimit(host: string, rails: IntakeRails): Promise<void> {
-  const now = Date.now();
-  const lastTime = rateLimiter.lastRequestTime.get(host) || 0;
-  const timeSinceLastRequest = now - lastTime;
-
-  if (timeSinceLastRequest < rails.minDelayMsBetweenRequestsSameHost) {
-    const waitTime = rails.minDelayMsBetweenRequestsSameHost - timeSinceLastRequest;
-    await new Promise((resolve) => setTimeout(resolve, waitTime));
-  }
-
-  rateLimiter.lastRequestTime.set(host, Date.now());
-}
-
-// ============================================================
-// RSS Parsing
-// ============================================================
-
-interface RssItem {
-  title: string;
-  link: string;
-  pubDate?: string;
-  guid?: string;
-  description?: string;
-  categories?: string[];
-}
-
 /** State tracking for round-robin feed processing */
 interface FeedState {
   feed: FeedConfig;
-  items: RssItem[];
+  fetchStatus: FeedFetchStatus;
+  items: FeedItem[];
   cursor: number;
   ingested: number;
   skipped: number;
   errors: string[];
   exhausted: boolean;
-}
-
-/**
- * Parse RSS feed XML and extract items
- * Simple regex-based parser for standard RSS 2.0 feeds
- */
-export function parseRssFeed(xml: string): RssItem[] {
-  const items: RssItem[] = [];
-
-  // Match all <item> blocks
-  const itemRegex = /<item[^>]*>([\s\S]*?)<\/item>/gi;
-  let itemMatch;
-
-  while ((itemMatch = itemRegex.exec(xml)) !== null) {
-    const itemContent = itemMatch[1];
-
-    const title = extractTag(itemContent, 'title');
-    const link = extractTag(itemContent, 'link');
-    const pubDate = extractTag(itemContent, 'pubDate');
-    const guid = extractTag(itemContent, 'guid');
-    const description = extractTag(itemContent, 'description');
-
-    // Extract categories
-    const categories: string[] = [];
-    const categoryRegex = /<category[^>]*>([^<]*)<\/category>/gi;
-    let catMatch;
-    while ((catMatch = categoryRegex.exec(itemContent)) !== null) {
-      categories.push(decodeHtmlEntities(catMatch[1].trim()));
-    }
-
-    if (title && link) {
-      items.push({
-        title: decodeHtmlEntities(title),
-        link: decodeHtmlEntities(link),
-        pubDate: pubDate || undefined,
-        guid: guid || undefined,
-        description: description ? decodeHtmlEntities(description) : undefined,
-        categories: categories.length > 0 ? categories : undefined,
-      });
-    }
-  }
-
-  return items;
-}
-
-function extractTag(content: string, tagName: string): string | null {
-  // Handle CDATA sections
-  const cdataRegex = new RegExp(`<${tagName}[^>]*><!\\[CDATA\\[([\\s\\S]*?)\\]\\]><\\/${tagName}>`, 'i');
-  const cdataMatch = cdataRegex.exec(content);
-  if (cdataMatch) {
-    return cdataMatch[1].trim();
-  }
-
-  // Handle regular content (including content with newlines like SEC feeds)
-  const regex = new RegExp(`<${tagName}[^>]*>([\\s\\S]*?)<\\/${tagName}>`, 'i');
-  const match = regex.exec(content);
-  return match ? match[1].trim() : null;
-}
-
-function decodeHtmlEntities(text: string): string {
-  return text
-    .replace(/&amp;/g, '&')
-    .replace(/&lt;/g, '<')
-    .replace(/&gt;/g, '>')
-    .replace(/&quot;/g, '"')
-    .replace(/&#39;/g, "'")
-    .replace(/&apos;/g, "'")
-    .replace(/&nbsp;/g, ' ')
-    .replace(/&#(\d+);/g, (_, num) => String.fromCharCode(parseInt(num, 10)))
-    .replace(/&#x([0-9a-fA-F]+);/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+  validators?: FeedValidators;  // from a full (non-304) download
 }
 
 /**
@@ -296,30 +187,193 @@ export async function itemExists(dedupeKey: string): Promise<boolean> {
 // Fetch and Ingest
 // ============================================================
 
+const FEED_ACCEPT =
+  'application/rss+xml, application/atom+xml, application/feed+json, application/xml, text/xml, application/json';
+const HTML_ACCEPT = 'text/html, application/xhtml+xml';
+
+// Listing pages to follow per run when a feed doesn't say
+const DEFAULT_LISTING_PAGES = 1;
+
+/** A feed's response could not be parsed (as opposed to not being fetched) */
+export class FeedParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FeedParseError';
+  }
+}
+
+/** A feed fetch: its items, or notModified when a conditional GET came back 304 */
+export interface FeedUpdate {
+  notModified: boolean;
+  items: FeedItem[];
+  validators: FeedValidators;
+}
+
 /**
- * Fetch RSS feed from URL with timeout
+ * Request a page under the rails: the URL must be on an allowed domain, and
+ * the request goes through the shared per-host limits.
  */
-async function fetchFeed(url: string, timeoutMs: number): Promise<string> {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+async function requestWithinRails(
+  url: string,
+  rails: IntakeRails,
+  accept: string,
+  headers?: Record<string, string>
+): Promise<Response> {
+  if (!isAllowedDomain(url, rails.allowedDomains)) {
+    throw new Error(`Feed URL not in allowed domains: ${url}`);
+  }
+  return politeFetch(url, { limits: rails, timeoutMs: rails.fetchTimeoutMs, accept, headers });
+}
 
+async function fetchWithinRails(url: string, rails: IntakeRails, accept: string): Promise<string> {
+  const response = await requestWithinRails(url, rails, accept);
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+  return response.text();
+}
+
+function conditionalHeaders(validators: FeedValidators | undefined): Record<string, string> {
+  return {
+    ...(validators?.etag && { 'If-None-Match': validators.etag }),
+    ...(validators?.lastModified && { 'If-Modified-Since': validators.lastModified }),
+  };
+}
+
+function parseOrThrow<T>(parse: () => T): T {
   try {
-    const response = await fetch(url, {
-      signal: controller.signal,
-      headers: {
-        'User-Agent': 'AccountabilityLedger/1.0 (https://accountabilityledger.org)',
-        Accept: 'application/rss+xml, application/xml, text/xml',
-      },
-    });
+    return parse();
+  } catch (error) {
+    throw new FeedParseError(error instanceof Error ? error.message : 'Unknown error parsing feed');
+  }
+}
 
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+/**
+ * Scrape a listing page, following its next-page links up to the feed's
+ * page limit. Items seen on an earlier page are dropped.
+ */
+async function scrapeListing(
+  feed: FeedConfig,
+  listing: HtmlListingConfig,
+  rails: IntakeRails,
+  firstPage: string
+): Promise<FeedItem[]> {
+  const items: FeedItem[] = [];
+  const seenLinks = new Set<string>();
+  const visited = new Set<string>();
+  const maxPages = listing.maxPages ?? DEFAULT_LISTING_PAGES;
+  let pageUrl: string | undefined = feed.url;
+  let pageHtml: string | undefined = firstPage;
+
+  while (pageUrl && visited.size < maxPages && !visited.has(pageUrl)) {
+    visited.add(pageUrl);
+    const url: string = pageUrl;
+    const html = pageHtml ?? (await fetchWithinRails(url, rails, HTML_ACCEPT));
+    const page = parseOrThrow(() => parseHtmlListing(html, url, listing));
+
+    for (const item of page.items) {
+      if (!seenLinks.has(item.link)) {
+        seenLinks.add(item.link);
+        items.push(item);
+      }
     }
+    pageUrl = page.nextPageUrl;
+    pageHtml = undefined;
+  }
 
-    return await response.text();
-  } finally {
-    clearTimeout(timeoutId);
+  logger.info({ feedId: feed.id, pages: visited.size, itemCount: items.length }, 'Scraped listing');
+  return items;
+}
+
+/**
+ * Fetch a configured feed and return its items, whatever its kind. With
+ * validators from the last run the feed URL is requested conditionally, and
+ * a 304 comes back as notModified with no items.
+ */
+export async function fetchFeedUpdate(
+  feed: FeedConfig,
+  rails: IntakeRails,
+  validators?: FeedValidators
+): Promise<FeedUpdate> {
+  logger.info({ feedId: feed.id, kind: feed.kind ?? 'feed', url: feed.url }, 'Fetching feed');
+
+  if (feed.kind === 'html' && !feed.listing) {
+    throw new Error(`Feed ${feed.id} is an HTML listing but has no listing selectors`);
+  }
+
+  const accept = feed.kind === 'html' ? HTML_ACCEPT : FEED_ACCEPT;
+  const response = await requestWithinRails(feed.url, rails, accept, conditionalHeaders(validators));
+  if (response.status === 304) {
+    logger.info({ feedId: feed.id }, 'Feed not modified since last run');
+    return { notModified: true, items: [], validators: validators ?? {} };
+  }
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  const body = await response.text();
+  const next: FeedValidators = {
+    etag: response.headers.get('etag') ?? undefined,
+    lastModified: response.headers.get('last-modified') ?? undefined,
+  };
+
+  if (feed.kind === 'html' && feed.listing) {
+    return { notModified: false, items: await scrapeListing(feed, feed.listing, rails, body), validators: next };
+  }
+
+  const { format, items } = parseOrThrow(() => parseFeed(body));
+  logger.info({ feedId: feed.id, format, itemCount: items.length }, 'Parsed feed');
+  return { notModified: false, items, validators: next };
+}
+
+/** Fetch a configured feed in full and return its items */
+export async function loadFeedItems(feed: FeedConfig, rails: IntakeRails): Promise<FeedItem[]> {
+  return (await fetchFeedUpdate(feed, rails)).items;
+}
+
+function fetchFailureStatus(error: unknown): FeedFetchStatus {
+  return error instanceof FeedParseError ? 'PARSE_ERROR' : 'FETCH_ERROR';
+}
+
+// Items returned by a test fetch
+const PREVIEW_LIMIT = 20;
+
+/**
+ * Fetch a feed and report what ingestion would make of its items, without
+ * saving anything. Fetch and parse failures are returned, not thrown.
+ */
+export async function previewFeed(feed: FeedConfig, rails: IntakeRails): Promise<FeedPreview> {
+  let items: FeedItem[];
+  try {
+    items = await loadFeedItems(feed, rails);
+  } catch (error) {
+    return {
+      feedId: feed.id,
+      itemCount: 0,
+      items: [],
+      error: error instanceof Error ? error.message : 'Unknown error fetching feed',
+    };
+  }
+
+  const preview: FeedPreview = { feedId: feed.id, itemCount: items.length, items: [] };
+  for (const feedItem of items.slice(0, PREVIEW_LIMIT)) {
+    const itemDate = feedItemDate(feedItem);
+    const allowed = isAllowedDomain(feedItem.link, rails.allowedDomains);
+    const canonicalUrl = allowed ? canonicalizeUrl(feedItem.link, rails.stripQueryParams) : undefined;
+
+    preview.items.push({
+      title: feedItem.title,
+      link: feedItem.link,
+      canonicalUrl,
+      publishedAt: itemDate,
+      allowed,
+      alreadyIngested: canonicalUrl
+        ? await itemExists(generateDedupeKey(canonicalUrl, itemDate ?? 'UNDATED'))
+        : false,
+    });
   }
+
+  return preview;
 }
 
 /**
@@ -356,60 +410,45 @@ export async function processFeed(
 ): Promise<IntakeIngestResult> {
   const result: IntakeIngestResult = {
     feedId: feed.id,
+    fetchStatus: 'OK',
     itemsIngested: 0,
     itemsSkipped: 0,
     errors: [],
   };
 
   try {
-    // Check domain allowlist
-    if (!isAllowedDomain(feed.url, rails.allowedDomains)) {
-      result.errors.push(`Feed URL not in allowed domains: ${feed.url}`);
-      return result;
-    }
-
-    // Rate limit
-    const host = new URL(feed.url).hostname;
-    await waitForRateLimit(host, rails);
-
-    // Fetch feed
-    logger.info({ feedId: feed.id, url: feed.url }, 'Fetching RSS feed');
-    const xml = await fetchFeed(feed.url, rails.fetchTimeoutMs);
-
-    // Parse feed
-    const items = parseRssFeed(xml);
-    logger.info({ feedId: feed.id, itemCount: items.length }, 'Parsed RSS feed');
+    const items = await loadFeedItems(feed, rails);
 
     // Process items (up to per-feed cap)
     let processed = 0;
 
-    for (const rssItem of items) {
+    for (const feedItem of items) {
       if (processed >= feed.perFeedCap) {
         break;
       }
 
       try {
         // Validate link domain
-        if (!isAllowedDomain(rssItem.link, rails.allowedDomains)) {
-          logger.debug({ link: rssItem.link }, 'Skipping item: link not in allowed domains');
+        if (!isAllowedDomain(feedItem.link, rails.allowedDomains)) {
+          logger.debug({ link: feedItem.link }, 'Skipping item: link not in allowed domains');
           result.itemsSkipped++;
           continue;
         }
 
         // Canonicalize URL
-        const canonicalUrl = canonicalizeUrl(rssItem.link, rails.stripQueryParams);
+        const canonicalUrl = canonicalizeUrl(feedItem.link, rails.stripQueryParams);
 
         // Parse and normalize published date
-        const publishedAt = rssItem.pubDate
-          ? new Date(rssItem.pubDate).toISOString()
-          : new Date().toISOString();
+        const itemDate = feedItemDate(feedItem);
+        const publishedAt = itemDate ?? new Date().toISOString();
 
-        // Generate dedupe key
-        const dedupeKey = generateDedupeKey(canonicalUrl, publishedAt);
+        // Generate dedupe key. Undated items (common on listing pages) key on
+        // the URL alone, or every run would see them as new.
+        const dedupeKey = generateDedupeKey(canonicalUrl, itemDate ?? 'UNDATED');
 
         // Check if already exists
         if (await itemExists(dedupeKey)) {
-          logger.debug({ dedupeKey, title: rssItem.title }, 'Skipping duplicate item');
+          logger.debug({ dedupeKey, title: feedItem.title }, 'Skipping duplicate item');
           result.itemsSkipped++;
           continue;
         }
@@ -419,12 +458,12 @@ export async function processFeed(
           intakeId: ulid(),
           feedId: feed.id,
           canonicalUrl,
-          title: rssItem.title,
+          title: feedItem.title,
           publishedAt,
           publisher: feed.publisher,
-          summary: rssItem.description ? stripHtml(rssItem.description) : undefined,
-          categories: rssItem.categories,
-          guid: rssItem.guid,
+          summary: feedItem.description ? stripHtml(feedItem.description) : undefined,
+          categories: feedItem.categories,
+          guid: feedItem.guid,
           dedupeKey,
           status: 'NEW' as IntakeStatus,
           suggestedTags: feed.defaultTags,
@@ -440,13 +479,14 @@ export async function processFeed(
       } catch (itemError) {
         const errorMessage =
           itemError instanceof Error ? itemError.message : 'Unknown error processing item';
-        result.errors.push(`Item "${rssItem.title}": ${errorMessage}`);
-        logger.error({ error: itemError, title: rssItem.title }, 'Error processing RSS item');
+        result.errors.push(`Item "${feedItem.title}": ${errorMessage}`);
+        logger.error({ error: itemError, title: feedItem.title }, 'Error processing feed item');
       }
     }
   } catch (feedError) {
     const errorMessage =
       feedError instanceof Error ? feedError.message : 'Unknown error fetching feed';
+    result.fetchStatus = fetchFailureStatus(feedError);
     result.errors.push(errorMessage);
     logger.error({ error: feedError, feedId: feed.id }, 'Error processing feed');
   }
@@ -461,14 +501,15 @@ export async function processFeed(
  * before taking additional items from any feed. This prevents early feeds from
  * exhausting the global limit.
  */
-export async function runIntakeIngestion(): Promise<IntakeRunSummary> {
+export async function runIntakeIngestion(
+  baseRails: IntakeRails,
+  feeds: FeedConfig[]
+): Promise<IntakeRunSummary> {
   const runId = ulid();
   const startedAt = new Date().toISOString();
 
   logger.info({ runId }, 'Starting intake ingestion run');
 
-  const { globalRails: baseRails, feeds } = typedFeedsConfig;
-
   // Apply environment variable overrides
   const rails = getRailsWithEnvOverrides(baseRails);
 
@@ -483,12 +524,16 @@ export async function runIntakeIngestion(): Promise<IntakeRunSummary> {
 
   const enabledFeeds = feeds.filter((f) => f.enabled);
 
+  // Validators from earlier runs make the fetches conditional
+  const health = await getFeedHealthRecords();
+
   const feedStates: FeedState[] = [];
 
   // Fetch all feeds first
   for (const feed of enabledFeeds) {
     const state: FeedState = {
       feed,
+      fetchStatus: 'OK',
       items: [],
       cursor: 0,
       ingested: 0,
@@ -498,24 +543,17 @@ export async function runIntakeIngestion(): Promise<IntakeRunSummary> {
     };
 
     try {
-      // Check domain allowlist
-      if (!isAllowedDomain(feed.url, rails.allowedDomains)) {
-        state.errors.push(`Feed URL not in allowed domains: ${feed.url}`);
-        state.exhausted = true;
+      const update = await fetchFeedUpdate(feed, rails, health.get(feed.id));
+      state.items = update.items;
+      if (update.notModified) {
+        state.fetchStatus = 'NOT_MODIFIED';
       } else {
-        // Rate limit
-        const host = new URL(feed.url).hostname;
-        await waitForRateLimit(host, rails);
-
-        // Fetch and parse feed
-        logger.info({ feedId: feed.id, url: feed.url }, 'Fetching RSS feed');
-        const xml = await fetchFeed(feed.url, rails.fetchTimeoutMs);
-        state.items = parseRssFeed(xml);
-        logger.info({ feedId: feed.id, itemCount: state.items.length }, 'Parsed RSS feed');
+        state.validators = update.validators;
       }
     } catch (feedError) {
       const errorMessage =
         feedError instanceof Error ? feedError.message : 'Unknown error fetching feed';
+      state.fetchStatus = fetchFailureStatus(feedError);
       state.errors.push(errorMessage);
       state.exhausted = true;
       logger.error({ error: feedError, feedId: feed.id }, 'Error fetching feed');
@@ -556,9 +594,20 @@ export async function runIntakeIngestion(): Promise<IntakeRunSummary> {
     }
   }
 
+  // Only a feed read to the end without errors may be skipped with a 304
+  // next run; a feed cut off by the caps, or with an item that failed to
+  // save, keeps its old validators so the unread items are fetched again
+  const validators = new Map<string, FeedValidators>();
+  for (const state of feedStates) {
+    if (state.validators && state.cursor >= state.items.length && state.errors.length === 0) {
+      validators.set(state.feed.id, state.validators);
+    }
+  }
+
   // Build results summary
   const feedResults: IntakeIngestResult[] = feedStates.map((state) => ({
     feedId: state.feed.id,
+    fetchStatus: state.fetchStatus,
     itemsIngested: state.ingested,
     itemsSkipped: state.skipped,
     errors: state.errors,
@@ -578,6 +627,7 @@ export async function runIntakeIngestion(): Promise<IntakeRunSummary> {
   // Log which feeds were processed
   const feedSummary = feedStates.map((s) => ({
     feedId: s.feed.id,
+    fetchStatus: s.fetchStatus,
     ingested: s.ingested,
     skipped: s.skipped,
     errors: s.errors.length,
@@ -588,6 +638,16 @@ export async function runIntakeIngestion(): Promise<IntakeRunSummary> {
     'Completed intake ingestion run'
   );
 
+  // The items are saved either way; a failure here only loses the history
+  try {
+    await recordIntakeRun(summary, validators);
+  } catch (error) {
+    logger.error(
+      { runId, error: error instanceof Error ? error.message : 'Unknown error' },
+      'Failed to record intake run'
+    );
+  }
+
   return summary;
 }
 
@@ -600,31 +660,31 @@ async function processNextItem(
   rails: IntakeRails
 ): Promise<'ingested' | 'skipped' | 'exhausted'> {
   while (state.cursor < state.items.length) {
-    const rssItem = state.items[state.cursor];
+    const feedItem = state.items[state.cursor];
     state.cursor++;
 
     try {
       // Validate link domain
-      if (!isAllowedDomain(rssItem.link, rails.allowedDomains)) {
-        logger.debug({ link: rssItem.link }, 'Skipping item: link not in allowed domains');
+      if (!isAllowedDomain(feedItem.link, rails.allowedDomains)) {
+        logger.debug({ link: feedItem.link }, 'Skipping item: link not in allowed domains');
         state.skipped++;
         return 'skipped';
       }
 
       // Canonicalize URL
-      const canonicalUrl = canonicalizeUrl(rssItem.link, rails.stripQueryParams);
+      const canonicalUrl = canonicalizeUrl(feedItem.link, rails.stripQueryParams);
 
       // Parse and normalize published date
-      const publishedAt = rssItem.pubDate
-        ? new Date(rssItem.pubDate).toISOString()
-        : new Date().toISOString();
+      const itemDate = feedItemDate(feedItem);
+      const publishedAt = itemDate ?? new Date().toISOString();
 
-      // Generate dedupe key
-      const dedupeKey = generateDedupeKey(canonicalUrl, publishedAt);
+      // Generate dedupe key. Undated items (common on listing pages) key on
+      // the URL alone, or every run would see them as new.
+      const dedupeKey = generateDedupeKey(canonicalUrl, itemDate ?? 'UNDATED');
 
       // Check if already exists
       if (await itemExists(dedupeKey)) {
-        logger.debug({ dedupeKey, title: rssItem.title }, 'Skipping duplicate item');
+        logger.debug({ dedupeKey, title: feedItem.title }, 'Skipping duplicate item');
         state.skipped++;
         return 'skipped';
       }
@@ -634,12 +694,12 @@ async function processNextItem(
         intakeId: ulid(),
         feedId: state.feed.id,
         canonicalUrl,
-        title: rssItem.title,
+        title: feedItem.title,
         publishedAt,
         publisher: state.feed.publisher,
-        summary: rssItem.description ? stripHtml(rssItem.description) : undefined,
-        categories: rssItem.categories,
-        guid: rssItem.guid,
+        summary: feedItem.description ? stripHtml(feedItem.description) : undefined,
+        categories: feedItem.categories,
+        guid: feedItem.guid,
         dedupeKey,
         status: 'NEW' as IntakeStatus,
         suggestedTags: state.feed.defaultTags,
@@ -659,8 +719,8 @@ async function processNextItem(
     } catch (itemError) {
       const errorMessage =
         itemError instanceof Error ? itemError.message : 'Unknown error processing item';
-      state.errors.push(`Item "${rssItem.title}": ${errorMessage}`);
-      logger.error({ error: itemError, title: rssItem.title }, 'Error processing RSS item');
+      state.errors.push(`Item "${feedItem.title}": ${errorMessage}`);
+      logger.error({ error: itemError, title: feedItem.title }, 'Error processing feed item');
       state.skipped++;
       return 'skipped';
     }
@@ -836,6 +896,38 @@ export async function markIntakePromoted(
   return updated;
 }
 
+/**
+ * Put a promoted item back to NEW. Used to roll back a cluster promotion
+ * that had already marked this member.
+ */
+export async function unmarkIntakePromoted(
+  feedId: string,
+  publishedAt: string,
+  intakeId: string
+): Promise<IntakeItem> {
+  const existing = await getIntakeItemByKey(feedId, publishedAt, intakeId);
+  const updated: IntakeItem = { ...existing, status: 'NEW' };
+  delete updated.promotedSourceId;
+  delete updated.promotedCardId;
+  delete updated.reviewedAt;
+  delete updated.reviewedBy;
+
+  await putItem({
+    TableName: TABLE,
+    Item: {
+      PK: `FEED#${feedId}`,
+      SK: `TS#${publishedAt}#${intakeId}`,
+      GSI1PK: 'STATUS#NEW',
+      GSI1SK: `TS#${existing.ingestedAt}`,
+      GSI2PK: `DEDUPE#${existing.dedupeKey}`,
+      GSI2SK: intakeId,
+      ...updated,
+    },
+  });
+
+  return updated;
+}
+
 /**
  * Update an intake item with extraction results or other partial updates.
  * Used by the LLM extraction pipeline to store suggested entities and relationships.
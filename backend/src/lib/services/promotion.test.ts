@@ -0,0 +1,487 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { IntakePromotion } from '@ledger/shared';
+import { promoteIntake, type PromoteIntakeRequest } from './promotion.js';
+import * as dynamodb from '../dynamodb.js';
+import * as intake from './intake.js';
+import * as entities from './entities.js';
+import * as sources from './sources.js';
+import * as cards from './cards.js';
+import * as relationships from './relationships.js';
+import * as intakeClusters from './intake-clusters.js';
+import { ConflictError, NotFoundError } from '../errors.js';
+import { makeIntakeItem } from '../../test-utils/fixtures.js';
+
+vi.mock('../dynamodb.js', () => ({
+  updateItem: vi.fn(() => Promise.resolve({})),
+  isConditionalCheckFailed: vi.fn(
+    (error: unknown) => (error as { name?: string })?.name === 'ConditionalCheckFailedException'
+  ),
+}));
+
+vi.mock('./intake.js', () => ({
+  getIntakeItem: vi.fn(),
+  markIntakePromoted: vi.fn(() => Promise.resolve({})),
+  unmarkIntakePromoted: vi.fn(() => Promise.resolve({})),
+}));
+
+vi.mock('./intake-clusters.js', () => ({
+  getClusterItems: vi.fn(() => Promise.resolve([])),
+}));
+
+vi.mock('./entities.js', () => ({
+  createEntity: vi.fn(() => Promise.resolve({})),
+  deleteEntity: vi.fn(() => Promise.resolve()),
+  getEntity: vi.fn(),
+}));
+
+vi.mock('./sources.js', () => ({
+  createSource: vi.fn(() => Promise.resolve({})),
+  deleteSource: vi.fn(() => Promise.resolve()),
+  getSource: vi.fn(),
+  autoVerifySource: vi.fn(() => Promise.resolve({})),
+  attachIntakeSnapshot: vi.fn(() => Promise.resolve({})),
+  captureHtmlSnapshot: vi.fn(() => Promise.resolve({})),
+}));
+
+vi.mock('./cards.js', () => ({
+  createCard: vi.fn(() => Promise.resolve({})),
+  deleteDraftCard: vi.fn(() => Promise.resolve()),
+  getCard: vi.fn(),
+}));
+
+vi.mock('./relationships.js', () => ({
+  createRelationship: vi.fn(() => Promise.resolve({})),
+  deleteRelationship: vi.fn(() => Promise.resolve()),
+}));
+
+vi.mock('../config.js', () => ({
+  config: {
+    tables: {
+      intake: 'test-intake-table',
+    },
+  },
+}));
+
+const request: PromoteIntakeRequest = {
+  entities: [{ entityId: 'entity-ftc' }, { create: { name: 'Acme Corp', type: 'CORPORATION' } }],
+  relationships: [{ from: { index: 1 }, to: { entityId: 'entity-ftc' }, type: 'REGULATED_BY' }],
+  card: { summary: 'The FTC fined Acme Corp.', category: 'consumer', tags: ['billing'] },
+};
+
+// The promotion as it would be saved by the first, interrupted run
+async function plannedPromotion(): Promise<IntakePromotion> {
+  vi.mocked(intake.getIntakeItem).mockResolvedValueOnce(makeIntakeItem());
+  vi.mocked(cards.createCard).mockRejectedValueOnce(new Error('stop'));
+  await expect(promoteIntake('intake-1', request, 'admin-1')).rejects.toThrow('stop');
+  const firstSave = vi.mocked(dynamodb.updateItem).mock.calls[0][0];
+  vi.clearAllMocks();
+  return firstSave.ExpressionAttributeValues![':promotion'] as IntakePromotion;
+}
+
+function savedPromotions(): IntakePromotion[] {
+  return vi
+    .mocked(dynamodb.updateItem)
+    .mock.calls.map(([params]) => params.ExpressionAttributeValues![':promotion'] as IntakePromotion);
+}
+
+describe('promotion service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(entities.getEntity).mockRejectedValue(new NotFoundError('Entity', 'x'));
+    vi.mocked(cards.getCard).mockRejectedValue(new NotFoundError('Card', 'x'));
+    // Missing until CREATE_SOURCE writes it
+    vi.mocked(sources.getSource)
+      .mockReset()
+      .mockRejectedValueOnce(new NotFoundError('Source', 'x'))
+      .mockResolvedValue({ sourceId: 'source-1' } as never);
+  });
+
+  describe('promoteIntake', () => {
+    it('creates every record under the IDs assigned in the plan', async () => {
+      vi.mocked(intake.getIntakeItem).mockResolvedValueOnce(makeIntakeItem());
+
+      const { promotion, replayed } = await promoteIntake('intake-1', request, 'admin-1');
+
+      expect(replayed).toBe(false);
+      expect(promotion.status).toBe('COMPLETED');
+      expect(promotion.steps.map((s) => s.type)).toEqual([
+        'CREATE_ENTITY',
+        'CREATE_SOURCE',
+        'CAPTURE_SNAPSHOT',
+        'CREATE_CARD',
+        'CREATE_RELATIONSHIP',
+        'MARK_PROMOTED',
+      ]);
+      expect(promotion.steps.every((s) => s.status === 'DONE')).toBe(true);
+
+      const newEntityId = promotion.steps[0].targetId;
+      expect(promotion.entityIds).toEqual(['entity-ftc', newEntityId]);
+      expect(entities.createEntity).toHaveBeenCalledWith(
+        { name: 'Acme Corp', type: 'CORPORATION', aliases: [] },
+        'admin-1',
+        newEntityId
+      );
+      expect(sources.createSource).toHaveBeenCalledWith(
+        expect.objectContaining({ url: 'https://www.ftc.gov/news/acme', docType: 'HTML' }),
+        'admin-1',
+        promotion.sourceId
+      );
+      expect(cards.createCard).toHaveBeenCalledWith(
+        expect.objectContaining({
+          entityIds: ['entity-ftc', newEntityId],
+          sourceRefs: [promotion.sourceId],
+          eventDate: '2024-02-12',
+        }),
+        'admin-1',
+        promotion.cardId
+      );
+      expect(relationships.createRelationship).toHaveBeenCalledWith(
+        expect.objectContaining({ fromEntityId: newEntityId, toEntityId: 'entity-ftc' }),
+        'admin-1',
+        promotion.steps[4].targetId
+      );
+      expect(intake.markIntakePromoted).toHaveBeenCalledWith(
+        'ftc-press',
+        '2024-02-12T15:00:00.000Z',
+        'intake-1',
+        promotion.sourceId,
+        promotion.cardId,
+        'admin-1'
+      );
+    });
+
+    it('guards each save with the revision it last wrote', async () => {
+      vi.mocked(intake.getIntakeItem).mockResolvedValueOnce(makeIntakeItem());
+
+      await promoteIntake('intake-1', request, 'admin-1');
+
+      const calls = vi.mocked(dynamodb.updateItem).mock.calls.map(([params]) => params);
+      expect(calls[0].ConditionExpression).toBe('attribute_not_exists(#promotion)');
+      expect(calls[0].Key).toEqual({
+        PK: 'FEED#ftc-press',
+        SK: 'TS#2024-02-12T15:00:00.000Z#intake-1',
+      });
+      calls.slice(1).forEach((params, i) => {
+        expect(params.ConditionExpression).toBe('#promotion.#revision = :revision');
+        expect(params.ExpressionAttributeValues![':revision']).toBe(i + 1);
+      });
+    });
+
+    it('verifies the source when asked to', async () => {
+      vi.mocked(intake.getIntakeItem).mockResolvedValueOnce(makeIntakeItem());
+
+      const { promotion } = await promoteIntake('intake-1', { ...request, verifySource: true }, 'editor');
+
+      expect(sources.autoVerifySource).toHaveBeenCalledWith(promotion.sourceId, 'editor');
+    });
+
+    it('uses the snapshot taken at ingestion instead of fetching the page again', async () => {
+      const snapshot = {
+        url: 'https://www.ftc.gov/news/acme',
+        bucket: 'test-sources-bucket',
+        key: 'intake/intake-1/abc123.pdf',
+        sha256: 'abc123',
+        byteLength: 2048,
+        mimeType: 'application/pdf',
+        capturedAt: '2024-02-12T16:00:00.000Z',
+      };
+      vi.mocked(intake.getIntakeItem).mockResolvedValueOnce(makeIntakeItem({ snapshot }));
+
+      const { promotion } = await promoteIntake('intake-1', request, 'admin-1');
+
+      expect(sources.createSource).toHaveBeenCalledWith(
+        expect.objectContaining({ docType: 'PDF' }),
+        'admin-1',
+        promotion.sourceId
+      );
+      expect(sources.attachIntakeSnapshot).toHaveBeenCalledWith(promotion.sourceId, snapshot, 'admin-1');
+      expect(sources.captureHtmlSnapshot).not.toHaveBeenCalled();
+    });
+
+    it('attaches PDFs the page linked to at ingestion as sources of the card', async () => {
+      const pageSnapshot = {
+        url: 'https://www.ftc.gov/news/acme',
+        bucket: 'test-sources-bucket',
+        key: 'intake/intake-1/page.html',
+        sha256: 'page',
+        byteLength: 4096,
+        mimeType: 'text/html',
+        capturedAt: '2024-02-12T16:00:00.000Z',
+      };
+      const complaint = {
+        ...pageSnapshot,
+        url: 'https://www.ftc.gov/system/files/acme%20complaint.pdf',
+        key: 'intake/intake-1/complaint.pdf',
+        sha256: 'complaint',
+        mimeType: 'application/pdf',
+      };
+      vi.mocked(intake.getIntakeItem).mockResolvedValueOnce(
+        makeIntakeItem({ snapshot: pageSnapshot, linkedPdfSnapshots: [complaint] })
+      );
+      vi.mocked(sources.getSource)
+        .mockReset()
+        .mockRejectedValueOnce(new NotFoundError('Source', 'x'))
+        .mockResolvedValueOnce({ sourceId: 'source-1' } as never)
+        .mockRejectedValueOnce(new NotFoundError('Source', 'x'))
+        .mockResolvedValue({ sourceId: 'source-2' } as never);
+
+      const { promotion } = await promoteIntake('intake-1', { ...request, verifySource: true }, 'admin-1');
+
+      expect(promotion.steps.map((s) => [s.type, s.linkedPdfUrl])).toEqual([
+        ['CREATE_ENTITY', undefined],
+        ['CREATE_SOURCE', undefined],
+        ['VERIFY_SOURCE', undefined],
+        ['CAPTURE_SNAPSHOT', undefined],
+        ['CREATE_SOURCE', complaint.url],
+        ['VERIFY_SOURCE', complaint.url],
+        ['CAPTURE_SNAPSHOT', complaint.url],
+        ['CREATE_CARD', undefined],
+        ['CREATE_RELATIONSHIP', undefined],
+        ['MARK_PROMOTED', undefined],
+      ]);
+      const pdfSourceId = promotion.steps[4].targetId;
+      expect(sources.createSource).toHaveBeenLastCalledWith(
+        {
+          title: 'FTC fines Acme Corp over deceptive billing (acme complaint.pdf)',
+          publisher: 'Federal Trade Commission',
+          url: complaint.url,
+          docType: 'PDF',
+        },
+        'admin-1',
+        pdfSourceId
+      );
+      expect(sources.autoVerifySource).toHaveBeenCalledWith(pdfSourceId, 'admin-1');
+      expect(sources.attachIntakeSnapshot).toHaveBeenCalledWith(pdfSourceId, complaint, 'admin-1');
+      expect(sources.captureHtmlSnapshot).not.toHaveBeenCalled();
+      expect(cards.createCard).toHaveBeenCalledWith(
+        expect.objectContaining({ sourceRefs: [promotion.sourceId, pdfSourceId] }),
+        'admin-1',
+        promotion.cardId
+      );
+      // The item is still marked with the source made from its page
+      expect(intake.markIntakePromoted).toHaveBeenCalledWith(
+        'ftc-press',
+        '2024-02-12T15:00:00.000Z',
+        'intake-1',
+        promotion.sourceId,
+        promotion.cardId,
+        'admin-1'
+      );
+    });
+
+    it('finishes the promotion when the snapshot cannot be captured', async () => {
+      vi.mocked(intake.getIntakeItem).mockResolvedValueOnce(makeIntakeItem());
+      vi.mocked(sources.captureHtmlSnapshot).mockRejectedValueOnce(new Error('HTTP 503: Service Unavailable'));
+
+      const { promotion } = await promoteIntake('intake-1', request, 'admin-1');
+
+      expect(promotion.status).toBe('COMPLETED');
+      expect(promotion.steps.find((s) => s.type === 'CAPTURE_SNAPSHOT')).toMatchObject({
+        status: 'SKIPPED',
+        error: 'HTTP 503: Service Unavailable',
+      });
+    });
+
+    it('attaches the NEW items in the story cluster as sources of the card', async () => {
+      const item = makeIntakeItem({ clusterId: 'cluster-1' });
+      const doj = makeIntakeItem({
+        intakeId: 'intake-2',
+        feedId: 'doj-press',
+        canonicalUrl: 'https://www.justice.gov/opa/pr/acme',
+        publisher: 'Department of Justice',
+        clusterId: 'cluster-1',
+      });
+      const rejected = makeIntakeItem({ intakeId: 'intake-3', feedId: 'sec-litigation', status: 'REJECTED' });
+      vi.mocked(intake.getIntakeItem).mockResolvedValueOnce(item).mockResolvedValueOnce(doj);
+      vi.mocked(intakeClusters.getClusterItems).mockResolvedValueOnce([item, doj, rejected]);
+      vi.mocked(sources.getSource)
+        .mockReset()
+        .mockRejectedValueOnce(new NotFoundError('Source', 'x'))
+        .mockResolvedValueOnce({ sourceId: 'source-1' } as never)
+        .mockRejectedValueOnce(new NotFoundError('Source', 'x'))
+        .mockResolvedValue({ sourceId: 'source-2' } as never);
+
+      const { promotion } = await promoteIntake('intake-1', { ...request, includeCluster: true }, 'admin-1');
+
+      expect(promotion.steps.map((s) => [s.type, s.intakeId])).toEqual([
+        ['CREATE_ENTITY', undefined],
+        ['CREATE_SOURCE', undefined],
+        ['CAPTURE_SNAPSHOT', undefined],
+        ['CREATE_SOURCE', 'intake-2'],
+        ['CAPTURE_SNAPSHOT', 'intake-2'],
+        ['CREATE_CARD', undefined],
+        ['CREATE_RELATIONSHIP', undefined],
+        ['MARK_PROMOTED', 'intake-2'],
+        ['MARK_PROMOTED', undefined],
+      ]);
+      const memberSourceId = promotion.steps[3].targetId;
+      expect(sources.createSource).toHaveBeenLastCalledWith(
+        expect.objectContaining({ url: 'https://www.justice.gov/opa/pr/acme', publisher: 'Department of Justice' }),
+        'admin-1',
+        memberSourceId
+      );
+      expect(cards.createCard).toHaveBeenCalledWith(
+        expect.objectContaining({ sourceRefs: [promotion.sourceId, memberSourceId] }),
+        'admin-1',
+        promotion.cardId
+      );
+      expect(intake.markIntakePromoted).toHaveBeenCalledWith(
+        'doj-press',
+        doj.publishedAt,
+        'intake-2',
+        memberSourceId,
+        promotion.cardId,
+        'admin-1'
+      );
+    });
+
+    it('puts cluster members back to NEW when the promotion is rolled back', async () => {
+      const item = makeIntakeItem({ clusterId: 'cluster-1' });
+      const doj = makeIntakeItem({ intakeId: 'intake-2', feedId: 'doj-press', clusterId: 'cluster-1' });
+      vi.mocked(intake.getIntakeItem).mockResolvedValueOnce(item).mockResolvedValueOnce(doj);
+      vi.mocked(intakeClusters.getClusterItems).mockResolvedValueOnce([item, doj]);
+      vi.mocked(intake.markIntakePromoted)
+        .mockResolvedValueOnce({} as never)
+        .mockRejectedValueOnce(new Error('Throughput exceeded'));
+
+      await expect(promoteIntake('intake-1', { ...request, includeCluster: true }, 'admin-1')).rejects.toThrow(
+        'Throughput exceeded'
+      );
+
+      expect(savedPromotions().at(-1)!.status).toBe('ROLLED_BACK');
+      expect(intake.unmarkIntakePromoted).toHaveBeenCalledWith('doj-press', doj.publishedAt, 'intake-2');
+      expect(sources.deleteSource).toHaveBeenCalledTimes(2);
+    });
+
+    it('deletes what it created when a step fails', async () => {
+      vi.mocked(intake.getIntakeItem).mockResolvedValueOnce(makeIntakeItem());
+      vi.mocked(relationships.createRelationship).mockRejectedValueOnce(new Error('Throughput exceeded'));
+
+      await expect(promoteIntake('intake-1', request, 'admin-1')).rejects.toThrow('Throughput exceeded');
+
+      const final = savedPromotions().at(-1)!;
+      expect(final.status).toBe('ROLLED_BACK');
+      expect(final.error).toBe('Throughput exceeded');
+      const [entityStep, sourceStep, , cardStep, relStep, markStep] = final.steps;
+      expect(relationships.deleteRelationship).toHaveBeenCalledWith(relStep.targetId);
+      expect(cards.deleteDraftCard).toHaveBeenCalledWith(cardStep.targetId);
+      expect(sources.deleteSource).toHaveBeenCalledWith(sourceStep.targetId);
+      expect(entities.deleteEntity).toHaveBeenCalledWith(entityStep.targetId);
+      expect(markStep.status).toBe('PENDING');
+      expect(intake.markIntakePromoted).not.toHaveBeenCalled();
+    });
+
+    it('records a rollback that could not finish', async () => {
+      vi.mocked(intake.getIntakeItem).mockResolvedValueOnce(makeIntakeItem());
+      vi.mocked(cards.createCard).mockRejectedValueOnce(new Error('Throughput exceeded'));
+      vi.mocked(sources.deleteSource).mockRejectedValueOnce(new Error('Access denied'));
+
+      await expect(promoteIntake('intake-1', request, 'admin-1')).rejects.toThrow('Throughput exceeded');
+
+      const final = savedPromotions().at(-1)!;
+      expect(final.status).toBe('ROLLBACK_FAILED');
+      expect(final.error).toContain('Access denied');
+      expect(entities.deleteEntity).not.toHaveBeenCalled();
+    });
+
+    it('resumes an interrupted promotion without recreating finished records', async () => {
+      const planned = await plannedPromotion();
+      const [entityStep, sourceStep, snapshotStep] = planned.steps;
+      const interrupted: IntakePromotion = {
+        ...planned,
+        steps: planned.steps.map((s) =>
+          s === entityStep || s === sourceStep || s === snapshotStep ? { ...s, status: 'DONE' } : s
+        ),
+      };
+      // The card was written but the process died before its step was saved
+      vi.mocked(intake.getIntakeItem).mockResolvedValueOnce(makeIntakeItem({ promotion: interrupted }));
+      vi.mocked(cards.getCard).mockResolvedValueOnce({ cardId: planned.cardId } as never);
+
+      const { promotion } = await promoteIntake('intake-1', request, 'admin-1');
+
+      expect(promotion.promotionId).toBe(planned.promotionId);
+      expect(promotion.status).toBe('COMPLETED');
+      expect(entities.createEntity).not.toHaveBeenCalled();
+      expect(sources.createSource).not.toHaveBeenCalled();
+      expect(cards.createCard).not.toHaveBeenCalled();
+      expect(relationships.createRelationship).toHaveBeenCalledTimes(1);
+      expect(vi.mocked(dynamodb.updateItem).mock.calls[0][0].ExpressionAttributeValues![':revision']).toBe(
+        planned.revision
+      );
+    });
+
+    it('returns a finished promotion when the same request is retried', async () => {
+      const planned = await plannedPromotion();
+      const completed: IntakePromotion = { ...planned, status: 'COMPLETED' };
+      vi.mocked(intake.getIntakeItem).mockResolvedValueOnce(makeIntakeItem({ status: 'PROMOTED', promotion: completed }));
+
+      const result = await promoteIntake('intake-1', request, 'admin-1');
+
+      expect(result).toEqual({ promotion: completed, replayed: true });
+      expect(dynamodb.updateItem).not.toHaveBeenCalled();
+    });
+
+    it('rejects a different request for an item already being promoted', async () => {
+      const planned = await plannedPromotion();
+      vi.mocked(intake.getIntakeItem).mockResolvedValueOnce(makeIntakeItem({ promotion: planned }));
+
+      await expect(
+        promoteIntake('intake-1', { ...request, card: { ...request.card, summary: 'Other' } }, 'admin-1')
+      ).rejects.toThrow(ConflictError);
+    });
+
+    it('rolls back a plan its request abandoned and starts the new one', async () => {
+      const planned = await plannedPromotion();
+      const [entityStep, sourceStep, snapshotStep, cardStep] = planned.steps;
+      const abandoned: IntakePromotion = {
+        ...planned,
+        steps: planned.steps.map((s) => (s === entityStep || s === sourceStep ? { ...s, status: 'DONE' } : s)),
+        updatedAt: new Date(Date.now() - 5 * 60_000).toISOString(),
+      };
+      vi.mocked(intake.getIntakeItem).mockResolvedValueOnce(makeIntakeItem({ promotion: abandoned }));
+      const other = { ...request, card: { ...request.card, summary: 'Other' } };
+
+      const { promotion } = await promoteIntake('intake-1', other, 'admin-2');
+
+      const [rolledBack] = savedPromotions();
+      expect(rolledBack.status).toBe('ROLLED_BACK');
+      // The step that was running when the request died is undone too
+      expect(rolledBack.steps.find((s) => s.targetId === snapshotStep.targetId)?.status).toBe('ROLLED_BACK');
+      expect(rolledBack.steps.find((s) => s.targetId === cardStep.targetId)?.status).toBe('PENDING');
+      expect(entities.deleteEntity).toHaveBeenCalledWith(entityStep.targetId);
+      expect(sources.deleteSource).toHaveBeenCalledWith(sourceStep.targetId);
+      expect(promotion.promotionId).not.toBe(planned.promotionId);
+      expect(promotion.status).toBe('COMPLETED');
+      expect(promotion.actorId).toBe('admin-2');
+    });
+
+    it('plans afresh after a rolled-back attempt', async () => {
+      const planned = await plannedPromotion();
+      vi.mocked(intake.getIntakeItem).mockResolvedValueOnce(
+        makeIntakeItem({ promotion: { ...planned, status: 'ROLLED_BACK', revision: 7 } })
+      );
+
+      const { promotion } = await promoteIntake('intake-1', request, 'admin-1');
+
+      expect(promotion.promotionId).not.toBe(planned.promotionId);
+      expect(promotion.cardId).not.toBe(planned.cardId);
+      expect(vi.mocked(dynamodb.updateItem).mock.calls[0][0].ExpressionAttributeValues![':revision']).toBe(7);
+    });
+
+    it('reports a concurrent run as a conflict', async () => {
+      vi.mocked(intake.getIntakeItem).mockResolvedValueOnce(makeIntakeItem());
+      vi.mocked(dynamodb.updateItem).mockRejectedValueOnce(
+        Object.assign(new Error('The conditional request failed'), { name: 'ConditionalCheckFailedException' })
+      );
+
+      await expect(promoteIntake('intake-1', request, 'admin-1')).rejects.toThrow(ConflictError);
+      expect(entities.createEntity).not.toHaveBeenCalled();
+    });
+
+    it('refuses items that were rejected', async () => {
+      vi.mocked(intake.getIntakeItem).mockResolvedValueOnce(makeIntakeItem({ status: 'REJECTED' }));
+
+      await expect(promoteIntake('intake-1', request, 'admin-1')).rejects.toThrow(ConflictError);
+    });
+  });
+});
@@ -0,0 +1,559 @@
+/**
+ * Intake Promotion Service
+ *
+ * Turns an intake item into entities, a source, a card and relationships.
+ * Promotion is planned up front and persisted on the intake item, then run
+ * step by step: an interrupted promotion resumes where it stopped when the
+ * same request is retried, and a failed one deletes what it created. A plan
+ * left unfinished for longer than any request can run is rolled back when a
+ * different request arrives.
+ * Used by the admin promote route and the LLM editor.
+ */
+
+import { createHash } from 'crypto';
+import { ulid } from 'ulid';
+import type {
+  CardCategory,
+  EntityType,
+  IntakeItem,
+  IntakePromotion,
+  PromotionStep,
+  RelationshipType,
+} from '@ledger/shared';
+import { config } from '../config.js';
+import { updateItem, isConditionalCheckFailed } from '../dynamodb.js';
+import { ConflictError, NotFoundError, ValidationError } from '../errors.js';
+import { logger } from '../logger.js';
+import { getIntakeItem, markIntakePromoted, unmarkIntakePromoted } from './intake.js';
+import { getClusterItems } from './intake-clusters.js';
+import { createEntity, deleteEntity, getEntity } from './entities.js';
+import {
+  createSource,
+  deleteSource,
+  getSource,
+  autoVerifySource,
+  attachIntakeSnapshot,
+  captureHtmlSnapshot,
+} from './sources.js';
+import { createCard, deleteDraftCard, getCard } from './cards.js';
+import { createRelationship, deleteRelationship } from './relationships.js';
+
+const INTAKE_TABLE = config.tables.intake;
+
+const promotionLogger = logger.child({ service: 'promotion' });
+
+// An IN_PROGRESS plan not saved for this long was left by a request that died
+// (the API Lambda times out at 30s), so a different request may roll it back.
+const IN_PROGRESS_TIMEOUT_MS = 60_000;
+
+/** An entity already in the ledger, or one to create */
+export type PromotionEntity = { entityId: string } | { create: { name: string; type: EntityType } };
+
+/** A relationship endpoint: an existing entity ID, or a position in `entities` */
+export type PromotionEntityRef = { entityId: string } | { index: number };
+
+export interface PromoteIntakeRequest {
+  entities: PromotionEntity[];
+  relationships?: Array<{
+    from: PromotionEntityRef;
+    to: PromotionEntityRef;
+    type: RelationshipType;
+    description?: string;
+  }>;
+  card: { summary: string; category: CardCategory; tags: string[] };
+  // Trusted feeds: mark the source verified without waiting for the snapshot
+  verifySource?: boolean;
+  // Attach the other NEW items in the story cluster as sources and mark them
+  // promoted with this one
+  includeCluster?: boolean;
+}
+
+export interface PromoteIntakeResult {
+  promotion: IntakePromotion;
+  replayed: boolean;       // the item was already promoted by this request
+}
+
+function fingerprintRequest(request: PromoteIntakeRequest): string {
+  return createHash('sha256').update(JSON.stringify(request)).digest('hex');
+}
+
+/** IDs of records the promotion created (or will create) for each step type */
+export function promotionTargets(promotion: IntakePromotion, type: PromotionStep['type']): string[] {
+  return promotion.steps.filter((step) => step.type === type).map((step) => step.targetId);
+}
+
+/** Assign IDs to everything the request creates and lay out the steps */
+function planPromotion(
+  item: IntakeItem,
+  request: PromoteIntakeRequest,
+  fingerprint: string,
+  actorId: string,
+  revision: number,
+  clusterItems: IntakeItem[]
+): IntakePromotion {
+  const steps: PromotionStep[] = [];
+
+  const positionIds = request.entities.map((entity) => {
+    if ('entityId' in entity) {
+      return entity.entityId;
+    }
+    const entityId = ulid();
+    steps.push({ type: 'CREATE_ENTITY', targetId: entityId, status: 'PENDING', entity: entity.create });
+    return entityId;
+  });
+  const entityIds = [...new Set(positionIds)];
+  if (entityIds.length === 0) {
+    throw new ValidationError('At least one entity must be provided');
+  }
+
+  function resolve(ref: PromotionEntityRef): string {
+    if ('entityId' in ref) {
+      return ref.entityId;
+    }
+    const entityId = positionIds[ref.index];
+    if (!entityId) {
+      throw new ValidationError(`No entity at position ${ref.index}`);
+    }
+    return entityId;
+  }
+
+  const sourceId = ulid();
+  const cardId = ulid();
+
+  steps.push({ type: 'CREATE_SOURCE', targetId: sourceId, status: 'PENDING' });
+  if (request.verifySource) {
+    steps.push({ type: 'VERIFY_SOURCE', targetId: sourceId, status: 'PENDING' });
+  }
+  steps.push({ type: 'CAPTURE_SNAPSHOT', targetId: sourceId, status: 'PENDING' });
+  // PDFs the page linked to at ingestion become sources of their own. Only
+  // the promoted item's: cluster members mostly link the same filings.
+  for (const { url: linkedPdfUrl } of item.linkedPdfSnapshots ?? []) {
+    const pdfSourceId = ulid();
+    steps.push({ type: 'CREATE_SOURCE', targetId: pdfSourceId, status: 'PENDING', linkedPdfUrl });
+    if (request.verifySource) {
+      steps.push({ type: 'VERIFY_SOURCE', targetId: pdfSourceId, status: 'PENDING', linkedPdfUrl });
+    }
+    steps.push({ type: 'CAPTURE_SNAPSHOT', targetId: pdfSourceId, status: 'PENDING', linkedPdfUrl });
+  }
+  for (const member of clusterItems) {
+    const memberSourceId = ulid();
+    const { intakeId } = member;
+    steps.push({ type: 'CREATE_SOURCE', targetId: memberSourceId, status: 'PENDING', intakeId });
+    if (request.verifySource) {
+      steps.push({ type: 'VERIFY_SOURCE', targetId: memberSourceId, status: 'PENDING', intakeId });
+    }
+    steps.push({ type: 'CAPTURE_SNAPSHOT', targetId: memberSourceId, status: 'PENDING', intakeId });
+  }
+  steps.push({ type: 'CREATE_CARD', targetId: cardId, status: 'PENDING' });
+  for (const rel of request.relationships ?? []) {
+    steps.push({
+      type: 'CREATE_RELATIONSHIP',
+      targetId: ulid(),
+      status: 'PENDING',
+      relationship: {
+        fromEntityId: resolve(rel.from),
+        toEntityId: resolve(rel.to),
+        type: rel.type,
+        description: rel.description,
+      },
+    });
+  }
+  // The item itself goes last: until it is marked, the promotion can be retried
+  for (const member of clusterItems) {
+    steps.push({ type: 'MARK_PROMOTED', targetId: cardId, status: 'PENDING', intakeId: member.intakeId });
+  }
+  steps.push({ type: 'MARK_PROMOTED', targetId: cardId, status: 'PENDING' });
+
+  const now = new Date().toISOString();
+  return {
+    promotionId: ulid(),
+    status: 'IN_PROGRESS',
+    fingerprint,
+    actorId,
+    sourceId,
+    cardId,
+    entityIds,
+    card: request.card,
+    steps,
+    revision,
+    startedAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Persist the plan on the intake item. Each save bumps the revision and
+ * requires the one we last saw, so two runs of the same promotion can't
+ * interleave.
+ */
+async function savePromotion(
+  item: IntakeItem,
+  promotion: IntakePromotion,
+  expectedRevision: number | undefined
+): Promise<IntakePromotion> {
+  const saved: IntakePromotion = {
+    ...promotion,
+    revision: (expectedRevision ?? 0) + 1,
+    updatedAt: new Date().toISOString(),
+  };
+
+  try {
+    await updateItem({
+      TableName: INTAKE_TABLE,
+      Key: { PK: `FEED#${item.feedId}`, SK: `TS#${item.publishedAt}#${item.intakeId}` },
+      UpdateExpression: 'SET #promotion = :promotion',
+      ConditionExpression:
+        expectedRevision === undefined
+          ? 'attribute_not_exists(#promotion)'
+          : '#promotion.#revision = :revision',
+      ExpressionAttributeNames: {
+        '#promotion': 'promotion',
+        ...(expectedRevision !== undefined && { '#revision': 'revision' }),
+      },
+      ExpressionAttributeValues: {
+        ':promotion': saved,
+        ...(expectedRevision !== undefined && { ':revision': expectedRevision }),
+      },
+    });
+  } catch (error) {
+    if (isConditionalCheckFailed(error)) {
+      throw new ConflictError(`Intake item ${item.intakeId} is being promoted by another request`);
+    }
+    throw error;
+  }
+
+  return saved;
+}
+
+async function exists(lookup: () => Promise<unknown>): Promise<boolean> {
+  try {
+    await lookup();
+    return true;
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Other items in the story cluster that a new promotion can take along:
+ * those still NEW and not part of a promotion of their own.
+ */
+async function selectClusterMembers(item: IntakeItem, request: PromoteIntakeRequest): Promise<IntakeItem[]> {
+  if (!request.includeCluster || !item.clusterId) {
+    return [];
+  }
+  const members = await getClusterItems(item.clusterId);
+  return members.filter(
+    (member) =>
+      member.intakeId !== item.intakeId && member.status === 'NEW' && member.promotion?.status !== 'IN_PROGRESS'
+  );
+}
+
+/** Cluster members the plan attaches, by intake ID */
+async function loadClusterMembers(promotion: IntakePromotion): Promise<Map<string, IntakeItem>> {
+  const members = new Map<string, IntakeItem>();
+  for (const step of promotion.steps) {
+    if (step.intakeId && !members.has(step.intakeId)) {
+      members.set(step.intakeId, await getIntakeItem(step.intakeId));
+    }
+  }
+  return members;
+}
+
+// The PDF's file name, or the page title when the URL doesn't have one
+function linkedPdfTitle(item: IntakeItem, url: string): string {
+  let fileName = new URL(url).pathname.split('/').pop() ?? '';
+  try {
+    fileName = decodeURIComponent(fileName);
+  } catch {
+    // Malformed escapes; keep the name as it appears in the URL
+  }
+  return fileName ? `${item.title} (${fileName})` : `${item.title} (PDF)`;
+}
+
+// Steps check for their record first, so rerunning one an interrupted
+// promotion may already have finished doesn't create it twice
+async function runStep(
+  step: PromotionStep,
+  promotion: IntakePromotion,
+  primary: IntakeItem,
+  members: Map<string, IntakeItem>
+): Promise<void> {
+  const { actorId } = promotion;
+  const item = step.intakeId ? members.get(step.intakeId)! : primary;
+
+  switch (step.type) {
+    case 'CREATE_ENTITY':
+      if (!(await exists(() => getEntity(step.targetId)))) {
+        await createEntity({ ...step.entity!, aliases: [] }, actorId, step.targetId);
+      }
+      return;
+    case 'CREATE_SOURCE':
+      if (step.linkedPdfUrl) {
+        if (!(await exists(() => getSource(step.targetId)))) {
+          await createSource(
+            {
+              title: linkedPdfTitle(item, step.linkedPdfUrl),
+              publisher: item.publisher,
+              url: step.linkedPdfUrl,
+              docType: 'PDF',
+            },
+            actorId,
+            step.targetId
+          );
+        }
+        return;
+      }
+      if (!(await exists(() => getSource(step.targetId)))) {
+        await createSource(
+          {
+            title: item.title,
+            publisher: item.publisher,
+            url: item.canonicalUrl,
+            docType: item.snapshot?.mimeType === 'application/pdf' ? 'PDF' : 'HTML',
+            excerpt: item.summary,
+          },
+          actorId,
+          step.targetId
+        );
+      }
+      return;
+    case 'VERIFY_SOURCE':
+      await autoVerifySource(step.targetId, actorId);
+      return;
+    case 'CAPTURE_SNAPSHOT': {
+      // Prefer the document as it was at ingestion to whatever it says now
+      const snapshot = step.linkedPdfUrl
+        ? item.linkedPdfSnapshots?.find((pdf) => pdf.url === step.linkedPdfUrl)
+        : item.snapshot;
+      if (!(await getSource(step.targetId)).sha256) {
+        if (snapshot) {
+          await attachIntakeSnapshot(step.targetId, snapshot, actorId);
+        } else {
+          await captureHtmlSnapshot(step.targetId, step.linkedPdfUrl ?? item.canonicalUrl, actorId);
+        }
+      }
+      return;
+    }
+    case 'CREATE_CARD':
+      if (!(await exists(() => getCard(step.targetId)))) {
+        await createCard(
+          {
+            title: item.title,
+            claim: item.title,
+            summary: promotion.card.summary,
+            category: promotion.card.category,
+            entityIds: promotion.entityIds,
+            eventDate: item.publishedAt.split('T')[0],
+            sourceRefs: promotionTargets(promotion, 'CREATE_SOURCE'),
+            evidenceStrength: 'HIGH',
+            tags: promotion.card.tags,
+          },
+          actorId,
+          step.targetId
+        );
+      }
+      return;
+    case 'CREATE_RELATIONSHIP':
+      // Written as two items; rewriting both repairs a half-finished create
+      await createRelationship(
+        { ...step.relationship!, sourceRefs: [promotion.sourceId] },
+        actorId,
+        step.targetId
+      );
+      return;
+    case 'MARK_PROMOTED':
+      await markIntakePromoted(
+        item.feedId,
+        item.publishedAt,
+        item.intakeId,
+        // A member is marked with the source made from its own URL
+        promotion.steps.find((s) => s.type === 'CREATE_SOURCE' && s.intakeId === step.intakeId && !s.linkedPdfUrl)!
+          .targetId,
+        promotion.cardId,
+        actorId
+      );
+      return;
+  }
+}
+
+async function undoStep(step: PromotionStep, members: Map<string, IntakeItem>): Promise<void> {
+  switch (step.type) {
+    case 'CREATE_ENTITY':
+      return deleteEntity(step.targetId);
+    case 'CREATE_SOURCE':
+      return deleteSource(step.targetId);
+    case 'CREATE_CARD':
+      return deleteDraftCard(step.targetId);
+    case 'CREATE_RELATIONSHIP':
+      return deleteRelationship(step.targetId);
+    case 'MARK_PROMOTED': {
+      // Only members can be marked before a later step fails
+      const member = step.intakeId ? members.get(step.intakeId) : undefined;
+      if (member) {
+        await unmarkIntakePromoted(member.feedId, member.publishedAt, member.intakeId);
+      }
+      return;
+    }
+    default:
+      // Verification and snapshots go with the source
+      return;
+  }
+}
+
+/**
+ * Delete what the promotion created, newest first. The failed step is
+ * included since it may have written part of its record.
+ */
+async function rollBack(
+  item: IntakeItem,
+  promotion: IntakePromotion,
+  members: Map<string, IntakeItem>
+): Promise<IntakePromotion> {
+  const steps = promotion.steps.map((step) => ({ ...step }));
+  let status: IntakePromotion['status'] = 'ROLLED_BACK';
+  let error = promotion.error;
+
+  for (const step of [...steps].reverse()) {
+    if (step.status !== 'DONE' && step.status !== 'SKIPPED' && step.status !== 'FAILED') {
+      continue;
+    }
+    try {
+      await undoStep(step, members);
+      step.status = 'ROLLED_BACK';
+    } catch (undoError) {
+      promotionLogger.error(
+        { intakeId: item.intakeId, step: step.type, targetId: step.targetId, error: (undoError as Error).message },
+        'Failed to roll back promotion step'
+      );
+      status = 'ROLLBACK_FAILED';
+      error = `Rollback of ${step.type} ${step.targetId} failed: ${(undoError as Error).message}`;
+      break;
+    }
+  }
+
+  return savePromotion(item, { ...promotion, steps, status, error }, promotion.revision);
+}
+
+/**
+ * Roll back a plan its request abandoned. The first pending step was running
+ * when it stopped and may have written part of its record, so it's undone too.
+ */
+async function abandonPromotion(item: IntakeItem, promotion: IntakePromotion): Promise<IntakePromotion> {
+  const error = 'Abandoned: the promoting request stopped before finishing';
+  const running = promotion.steps.findIndex((step) => step.status === 'PENDING');
+  const steps = promotion.steps.map((step, i) =>
+    i === running ? { ...step, status: 'FAILED' as const, error } : step
+  );
+
+  promotionLogger.warn(
+    { intakeId: item.intakeId, promotionId: promotion.promotionId, updatedAt: promotion.updatedAt },
+    'Rolling back abandoned promotion'
+  );
+  return rollBack(item, { ...promotion, steps, error }, await loadClusterMembers(promotion));
+}
+
+/**
+ * Promote an intake item. Retrying the same request resumes an interrupted
+ * promotion, or returns the finished one; a different request is refused
+ * until the interrupted plan has been idle for IN_PROGRESS_TIMEOUT_MS, then
+ * rolls it back and takes over. A step failure rolls back the records
+ * created so far and rethrows, leaving the item NEW.
+ */
+export async function promoteIntake(
+  intakeId: string,
+  request: PromoteIntakeRequest,
+  actorId: string
+): Promise<PromoteIntakeResult> {
+  const item = await getIntakeItem(intakeId);
+  const fingerprint = fingerprintRequest(request);
+  let promotion = item.promotion;
+
+  if (item.status === 'PROMOTED' && promotion?.status === 'COMPLETED') {
+    if (promotion.fingerprint !== fingerprint) {
+      throw new ConflictError(`Intake item ${intakeId} has already been promoted`);
+    }
+    return { promotion, replayed: true };
+  }
+  if (item.status === 'PROMOTED' || item.status === 'REJECTED') {
+    throw new ConflictError(`Intake item ${intakeId} is already ${item.status}`);
+  }
+
+  // Finish cleaning up after an earlier failure before starting over
+  if (promotion?.status === 'ROLLBACK_FAILED') {
+    promotion = await rollBack(item, promotion, await loadClusterMembers(promotion));
+    if (promotion.status === 'ROLLBACK_FAILED') {
+      throw new ConflictError(`Intake item ${intakeId} has a failed promotion that could not be cleaned up`);
+    }
+  }
+
+  if (
+    promotion?.status === 'IN_PROGRESS' &&
+    promotion.fingerprint !== fingerprint &&
+    Date.now() - new Date(promotion.updatedAt).getTime() >= IN_PROGRESS_TIMEOUT_MS
+  ) {
+    promotion = await abandonPromotion(item, promotion);
+    if (promotion.status === 'ROLLBACK_FAILED') {
+      throw new ConflictError(`Intake item ${intakeId} has a failed promotion that could not be cleaned up`);
+    }
+  }
+
+  if (promotion?.status === 'IN_PROGRESS' || promotion?.status === 'COMPLETED') {
+    if (promotion.fingerprint !== fingerprint) {
+      throw new ConflictError(`Intake item ${intakeId} has a different promotion in progress`);
+    }
+    promotionLogger.info({ intakeId, promotionId: promotion.promotionId }, 'Resuming promotion');
+  } else {
+    const previousRevision = promotion?.revision;
+    promotion = await savePromotion(
+      item,
+      planPromotion(item, request, fingerprint, actorId, previousRevision ?? 0, await selectClusterMembers(item, request)),
+      previousRevision
+    );
+  }
+  const members = await loadClusterMembers(promotion);
+
+  for (let i = 0; i < promotion.steps.length; i++) {
+    const step = promotion.steps[i];
+    if (step.status !== 'PENDING') {
+      continue;
+    }
+
+    let outcome: PromotionStep;
+    try {
+      await runStep(step, promotion, item, members);
+      outcome = { ...step, status: 'DONE' };
+    } catch (error) {
+      const message = (error as Error).message;
+      if (step.type !== 'CAPTURE_SNAPSHOT') {
+        const failed = {
+          ...promotion,
+          steps: promotion.steps.map((s, j) => (j === i ? { ...s, status: 'FAILED' as const, error: message } : s)),
+          error: message,
+        };
+        await rollBack(item, await savePromotion(item, failed, promotion.revision), members);
+        throw error;
+      }
+      // The source is still created; it can be verified by hand later
+      promotionLogger.warn({ intakeId, sourceId: step.targetId, error: message }, 'Failed to capture HTML snapshot');
+      outcome = { ...step, status: 'SKIPPED', error: message };
+    }
+
+    promotion = await savePromotion(
+      item,
+      { ...promotion, steps: promotion.steps.map((s, j) => (j === i ? outcome : s)) },
+      promotion.revision
+    );
+  }
+
+  promotion = await savePromotion(
+    item,
+    { ...promotion, status: 'COMPLETED', completedAt: new Date().toISOString() },
+    promotion.revision
+  );
+
+  return { promotion, replayed: false };
+}
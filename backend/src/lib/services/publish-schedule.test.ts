@@ -0,0 +1,268 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { CardPublishSchedule, EvidenceCard } from '@ledger/shared';
+import {
+  cancelScheduledPublish,
+  listScheduledPublishes,
+  publishNow,
+  runScheduledPublishes,
+  schedulePublish,
+} from './publish-schedule.js';
+import * as dynamodb from '../dynamodb.js';
+import * as cards from './cards.js';
+import * as sources from './sources.js';
+import * as audit from './audit.js';
+import { ApprovalRequiredError, ConflictError, NotFoundError, ValidationError } from '../errors.js';
+import { makeCard } from '../../test-utils/fixtures.js';
+
+vi.mock('../dynamodb.js', () => ({
+  getItem: vi.fn(),
+  putItem: vi.fn(),
+  deleteItem: vi.fn(),
+  queryItems: vi.fn(() => Promise.resolve({ items: [] })),
+  stripKeys: vi.fn((item) => {
+    const rest = { ...item };
+    delete rest.PK;
+    delete rest.SK;
+    delete rest.GSI1PK;
+    delete rest.GSI1SK;
+    return rest;
+  }),
+}));
+
+vi.mock('./cards.js', () => ({
+  getCard: vi.fn(),
+  publishCard: vi.fn(),
+}));
+
+vi.mock('./sources.js', () => ({
+  getSourcesByIds: vi.fn(() => Promise.resolve([])),
+}));
+
+vi.mock('./audit.js', () => ({
+  logAuditEvent: vi.fn(() => Promise.resolve()),
+}));
+
+vi.mock('../config.js', () => ({
+  config: {
+    tables: {
+      cards: 'test-cards-table',
+    },
+  },
+}));
+
+// Cards under review unless a test says otherwise
+function reviewCard(overrides: Partial<EvidenceCard> = {}): EvidenceCard {
+  return makeCard({ title: 'Refinery benzene emissions consent decree', status: 'REVIEW', version: 4, ...overrides });
+}
+
+function makeSchedule(overrides: Partial<CardPublishSchedule> = {}): CardPublishSchedule {
+  return {
+    cardId: 'card-1',
+    title: 'Refinery benzene emissions consent decree',
+    scheduledPublishAt: '2024-03-01T14:00:00.000Z',
+    scheduledBy: 'publisher-1',
+    scheduledAt: '2024-02-20T09:00:00.000Z',
+    ...overrides,
+  };
+}
+
+const NOW = new Date('2024-03-01T14:02:00.000Z');
+
+describe('publish schedule service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('schedulePublish', () => {
+    it('stores the schedule outside the card versions, indexed by publish time', async () => {
+      vi.mocked(cards.getCard).mockResolvedValueOnce(reviewCard());
+      const publishAt = new Date(Date.now() + 3_600_000).toISOString();
+
+      const schedule = await schedulePublish(
+        'card-1',
+        { scheduledPublishAt: publishAt, note: 'Embargoed until agency press release' },
+        'publisher-1'
+      );
+
+      expect(schedule).toMatchObject({
+        cardId: 'card-1',
+        scheduledPublishAt: publishAt,
+        scheduledBy: 'publisher-1',
+        note: 'Embargoed until agency press release',
+      });
+      const put = vi.mocked(dynamodb.putItem).mock.calls[0][0];
+      expect(put.Item).toMatchObject({
+        PK: 'CARD#card-1',
+        SK: 'SCHEDULE',
+        GSI1PK: 'SCHEDULED_PUBLISH',
+        GSI1SK: `PUBLISH_AT#${publishAt}#CARD#card-1`,
+      });
+    });
+
+    it('only schedules cards in review', async () => {
+      vi.mocked(cards.getCard).mockResolvedValueOnce(reviewCard({ status: 'DRAFT' }));
+
+      await expect(
+        schedulePublish('card-1', { scheduledPublishAt: '2099-01-01T00:00:00.000Z' }, 'publisher-1')
+      ).rejects.toThrow(ConflictError);
+      expect(dynamodb.putItem).not.toHaveBeenCalled();
+    });
+
+    it('rejects times in the past', async () => {
+      vi.mocked(cards.getCard).mockResolvedValueOnce(reviewCard());
+
+      await expect(
+        schedulePublish('card-1', { scheduledPublishAt: '2020-01-01T00:00:00.000Z' }, 'publisher-1')
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('cancelScheduledPublish', () => {
+    it('deletes the schedule and returns it', async () => {
+      vi.mocked(dynamodb.getItem).mockResolvedValueOnce({ PK: 'CARD#card-1', SK: 'SCHEDULE', ...makeSchedule() });
+
+      const removed = await cancelScheduledPublish('card-1');
+
+      expect(removed.scheduledPublishAt).toBe('2024-03-01T14:00:00.000Z');
+      expect(dynamodb.deleteItem).toHaveBeenCalledWith(
+        expect.objectContaining({ Key: { PK: 'CARD#card-1', SK: 'SCHEDULE' } })
+      );
+    });
+
+    it('reports cards with nothing scheduled', async () => {
+      vi.mocked(dynamodb.getItem).mockResolvedValueOnce(null);
+
+      await expect(cancelScheduledPublish('card-1')).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('publishNow', () => {
+    it('refuses to publish a card ahead of its schedule', async () => {
+      vi.mocked(dynamodb.getItem).mockResolvedValueOnce({
+        PK: 'CARD#card-1',
+        SK: 'SCHEDULE',
+        ...makeSchedule({ scheduledPublishAt: '2024-03-01T15:00:00.000Z' }),
+      });
+
+      await expect(publishNow('card-1', 'publisher-2', NOW)).rejects.toThrow(ConflictError);
+      expect(cards.publishCard).not.toHaveBeenCalled();
+      expect(dynamodb.deleteItem).not.toHaveBeenCalled();
+    });
+
+    it('clears a schedule that is already due', async () => {
+      vi.mocked(dynamodb.getItem).mockResolvedValueOnce({ PK: 'CARD#card-1', SK: 'SCHEDULE', ...makeSchedule() });
+      vi.mocked(cards.publishCard).mockResolvedValueOnce(reviewCard({ status: 'PUBLISHED', version: 5 }));
+
+      const { card, clearedSchedule } = await publishNow('card-1', 'publisher-2', NOW);
+
+      expect(card.status).toBe('PUBLISHED');
+      expect(cards.publishCard).toHaveBeenCalledWith('card-1', 'publisher-2');
+      expect(clearedSchedule?.scheduledPublishAt).toBe('2024-03-01T14:00:00.000Z');
+      expect(dynamodb.deleteItem).toHaveBeenCalledWith(
+        expect.objectContaining({ Key: { PK: 'CARD#card-1', SK: 'SCHEDULE' } })
+      );
+    });
+
+    it('publishes unscheduled cards directly', async () => {
+      vi.mocked(dynamodb.getItem).mockResolvedValueOnce(null);
+      vi.mocked(cards.publishCard).mockResolvedValueOnce(reviewCard({ status: 'PUBLISHED', version: 5 }));
+
+      const { clearedSchedule } = await publishNow('card-1', 'publisher-2', NOW);
+
+      expect(clearedSchedule).toBeNull();
+      expect(dynamodb.deleteItem).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listScheduledPublishes', () => {
+    it('limits to due schedules when given a cutoff', async () => {
+      await listScheduledPublishes(NOW);
+
+      expect(dynamodb.queryItems).toHaveBeenCalledWith(
+        expect.objectContaining({
+          IndexName: 'GSI1',
+          KeyConditionExpression: 'GSI1PK = :pk AND GSI1SK < :cutoff',
+          ExpressionAttributeValues: {
+            ':pk': 'SCHEDULED_PUBLISH',
+            ':cutoff': 'PUBLISH_AT#2024-03-01T14:02:00.000Z#~',
+          },
+        })
+      );
+    });
+  });
+
+  describe('runScheduledPublishes', () => {
+    function dueSchedule(schedule = makeSchedule()) {
+      vi.mocked(dynamodb.queryItems).mockResolvedValueOnce({
+        items: [{ PK: 'CARD#card-1', SK: 'SCHEDULE', ...schedule }],
+      });
+    }
+
+    it('publishes due cards as the scheduling user and clears the schedule', async () => {
+      dueSchedule();
+      vi.mocked(cards.getCard).mockResolvedValueOnce(reviewCard());
+      vi.mocked(sources.getSourcesByIds).mockResolvedValueOnce([
+        { sourceId: 'source-1', title: 'Consent decree', verificationStatus: 'VERIFIED' },
+      ]);
+
+      const summary = await runScheduledPublishes(NOW);
+
+      expect(summary).toMatchObject({ due: 1, published: 1, blocked: 0, dropped: 0 });
+      expect(cards.publishCard).toHaveBeenCalledWith('card-1', 'publisher-1');
+      expect(dynamodb.deleteItem).toHaveBeenCalled();
+      expect(audit.logAuditEvent).toHaveBeenCalledWith(
+        'PUBLISH_CARD',
+        'card',
+        'card-1',
+        'publisher-1',
+        expect.objectContaining({ metadata: expect.objectContaining({ scheduled: true }) })
+      );
+    });
+
+    it('holds the card when a source is no longer verified', async () => {
+      dueSchedule();
+      vi.mocked(cards.getCard).mockResolvedValueOnce(reviewCard());
+      vi.mocked(sources.getSourcesByIds).mockResolvedValueOnce([
+        { sourceId: 'source-1', title: 'Consent decree', verificationStatus: 'FAILED' },
+      ]);
+
+      const summary = await runScheduledPublishes(NOW);
+
+      expect(summary.results).toEqual([
+        { cardId: 'card-1', outcome: 'blocked', reason: 'Sources not verified: source-1' },
+      ]);
+      expect(cards.publishCard).not.toHaveBeenCalled();
+      const put = vi.mocked(dynamodb.putItem).mock.calls[0][0];
+      expect(put.Item).toMatchObject({
+        SK: 'SCHEDULE',
+        lastAttemptAt: NOW.toISOString(),
+        lastError: 'Sources not verified: source-1',
+      });
+    });
+
+    it('keeps the schedule when publishing is still blocked', async () => {
+      dueSchedule();
+      vi.mocked(cards.getCard).mockResolvedValueOnce(reviewCard({ sourceRefs: [] }));
+      vi.mocked(cards.publishCard).mockRejectedValueOnce(
+        new ApprovalRequiredError('PUBLISH', ['Needs 1 more approval'])
+      );
+
+      const summary = await runScheduledPublishes(NOW);
+
+      expect(summary.blocked).toBe(1);
+      expect(dynamodb.deleteItem).not.toHaveBeenCalled();
+      expect(dynamodb.putItem).toHaveBeenCalledTimes(1);
+    });
+
+    it('drops schedules for cards that left review', async () => {
+      dueSchedule();
+      vi.mocked(cards.getCard).mockResolvedValueOnce(reviewCard({ status: 'DRAFT' }));
+
+      const summary = await runScheduledPublishes(NOW);
+
+      expect(summary.dropped).toBe(1);
+      expect(cards.publishCard).not.toHaveBeenCalled();
+      expect(dynamodb.deleteItem).toHaveBeenCalled();
+    });
+  });
+});
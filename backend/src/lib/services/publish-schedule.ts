@@ -0,0 +1,231 @@
+import type { CardPublishSchedule, EvidenceCard } from '@ledger/shared';
+import { config } from '../config.js';
+import { getItem, putItem, deleteItem, queryItems, stripKeys } from '../dynamodb.js';
+import { AppError, ConflictError, NotFoundError, ValidationError } from '../errors.js';
+import { logger } from '../logger.js';
+import { getCard, publishCard } from './cards.js';
+import { getSourcesByIds } from './sources.js';
+import { logAuditEvent } from './audit.js';
+import type { SchedulePublishInput } from '../validation.js';
+
+const TABLE = config.tables.cards;
+
+// One schedule per card, in the card's partition but outside its versions:
+//   PK CARD#{cardId}  SK SCHEDULE
+//   GSI1PK SCHEDULED_PUBLISH  GSI1SK PUBLISH_AT#{scheduledPublishAt}#CARD#{cardId}
+// Because it isn't a version, scheduling doesn't invalidate approvals.
+const SCHEDULE_SK = 'SCHEDULE';
+const SCHEDULE_GSI1PK = 'SCHEDULED_PUBLISH';
+
+const scheduleLogger = logger.child({ service: 'publish-schedule' });
+
+type ScheduleItem = CardPublishSchedule & { PK: string; SK: string; GSI1PK: string; GSI1SK: string };
+
+export interface ScheduledPublishResult {
+  cardId: string;
+  outcome: 'published' | 'blocked' | 'dropped';
+  reason?: string;
+}
+
+export interface ScheduledPublishRunSummary {
+  due: number;
+  published: number;
+  blocked: number;
+  dropped: number;
+  results: ScheduledPublishResult[];
+}
+
+function scheduleItem(schedule: CardPublishSchedule): ScheduleItem {
+  return {
+    PK: `CARD#${schedule.cardId}`,
+    SK: SCHEDULE_SK,
+    GSI1PK: SCHEDULE_GSI1PK,
+    GSI1SK: `PUBLISH_AT#${schedule.scheduledPublishAt}#CARD#${schedule.cardId}`,
+    ...schedule,
+  };
+}
+
+export async function getPublishSchedule(cardId: string): Promise<CardPublishSchedule | null> {
+  const item = await getItem<ScheduleItem>({
+    TableName: TABLE,
+    Key: { PK: `CARD#${cardId}`, SK: SCHEDULE_SK },
+  });
+  return item ? stripKeys(item) : null;
+}
+
+/**
+ * Schedule (or reschedule) a REVIEW card to publish at a future time. The
+ * publish runs as the scheduling user, with the same approval, thread and
+ * source checks as publishing by hand.
+ */
+export async function schedulePublish(
+  cardId: string,
+  input: SchedulePublishInput,
+  userId: string
+): Promise<CardPublishSchedule> {
+  const card = await getCard(cardId);
+  if (card.status !== 'REVIEW') {
+    throw new ConflictError(`Only cards in REVIEW can be scheduled; card is ${card.status}`);
+  }
+
+  const publishAt = new Date(input.scheduledPublishAt);
+  if (publishAt.getTime() <= Date.now()) {
+    throw new ValidationError('scheduledPublishAt must be in the future');
+  }
+
+  const schedule: CardPublishSchedule = {
+    cardId,
+    title: card.title,
+    scheduledPublishAt: publishAt.toISOString(),
+    note: input.note,
+    scheduledBy: userId,
+    scheduledAt: new Date().toISOString(),
+  };
+
+  await putItem({ TableName: TABLE, Item: scheduleItem(schedule) });
+
+  return schedule;
+}
+
+/** Remove a card's pending schedule, returning what was removed */
+export async function cancelScheduledPublish(cardId: string): Promise<CardPublishSchedule> {
+  const schedule = await getPublishSchedule(cardId);
+  if (!schedule) {
+    throw new NotFoundError('Publish schedule', cardId);
+  }
+
+  await deleteItem({
+    TableName: TABLE,
+    Key: { PK: `CARD#${cardId}`, SK: SCHEDULE_SK },
+  });
+
+  return schedule;
+}
+
+/**
+ * Publish a card by hand. A card scheduled for later is embargoed until then,
+ * so it has to be unscheduled first; a schedule that is already due is
+ * cleared, since this publish is the one it was waiting for.
+ */
+export async function publishNow(
+  cardId: string,
+  userId: string,
+  now = new Date()
+): Promise<{ card: EvidenceCard; clearedSchedule: CardPublishSchedule | null }> {
+  const schedule = await getPublishSchedule(cardId);
+  if (schedule && new Date(schedule.scheduledPublishAt).getTime() > now.getTime()) {
+    throw new ConflictError(
+      `Card is scheduled to publish at ${schedule.scheduledPublishAt}; unschedule it before publishing`
+    );
+  }
+
+  const card = await publishCard(cardId, userId);
+  if (schedule) {
+    await deleteItem({ TableName: TABLE, Key: { PK: `CARD#${cardId}`, SK: SCHEDULE_SK } });
+  }
+
+  return { card, clearedSchedule: schedule };
+}
+
+/**
+ * Pending schedules, soonest first. With dueBy, only those whose publish
+ * time has passed.
+ */
+export async function listScheduledPublishes(dueBy?: Date): Promise<CardPublishSchedule[]> {
+  const schedules: CardPublishSchedule[] = [];
+  let cursor: Record<string, unknown> | undefined;
+
+  do {
+    const { items, lastEvaluatedKey } = await queryItems<ScheduleItem>({
+      TableName: TABLE,
+      IndexName: 'GSI1',
+      KeyConditionExpression: dueBy ? 'GSI1PK = :pk AND GSI1SK < :cutoff' : 'GSI1PK = :pk',
+      ExpressionAttributeValues: {
+        ':pk': SCHEDULE_GSI1PK,
+        // '~' sorts after '#CARD#…', so cards due exactly at dueBy are included
+        ...(dueBy && { ':cutoff': `PUBLISH_AT#${dueBy.toISOString()}#~` }),
+      },
+      ScanIndexForward: true,
+      ExclusiveStartKey: cursor,
+    });
+    schedules.push(...items.map((item) => stripKeys(item)));
+    cursor = lastEvaluatedKey;
+  } while (cursor);
+
+  return schedules;
+}
+
+// Keep the schedule but record why it couldn't publish; it's retried next run
+async function markBlocked(schedule: CardPublishSchedule, reason: string, at: string): Promise<void> {
+  await putItem({
+    TableName: TABLE,
+    Item: scheduleItem({ ...schedule, lastAttemptAt: at, lastError: reason }),
+  });
+}
+
+async function runSchedule(schedule: CardPublishSchedule, now: Date): Promise<ScheduledPublishResult> {
+  const { cardId } = schedule;
+  const card = await getCard(cardId);
+
+  // Sent back to draft or archived since it was scheduled
+  if (card.status !== 'REVIEW') {
+    await deleteItem({ TableName: TABLE, Key: { PK: `CARD#${cardId}`, SK: SCHEDULE_SK } });
+    return { cardId, outcome: 'dropped', reason: `Card is ${card.status}` };
+  }
+
+  // Sources can lose verification between scheduling and release
+  const sources = card.sourceRefs.length > 0 ? await getSourcesByIds(card.sourceRefs) : [];
+  const verified = new Set(
+    sources.filter((s) => s.verificationStatus === 'VERIFIED').map((s) => s.sourceId)
+  );
+  const unverified = card.sourceRefs.filter((sourceId) => !verified.has(sourceId));
+  if (unverified.length > 0) {
+    const reason = `Sources not verified: ${unverified.join(', ')}`;
+    await markBlocked(schedule, reason, now.toISOString());
+    return { cardId, outcome: 'blocked', reason };
+  }
+
+  try {
+    await publishCard(cardId, schedule.scheduledBy);
+  } catch (error) {
+    // Missing approvals, open threads and the like wait for the next run
+    if (error instanceof AppError) {
+      await markBlocked(schedule, error.message, now.toISOString());
+      return { cardId, outcome: 'blocked', reason: error.message };
+    }
+    throw error;
+  }
+
+  await deleteItem({ TableName: TABLE, Key: { PK: `CARD#${cardId}`, SK: SCHEDULE_SK } });
+  await logAuditEvent('PUBLISH_CARD', 'card', cardId, schedule.scheduledBy, {
+    metadata: { scheduled: true, scheduledPublishAt: schedule.scheduledPublishAt },
+  });
+
+  return { cardId, outcome: 'published' };
+}
+
+/** Publish every REVIEW card whose scheduled time has passed */
+export async function runScheduledPublishes(now = new Date()): Promise<ScheduledPublishRunSummary> {
+  const due = await listScheduledPublishes(now);
+  const results: ScheduledPublishResult[] = [];
+
+  for (const schedule of due) {
+    try {
+      results.push(await runSchedule(schedule, now));
+    } catch (error) {
+      scheduleLogger.error(
+        { cardId: schedule.cardId, error: (error as Error).message },
+        'Scheduled publish failed'
+      );
+      results.push({ cardId: schedule.cardId, outcome: 'blocked', reason: (error as Error).message });
+    }
+  }
+
+  return {
+    due: due.length,
+    published: results.filter((r) => r.outcome === 'published').length,
+    blocked: results.filter((r) => r.outcome === 'blocked').length,
+    dropped: results.filter((r) => r.outcome === 'dropped').length,
+    results,
+  };
+}
@@ -1,5 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { listRelationships } from './relationships.js';
+import { listRelationships, publishRelationship, updateRelationship } from './relationships.js';
+import * as reviewThreads from './review-threads.js';
+import { ConflictError, VersionConflictError } from '../errors.js';
 import * as dynamodb from '../dynamodb.js';
 import * as entities from './entities.js';
 import type { Relationship, Entity } from '@ledger/shared';
@@ -11,6 +13,9 @@ vi.mock('../dynamodb.js', () => ({
   queryItems: vi.fn(),
   encodeCursor: vi.fn((key) => Buffer.from(JSON.stringify(key)).toString('base64url')),
   decodeCursor: vi.fn((cursor) => JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'))),
+  isConditionalCheckFailed: vi.fn(
+    (error: unknown) => (error as Error).name === 'ConditionalCheckFailedException'
+  ),
   stripKeys: vi.fn((item) => {
     const { PK, SK, GSI1PK, GSI1SK, GSI2PK, GSI2SK, ...rest } = item;
     return rest;
@@ -22,6 +27,14 @@ vi.mock('./entities.js', () => ({
   getEntity: vi.fn(),
 }));
 
+vi.mock('./corrections.js', () => ({
+  recordRelationshipRetraction: vi.fn(),
+}));
+
+vi.mock('./review-threads.js', () => ({
+  assertNoOpenThreads: vi.fn(),
+}));
+
 // Mock config
 vi.mock('../config.js', () => ({
   config: {
@@ -185,4 +198,70 @@ describe('relationships service', () => {
       );
     });
   });
+
+  describe('updateRelationship', () => {
+    const draft = {
+      PK: 'REL#rel-1',
+      SK: 'META',
+      relationshipId: 'rel-1',
+      fromEntityId: 'entity-a',
+      toEntityId: 'entity-b',
+      type: 'OWNS',
+      status: 'DRAFT',
+      ownershipPercentage: 40,
+      sourceRefs: ['source-1'],
+      version: 2,
+      createdAt: '2024-01-01T00:00:00Z',
+      createdBy: 'user-1',
+      updatedAt: '2024-01-02T00:00:00Z',
+    };
+
+    it('writes the META item conditionally before the reverse item', async () => {
+      vi.mocked(dynamodb.getItem).mockResolvedValueOnce(draft);
+
+      const result = await updateRelationship('rel-1', { ownershipPercentage: 51 }, 'user-2', 2);
+
+      expect(result).toMatchObject({ ownershipPercentage: 51, version: 3, updatedBy: 'user-2' });
+      const [meta, reverse] = vi.mocked(dynamodb.putItem).mock.calls.map(([params]) => params);
+      expect(meta).toMatchObject({
+        Item: { SK: 'META' },
+        ConditionExpression: '#version = :version',
+        ExpressionAttributeValues: { ':version': 2 },
+      });
+      expect(reverse.Item).toMatchObject({ SK: 'REVERSE', version: 3 });
+      expect(reverse.ConditionExpression).toBeUndefined();
+    });
+
+    it('rejects a stale expectedVersion with a field diff', async () => {
+      vi.mocked(dynamodb.getItem).mockResolvedValueOnce(draft);
+
+      const error = await updateRelationship('rel-1', { ownershipPercentage: 51 }, 'user-2', 1).catch((e) => e);
+
+      expect(error).toBeInstanceOf(VersionConflictError);
+      expect(error.details).toMatchObject({
+        currentVersion: 2,
+        changes: [{ field: 'ownershipPercentage', before: 40, after: 51 }],
+      });
+      expect(dynamodb.putItem).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('publishRelationship', () => {
+    it('refuses to publish while review threads are unresolved', async () => {
+      vi.mocked(dynamodb.getItem).mockResolvedValueOnce({
+        PK: 'REL#rel-1',
+        SK: 'META',
+        relationshipId: 'rel-1',
+        status: 'DRAFT',
+        sourceRefs: ['source-1'],
+      });
+      vi.mocked(reviewThreads.assertNoOpenThreads).mockRejectedValueOnce(
+        new ConflictError('Cannot publish with 1 unresolved review thread')
+      );
+
+      await expect(publishRelationship('rel-1', 'user-1')).rejects.toThrow(ConflictError);
+      expect(reviewThreads.assertNoOpenThreads).toHaveBeenCalledWith('relationship', 'rel-1');
+      expect(dynamodb.putItem).not.toHaveBeenCalled();
+    });
+  });
 });
\ No newline at end of file
@@ -14,16 +14,24 @@ import { config } from '../config.js';
 import {
   getItem,
   putItem,
+  deleteItem,
   queryItems,
   encodeCursor,
   decodeCursor,
   stripKeys,
+  isConditionalCheckFailed,
 } from '../dynamodb.js';
-import { NotFoundError, ValidationError } from '../errors.js';
+import { NotFoundError, ValidationError, VersionConflictError } from '../errors.js';
+import { diffFields } from '../field-diff.js';
 import { getEntity } from './entities.js';
+import { recordRelationshipRetraction } from './corrections.js';
+import { assertNoOpenThreads } from './review-threads.js';
 
 const TABLE = config.tables.relationships;
 
+// Bookkeeping left out of conflict diffs
+const CONFLICT_IGNORED_FIELDS = new Set(['version', 'createdAt', 'createdBy', 'updatedAt', 'updatedBy']);
+
 interface RelationshipDbItem extends Relationship {
   PK: string;
   SK: string;
@@ -38,7 +46,8 @@ interface RelationshipDbItem extends Relationship {
  */
 export async function createRelationship(
   input: CreateRelationshipRequest,
-  userId: string
+  userId: string,
+  relationshipId: string = ulid()
 ): Promise<Relationship> {
   // Validate that both entities exist
   await Promise.all([
@@ -54,7 +63,6 @@ export async function createRelationship(
   }
 
   const now = new Date().toISOString();
-  const relationshipId = ulid();
 
   const relationship: Relationship = {
     relationshipId,
@@ -67,6 +75,7 @@ export async function createRelationship(
     endDate: input.endDate,
     sourceRefs: input.sourceRefs || [],
     ownershipPercentage: input.ownershipPercentage,
+    version: 1,
     createdAt: now,
     createdBy: userId,
     updatedAt: now,
@@ -107,6 +116,19 @@ export async function createRelationship(
   return relationship;
 }
 
+/**
+ * Remove a draft relationship and its reverse lookup item. Used to roll back
+ * a failed intake promotion.
+ */
+export async function deleteRelationship(relationshipId: string): Promise<void> {
+  for (const sk of ['META', 'REVERSE']) {
+    await deleteItem({
+      TableName: TABLE,
+      Key: { PK: `REL#${relationshipId}`, SK: sk },
+    });
+  }
+}
+
 /**
  * Get a relationship by ID
  */
@@ -126,13 +148,40 @@ export async function getRelationship(relationshipId: string): Promise<Relations
   return stripKeys(item);
 }
 
+// Fields an update may change; omitted fields keep their current value
+function applyUpdate(existing: Relationship, input: UpdateRelationshipRequest): Relationship {
+  return {
+    ...existing,
+    type: input.type ?? existing.type,
+    description: input.description ?? existing.description,
+    startDate: input.startDate ?? existing.startDate,
+    endDate: input.endDate ?? existing.endDate,
+    sourceRefs: input.sourceRefs ?? existing.sourceRefs,
+    ownershipPercentage: input.ownershipPercentage ?? existing.ownershipPercentage,
+  };
+}
+
+function relationshipVersionConflict(
+  current: Relationship,
+  input: UpdateRelationshipRequest
+): VersionConflictError {
+  return new VersionConflictError('Relationship', {
+    currentVersion: current.version ?? 1,
+    current,
+    changes: diffFields(current, applyUpdate(current, input), CONFLICT_IGNORED_FIELDS),
+  });
+}
+
 /**
- * Update a relationship (only allowed for DRAFT status)
+ * Update a relationship (only allowed for DRAFT status). The write is
+ * conditional on the version that was read; expectedVersion, when given,
+ * must also match it.
  */
 export async function updateRelationship(
   relationshipId: string,
   input: UpdateRelationshipRequest,
-  userId: string
+  userId: string,
+  expectedVersion?: number
 ): Promise<Relationship> {
   const existing = await getRelationship(relationshipId);
 
@@ -140,6 +189,11 @@ export async function updateRelationship(
     throw new ValidationError('Only DRAFT relationships can be updated');
   }
 
+  const currentVersion = existing.version ?? 1;
+  if (expectedVersion !== undefined && expectedVersion !== currentVersion) {
+    throw relationshipVersionConflict(existing, input);
+  }
+
   // Validate ownership percentage if provided
   if (input.ownershipPercentage !== undefined) {
     if (input.ownershipPercentage < 0 || input.ownershipPercentage > 100) {
@@ -150,13 +204,8 @@ export async function updateRelationship(
   const now = new Date().toISOString();
 
   const updated: Relationship = {
-    ...existing,
-    type: input.type ?? existing.type,
-    description: input.description ?? existing.description,
-    startDate: input.startDate ?? existing.startDate,
-    endDate: input.endDate ?? existing.endDate,
-    sourceRefs: input.sourceRefs ?? existing.sourceRefs,
-    ownershipPercentage: input.ownershipPercentage ?? existing.ownershipPercentage,
+    ...applyUpdate(existing, input),
+    version: currentVersion + 1,
     updatedAt: now,
     updatedBy: userId,
   };
@@ -180,10 +229,26 @@ export async function updateRelationship(
     ...updated,
   };
 
-  await Promise.all([
-    putItem({ TableName: TABLE, Item: item }),
-    putItem({ TableName: TABLE, Item: reverseItem }),
-  ]);
+  // The META item carries the version check; REVERSE follows once it succeeds
+  try {
+    await putItem({
+      TableName: TABLE,
+      Item: item,
+      ConditionExpression: existing.version === undefined
+        ? 'attribute_not_exists(#version)'
+        : '#version = :version',
+      ExpressionAttributeNames: { '#version': 'version' },
+      ...(existing.version !== undefined && {
+        ExpressionAttributeValues: { ':version': existing.version },
+      }),
+    });
+  } catch (error) {
+    if (isConditionalCheckFailed(error)) {
+      throw relationshipVersionConflict(await getRelationship(relationshipId), input);
+    }
+    throw error;
+  }
+  await putItem({ TableName: TABLE, Item: reverseItem });
 
   return updated;
 }
@@ -206,6 +271,8 @@ export async function publishRelationship(
     throw new ValidationError('At least one source reference is required to publish');
   }
 
+  await assertNoOpenThreads('relationship', relationshipId);
+
   const now = new Date().toISOString();
 
   const updated: Relationship = {
@@ -297,6 +364,7 @@ export async function retractRelationship(
     putItem({ TableName: TABLE, Item: item }),
     putItem({ TableName: TABLE, Item: reverseItem }),
   ]);
+  await recordRelationshipRetraction(updated);
 
   return updated;
 }
@@ -0,0 +1,295 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Entity, Reply, Source } from '@ledger/shared';
+import {
+  submitReply,
+  listPublishedReplies,
+  publishReply,
+  rejectReply,
+} from './replies.js';
+import * as dynamodb from '../dynamodb.js';
+import * as cards from './cards.js';
+import * as entities from './entities.js';
+import * as sources from './sources.js';
+import {
+  NotFoundError,
+  ValidationError,
+  RateLimitedError,
+  InvalidStateTransitionError,
+  ConflictError,
+} from '../errors.js';
+import { makeCard } from '../../test-utils/fixtures.js';
+
+vi.mock('../dynamodb.js', () => ({
+  getItem: vi.fn(),
+  putItem: vi.fn(),
+  updateItem: vi.fn(),
+  queryItems: vi.fn(),
+  encodeCursor: vi.fn(),
+  decodeCursor: vi.fn(),
+  isConditionalCheckFailed: vi.fn(
+    (error: unknown) => (error as Error).name === 'ConditionalCheckFailedException'
+  ),
+  stripKeys: vi.fn((item) => {
+    const rest = { ...item };
+    for (const key of ['PK', 'SK', 'GSI1PK', 'GSI1SK', 'GSI2PK', 'GSI2SK']) {
+      delete rest[key];
+    }
+    return rest;
+  }),
+}));
+
+vi.mock('./cards.js', () => ({
+  getCard: vi.fn(),
+}));
+
+vi.mock('./entities.js', () => ({
+  getEntity: vi.fn(),
+  getEntitiesByIds: vi.fn(),
+}));
+
+vi.mock('./sources.js', () => ({
+  createSource: vi.fn(),
+  deleteSource: vi.fn(() => Promise.resolve()),
+  getSource: vi.fn(),
+}));
+
+vi.mock('../config.js', () => ({
+  config: {
+    tables: {
+      replies: 'test-replies-table',
+    },
+    replies: {
+      maxPerClientPerHour: 5,
+    },
+  },
+}));
+
+function conditionalCheckFailed(): Error {
+  const error = new Error('The conditional request failed');
+  error.name = 'ConditionalCheckFailedException';
+  return error;
+}
+
+function makeReply(overrides: Partial<Reply> = {}): Reply {
+  return {
+    replyId: 'reply-1',
+    cardId: 'card-1',
+    entityId: 'entity-1',
+    submitterName: 'Jordan Lee',
+    submitterEmail: 'press@acme.example',
+    body: 'Acme has paid all affected workers in full.',
+    attachmentSourceIds: [],
+    status: 'PENDING',
+    submittedAt: '2024-02-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+const input = {
+  entityId: 'entity-1',
+  submitterName: 'Jordan Lee',
+  submitterEmail: 'press@acme.example',
+  body: 'Acme has paid all affected workers in full.',
+  attachments: [{ title: 'Settlement statement', url: 'https://acme.example/statement.pdf' }],
+};
+
+describe('replies service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('submitReply', () => {
+    it('stores a pending reply and holds attachments until moderation', async () => {
+      vi.mocked(cards.getCard).mockResolvedValueOnce(makeCard());
+
+      const reply = await submitReply('card-1', input, '203.0.113.7');
+
+      expect(sources.createSource).not.toHaveBeenCalled();
+      expect(reply).toMatchObject({
+        status: 'PENDING',
+        attachments: input.attachments,
+        attachmentSourceIds: [],
+      });
+      expect(dynamodb.putItem).toHaveBeenCalledWith({
+        TableName: 'test-replies-table',
+        Item: expect.objectContaining({
+          PK: `REPLY#${reply.replyId}`,
+          GSI1PK: 'REPLY_STATUS#PENDING',
+        }),
+      });
+      // Pending replies must not appear on the card
+      const [{ Item }] = vi.mocked(dynamodb.putItem).mock.calls[0];
+      expect(Item).not.toHaveProperty('GSI2PK');
+    });
+
+    it('hashes the client address into the rate counter key', async () => {
+      vi.mocked(cards.getCard).mockResolvedValueOnce(makeCard());
+      vi.mocked(dynamodb.updateItem).mockRejectedValueOnce(conditionalCheckFailed());
+
+      await expect(submitReply('card-1', input, '203.0.113.7')).rejects.toThrow(RateLimitedError);
+
+      const [params] = vi.mocked(dynamodb.updateItem).mock.calls[0];
+      expect(params.Key!.PK).toMatch(/^RATE#[0-9a-f]{64}$/);
+      expect(params.ExpressionAttributeValues![':limit']).toBe(5);
+      expect(dynamodb.putItem).not.toHaveBeenCalled();
+    });
+
+    it('rejects entities that are not named on the card', async () => {
+      vi.mocked(cards.getCard).mockResolvedValueOnce(makeCard());
+
+      await expect(
+        submitReply('card-1', { ...input, entityId: 'entity-2' }, '203.0.113.7')
+      ).rejects.toThrow(ValidationError);
+      expect(dynamodb.updateItem).not.toHaveBeenCalled();
+    });
+
+    it('hides cards that are not public', async () => {
+      vi.mocked(cards.getCard).mockResolvedValueOnce(makeCard({ status: 'DRAFT' }));
+
+      await expect(submitReply('card-1', input, '203.0.113.7')).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('publishReply', () => {
+    it('adds the reply to the card index', async () => {
+      vi.mocked(dynamodb.getItem).mockResolvedValueOnce(makeReply());
+
+      const reply = await publishReply('reply-1', 'admin-1', 'Verified with Acme press office');
+
+      expect(reply).toMatchObject({
+        status: 'PUBLISHED',
+        reviewedBy: 'admin-1',
+        moderationNote: 'Verified with Acme press office',
+      });
+      expect(dynamodb.putItem).toHaveBeenCalledWith(
+        expect.objectContaining({
+          Item: expect.objectContaining({
+            GSI1PK: 'REPLY_STATUS#PUBLISHED',
+            GSI2PK: 'CARD#card-1',
+            GSI2SK: `${reply.publishedAt}#reply-1`,
+          }),
+          ConditionExpression: '#status = :pending',
+        })
+      );
+    });
+
+    it('creates sources for submitted attachments', async () => {
+      vi.mocked(dynamodb.getItem).mockResolvedValueOnce(makeReply({ attachments: input.attachments }));
+      vi.mocked(entities.getEntity).mockResolvedValueOnce({
+        entityId: 'entity-1',
+        name: 'Acme Corp',
+        type: 'CORPORATION',
+        aliases: [],
+        createdAt: '',
+        updatedAt: '',
+      });
+      vi.mocked(sources.createSource).mockResolvedValueOnce({ sourceId: 'src-1' } as Source);
+
+      const reply = await publishReply('reply-1', 'admin-1');
+
+      expect(sources.createSource).toHaveBeenCalledWith(
+        expect.objectContaining({
+          title: 'Settlement statement',
+          publisher: 'Acme Corp',
+          docType: 'PDF',
+        }),
+        'reply:reply-1'
+      );
+      expect(reply.attachmentSourceIds).toEqual(['src-1']);
+    });
+
+    it('removes the sources it created when the publish loses a race', async () => {
+      vi.mocked(dynamodb.getItem).mockResolvedValueOnce(makeReply({ attachments: input.attachments }));
+      vi.mocked(entities.getEntity).mockResolvedValueOnce({ entityId: 'entity-1', name: 'Acme Corp' } as Entity);
+      vi.mocked(sources.createSource).mockResolvedValueOnce({ sourceId: 'src-1' } as Source);
+      vi.mocked(dynamodb.putItem).mockRejectedValueOnce(conditionalCheckFailed());
+
+      await expect(publishReply('reply-1', 'admin-1')).rejects.toThrow(ConflictError);
+      expect(sources.deleteSource).toHaveBeenCalledWith('src-1');
+    });
+
+    it('only moderates pending replies', async () => {
+      vi.mocked(dynamodb.getItem).mockResolvedValueOnce(makeReply({ status: 'REJECTED' }));
+
+      await expect(publishReply('reply-1', 'admin-1')).rejects.toThrow(InvalidStateTransitionError);
+    });
+
+    it('reports a conflict when another moderator got there first', async () => {
+      vi.mocked(dynamodb.getItem).mockResolvedValueOnce(makeReply());
+      vi.mocked(dynamodb.putItem).mockRejectedValueOnce(conditionalCheckFailed());
+
+      await expect(publishReply('reply-1', 'admin-1')).rejects.toThrow(ConflictError);
+    });
+  });
+
+  describe('rejectReply', () => {
+    it('keeps the reason and leaves the card index alone', async () => {
+      vi.mocked(dynamodb.getItem).mockResolvedValueOnce(makeReply());
+
+      const reply = await rejectReply('reply-1', 'admin-1', 'Could not confirm affiliation');
+
+      expect(reply).toMatchObject({
+        status: 'REJECTED',
+        moderationNote: 'Could not confirm affiliation',
+      });
+      const [{ Item }] = vi.mocked(dynamodb.putItem).mock.calls[0];
+      expect(Item).not.toHaveProperty('GSI2PK');
+      expect(sources.createSource).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listPublishedReplies', () => {
+    it('returns public fields with entity names and attachments', async () => {
+      vi.mocked(dynamodb.queryItems).mockResolvedValueOnce({
+        items: [
+          makeReply({
+            status: 'PUBLISHED',
+            publishedAt: '2024-02-02T00:00:00Z',
+            attachmentSourceIds: ['src-1', 'src-missing'],
+          }),
+        ],
+      });
+      vi.mocked(entities.getEntitiesByIds).mockResolvedValueOnce([
+        { entityId: 'entity-1', name: 'Acme Corp' },
+      ]);
+      vi.mocked(sources.getSource).mockImplementation(async (sourceId) => {
+        if (sourceId === 'src-missing') throw new NotFoundError('Source', sourceId);
+        return {
+          sourceId,
+          title: 'Settlement statement',
+          publisher: 'Acme Corp',
+          url: 'https://acme.example/statement.pdf',
+        } as Source;
+      });
+
+      const replies = await listPublishedReplies('card-1');
+
+      expect(dynamodb.queryItems).toHaveBeenCalledWith(
+        expect.objectContaining({
+          IndexName: 'GSI2',
+          ExpressionAttributeValues: { ':pk': 'CARD#card-1' },
+        })
+      );
+      expect(replies).toEqual([
+        {
+          replyId: 'reply-1',
+          cardId: 'card-1',
+          entityId: 'entity-1',
+          entityName: 'Acme Corp',
+          submitterName: 'Jordan Lee',
+          submitterTitle: undefined,
+          body: 'Acme has paid all affected workers in full.',
+          attachments: [
+            {
+              sourceId: 'src-1',
+              title: 'Settlement statement',
+              publisher: 'Acme Corp',
+              url: 'https://acme.example/statement.pdf',
+            },
+          ],
+          publishedAt: '2024-02-02T00:00:00Z',
+        },
+      ]);
+    });
+  });
+});
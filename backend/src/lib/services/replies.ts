@@ -0,0 +1,323 @@
+import { ulid } from 'ulid';
+import { createHash } from 'crypto';
+import type {
+  Reply,
+  ReplyStatus,
+  PublicReply,
+  PaginatedResponse,
+  CardStatus,
+} from '@ledger/shared';
+import { config } from '../config.js';
+import {
+  getItem,
+  putItem,
+  updateItem,
+  queryItems,
+  stripKeys,
+  encodeCursor,
+  decodeCursor,
+  isConditionalCheckFailed,
+} from '../dynamodb.js';
+import {
+  NotFoundError,
+  ValidationError,
+  ConflictError,
+  RateLimitedError,
+  InvalidStateTransitionError,
+} from '../errors.js';
+import { getCard } from './cards.js';
+import { getEntity, getEntitiesByIds } from './entities.js';
+import { createSource, deleteSource, getSource } from './sources.js';
+import type { CreateReplyInput, ReplyQueryInput } from '../validation.js';
+
+const TABLE = config.tables.replies;
+
+// Table layout:
+//   PK REPLY#{replyId}    SK META              reply record
+//     GSI1 REPLY_STATUS#{status} / {submittedAt}#{replyId}   moderation queue
+//     GSI2 CARD#{cardId} / {publishedAt}#{replyId}            only set once published
+//   PK RATE#{clientHash}  SK WINDOW#{hour}     submission counter, expired via TTL
+
+const RATE_WINDOW_SECONDS = 3600;
+
+// Replies can be sent against anything the public can see, including retractions
+const REPLYABLE_STATUSES: CardStatus[] = ['PUBLISHED', 'DISPUTED', 'CORRECTED', 'RETRACTED'];
+
+type ReplyItem = Reply & {
+  PK: string;
+  SK: string;
+  GSI1PK: string;
+  GSI1SK: string;
+  GSI2PK?: string;
+  GSI2SK?: string;
+};
+
+function toItem(reply: Reply): ReplyItem {
+  const item: ReplyItem = {
+    PK: `REPLY#${reply.replyId}`,
+    SK: 'META',
+    GSI1PK: `REPLY_STATUS#${reply.status}`,
+    GSI1SK: `${reply.submittedAt}#${reply.replyId}`,
+    ...reply,
+  };
+  if (reply.status === 'PUBLISHED' && reply.publishedAt) {
+    item.GSI2PK = `CARD#${reply.cardId}`;
+    item.GSI2SK = `${reply.publishedAt}#${reply.replyId}`;
+  }
+  return item;
+}
+
+/**
+ * Count a submission against the client's hourly allowance.
+ * The client address is hashed so raw IPs are never stored.
+ */
+async function consumeSubmissionAllowance(clientIp: string): Promise<void> {
+  const clientHash = createHash('sha256').update(clientIp).digest('hex');
+  const windowStart = Math.floor(Date.now() / 1000 / RATE_WINDOW_SECONDS) * RATE_WINDOW_SECONDS;
+
+  try {
+    await updateItem({
+      TableName: TABLE,
+      Key: { PK: `RATE#${clientHash}`, SK: `WINDOW#${windowStart}` },
+      UpdateExpression: 'ADD submissions :one SET expiresAt = :expiresAt',
+      ConditionExpression: 'attribute_not_exists(submissions) OR submissions < :limit',
+      ExpressionAttributeValues: {
+        ':one': 1,
+        ':limit': config.replies.maxPerClientPerHour,
+        ':expiresAt': windowStart + 2 * RATE_WINDOW_SECONDS,
+      },
+    });
+  } catch (error) {
+    if (isConditionalCheckFailed(error)) {
+      throw new RateLimitedError('Too many reply submissions. Please try again later.');
+    }
+    throw error;
+  }
+}
+
+export async function submitReply(
+  cardId: string,
+  input: CreateReplyInput,
+  clientIp: string
+): Promise<Reply> {
+  const card = await getCard(cardId);
+  if (!REPLYABLE_STATUSES.includes(card.status)) {
+    throw new NotFoundError('Card', cardId);
+  }
+  if (!card.entityIds.includes(input.entityId)) {
+    throw new ValidationError('Replies can only be submitted on behalf of an entity named on the card', {
+      entityId: input.entityId,
+    });
+  }
+
+  await consumeSubmissionAllowance(clientIp);
+
+  const reply: Reply = {
+    replyId: ulid(),
+    cardId,
+    entityId: input.entityId,
+    submitterName: input.submitterName,
+    submitterEmail: input.submitterEmail,
+    submitterTitle: input.submitterTitle,
+    body: input.body,
+    // Kept as submitted; they only become sources once a moderator publishes
+    attachments: input.attachments,
+    attachmentSourceIds: [],
+    status: 'PENDING',
+    submittedAt: new Date().toISOString(),
+  };
+
+  await putItem({
+    TableName: TABLE,
+    Item: toItem(reply),
+  });
+
+  return reply;
+}
+
+export async function getReply(replyId: string): Promise<Reply> {
+  const item = await getItem<ReplyItem>({
+    TableName: TABLE,
+    Key: { PK: `REPLY#${replyId}`, SK: 'META' },
+  });
+
+  if (!item) {
+    throw new NotFoundError('Reply', replyId);
+  }
+
+  return stripKeys(item);
+}
+
+/** Moderation queue, oldest submissions first */
+export async function listReplies(query: ReplyQueryInput): Promise<PaginatedResponse<Reply>> {
+  const { items, lastEvaluatedKey } = await queryItems<ReplyItem>({
+    TableName: TABLE,
+    IndexName: 'GSI1',
+    KeyConditionExpression: 'GSI1PK = :pk',
+    ExpressionAttributeValues: {
+      ':pk': `REPLY_STATUS#${query.status}`,
+    },
+    Limit: query.limit,
+    ExclusiveStartKey: query.cursor ? decodeCursor(query.cursor) : undefined,
+  });
+
+  return {
+    items: items.map(stripKeys),
+    cursor: lastEvaluatedKey ? encodeCursor(lastEvaluatedKey) : undefined,
+    hasMore: !!lastEvaluatedKey,
+  };
+}
+
+/** Published replies for a card, in publication order, without contact details */
+export async function listPublishedReplies(cardId: string): Promise<PublicReply[]> {
+  const replies: Reply[] = [];
+  let cursor: Record<string, unknown> | undefined;
+
+  do {
+    const { items, lastEvaluatedKey } = await queryItems<ReplyItem>({
+      TableName: TABLE,
+      IndexName: 'GSI2',
+      KeyConditionExpression: 'GSI2PK = :pk',
+      ExpressionAttributeValues: {
+        ':pk': `CARD#${cardId}`,
+      },
+      ExclusiveStartKey: cursor,
+    });
+    replies.push(...items.map(stripKeys));
+    cursor = lastEvaluatedKey;
+  } while (cursor);
+
+  if (replies.length === 0) {
+    return [];
+  }
+
+  const entities = await getEntitiesByIds([...new Set(replies.map((reply) => reply.entityId))]);
+  const entityNames = new Map(entities.map((entity) => [entity.entityId, entity.name]));
+
+  return Promise.all(
+    replies.map(async (reply) => {
+      const attachments = await Promise.all(
+        reply.attachmentSourceIds.map(async (sourceId) => {
+          try {
+            const source = await getSource(sourceId);
+            return {
+              sourceId: source.sourceId,
+              title: source.title,
+              publisher: source.publisher,
+              url: source.url,
+            };
+          } catch {
+            return null;
+          }
+        })
+      );
+
+      return {
+        replyId: reply.replyId,
+        cardId: reply.cardId,
+        entityId: reply.entityId,
+        entityName: entityNames.get(reply.entityId) ?? '[Unknown Entity]',
+        submitterName: reply.submitterName,
+        submitterTitle: reply.submitterTitle,
+        body: reply.body,
+        attachments: attachments.filter((attachment) => attachment !== null),
+        publishedAt: reply.publishedAt!,
+      };
+    })
+  );
+}
+
+async function getPendingReply(replyId: string, status: ReplyStatus): Promise<Reply> {
+  const existing = await getReply(replyId);
+  if (existing.status !== 'PENDING') {
+    throw new InvalidStateTransitionError(existing.status, status);
+  }
+  return existing;
+}
+
+async function moderateReply(
+  existing: Reply,
+  status: ReplyStatus,
+  userId: string,
+  note?: string,
+  changes: Partial<Reply> = {}
+): Promise<Reply> {
+  const now = new Date().toISOString();
+  const updated: Reply = {
+    ...existing,
+    ...changes,
+    status,
+    reviewedAt: now,
+    reviewedBy: userId,
+    moderationNote: note,
+    publishedAt: status === 'PUBLISHED' ? now : undefined,
+  };
+
+  try {
+    await putItem({
+      TableName: TABLE,
+      Item: toItem(updated),
+      ConditionExpression: '#status = :pending',
+      ExpressionAttributeNames: { '#status': 'status' },
+      ExpressionAttributeValues: { ':pending': 'PENDING' },
+    });
+  } catch (error) {
+    if (isConditionalCheckFailed(error)) {
+      throw new ConflictError('Reply was moderated by someone else');
+    }
+    throw error;
+  }
+
+  return updated;
+}
+
+/**
+ * Put a reply's submitted links through the normal source pipeline so they
+ * can be verified. Sources already created are removed if one fails.
+ */
+async function createAttachmentSources(reply: Reply): Promise<string[]> {
+  const attachments = reply.attachments ?? [];
+  if (attachments.length === 0) {
+    return [];
+  }
+
+  const entity = await getEntity(reply.entityId);
+  const sourceIds: string[] = [];
+  try {
+    for (const attachment of attachments) {
+      const source = await createSource(
+        {
+          title: attachment.title,
+          publisher: attachment.publisher ?? entity.name,
+          url: attachment.url,
+          docType: /\.pdf($|\?)/i.test(attachment.url) ? 'PDF' : 'HTML',
+          notes: `Submitted with right-of-reply ${reply.replyId} by ${reply.submitterName}`,
+        },
+        `reply:${reply.replyId}`
+      );
+      sourceIds.push(source.sourceId);
+    }
+  } catch (error) {
+    await Promise.all(sourceIds.map((sourceId) => deleteSource(sourceId)));
+    throw error;
+  }
+  return sourceIds;
+}
+
+export async function publishReply(replyId: string, userId: string, note?: string): Promise<Reply> {
+  const existing = await getPendingReply(replyId, 'PUBLISHED');
+  const attachmentSourceIds = await createAttachmentSources(existing);
+
+  try {
+    return await moderateReply(existing, 'PUBLISHED', userId, note, {
+      attachmentSourceIds: [...existing.attachmentSourceIds, ...attachmentSourceIds],
+    });
+  } catch (error) {
+    await Promise.all(attachmentSourceIds.map((sourceId) => deleteSource(sourceId)));
+    throw error;
+  }
+}
+
+export async function rejectReply(replyId: string, userId: string, reason: string): Promise<Reply> {
+  return moderateReply(await getPendingReply(replyId, 'REJECTED'), 'REJECTED', userId, reason);
+}
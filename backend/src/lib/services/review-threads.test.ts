@@ -0,0 +1,216 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { EvidenceCard, ReviewThread } from '@ledger/shared';
+import {
+  addComment,
+  assertNoOpenThreads,
+  createThread,
+  parseMentions,
+  setThreadStatus,
+} from './review-threads.js';
+import * as dynamodb from '../dynamodb.js';
+import * as cards from './cards.js';
+import { ConflictError, ValidationError } from '../errors.js';
+import { makeCard } from '../../test-utils/fixtures.js';
+
+vi.mock('../dynamodb.js', () => ({
+  getItem: vi.fn(),
+  putItem: vi.fn(),
+  queryItems: vi.fn(),
+  countQueryItems: vi.fn(),
+  encodeCursor: vi.fn((key) => Buffer.from(JSON.stringify(key)).toString('base64url')),
+  decodeCursor: vi.fn((cursor) => JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'))),
+  isConditionalCheckFailed: vi.fn(
+    (error: unknown) => (error as Error).name === 'ConditionalCheckFailedException'
+  ),
+  stripKeys: vi.fn((item) => {
+    const rest = { ...item };
+    delete rest.PK;
+    delete rest.SK;
+    delete rest.GSI1PK;
+    delete rest.GSI1SK;
+    return rest;
+  }),
+}));
+
+vi.mock('./cards.js', () => ({
+  getCard: vi.fn(),
+}));
+
+vi.mock('./relationships.js', () => ({
+  getRelationship: vi.fn(),
+}));
+
+vi.mock('../config.js', () => ({
+  config: {
+    tables: {
+      reviewThreads: 'test-review-threads-table',
+    },
+  },
+}));
+
+// Cards under review unless a test says otherwise
+function reviewCard(overrides: Partial<EvidenceCard> = {}): EvidenceCard {
+  return makeCard({ status: 'REVIEW', version: 3, ...overrides });
+}
+
+function makeThread(overrides: Partial<ReviewThread> = {}): ReviewThread {
+  return {
+    threadId: 'thread-1',
+    targetType: 'card',
+    targetId: 'card-1',
+    version: 3,
+    status: 'OPEN',
+    comments: [
+      {
+        commentId: 'comment-1',
+        authorId: 'reviewer-1',
+        body: 'Is this the final settlement amount?',
+        mentions: [],
+        createdAt: '2024-01-15T00:00:00.000Z',
+      },
+    ],
+    createdAt: '2024-01-15T00:00:00.000Z',
+    createdBy: 'reviewer-1',
+    updatedAt: '2024-01-15T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('review threads service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('parseMentions', () => {
+    it('collects lowercased handles once each and ignores email addresses', () => {
+      expect(
+        parseMentions('@Alice can you check this? cc @bob and @alice, or mail ops@example.org')
+      ).toEqual(['alice', 'bob']);
+    });
+
+    it('drops trailing punctuation from handles', () => {
+      expect(parseMentions('Thanks @jane.doe.')).toEqual(['jane.doe']);
+    });
+  });
+
+  describe('createThread', () => {
+    it('pins the thread to the current card version and records mentions', async () => {
+      vi.mocked(cards.getCard).mockResolvedValueOnce(reviewCard());
+
+      const thread = await createThread(
+        'card',
+        'card-1',
+        { body: '@carol the amount differs from the filing', anchor: { field: 'claim' } },
+        'reviewer-1'
+      );
+
+      expect(thread).toMatchObject({
+        targetType: 'card',
+        targetId: 'card-1',
+        version: 3,
+        anchor: { field: 'claim' },
+        status: 'OPEN',
+        createdBy: 'reviewer-1',
+      });
+      expect(thread.comments[0].mentions).toEqual(['carol']);
+
+      const puts = vi.mocked(dynamodb.putItem).mock.calls.map(([params]) => params.Item);
+      expect(puts).toHaveLength(2);
+      expect(puts[0]).toMatchObject({
+        PK: `THREAD#${thread.threadId}`,
+        SK: 'META',
+        GSI1PK: 'TARGET#card#card-1',
+      });
+      expect(puts[1]).toMatchObject({
+        PK: 'MENTION#carol',
+        threadId: thread.threadId,
+        authorId: 'reviewer-1',
+      });
+    });
+
+    it('rejects threads on published cards', async () => {
+      vi.mocked(cards.getCard).mockResolvedValueOnce(reviewCard({ status: 'PUBLISHED' }));
+
+      await expect(
+        createThread('card', 'card-1', { body: 'Too late?' }, 'reviewer-1')
+      ).rejects.toThrow(ConflictError);
+      expect(dynamodb.putItem).not.toHaveBeenCalled();
+    });
+
+    it('rejects anchors on sources the card does not cite', async () => {
+      vi.mocked(cards.getCard).mockResolvedValueOnce(reviewCard());
+
+      await expect(
+        createThread('card', 'card-1', { body: 'Wrong page', anchor: { sourceId: 'source-9' } }, 'reviewer-1')
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('addComment', () => {
+    it('appends the reply and saves against the previous updatedAt', async () => {
+      vi.mocked(dynamodb.getItem).mockResolvedValueOnce({ PK: 'THREAD#thread-1', SK: 'META', ...makeThread() });
+
+      const updated = await addComment('thread-1', 'Yes, per the court order', 'author-1');
+
+      expect(updated.comments).toHaveLength(2);
+      expect(updated.comments[1]).toMatchObject({ authorId: 'author-1', mentions: [] });
+      const put = vi.mocked(dynamodb.putItem).mock.calls[0][0];
+      expect(put.ConditionExpression).toBe('updatedAt = :updatedAt');
+      expect(put.ExpressionAttributeValues).toEqual({ ':updatedAt': '2024-01-15T00:00:00.000Z' });
+    });
+
+    it('reports a conflict when the thread changed concurrently', async () => {
+      vi.mocked(dynamodb.getItem).mockResolvedValueOnce({ PK: 'THREAD#thread-1', SK: 'META', ...makeThread() });
+      const conditionFailed = new Error('The conditional request failed');
+      conditionFailed.name = 'ConditionalCheckFailedException';
+      vi.mocked(dynamodb.putItem).mockRejectedValueOnce(conditionFailed);
+
+      await expect(addComment('thread-1', 'Reply', 'author-1')).rejects.toThrow(ConflictError);
+    });
+  });
+
+  describe('setThreadStatus', () => {
+    it('records who resolved the thread and clears it on unresolve', async () => {
+      vi.mocked(dynamodb.getItem).mockResolvedValueOnce({ PK: 'THREAD#thread-1', SK: 'META', ...makeThread() });
+
+      const resolved = await setThreadStatus('thread-1', 'RESOLVED', 'reviewer-1');
+      expect(resolved).toMatchObject({ status: 'RESOLVED', resolvedBy: 'reviewer-1' });
+
+      vi.mocked(dynamodb.getItem).mockResolvedValueOnce({ PK: 'THREAD#thread-1', SK: 'META', ...resolved });
+
+      const reopened = await setThreadStatus('thread-1', 'OPEN', 'reviewer-2');
+      expect(reopened.status).toBe('OPEN');
+      expect(reopened.resolvedBy).toBeUndefined();
+    });
+
+    it('rejects a no-op status change', async () => {
+      vi.mocked(dynamodb.getItem).mockResolvedValueOnce({ PK: 'THREAD#thread-1', SK: 'META', ...makeThread() });
+
+      await expect(setThreadStatus('thread-1', 'OPEN', 'reviewer-1')).rejects.toThrow(
+        'Review thread is already OPEN'
+      );
+    });
+  });
+
+  describe('assertNoOpenThreads', () => {
+    it('blocks publishing while threads are open', async () => {
+      vi.mocked(dynamodb.countQueryItems).mockResolvedValueOnce(2);
+
+      await expect(assertNoOpenThreads('card', 'card-1')).rejects.toThrow(
+        'Cannot publish with 2 unresolved review threads'
+      );
+      expect(dynamodb.countQueryItems).toHaveBeenCalledWith(
+        expect.objectContaining({
+          IndexName: 'GSI1',
+          ExpressionAttributeValues: { ':pk': 'TARGET#card#card-1', ':open': 'OPEN' },
+        })
+      );
+    });
+
+    it('passes when every thread is resolved', async () => {
+      vi.mocked(dynamodb.countQueryItems).mockResolvedValueOnce(0);
+
+      await expect(assertNoOpenThreads('relationship', 'rel-1')).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,291 @@
+import { ulid } from 'ulid';
+import type {
+  PaginatedResponse,
+  ReviewAnchor,
+  ReviewComment,
+  ReviewMention,
+  ReviewTargetType,
+  ReviewThread,
+  ReviewThreadStatus,
+} from '@ledger/shared';
+import { config } from '../config.js';
+import {
+  getItem,
+  putItem,
+  queryItems,
+  countQueryItems,
+  stripKeys,
+  encodeCursor,
+  decodeCursor,
+  isConditionalCheckFailed,
+} from '../dynamodb.js';
+import { NotFoundError, ConflictError, ValidationError } from '../errors.js';
+import { getCard } from './cards.js';
+import { getRelationship } from './relationships.js';
+import type { CreateReviewThreadInput, ReviewMentionsQueryInput } from '../validation.js';
+
+const TABLE = config.tables.reviewThreads;
+
+// Table layout:
+//   PK THREAD#{threadId}   SK META                       thread with its comments
+//     GSI1 TARGET#{type}#{targetId} / {createdAt}#{threadId}   threads per card or relationship
+//   PK MENTION#{handle}    SK {createdAt}#{commentId}    one entry per @mention, newest last
+
+const MAX_MENTIONS_PER_COMMENT = 20;
+
+// @handle at the start of the text or after a non-word character, so emails don't match
+const MENTION_PATTERN = /(?<![\w@])@([A-Za-z0-9_](?:[A-Za-z0-9_.-]*[A-Za-z0-9_])?)/g;
+
+type ThreadItem = ReviewThread & { PK: string; SK: string; GSI1PK: string; GSI1SK: string };
+type MentionItem = ReviewMention & { PK: string; SK: string };
+
+function targetKey(targetType: ReviewTargetType, targetId: string): string {
+  return `TARGET#${targetType}#${targetId}`;
+}
+
+function toItem(thread: ReviewThread): ThreadItem {
+  return {
+    PK: `THREAD#${thread.threadId}`,
+    SK: 'META',
+    GSI1PK: targetKey(thread.targetType, thread.targetId),
+    GSI1SK: `${thread.createdAt}#${thread.threadId}`,
+    ...thread,
+  };
+}
+
+/** Lowercased, de-duplicated @handles in a comment body */
+export function parseMentions(body: string): string[] {
+  const handles = new Set<string>();
+  for (const match of body.matchAll(MENTION_PATTERN)) {
+    handles.add(match[1].toLowerCase());
+    if (handles.size >= MAX_MENTIONS_PER_COMMENT) break;
+  }
+  return [...handles];
+}
+
+function createComment(body: string, authorId: string, createdAt: string): ReviewComment {
+  return { commentId: ulid(), authorId, body, mentions: parseMentions(body), createdAt };
+}
+
+async function recordMentions(thread: ReviewThread, comment: ReviewComment): Promise<void> {
+  const excerpt = comment.body.length > 200 ? `${comment.body.slice(0, 197)}...` : comment.body;
+  await Promise.all(
+    comment.mentions.map((handle) => {
+      const mention: ReviewMention = {
+        handle,
+        threadId: thread.threadId,
+        commentId: comment.commentId,
+        targetType: thread.targetType,
+        targetId: thread.targetId,
+        authorId: comment.authorId,
+        excerpt,
+        createdAt: comment.createdAt,
+      };
+      return putItem({
+        TableName: TABLE,
+        Item: { PK: `MENTION#${handle}`, SK: `${comment.createdAt}#${comment.commentId}`, ...mention },
+      });
+    })
+  );
+}
+
+/**
+ * Check a new thread's target: cards take threads while DRAFT or REVIEW,
+ * relationships while DRAFT. Returns the card version to pin the thread to.
+ */
+async function resolveTarget(
+  targetType: ReviewTargetType,
+  targetId: string,
+  anchor?: ReviewAnchor
+): Promise<number | undefined> {
+  const target = targetType === 'card'
+    ? await getCard(targetId)
+    : await getRelationship(targetId);
+
+  const open = targetType === 'card' ? ['DRAFT', 'REVIEW'] : ['DRAFT'];
+  if (!open.includes(target.status)) {
+    throw new ConflictError(`Review threads can only be opened on ${open.join(' or ')} ${targetType}s`);
+  }
+
+  if (anchor?.sourceId && !target.sourceRefs.includes(anchor.sourceId)) {
+    throw new ValidationError(`Source ${anchor.sourceId} is not cited by this ${targetType}`);
+  }
+
+  return 'version' in target ? target.version : undefined;
+}
+
+export async function createThread(
+  targetType: ReviewTargetType,
+  targetId: string,
+  input: CreateReviewThreadInput,
+  userId: string
+): Promise<ReviewThread> {
+  const version = await resolveTarget(targetType, targetId, input.anchor);
+
+  const now = new Date().toISOString();
+  const comment = createComment(input.body, userId, now);
+  const thread: ReviewThread = {
+    threadId: ulid(),
+    targetType,
+    targetId,
+    ...(version !== undefined && { version }),
+    ...(input.anchor && { anchor: input.anchor }),
+    status: 'OPEN',
+    comments: [comment],
+    createdAt: now,
+    createdBy: userId,
+    updatedAt: now,
+  };
+
+  await putItem({ TableName: TABLE, Item: toItem(thread) });
+  await recordMentions(thread, comment);
+
+  return thread;
+}
+
+export async function getThread(threadId: string): Promise<ReviewThread> {
+  const item = await getItem<ThreadItem>({
+    TableName: TABLE,
+    Key: { PK: `THREAD#${threadId}`, SK: 'META' },
+  });
+
+  if (!item) {
+    throw new NotFoundError('Review thread', threadId);
+  }
+
+  return stripKeys(item);
+}
+
+/** All threads on a card or relationship, oldest first */
+export async function listThreads(
+  targetType: ReviewTargetType,
+  targetId: string
+): Promise<ReviewThread[]> {
+  const threads: ReviewThread[] = [];
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+
+  do {
+    const { items, lastEvaluatedKey } = await queryItems<ThreadItem>({
+      TableName: TABLE,
+      IndexName: 'GSI1',
+      KeyConditionExpression: 'GSI1PK = :pk',
+      ExpressionAttributeValues: { ':pk': targetKey(targetType, targetId) },
+      ExclusiveStartKey: exclusiveStartKey,
+    });
+    threads.push(...items.map((item) => stripKeys(item)));
+    exclusiveStartKey = lastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return threads;
+}
+
+/** Number of OPEN threads on a target; publishing is blocked while this is non-zero */
+export async function countOpenThreads(
+  targetType: ReviewTargetType,
+  targetId: string
+): Promise<number> {
+  return countQueryItems({
+    TableName: TABLE,
+    IndexName: 'GSI1',
+    KeyConditionExpression: 'GSI1PK = :pk',
+    FilterExpression: '#status = :open',
+    ExpressionAttributeNames: { '#status': 'status' },
+    ExpressionAttributeValues: { ':pk': targetKey(targetType, targetId), ':open': 'OPEN' },
+  });
+}
+
+/** Throw ConflictError while the target has unresolved review threads */
+export async function assertNoOpenThreads(
+  targetType: ReviewTargetType,
+  targetId: string
+): Promise<void> {
+  const open = await countOpenThreads(targetType, targetId);
+  if (open > 0) {
+    throw new ConflictError(
+      `Cannot publish with ${open} unresolved review thread${open === 1 ? '' : 's'}`
+    );
+  }
+}
+
+// Write a changed thread, failing if someone else changed it since it was read
+async function saveThread(previous: ReviewThread, updated: ReviewThread): Promise<void> {
+  try {
+    await putItem({
+      TableName: TABLE,
+      Item: toItem(updated),
+      ConditionExpression: 'updatedAt = :updatedAt',
+      ExpressionAttributeValues: { ':updatedAt': previous.updatedAt },
+    });
+  } catch (error) {
+    if (isConditionalCheckFailed(error)) {
+      throw new ConflictError('Review thread was changed by someone else; reload and try again');
+    }
+    throw error;
+  }
+}
+
+export async function addComment(
+  threadId: string,
+  body: string,
+  userId: string
+): Promise<ReviewThread> {
+  const thread = await getThread(threadId);
+
+  const now = new Date().toISOString();
+  const comment = createComment(body, userId, now);
+  const updated: ReviewThread = {
+    ...thread,
+    comments: [...thread.comments, comment],
+    updatedAt: now,
+  };
+
+  await saveThread(thread, updated);
+  await recordMentions(updated, comment);
+
+  return updated;
+}
+
+export async function setThreadStatus(
+  threadId: string,
+  status: ReviewThreadStatus,
+  userId: string
+): Promise<ReviewThread> {
+  const thread = await getThread(threadId);
+  if (thread.status === status) {
+    throw new ConflictError(`Review thread is already ${status}`);
+  }
+
+  const now = new Date().toISOString();
+  const updated: ReviewThread = {
+    ...thread,
+    status,
+    updatedAt: now,
+    resolvedAt: status === 'RESOLVED' ? now : undefined,
+    resolvedBy: status === 'RESOLVED' ? userId : undefined,
+  };
+
+  await saveThread(thread, updated);
+  return updated;
+}
+
+/** Comments mentioning a handle, newest first */
+export async function listMentions(
+  query: ReviewMentionsQueryInput
+): Promise<PaginatedResponse<ReviewMention>> {
+  const exclusiveStartKey = query.cursor ? decodeCursor(query.cursor) : undefined;
+
+  const { items, lastEvaluatedKey } = await queryItems<MentionItem>({
+    TableName: TABLE,
+    KeyConditionExpression: 'PK = :pk',
+    ExpressionAttributeValues: { ':pk': `MENTION#${query.handle.toLowerCase()}` },
+    ScanIndexForward: false,
+    Limit: query.limit,
+    ExclusiveStartKey: exclusiveStartKey,
+  });
+
+  return {
+    items: items.map((item) => stripKeys(item)),
+    cursor: lastEvaluatedKey ? encodeCursor(lastEvaluatedKey) : undefined,
+    hasMore: !!lastEvaluatedKey,
+  };
+}
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DEFAULT_SCORING_WEIGHTS } from '@ledger/shared';
+import {
+  getActiveScoringWeights,
+  createScoringWeightsVersion,
+  createRescoreJob,
+} from './scoring-weights.js';
+import * as dynamodb from '../dynamodb.js';
+import { ConflictError } from '../errors.js';
+
+vi.mock('../dynamodb.js', () => ({
+  putItem: vi.fn(),
+  queryItems: vi.fn(),
+  isConditionalCheckFailed: vi.fn(
+    (error) => (error as { name?: string })?.name === 'ConditionalCheckFailedException'
+  ),
+  stripKeys: vi.fn((item) => {
+    const rest = { ...item };
+    delete rest.PK;
+    delete rest.SK;
+    return rest;
+  }),
+}));
+
+vi.mock('../config.js', () => ({
+  config: {
+    tables: {
+      config: 'test-config-table',
+    },
+  },
+}));
+
+const storedV1 = {
+  PK: 'SCORING_WEIGHTS',
+  SK: 'V#000001',
+  version: 'v1',
+  versionNumber: 1,
+  weights: DEFAULT_SCORING_WEIGHTS,
+  createdAt: '2024-01-01T00:00:00Z',
+  createdBy: 'admin-1',
+};
+
+const newWeights = {
+  severity: 0.3,
+  intent: 0.1,
+  scope: 0.2,
+  recidivism: 0.15,
+  deception: 0.15,
+  accountability: 0.1,
+};
+
+describe('scoring weights service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('getActiveScoringWeights', () => {
+    it('falls back to the default weights when nothing is stored', async () => {
+      vi.mocked(dynamodb.queryItems).mockResolvedValueOnce({ items: [] });
+
+      const active = await getActiveScoringWeights();
+
+      expect(active.version).toBe('default');
+      expect(active.versionNumber).toBe(0);
+      expect(active.weights).toEqual(DEFAULT_SCORING_WEIGHTS);
+    });
+
+    it('returns the newest stored version', async () => {
+      vi.mocked(dynamodb.queryItems).mockResolvedValueOnce({ items: [storedV1] });
+
+      const active = await getActiveScoringWeights();
+
+      expect(active.version).toBe('v1');
+      expect(dynamodb.queryItems).toHaveBeenCalledWith(
+        expect.objectContaining({
+          TableName: 'test-config-table',
+          ScanIndexForward: false,
+          Limit: 1,
+        })
+      );
+    });
+  });
+
+  describe('createScoringWeightsVersion', () => {
+    it('writes the next version number with a write-once condition', async () => {
+      vi.mocked(dynamodb.queryItems).mockResolvedValueOnce({ items: [storedV1] });
+
+      const created = await createScoringWeightsVersion(
+        { weights: newWeights, note: 'Emphasize severity' },
+        'admin-2'
+      );
+
+      expect(created).toMatchObject({ version: 'v2', versionNumber: 2, createdBy: 'admin-2' });
+      expect(dynamodb.putItem).toHaveBeenCalledWith(
+        expect.objectContaining({
+          Item: expect.objectContaining({ PK: 'SCORING_WEIGHTS', SK: 'V#000002' }),
+          ConditionExpression: 'attribute_not_exists(PK)',
+        })
+      );
+    });
+
+    it('throws ConflictError when another writer claimed the version', async () => {
+      vi.mocked(dynamodb.queryItems).mockResolvedValueOnce({ items: [storedV1] });
+      const conditionalError = new Error('The conditional request failed');
+      conditionalError.name = 'ConditionalCheckFailedException';
+      vi.mocked(dynamodb.putItem).mockRejectedValueOnce(conditionalError);
+
+      await expect(
+        createScoringWeightsVersion({ weights: newWeights }, 'admin-2')
+      ).rejects.toThrow(ConflictError);
+    });
+  });
+
+  describe('createRescoreJob', () => {
+    it('queues a pending job for the version', async () => {
+      const job = await createRescoreJob('v2', 'admin-2');
+
+      expect(job).toMatchObject({
+        weightConfigVersion: 'v2',
+        status: 'PENDING',
+        entitiesProcessed: 0,
+        errors: 0,
+      });
+      expect(dynamodb.putItem).toHaveBeenCalledWith(
+        expect.objectContaining({
+          Item: expect.objectContaining({ PK: 'RESCORE_JOB', SK: `JOB#${job.jobId}` }),
+        })
+      );
+    });
+  });
+});
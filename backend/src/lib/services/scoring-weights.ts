@@ -0,0 +1,160 @@
+import { ulid } from 'ulid';
+import type { ScoringWeightsConfig, RescoreJob } from '@ledger/shared';
+import { DEFAULT_SCORING_WEIGHTS, RescoreJobStatus } from '@ledger/shared';
+import { config } from '../config.js';
+import { putItem, queryItems, stripKeys, isConditionalCheckFailed } from '../dynamodb.js';
+import { ConflictError } from '../errors.js';
+import type { CreateScoringWeightsInput } from '../validation.js';
+
+const TABLE = config.tables.config;
+
+// Weights versions: PK SCORING_WEIGHTS, SK V#{zero-padded versionNumber}
+const WEIGHTS_PK = 'SCORING_WEIGHTS';
+// Rescore jobs: PK RESCORE_JOB, SK JOB#{ulid}
+const JOB_PK = 'RESCORE_JOB';
+
+/** Version label used when no weights have been stored yet */
+export const DEFAULT_WEIGHT_CONFIG_VERSION = 'default';
+
+const DEFAULT_CONFIG: ScoringWeightsConfig = {
+  version: DEFAULT_WEIGHT_CONFIG_VERSION,
+  versionNumber: 0,
+  weights: DEFAULT_SCORING_WEIGHTS,
+  createdAt: new Date(0).toISOString(),
+  createdBy: 'system',
+};
+
+function versionSortKey(versionNumber: number): string {
+  return `V#${String(versionNumber).padStart(6, '0')}`;
+}
+
+/**
+ * Get the active scoring weights (the newest stored version).
+ * Falls back to DEFAULT_SCORING_WEIGHTS when the store is empty.
+ */
+export async function getActiveScoringWeights(): Promise<ScoringWeightsConfig> {
+  const { items } = await queryItems<ScoringWeightsConfig & { PK: string; SK: string }>({
+    TableName: TABLE,
+    KeyConditionExpression: 'PK = :pk AND begins_with(SK, :skPrefix)',
+    ExpressionAttributeValues: {
+      ':pk': WEIGHTS_PK,
+      ':skPrefix': 'V#',
+    },
+    ScanIndexForward: false,
+    Limit: 1,
+  });
+
+  return items.length > 0 ? stripKeys(items[0]) : DEFAULT_CONFIG;
+}
+
+/** List every stored weights version, newest first */
+export async function listScoringWeightVersions(): Promise<ScoringWeightsConfig[]> {
+  const versions: ScoringWeightsConfig[] = [];
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+
+  do {
+    const { items, lastEvaluatedKey } = await queryItems<ScoringWeightsConfig & { PK: string; SK: string }>({
+      TableName: TABLE,
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :skPrefix)',
+      ExpressionAttributeValues: {
+        ':pk': WEIGHTS_PK,
+        ':skPrefix': 'V#',
+      },
+      ScanIndexForward: false,
+      ExclusiveStartKey: exclusiveStartKey,
+    });
+    versions.push(...items.map((item) => stripKeys(item)));
+    exclusiveStartKey = lastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return versions;
+}
+
+/**
+ * Store a new weights version, which immediately becomes active.
+ * Versions are write-once; a concurrent writer claiming the same
+ * version number gets a ConflictError.
+ */
+export async function createScoringWeightsVersion(
+  input: CreateScoringWeightsInput,
+  userId: string
+): Promise<ScoringWeightsConfig> {
+  const active = await getActiveScoringWeights();
+  const versionNumber = active.versionNumber + 1;
+
+  const created: ScoringWeightsConfig = {
+    version: `v${versionNumber}`,
+    versionNumber,
+    weights: input.weights,
+    note: input.note,
+    createdAt: new Date().toISOString(),
+    createdBy: userId,
+  };
+
+  try {
+    await putItem({
+      TableName: TABLE,
+      Item: {
+        PK: WEIGHTS_PK,
+        SK: versionSortKey(versionNumber),
+        ...created,
+      },
+      ConditionExpression: 'attribute_not_exists(PK)',
+    });
+  } catch (error) {
+    if (isConditionalCheckFailed(error)) {
+      throw new ConflictError(
+        `Scoring weights version ${created.version} was created concurrently; reload and retry`
+      );
+    }
+    throw error;
+  }
+
+  return created;
+}
+
+/** Queue a bulk rescore of every entity under the given weights version */
+export async function createRescoreJob(
+  weightConfigVersion: string,
+  userId: string
+): Promise<RescoreJob> {
+  const job: RescoreJob = {
+    jobId: ulid(),
+    weightConfigVersion,
+    status: RescoreJobStatus.PENDING,
+    entitiesProcessed: 0,
+    errors: 0,
+    createdAt: new Date().toISOString(),
+    createdBy: userId,
+  };
+
+  await saveRescoreJob(job);
+  return job;
+}
+
+/** Most recently queued rescore job, if any */
+export async function getLatestRescoreJob(): Promise<RescoreJob | undefined> {
+  const { items } = await queryItems<RescoreJob & { PK: string; SK: string }>({
+    TableName: TABLE,
+    KeyConditionExpression: 'PK = :pk',
+    ExpressionAttributeValues: {
+      ':pk': JOB_PK,
+    },
+    ScanIndexForward: false,
+    Limit: 1,
+  });
+
+  return items.length > 0 ? stripKeys(items[0]) : undefined;
+}
+
+/** Persist job progress (overwrites the job item) */
+export async function saveRescoreJob(job: RescoreJob): Promise<void> {
+  await putItem({
+    TableName: TABLE,
+    Item: {
+      PK: JOB_PK,
+      SK: `JOB#${job.jobId}`,
+      ...job,
+    },
+  });
+}
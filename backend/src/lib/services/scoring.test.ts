@@ -0,0 +1,293 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { ScoreSignals } from '@ledger/shared';
+import { DEFAULT_SCORING_WEIGHTS } from '@ledger/shared';
+import {
+  computeCardScore,
+  computeAggregateScore,
+  recomputeEntityScore,
+  recomputeEntityScores,
+  previewScoringWeights,
+  runRescoreJob,
+} from './scoring.js';
+import * as cards from './cards.js';
+import * as entities from './entities.js';
+import * as scoringWeights from './scoring-weights.js';
+import { makeCard } from '../../test-utils/fixtures.js';
+
+vi.mock('./cards.js', () => ({
+  getCard: vi.fn(),
+  listEntityCards: vi.fn(),
+}));
+
+vi.mock('./entities.js', () => ({
+  listEntities: vi.fn(),
+  saveEntityAggregateScore: vi.fn(),
+}));
+
+vi.mock('./scoring-weights.js', () => ({
+  DEFAULT_WEIGHT_CONFIG_VERSION: 'default',
+  getActiveScoringWeights: vi.fn(),
+  getLatestRescoreJob: vi.fn(),
+  saveRescoreJob: vi.fn(),
+}));
+
+vi.mock('../config.js', () => ({
+  config: {
+    scoring: { rescoreBatchSize: 200 },
+  },
+}));
+
+const allFives: ScoreSignals = {
+  severity: 5,
+  intent: 5,
+  scope: 5,
+  recidivism: 5,
+  deception: 5,
+  accountability: 5,
+};
+
+const activeConfig = {
+  version: 'v2',
+  versionNumber: 2,
+  weights: DEFAULT_SCORING_WEIGHTS,
+  createdAt: '2024-01-01T00:00:00Z',
+  createdBy: 'admin-1',
+};
+
+// Severity-only weights: ranks entities purely on severity
+const severityOnly = {
+  severity: 1,
+  intent: 0,
+  scope: 0,
+  recidivism: 0,
+  deception: 0,
+  accountability: 0,
+};
+
+describe('scoring service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(scoringWeights.getActiveScoringWeights).mockResolvedValue(activeConfig);
+  });
+
+  describe('computeCardScore', () => {
+    it('maps maximum signals to 100 and zero signals to 0', () => {
+      expect(computeCardScore(allFives)).toBeCloseTo(100);
+      expect(
+        computeCardScore({
+          severity: 0,
+          intent: 0,
+          scope: 0,
+          recidivism: 0,
+          deception: 0,
+          accountability: 0,
+        })
+      ).toBe(0);
+    });
+
+    it('applies the default weights', () => {
+      // Only severity set: 0.25 * 5 / 5 = 25%
+      const score = computeCardScore({ ...allFives, intent: 0, scope: 0, recidivism: 0, deception: 0, accountability: 0 });
+      expect(score).toBeCloseTo(DEFAULT_SCORING_WEIGHTS.severity * 100);
+    });
+
+    it('normalizes weights that do not sum to 1', () => {
+      const doubled = {
+        severity: 0.5,
+        intent: 0.3,
+        scope: 0.4,
+        recidivism: 0.3,
+        deception: 0.3,
+        accountability: 0.2,
+      };
+      const signals = { ...allFives, scope: 2, accountability: 1 };
+      expect(computeCardScore(signals, doubled)).toBeCloseTo(computeCardScore(signals));
+    });
+  });
+
+  describe('computeAggregateScore', () => {
+    it('averages overall and per-category scores across scored cards', () => {
+      const result = computeAggregateScore([
+        makeCard({ cardId: 'a', category: 'labor', scoreSignals: allFives }),
+        makeCard({
+          cardId: 'b',
+          category: 'environment',
+          scoreSignals: { ...allFives, severity: 0, intent: 0, scope: 0, recidivism: 0, deception: 0, accountability: 0 },
+        }),
+        makeCard({ cardId: 'c', category: 'labor', scoreSignals: allFives }),
+      ]);
+
+      expect(result.totalCards).toBe(3);
+      expect(result.overallScore).toBe(66.7);
+      expect(result.categoryScores).toEqual({ labor: 100, environment: 0 });
+      expect(result.weightConfigVersion).toBe('default');
+    });
+
+    it('ignores retracted cards and cards without signals', () => {
+      const result = computeAggregateScore([
+        makeCard({ cardId: 'a', scoreSignals: allFives, status: 'RETRACTED' }),
+        makeCard({ cardId: 'b' }),
+        makeCard({ cardId: 'c', scoreSignals: allFives, status: 'CORRECTED' }),
+      ]);
+
+      expect(result.totalCards).toBe(1);
+      expect(result.overallScore).toBe(100);
+    });
+
+    it('returns a zero score when nothing is scored', () => {
+      const result = computeAggregateScore([], DEFAULT_SCORING_WEIGHTS, 'v3');
+      expect(result).toMatchObject({
+        overallScore: 0,
+        categoryScores: {},
+        totalCards: 0,
+        weightConfigVersion: 'v3',
+      });
+    });
+  });
+
+  describe('recomputeEntityScore', () => {
+    it('re-reads the latest card versions and persists the aggregate', async () => {
+      vi.mocked(cards.listEntityCards)
+        .mockResolvedValueOnce({
+          items: [makeCard({ cardId: 'a' }), makeCard({ cardId: 'b' })],
+          cursor: 'next',
+          hasMore: true,
+        })
+        .mockResolvedValueOnce({
+          items: [makeCard({ cardId: 'a' })],
+          cursor: undefined,
+          hasMore: false,
+        });
+      vi.mocked(cards.getCard).mockImplementation(async (cardId) =>
+        cardId === 'a'
+          ? makeCard({ cardId: 'a', scoreSignals: allFives })
+          : makeCard({ cardId: 'b', scoreSignals: allFives, status: 'RETRACTED' })
+      );
+
+      const score = await recomputeEntityScore('entity-1');
+
+      expect(cards.getCard).toHaveBeenCalledTimes(2);
+      expect(score.totalCards).toBe(1);
+      expect(score.weightConfigVersion).toBe('v2');
+      expect(entities.saveEntityAggregateScore).toHaveBeenCalledWith('entity-1', score);
+    });
+  });
+
+  describe('recomputeEntityScores', () => {
+    it('continues past failures and deduplicates entity ids', async () => {
+      vi.mocked(cards.listEntityCards).mockResolvedValue({ items: [], hasMore: false });
+      vi.mocked(entities.saveEntityAggregateScore)
+        .mockRejectedValueOnce(new Error('boom'))
+        .mockResolvedValueOnce(undefined);
+
+      await expect(
+        recomputeEntityScores(['entity-1', 'entity-2', 'entity-1'])
+      ).resolves.toBeUndefined();
+
+      expect(entities.saveEntityAggregateScore).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('previewScoringWeights', () => {
+    it('reports rank shifts between active and proposed weights', async () => {
+      vi.mocked(entities.listEntities).mockResolvedValueOnce({
+        items: [
+          { entityId: 'e1', name: 'Alpha', type: 'CORPORATION', aliases: [], createdAt: '', updatedAt: '' },
+          { entityId: 'e2', name: 'Beta', type: 'CORPORATION', aliases: [], createdAt: '', updatedAt: '' },
+        ],
+        hasMore: false,
+      });
+      vi.mocked(cards.listEntityCards).mockImplementation(async (entityId) => ({
+        items: [makeCard({ cardId: `${entityId}-card` })],
+        hasMore: false,
+      }));
+      vi.mocked(cards.getCard).mockImplementation(async (cardId) =>
+        cardId === 'e1-card'
+          // High on everything except severity
+          ? makeCard({ cardId, scoreSignals: { ...allFives, severity: 0 } })
+          // Severity only
+          : makeCard({
+              cardId,
+              scoreSignals: { severity: 5, intent: 0, scope: 0, recidivism: 0, deception: 0, accountability: 0 },
+            })
+      );
+
+      const preview = await previewScoringWeights(severityOnly);
+
+      expect(preview.activeVersion).toBe('v2');
+      expect(preview.entities).toEqual([
+        expect.objectContaining({ entityId: 'e2', currentRank: 2, proposedRank: 1, rankChange: 1, proposedScore: 100 }),
+        expect.objectContaining({ entityId: 'e1', currentRank: 1, proposedRank: 2, rankChange: -1, proposedScore: 0 }),
+      ]);
+      expect(entities.saveEntityAggregateScore).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('runRescoreJob', () => {
+    const pendingJob = {
+      jobId: 'job-1',
+      weightConfigVersion: 'v2',
+      status: 'PENDING' as const,
+      entitiesProcessed: 0,
+      errors: 0,
+      createdAt: '2024-01-01T00:00:00Z',
+      createdBy: 'admin-1',
+    };
+
+    it('does nothing when the latest job is completed', async () => {
+      vi.mocked(scoringWeights.getLatestRescoreJob).mockResolvedValueOnce({
+        ...pendingJob,
+        status: 'COMPLETED',
+      });
+
+      expect(await runRescoreJob()).toBeUndefined();
+      expect(entities.listEntities).not.toHaveBeenCalled();
+    });
+
+    it('stops at the batch size and saves a resume cursor', async () => {
+      vi.mocked(scoringWeights.getLatestRescoreJob).mockResolvedValueOnce({ ...pendingJob });
+      vi.mocked(entities.listEntities).mockResolvedValueOnce({
+        items: [
+          { entityId: 'e1', name: 'Alpha', type: 'CORPORATION', aliases: [], createdAt: '', updatedAt: '' },
+          { entityId: 'e2', name: 'Beta', type: 'CORPORATION', aliases: [], createdAt: '', updatedAt: '' },
+        ],
+        cursor: 'page-2',
+        hasMore: true,
+      });
+      vi.mocked(cards.listEntityCards).mockResolvedValue({ items: [], hasMore: false });
+
+      const job = await runRescoreJob(2);
+
+      expect(entities.listEntities).toHaveBeenCalledWith({ limit: 2, cursor: undefined });
+      expect(entities.saveEntityAggregateScore).toHaveBeenCalledTimes(2);
+      expect(job).toMatchObject({ status: 'RUNNING', entitiesProcessed: 2, cursor: 'page-2' });
+      expect(scoringWeights.saveRescoreJob).toHaveBeenCalledTimes(1);
+    });
+
+    it('resumes from the saved cursor and completes', async () => {
+      vi.mocked(scoringWeights.getLatestRescoreJob).mockResolvedValueOnce({
+        ...pendingJob,
+        status: 'RUNNING',
+        entitiesProcessed: 2,
+        cursor: 'page-2',
+      });
+      vi.mocked(entities.listEntities).mockResolvedValueOnce({
+        items: [{ entityId: 'e3', name: 'Gamma', type: 'AGENCY', aliases: [], createdAt: '', updatedAt: '' }],
+        hasMore: false,
+      });
+      vi.mocked(cards.listEntityCards).mockResolvedValue({ items: [], hasMore: false });
+      vi.mocked(entities.saveEntityAggregateScore).mockRejectedValueOnce(new Error('boom'));
+
+      const job = await runRescoreJob(200);
+
+      expect(entities.listEntities).toHaveBeenCalledWith({ limit: 100, cursor: 'page-2' });
+      expect(job).toMatchObject({
+        status: 'COMPLETED',
+        entitiesProcessed: 3,
+        errors: 1,
+        cursor: undefined,
+      });
+      expect(job?.completedAt).toBeDefined();
+    });
+  });
+});
@@ -0,0 +1,278 @@
+import type {
+  EvidenceCard,
+  EntityAggregateScore,
+  ScoreSignals,
+  ScoringWeights,
+  ScoringWeightsConfig,
+  ScoringWeightsPreview,
+  ScoringRankShift,
+  RescoreJob,
+} from '@ledger/shared';
+import { CardStatus, DEFAULT_SCORING_WEIGHTS, RescoreJobStatus } from '@ledger/shared';
+import { config } from '../config.js';
+import { logger } from '../logger.js';
+import { getCard, listEntityCards } from './cards.js';
+import { listEntities, saveEntityAggregateScore } from './entities.js';
+import {
+  DEFAULT_WEIGHT_CONFIG_VERSION,
+  getActiveScoringWeights,
+  getLatestRescoreJob,
+  saveRescoreJob,
+} from './scoring-weights.js';
+
+/** Card statuses that contribute to an entity's score. Retracted cards never count. */
+const SCORED_STATUSES: ReadonlySet<string> = new Set([
+  CardStatus.PUBLISHED,
+  CardStatus.DISPUTED,
+  CardStatus.CORRECTED,
+]);
+
+const SIGNAL_KEYS: Array<keyof ScoreSignals> = [
+  'severity',
+  'intent',
+  'scope',
+  'recidivism',
+  'deception',
+  'accountability',
+];
+
+const MAX_SIGNAL = 5;
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+/**
+ * Score a single card on a 0-100 scale.
+ * Weighted sum of the 0-5 signals, normalized by the total weight so that
+ * weight sets which don't sum to exactly 1 still produce comparable scores.
+ */
+export function computeCardScore(
+  signals: ScoreSignals,
+  weights: ScoringWeights = DEFAULT_SCORING_WEIGHTS
+): number {
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const key of SIGNAL_KEYS) {
+    weighted += weights[key] * signals[key];
+    totalWeight += weights[key];
+  }
+  if (totalWeight <= 0) {
+    return 0;
+  }
+  return (weighted / totalWeight / MAX_SIGNAL) * 100;
+}
+
+/**
+ * Aggregate card scores for an entity.
+ * Overall and per-category scores are the mean of the contributing card scores.
+ * Cards without score signals or in a non-public/retracted status are ignored.
+ */
+export function computeAggregateScore(
+  cards: EvidenceCard[],
+  weights: ScoringWeights = DEFAULT_SCORING_WEIGHTS,
+  weightConfigVersion: string = DEFAULT_WEIGHT_CONFIG_VERSION
+): EntityAggregateScore {
+  const scored = cards.filter(
+    (card) => card.scoreSignals && SCORED_STATUSES.has(card.status)
+  );
+
+  const byCategory = new Map<string, number[]>();
+  const allScores: number[] = [];
+  for (const card of scored) {
+    const score = computeCardScore(card.scoreSignals!, weights);
+    allScores.push(score);
+    const bucket = byCategory.get(card.category) || [];
+    bucket.push(score);
+    byCategory.set(card.category, bucket);
+  }
+
+  const categoryScores: Record<string, number> = {};
+  for (const [category, scores] of byCategory) {
+    categoryScores[category] = round1(mean(scores));
+  }
+
+  return {
+    overallScore: allScores.length > 0 ? round1(mean(allScores)) : 0,
+    categoryScores,
+    totalCards: scored.length,
+    weightConfigVersion,
+    lastComputedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Load the current version of every card linked to an entity.
+ * The entity fan-out index holds publish-time snapshots, so each card is
+ * re-read to pick up later corrections and retractions.
+ */
+async function getCurrentEntityCards(entityId: string): Promise<EvidenceCard[]> {
+  const cardIds = new Set<string>();
+  let cursor: string | undefined;
+
+  do {
+    const result = await listEntityCards(entityId, { limit: 100, cursor });
+    for (const card of result.items) {
+      cardIds.add(card.cardId);
+    }
+    cursor = result.cursor;
+  } while (cursor);
+
+  return Promise.all([...cardIds].map((cardId) => getCard(cardId)));
+}
+
+/**
+ * Recompute and persist the aggregate score for one entity.
+ * Uses the active weights unless a specific config is supplied.
+ */
+export async function recomputeEntityScore(
+  entityId: string,
+  weightsConfig?: ScoringWeightsConfig
+): Promise<EntityAggregateScore> {
+  const active = weightsConfig ?? (await getActiveScoringWeights());
+  const cards = await getCurrentEntityCards(entityId);
+  const score = computeAggregateScore(cards, active.weights, active.version);
+  await saveEntityAggregateScore(entityId, score);
+  return score;
+}
+
+/**
+ * Recompute scores for every entity referenced by a card.
+ * Failures are logged rather than thrown: the card transition has already
+ * been committed and the score can be rebuilt on the next recompute.
+ */
+export async function recomputeEntityScores(entityIds: string[]): Promise<void> {
+  const uniqueIds = [...new Set(entityIds)];
+  if (uniqueIds.length === 0) {
+    return;
+  }
+
+  const active = await getActiveScoringWeights();
+  for (const entityId of uniqueIds) {
+    try {
+      await recomputeEntityScore(entityId, active);
+    } catch (error) {
+      logger.error({ error, entityId }, 'Failed to recompute entity score');
+    }
+  }
+}
+
+/** Assign 1-based ranks by descending score, ties broken by name */
+function rankByScore(
+  rows: Array<{ entityId: string; name: string; score: number }>
+): Map<string, number> {
+  const sorted = [...rows].sort(
+    (a, b) => b.score - a.score || a.name.localeCompare(b.name)
+  );
+  return new Map(sorted.map((row, index) => [row.entityId, index + 1]));
+}
+
+/**
+ * Show how the entity ranking would shift under proposed weights.
+ * Both sides are recomputed from current card data so the diff reflects
+ * the weights alone, not stale stored scores.
+ */
+export async function previewScoringWeights(
+  proposedWeights: ScoringWeights
+): Promise<ScoringWeightsPreview> {
+  const active = await getActiveScoringWeights();
+
+  const rows: Array<{ entityId: string; name: string; current: number; proposed: number }> = [];
+  let cursor: string | undefined;
+  do {
+    const page = await listEntities({ limit: 100, cursor, sort: 'score' });
+    for (const entity of page.items) {
+      const cards = await getCurrentEntityCards(entity.entityId);
+      const current = computeAggregateScore(cards, active.weights, active.version);
+      if (current.totalCards === 0) {
+        continue;
+      }
+      const proposed = computeAggregateScore(cards, proposedWeights);
+      rows.push({
+        entityId: entity.entityId,
+        name: entity.name,
+        current: current.overallScore,
+        proposed: proposed.overallScore,
+      });
+    }
+    cursor = page.cursor;
+  } while (cursor);
+
+  const currentRanks = rankByScore(rows.map((r) => ({ ...r, score: r.current })));
+  const proposedRanks = rankByScore(rows.map((r) => ({ ...r, score: r.proposed })));
+
+  const entities: ScoringRankShift[] = rows
+    .map((row) => {
+      const currentRank = currentRanks.get(row.entityId)!;
+      const proposedRank = proposedRanks.get(row.entityId)!;
+      return {
+        entityId: row.entityId,
+        name: row.name,
+        currentScore: row.current,
+        proposedScore: row.proposed,
+        currentRank,
+        proposedRank,
+        rankChange: currentRank - proposedRank,
+      };
+    })
+    .sort((a, b) => a.proposedRank - b.proposedRank);
+
+  return {
+    activeVersion: active.version,
+    proposedWeights,
+    entities,
+  };
+}
+
+/**
+ * Advance the latest rescore job by one batch of entities.
+ * Progress and the scan cursor are saved after every page, so a job
+ * larger than one invocation resumes where the previous run stopped.
+ * Returns the job as left by this run, or undefined if nothing was pending.
+ */
+export async function runRescoreJob(
+  maxEntities: number = config.scoring.rescoreBatchSize
+): Promise<RescoreJob | undefined> {
+  const job = await getLatestRescoreJob();
+  if (!job || job.status === RescoreJobStatus.COMPLETED) {
+    return undefined;
+  }
+
+  const active = await getActiveScoringWeights();
+  const now = new Date().toISOString();
+  job.status = RescoreJobStatus.RUNNING;
+  job.startedAt = job.startedAt ?? now;
+  job.weightConfigVersion = active.version;
+
+  let processedThisRun = 0;
+  do {
+    const page = await listEntities({
+      limit: Math.min(100, maxEntities - processedThisRun),
+      cursor: job.cursor,
+    });
+
+    for (const entity of page.items) {
+      try {
+        await recomputeEntityScore(entity.entityId, active);
+      } catch (error) {
+        job.errors += 1;
+        logger.error({ error, entityId: entity.entityId, jobId: job.jobId }, 'Rescore failed');
+      }
+    }
+
+    processedThisRun += page.items.length;
+    job.entitiesProcessed += page.items.length;
+    job.cursor = page.cursor;
+    if (!job.cursor) {
+      job.status = RescoreJobStatus.COMPLETED;
+      job.completedAt = new Date().toISOString();
+    }
+    await saveRescoreJob(job);
+  } while (job.cursor && processedThisRun < maxEntities);
+
+  return job;
+}
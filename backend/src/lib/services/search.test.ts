@@ -0,0 +1,267 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Source } from '@ledger/shared';
+import {
+  tokenize,
+  highlightField,
+  syncCardSearch,
+  search,
+  rebuildSearchIndex,
+} from './search.js';
+import * as dynamodb from '../dynamodb.js';
+import * as cards from './cards.js';
+import * as sources from './sources.js';
+import * as entities from './entities.js';
+import { ValidationError } from '../errors.js';
+import { makeCard } from '../../test-utils/fixtures.js';
+
+vi.mock('../dynamodb.js', () => ({
+  getItem: vi.fn(),
+  putItem: vi.fn(),
+  deleteItem: vi.fn(),
+  queryItems: vi.fn(),
+  scanItems: vi.fn(),
+  batchWrite: vi.fn(),
+  encodeCursor: vi.fn((key) => Buffer.from(JSON.stringify(key)).toString('base64url')),
+  decodeCursor: vi.fn((cursor) => JSON.parse(Buffer.from(cursor, 'base64url').toString())),
+}));
+
+vi.mock('./cards.js', () => ({
+  getCard: vi.fn(),
+}));
+
+vi.mock('./sources.js', () => ({
+  getSource: vi.fn(),
+}));
+
+vi.mock('./entities.js', () => ({
+  listEntities: vi.fn(),
+}));
+
+vi.mock('../config.js', () => ({
+  config: {
+    tables: {
+      cards: 'test-cards-table',
+      searchIndex: 'test-search-table',
+    },
+  },
+}));
+
+function posting(type: string, id: string, weight: number, extra: Record<string, unknown> = {}) {
+  return { PK: 'TERM#x', SK: `${type}#${id}`, type, id, title: `${type} ${id}`, weight, ...extra };
+}
+
+function batchRequests(): Array<Record<string, unknown>> {
+  return vi
+    .mocked(dynamodb.batchWrite)
+    .mock.calls.flatMap(([params]) => params.RequestItems!['test-search-table']);
+}
+
+describe('search service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('tokenize', () => {
+    it('lowercases, drops stopwords and folds plurals', () => {
+      expect(tokenize('The EPA fined Acme for Violations of the Clean Air Act')).toEqual([
+        'epa', 'fined', 'acme', 'violation', 'clean', 'air', 'act',
+      ]);
+    });
+
+    it('keeps words ending in "ss" intact', () => {
+      expect(tokenize('Business access')).toEqual(['business', 'access']);
+    });
+  });
+
+  describe('highlightField', () => {
+    it('marks every occurrence of a query term', () => {
+      const highlight = highlightField('claim', 'Wages withheld; wage claims filed', new Set(['wage']));
+
+      expect(highlight).toEqual({
+        field: 'claim',
+        snippet: 'Wages withheld; wage claims filed',
+        ranges: [[0, 5], [16, 20]],
+      });
+    });
+
+    it('trims long text to a snippet around the first hit', () => {
+      const text = `${'x'.repeat(200)} settlement ${'y'.repeat(200)}`;
+      const highlight = highlightField('summary', text, new Set(['settlement']))!;
+
+      expect(highlight.snippet.startsWith('…')).toBe(true);
+      expect(highlight.snippet.endsWith('…')).toBe(true);
+      const [[start, end]] = highlight.ranges;
+      expect(highlight.snippet.slice(start, end)).toBe('settlement');
+    });
+
+    it('returns undefined when nothing matches', () => {
+      expect(highlightField('title', 'Unrelated', new Set(['wage']))).toBeUndefined();
+    });
+  });
+
+  describe('syncCardSearch', () => {
+    it('indexes a published card and its verified sources', async () => {
+      vi.mocked(dynamodb.getItem).mockResolvedValue(null);
+      vi.mocked(sources.getSource).mockImplementation(async (sourceId) => ({
+        sourceId,
+        title: `Source ${sourceId}`,
+        publisher: 'DOL',
+        url: 'https://example.gov',
+        retrievedAt: '2024-02-01T10:00:00Z',
+        verificationStatus: sourceId === 'src-1' ? 'VERIFIED' : 'PENDING',
+      }) as Source);
+
+      await syncCardSearch(makeCard({ tags: ['wage-theft'], sourceRefs: ['src-1', 'src-2'] }));
+
+      expect(batchRequests()).toContainEqual({
+        PutRequest: {
+          Item: expect.objectContaining({
+            PK: 'TERM#wage',
+            SK: 'card#card-1',
+            category: 'labor',
+            date: '2024-01-15',
+            // title (3) + summary (1) + tags (2)
+            weight: 6,
+          }),
+        },
+      });
+      expect(dynamodb.putItem).toHaveBeenCalledWith({
+        TableName: 'test-search-table',
+        Item: expect.objectContaining({ PK: 'DOC#card#card-1', SK: 'META' }),
+      });
+      expect(dynamodb.putItem).toHaveBeenCalledWith({
+        TableName: 'test-search-table',
+        Item: expect.objectContaining({ PK: 'DOC#source#src-1', date: '2024-02-01' }),
+      });
+      expect(dynamodb.putItem).not.toHaveBeenCalledWith(
+        expect.objectContaining({ Item: expect.objectContaining({ PK: 'DOC#source#src-2' }) })
+      );
+    });
+
+    it('deletes postings for terms the card no longer contains', async () => {
+      vi.mocked(dynamodb.getItem).mockResolvedValueOnce({ terms: ['wage', 'obsolete'] });
+
+      await syncCardSearch(makeCard({ sourceRefs: [] }));
+
+      expect(batchRequests()).toContainEqual({
+        DeleteRequest: { Key: { PK: 'TERM#obsolete', SK: 'card#card-1' } },
+      });
+      expect(batchRequests()).not.toContainEqual({
+        DeleteRequest: { Key: { PK: 'TERM#wage', SK: 'card#card-1' } },
+      });
+    });
+
+    it('removes retracted cards from the index', async () => {
+      vi.mocked(dynamodb.getItem).mockResolvedValueOnce({ terms: ['wage'] });
+
+      await syncCardSearch(makeCard({ status: 'RETRACTED' }));
+
+      expect(batchRequests()).toEqual([
+        { DeleteRequest: { Key: { PK: 'TERM#wage', SK: 'card#card-1' } } },
+      ]);
+      expect(dynamodb.deleteItem).toHaveBeenCalledWith({
+        TableName: 'test-search-table',
+        Key: { PK: 'DOC#card#card-1', SK: 'META' },
+      });
+    });
+
+    it('logs rather than throws on write failures', async () => {
+      vi.mocked(dynamodb.getItem).mockRejectedValueOnce(new Error('boom'));
+
+      await expect(syncCardSearch(makeCard({ sourceRefs: [] }))).resolves.toBeUndefined();
+    });
+  });
+
+  describe('search', () => {
+    it('requires every term to match and ranks by summed weight', async () => {
+      vi.mocked(dynamodb.queryItems).mockImplementation(async (params) => {
+        const pk = params.ExpressionAttributeValues![':pk'];
+        return pk === 'TERM#wage'
+          ? { items: [posting('card', 'a', 1), posting('card', 'b', 3), posting('entity', 'c', 3)] }
+          : { items: [posting('card', 'a', 1), posting('card', 'b', 2)] };
+      });
+      vi.mocked(dynamodb.getItem).mockResolvedValue({
+        fields: { title: 'Wage theft settlement' },
+      });
+
+      const result = await search({ q: 'wage theft', limit: 20 });
+
+      expect(result.total).toBe(2);
+      expect(result.items.map((item) => [item.id, item.score])).toEqual([['b', 5], ['a', 2]]);
+      expect(result.items[0].highlights).toEqual([
+        { field: 'title', snippet: 'Wage theft settlement', ranges: [[0, 4], [5, 10]] },
+      ]);
+    });
+
+    it('filters by type, category and date with facets ignoring their own filter', async () => {
+      vi.mocked(dynamodb.queryItems).mockResolvedValueOnce({
+        items: [
+          posting('card', 'a', 1, { category: 'labor', date: '2024-03-01' }),
+          posting('card', 'b', 1, { category: 'fraud', date: '2024-03-02' }),
+          posting('card', 'old', 1, { category: 'labor', date: '2020-01-01' }),
+          posting('source', 's', 1, { date: '2024-04-01' }),
+          posting('entity', 'e', 1),
+        ],
+      });
+      vi.mocked(dynamodb.getItem).mockResolvedValue({ fields: {} });
+
+      const result = await search({
+        q: 'acme',
+        limit: 20,
+        type: 'card',
+        category: 'labor',
+        from: '2024-01-01',
+      });
+
+      expect(result.items.map((item) => item.id)).toEqual(['a']);
+      expect(result.facets).toEqual({
+        type: { card: 1 },
+        category: { labor: 1, fraud: 1 },
+      });
+    });
+
+    it('paginates with an offset cursor', async () => {
+      vi.mocked(dynamodb.queryItems).mockResolvedValue({
+        items: [posting('card', 'a', 3), posting('card', 'b', 2), posting('card', 'c', 1)],
+      });
+      vi.mocked(dynamodb.getItem).mockResolvedValue(null);
+
+      const first = await search({ q: 'acme', limit: 2 });
+      const second = await search({ q: 'acme', limit: 2, cursor: first.cursor });
+
+      expect(first.items.map((item) => item.id)).toEqual(['a', 'b']);
+      expect(first.hasMore).toBe(true);
+      expect(second.items.map((item) => item.id)).toEqual(['c']);
+      expect(second.hasMore).toBe(false);
+    });
+
+    it('rejects queries with no searchable words', async () => {
+      await expect(search({ q: 'the of', limit: 20 })).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('rebuildSearchIndex', () => {
+    it('moves from cards to entities once the card scan is exhausted', async () => {
+      vi.mocked(dynamodb.scanItems).mockResolvedValueOnce({ items: [{ cardId: 'card-1' }] });
+      vi.mocked(cards.getCard).mockResolvedValueOnce(makeCard({ sourceRefs: [] }));
+      vi.mocked(dynamodb.getItem).mockResolvedValue(null);
+
+      const first = await rebuildSearchIndex(undefined);
+      expect(first).toMatchObject({ documentsIndexed: 1, hasMore: true });
+
+      vi.mocked(entities.listEntities).mockResolvedValueOnce({
+        items: [{ entityId: 'e1', name: 'Acme', type: 'CORPORATION', aliases: [], createdAt: '', updatedAt: '' }],
+        hasMore: false,
+      });
+
+      const second = await rebuildSearchIndex(first.cursor);
+
+      expect(entities.listEntities).toHaveBeenCalledWith({ limit: 100, cursor: undefined });
+      expect(dynamodb.putItem).toHaveBeenCalledWith({
+        TableName: 'test-search-table',
+        Item: expect.objectContaining({ PK: 'DOC#entity#e1' }),
+      });
+      expect(second).toEqual({ documentsIndexed: 1, cursor: undefined, hasMore: false });
+    });
+  });
+});
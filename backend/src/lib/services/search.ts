@@ -0,0 +1,496 @@
+import type {
+  EvidenceCard,
+  Entity,
+  Source,
+  SearchResult,
+  SearchResultType,
+  SearchHighlight,
+  SearchFacets,
+  SearchResponse,
+  RebuildSearchIndexResult,
+} from '@ledger/shared';
+import { CardStatus } from '@ledger/shared';
+import { config } from '../config.js';
+import {
+  getItem,
+  putItem,
+  deleteItem,
+  queryItems,
+  scanItems,
+  batchWrite,
+  encodeCursor,
+  decodeCursor,
+} from '../dynamodb.js';
+import { logger } from '../logger.js';
+import { ValidationError } from '../errors.js';
+import { getCard } from './cards.js';
+import { getSource } from './sources.js';
+import { listEntities } from './entities.js';
+import type { SearchQueryInput } from '../validation.js';
+
+const TABLE = config.tables.searchIndex;
+
+// Table layout (inverted index):
+//   PK TERM#{term}, SK {type}#{id}   posting: result summary + term weight
+//   PK DOC#{type}#{id}, SK META      indexed field text and the doc's term list
+
+/** Card statuses that are searchable; retracted and archived cards drop out */
+const INDEXED_STATUSES: ReadonlySet<string> = new Set([
+  CardStatus.PUBLISHED,
+  CardStatus.DISPUTED,
+  CardStatus.CORRECTED,
+]);
+
+// A term found in a higher-weight field ranks the document higher
+const FIELD_WEIGHTS: Record<string, number> = {
+  title: 3,
+  name: 3,
+  aliases: 3,
+  tags: 2,
+  claim: 2,
+  publisher: 2,
+  summary: 1,
+  excerpt: 1,
+};
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is',
+  'it', 'of', 'on', 'or', 'that', 'the', 'to', 'was', 'were', 'with',
+]);
+
+const MAX_QUERY_TERMS = 8;
+// Postings read per query term; very common terms are truncated
+const MAX_POSTINGS_PER_TERM = 1000;
+const SNIPPET_LENGTH = 160;
+const SNIPPET_LEAD = 40;
+const BATCH_WRITE_LIMIT = 25;
+
+const WORD_PATTERN = /[a-z0-9]+/gi;
+
+interface SearchDocument {
+  type: SearchResultType;
+  id: string;
+  title: string;
+  subtitle?: string;
+  category?: string;
+  date?: string;
+  url?: string;
+  fields: Record<string, string>;
+}
+
+type DocumentSummary = Omit<SearchDocument, 'fields'>;
+
+type Posting = DocumentSummary & { weight: number };
+
+/** Fold a lowercased word to its index form (drops a plural "s") */
+function foldTerm(word: string): string {
+  return word.length > 3 && word.endsWith('s') && !word.endsWith('ss')
+    ? word.slice(0, -1)
+    : word;
+}
+
+/**
+ * Split text into index terms.
+ * Lowercased alphanumeric words, minus stopwords and single characters,
+ * with light plural folding so "violations" matches "violation".
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  for (const [word] of text.toLowerCase().matchAll(WORD_PATTERN)) {
+    if (word.length < 2 || STOPWORDS.has(word)) {
+      continue;
+    }
+    terms.push(foldTerm(word));
+  }
+  return terms;
+}
+
+function termWeights(fields: Record<string, string>): Map<string, number> {
+  const weights = new Map<string, number>();
+  for (const [field, text] of Object.entries(fields)) {
+    const fieldWeight = FIELD_WEIGHTS[field] ?? 1;
+    for (const term of new Set(tokenize(text))) {
+      weights.set(term, (weights.get(term) ?? 0) + fieldWeight);
+    }
+  }
+  return weights;
+}
+
+function docKey(type: string, id: string) {
+  return { PK: `DOC#${type}#${id}`, SK: 'META' };
+}
+
+function postingKey(term: string, type: string, id: string) {
+  return { PK: `TERM#${term}`, SK: `${type}#${id}` };
+}
+
+function summarize(doc: SearchDocument): DocumentSummary {
+  return {
+    type: doc.type,
+    id: doc.id,
+    title: doc.title,
+    subtitle: doc.subtitle,
+    category: doc.category,
+    date: doc.date,
+    url: doc.url,
+  };
+}
+
+async function writeInBatches(requests: Array<Record<string, unknown>>): Promise<void> {
+  for (let i = 0; i < requests.length; i += BATCH_WRITE_LIMIT) {
+    await batchWrite({
+      RequestItems: { [TABLE]: requests.slice(i, i + BATCH_WRITE_LIMIT) },
+    });
+  }
+}
+
+/** Write a document's postings, dropping postings for terms it no longer contains */
+async function indexDocument(doc: SearchDocument): Promise<void> {
+  const weights = termWeights(doc.fields);
+  const existing = await getItem<{ terms?: string[] }>({
+    TableName: TABLE,
+    Key: docKey(doc.type, doc.id),
+  });
+
+  const summary = summarize(doc);
+  const stale = (existing?.terms ?? []).filter((term) => !weights.has(term));
+
+  await writeInBatches([
+    ...stale.map((term) => ({
+      DeleteRequest: { Key: postingKey(term, doc.type, doc.id) },
+    })),
+    ...[...weights].map(([term, weight]) => ({
+      PutRequest: { Item: { ...postingKey(term, doc.type, doc.id), ...summary, weight } },
+    })),
+  ]);
+
+  await putItem({
+    TableName: TABLE,
+    Item: {
+      ...docKey(doc.type, doc.id),
+      ...summary,
+      fields: doc.fields,
+      terms: [...weights.keys()],
+      indexedAt: new Date().toISOString(),
+    },
+  });
+}
+
+async function removeDocument(type: SearchResultType, id: string): Promise<void> {
+  const existing = await getItem<{ terms?: string[] }>({
+    TableName: TABLE,
+    Key: docKey(type, id),
+  });
+  if (!existing) {
+    return;
+  }
+
+  await writeInBatches(
+    (existing.terms ?? []).map((term) => ({
+      DeleteRequest: { Key: postingKey(term, type, id) },
+    }))
+  );
+  await deleteItem({ TableName: TABLE, Key: docKey(type, id) });
+}
+
+function cardDocument(card: EvidenceCard): SearchDocument {
+  return {
+    type: 'card',
+    id: card.cardId,
+    title: card.title,
+    subtitle: card.claim,
+    category: card.category,
+    date: card.eventDate,
+    fields: {
+      title: card.title,
+      claim: card.claim,
+      summary: card.summary ?? '',
+      tags: (card.tags ?? []).join(' '),
+    },
+  };
+}
+
+function entityDocument(entity: Entity): SearchDocument {
+  return {
+    type: 'entity',
+    id: entity.entityId,
+    title: entity.name,
+    subtitle: entity.type,
+    fields: {
+      name: entity.name,
+      aliases: (entity.aliases ?? []).join(' '),
+    },
+  };
+}
+
+function sourceDocument(source: Source): SearchDocument {
+  return {
+    type: 'source',
+    id: source.sourceId,
+    title: source.title,
+    subtitle: source.publisher,
+    date: source.retrievedAt.split('T')[0],
+    url: source.url,
+    fields: {
+      title: source.title,
+      publisher: source.publisher,
+      excerpt: source.excerpt ?? '',
+    },
+  };
+}
+
+/**
+ * Bring the search index in line with a card's current state.
+ * Public cards are indexed along with their verified sources (which become
+ * public once cited by a published card); other statuses are removed.
+ * Failures are logged, not thrown: the card write has already committed and
+ * POST /admin/search/rebuild repairs the index.
+ */
+export async function syncCardSearch(card: EvidenceCard): Promise<void> {
+  try {
+    if (!INDEXED_STATUSES.has(card.status)) {
+      await removeDocument('card', card.cardId);
+      return;
+    }
+
+    await indexDocument(cardDocument(card));
+    for (const sourceId of card.sourceRefs) {
+      const source = await getSource(sourceId);
+      if (source.verificationStatus === 'VERIFIED') {
+        await indexDocument(sourceDocument(source));
+      }
+    }
+  } catch (error) {
+    logger.error({ error, cardId: card.cardId }, 'Failed to sync search index');
+  }
+}
+
+/** Index an entity's name and aliases. Failures are logged, not thrown. */
+export async function syncEntitySearch(entity: Entity): Promise<void> {
+  try {
+    await indexDocument(entityDocument(entity));
+  } catch (error) {
+    logger.error({ error, entityId: entity.entityId }, 'Failed to sync search index');
+  }
+}
+
+/** Drop a deleted entity from the index. Failures are logged, not thrown. */
+export async function removeEntitySearch(entityId: string): Promise<void> {
+  try {
+    await removeDocument('entity', entityId);
+  } catch (error) {
+    logger.error({ error, entityId }, 'Failed to sync search index');
+  }
+}
+
+async function getPostings(term: string): Promise<Posting[]> {
+  const postings: Posting[] = [];
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+
+  do {
+    const { items, lastEvaluatedKey } = await queryItems<Posting & { PK: string; SK: string }>({
+      TableName: TABLE,
+      KeyConditionExpression: 'PK = :pk',
+      ExpressionAttributeValues: { ':pk': `TERM#${term}` },
+      ExclusiveStartKey: exclusiveStartKey,
+    });
+    postings.push(...items);
+    exclusiveStartKey = lastEvaluatedKey;
+  } while (exclusiveStartKey && postings.length < MAX_POSTINGS_PER_TERM);
+
+  return postings.slice(0, MAX_POSTINGS_PER_TERM);
+}
+
+/**
+ * Build a highlight for one field: a snippet around the first hit with
+ * the [start, end) range of every query-term occurrence inside it.
+ */
+export function highlightField(
+  field: string,
+  text: string,
+  terms: ReadonlySet<string>
+): SearchHighlight | undefined {
+  const hits: Array<[number, number]> = [];
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    if (terms.has(foldTerm(match[0].toLowerCase()))) {
+      hits.push([match.index!, match.index! + match[0].length]);
+    }
+  }
+  if (hits.length === 0) {
+    return undefined;
+  }
+
+  if (text.length <= SNIPPET_LENGTH) {
+    return { field, snippet: text, ranges: hits };
+  }
+
+  const start = Math.max(0, Math.min(hits[0][0] - SNIPPET_LEAD, text.length - SNIPPET_LENGTH));
+  const end = start + SNIPPET_LENGTH;
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const offset = prefix.length - start;
+
+  return {
+    field,
+    snippet: `${prefix}${text.slice(start, end)}${suffix}`,
+    ranges: hits
+      .filter(([hitStart, hitEnd]) => hitStart >= start && hitEnd <= end)
+      .map(([hitStart, hitEnd]) => [hitStart + offset, hitEnd + offset]),
+  };
+}
+
+function countBy(postings: Posting[], key: 'type' | 'category'): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const posting of postings) {
+    const value = posting[key];
+    if (value) {
+      counts[value] = (counts[value] ?? 0) + 1;
+    }
+  }
+  return counts;
+}
+
+/**
+ * Search cards, entities and sources.
+ * Every query term must match (AND); results are ranked by the summed field
+ * weights of the matched terms. Date filters only keep dated results (cards
+ * and sources). Facet counts ignore their own filter so the UI can show
+ * what switching the filter would return.
+ */
+export async function search(query: SearchQueryInput): Promise<SearchResponse> {
+  const terms = [...new Set(tokenize(query.q))].slice(0, MAX_QUERY_TERMS);
+  if (terms.length === 0) {
+    throw new ValidationError('Search query must contain at least one searchable word');
+  }
+
+  const postingsByTerm = await Promise.all(terms.map(getPostings));
+
+  // Intersect postings across terms, summing weights
+  let matches = new Map<string, Posting>();
+  for (const posting of postingsByTerm[0]) {
+    matches.set(`${posting.type}#${posting.id}`, { ...posting });
+  }
+  for (const postings of postingsByTerm.slice(1)) {
+    const next = new Map<string, Posting>();
+    for (const posting of postings) {
+      const key = `${posting.type}#${posting.id}`;
+      const match = matches.get(key);
+      if (match) {
+        next.set(key, { ...match, weight: match.weight + posting.weight });
+      }
+    }
+    matches = next;
+  }
+
+  const inDateRange = [...matches.values()].filter((posting) => {
+    if (!query.from && !query.to) return true;
+    if (!posting.date) return false;
+    return (!query.from || posting.date >= query.from) && (!query.to || posting.date <= query.to);
+  });
+  const matchesType = (posting: Posting) => !query.type || posting.type === query.type;
+  const matchesCategory = (posting: Posting) =>
+    !query.category || posting.category === query.category;
+
+  const facets: SearchFacets = {
+    type: countBy(inDateRange.filter(matchesCategory), 'type'),
+    category: countBy(inDateRange.filter(matchesType), 'category'),
+  };
+
+  const ranked = inDateRange
+    .filter((posting) => matchesType(posting) && matchesCategory(posting))
+    .sort(
+      (a, b) =>
+        b.weight - a.weight ||
+        (b.date ?? '').localeCompare(a.date ?? '') ||
+        a.title.localeCompare(b.title)
+    );
+
+  const limit = query.limit || 20;
+  const cursorData = query.cursor ? decodeCursor(query.cursor) : undefined;
+  const offset = typeof cursorData?.offset === 'number' ? cursorData.offset : 0;
+  const page = ranked.slice(offset, offset + limit);
+
+  const termSet = new Set(terms);
+  const items: SearchResult[] = await Promise.all(
+    page.map(async (posting) => {
+      const doc = await getItem<{ fields?: Record<string, string> }>({
+        TableName: TABLE,
+        Key: docKey(posting.type, posting.id),
+      });
+      const highlights = Object.entries(doc?.fields ?? {})
+        .map(([field, text]) => highlightField(field, text, termSet))
+        .filter((highlight): highlight is SearchHighlight => !!highlight);
+
+      return {
+        type: posting.type,
+        id: posting.id,
+        title: posting.title,
+        subtitle: posting.subtitle,
+        category: posting.category,
+        date: posting.date,
+        url: posting.url,
+        score: posting.weight,
+        highlights,
+      };
+    })
+  );
+
+  const hasMore = offset + limit < ranked.length;
+  return {
+    query: query.q,
+    total: ranked.length,
+    facets,
+    items,
+    cursor: hasMore ? encodeCursor({ offset: offset + limit }) : undefined,
+    hasMore,
+  };
+}
+
+/**
+ * Re-index one page of documents: published cards (with their sources)
+ * first, then entities. Pass the returned cursor back until hasMore is false.
+ */
+export async function rebuildSearchIndex(
+  cursor: string | undefined,
+  pageSize = 100
+): Promise<RebuildSearchIndexResult> {
+  const state = cursor ? decodeCursor(cursor) : undefined;
+  const phase = state?.phase === 'entities' ? 'entities' : 'cards';
+  const innerCursor = typeof state?.cursor === 'string' ? state.cursor : undefined;
+
+  if (phase === 'cards') {
+    const { items, lastEvaluatedKey } = await scanItems<{ cardId: string }>({
+      TableName: config.tables.cards,
+      FilterExpression: 'SK = :latest',
+      ExpressionAttributeValues: { ':latest': 'LATEST' },
+      ProjectionExpression: 'cardId',
+      Limit: pageSize,
+      ExclusiveStartKey: innerCursor ? decodeCursor(innerCursor) : undefined,
+    });
+
+    for (const { cardId } of items) {
+      await syncCardSearch(await getCard(cardId));
+    }
+
+    return {
+      documentsIndexed: items.length,
+      cursor: encodeCursor(
+        lastEvaluatedKey
+          ? { phase: 'cards', cursor: encodeCursor(lastEvaluatedKey) }
+          : { phase: 'entities' }
+      ),
+      hasMore: true,
+    };
+  }
+
+  const page = await listEntities({ limit: pageSize, cursor: innerCursor });
+  for (const entity of page.items) {
+    await syncEntitySearch(entity);
+  }
+
+  return {
+    documentsIndexed: page.items.length,
+    cursor: page.cursor ? encodeCursor({ phase: 'entities', cursor: page.cursor }) : undefined,
+    hasMore: !!page.cursor,
+  };
+}
@@ -0,0 +1,308 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createHash } from 'crypto';
+import type { EvidenceCard, IntakeItem, IntakeRails, Source } from '@ledger/shared';
+import { acknowledgeSourceAlert, checkSource, watchPromotedSources } from './source-watch.js';
+import * as dynamodb from '../dynamodb.js';
+import * as s3 from '../s3.js';
+import * as intake from './intake.js';
+import * as sources from './sources.js';
+import * as cards from './cards.js';
+import { politeFetch } from './host-politeness.js';
+import { logAuditEvent } from './audit.js';
+import { ConflictError, NotFoundError } from '../errors.js';
+
+vi.mock('../dynamodb.js', () => ({
+  getItem: vi.fn(),
+  putItem: vi.fn(() => Promise.resolve()),
+  queryItems: vi.fn(() => Promise.resolve({ items: [] })),
+  encodeCursor: vi.fn(),
+  decodeCursor: vi.fn(),
+  isConditionalCheckFailed: vi.fn(() => false),
+  stripKeys: vi.fn((item) => {
+    const rest = { ...item };
+    delete rest.PK;
+    delete rest.SK;
+    delete rest.GSI1PK;
+    delete rest.GSI1SK;
+    return rest;
+  }),
+}));
+
+vi.mock('../s3.js', () => ({
+  getObjectStream: vi.fn(),
+  putObject: vi.fn(() => Promise.resolve()),
+}));
+
+vi.mock('./host-politeness.js', () => ({
+  politeFetch: vi.fn(),
+}));
+
+vi.mock('./extraction.js', () => ({
+  extractTextFromHtml: vi.fn((html: string) => html.replace(/<\/?p[^>]*>/g, '\n').replace(/<[^>]*>/g, '')),
+}));
+
+vi.mock('./intake.js', () => ({
+  getRailsWithEnvOverrides: vi.fn((rails) => rails),
+  listIntakeByStatus: vi.fn(),
+}));
+
+vi.mock('./intake-feeds.js', () => ({
+  getIntakeRails: vi.fn(() => Promise.resolve({ maxHtmlSnapshotBytes: 1024, maxPdfBytes: 4096 })),
+}));
+
+vi.mock('./sources.js', () => ({
+  getSource: vi.fn(),
+  captureSourceVersion: vi.fn(() => Promise.resolve()),
+  markSourceChecked: vi.fn(() => Promise.resolve()),
+}));
+
+vi.mock('./cards.js', () => ({
+  getCard: vi.fn(),
+}));
+
+vi.mock('./audit.js', () => ({
+  logAuditEvent: vi.fn(() => Promise.resolve()),
+}));
+
+vi.mock('../config.js', () => ({
+  config: {
+    tables: { sources: 'test-sources-table' },
+    buckets: { sources: 'test-sources-bucket' },
+    sourceWatch: { windowDays: 30, maxSourcesPerRun: 100, captureSnapshots: false },
+  },
+}));
+
+const rails = { maxHtmlSnapshotBytes: 1024, maxPdfBytes: 4096 } as IntakeRails;
+
+const original = '<html><body><p>Acme to pay $5 million</p><p>Filed in Delaware</p></body></html>';
+const amended = '<html><body><p>Acme to pay $7.5 million</p><p>Filed in Delaware</p></body></html>';
+
+function sha256(body: string): string {
+  return createHash('sha256').update(body).digest('hex');
+}
+
+const source = {
+  sourceId: 'src-1',
+  url: 'https://www.ftc.gov/news/acme',
+  sha256: sha256(original),
+  s3Key: 'sources/src-1/original.html',
+  mimeType: 'text/html',
+} as Source;
+
+function response(body: string, contentType = 'text/html; charset=utf-8'): Response {
+  return new Response(body, { status: 200, headers: { 'Content-Type': contentType } });
+}
+
+function stored(body: string): ReadableStream {
+  return new Response(body).body!;
+}
+
+describe('source watch', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(sources.getSource).mockResolvedValue(source);
+    vi.mocked(s3.getObjectStream).mockResolvedValue(stored(original));
+  });
+
+  describe('checkSource', () => {
+    it('only records the check when the page is byte-identical', async () => {
+      vi.mocked(politeFetch).mockResolvedValueOnce(response(original));
+
+      expect(await checkSource('src-1', ['card-1'], rails)).toBeUndefined();
+      expect(sources.markSourceChecked).toHaveBeenCalledWith('src-1', expect.any(String));
+      expect(s3.getObjectStream).not.toHaveBeenCalled();
+      expect(dynamodb.putItem).not.toHaveBeenCalled();
+    });
+
+    it('ignores markup changes that leave the text alone', async () => {
+      vi.mocked(politeFetch).mockResolvedValueOnce(response(original.replace('<body>', '<body class="v2">')));
+
+      expect(await checkSource('src-1', ['card-1'], rails)).toBeUndefined();
+      expect(s3.putObject).not.toHaveBeenCalled();
+      expect(dynamodb.putItem).not.toHaveBeenCalled();
+    });
+
+    it('stores the new page and raises an alert with the diff', async () => {
+      vi.mocked(politeFetch).mockResolvedValueOnce(response(amended));
+
+      const alert = await checkSource('src-1', ['card-1'], rails);
+
+      const s3Key = `sources/src-1/${sha256(amended)}.html`;
+      expect(s3.putObject).toHaveBeenCalledWith('test-sources-bucket', s3Key, expect.any(Buffer), 'text/html');
+      expect(alert).toMatchObject({
+        sourceId: 'src-1',
+        status: 'OPEN',
+        previousSha256: source.sha256,
+        previousS3Key: source.s3Key,
+        currentSha256: sha256(amended),
+        currentS3Key: s3Key,
+        cardIds: ['card-1'],
+        diff: [
+          { change: 'removed', text: 'Acme to pay $5 million' },
+          { change: 'added', text: 'Acme to pay $7.5 million' },
+          { change: 'context', text: 'Filed in Delaware' },
+        ],
+      });
+      expect(vi.mocked(dynamodb.putItem).mock.calls[0][0].Item).toMatchObject({
+        PK: 'SOURCE#src-1',
+        SK: `CHANGE#${alert!.alertId}`,
+        GSI1PK: 'SOURCE_ALERT#OPEN',
+      });
+      expect(sources.captureSourceVersion).not.toHaveBeenCalled();
+      expect(logAuditEvent).not.toHaveBeenCalled();
+    });
+
+    it('compares against the content the last alert found', async () => {
+      vi.mocked(dynamodb.queryItems).mockResolvedValueOnce({
+        items: [
+          {
+            PK: 'SOURCE#src-1',
+            SK: 'CHANGE#alert-1',
+            alertId: 'alert-1',
+            currentSha256: sha256(amended),
+            currentS3Key: 'sources/src-1/amended.html',
+            mimeType: 'text/html',
+          },
+        ],
+      });
+      vi.mocked(politeFetch).mockResolvedValueOnce(response(amended));
+
+      expect(await checkSource('src-1', ['card-1'], rails)).toBeUndefined();
+      expect(dynamodb.putItem).not.toHaveBeenCalled();
+    });
+
+    it('captures a new snapshot version when enabled', async () => {
+      vi.mocked(politeFetch).mockResolvedValueOnce(response(amended));
+
+      const alert = await checkSource('src-1', ['card-1'], rails, true);
+
+      expect(alert?.capturedSnapshot).toBe(true);
+      expect(sources.captureSourceVersion).toHaveBeenCalledWith(
+        'src-1',
+        expect.objectContaining({ sha256: sha256(amended), mimeType: 'text/html' }),
+        'source-watcher'
+      );
+      expect(logAuditEvent).toHaveBeenCalledWith(
+        'SOURCE_RECAPTURED',
+        'source',
+        'src-1',
+        'source-watcher',
+        expect.objectContaining({ metadata: { alertId: alert!.alertId, automated: true } })
+      );
+    });
+
+    it('refuses to compare a page with an uploaded PDF', async () => {
+      vi.mocked(sources.getSource).mockResolvedValueOnce({ ...source, mimeType: 'application/pdf' });
+      vi.mocked(politeFetch).mockResolvedValueOnce(response(amended));
+
+      await expect(checkSource('src-1', ['card-1'], rails)).rejects.toThrow('stored content is application/pdf');
+      expect(dynamodb.putItem).not.toHaveBeenCalled();
+    });
+
+    it('skips sources that were never captured', async () => {
+      vi.mocked(sources.getSource).mockResolvedValueOnce({ ...source, sha256: undefined });
+
+      expect(await checkSource('src-1', ['card-1'], rails)).toBeUndefined();
+      expect(politeFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('acknowledgeSourceAlert', () => {
+    it('rejects an alert that is already acknowledged', async () => {
+      vi.mocked(dynamodb.getItem).mockResolvedValueOnce({
+        PK: 'SOURCE#src-1',
+        SK: 'CHANGE#alert-1',
+        alertId: 'alert-1',
+        sourceId: 'src-1',
+        status: 'ACKNOWLEDGED',
+      });
+
+      await expect(acknowledgeSourceAlert('src-1', 'alert-1', 'user-1')).rejects.toThrow(ConflictError);
+      expect(dynamodb.putItem).not.toHaveBeenCalled();
+    });
+
+    it('moves the alert out of the open index', async () => {
+      vi.mocked(dynamodb.getItem).mockResolvedValueOnce({
+        PK: 'SOURCE#src-1',
+        SK: 'CHANGE#alert-1',
+        alertId: 'alert-1',
+        sourceId: 'src-1',
+        status: 'OPEN',
+        detectedAt: '2024-03-10T05:00:00.000Z',
+      });
+
+      const alert = await acknowledgeSourceAlert('src-1', 'alert-1', 'user-1', 'Amount updated on card');
+
+      expect(alert).toMatchObject({ status: 'ACKNOWLEDGED', acknowledgedBy: 'user-1', note: 'Amount updated on card' });
+      expect(vi.mocked(dynamodb.putItem).mock.calls[0][0]).toMatchObject({
+        Item: { GSI1PK: 'SOURCE_ALERT#ACKNOWLEDGED', GSI1SK: '2024-03-10T05:00:00.000Z#alert-1' },
+        ConditionExpression: '#status = :open',
+      });
+    });
+  });
+
+  describe('watchPromotedSources', () => {
+    it('checks every source on the promoted cards and counts failures', async () => {
+      const promoted = (intakeId: string, reviewedAt: string, sourceId: string, cardId: string) =>
+        ({ intakeId, status: 'PROMOTED', reviewedAt, promotedSourceId: sourceId, promotedCardId: cardId }) as IntakeItem;
+      vi.mocked(intake.listIntakeByStatus).mockResolvedValueOnce({
+        items: [
+          promoted('intake-1', '2024-03-20T10:00:00.000Z', 'src-1', 'card-1'),
+          promoted('intake-2', '2024-03-19T10:00:00.000Z', 'src-2', 'card-2'),
+          // Cluster member promoted onto the same card
+          promoted('intake-4', '2024-03-19T10:00:00.000Z', 'src-4', 'card-2'),
+          promoted('intake-3', '2024-01-01T10:00:00.000Z', 'src-3', 'card-3'),
+        ],
+        lastEvaluatedKey: { PK: 'next' },
+      });
+      vi.mocked(cards.getCard).mockImplementation((cardId) =>
+        cardId === 'card-1'
+          ? Promise.reject(new NotFoundError('Card', cardId))
+          : Promise.resolve({ cardId, sourceRefs: ['src-2', 'src-4', 'src-pdf'] } as EvidenceCard)
+      );
+      vi.mocked(sources.getSource).mockImplementation((sourceId) => Promise.resolve({ ...source, sourceId }));
+      vi.mocked(politeFetch)
+        .mockResolvedValueOnce(response(original))
+        .mockResolvedValueOnce(new Response('gone', { status: 404, statusText: 'Not Found' }))
+        .mockImplementation(() => Promise.resolve(response(original)));
+
+      const summary = await watchPromotedSources(Date.parse('2024-03-21T05:00:00Z'));
+
+      expect(summary).toEqual({ checked: 3, changed: 0, failed: 1 });
+      expect(intake.listIntakeByStatus).toHaveBeenCalledTimes(1);
+      expect(cards.getCard).toHaveBeenCalledTimes(2);
+      expect(vi.mocked(sources.getSource).mock.calls.map(([sourceId]) => sourceId)).toEqual([
+        'src-1',
+        'src-2',
+        'src-4',
+        'src-pdf',
+      ]);
+    });
+
+    it('keeps watching other cards when one card cannot be read', async () => {
+      const promoted = (intakeId: string, sourceId: string, cardId: string) =>
+        ({
+          intakeId,
+          status: 'PROMOTED',
+          reviewedAt: '2024-03-20T10:00:00.000Z',
+          promotedSourceId: sourceId,
+          promotedCardId: cardId,
+        }) as IntakeItem;
+      vi.mocked(intake.listIntakeByStatus).mockResolvedValueOnce({
+        items: [promoted('intake-1', 'src-1', 'card-1'), promoted('intake-2', 'src-2', 'card-2')],
+      });
+      vi.mocked(cards.getCard).mockImplementation((cardId) =>
+        cardId === 'card-1'
+          ? Promise.reject(new Error('User is not authorized to perform: dynamodb:GetItem'))
+          : Promise.resolve({ cardId, sourceRefs: ['src-2'] } as EvidenceCard)
+      );
+      vi.mocked(sources.getSource).mockImplementation((sourceId) => Promise.resolve({ ...source, sourceId }));
+      vi.mocked(politeFetch).mockImplementation(() => Promise.resolve(response(original)));
+
+      const summary = await watchPromotedSources(Date.parse('2024-03-21T05:00:00Z'));
+
+      expect(summary).toEqual({ checked: 1, changed: 0, failed: 1 });
+      expect(vi.mocked(sources.getSource).mock.calls.map(([sourceId]) => sourceId)).toEqual(['src-2']);
+    });
+  });
+});
@@ -0,0 +1,376 @@
+import { createHash } from 'crypto';
+import { ulid } from 'ulid';
+import type { IntakeItem, IntakeRails, PaginatedResponse, SourceChangeAlert, SourceDiffLine } from '@ledger/shared';
+import { config } from '../config.js';
+import {
+  getItem,
+  putItem,
+  queryItems,
+  stripKeys,
+  encodeCursor,
+  decodeCursor,
+  isConditionalCheckFailed,
+} from '../dynamodb.js';
+import { ConflictError, NotFoundError } from '../errors.js';
+import { logger } from '../logger.js';
+import { getObjectStream, putObject } from '../s3.js';
+import { diffLines, splitLines, summarizeDiff } from '../text-diff.js';
+import type { SourceAlertQueryInput } from '../validation.js';
+import { logAuditEvent } from './audit.js';
+import { getCard } from './cards.js';
+import { extractTextFromHtml } from './extraction.js';
+import { politeFetch } from './host-politeness.js';
+import { getRailsWithEnvOverrides, listIntakeByStatus } from './intake.js';
+import { getIntakeRails } from './intake-feeds.js';
+import { readBodyWithin } from './intake-snapshots.js';
+import { captureSourceVersion, getSource, markSourceChecked } from './sources.js';
+
+// Agencies revise press releases after the fact (amended amounts, added
+// defendants) without changing the URL or date intake dedupes on. The
+// watcher fetches the sources of recently promoted items again and raises
+// an alert on the source when the page no longer says what it did.
+
+const TABLE = config.tables.sources;
+const BUCKET = config.buckets.sources;
+const WATCHER_USER_ID = 'source-watcher';
+
+// Table layout (alongside the SOURCE#{sourceId} / META records):
+//   PK SOURCE#{sourceId}   SK CHANGE#{alertId}     change alert, oldest first
+//     GSI1 SOURCE_ALERT#{status} / {detectedAt}#{alertId}   alerts by status
+
+const FETCH_TIMEOUT_MS = 30_000;
+
+// Changed lines (with context) kept on an alert
+const MAX_DIFF_LINES = 200;
+
+const HTML_TYPES = ['text/html', 'application/xhtml+xml'];
+const PDF_TYPE = 'application/pdf';
+
+type AlertItem = SourceChangeAlert & { PK: string; SK: string; GSI1PK: string; GSI1SK: string };
+
+export interface SourceWatchSummary {
+  checked: number;
+  changed: number;
+  failed: number;
+}
+
+function toItem(alert: SourceChangeAlert): AlertItem {
+  return {
+    PK: `SOURCE#${alert.sourceId}`,
+    SK: `CHANGE#${alert.alertId}`,
+    GSI1PK: `SOURCE_ALERT#${alert.status}`,
+    GSI1SK: `${alert.detectedAt}#${alert.alertId}`,
+    ...alert,
+  };
+}
+
+export async function getSourceAlert(sourceId: string, alertId: string): Promise<SourceChangeAlert> {
+  const item = await getItem<AlertItem>({
+    TableName: TABLE,
+    Key: { PK: `SOURCE#${sourceId}`, SK: `CHANGE#${alertId}` },
+  });
+
+  if (!item) {
+    throw new NotFoundError('Source alert', alertId);
+  }
+
+  return stripKeys(item);
+}
+
+/** Alerts with a status, newest first */
+export async function listSourceAlerts(query: SourceAlertQueryInput): Promise<PaginatedResponse<SourceChangeAlert>> {
+  const { items, lastEvaluatedKey } = await queryItems<AlertItem>({
+    TableName: TABLE,
+    IndexName: 'GSI1',
+    KeyConditionExpression: 'GSI1PK = :pk',
+    ExpressionAttributeValues: {
+      ':pk': `SOURCE_ALERT#${query.status}`,
+    },
+    ScanIndexForward: false,
+    Limit: query.limit,
+    ExclusiveStartKey: query.cursor ? decodeCursor(query.cursor) : undefined,
+  });
+
+  return {
+    items: items.map(stripKeys),
+    cursor: lastEvaluatedKey ? encodeCursor(lastEvaluatedKey) : undefined,
+    hasMore: !!lastEvaluatedKey,
+  };
+}
+
+async function listAlertsForSource(sourceId: string, limit?: number): Promise<SourceChangeAlert[]> {
+  const { items } = await queryItems<AlertItem>({
+    TableName: TABLE,
+    KeyConditionExpression: 'PK = :pk AND begins_with(SK, :prefix)',
+    ExpressionAttributeValues: {
+      ':pk': `SOURCE#${sourceId}`,
+      ':prefix': 'CHANGE#',
+    },
+    ScanIndexForward: false,
+    Limit: limit,
+  });
+  return items.map(stripKeys);
+}
+
+/** Alerts on every source a card cites, newest first */
+export async function listCardSourceAlerts(cardId: string): Promise<SourceChangeAlert[]> {
+  const card = await getCard(cardId);
+  const alerts = await Promise.all(card.sourceRefs.map((sourceId) => listAlertsForSource(sourceId)));
+  return alerts.flat().sort((a, b) => b.detectedAt.localeCompare(a.detectedAt));
+}
+
+export async function acknowledgeSourceAlert(
+  sourceId: string,
+  alertId: string,
+  userId: string,
+  note?: string
+): Promise<SourceChangeAlert> {
+  const existing = await getSourceAlert(sourceId, alertId);
+  if (existing.status !== 'OPEN') {
+    throw new ConflictError('Source alert has already been acknowledged');
+  }
+
+  const updated: SourceChangeAlert = {
+    ...existing,
+    status: 'ACKNOWLEDGED',
+    acknowledgedAt: new Date().toISOString(),
+    acknowledgedBy: userId,
+    note,
+  };
+
+  try {
+    await putItem({
+      TableName: TABLE,
+      Item: toItem(updated),
+      ConditionExpression: '#status = :open',
+      ExpressionAttributeNames: { '#status': 'status' },
+      ExpressionAttributeValues: { ':open': 'OPEN' },
+    });
+  } catch (error) {
+    if (isConditionalCheckFailed(error)) {
+      throw new ConflictError('Source alert was acknowledged by someone else');
+    }
+    throw error;
+  }
+
+  return updated;
+}
+
+async function readStoredObject(key: string): Promise<Buffer> {
+  const stream = await getObjectStream(BUCKET, key);
+  if (!stream) {
+    throw new Error(`Stored content ${key} is missing`);
+  }
+  return Buffer.from(await new Response(stream).arrayBuffer());
+}
+
+function pageLines(body: Buffer): string[] {
+  return splitLines(extractTextFromHtml(body.toString('utf8')));
+}
+
+/**
+ * Fetch a source's URL and compare it with the content last seen there: the
+ * signed snapshot, or what the previous alert found. HTML pages only count as
+ * changed when their text does, so markup and tracking tokens don't raise
+ * alerts. Returns the alert raised, if any.
+ */
+export async function checkSource(
+  sourceId: string,
+  cardIds: string[],
+  rails: IntakeRails,
+  captureSnapshots = config.sourceWatch.captureSnapshots
+): Promise<SourceChangeAlert | undefined> {
+  const source = await getSource(sourceId);
+  if (!source.sha256 || !source.s3Key || !source.mimeType) {
+    // Nothing was ever captured to compare against
+    return undefined;
+  }
+
+  const [previousAlert] = await listAlertsForSource(sourceId, 1);
+  const baseline = previousAlert
+    ? { sha256: previousAlert.currentSha256, s3Key: previousAlert.currentS3Key, mimeType: previousAlert.mimeType }
+    : { sha256: source.sha256, s3Key: source.s3Key, mimeType: source.mimeType };
+
+  const response = await politeFetch(source.url, {
+    limits: rails,
+    timeoutMs: FETCH_TIMEOUT_MS,
+    accept: 'text/html,application/xhtml+xml,application/pdf;q=0.9',
+  });
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  const mimeType = (response.headers.get('content-type') || 'text/html').split(';')[0].trim().toLowerCase();
+  if (mimeType !== PDF_TYPE && !HTML_TYPES.includes(mimeType)) {
+    await response.body?.cancel();
+    throw new Error(`Unsupported content type ${mimeType}`);
+  }
+  // An uploaded document cited by its landing page can't be compared with it
+  if ((mimeType === PDF_TYPE) !== (baseline.mimeType === PDF_TYPE)) {
+    await response.body?.cancel();
+    throw new Error(`URL serves ${mimeType} but the stored content is ${baseline.mimeType}`);
+  }
+
+  const body = await readBodyWithin(response, mimeType === PDF_TYPE ? rails.maxPdfBytes : rails.maxHtmlSnapshotBytes);
+  const sha256 = createHash('sha256').update(body).digest('hex');
+  const checkedAt = new Date().toISOString();
+
+  if (sha256 === baseline.sha256) {
+    await markSourceChecked(sourceId, checkedAt);
+    return undefined;
+  }
+
+  // PDFs are compared by hash alone
+  let diff: SourceDiffLine[] = [];
+  let diffTruncated = false;
+  if (HTML_TYPES.includes(mimeType) && HTML_TYPES.includes(baseline.mimeType)) {
+    const before = pageLines(await readStoredObject(baseline.s3Key));
+    const summary = summarizeDiff(diffLines(before, pageLines(body)), MAX_DIFF_LINES);
+    if (summary.lines.length === 0) {
+      await markSourceChecked(sourceId, checkedAt);
+      return undefined;
+    }
+    diff = summary.lines;
+    diffTruncated = summary.truncated;
+  }
+
+  const s3Key = `sources/${sourceId}/${sha256}.${mimeType === PDF_TYPE ? 'pdf' : 'html'}`;
+  await putObject(BUCKET, s3Key, body, mimeType);
+
+  if (captureSnapshots) {
+    await captureSourceVersion(
+      sourceId,
+      { s3Key, sha256, byteLength: body.length, mimeType, retrievedAt: checkedAt },
+      WATCHER_USER_ID
+    );
+  }
+
+  const alert: SourceChangeAlert = {
+    alertId: ulid(),
+    sourceId,
+    url: source.url,
+    status: 'OPEN',
+    detectedAt: checkedAt,
+    previousSha256: baseline.sha256,
+    previousS3Key: baseline.s3Key,
+    currentSha256: sha256,
+    currentS3Key: s3Key,
+    mimeType,
+    diff,
+    ...(diffTruncated && { diffTruncated }),
+    cardIds,
+    ...(captureSnapshots && { capturedSnapshot: true }),
+  };
+  await putItem({ TableName: TABLE, Item: toItem(alert) });
+  await markSourceChecked(sourceId, checkedAt);
+
+  if (captureSnapshots) {
+    await logAuditEvent('SOURCE_RECAPTURED', 'source', sourceId, WATCHER_USER_ID, {
+      diff: { sha256: { from: baseline.sha256, to: sha256 } },
+      metadata: { alertId: alert.alertId, automated: true },
+    });
+  }
+
+  return alert;
+}
+
+// Every source the card cites, not just the one made from the promoted
+// item: cluster members' pages and linked PDFs change too
+async function cardSourceIds(item: IntakeItem): Promise<string[]> {
+  const sourceIds = item.promotedSourceId ? [item.promotedSourceId] : [];
+  if (item.promotedCardId) {
+    try {
+      sourceIds.push(...(await getCard(item.promotedCardId)).sourceRefs);
+    } catch (error) {
+      if (!(error instanceof NotFoundError)) {
+        throw error;
+      }
+    }
+  }
+  return [...new Set(sourceIds)];
+}
+
+/**
+ * Check the sources on cards promoted from intake in the last
+ * `config.sourceWatch.windowDays`, newest promotions first. Reply
+ * attachments aren't card sources and are never snapshotted, so they aren't
+ * watched.
+ */
+export async function watchPromotedSources(now = Date.now()): Promise<SourceWatchSummary> {
+  const since = new Date(now - config.sourceWatch.windowDays * 24 * 60 * 60 * 1000).toISOString();
+  const rails = getRailsWithEnvOverrides(await getIntakeRails());
+
+  // Source -> promoted cards citing it
+  const targets = new Map<string, string[]>();
+  const summary: SourceWatchSummary = { checked: 0, changed: 0, failed: 0 };
+  // Cluster members share their card, which only needs reading once
+  const seenCards = new Set<string>();
+  let cursor: Record<string, unknown> | undefined;
+  let reachedWindowStart = false;
+  do {
+    const page = await listIntakeByStatus('PROMOTED', 50, cursor);
+    for (const item of page.items) {
+      if (item.reviewedAt && item.reviewedAt < since) {
+        reachedWindowStart = true;
+        break;
+      }
+      if (targets.size >= config.sourceWatch.maxSourcesPerRun) {
+        break;
+      }
+      if (item.promotedCardId) {
+        if (seenCards.has(item.promotedCardId)) {
+          continue;
+        }
+        seenCards.add(item.promotedCardId);
+      }
+      // A card that can't be read is counted as a failure rather than
+      // ending the run for every other card
+      let sourceIds: string[];
+      try {
+        sourceIds = await cardSourceIds(item);
+      } catch (error) {
+        summary.failed++;
+        logger.warn(
+          {
+            intakeId: item.intakeId,
+            cardId: item.promotedCardId,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          },
+          'Failed to read promoted card sources'
+        );
+        continue;
+      }
+      for (const sourceId of sourceIds) {
+        if (!targets.has(sourceId) && targets.size >= config.sourceWatch.maxSourcesPerRun) {
+          break;
+        }
+        const cardIds = targets.get(sourceId) ?? [];
+        if (item.promotedCardId && !cardIds.includes(item.promotedCardId)) {
+          cardIds.push(item.promotedCardId);
+        }
+        targets.set(sourceId, cardIds);
+      }
+    }
+    cursor = page.lastEvaluatedKey;
+  } while (cursor && !reachedWindowStart && targets.size < config.sourceWatch.maxSourcesPerRun);
+
+  for (const [sourceId, cardIds] of targets) {
+    try {
+      const alert = await checkSource(sourceId, cardIds, rails);
+      summary.checked++;
+      if (alert) {
+        summary.changed++;
+        logger.info({ sourceId, alertId: alert.alertId, cardIds }, 'Source content changed');
+      }
+    } catch (error) {
+      summary.failed++;
+      logger.warn(
+        { sourceId, error: error instanceof Error ? error.message : 'Unknown error' },
+        'Failed to check source'
+      );
+    }
+  }
+
+  return summary;
+}
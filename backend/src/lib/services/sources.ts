@@ -1,15 +1,18 @@
 import { ulid } from 'ulid';
 import { createHash } from 'crypto';
 import type {
+  IntakeSnapshot,
   Source,
+  SourceSnapshotVersion,
   VerificationManifest,
   UploadUrlResponse,
   DownloadUrlResponse,
   SourceVerificationResponse,
+  VerificationPublicKeyResponse,
   VerificationStatus,
 } from '@ledger/shared';
 import { config } from '../config.js';
-import { getItem, putItem, stripKeys } from '../dynamodb.js';
+import { getItem, putItem, updateItem, deleteItem, stripKeys } from '../dynamodb.js';
 import {
   getPresignedUploadUrl,
   getPresignedDownloadUrl,
@@ -19,7 +22,8 @@ import {
   copyObject,
   deleteObject,
 } from '../s3.js';
-import { signData } from '../kms.js';
+import { signData, getPublicKey } from '../kms.js';
+import { publicKeyDerToPem, MANIFEST_SIGNING_ALGORITHM } from '../verification.js';
 import {
   NotFoundError,
   FileTooLargeError,
@@ -27,17 +31,25 @@ import {
   SourceNotPublicError,
 } from '../errors.js';
 import { isSourceReferencedByPublishedCard } from './cards.js';
+import { politeFetch } from './host-politeness.js';
+import { getIntakeRails } from './intake-feeds.js';
 import type { CreateSourceInput, UpdateSourceInput } from '../validation.js';
 
 const TABLE = config.tables.sources;
 const BUCKET = config.buckets.sources;
 
+// Promotion captures run inside a 30s API request. A slow or throttled host
+// fails the capture rather than the request: promotion skips the step and
+// the source is left for verifying by hand.
+const CAPTURE_TIMEOUT_MS = 10_000;
+const CAPTURE_MAX_WAIT_MS = 5_000;
+
 export async function createSource(
   input: CreateSourceInput,
-  userId: string
+  userId: string,
+  sourceId: string = ulid()
 ): Promise<Source> {
   const now = new Date().toISOString();
-  const sourceId = ulid();
 
   const source: Source = {
     sourceId,
@@ -67,6 +79,30 @@ export async function createSource(
   return source;
 }
 
+/**
+ * Remove a source no card cites yet, along with any captured snapshot and
+ * manifest. Used to roll back a failed intake promotion.
+ */
+export async function deleteSource(sourceId: string): Promise<void> {
+  const item = await getItem<Source & { PK: string; SK: string }>({
+    TableName: TABLE,
+    Key: { PK: `SOURCE#${sourceId}`, SK: 'META' },
+  });
+  if (!item) {
+    return;
+  }
+
+  for (const key of [item.s3Key, item.verificationManifestS3Key]) {
+    if (key) {
+      await deleteObject(BUCKET, key);
+    }
+  }
+  await deleteItem({
+    TableName: TABLE,
+    Key: { PK: `SOURCE#${sourceId}`, SK: 'META' },
+  });
+}
+
 /**
  * Auto-verify a source from a trusted government feed
  * This is used by the editor for sources from official government RSS feeds
@@ -300,9 +336,14 @@ export async function finalizeSource(
   const manifestS3Key = `sources/${sourceId}/manifests/${sha256}.json`;
   await putObject(BUCKET, manifestS3Key, manifestJson, 'application/json');
 
+  const previous = currentSnapshot(source);
+  const previousSnapshots =
+    previous && previous.sha256 !== sha256 ? [...(source.previousSnapshots ?? []), previous] : source.previousSnapshots;
+
   // Update source with verification info
   const updated: Source = {
     ...source,
+    previousSnapshots,
     sha256,
     byteLength: metadata.contentLength,
     mimeType: metadata.contentType,
@@ -391,6 +432,22 @@ export async function getSourceVerification(
   };
 }
 
+// The signing key only changes on deploy, so one lookup per container is enough
+let cachedPublicKey: VerificationPublicKeyResponse | undefined;
+
+export async function getVerificationPublicKey(): Promise<VerificationPublicKeyResponse> {
+  if (!cachedPublicKey) {
+    const { publicKey, keyId } = await getPublicKey();
+    cachedPublicKey = {
+      keyId,
+      algorithm: MANIFEST_SIGNING_ALGORITHM,
+      publicKey,
+      publicKeyPem: publicKeyDerToPem(Buffer.from(publicKey, 'base64')),
+    };
+  }
+  return cachedPublicKey;
+}
+
 function getExtensionForMimeType(mimeType: string): string {
   const map: Record<string, string> = {
     'application/pdf': 'pdf',
@@ -403,9 +460,95 @@ function getExtensionForMimeType(mimeType: string): string {
   return map[mimeType] || 'bin';
 }
 
+// The snapshot a source is verified against now, if it has one
+function currentSnapshot(source: Source): SourceSnapshotVersion | undefined {
+  if (!source.sha256 || !source.s3Key || !source.byteLength || !source.mimeType) {
+    return undefined;
+  }
+  return {
+    sha256: source.sha256,
+    byteLength: source.byteLength,
+    mimeType: source.mimeType,
+    s3Key: source.s3Key,
+    retrievedAt: source.retrievedAt,
+    verifiedAt: source.verifiedAt,
+    verificationManifestS3Key: source.verificationManifestS3Key,
+    verificationSignature: source.verificationSignature,
+    verificationKeyId: source.verificationKeyId,
+  };
+}
+
+/**
+ * Sign a manifest for a stored snapshot and mark the source verified
+ * against it. A different snapshot it replaces is kept in previousSnapshots.
+ */
+async function recordSnapshot(
+  source: Source,
+  stored: { s3Key: string; sha256: string; byteLength: number; mimeType: string; retrievedAt: string },
+  userId: string
+): Promise<Source> {
+  const { sourceId } = source;
+  const { s3Key, sha256, byteLength, mimeType, retrievedAt } = stored;
+  const now = new Date().toISOString();
+
+  // Create verification manifest
+  const manifest: VerificationManifest = {
+    sourceId,
+    s3Key,
+    sha256,
+    byteLength,
+    mimeType,
+    retrievedAt,
+    publisher: source.publisher,
+    url: source.url,
+    verifiedAt: now,
+    verificationAlgorithm: 'RSASSA_PSS_SHA_256',
+    verificationKeyId: config.kms.signingKeyId,
+  };
+
+  // Sign the manifest
+  const manifestJson = JSON.stringify(manifest);
+  const { signature, keyId, algorithm } = await signData(
+    Buffer.from(manifestJson)
+  );
+
+  // Store manifest in S3
+  const manifestS3Key = `sources/${sourceId}/manifests/${sha256}.json`;
+  await putObject(BUCKET, manifestS3Key, manifestJson, 'application/json');
+
+  // Update source with verification info
+  const updated: Source = {
+    ...source,
+    sha256,
+    byteLength,
+    mimeType,
+    s3Key,
+    retrievedAt,
+    verificationStatus: 'VERIFIED' as VerificationStatus,
+    verifiedAt: now,
+    verificationManifestS3Key: manifestS3Key,
+    verificationSignature: signature,
+    verificationKeyId: keyId,
+    verificationAlgorithm: algorithm,
+    updatedAt: now,
+    updatedBy: userId,
+  };
+
+  await putItem({
+    TableName: TABLE,
+    Item: {
+      PK: `SOURCE#${sourceId}`,
+      SK: 'META',
+      ...updated,
+    },
+  });
+
+  return updated;
+}
+
 /**
  * Capture HTML snapshot from a URL and store it in S3
- * Used during intake promotion to preserve source content
+ * Used during intake promotion when the item has no snapshot from ingestion
  */
 export async function captureHtmlSnapshot(
   sourceId: string,
@@ -415,108 +558,101 @@ export async function captureHtmlSnapshot(
 ): Promise<Source> {
   const source = await getSource(sourceId);
 
-  // Fetch the URL
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 30000); // 30s timeout
-
-  try {
-    const response = await fetch(url, {
-      signal: controller.signal,
-      headers: {
-        'User-Agent': 'AccountabilityLedger/1.0 (https://accountabilityledger.org)',
-        Accept: 'text/html,application/xhtml+xml,*/*',
-      },
-    });
+  // Fetch the URL under the same per-host limits as intake
+  const rails = await getIntakeRails();
 
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-    }
+  const response = await politeFetch(url, {
+    limits: rails,
+    timeoutMs: CAPTURE_TIMEOUT_MS,
+    accept: 'text/html,application/xhtml+xml,*/*',
+    maxWaitMs: CAPTURE_MAX_WAIT_MS,
+  });
 
-    const contentType = response.headers.get('content-type') || 'text/html';
-    const contentLength = response.headers.get('content-length');
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
 
-    // Check content length if available
-    if (contentLength && parseInt(contentLength, 10) > maxBytes) {
-      throw new FileTooLargeError(maxBytes);
-    }
+  const contentType = response.headers.get('content-type') || 'text/html';
+  const contentLength = response.headers.get('content-length');
 
-    // Read response body
-    const htmlBuffer = Buffer.from(await response.arrayBuffer());
+  // Check content length if available
+  if (contentLength && parseInt(contentLength, 10) > maxBytes) {
+    throw new FileTooLargeError(maxBytes);
+  }
 
-    // Check actual size
-    if (htmlBuffer.length > maxBytes) {
-      throw new FileTooLargeError(maxBytes);
-    }
+  // Read response body
+  const htmlBuffer = Buffer.from(await response.arrayBuffer());
 
-    // Compute SHA-256
-    const sha256 = createHash('sha256').update(htmlBuffer).digest('hex');
+  // Check actual size
+  if (htmlBuffer.length > maxBytes) {
+    throw new FileTooLargeError(maxBytes);
+  }
 
-    // Determine MIME type
-    const mimeType = contentType.split(';')[0].trim();
-    const extension = getExtensionForMimeType(mimeType);
+  // Compute SHA-256
+  const sha256 = createHash('sha256').update(htmlBuffer).digest('hex');
 
-    // Upload to S3
-    const s3Key = `sources/${sourceId}/${sha256}.${extension}`;
-    await putObject(BUCKET, s3Key, htmlBuffer, mimeType);
+  // Determine MIME type
+  const mimeType = contentType.split(';')[0].trim();
+  const extension = getExtensionForMimeType(mimeType);
 
-    const now = new Date().toISOString();
+  // Upload to S3
+  const s3Key = `sources/${sourceId}/${sha256}.${extension}`;
+  await putObject(BUCKET, s3Key, htmlBuffer, mimeType);
 
-    // Create verification manifest
-    const manifest: VerificationManifest = {
-      sourceId,
-      s3Key,
-      sha256,
-      byteLength: htmlBuffer.length,
-      mimeType,
-      retrievedAt: now,
-      publisher: source.publisher,
-      url: source.url,
-      verifiedAt: now,
-      verificationAlgorithm: 'RSASSA_PSS_SHA_256',
-      verificationKeyId: config.kms.signingKeyId,
-    };
+  return recordSnapshot(
+    source,
+    { s3Key, sha256, byteLength: htmlBuffer.length, mimeType, retrievedAt: new Date().toISOString() },
+    userId
+  );
+}
 
-    // Sign the manifest
-    const manifestJson = JSON.stringify(manifest);
-    const { signature, keyId, algorithm } = await signData(
-      Buffer.from(manifestJson)
-    );
+/**
+ * Verify a source against the snapshot taken when its intake item was
+ * ingested. The object is copied under the source so rolling back a
+ * promotion leaves the intake item's copy in place.
+ */
+export async function attachIntakeSnapshot(
+  sourceId: string,
+  snapshot: IntakeSnapshot,
+  userId: string
+): Promise<Source> {
+  const source = await getSource(sourceId);
 
-    // Store manifest in S3
-    const manifestS3Key = `sources/${sourceId}/manifests/${sha256}.json`;
-    await putObject(BUCKET, manifestS3Key, manifestJson, 'application/json');
+  const s3Key = `sources/${sourceId}/${snapshot.sha256}.${getExtensionForMimeType(snapshot.mimeType)}`;
+  await copyObject(BUCKET, snapshot.key, s3Key);
 
-    // Update source with verification info
-    const updated: Source = {
-      ...source,
-      sha256,
-      byteLength: htmlBuffer.length,
-      mimeType,
+  return recordSnapshot(
+    source,
+    {
       s3Key,
-      retrievedAt: now,
-      verificationStatus: 'VERIFIED' as VerificationStatus,
-      verifiedAt: now,
-      verificationManifestS3Key: manifestS3Key,
-      verificationSignature: signature,
-      verificationKeyId: keyId,
-      verificationAlgorithm: algorithm,
-      updatedAt: now,
-      updatedBy: userId,
-    };
+      sha256: snapshot.sha256,
+      byteLength: snapshot.byteLength,
+      mimeType: snapshot.mimeType,
+      retrievedAt: snapshot.capturedAt,
+    },
+    userId
+  );
+}
 
-    await putItem({
-      TableName: TABLE,
-      Item: {
-        PK: `SOURCE#${sourceId}`,
-        SK: 'META',
-        ...updated,
-      },
-    });
-
-    return updated;
-  } finally {
-    clearTimeout(timeoutId);
-  }
+/**
+ * Store content fetched again from a source's URL and sign it as the
+ * source's snapshot. The snapshot it replaces stays in previousSnapshots.
+ */
+export async function captureSourceVersion(
+  sourceId: string,
+  stored: { s3Key: string; sha256: string; byteLength: number; mimeType: string; retrievedAt: string },
+  userId: string
+): Promise<Source> {
+  return recordSnapshot(await getSource(sourceId), stored, userId);
+}
+
+/** Note when the source watcher last fetched the source's URL */
+export async function markSourceChecked(sourceId: string, checkedAt: string): Promise<void> {
+  await updateItem({
+    TableName: TABLE,
+    Key: { PK: `SOURCE#${sourceId}`, SK: 'META' },
+    UpdateExpression: 'SET lastCheckedAt = :checkedAt',
+    ConditionExpression: 'attribute_exists(PK)',
+    ExpressionAttributeValues: { ':checkedAt': checkedAt },
+  });
 }
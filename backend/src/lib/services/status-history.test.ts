@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { EvidenceCard } from '@ledger/shared';
+import {
+  parseLegacyCounterpoint,
+  buildStatusHistory,
+  migrateStatusHistory,
+} from './status-history.js';
+import * as dynamodb from '../dynamodb.js';
+import { makeCardVersion } from '../../test-utils/fixtures.js';
+
+vi.mock('../dynamodb.js', () => ({
+  putItem: vi.fn(),
+  queryItems: vi.fn(),
+  scanItems: vi.fn(),
+  encodeCursor: vi.fn((key) => Buffer.from(JSON.stringify(key)).toString('base64url')),
+  decodeCursor: vi.fn((cursor) => JSON.parse(Buffer.from(cursor, 'base64url').toString())),
+  stripKeys: vi.fn((item) => {
+    const rest = { ...item };
+    delete rest.PK;
+    delete rest.SK;
+    return rest;
+  }),
+}));
+
+vi.mock('../config.js', () => ({
+  config: {
+    tables: {
+      cards: 'test-cards-table',
+    },
+  },
+}));
+
+const DISPUTED_AT = '2024-03-01T10:00:00.000Z';
+const CORRECTED_AT = '2024-04-01T10:00:00.000Z';
+
+// v1 draft, v2 published, v3 disputed, v4 corrected
+function legacyVersions(): EvidenceCard[] {
+  const disputeNote = `[Dispute ${DISPUTED_AT}]: Acme says the settlement was voluntary`;
+  const correctionNote = `[Correction ${CORRECTED_AT}]: Amount updated to $1.2M`;
+  return [
+    makeCardVersion(1, { status: 'DRAFT', counterpoint: 'Acme denies wrongdoing.' }),
+    makeCardVersion(2, { status: 'PUBLISHED', counterpoint: 'Acme denies wrongdoing.' }),
+    makeCardVersion(3, {
+      status: 'DISPUTED',
+      updatedAt: DISPUTED_AT,
+      updatedBy: 'editor-1',
+      counterpoint: `Acme denies wrongdoing.\n\n---\n\n${disputeNote}`,
+    }),
+    makeCardVersion(4, {
+      status: 'CORRECTED',
+      updatedAt: CORRECTED_AT,
+      updatedBy: 'editor-2',
+      counterpoint: `Acme denies wrongdoing.\n\n---\n\n${disputeNote}\n\n---\n\n${correctionNote}`,
+    }),
+  ];
+}
+
+describe('status history migration', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('parseLegacyCounterpoint', () => {
+    it('separates the company response from legacy status notes', () => {
+      const result = parseLegacyCounterpoint(legacyVersions()[3].counterpoint);
+
+      expect(result.counterpoint).toBe('Acme denies wrongdoing.');
+      expect(result.notes).toEqual([
+        { status: 'DISPUTED', at: DISPUTED_AT, reason: 'Acme says the settlement was voluntary' },
+        { status: 'CORRECTED', at: CORRECTED_AT, reason: 'Amount updated to $1.2M' },
+      ]);
+    });
+
+    it('drops counterpoint entirely when it only held status notes', () => {
+      const result = parseLegacyCounterpoint(`[Retraction ${DISPUTED_AT}]: Forged source`);
+
+      expect(result.counterpoint).toBeUndefined();
+      expect(result.notes).toHaveLength(1);
+    });
+  });
+
+  describe('buildStatusHistory', () => {
+    it('records each status change and matches notes by timestamp', () => {
+      expect(buildStatusHistory(legacyVersions())).toEqual([
+        { status: 'DRAFT', actor: 'user-1', at: '2024-01-11T00:00:00.000Z', version: 1 },
+        { status: 'PUBLISHED', actor: 'user-1', at: '2024-01-12T00:00:00.000Z', version: 2 },
+        {
+          status: 'DISPUTED',
+          reason: 'Acme says the settlement was voluntary',
+          actor: 'editor-1',
+          at: DISPUTED_AT,
+          version: 3,
+        },
+        {
+          status: 'CORRECTED',
+          reason: 'Amount updated to $1.2M',
+          actor: 'editor-2',
+          at: CORRECTED_AT,
+          version: 4,
+        },
+      ]);
+    });
+
+    it('keeps notes whose version row is missing', () => {
+      const [v1, v2, , v4] = legacyVersions();
+
+      const history = buildStatusHistory([v1, v2, v4]);
+
+      expect(history.find((change) => change.status === 'DISPUTED')).toEqual({
+        status: 'DISPUTED',
+        reason: 'Acme says the settlement was voluntary',
+        actor: 'user-1',
+        at: DISPUTED_AT,
+        version: 2,
+      });
+    });
+  });
+
+  describe('migrateStatusHistory', () => {
+    it('rewrites every version with the history up to that version', async () => {
+      vi.mocked(dynamodb.scanItems).mockResolvedValueOnce({ items: [{ cardId: 'card-1' }] });
+      // Returned in SK order, which is not numeric order
+      const [v1, v2, v3, v4] = legacyVersions();
+      vi.mocked(dynamodb.queryItems).mockResolvedValueOnce({ items: [v1, v2, v3, v4].reverse() });
+
+      const result = await migrateStatusHistory(undefined, false);
+
+      expect(result).toEqual({
+        cardsScanned: 1,
+        cardsMigrated: 1,
+        versionsRewritten: 4,
+        dryRun: false,
+        cursor: undefined,
+        hasMore: false,
+      });
+      const written = vi.mocked(dynamodb.putItem).mock.calls.map(([params]) => params.Item!);
+      expect(written.map((item) => item.SK)).toEqual(['V#1', 'V#2', 'V#3', 'V#4']);
+      expect(written[2].statusHistory).toHaveLength(3);
+      expect(written[3]).toMatchObject({
+        counterpoint: 'Acme denies wrongdoing.',
+        statusHistory: expect.arrayContaining([
+          expect.objectContaining({ status: 'CORRECTED', reason: 'Amount updated to $1.2M' }),
+        ]),
+      });
+    });
+
+    it('skips cards that already have a history and writes nothing on dry run', async () => {
+      vi.mocked(dynamodb.scanItems).mockResolvedValueOnce({
+        items: [{ cardId: 'card-1' }, { cardId: 'card-2' }],
+      });
+      vi.mocked(dynamodb.queryItems)
+        .mockResolvedValueOnce({ items: legacyVersions() })
+        .mockResolvedValueOnce({
+          items: [makeCardVersion(1, { status: 'DRAFT', statusHistory: [] })],
+        });
+
+      const result = await migrateStatusHistory(undefined, true);
+
+      expect(result).toMatchObject({ cardsScanned: 2, cardsMigrated: 1, versionsRewritten: 4 });
+      expect(dynamodb.putItem).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import type {
+  EvidenceCard,
+  CardStatus,
+  CardStatusChange,
+  MigrateStatusHistoryResult,
+} from '@ledger/shared';
+import { config } from '../config.js';
+import {
+  putItem,
+  queryItems,
+  scanItems,
+  encodeCursor,
+  decodeCursor,
+  stripKeys,
+} from '../dynamodb.js';
+
+const TABLE = config.tables.cards;
+
+// Before statusHistory existed, dispute/correct/retract appended
+// "[Dispute 2024-01-01T00:00:00.000Z]: reason" blocks to counterpoint,
+// separated from each other and from the company response by "---".
+const LEGACY_SEPARATOR = '\n\n---\n\n';
+const LEGACY_BLOCK = /^\[(Dispute|Correction|Retraction) ([^\]]+)\]: ([\s\S]*)$/;
+const LEGACY_STATUSES: Record<string, CardStatus> = {
+  Dispute: 'DISPUTED',
+  Correction: 'CORRECTED',
+  Retraction: 'RETRACTED',
+};
+
+export interface LegacyStatusNote {
+  status: CardStatus;
+  at: string;
+  reason: string;
+}
+
+/**
+ * Split a legacy counterpoint into the company response and our own
+ * status notes. Text that isn't a recognised block is kept as response.
+ */
+export function parseLegacyCounterpoint(counterpoint: string | undefined): {
+  counterpoint?: string;
+  notes: LegacyStatusNote[];
+} {
+  if (!counterpoint) {
+    return { counterpoint, notes: [] };
+  }
+
+  const response: string[] = [];
+  const notes: LegacyStatusNote[] = [];
+
+  for (const segment of counterpoint.split(LEGACY_SEPARATOR)) {
+    const match = LEGACY_BLOCK.exec(segment.trim());
+    if (match) {
+      notes.push({ status: LEGACY_STATUSES[match[1]], at: match[2], reason: match[3].trim() });
+    } else if (segment.trim()) {
+      response.push(segment);
+    }
+  }
+
+  return {
+    counterpoint: response.length > 0 ? response.join(LEGACY_SEPARATOR) : undefined,
+    notes,
+  };
+}
+
+/**
+ * Rebuild a timeline from a card's stored versions (oldest first).
+ * Legacy notes are matched to the version written in the same call,
+ * which shares its timestamp with the note.
+ */
+export function buildStatusHistory(versions: EvidenceCard[]): CardStatusChange[] {
+  if (versions.length === 0) {
+    return [];
+  }
+
+  const { notes } = parseLegacyCounterpoint(versions[versions.length - 1].counterpoint);
+  const unmatched = new Set(notes);
+  const history: CardStatusChange[] = [];
+  let previousStatus: CardStatus | undefined;
+
+  for (const version of versions) {
+    const note = notes.find(
+      (candidate) => unmatched.has(candidate) && candidate.at === version.updatedAt
+    );
+    if (version.status !== previousStatus || note) {
+      const change: CardStatusChange = {
+        status: version.status,
+        actor: version.updatedBy,
+        at: version.updatedAt,
+        version: version.version,
+      };
+      if (note) {
+        change.reason = note.reason;
+        unmatched.delete(note);
+      }
+      history.push(change);
+    }
+    previousStatus = version.status;
+  }
+
+  // Notes without a matching version (e.g. a pruned version row) are attached
+  // to the latest version written at or before the note
+  for (const note of unmatched) {
+    const owner = [...versions].reverse().find((version) => version.updatedAt <= note.at)
+      ?? versions[0];
+    history.push({
+      status: note.status,
+      reason: note.reason,
+      actor: owner.updatedBy,
+      at: note.at,
+      version: owner.version,
+    });
+  }
+
+  return history.sort((a, b) => a.at.localeCompare(b.at) || a.version - b.version);
+}
+
+async function getCardVersions(cardId: string): Promise<EvidenceCard[]> {
+  const versions: EvidenceCard[] = [];
+  let cursor: Record<string, unknown> | undefined;
+
+  do {
+    const { items, lastEvaluatedKey } = await queryItems<EvidenceCard & { PK: string; SK: string }>({
+      TableName: TABLE,
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :skPrefix)',
+      ExpressionAttributeValues: {
+        ':pk': `CARD#${cardId}`,
+        ':skPrefix': 'V#',
+      },
+      ExclusiveStartKey: cursor,
+    });
+    versions.push(...items.map(stripKeys));
+    cursor = lastEvaluatedKey;
+  } while (cursor);
+
+  // SK order is lexicographic (V#10 before V#2)
+  return versions.sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Backfill statusHistory for one page of cards and strip the legacy blocks
+ * out of counterpoint. Every version row is rewritten in place, so earlier
+ * versions only carry the history up to themselves. Cards whose latest
+ * version already has a statusHistory are skipped.
+ */
+export async function migrateStatusHistory(
+  cursor: string | undefined,
+  dryRun: boolean,
+  pageSize = 25
+): Promise<MigrateStatusHistoryResult> {
+  const { items, lastEvaluatedKey } = await scanItems<{ cardId: string }>({
+    TableName: TABLE,
+    FilterExpression: 'SK = :first',
+    ExpressionAttributeValues: { ':first': 'V#1' },
+    ProjectionExpression: 'cardId',
+    Limit: pageSize,
+    ExclusiveStartKey: cursor ? decodeCursor(cursor) : undefined,
+  });
+
+  let cardsMigrated = 0;
+  let versionsRewritten = 0;
+
+  for (const { cardId } of items) {
+    const versions = await getCardVersions(cardId);
+    if (versions.length === 0 || versions[versions.length - 1].statusHistory) {
+      continue;
+    }
+
+    const history = buildStatusHistory(versions);
+    cardsMigrated++;
+    versionsRewritten += versions.length;
+
+    if (dryRun) {
+      continue;
+    }
+
+    for (const version of versions) {
+      const migrated: EvidenceCard = {
+        ...version,
+        counterpoint: parseLegacyCounterpoint(version.counterpoint).counterpoint,
+        statusHistory: history.filter((change) => change.version <= version.version),
+      };
+      await putItem({
+        TableName: TABLE,
+        Item: {
+          PK: `CARD#${cardId}`,
+          SK: `V#${version.version}`,
+          ...migrated,
+        },
+      });
+    }
+  }
+
+  return {
+    cardsScanned: items.length,
+    cardsMigrated,
+    versionsRewritten,
+    dryRun,
+    cursor: lastEvaluatedKey ? encodeCursor(lastEvaluatedKey) : undefined,
+    hasMore: !!lastEvaluatedKey,
+  };
+}
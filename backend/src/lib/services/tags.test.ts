@@ -0,0 +1,259 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  normalizeTag,
+  normalizeTags,
+  syncCardTags,
+  listTags,
+  listTagCards,
+  mergeTags,
+  normalizeCardTags,
+  rebuildTagIndex,
+} from './tags.js';
+import * as dynamodb from '../dynamodb.js';
+import * as cards from './cards.js';
+import { ValidationError } from '../errors.js';
+import { makeCard } from '../../test-utils/fixtures.js';
+
+vi.mock('../dynamodb.js', () => ({
+  putItem: vi.fn(),
+  deleteItem: vi.fn(),
+  queryItems: vi.fn(),
+  scanItems: vi.fn(),
+  countQueryItems: vi.fn(),
+  encodeCursor: vi.fn((key) => Buffer.from(JSON.stringify(key)).toString('base64')),
+  decodeCursor: vi.fn((cursor) => JSON.parse(Buffer.from(cursor, 'base64').toString())),
+  stripKeys: vi.fn((item) => {
+    const rest = { ...item };
+    delete rest.PK;
+    delete rest.SK;
+    return rest;
+  }),
+}));
+
+vi.mock('./cards.js', () => ({
+  getCard: vi.fn(),
+  retagCard: vi.fn(),
+}));
+
+vi.mock('../config.js', () => ({
+  config: {
+    tables: {
+      cards: 'test-cards-table',
+      tagIndex: 'test-tag-index-table',
+    },
+  },
+}));
+
+describe('tags service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('normalizeTag', () => {
+    it('lowercases, hyphenates and strips punctuation', () => {
+      expect(normalizeTag('Wage Theft')).toBe('wage-theft');
+      expect(normalizeTag('  wage_theft ')).toBe('wage-theft');
+      expect(normalizeTag('OSHA: violations!')).toBe('osha-violations');
+      expect(normalizeTag('--a -- b--')).toBe('a-b');
+    });
+
+    it('dedupes and drops tags that normalize to nothing', () => {
+      expect(normalizeTags(['Wage Theft', 'wage-theft', '!!!', 'Safety'])).toEqual([
+        'wage-theft',
+        'safety',
+      ]);
+    });
+  });
+
+  describe('syncCardTags', () => {
+    it('writes a row per normalized tag and refreshes counts', async () => {
+      vi.mocked(dynamodb.countQueryItems).mockResolvedValue(3);
+      const card = makeCard({ tags: ['Wage Theft', 'safety'] });
+
+      await syncCardTags(card);
+
+      expect(dynamodb.putItem).toHaveBeenCalledWith({
+        TableName: 'test-tag-index-table',
+        Item: expect.objectContaining({
+          PK: 'TAG#wage-theft',
+          SK: 'CARD#2024-01-15#card-1',
+          cardId: 'card-1',
+        }),
+      });
+      expect(dynamodb.putItem).toHaveBeenCalledWith({
+        TableName: 'test-tag-index-table',
+        Item: expect.objectContaining({
+          PK: 'TAG#safety',
+          SK: 'META',
+          GSI1PK: 'TAGS',
+          GSI1SK: 'safety',
+          cardCount: 3,
+        }),
+      });
+      expect(dynamodb.deleteItem).not.toHaveBeenCalled();
+    });
+
+    it('removes retracted cards and drops empty tags', async () => {
+      vi.mocked(dynamodb.countQueryItems).mockResolvedValue(0);
+
+      await syncCardTags(makeCard({ tags: ['safety'], status: 'RETRACTED' }));
+
+      expect(dynamodb.deleteItem).toHaveBeenCalledWith({
+        TableName: 'test-tag-index-table',
+        Key: { PK: 'TAG#safety', SK: 'CARD#2024-01-15#card-1' },
+      });
+      expect(dynamodb.deleteItem).toHaveBeenCalledWith({
+        TableName: 'test-tag-index-table',
+        Key: { PK: 'TAG#safety', SK: 'META' },
+      });
+      expect(dynamodb.putItem).not.toHaveBeenCalled();
+    });
+
+    it('removes rows for tags dropped since the previous version', async () => {
+      vi.mocked(dynamodb.countQueryItems).mockResolvedValue(1);
+
+      await syncCardTags(makeCard({ tags: ['safety'] }), ['osha']);
+
+      expect(dynamodb.deleteItem).toHaveBeenCalledWith({
+        TableName: 'test-tag-index-table',
+        Key: { PK: 'TAG#osha', SK: 'CARD#2024-01-15#card-1' },
+      });
+    });
+
+    it('logs rather than throws on write failures', async () => {
+      vi.mocked(dynamodb.putItem).mockRejectedValueOnce(new Error('boom'));
+
+      await expect(syncCardTags(makeCard({ tags: ['safety'] }))).resolves.toBeUndefined();
+    });
+  });
+
+  describe('listTags', () => {
+    it('queries the tag listing index', async () => {
+      vi.mocked(dynamodb.queryItems).mockResolvedValueOnce({
+        items: [{ PK: 'TAG#safety', SK: 'META', tag: 'safety', cardCount: 2, updatedAt: '' }],
+        lastEvaluatedKey: { PK: 'TAG#safety', SK: 'META' },
+      });
+
+      const result = await listTags({ limit: 1 });
+
+      expect(dynamodb.queryItems).toHaveBeenCalledWith(
+        expect.objectContaining({
+          IndexName: 'GSI1',
+          ExpressionAttributeValues: { ':pk': 'TAGS' },
+          Limit: 1,
+        })
+      );
+      expect(result.items).toEqual([{ tag: 'safety', cardCount: 2, updatedAt: '' }]);
+      expect(result.hasMore).toBe(true);
+      expect(result.cursor).toBeDefined();
+    });
+  });
+
+  describe('listTagCards', () => {
+    it('queries the normalized tag newest first with a category filter', async () => {
+      vi.mocked(dynamodb.queryItems).mockResolvedValueOnce({ items: [] });
+
+      await listTagCards('Wage Theft', { limit: 20, category: 'labor' });
+
+      expect(dynamodb.queryItems).toHaveBeenCalledWith(
+        expect.objectContaining({
+          TableName: 'test-tag-index-table',
+          ExpressionAttributeValues: {
+            ':pk': 'TAG#wage-theft',
+            ':skPrefix': 'CARD#',
+            ':category': 'labor',
+          },
+          FilterExpression: '#category = :category',
+          ScanIndexForward: false,
+        })
+      );
+    });
+
+    it('rejects tags that normalize to nothing', async () => {
+      await expect(listTagCards('!!!', { limit: 20 })).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('mergeTags', () => {
+    it('retags every card under the source tags', async () => {
+      vi.mocked(dynamodb.queryItems)
+        .mockResolvedValueOnce({ items: [{ cardId: 'card-1' }, { cardId: 'card-2' }] })
+        .mockResolvedValueOnce({ items: [{ cardId: 'card-2' }] });
+      vi.mocked(cards.getCard).mockImplementation(async (cardId) =>
+        cardId === 'card-1'
+          ? makeCard({ cardId, tags: ['wages', 'safety'] })
+          : makeCard({ cardId, tags: ['Unpaid Wages', 'wage-theft'] })
+      );
+
+      const result = await mergeTags(['wages', 'unpaid-wages'], 'Wage Theft', 'admin-1');
+
+      expect(cards.retagCard).toHaveBeenCalledWith('card-1', ['wage-theft', 'safety'], 'admin-1');
+      expect(cards.retagCard).toHaveBeenCalledWith('card-2', ['wage-theft'], 'admin-1');
+      expect(result).toMatchObject({ cardsChecked: 2, cardsUpdated: 2, dryRun: false });
+    });
+
+    it('reports changes without writing on a dry run', async () => {
+      vi.mocked(dynamodb.queryItems).mockResolvedValueOnce({ items: [{ cardId: 'card-1' }] });
+      vi.mocked(cards.getCard).mockResolvedValueOnce(makeCard({ tags: ['wages'] }));
+
+      const result = await mergeTags(['wages'], 'wage-theft', 'admin-1', true);
+
+      expect(cards.retagCard).not.toHaveBeenCalled();
+      expect(result.cardsUpdated).toBe(0);
+      expect(result.changes).toEqual([
+        { cardId: 'card-1', before: ['wages'], after: ['wage-theft'] },
+      ]);
+    });
+
+    it('rejects merging a tag into itself', async () => {
+      await expect(mergeTags(['Wage Theft'], 'wage-theft', 'admin-1')).rejects.toThrow(
+        ValidationError
+      );
+    });
+  });
+
+  describe('normalizeCardTags', () => {
+    it('skips cards whose tags are already normalized', async () => {
+      vi.mocked(dynamodb.scanItems).mockResolvedValueOnce({
+        items: [{ cardId: 'card-1' }, { cardId: 'card-2' }, { cardId: 'card-1' }],
+      });
+      vi.mocked(cards.getCard).mockImplementation(async (cardId) =>
+        cardId === 'card-1'
+          ? makeCard({ cardId, tags: ['safety'] })
+          : makeCard({ cardId, tags: ['OSHA', 'osha'] })
+      );
+
+      const result = await normalizeCardTags('admin-1', false);
+
+      expect(result.cardsChecked).toBe(2);
+      expect(cards.retagCard).toHaveBeenCalledTimes(1);
+      expect(cards.retagCard).toHaveBeenCalledWith('card-2', ['osha'], 'admin-1');
+    });
+  });
+
+  describe('rebuildTagIndex', () => {
+    it('syncs the latest version of each scanned card and returns a cursor', async () => {
+      vi.mocked(dynamodb.scanItems).mockResolvedValueOnce({
+        items: [{ cardId: 'card-1' }],
+        lastEvaluatedKey: { PK: 'CARD#card-1', SK: 'LATEST' },
+      });
+      vi.mocked(cards.getCard).mockResolvedValueOnce(makeCard({ tags: ['safety'] }));
+      vi.mocked(dynamodb.countQueryItems).mockResolvedValue(1);
+
+      const result = await rebuildTagIndex(undefined);
+
+      expect(dynamodb.scanItems).toHaveBeenCalledWith(
+        expect.objectContaining({
+          TableName: 'test-cards-table',
+          ExpressionAttributeValues: { ':latest': 'LATEST' },
+        })
+      );
+      expect(dynamodb.putItem).toHaveBeenCalledWith(
+        expect.objectContaining({
+          Item: expect.objectContaining({ PK: 'TAG#safety', SK: 'CARD#2024-01-15#card-1' }),
+        })
+      );
+      expect(result).toMatchObject({ cardsIndexed: 1, hasMore: true });
+    });
+  });
+});
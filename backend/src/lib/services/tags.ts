@@ -0,0 +1,323 @@
+import type {
+  EvidenceCard,
+  PaginatedResponse,
+  TagSummary,
+  TagChange,
+  TagMaintenanceResult,
+  RebuildTagIndexResult,
+} from '@ledger/shared';
+import { CardStatus } from '@ledger/shared';
+import { config } from '../config.js';
+import {
+  putItem,
+  deleteItem,
+  queryItems,
+  scanItems,
+  countQueryItems,
+  encodeCursor,
+  decodeCursor,
+  stripKeys,
+} from '../dynamodb.js';
+import { logger } from '../logger.js';
+import { ValidationError } from '../errors.js';
+import { getCard, retagCard } from './cards.js';
+import type { TagQueryInput, TagCardsQueryInput } from '../validation.js';
+
+const TABLE = config.tables.tagIndex;
+
+// Table layout:
+//   PK TAG#{tag}, SK CARD#{eventDate}#{cardId}  card snapshot, newest event first
+//   PK TAG#{tag}, SK META                       count; GSI1 (TAGS / tag) lists all tags
+const TAGS_PARTITION = 'TAGS';
+
+/** Card statuses that appear in the public tag index */
+const INDEXED_STATUSES: ReadonlySet<string> = new Set([
+  CardStatus.PUBLISHED,
+  CardStatus.DISPUTED,
+  CardStatus.CORRECTED,
+]);
+
+/**
+ * Normalize a tag for indexing and matching.
+ * Lowercases, joins words with hyphens and drops other punctuation,
+ * so "Wage Theft", "wage_theft" and "wage-theft" share one index entry.
+ */
+export function normalizeTag(tag: string): string {
+  return tag
+    .toLowerCase()
+    .trim()
+    .replace(/[\s_]+/g, '-')
+    .replace(/[^a-z0-9-]/g, '')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+/** Normalize and dedupe a tag list, preserving first-seen order and dropping empties */
+export function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map(normalizeTag).filter((tag) => tag.length > 0))];
+}
+
+function cardRowKey(tag: string, card: Pick<EvidenceCard, 'eventDate' | 'cardId'>) {
+  return { PK: `TAG#${tag}`, SK: `CARD#${card.eventDate}#${card.cardId}` };
+}
+
+/** Recount a tag's card rows and store it on the META item (deleted at zero) */
+async function refreshTagCount(tag: string): Promise<void> {
+  const cardCount = await countQueryItems({
+    TableName: TABLE,
+    KeyConditionExpression: 'PK = :pk AND begins_with(SK, :skPrefix)',
+    ExpressionAttributeValues: {
+      ':pk': `TAG#${tag}`,
+      ':skPrefix': 'CARD#',
+    },
+  });
+
+  if (cardCount === 0) {
+    await deleteItem({ TableName: TABLE, Key: { PK: `TAG#${tag}`, SK: 'META' } });
+    return;
+  }
+
+  const summary: TagSummary = { tag, cardCount, updatedAt: new Date().toISOString() };
+  await putItem({
+    TableName: TABLE,
+    Item: {
+      PK: `TAG#${tag}`,
+      SK: 'META',
+      GSI1PK: TAGS_PARTITION,
+      GSI1SK: tag,
+      ...summary,
+    },
+  });
+}
+
+/**
+ * Bring the tag index in line with a card's current state.
+ * Public cards get a row under each of their tags; retracted or otherwise
+ * non-public cards are removed. `previousTags` covers tags dropped by a retag.
+ * Failures are logged, not thrown: the card write has already committed and
+ * POST /admin/tags/rebuild repairs the index.
+ */
+export async function syncCardTags(
+  card: EvidenceCard,
+  previousTags: string[] = []
+): Promise<void> {
+  const indexed = INDEXED_STATUSES.has(card.status) ? normalizeTags(card.tags || []) : [];
+  const touched = new Set([...normalizeTags(previousTags), ...normalizeTags(card.tags || []), ...indexed]);
+
+  try {
+    for (const tag of touched) {
+      if (indexed.includes(tag)) {
+        await putItem({
+          TableName: TABLE,
+          Item: { ...cardRowKey(tag, card), ...card },
+        });
+      } else {
+        await deleteItem({ TableName: TABLE, Key: cardRowKey(tag, card) });
+      }
+      await refreshTagCount(tag);
+    }
+  } catch (error) {
+    logger.error({ error, cardId: card.cardId }, 'Failed to sync tag index');
+  }
+}
+
+/** List all tags with their public card counts, alphabetically */
+export async function listTags(
+  query: TagQueryInput
+): Promise<PaginatedResponse<TagSummary>> {
+  const limit = query.limit || 20;
+  const exclusiveStartKey = query.cursor ? decodeCursor(query.cursor) : undefined;
+
+  const { items, lastEvaluatedKey } = await queryItems<TagSummary & { PK: string; SK: string }>({
+    TableName: TABLE,
+    IndexName: 'GSI1',
+    KeyConditionExpression: 'GSI1PK = :pk',
+    ExpressionAttributeValues: {
+      ':pk': TAGS_PARTITION,
+    },
+    Limit: limit,
+    ExclusiveStartKey: exclusiveStartKey,
+  });
+
+  return {
+    items: items.map((item) => stripKeys(item)),
+    cursor: lastEvaluatedKey ? encodeCursor(lastEvaluatedKey) : undefined,
+    hasMore: !!lastEvaluatedKey,
+  };
+}
+
+/** List public cards carrying a tag, newest event first */
+export async function listTagCards(
+  tag: string,
+  query: TagCardsQueryInput
+): Promise<PaginatedResponse<EvidenceCard>> {
+  const normalized = normalizeTag(tag);
+  if (!normalized) {
+    throw new ValidationError('Invalid tag');
+  }
+
+  const limit = query.limit || 20;
+  const exclusiveStartKey = query.cursor ? decodeCursor(query.cursor) : undefined;
+
+  const { items, lastEvaluatedKey } = await queryItems<EvidenceCard & { PK: string; SK: string }>({
+    TableName: TABLE,
+    KeyConditionExpression: 'PK = :pk AND begins_with(SK, :skPrefix)',
+    ExpressionAttributeValues: {
+      ':pk': `TAG#${normalized}`,
+      ':skPrefix': 'CARD#',
+      ...(query.category && { ':category': query.category }),
+    },
+    ExpressionAttributeNames: query.category ? { '#category': 'category' } : undefined,
+    FilterExpression: query.category ? '#category = :category' : undefined,
+    ScanIndexForward: false,
+    Limit: limit,
+    ExclusiveStartKey: exclusiveStartKey,
+  });
+
+  return {
+    items: items.map((item) => stripKeys(item)),
+    cursor: lastEvaluatedKey ? encodeCursor(lastEvaluatedKey) : undefined,
+    hasMore: !!lastEvaluatedKey,
+  };
+}
+
+/** Collect the IDs of every card indexed under a tag */
+async function getTagCardIds(tag: string): Promise<string[]> {
+  const cardIds: string[] = [];
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+
+  do {
+    const { items, lastEvaluatedKey } = await queryItems<EvidenceCard & { PK: string; SK: string }>({
+      TableName: TABLE,
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :skPrefix)',
+      ExpressionAttributeValues: {
+        ':pk': `TAG#${tag}`,
+        ':skPrefix': 'CARD#',
+      },
+      ProjectionExpression: 'cardId',
+      ExclusiveStartKey: exclusiveStartKey,
+    });
+    cardIds.push(...items.map((item) => item.cardId));
+    exclusiveStartKey = lastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return cardIds;
+}
+
+/** Apply tag rewrites to cards, writing a new card version for each change */
+async function applyTagChanges(
+  cardIds: Iterable<string>,
+  rewrite: (tags: string[]) => string[],
+  userId: string,
+  dryRun: boolean
+): Promise<TagMaintenanceResult> {
+  const changes: TagChange[] = [];
+  let cardsChecked = 0;
+
+  for (const cardId of new Set(cardIds)) {
+    cardsChecked++;
+    const card = await getCard(cardId);
+    const before = card.tags || [];
+    const after = rewrite(before);
+    if (before.length === after.length && before.every((tag, i) => tag === after[i])) {
+      continue;
+    }
+    changes.push({ cardId, before, after });
+    if (!dryRun) {
+      await retagCard(cardId, after, userId);
+    }
+  }
+
+  return {
+    cardsChecked,
+    cardsUpdated: dryRun ? 0 : changes.length,
+    changes,
+    dryRun,
+  };
+}
+
+/**
+ * Merge one or more tags into another.
+ * Every public card carrying a source tag gets a new version with the
+ * source tags replaced by the target.
+ */
+export async function mergeTags(
+  from: string[],
+  into: string,
+  userId: string,
+  dryRun = false
+): Promise<TagMaintenanceResult> {
+  const target = normalizeTag(into);
+  const sources = normalizeTags(from).filter((tag) => tag !== target);
+  if (!target || sources.length === 0) {
+    throw new ValidationError('Merge requires at least one source tag different from the target');
+  }
+
+  const cardIds: string[] = [];
+  for (const tag of sources) {
+    cardIds.push(...(await getTagCardIds(tag)));
+  }
+
+  const sourceSet = new Set(sources);
+  return applyTagChanges(
+    cardIds,
+    (tags) => normalizeTags(tags.map((tag) => (sourceSet.has(normalizeTag(tag)) ? target : tag))),
+    userId,
+    dryRun
+  );
+}
+
+/**
+ * Rewrite the tag lists of indexed cards into normalized, deduplicated form.
+ * Defaults to a dry run that only reports what would change.
+ */
+export async function normalizeCardTags(
+  userId: string,
+  dryRun = true
+): Promise<TagMaintenanceResult> {
+  const cardIds: string[] = [];
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+
+  do {
+    const { items, lastEvaluatedKey } = await scanItems<{ cardId: string }>({
+      TableName: TABLE,
+      FilterExpression: 'begins_with(SK, :skPrefix)',
+      ExpressionAttributeValues: { ':skPrefix': 'CARD#' },
+      ProjectionExpression: 'cardId',
+      ExclusiveStartKey: exclusiveStartKey,
+    });
+    cardIds.push(...items.map((item) => item.cardId));
+    exclusiveStartKey = lastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return applyTagChanges(cardIds, normalizeTags, userId, dryRun);
+}
+
+/**
+ * Re-index public cards from the cards table, one page per call.
+ * Used to backfill cards published before the index existed or to repair
+ * it after a failed sync.
+ */
+export async function rebuildTagIndex(
+  cursor: string | undefined,
+  pageSize = 100
+): Promise<RebuildTagIndexResult> {
+  const { items, lastEvaluatedKey } = await scanItems<{ cardId: string }>({
+    TableName: config.tables.cards,
+    FilterExpression: 'SK = :latest',
+    ExpressionAttributeValues: { ':latest': 'LATEST' },
+    ProjectionExpression: 'cardId',
+    Limit: pageSize,
+    ExclusiveStartKey: cursor ? decodeCursor(cursor) : undefined,
+  });
+
+  for (const { cardId } of items) {
+    await syncCardTags(await getCard(cardId));
+  }
+
+  return {
+    cardsIndexed: items.length,
+    cursor: lastEvaluatedKey ? encodeCursor(lastEvaluatedKey) : undefined,
+    hasMore: !!lastEvaluatedKey,
+  };
+}
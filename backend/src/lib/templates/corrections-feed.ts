@@ -0,0 +1,73 @@
+import type { CorrectionEntry } from '@ledger/shared';
+
+/**
+ * Atom rendering of the public corrections log
+ */
+const KIND_LABELS: Record<CorrectionEntry['kind'], string> = {
+  DISPUTED: 'Disputed',
+  CORRECTED: 'Corrected',
+  RETRACTED: 'Retracted',
+};
+
+/**
+ * Escape text for use in XML element content and attribute values
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Public page an entry links to. Relationships have no page of their own,
+ * so they link to the entity they start from.
+ */
+export function correctionLink(entry: CorrectionEntry, siteUrl: string): string {
+  if (entry.targetType === 'card') {
+    return `${siteUrl}/cards/${entry.targetId}`;
+  }
+  return `${siteUrl}/entities/${entry.entityIds[0]}`;
+}
+
+function renderEntry(entry: CorrectionEntry, siteUrl: string): string {
+  const link = correctionLink(entry, siteUrl);
+  const versionNote = entry.version ? ` (version ${entry.version})` : '';
+  const summary = entry.reason
+    ? `${KIND_LABELS[entry.kind]}${versionNote}: ${entry.reason}`
+    : `${KIND_LABELS[entry.kind]}${versionNote}`;
+
+  return [
+    '  <entry>',
+    `    <id>${escapeXml(`${siteUrl}/corrections#${entry.targetType}-${entry.targetId}-${entry.at}`)}</id>`,
+    `    <title>${escapeXml(`${KIND_LABELS[entry.kind]}: ${entry.title}`)}</title>`,
+    `    <link rel="alternate" type="text/html" href="${escapeXml(link)}"/>`,
+    `    <updated>${entry.at}</updated>`,
+    `    <category term="${entry.kind.toLowerCase()}"/>`,
+    `    <summary type="text">${escapeXml(summary)}</summary>`,
+    '  </entry>',
+  ].join('\n');
+}
+
+/**
+ * Render entries (newest first) as an Atom 1.0 feed
+ */
+export function renderCorrectionsFeed(entries: CorrectionEntry[], siteUrl: string): string {
+  const updated = entries[0]?.at ?? new Date().toISOString();
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>${escapeXml(`${siteUrl}/corrections`)}</id>`,
+    '  <title>Accountability Ledger: Corrections and Retractions</title>',
+    `  <link rel="alternate" type="text/html" href="${escapeXml(`${siteUrl}/corrections`)}"/>`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(`${siteUrl}/api/corrections/feed.atom`)}"/>`,
+    `  <updated>${updated}</updated>`,
+    '  <author><name>Accountability Ledger</name></author>',
+    ...entries.map((entry) => renderEntry(entry, siteUrl)),
+    '</feed>',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { diffLines, splitLines, summarizeDiff } from './text-diff.js';
+
+describe('splitLines', () => {
+  it('trims lines and drops blank ones', () => {
+    expect(splitLines('  First line \r\n\n   \nSecond line\n')).toEqual(['First line', 'Second line']);
+  });
+});
+
+describe('diffLines', () => {
+  it('marks replaced, added and removed lines', () => {
+    const before = ['Acme to pay $5 million', 'Filed in Delaware', 'Contact: press office'];
+    const after = ['Acme to pay $7.5 million', 'Filed in Delaware', 'Widget Co. also named', 'Contact: press office'];
+
+    expect(diffLines(before, after)).toEqual([
+      { change: 'removed', text: 'Acme to pay $5 million' },
+      { change: 'added', text: 'Acme to pay $7.5 million' },
+      { change: 'context', text: 'Filed in Delaware' },
+      { change: 'added', text: 'Widget Co. also named' },
+      { change: 'context', text: 'Contact: press office' },
+    ]);
+  });
+
+  it('returns only context for identical input', () => {
+    expect(diffLines(['a', 'b'], ['a', 'b']).every((line) => line.change === 'context')).toBe(true);
+  });
+});
+
+describe('summarizeDiff', () => {
+  const lines = Array.from({ length: 20 }, (_, i) => `line ${i}`);
+
+  it('keeps two lines of context around each change', () => {
+    const after = [...lines];
+    after[10] = 'line 10, amended';
+
+    const { lines: kept, truncated } = summarizeDiff(diffLines(lines, after), 100);
+
+    expect(truncated).toBe(false);
+    expect(kept.map((line) => line.text)).toEqual([
+      'line 8',
+      'line 9',
+      'line 10',
+      'line 10, amended',
+      'line 11',
+      'line 12',
+    ]);
+  });
+
+  it('returns nothing when the texts match and flags truncation', () => {
+    expect(summarizeDiff(diffLines(lines, lines), 100).lines).toEqual([]);
+    expect(summarizeDiff(diffLines(lines, ['other']), 5)).toMatchObject({ truncated: true });
+    expect(summarizeDiff(diffLines(lines, ['other']), 5).lines).toHaveLength(5);
+  });
+});
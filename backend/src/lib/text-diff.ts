@@ -0,0 +1,103 @@
+import type { SourceDiffLine } from '@ledger/shared';
+
+// Line diffs for showing how a page changed between two snapshots
+
+// Unchanged lines kept around each change
+const CONTEXT_LINES = 2;
+
+// Past this many lines of differing middle, the LCS table gets too large;
+// the whole middle is shown as removed then added instead
+const MAX_DIFF_CELLS = 4_000_000;
+
+/** Non-empty lines, trimmed */
+export function splitLines(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+// Longest-common-subsequence diff of the part of two inputs that differs
+function diffMiddle(before: string[], after: string[]): SourceDiffLine[] {
+  const n = before.length;
+  const m = after.length;
+  if (n * m > MAX_DIFF_CELLS) {
+    return [
+      ...before.map((text) => ({ change: 'removed' as const, text })),
+      ...after.map((text) => ({ change: 'added' as const, text })),
+    ];
+  }
+
+  // lengths[i * (m + 1) + j]: LCS length of before[i..] and after[j..]
+  const lengths = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * (m + 1) + j] =
+        before[i] === after[j]
+          ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const lines: SourceDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (before[i] === after[j]) {
+      lines.push({ change: 'context', text: before[i] });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+      lines.push({ change: 'removed', text: before[i++] });
+    } else {
+      lines.push({ change: 'added', text: after[j++] });
+    }
+  }
+  while (i < n) lines.push({ change: 'removed', text: before[i++] });
+  while (j < m) lines.push({ change: 'added', text: after[j++] });
+  return lines;
+}
+
+/** Every line of both texts, marked added, removed or unchanged */
+export function diffLines(before: string[], after: string[]): SourceDiffLine[] {
+  let prefix = 0;
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix &&
+    suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const context = (lines: string[]): SourceDiffLine[] => lines.map((text) => ({ change: 'context', text }));
+  return [
+    ...context(before.slice(0, prefix)),
+    ...diffMiddle(before.slice(prefix, before.length - suffix), after.slice(prefix, after.length - suffix)),
+    ...context(before.slice(before.length - suffix)),
+  ];
+}
+
+/**
+ * The changed lines of a diff with a little context around each, capped at
+ * maxLines. An empty result means the texts are the same.
+ */
+export function summarizeDiff(
+  lines: SourceDiffLine[],
+  maxLines: number
+): { lines: SourceDiffLine[]; truncated: boolean } {
+  const keep = new Array<boolean>(lines.length).fill(false);
+  lines.forEach((line, i) => {
+    if (line.change !== 'context') {
+      for (let k = Math.max(0, i - CONTEXT_LINES); k <= Math.min(lines.length - 1, i + CONTEXT_LINES); k++) {
+        keep[k] = true;
+      }
+    }
+  });
+
+  const kept = lines.filter((_, i) => keep[i]);
+  return { lines: kept.slice(0, maxLines), truncated: kept.length > maxLines };
+}
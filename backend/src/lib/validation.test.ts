@@ -11,6 +11,7 @@ import {
   scoreSignalsSchema,
   entitySearchSchema,
   intakePromoteSchema,
+  createReplySchema,
 } from './validation.js';
 import { EntityType, DocType, CardCategory, EvidenceStrength } from '@ledger/shared';
 
@@ -453,4 +454,24 @@ describe('validation schemas', () => {
       ).toBe(false);
     });
   });
+
+  describe('createReplySchema', () => {
+    const reply = (url: string) => ({
+      entityId: '01ARZ3NDEKTSV4RRFFQ69G5FAV',
+      submitterName: 'Jane Doe',
+      submitterEmail: 'press@example.com',
+      body: 'Our response.',
+      attachments: [{ title: 'Statement', url }],
+    });
+
+    it('accepts http and https attachment links', () => {
+      expect(createReplySchema.safeParse(reply('https://example.com/statement.pdf')).success).toBe(true);
+      expect(createReplySchema.safeParse(reply('http://example.com/statement')).success).toBe(true);
+    });
+
+    it('rejects other attachment schemes', () => {
+      expect(createReplySchema.safeParse(reply('javascript:alert(document.cookie)')).success).toBe(false);
+      expect(createReplySchema.safeParse(reply('data:text/html,<script>alert(1)</script>')).success).toBe(false);
+    });
+  });
 });
\ No newline at end of file
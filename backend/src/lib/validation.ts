@@ -10,6 +10,10 @@ import {
   MonetaryAmountType,
   AffectedCountUnit,
   RelationshipType,
+  SearchResultType,
+  ReplyStatus,
+  ApprovalAction,
+  SourceAlertStatus,
 } from '@ledger/shared';
 
 // Common validators
@@ -20,6 +24,9 @@ export const idSchema = z.union([uuidSchema, ulidSchema]);
 export const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
 export const isoTimestampSchema = z.string().datetime();
 
+// Version an edit was based on, for optimistic concurrency
+export const expectedVersionSchema = z.number().int().positive();
+
 export const paginationSchema = z.object({
   limit: z.coerce.number().min(1).max(100).optional().default(20),
   cursor: z.string().optional(),
@@ -42,7 +49,9 @@ export const createEntitySchema = z.object({
     .optional(),
 });
 
-export const updateEntitySchema = createEntitySchema.partial();
+export const updateEntitySchema = createEntitySchema.partial().extend({
+  expectedVersion: expectedVersionSchema.optional(),
+});
 
 // Source schemas
 export const createSourceSchema = z.object({
@@ -123,7 +132,9 @@ export const createCardSchema = z.object({
   relatedCardIds: z.array(idSchema).max(20).optional(),
 });
 
-export const updateCardSchema = createCardSchema.partial();
+export const updateCardSchema = createCardSchema.partial().extend({
+  expectedVersion: expectedVersionSchema.optional(),
+});
 
 // Card transition schemas
 export const disputeCardSchema = z.object({
@@ -132,12 +143,29 @@ export const disputeCardSchema = z.object({
 
 export const correctCardSchema = z.object({
   correctionNote: z.string().min(1).max(5000),
+  // Non-material corrections (typos, formatting) skip the approval quorum
+  material: z.boolean().default(true),
 });
 
 export const retractCardSchema = z.object({
   reason: z.string().min(1).max(5000),
 });
 
+export const approveCardSchema = z.object({
+  action: z.nativeEnum(ApprovalAction),
+  note: z.string().max(2000).optional(),
+});
+
+export const schedulePublishSchema = z.object({
+  scheduledPublishAt: isoTimestampSchema,
+  note: z.string().max(2000).optional(),
+});
+
+export const migrateStatusHistorySchema = z.object({
+  cursor: z.string().optional(),
+  dryRun: z.boolean().optional().default(true),
+});
+
 // Query parameter schemas
 export const cardQuerySchema = paginationSchema.extend({
   category: z.nativeEnum(CardCategory).optional(),
@@ -145,9 +173,15 @@ export const cardQuerySchema = paginationSchema.extend({
   status: z.nativeEnum(CardStatus).optional(),
 });
 
+export const cardDiffQuerySchema = z.object({
+  from: z.coerce.number().int().min(1),
+  to: z.coerce.number().int().min(1),
+});
+
 export const entityQuerySchema = paginationSchema.extend({
   query: z.string().max(200).optional(),
   type: z.nativeEnum(EntityType).optional(),
+  sort: z.enum(['score']).optional(),
 });
 
 export const entityCardsQuerySchema = paginationSchema.extend({
@@ -195,11 +229,72 @@ export const intakePromoteSchema = z.object({
   // Card metadata
   tags: z.array(z.string().max(100)).max(20).optional(),
   cardSummary: z.string().min(1).max(5000),
+  // Attach the rest of the item's story cluster as sources
+  includeCluster: z.boolean().optional(),
 }).refine(
   (data) => data.entityId || data.createEntity || (data.entityIds && data.entityIds.length > 0) || (data.createEntities && data.createEntities.length > 0),
   { message: 'At least one entity must be provided (entityId, createEntity, entityIds, or createEntities)' }
 );
 
+// Intake feed schemas
+const selectorSchema = z.string().min(1).max(500);
+
+const listingFieldSchema = z.union([
+  selectorSchema,
+  z.object({
+    selector: selectorSchema,
+    attr: z.string().min(1).max(100).optional(),
+  }),
+]);
+
+const htmlListingSchema = z.object({
+  item: selectorSchema,
+  link: listingFieldSchema,
+  title: listingFieldSchema.optional(),
+  date: listingFieldSchema.optional(),
+  summary: listingFieldSchema.optional(),
+  nextPage: selectorSchema.optional(),
+  maxPages: z.number().int().min(1).max(10).optional(),
+});
+
+// No defaults here: the update schema is this made partial
+const intakeFeedFieldsSchema = z.object({
+  kind: z.enum(['feed', 'html']).optional(),
+  publisher: z.string().min(1).max(100),
+  name: z.string().min(1).max(200),
+  url: z.url({ protocol: /^https?$/ }).max(2000),
+  listing: htmlListingSchema.optional(),
+  defaultTags: z.array(z.string().min(1).max(100)).max(20),
+  perFeedCap: z.number().int().min(1).max(50),
+  enabled: z.boolean(),
+});
+
+export const createIntakeFeedSchema = intakeFeedFieldsSchema.extend({
+  // Recorded on every intake item, so keep it short and stable
+  id: z.string().regex(/^[a-z0-9][a-z0-9_-]{1,63}$/),
+  defaultTags: intakeFeedFieldsSchema.shape.defaultTags.default([]),
+  enabled: z.boolean().default(true),
+});
+
+export const updateIntakeFeedSchema = intakeFeedFieldsSchema.partial().extend({
+  expectedVersion: expectedVersionSchema.optional(),
+});
+
+const domainSchema = z.string().regex(/^(?!-)[a-z0-9-]+(\.[a-z0-9-]+)+$/i).max(253);
+
+export const updateIntakeRailsSchema = z.object({
+  maxItemsPerRun: z.number().int().min(1).max(500),
+  maxPerFeedPerRun: z.number().int().min(1).max(100),
+  maxRequestsPerHostPerMinute: z.number().int().min(1).max(600),
+  minDelayMsBetweenRequestsSameHost: z.number().int().min(0).max(60000),
+  fetchTimeoutMs: z.number().int().min(1000).max(120000),
+  maxHtmlSnapshotBytes: z.number().int().positive(),
+  maxPdfBytes: z.number().int().positive(),
+  allowedDomains: z.array(domainSchema).min(1).max(200),
+  stripQueryParams: z.array(z.string().min(1).max(100)).max(100),
+  expectedVersion: expectedVersionSchema.optional(),
+});
+
 // Entity search schema (for typeahead)
 export const entitySearchSchema = z.object({
   q: z.string().min(2).max(100),
@@ -233,6 +328,7 @@ export const updateRelationshipSchema = z.object({
   endDate: isoDateSchema.optional(),
   sourceRefs: z.array(idSchema).max(50).optional(),
   ownershipPercentage: z.number().min(0).max(100).optional(),
+  expectedVersion: expectedVersionSchema.optional(),
 });
 
 export const retractRelationshipSchema = z.object({
@@ -264,6 +360,138 @@ export const entitySummaryQuerySchema = z.object({
   dateTo: isoDateSchema.optional(),
 });
 
+// Scoring weight schemas
+const scoringWeightSchema = z.number().min(0).max(1);
+
+export const scoringWeightsSchema = z.object({
+  severity: scoringWeightSchema,
+  intent: scoringWeightSchema,
+  scope: scoringWeightSchema,
+  recidivism: scoringWeightSchema,
+  deception: scoringWeightSchema,
+  accountability: scoringWeightSchema,
+}).refine(
+  (weights) => Math.abs(Object.values(weights).reduce((sum, w) => sum + w, 0) - 1) < 0.001,
+  { message: 'Scoring weights must sum to 1' }
+);
+
+export const createScoringWeightsSchema = z.object({
+  weights: scoringWeightsSchema,
+  note: z.string().max(1000).optional(),
+});
+
+export const previewScoringWeightsSchema = z.object({
+  weights: scoringWeightsSchema,
+});
+
+// Tag schemas
+const tagSchema = z.string().min(1).max(100);
+
+export const tagQuerySchema = paginationSchema;
+
+export const tagCardsQuerySchema = paginationSchema.extend({
+  category: z.nativeEnum(CardCategory).optional(),
+});
+
+export const mergeTagsSchema = z.object({
+  from: z.array(tagSchema).min(1).max(20),
+  into: tagSchema,
+  dryRun: z.boolean().optional().default(false),
+});
+
+export const normalizeTagsSchema = z.object({
+  dryRun: z.boolean().optional().default(true),
+});
+
+export const rebuildTagIndexSchema = z.object({
+  cursor: z.string().optional(),
+});
+
+// Search schemas
+export const searchQuerySchema = paginationSchema.extend({
+  q: z.string().trim().min(1).max(200),
+  type: z.nativeEnum(SearchResultType).optional(),
+  category: z.nativeEnum(CardCategory).optional(),
+  from: isoDateSchema.optional(),
+  to: isoDateSchema.optional(),
+}).refine(
+  (query) => !query.from || !query.to || query.from <= query.to,
+  { message: 'from must be on or before to', path: ['from'] }
+);
+
+export const rebuildSearchIndexSchema = z.object({
+  cursor: z.string().optional(),
+});
+
+// Corrections log schemas
+export const correctionsQuerySchema = paginationSchema.extend({
+  month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/).optional(),
+});
+
+export const rebuildCorrectionsLogSchema = z.object({
+  cursor: z.string().optional(),
+});
+
+// Right-of-reply schemas
+export const createReplySchema = z.object({
+  entityId: idSchema,
+  submitterName: z.string().trim().min(1).max(200),
+  submitterEmail: z.string().email().max(320),
+  submitterTitle: z.string().trim().max(200).optional(),
+  body: z.string().trim().min(1).max(10000),
+  attachments: z.array(z.object({
+    title: z.string().trim().min(1).max(1000),
+    // Rendered as a link on the public card page, so only web URLs
+    url: z.string().url().max(2000).refine((url) => ['http:', 'https:'].includes(new URL(url).protocol), {
+      message: 'Attachment URL must use http or https',
+    }),
+    publisher: z.string().trim().min(1).max(500).optional(),
+  })).max(5).optional().default([]),
+});
+
+export const replyQuerySchema = paginationSchema.extend({
+  status: z.nativeEnum(ReplyStatus).optional().default('PENDING'),
+});
+
+export const moderateReplySchema = z.object({
+  note: z.string().max(2000).optional(),
+});
+
+export const rejectReplySchema = z.object({
+  reason: z.string().trim().min(1).max(2000),
+});
+
+// Source change alert schemas
+export const sourceAlertQuerySchema = paginationSchema.extend({
+  status: z.nativeEnum(SourceAlertStatus).optional().default('OPEN'),
+});
+
+export const acknowledgeSourceAlertSchema = z.object({
+  note: z.string().trim().max(2000).optional(),
+});
+
+// Review thread schemas
+const reviewCommentBodySchema = z.string().trim().min(1).max(5000);
+
+export const createReviewThreadSchema = z.object({
+  body: reviewCommentBodySchema,
+  anchor: z
+    .object({
+      field: z.string().regex(/^[A-Za-z][A-Za-z0-9.]{0,63}$/).optional(),
+      sourceId: z.string().min(1).max(100).optional(),
+    })
+    .refine((anchor) => anchor.field || anchor.sourceId, 'Anchor needs a field or sourceId')
+    .optional(),
+});
+
+export const addReviewCommentSchema = z.object({
+  body: reviewCommentBodySchema,
+});
+
+export const reviewMentionsQuerySchema = paginationSchema.extend({
+  handle: z.string().regex(/^[A-Za-z0-9_][A-Za-z0-9_.-]{0,63}$/),
+});
+
 // Export types
 export type CreateEntityInput = z.infer<typeof createEntitySchema>;
 export type UpdateEntityInput = z.infer<typeof updateEntitySchema>;
@@ -273,6 +501,8 @@ export type CreateCardInput = z.infer<typeof createCardSchema>;
 export type UpdateCardInput = z.infer<typeof updateCardSchema>;
 export type DisputeCardInput = z.infer<typeof disputeCardSchema>;
 export type CorrectCardInput = z.infer<typeof correctCardSchema>;
+export type ApproveCardInput = z.infer<typeof approveCardSchema>;
+export type SchedulePublishInput = z.infer<typeof schedulePublishSchema>;
 export type RetractCardInput = z.infer<typeof retractCardSchema>;
 export type CardQueryInput = z.infer<typeof cardQuerySchema>;
 export type EntityQueryInput = z.infer<typeof entityQuerySchema>;
@@ -280,6 +510,9 @@ export type EntityCardsQueryInput = z.infer<typeof entityCardsQuerySchema>;
 export type AuditQueryInput = z.infer<typeof auditQuerySchema>;
 export type IntakeQueryInput = z.infer<typeof intakeQuerySchema>;
 export type IntakePromoteInput = z.infer<typeof intakePromoteSchema>;
+export type CreateIntakeFeedInput = z.infer<typeof createIntakeFeedSchema>;
+export type UpdateIntakeFeedInput = z.infer<typeof updateIntakeFeedSchema>;
+export type UpdateIntakeRailsInput = z.infer<typeof updateIntakeRailsSchema>;
 export type CreateRelationshipInput = z.infer<typeof createRelationshipSchema>;
 export type UpdateRelationshipInput = z.infer<typeof updateRelationshipSchema>;
 export type RetractRelationshipInput = z.infer<typeof retractRelationshipSchema>;
@@ -291,3 +524,13 @@ export type SourceReferenceInput = z.infer<typeof sourceReferenceSchema>;
 export type MonetaryAmountInput = z.infer<typeof monetaryAmountSchema>;
 export type AffectedCountInput = z.infer<typeof affectedCountSchema>;
 export type EntitySearchInput = z.infer<typeof entitySearchSchema>;
+export type CreateScoringWeightsInput = z.infer<typeof createScoringWeightsSchema>;
+export type TagQueryInput = z.infer<typeof tagQuerySchema>;
+export type TagCardsQueryInput = z.infer<typeof tagCardsQuerySchema>;
+export type SearchQueryInput = z.infer<typeof searchQuerySchema>;
+export type CorrectionsQueryInput = z.infer<typeof correctionsQuerySchema>;
+export type CreateReplyInput = z.infer<typeof createReplySchema>;
+export type ReplyQueryInput = z.infer<typeof replyQuerySchema>;
+export type SourceAlertQueryInput = z.infer<typeof sourceAlertQuerySchema>;
+export type CreateReviewThreadInput = z.infer<typeof createReviewThreadSchema>;
+export type ReviewMentionsQueryInput = z.infer<typeof reviewMentionsQuerySchema>;
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { generateKeyPairSync, sign, constants } from 'crypto';
+import {
+  publicKeyDerToPem,
+  sha256Hex,
+  verifyManifestSignature,
+  verifySourceFile,
+} from './verification.js';
+
+// Stands in for the KMS key: same algorithm, generated locally
+const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const publicKeyPem = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+
+function kmsSign(data: Buffer): string {
+  return sign('sha256', data, {
+    key: privateKey,
+    padding: constants.RSA_PKCS1_PSS_PADDING,
+    saltLength: 32,
+  }).toString('base64');
+}
+
+const file = Buffer.from('%PDF-1.7 settlement agreement');
+const manifestBytes = Buffer.from(
+  JSON.stringify({
+    sourceId: 'source-1',
+    s3Key: `sources/source-1/${sha256Hex(file)}.pdf`,
+    sha256: sha256Hex(file),
+    byteLength: file.length,
+    mimeType: 'application/pdf',
+    retrievedAt: '2024-01-15T00:00:00.000Z',
+    publisher: 'Department of Labor',
+    url: 'https://dol.gov/settlement.pdf',
+    verifiedAt: '2024-01-16T00:00:00.000Z',
+    verificationAlgorithm: 'RSASSA_PSS_SHA_256',
+    verificationKeyId: 'alias/ledger-signing',
+  })
+);
+const signature = kmsSign(manifestBytes);
+
+describe('verification', () => {
+  it('converts KMS DER public keys to PEM', () => {
+    const der = publicKey.export({ type: 'spki', format: 'der' });
+
+    expect(publicKeyDerToPem(der)).toBe(publicKeyPem);
+  });
+
+  it('accepts a signature over the exact manifest bytes', () => {
+    expect(verifyManifestSignature(manifestBytes, signature, publicKeyPem)).toBe(true);
+  });
+
+  it('rejects a manifest that was re-serialized', () => {
+    const reformatted = Buffer.from(JSON.stringify(JSON.parse(manifestBytes.toString()), null, 2));
+
+    expect(verifyManifestSignature(reformatted, signature, publicKeyPem)).toBe(false);
+  });
+
+  it('passes every check for an untouched file', () => {
+    const result = verifySourceFile({ file, manifestBytes, signature, publicKey: publicKeyPem });
+
+    expect(result.valid).toBe(true);
+    expect(result.checks.map((check) => check.name)).toEqual([
+      'signature',
+      'algorithm',
+      'sha256',
+      'byteLength',
+    ]);
+  });
+
+  it('reports a tampered file even when the signature is valid', () => {
+    const result = verifySourceFile({
+      file: Buffer.from('%PDF-1.7 settlement agreemenT'),
+      manifestBytes,
+      signature,
+      publicKey: publicKeyPem,
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.checks.filter((check) => !check.ok).map((check) => check.name)).toEqual(['sha256']);
+  });
+
+  it('fails the signature check for a different key', () => {
+    const other = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+    const result = verifySourceFile({
+      file,
+      manifestBytes,
+      signature,
+      publicKey: other.publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+    });
+
+    expect(result.checks[0]).toMatchObject({ name: 'signature', ok: false });
+  });
+});
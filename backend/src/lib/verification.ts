@@ -0,0 +1,117 @@
+import { createHash, createPublicKey, verify, constants } from 'crypto';
+import type { VerificationManifest } from '@ledger/shared';
+
+// Offline checks for signed source manifests. Nothing here talks to AWS, so
+// the same code backs the public-key endpoint and the ledger-verify CLI.
+
+export const MANIFEST_SIGNING_ALGORITHM = 'RSASSA_PSS_SHA_256';
+
+// KMS RSASSA_PSS_SHA_256 uses MGF1 with SHA-256 and a salt as long as the digest
+const PSS_SALT_LENGTH = 32;
+
+export interface VerificationCheck {
+  name: string;
+  ok: boolean;
+  detail: string;
+}
+
+export interface SourceVerificationResult {
+  valid: boolean;
+  checks: VerificationCheck[];
+  manifest?: VerificationManifest;
+}
+
+export interface VerifySourceFileInput {
+  file: Buffer;
+  manifestBytes: Buffer;    // manifest exactly as downloaded; the signature covers these bytes
+  signature: string;        // base64
+  publicKey: string;        // PEM (SPKI)
+}
+
+/** Wrap a DER SubjectPublicKeyInfo, as returned by KMS GetPublicKey, in PEM armour */
+export function publicKeyDerToPem(der: Buffer): string {
+  const lines = der.toString('base64').match(/.{1,64}/g) ?? [];
+  return ['-----BEGIN PUBLIC KEY-----', ...lines, '-----END PUBLIC KEY-----', ''].join('\n');
+}
+
+export function sha256Hex(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+export function verifyManifestSignature(
+  manifestBytes: Buffer,
+  signature: string,
+  publicKey: string
+): boolean {
+  return verify(
+    'sha256',
+    manifestBytes,
+    {
+      key: createPublicKey(publicKey),
+      padding: constants.RSA_PKCS1_PSS_PADDING,
+      saltLength: PSS_SALT_LENGTH,
+    },
+    Buffer.from(signature, 'base64')
+  );
+}
+
+/**
+ * Check a downloaded source file against its manifest and the manifest
+ * against its signature. Every check runs so the report shows all failures.
+ */
+export function verifySourceFile(input: VerifySourceFileInput): SourceVerificationResult {
+  const checks: VerificationCheck[] = [];
+
+  let manifest: VerificationManifest;
+  try {
+    manifest = JSON.parse(input.manifestBytes.toString('utf8')) as VerificationManifest;
+  } catch {
+    return {
+      valid: false,
+      checks: [{ name: 'manifest', ok: false, detail: 'Manifest is not valid JSON' }],
+    };
+  }
+
+  let signatureOk = false;
+  let signatureDetail: string;
+  try {
+    signatureOk = verifyManifestSignature(input.manifestBytes, input.signature, input.publicKey);
+    signatureDetail = signatureOk
+      ? 'Manifest signature is valid for the given public key'
+      : 'Manifest signature does not match the given public key';
+  } catch (error) {
+    signatureDetail = `Could not check signature: ${error instanceof Error ? error.message : String(error)}`;
+  }
+  checks.push({ name: 'signature', ok: signatureOk, detail: signatureDetail });
+
+  checks.push({
+    name: 'algorithm',
+    ok: manifest.verificationAlgorithm === MANIFEST_SIGNING_ALGORITHM,
+    detail: `Manifest declares ${manifest.verificationAlgorithm ?? 'no algorithm'}`,
+  });
+
+  const actualHash = sha256Hex(input.file);
+  checks.push({
+    name: 'sha256',
+    ok: actualHash === manifest.sha256,
+    detail:
+      actualHash === manifest.sha256
+        ? `File SHA-256 matches manifest (${actualHash})`
+        : `File SHA-256 ${actualHash} does not match manifest ${manifest.sha256}`,
+  });
+
+  checks.push({
+    name: 'byteLength',
+    ok: input.file.length === manifest.byteLength,
+    detail:
+      input.file.length === manifest.byteLength
+        ? `File size matches manifest (${input.file.length} bytes)`
+        : `File is ${input.file.length} bytes, manifest says ${manifest.byteLength}`,
+  });
+
+  return {
+    valid: checks.every((check) => check.ok),
+    checks,
+    manifest,
+  };
+}
@@ -0,0 +1,308 @@
+// A small, forgiving XML reader for syndication feeds. It builds an element
+// tree with namespaces resolved, and copes with what real publishers send:
+// HTML entities, stray ampersands, undeclared prefixes and unbalanced tags.
+// It doesn't validate, and ignores DTDs beyond skipping them. An HTML mode
+// reads listing pages from publishers that have no feed into the same tree.
+
+export interface XmlElement {
+  name: string;                      // as written, e.g. "dc:date"
+  local: string;                     // without prefix, e.g. "date"
+  ns?: string;                       // resolved namespace URI, if declared
+  attrs: Record<string, string>;     // keyed by name as written
+  children: XmlNode[];
+  parent?: XmlElement;
+}
+
+export type XmlNode = XmlElement | string;
+
+export const XML_NAMESPACES = {
+  atom: 'http://www.w3.org/2005/Atom',
+  rss1: 'http://purl.org/rss/1.0/',
+  rdf: 'http://www.w3.org/1999/02/22-rdf-syntax-ns#',
+  dc: 'http://purl.org/dc/elements/1.1/',
+  dcterms: 'http://purl.org/dc/terms/',
+  content: 'http://purl.org/rss/1.0/modules/content/',
+  xml: 'http://www.w3.org/XML/1998/namespace',
+} as const;
+
+// Feeds routinely carry HTML entities that XML doesn't define
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',          // plain space, as titles and summaries want it
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  hellip: '…',
+  mdash: '—',
+  ndash: '–',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  laquo: '«',
+  raquo: '»',
+  bull: '•',
+  middot: '·',
+  sect: '§',
+  para: '¶',
+};
+
+/** Decode character and entity references; unknown ones are left as written */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-zA-Z][a-zA-Z0-9]*);/g, (match, ref: string) => {
+    if (ref[0] === '#') {
+      const codePoint = ref[1] === 'x' || ref[1] === 'X' ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10);
+      return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : match;
+    }
+    return NAMED_ENTITIES[ref] ?? NAMED_ENTITIES[ref.toLowerCase()] ?? match;
+  });
+}
+
+function splitName(name: string): { prefix?: string; local: string } {
+  const colon = name.indexOf(':');
+  return colon === -1 ? { local: name } : { prefix: name.slice(0, colon), local: name.slice(colon + 1) };
+}
+
+function lookupNamespace(element: XmlElement | undefined, prefix: string | undefined): string | undefined {
+  if (prefix === 'xml') {
+    return XML_NAMESPACES.xml;
+  }
+  const attr = prefix ? `xmlns:${prefix}` : 'xmlns';
+  for (let el = element; el; el = el.parent) {
+    if (attr in el.attrs) {
+      return el.attrs[attr] || undefined;
+    }
+  }
+  return undefined;
+}
+
+const ATTR_REGEX = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of source.matchAll(ATTR_REGEX)) {
+    attrs[match[1]] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attrs;
+}
+
+// HTML elements that never have content, and those whose content is raw text
+const HTML_VOID = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+]);
+const HTML_RAW_TEXT = new Set(['script', 'style']);
+
+// HTML elements closed by a following sibling of the listed kinds when their
+// end tag is omitted; the search stops at the listed containers
+const HTML_IMPLIED_END: Record<string, string[]> = {
+  li: ['li'],
+  p: ['p'],
+  dt: ['dt', 'dd'],
+  dd: ['dt', 'dd'],
+  tr: ['tr', 'td', 'th'],
+  td: ['td', 'th'],
+  th: ['td', 'th'],
+  option: ['option'],
+};
+const HTML_SCOPE = new Set(['ul', 'ol', 'dl', 'table', 'tbody', 'thead', 'tfoot', 'select', 'div', 'body']);
+
+function parseMarkup(source: string, html: boolean): XmlElement {
+  const document: XmlElement = { name: '#document', local: '#document', attrs: {}, children: [] };
+  let current = document;
+  let pos = 0;
+
+  function appendText(text: string): void {
+    if (text) {
+      current.children.push(text);
+    }
+  }
+
+  // A new <tr> closes an open cell and then the open row, so keep looking
+  // after each close
+  function closeImplied(name: string): void {
+    const closes = HTML_IMPLIED_END[name];
+    let el: XmlElement | undefined = current;
+    while (closes && el && el !== document && !HTML_SCOPE.has(el.name)) {
+      if (closes.includes(el.name)) {
+        current = el.parent ?? document;
+      }
+      el = el.parent;
+    }
+  }
+
+  while (pos < source.length) {
+    const lt = source.indexOf('<', pos);
+    if (lt === -1) {
+      appendText(decodeEntities(source.slice(pos)));
+      break;
+    }
+    appendText(decodeEntities(source.slice(pos, lt)));
+
+    if (source.startsWith('<!--', lt)) {
+      const end = source.indexOf('-->', lt + 4);
+      pos = end === -1 ? source.length : end + 3;
+    } else if (source.startsWith('<![CDATA[', lt)) {
+      const end = source.indexOf(']]>', lt + 9);
+      appendText(source.slice(lt + 9, end === -1 ? source.length : end));
+      pos = end === -1 ? source.length : end + 3;
+    } else if (source.startsWith('<?', lt)) {
+      const end = source.indexOf('?>', lt + 2);
+      pos = end === -1 ? source.length : end + 2;
+    } else if (source.startsWith('<!', lt)) {
+      // DOCTYPE, possibly with an internal subset in brackets
+      let depth = 0;
+      let i = lt + 2;
+      for (; i < source.length; i++) {
+        if (source[i] === '[') depth++;
+        else if (source[i] === ']') depth--;
+        else if (source[i] === '>' && depth <= 0) break;
+      }
+      pos = i + 1;
+    } else if (source[lt + 1] === '/') {
+      const end = source.indexOf('>', lt);
+      let name = source.slice(lt + 2, end === -1 ? source.length : end).trim();
+      if (html) {
+        name = name.toLowerCase();
+      }
+      pos = end === -1 ? source.length : end + 1;
+      // Close back to the matching element; a stray end tag is ignored
+      for (let el: XmlElement | undefined = current; el && el !== document; el = el.parent) {
+        if (el.name === name) {
+          current = el.parent ?? document;
+          break;
+        }
+      }
+    } else if (/[A-Za-z_:]/.test(source[lt + 1] ?? '')) {
+      // Find the end of the tag, skipping '>' inside quoted attribute values
+      let i = lt + 1;
+      let quote: string | null = null;
+      for (; i < source.length; i++) {
+        const ch = source[i];
+        if (quote) {
+          if (ch === quote) quote = null;
+        } else if (ch === '"' || ch === "'") {
+          quote = ch;
+        } else if (ch === '>') {
+          break;
+        }
+      }
+      let body = source.slice(lt + 1, i);
+      pos = i + 1;
+
+      let selfClosing = body.endsWith('/');
+      if (selfClosing) {
+        body = body.slice(0, -1);
+      }
+      const nameEnd = body.search(/[\s]/);
+      let name = nameEnd === -1 ? body : body.slice(0, nameEnd);
+      let attrs = nameEnd === -1 ? {} : parseAttributes(body.slice(nameEnd));
+      if (html) {
+        name = name.toLowerCase();
+        attrs = Object.fromEntries(Object.entries(attrs).map(([k, v]) => [k.toLowerCase(), v]));
+        selfClosing ||= HTML_VOID.has(name);
+        closeImplied(name);
+      }
+      const element: XmlElement = {
+        name,
+        local: splitName(name).local,
+        attrs,
+        children: [],
+        parent: current,
+      };
+      element.ns = lookupNamespace(element, splitName(name).prefix);
+      current.children.push(element);
+
+      if (html && HTML_RAW_TEXT.has(name) && !selfClosing) {
+        const close = source.toLowerCase().indexOf(`</${name}`, pos);
+        const end = close === -1 ? source.length : close;
+        if (end > pos) {
+          element.children.push(source.slice(pos, end));
+        }
+        const closeEnd = close === -1 ? -1 : source.indexOf('>', close);
+        pos = closeEnd === -1 ? source.length : closeEnd + 1;
+      } else if (!selfClosing) {
+        current = element;
+      }
+    } else {
+      // A bare '<' in text
+      appendText('<');
+      pos = lt + 1;
+    }
+  }
+
+  return document;
+}
+
+/**
+ * Parse a document into its root element. Throws if there is no element at
+ * all; anything else malformed is tolerated as far as possible.
+ */
+export function parseXml(source: string): XmlElement {
+  const document = parseMarkup(source, false);
+  const root = document.children.find((node): node is XmlElement => typeof node !== 'string');
+  if (!root) {
+    throw new Error('Document contains no XML elements');
+  }
+  root.parent = undefined;
+  return root;
+}
+
+/**
+ * Parse an HTML page. Returns a document node holding the top-level
+ * elements; tag and attribute names are lower-cased, void elements and
+ * omitted end tags are handled, and script and style content is kept raw.
+ */
+export function parseHtml(source: string): XmlElement {
+  return parseMarkup(source, true);
+}
+
+function attributeNamespace(element: XmlElement, attrName: string): string | undefined {
+  const { prefix } = splitName(attrName);
+  // Unprefixed attributes are in no namespace
+  return prefix ? lookupNamespace(element, prefix) : undefined;
+}
+
+/** An attribute by local name and namespace (undefined for no namespace) */
+export function getAttribute(element: XmlElement, local: string, ns?: string): string | undefined {
+  for (const [name, value] of Object.entries(element.attrs)) {
+    if (splitName(name).local === local && attributeNamespace(element, name) === ns) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Child elements by local name. With `ns`, only those in that namespace;
+ * pass null to match only unprefixed elements in no namespace.
+ */
+export function childElements(element: XmlElement, local: string, ns?: string | null): XmlElement[] {
+  return element.children.filter(
+    (node): node is XmlElement =>
+      typeof node !== 'string' &&
+      node.local === local &&
+      (ns === undefined || (ns === null ? !node.ns && node.name === local : node.ns === ns))
+  );
+}
+
+export function childElement(element: XmlElement, local: string, ns?: string | null): XmlElement | undefined {
+  return childElements(element, local, ns)[0];
+}
+
+/** Concatenated text of an element and its descendants */
+export function textContent(element: XmlElement): string {
+  return element.children
+    .map((node) => (typeof node === 'string' ? node : textContent(node)))
+    .join('');
+}
+
+/** Trimmed text of the first matching child, or undefined if absent or empty */
+export function childText(element: XmlElement, local: string, ns?: string | null): string | undefined {
+  const child = childElement(element, local, ns);
+  const text = child ? textContent(child).trim() : '';
+  return text || undefined;
+}
@@ -0,0 +1,49 @@
+import type { EvidenceCard, IntakeItem } from '@ledger/shared';
+
+// Records shared by the service tests. Tests override the fields they
+// assert on rather than relying on these defaults.
+
+/** A published card with every required field set */
+export function makeCard(overrides: Partial<EvidenceCard> = {}): EvidenceCard {
+  return {
+    cardId: 'card-1',
+    title: 'Warehouse wage theft settlement',
+    claim: 'Acme underpaid warehouse workers',
+    summary: 'The Department of Labor recovered back wages.',
+    evidenceStrength: 'HIGH',
+    eventDate: '2024-01-15',
+    entityIds: ['entity-1'],
+    sourceRefs: ['source-1'],
+    category: 'labor',
+    tags: [],
+    status: 'PUBLISHED',
+    version: 2,
+    createdAt: '2024-01-15T00:00:00.000Z',
+    createdBy: 'user-1',
+    updatedAt: '2024-01-15T00:00:00.000Z',
+    updatedBy: 'user-1',
+    ...overrides,
+  };
+}
+
+/** A stored version of card-1; later versions have later update times */
+export function makeCardVersion(version: number, overrides: Partial<EvidenceCard> = {}): EvidenceCard {
+  return makeCard({ version, updatedAt: `2024-01-1${version}T00:00:00.000Z`, ...overrides });
+}
+
+/** A new, unreviewed item from the FTC press feed */
+export function makeIntakeItem(overrides: Partial<IntakeItem> = {}): IntakeItem {
+  return {
+    intakeId: 'intake-1',
+    feedId: 'ftc-press',
+    publishedAt: '2024-02-12T15:00:00.000Z',
+    title: 'FTC fines Acme Corp over deceptive billing',
+    canonicalUrl: 'https://www.ftc.gov/news/acme',
+    publisher: 'Federal Trade Commission',
+    summary: 'Acme Corp agreed to pay $5 million.',
+    status: 'NEW',
+    dedupeKey: 'dedupe-1',
+    ingestedAt: '2024-02-12T16:00:00.000Z',
+    ...overrides,
+  };
+}
@@ -7,6 +7,9 @@ import EntityPage from './pages/EntityPage';
 import CardPage from './pages/CardPage';
 import AboutPage from './pages/AboutPage';
 import CorrectionsPage from './pages/CorrectionsPage';
+import TagsPage from './pages/TagsPage';
+import TagPage from './pages/TagPage';
+import SearchPage from './pages/SearchPage';
 import TermsPage from './pages/TermsPage';
 import PrivacyPage from './pages/PrivacyPage';
 import NotFoundPage from './pages/NotFoundPage';
@@ -17,7 +20,9 @@ import AdminDashboardPage from './pages/admin/DashboardPage';
 import AdminCardEditPage from './pages/admin/CardEditPage';
 import AdminSourceNewPage from './pages/admin/SourceNewPage';
 import AdminReviewQueuePage from './pages/admin/ReviewQueuePage';
+import AdminRepliesPage from './pages/admin/RepliesPage';
 import AdminIntakeInboxPage from './pages/admin/IntakeInboxPage';
+import AdminFeedsPage from './pages/admin/FeedsPage';
 import AdminRelationshipsPage from './pages/admin/RelationshipsPage';
 import AdminEntityGraphPage from './pages/admin/EntityGraphPage';
 
@@ -31,6 +36,9 @@ function App() {
           <Route path="entities" element={<EntitiesPage />} />
           <Route path="entities/:entityId" element={<EntityPage />} />
           <Route path="cards/:cardId" element={<CardPage />} />
+          <Route path="tags" element={<TagsPage />} />
+          <Route path="tags/:tag" element={<TagPage />} />
+          <Route path="search" element={<SearchPage />} />
           <Route path="about" element={<AboutPage />} />
           <Route path="corrections" element={<CorrectionsPage />} />
           <Route path="terms" element={<TermsPage />} />
@@ -54,7 +62,9 @@ function App() {
           <Route path="cards/:cardId/edit" element={<AdminCardEditPage />} />
           <Route path="sources/new" element={<AdminSourceNewPage />} />
           <Route path="review-queue" element={<AdminReviewQueuePage />} />
+          <Route path="replies" element={<AdminRepliesPage />} />
           <Route path="intake" element={<AdminIntakeInboxPage />} />
+          <Route path="feeds" element={<AdminFeedsPage />} />
           <Route path="relationships" element={<AdminRelationshipsPage />} />
           <Route path="graph" element={<AdminEntityGraphPage />} />
         </Route>
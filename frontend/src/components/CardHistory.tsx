@@ -0,0 +1,277 @@
+import { useState, useEffect } from 'react';
+import type { CardVersionSummary, CardVersionDiff, CardFieldChange, MonetaryAmount } from '@ledger/shared';
+import { api } from '../lib/api';
+
+const fieldLabels: Record<string, string> = {
+  title: 'Title',
+  claim: 'Claim',
+  summary: 'Summary',
+  category: 'Category',
+  entityIds: 'Entities',
+  eventDate: 'Event date',
+  publishDate: 'Publish date',
+  jurisdiction: 'Jurisdiction',
+  sourceRefs: 'Sources',
+  sourceReferences: 'Source references',
+  evidenceStrength: 'Evidence strength',
+  status: 'Status',
+  counterpoint: 'Response / counterpoint',
+  tags: 'Tags',
+  scoreSignals: 'Score signals',
+  claimStance: 'Claim stance',
+  claimType: 'Claim type',
+  monetaryAmount: 'Monetary amount',
+  affectedCount: 'Affected count',
+  relatedCardIds: 'Related cards',
+};
+
+function formatMoney(amount: MonetaryAmount): string {
+  const value = (amount.value / 100).toLocaleString(undefined, {
+    style: 'currency',
+    currency: amount.currency,
+  });
+  return `${value} (${amount.type.toLowerCase()})`;
+}
+
+function formatValue(field: string, value: unknown): string {
+  if (value === undefined || value === null) {
+    return '—';
+  }
+  if (field === 'monetaryAmount') {
+    return formatMoney(value as MonetaryAmount);
+  }
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  return JSON.stringify(value, null, 2);
+}
+
+function ChangeRow({ change }: { change: CardFieldChange }) {
+  const label = fieldLabels[change.field] || change.field;
+
+  if (change.itemsAdded || change.itemsRemoved) {
+    return (
+      <div className="py-3">
+        <h4 className="text-sm font-medium text-gray-900 mb-1">{label}</h4>
+        <ul className="text-sm font-mono space-y-1">
+          {change.itemsRemoved?.map((item, i) => (
+            <li key={`removed-${i}`} className="bg-red-50 text-red-800 px-2 py-1 rounded whitespace-pre-wrap">
+              − {formatValue(change.field, item)}
+            </li>
+          ))}
+          {change.itemsAdded?.map((item, i) => (
+            <li key={`added-${i}`} className="bg-green-50 text-green-800 px-2 py-1 rounded whitespace-pre-wrap">
+              + {formatValue(change.field, item)}
+            </li>
+          ))}
+          {!change.itemsAdded?.length && !change.itemsRemoved?.length && (
+            <li className="text-gray-500">Reordered</li>
+          )}
+        </ul>
+      </div>
+    );
+  }
+
+  return (
+    <div className="py-3">
+      <h4 className="text-sm font-medium text-gray-900 mb-1">{label}</h4>
+      <div className="grid gap-2 md:grid-cols-2 text-sm">
+        <div className="bg-red-50 text-red-800 px-2 py-1 rounded whitespace-pre-wrap">
+          {change.change === 'added' ? <span className="text-gray-500">(none)</span> : formatValue(change.field, change.before)}
+        </div>
+        <div className="bg-green-50 text-green-800 px-2 py-1 rounded whitespace-pre-wrap">
+          {change.change === 'removed' ? <span className="text-gray-500">(none)</span> : formatValue(change.field, change.after)}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface CardHistoryProps {
+  cardId: string;
+  /** Use admin routes, which include draft and review versions */
+  admin?: boolean;
+}
+
+/**
+ * Version list for a card with a field-by-field comparison of any two versions.
+ * Defaults to comparing the latest version with the one before it.
+ */
+export default function CardHistory({ cardId, admin = false }: CardHistoryProps) {
+  const [versions, setVersions] = useState<CardVersionSummary[]>([]);
+  const [from, setFrom] = useState<number | null>(null);
+  const [to, setTo] = useState<number | null>(null);
+  const [diff, setDiff] = useState<CardVersionDiff | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingDiff, setLoadingDiff] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadVersions();
+  }, [cardId, admin]);
+
+  useEffect(() => {
+    if (from !== null && to !== null && from !== to) {
+      loadDiff(from, to);
+    } else {
+      setDiff(null);
+    }
+  }, [from, to]);
+
+  async function loadVersions() {
+    try {
+      setLoading(true);
+      setError(null);
+      const result = admin ? await api.getAdminCardVersions(cardId) : await api.getCardVersions(cardId);
+      setVersions(result.items);
+      const latest = result.items[result.items.length - 1];
+      const previous = result.items[result.items.length - 2];
+      setTo(latest?.version ?? null);
+      setFrom(previous?.version ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load versions');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function loadDiff(fromVersion: number, toVersion: number) {
+    try {
+      setLoadingDiff(true);
+      setError(null);
+      const result = admin
+        ? await api.getAdminCardDiff(cardId, fromVersion, toVersion)
+        : await api.getCardDiff(cardId, fromVersion, toVersion);
+      setDiff(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to compare versions');
+    } finally {
+      setLoadingDiff(false);
+    }
+  }
+
+  function compareWithPrevious(index: number) {
+    setFrom(versions[index - 1].version);
+    setTo(versions[index].version);
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  if (versions.length === 0) {
+    return <p className="text-gray-500">{error || 'No versions recorded.'}</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Versions */}
+      <div>
+        <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-3">
+          Versions ({versions.length})
+        </h3>
+        <ol className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+          {[...versions].reverse().map((version) => {
+            const index = versions.indexOf(version);
+            const selected = version.version === to && from === versions[index - 1]?.version;
+            return (
+              <li
+                key={version.version}
+                className={`flex items-start justify-between gap-4 p-3 ${selected ? 'bg-primary-50' : ''}`}
+              >
+                <div className="min-w-0">
+                  <p className="text-sm text-gray-900">
+                    <span className="font-medium">v{version.version}</span>
+                    <span className="text-gray-500">
+                      {' '}&middot; {version.status}
+                      {' '}&middot;{' '}
+                      <time dateTime={version.updatedAt}>
+                        {new Date(version.updatedAt).toLocaleString()}
+                      </time>
+                      {admin && <> &middot; {version.updatedBy}</>}
+                    </span>
+                  </p>
+                  {version.reason && (
+                    <p className="text-sm text-gray-700 mt-1 whitespace-pre-wrap">{version.reason}</p>
+                  )}
+                </div>
+                {index > 0 && (
+                  <button
+                    onClick={() => compareWithPrevious(index)}
+                    className="text-sm text-primary-600 hover:text-primary-800 whitespace-nowrap"
+                  >
+                    Compare with v{versions[index - 1].version}
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      </div>
+
+      {/* Comparison */}
+      {versions.length > 1 && (
+        <div>
+          <div className="flex flex-wrap items-center gap-2 mb-3">
+            <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mr-2">
+              Compare
+            </h3>
+            <select
+              value={from ?? ''}
+              onChange={(e) => setFrom(Number(e.target.value))}
+              className="input w-auto text-sm"
+              aria-label="From version"
+            >
+              {versions.map((version) => (
+                <option key={version.version} value={version.version}>
+                  v{version.version}
+                </option>
+              ))}
+            </select>
+            <span className="text-gray-500">→</span>
+            <select
+              value={to ?? ''}
+              onChange={(e) => setTo(Number(e.target.value))}
+              className="input w-auto text-sm"
+              aria-label="To version"
+            >
+              {versions.map((version) => (
+                <option key={version.version} value={version.version}>
+                  v{version.version}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-4">
+              <p className="text-red-800">{error}</p>
+            </div>
+          )}
+
+          {loadingDiff ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+            </div>
+          ) : from === to ? (
+            <p className="text-sm text-gray-500">Choose two different versions to compare.</p>
+          ) : diff && diff.changes.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              No content changes between v{diff.from.version} and v{diff.to.version}.
+            </p>
+          ) : diff ? (
+            <div className="divide-y divide-gray-200">
+              {diff.changes.map((change) => (
+                <ChangeRow key={change.field} change={change} />
+              ))}
+            </div>
+          ) : null}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -39,6 +39,11 @@ const categoryLabels: Record<string, string> = {
   other: 'Other',
 };
 
+/** Reason recorded with the most recent change into the given status */
+function latestReason(card: EvidenceCardType, status: CardStatus): string | undefined {
+  return card.statusHistory?.filter((change) => change.status === status).pop()?.reason;
+}
+
 export default function EvidenceCard({
   card,
   showEntities = true,
@@ -105,17 +110,16 @@ export default function EvidenceCard({
       <p className="text-gray-600 text-sm mb-4">{card.summary}</p>
 
       {/* Status banners */}
-      {isRetracted && card.counterpoint && (
+      {isRetracted && (
         <div className="bg-red-50 border border-red-200 rounded-md p-3 mb-4">
           <p className="text-sm text-red-800">
             <strong>Retraction Notice:</strong>{' '}
-            {card.counterpoint.split('[Retraction').pop()?.split(']:')[1]?.trim() ||
-              'This card has been retracted.'}
+            {latestReason(card, 'RETRACTED') || 'This card has been retracted.'}
           </p>
         </div>
       )}
 
-      {isDisputed && card.counterpoint && (
+      {isDisputed && (
         <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 mb-4">
           <p className="text-sm text-yellow-800">
             <strong>Disputed:</strong> This evidence is currently disputed.
@@ -123,7 +127,7 @@ export default function EvidenceCard({
         </div>
       )}
 
-      {isCorrected && card.counterpoint && (
+      {isCorrected && (
         <div className="bg-blue-50 border border-blue-200 rounded-md p-3 mb-4">
           <p className="text-sm text-blue-800">
             <strong>Correction:</strong> This card has been corrected. See
@@ -159,12 +163,13 @@ export default function EvidenceCard({
       {card.tags && card.tags.length > 0 && (
         <div className="flex flex-wrap gap-1 mt-3">
           {card.tags.map((tag) => (
-            <span
+            <Link
               key={tag}
-              className="text-xs px-2 py-0.5 bg-gray-100 text-gray-600 rounded"
+              to={`/tags/${encodeURIComponent(tag)}`}
+              className="text-xs px-2 py-0.5 bg-gray-100 text-gray-600 rounded hover:bg-gray-200 hover:text-gray-900"
             >
               {tag}
-            </span>
+            </Link>
           ))}
         </div>
       )}
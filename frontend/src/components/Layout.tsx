@@ -1,4 +1,6 @@
 import { Outlet, Link, useLocation } from 'react-router-dom';
+import { Permission } from '@ledger/shared';
+import { useAuth } from '../lib/AuthContext';
 
 interface LayoutProps {
   isAdmin?: boolean;
@@ -6,24 +8,31 @@ interface LayoutProps {
 
 export default function Layout({ isAdmin = false }: LayoutProps) {
   const location = useLocation();
+  const { can } = useAuth();
 
   const publicNavItems = [
     { path: '/', label: 'Feed' },
     { path: '/entities', label: 'Entities' },
+    { path: '/tags', label: 'Tags' },
+    { path: '/search', label: 'Search' },
     { path: '/about', label: 'About' },
     { path: '/corrections', label: 'Corrections' },
   ];
 
-  const adminNavItems = [
+  const adminNavItems: Array<{ path: string; label: string; permission?: Permission }> = [
     { path: '/admin/dashboard', label: 'Dashboard' },
     { path: '/admin/intake', label: 'Intake Inbox' },
-    { path: '/admin/cards/new', label: 'New Card' },
-    { path: '/admin/sources/new', label: 'New Source' },
+    { path: '/admin/feeds', label: 'Feeds' },
+    { path: '/admin/cards/new', label: 'New Card', permission: Permission.CARD_CREATE },
+    { path: '/admin/sources/new', label: 'New Source', permission: Permission.SOURCE_CREATE },
     { path: '/admin/review-queue', label: 'Review Queue' },
+    { path: '/admin/replies', label: 'Replies', permission: Permission.REPLY_MODERATE },
     { path: '/admin/graph', label: 'Entity Graph' },
   ];
 
-  const navItems = isAdmin ? adminNavItems : publicNavItems;
+  const navItems = isAdmin
+    ? adminNavItems.filter((item) => !item.permission || can(item.permission))
+    : publicNavItems;
 
   return (
     <div className="min-h-screen flex flex-col">
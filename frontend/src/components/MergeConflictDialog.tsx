@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import type { VersionConflictDetails } from '@ledger/shared';
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || (Array.isArray(value) && value.length === 0)) {
+    return '(none)';
+  }
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  return JSON.stringify(value, null, 2);
+}
+
+interface MergeConflictDialogProps {
+  conflict: VersionConflictDetails;
+  /** Display names for fields, keyed by field name */
+  labels?: Record<string, string>;
+  saving?: boolean;
+  /** Save the edit again, taking the listed fields from the server's version */
+  onMerge: (theirs: string[]) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Shown when a save is rejected because someone else saved first. Lists each
+ * field where the stored version and this edit disagree and lets the editor
+ * keep either value before saving again on top of the current version.
+ */
+export default function MergeConflictDialog({
+  conflict,
+  labels = {},
+  saving = false,
+  onMerge,
+  onCancel,
+}: MergeConflictDialogProps) {
+  const [theirs, setTheirs] = useState<Set<string>>(new Set());
+
+  function choose(field: string, useTheirs: boolean) {
+    setTheirs((prev) => {
+      const next = new Set(prev);
+      if (useTheirs) {
+        next.add(field);
+      } else {
+        next.delete(field);
+      }
+      return next;
+    });
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <h2 className="text-xl font-bold text-gray-900 mb-2">Someone else saved first</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            This record is now at version {conflict.currentVersion}. Choose which value to keep
+            for each field that differs, then save again.
+          </p>
+
+          {conflict.changes.length === 0 ? (
+            <p className="text-sm text-gray-600">
+              Your edit doesn&apos;t change anything the other save touched.
+            </p>
+          ) : (
+            <div className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+              {conflict.changes.map((change) => (
+                <fieldset key={change.field} className="p-3">
+                  <legend className="text-sm font-medium text-gray-900 mb-2">
+                    {labels[change.field] || change.field}
+                  </legend>
+                  <div className="grid gap-2 md:grid-cols-2 text-sm">
+                    <label
+                      className={`block border rounded p-2 cursor-pointer ${
+                        theirs.has(change.field) ? 'border-primary-500 bg-primary-50' : 'border-gray-200'
+                      }`}
+                    >
+                      <span className="flex items-center gap-2 mb-1 text-xs font-medium text-gray-500">
+                        <input
+                          type="radio"
+                          name={`merge-${change.field}`}
+                          checked={theirs.has(change.field)}
+                          onChange={() => choose(change.field, true)}
+                        />
+                        Saved (v{conflict.currentVersion})
+                      </span>
+                      <span className="block whitespace-pre-wrap text-gray-800">
+                        {formatValue(change.before)}
+                      </span>
+                    </label>
+                    <label
+                      className={`block border rounded p-2 cursor-pointer ${
+                        !theirs.has(change.field) ? 'border-primary-500 bg-primary-50' : 'border-gray-200'
+                      }`}
+                    >
+                      <span className="flex items-center gap-2 mb-1 text-xs font-medium text-gray-500">
+                        <input
+                          type="radio"
+                          name={`merge-${change.field}`}
+                          checked={!theirs.has(change.field)}
+                          onChange={() => choose(change.field, false)}
+                        />
+                        Yours
+                      </span>
+                      <span className="block whitespace-pre-wrap text-gray-800">
+                        {formatValue(change.after)}
+                      </span>
+                    </label>
+                  </div>
+                </fieldset>
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3 mt-6">
+            <button onClick={onCancel} disabled={saving} className="btn-secondary">
+              Cancel
+            </button>
+            <button onClick={() => onMerge([...theirs])} disabled={saving} className="btn-primary">
+              {saving ? 'Saving...' : 'Save merged version'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
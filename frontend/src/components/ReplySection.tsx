@@ -0,0 +1,262 @@
+import { useState, useEffect } from 'react';
+import type { PublicReply, ReplyAttachmentRequest } from '@ledger/shared';
+import { api } from '../lib/api';
+import { isWebUrl } from '../lib/urls';
+import { useToast } from './Toast';
+
+const MAX_ATTACHMENTS = 5;
+
+interface ReplySectionProps {
+  cardId: string;
+  entities: Array<{ entityId: string; name: string }>;
+}
+
+/**
+ * Right-of-reply section for a card: published replies from named entities
+ * plus the submission form. Replies are shown separately from editorial notes.
+ */
+export default function ReplySection({ cardId, entities }: ReplySectionProps) {
+  const [replies, setReplies] = useState<PublicReply[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [entityId, setEntityId] = useState(entities[0]?.entityId || '');
+  const [submitterName, setSubmitterName] = useState('');
+  const [submitterTitle, setSubmitterTitle] = useState('');
+  const [submitterEmail, setSubmitterEmail] = useState('');
+  const [body, setBody] = useState('');
+  const [attachments, setAttachments] = useState<ReplyAttachmentRequest[]>([]);
+  const { showError } = useToast();
+
+  useEffect(() => {
+    api
+      .listCardReplies(cardId)
+      .then((result) => setReplies(result.items))
+      .catch(() => setReplies([]));
+  }, [cardId]);
+
+  function updateAttachment(index: number, field: 'title' | 'url', value: string) {
+    setAttachments((prev) =>
+      prev.map((attachment, i) => (i === index ? { ...attachment, [field]: value } : attachment))
+    );
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    try {
+      setSubmitting(true);
+      await api.submitReply(cardId, {
+        entityId,
+        submitterName,
+        submitterEmail,
+        submitterTitle: submitterTitle || undefined,
+        body,
+        attachments: attachments.filter((a) => a.title && a.url),
+      });
+      setSubmitted(true);
+      setShowForm(false);
+    } catch (err) {
+      showError(err);
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  if (entities.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-6">
+      <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-2">
+        Right of Reply
+      </h2>
+
+      {replies.length > 0 ? (
+        <div className="space-y-3 mb-3">
+          {replies.map((reply) => (
+            <div key={reply.replyId} className="bg-white border border-gray-200 rounded-md p-4">
+              <p className="text-sm text-gray-500 mb-2">
+                <span className="font-medium text-gray-900">{reply.entityName}</span>
+                {' '}&middot; {reply.submitterName}
+                {reply.submitterTitle && `, ${reply.submitterTitle}`}
+                {' '}&middot;{' '}
+                <time dateTime={reply.publishedAt}>
+                  {new Date(reply.publishedAt).toLocaleDateString()}
+                </time>
+              </p>
+              <p className="text-gray-700 whitespace-pre-wrap">{reply.body}</p>
+              {reply.attachments.length > 0 && (
+                <ul className="mt-2 space-y-1 text-sm">
+                  {reply.attachments.map((attachment) => (
+                    <li key={attachment.sourceId}>
+                      {isWebUrl(attachment.url) ? (
+                        <a
+                          href={attachment.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-primary-600 hover:text-primary-800"
+                        >
+                          {attachment.title}
+                        </a>
+                      ) : (
+                        <span className="text-gray-700">{attachment.title}</span>
+                      )}
+                      <span className="text-gray-500"> &middot; {attachment.publisher}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 mb-3">
+          No response has been published from the entities named on this card.
+        </p>
+      )}
+
+      {submitted && (
+        <p className="text-sm text-green-700 mb-3">
+          Thank you. Your reply has been received and will be reviewed before it is published.
+        </p>
+      )}
+
+      {!showForm && !submitted && (
+        <button onClick={() => setShowForm(true)} className="btn-secondary text-sm">
+          Submit a reply on behalf of a named entity
+        </button>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="bg-gray-50 border border-gray-200 rounded-md p-4 space-y-4">
+          <div>
+            <label htmlFor="reply-entity" className="label">
+              Responding on behalf of
+            </label>
+            <select
+              id="reply-entity"
+              value={entityId}
+              onChange={(e) => setEntityId(e.target.value)}
+              className="input"
+            >
+              {entities.map((entity) => (
+                <option key={entity.entityId} value={entity.entityId}>
+                  {entity.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="reply-name" className="label">
+                Your name
+              </label>
+              <input
+                id="reply-name"
+                type="text"
+                required
+                value={submitterName}
+                onChange={(e) => setSubmitterName(e.target.value)}
+                className="input"
+              />
+            </div>
+            <div>
+              <label htmlFor="reply-title" className="label">
+                Title / role (optional)
+              </label>
+              <input
+                id="reply-title"
+                type="text"
+                value={submitterTitle}
+                onChange={(e) => setSubmitterTitle(e.target.value)}
+                className="input"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="reply-email" className="label">
+              Contact email (not published)
+            </label>
+            <input
+              id="reply-email"
+              type="email"
+              required
+              value={submitterEmail}
+              onChange={(e) => setSubmitterEmail(e.target.value)}
+              className="input"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="reply-body" className="label">
+              Response
+            </label>
+            <textarea
+              id="reply-body"
+              required
+              rows={6}
+              maxLength={10000}
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              className="input"
+            />
+          </div>
+
+          <div>
+            <span className="label">Supporting documents (links)</span>
+            <div className="space-y-2">
+              {attachments.map((attachment, index) => (
+                <div key={index} className="flex gap-2">
+                  <input
+                    type="text"
+                    aria-label={`Document ${index + 1} title`}
+                    placeholder="Title"
+                    value={attachment.title}
+                    onChange={(e) => updateAttachment(index, 'title', e.target.value)}
+                    className="input flex-1"
+                  />
+                  <input
+                    type="url"
+                    aria-label={`Document ${index + 1} URL`}
+                    placeholder="https://..."
+                    value={attachment.url}
+                    onChange={(e) => updateAttachment(index, 'url', e.target.value)}
+                    className="input flex-1"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setAttachments((prev) => prev.filter((_, i) => i !== index))}
+                    className="btn-secondary text-sm"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+            </div>
+            {attachments.length < MAX_ATTACHMENTS && (
+              <button
+                type="button"
+                onClick={() => setAttachments((prev) => [...prev, { title: '', url: '' }])}
+                className="mt-2 text-sm text-primary-600 hover:text-primary-800"
+              >
+                + Add link
+              </button>
+            )}
+          </div>
+
+          <div className="flex gap-2">
+            <button type="submit" disabled={submitting} className="btn-primary">
+              {submitting ? 'Submitting...' : 'Submit reply'}
+            </button>
+            <button type="button" onClick={() => setShowForm(false)} className="btn-secondary">
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
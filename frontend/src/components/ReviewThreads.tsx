@@ -0,0 +1,267 @@
+import { useState, useEffect } from 'react';
+import type { ReviewAnchor, ReviewTargetType, ReviewThread } from '@ledger/shared';
+import { Permission } from '@ledger/shared';
+import { api } from '../lib/api';
+import { useAuth } from '../lib/AuthContext';
+import { useToast } from './Toast';
+
+// Same handle rule as the backend, so highlighted mentions are the ones that notify
+const MENTION_PATTERN = /((?<![\w@])@[A-Za-z0-9_](?:[A-Za-z0-9_.-]*[A-Za-z0-9_])?)/g;
+
+function CommentBody({ body }: { body: string }) {
+  return (
+    <p className="text-sm text-gray-800 whitespace-pre-wrap">
+      {body.split(MENTION_PATTERN).map((part, i) =>
+        i % 2 === 1 ? (
+          <span key={i} className="font-medium text-primary-700">
+            {part}
+          </span>
+        ) : (
+          part
+        )
+      )}
+    </p>
+  );
+}
+
+interface ReviewThreadsProps {
+  targetType: ReviewTargetType;
+  targetId: string;
+  /** Fields a thread can be anchored to, keyed by field name */
+  fields?: Record<string, string>;
+  /** Source IDs the target cites, for source-anchored threads */
+  sourceIds?: string[];
+  /** Whether the target still accepts new threads (draft or in review) */
+  open?: boolean;
+}
+
+/**
+ * Reviewer discussion on a draft card or relationship. Unresolved threads
+ * block publishing, so each thread can be resolved and reopened here.
+ */
+export default function ReviewThreads({
+  targetType,
+  targetId,
+  fields = {},
+  sourceIds = [],
+  open = true,
+}: ReviewThreadsProps) {
+  const { can } = useAuth();
+  const { showError } = useToast();
+  const canComment = can(Permission.REVIEW_COMMENT);
+
+  const [threads, setThreads] = useState<ReviewThread[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [replies, setReplies] = useState<Record<string, string>>({});
+  const [showResolved, setShowResolved] = useState(false);
+
+  const [body, setBody] = useState('');
+  const [anchor, setAnchor] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    loadThreads();
+  }, [targetType, targetId]);
+
+  async function loadThreads() {
+    try {
+      setLoading(true);
+      const result = await api.listReviewThreads(targetType, targetId);
+      setThreads(result.items);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to load review threads');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function replaceThread(updated: ReviewThread) {
+    setThreads((prev) => prev.map((t) => (t.threadId === updated.threadId ? updated : t)));
+  }
+
+  async function handleCreate(e: React.FormEvent) {
+    e.preventDefault();
+    if (!body.trim()) return;
+
+    const [kind, value] = anchor.split(':');
+    const threadAnchor: ReviewAnchor | undefined =
+      kind === 'field' ? { field: value } : kind === 'source' ? { sourceId: value } : undefined;
+
+    try {
+      setCreating(true);
+      const thread = await api.createReviewThread(targetType, targetId, {
+        body: body.trim(),
+        anchor: threadAnchor,
+      });
+      setThreads((prev) => [...prev, thread]);
+      setBody('');
+      setAnchor('');
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to start thread');
+    } finally {
+      setCreating(false);
+    }
+  }
+
+  async function handleReply(threadId: string) {
+    const reply = replies[threadId]?.trim();
+    if (!reply) return;
+
+    try {
+      setBusyId(threadId);
+      replaceThread(await api.addReviewComment(threadId, reply));
+      setReplies((prev) => ({ ...prev, [threadId]: '' }));
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to post reply');
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function handleToggle(thread: ReviewThread) {
+    try {
+      setBusyId(thread.threadId);
+      replaceThread(
+        thread.status === 'OPEN'
+          ? await api.resolveReviewThread(thread.threadId)
+          : await api.unresolveReviewThread(thread.threadId)
+      );
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to update thread');
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  function anchorLabel(threadAnchor?: ReviewAnchor): string {
+    if (threadAnchor?.field) return fields[threadAnchor.field] || threadAnchor.field;
+    if (threadAnchor?.sourceId) return `Source ${threadAnchor.sourceId}`;
+    return 'General';
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  const openCount = threads.filter((t) => t.status === 'OPEN').length;
+  const visible = showResolved ? threads : threads.filter((t) => t.status === 'OPEN');
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600">
+          {openCount === 0
+            ? 'No unresolved threads.'
+            : `${openCount} unresolved thread${openCount === 1 ? '' : 's'} — resolve before publishing.`}
+        </p>
+        {threads.length > openCount && (
+          <button
+            onClick={() => setShowResolved(!showResolved)}
+            className="text-sm text-primary-600 hover:text-primary-800"
+          >
+            {showResolved ? 'Hide' : 'Show'} resolved ({threads.length - openCount})
+          </button>
+        )}
+      </div>
+
+      {visible.map((thread) => (
+        <div
+          key={thread.threadId}
+          className={`border rounded-md ${thread.status === 'OPEN' ? 'border-yellow-300' : 'border-gray-200 opacity-75'}`}
+        >
+          <div className="flex items-center justify-between gap-2 px-3 py-2 bg-gray-50 border-b border-gray-200">
+            <p className="text-xs text-gray-600">
+              <span className="font-medium text-gray-900">{anchorLabel(thread.anchor)}</span>
+              {thread.version !== undefined && <> &middot; v{thread.version}</>}
+              {thread.status === 'RESOLVED' && <> &middot; resolved by {thread.resolvedBy}</>}
+            </p>
+            {canComment && (
+              <button
+                onClick={() => handleToggle(thread)}
+                disabled={busyId === thread.threadId}
+                className="text-xs text-primary-600 hover:text-primary-800 disabled:opacity-50"
+              >
+                {thread.status === 'OPEN' ? 'Resolve' : 'Unresolve'}
+              </button>
+            )}
+          </div>
+
+          <ul className="divide-y divide-gray-100">
+            {thread.comments.map((comment) => (
+              <li key={comment.commentId} className="px-3 py-2">
+                <p className="text-xs text-gray-500 mb-1">
+                  {comment.authorId} &middot;{' '}
+                  <time dateTime={comment.createdAt}>{new Date(comment.createdAt).toLocaleString()}</time>
+                </p>
+                <CommentBody body={comment.body} />
+              </li>
+            ))}
+          </ul>
+
+          {canComment && thread.status === 'OPEN' && (
+            <div className="flex gap-2 px-3 py-2 border-t border-gray-100">
+              <input
+                type="text"
+                value={replies[thread.threadId] || ''}
+                onChange={(e) => setReplies((prev) => ({ ...prev, [thread.threadId]: e.target.value }))}
+                onKeyDown={(e) => e.key === 'Enter' && handleReply(thread.threadId)}
+                placeholder="Reply — use @handle to mention someone"
+                className="input flex-1 text-sm"
+              />
+              <button
+                onClick={() => handleReply(thread.threadId)}
+                disabled={busyId === thread.threadId || !replies[thread.threadId]?.trim()}
+                className="btn-secondary text-sm"
+              >
+                Reply
+              </button>
+            </div>
+          )}
+        </div>
+      ))}
+
+      {canComment && open && (
+        <form onSubmit={handleCreate} className="space-y-2 pt-2">
+          <label htmlFor={`new-thread-${targetId}`} className="label">
+            New thread
+          </label>
+          <select
+            value={anchor}
+            onChange={(e) => setAnchor(e.target.value)}
+            className="input text-sm"
+            aria-label="Comment on"
+          >
+            <option value="">General comment</option>
+            {Object.entries(fields).map(([field, label]) => (
+              <option key={field} value={`field:${field}`}>
+                Field: {label}
+              </option>
+            ))}
+            {sourceIds.map((sourceId) => (
+              <option key={sourceId} value={`source:${sourceId}`}>
+                Source: {sourceId}
+              </option>
+            ))}
+          </select>
+          <textarea
+            id={`new-thread-${targetId}`}
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            rows={3}
+            maxLength={5000}
+            placeholder="What needs another look? Use @handle to mention someone"
+            className="input"
+          />
+          <button type="submit" disabled={creating || !body.trim()} className="btn-primary text-sm">
+            {creating ? 'Posting...' : 'Start thread'}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import { useState, useEffect } from 'react';
+import type { SourceChangeAlert, SourceDiffLine } from '@ledger/shared';
+import { Permission } from '@ledger/shared';
+import { api } from '../lib/api';
+import { useAuth } from '../lib/AuthContext';
+import { useToast } from './Toast';
+
+const lineStyles: Record<SourceDiffLine['change'], string> = {
+  added: 'bg-green-50 text-green-800',
+  removed: 'bg-red-50 text-red-800',
+  context: 'text-gray-500',
+};
+
+const linePrefixes: Record<SourceDiffLine['change'], string> = {
+  added: '+',
+  removed: '−',
+  context: ' ',
+};
+
+function AlertDiff({ alert }: { alert: SourceChangeAlert }) {
+  if (alert.diff.length === 0) {
+    return <p className="text-sm text-gray-500">The PDF was replaced; open both versions to compare.</p>;
+  }
+
+  return (
+    <div className="text-sm font-mono space-y-0.5 max-h-80 overflow-y-auto">
+      {alert.diff.map((line, i) => (
+        <div key={i} className={`px-2 py-0.5 rounded whitespace-pre-wrap ${lineStyles[line.change]}`}>
+          {linePrefixes[line.change]} {line.text}
+        </div>
+      ))}
+      {alert.diffTruncated && <p className="text-xs text-gray-500 pt-1">Diff truncated.</p>}
+    </div>
+  );
+}
+
+interface SourceChangeAlertsProps {
+  cardId: string;
+}
+
+/**
+ * Changes the source watcher found on pages this card cites. Renders nothing
+ * until a source has changed.
+ */
+export default function SourceChangeAlerts({ cardId }: SourceChangeAlertsProps) {
+  const { can } = useAuth();
+  const { showError } = useToast();
+  const canAcknowledge = can(Permission.SOURCE_CREATE);
+
+  const [alerts, setAlerts] = useState<SourceChangeAlert[]>([]);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [showAcknowledged, setShowAcknowledged] = useState(false);
+
+  useEffect(() => {
+    loadAlerts();
+  }, [cardId]);
+
+  async function loadAlerts() {
+    try {
+      const result = await api.listCardSourceAlerts(cardId);
+      setAlerts(result.items);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to load source alerts');
+    }
+  }
+
+  async function handleAcknowledge(alert: SourceChangeAlert) {
+    try {
+      setBusyId(alert.alertId);
+      const updated = await api.acknowledgeSourceAlert(
+        alert.sourceId,
+        alert.alertId,
+        notes[alert.alertId]?.trim() || undefined
+      );
+      setAlerts((prev) => prev.map((a) => (a.alertId === updated.alertId ? updated : a)));
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to acknowledge alert');
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  if (alerts.length === 0) {
+    return null;
+  }
+
+  const openCount = alerts.filter((a) => a.status === 'OPEN').length;
+  const visible = showAcknowledged ? alerts : alerts.filter((a) => a.status === 'OPEN');
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-gray-900">
+          {openCount === 0
+            ? 'Source changes'
+            : `${openCount} source${openCount === 1 ? ' has' : 's have'} changed since promotion`}
+        </h3>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={showAcknowledged}
+            onChange={(e) => setShowAcknowledged(e.target.checked)}
+          />
+          Show acknowledged
+        </label>
+      </div>
+
+      {visible.map((alert) => (
+        <div key={alert.alertId} className="border border-yellow-200 rounded-lg p-4 space-y-3">
+          <div className="flex items-start justify-between gap-4">
+            <div className="min-w-0">
+              <a
+                href={alert.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-sm font-medium text-primary-600 hover:underline break-all"
+              >
+                {alert.url}
+              </a>
+              <p className="text-xs text-gray-500">
+                Detected {new Date(alert.detectedAt).toLocaleString()}
+                {alert.capturedSnapshot && ' · new snapshot signed'}
+              </p>
+            </div>
+            <span
+              className={`shrink-0 text-xs font-medium px-2 py-0.5 rounded ${
+                alert.status === 'OPEN' ? 'bg-yellow-100 text-yellow-800' : 'bg-gray-100 text-gray-600'
+              }`}
+            >
+              {alert.status === 'OPEN' ? 'Changed' : 'Acknowledged'}
+            </span>
+          </div>
+
+          <AlertDiff alert={alert} />
+
+          {alert.status === 'OPEN' && canAcknowledge && (
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={notes[alert.alertId] || ''}
+                onChange={(e) => setNotes((prev) => ({ ...prev, [alert.alertId]: e.target.value }))}
+                placeholder="What was done about it (optional)"
+                className="input flex-1"
+              />
+              <button
+                onClick={() => handleAcknowledge(alert)}
+                disabled={busyId === alert.alertId}
+                className="btn-secondary"
+              >
+                Acknowledge
+              </button>
+            </div>
+          )}
+
+          {alert.status === 'ACKNOWLEDGED' && alert.note && (
+            <p className="text-sm text-gray-700">{alert.note}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
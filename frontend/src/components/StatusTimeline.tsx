@@ -0,0 +1,59 @@
+import type { CardStatusChange } from '@ledger/shared';
+
+const statusLabels: Record<string, string> = {
+  DRAFT: 'Drafted',
+  REVIEW: 'Submitted for review',
+  PUBLISHED: 'Published',
+  DISPUTED: 'Disputed',
+  CORRECTED: 'Corrected',
+  RETRACTED: 'Retracted',
+  ARCHIVED: 'Archived',
+};
+
+const dotColors: Record<string, string> = {
+  PUBLISHED: 'bg-green-500',
+  DISPUTED: 'bg-yellow-500',
+  CORRECTED: 'bg-blue-500',
+  RETRACTED: 'bg-red-500',
+};
+
+interface StatusTimelineProps {
+  history: CardStatusChange[];
+  /** Hide drafting and review steps that happened before first publication */
+  publicOnly?: boolean;
+}
+
+/** Vertical timeline of a card's status changes, oldest first */
+export default function StatusTimeline({ history, publicOnly = false }: StatusTimelineProps) {
+  const firstPublished = history.findIndex((change) => change.status === 'PUBLISHED');
+  const entries = publicOnly && firstPublished >= 0 ? history.slice(firstPublished) : history;
+
+  if (entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2">
+      {entries.map((change) => (
+        <li key={`${change.version}-${change.status}-${change.at}`} className="mb-4 ml-4 last:mb-0">
+          <span
+            className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white ${
+              dotColors[change.status] || 'bg-gray-400'
+            }`}
+          />
+          <p className="text-sm text-gray-900">
+            <span className="font-medium">{statusLabels[change.status] || change.status}</span>
+            <span className="text-gray-500">
+              {' '}&middot;{' '}
+              <time dateTime={change.at}>{new Date(change.at).toLocaleDateString()}</time>
+              {' '}&middot; v{change.version}
+            </span>
+          </p>
+          {change.reason && (
+            <p className="text-sm text-gray-700 whitespace-pre-wrap mt-1">{change.reason}</p>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
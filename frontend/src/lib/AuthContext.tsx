@@ -1,28 +1,50 @@
 import { createContext, useContext, useEffect, useState, type ReactNode } from 'react';
 import { Navigate, useLocation } from 'react-router-dom';
+import type { CognitoUserSession } from 'amazon-cognito-identity-js';
+import { Role, permissionsForGroups, type Permission } from '@ledger/shared';
 import { getCurrentSession, signOut as cognitoSignOut } from './auth';
 
 interface AuthState {
   isAuthenticated: boolean;
   isLoading: boolean;
+  roles: Role[];
+  permissions: Permission[];
+  // UI hint only: the API enforces the same permissions on every admin route
+  can: (permission: Permission) => boolean;
   signOut: () => void;
   refreshAuth: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthState | null>(null);
 
+const KNOWN_ROLES: readonly string[] = Object.values(Role);
+
+// Cognito groups from the ID token; only groups that name a role are kept
+function getSessionGroups(session: CognitoUserSession | null): string[] {
+  if (!session || !session.isValid()) {
+    return [];
+  }
+  const groups = session.getIdToken().decodePayload()['cognito:groups'];
+  return Array.isArray(groups) ? groups.filter((group) => KNOWN_ROLES.includes(group)) : [];
+}
+
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [roles, setRoles] = useState<Role[]>([]);
+
+  const applySession = (session: CognitoUserSession | null) => {
+    setIsAuthenticated(session !== null && session.isValid());
+    setRoles(getSessionGroups(session) as Role[]);
+  };
 
   useEffect(() => {
     // Restore session on mount
     async function restoreSession() {
       try {
-        const session = await getCurrentSession();
-        setIsAuthenticated(session !== null && session.isValid());
+        applySession(await getCurrentSession());
       } catch {
-        setIsAuthenticated(false);
+        applySession(null);
       } finally {
         setIsLoading(false);
       }
@@ -33,20 +55,22 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const signOut = () => {
     cognitoSignOut();
-    setIsAuthenticated(false);
+    applySession(null);
   };
 
+  const permissions = permissionsForGroups(roles);
+  const can = (permission: Permission) => permissions.includes(permission);
+
   const refreshAuth = async () => {
     try {
-      const session = await getCurrentSession();
-      setIsAuthenticated(session !== null && session.isValid());
+      applySession(await getCurrentSession());
     } catch {
-      setIsAuthenticated(false);
+      applySession(null);
     }
   };
 
   return (
-    <AuthContext.Provider value={{ isAuthenticated, isLoading, signOut, refreshAuth }}>
+    <AuthContext.Provider value={{ isAuthenticated, isLoading, roles, permissions, can, signOut, refreshAuth }}>
       {children}
     </AuthContext.Provider>
   );
@@ -1,5 +1,6 @@
 import type {
   Entity,
+  EntityWithScore,
   EvidenceCard,
   EvidenceCardWithEntities,
   Source,
@@ -7,17 +8,33 @@ import type {
   UploadUrlResponse,
   DownloadUrlResponse,
   SourceVerificationResponse,
+  SourceChangeAlert,
+  SourceAlertStatus,
+  SourceAlertsResponse,
   HealthResponse,
   ApiError,
+  VersionConflictDetails,
   CreateEntityRequest,
   UpdateEntityRequest,
   CreateSourceRequest,
   CreateCardRequest,
   UpdateCardRequest,
+  CardPublishSchedule,
+  SchedulePublishRequest,
   IntakeItem,
   IntakeStatus,
   IntakePromoteRequest,
   IntakePromoteResponse,
+  IntakeClusterResponse,
+  IntakeFeed,
+  IntakeFeedsResponse,
+  IntakeRailsConfig,
+  CreateIntakeFeedRequest,
+  UpdateIntakeFeedRequest,
+  UpdateIntakeRailsRequest,
+  FeedPreview,
+  FeedHealthResponse,
+  IntakeRunSummary,
   Relationship,
   RelationshipWithEntities,
   CreateRelationshipRequest,
@@ -29,9 +46,40 @@ import type {
   ClaimType,
   EntitySearchResponse,
   DashboardStats,
+  ScoringWeights,
+  ScoringWeightsConfig,
+  ScoringWeightsResponse,
+  ScoringWeightsPreview,
+  CreateScoringWeightsRequest,
+  CreateScoringWeightsResponse,
+  RescoreJob,
+  TagSummary,
+  MergeTagsRequest,
+  TagMaintenanceResult,
+  RebuildTagIndexResult,
+  SearchQueryParams,
+  SearchResponse,
+  RebuildSearchIndexResult,
+  MigrateStatusHistoryResult,
+  CardVersionSummary,
+  CardVersionDiff,
+  ApprovalAction,
+  CardApprovalStatus,
+  CardApprovalsResponse,
+  ReviewTargetType,
+  ReviewThread,
+  ReviewMention,
+  CreateReviewThreadRequest,
+  CorrectionsQueryParams,
+  CorrectionsLogResponse,
+  RebuildCorrectionsLogResult,
+  Reply,
+  ReplyStatus,
+  PublicReply,
+  CreateReplyRequest,
 } from '@ledger/shared';
 
-const API_BASE = import.meta.env.VITE_API_URL || '/api';
+export const API_BASE = import.meta.env.VITE_API_URL || '/api';
 
 /**
  * Generate a UUID v4 for request correlation
@@ -47,14 +95,33 @@ export class ApiRequestError extends Error {
   public readonly requestId: string;
   public readonly statusCode: number;
   public readonly fields?: string[];
-
-  constructor(message: string, requestId: string, statusCode: number, fields?: string[]) {
+  public readonly code?: string;
+  public readonly details?: Record<string, unknown>;
+
+  constructor(
+    message: string,
+    requestId: string,
+    statusCode: number,
+    fields?: string[],
+    code?: string,
+    details?: Record<string, unknown>
+  ) {
     super(message);
     this.name = 'ApiRequestError';
     this.requestId = requestId;
     this.statusCode = statusCode;
     this.fields = fields;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/** Conflict details when an update was based on a version that is no longer current */
+export function getVersionConflict<T>(err: unknown): VersionConflictDetails<T> | null {
+  if (err instanceof ApiRequestError && err.code === 'CONFLICT' && err.details?.currentVersion) {
+    return err.details as unknown as VersionConflictDetails<T>;
   }
+  return null;
 }
 
 class ApiClient {
@@ -80,10 +147,28 @@ class ApiClient {
       headers['Authorization'] = `Bearer ${this.token}`;
     }
 
-    const response = await fetch(`${API_BASE}${path}`, {
-      ...options,
-      headers,
-    });
+    // Mutations carry an Idempotency-Key so a retry after a dropped
+    // connection replays the original result instead of repeating it
+    const method = (options.method || 'GET').toUpperCase();
+    const isMutation = method !== 'GET' && method !== 'HEAD';
+    if (isMutation && !headers['Idempotency-Key']) {
+      headers['Idempotency-Key'] = generateRequestId();
+    }
+
+    const send = () =>
+      fetch(`${API_BASE}${path}`, {
+        ...options,
+        headers,
+      });
+
+    let response: Response;
+    try {
+      response = await send();
+    } catch (err) {
+      // fetch only rejects on network failure; retry once with the same key
+      if (!isMutation) throw err;
+      response = await send();
+    }
 
     const data = await response.json();
 
@@ -93,7 +178,9 @@ class ApiClient {
         error.error?.message || 'An unexpected error occurred',
         requestId,
         response.status,
-        error.error?.fields
+        error.error?.fields,
+        error.error?.code,
+        error.error?.details
       );
     }
 
@@ -108,11 +195,13 @@ class ApiClient {
   // Entities
   async listEntities(params?: {
     query?: string;
+    sort?: 'score';
     limit?: number;
     cursor?: string;
-  }): Promise<PaginatedResponse<Entity>> {
+  }): Promise<PaginatedResponse<EntityWithScore>> {
     const searchParams = new URLSearchParams();
     if (params?.query) searchParams.set('query', params.query);
+    if (params?.sort) searchParams.set('sort', params.sort);
     if (params?.limit) searchParams.set('limit', String(params.limit));
     if (params?.cursor) searchParams.set('cursor', params.cursor);
     const qs = searchParams.toString();
@@ -126,7 +215,7 @@ class ApiClient {
     return this.request(`/entities/search?${searchParams.toString()}`);
   }
 
-  async getEntity(entityId: string): Promise<Entity> {
+  async getEntity(entityId: string): Promise<EntityWithScore> {
     return this.request(`/entities/${entityId}`);
   }
 
@@ -179,6 +268,76 @@ class ApiClient {
     return this.request(`/cards/${cardId}`);
   }
 
+  async getCardVersions(cardId: string): Promise<{ items: CardVersionSummary[] }> {
+    return this.request(`/cards/${cardId}/versions`);
+  }
+
+  async getCardDiff(cardId: string, from: number, to: number): Promise<CardVersionDiff> {
+    return this.request(`/cards/${cardId}/diff?from=${from}&to=${to}`);
+  }
+
+  // Corrections log
+  async listCorrections(params?: CorrectionsQueryParams): Promise<CorrectionsLogResponse> {
+    const query = new URLSearchParams();
+    if (params?.month) query.set('month', params.month);
+    if (params?.cursor) query.set('cursor', params.cursor);
+    if (params?.limit) query.set('limit', params.limit.toString());
+    const queryString = query.toString();
+    return this.request(`/corrections${queryString ? `?${queryString}` : ''}`);
+  }
+
+  // Right of reply
+  async listCardReplies(cardId: string): Promise<{ items: PublicReply[] }> {
+    return this.request(`/cards/${cardId}/replies`);
+  }
+
+  async submitReply(
+    cardId: string,
+    data: CreateReplyRequest
+  ): Promise<{ replyId: string; status: ReplyStatus }> {
+    return this.request(`/cards/${cardId}/replies`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  // Tags
+  async listTags(params?: {
+    limit?: number;
+    cursor?: string;
+  }): Promise<PaginatedResponse<TagSummary>> {
+    const searchParams = new URLSearchParams();
+    if (params?.limit) searchParams.set('limit', String(params.limit));
+    if (params?.cursor) searchParams.set('cursor', params.cursor);
+    const qs = searchParams.toString();
+    return this.request(`/tags${qs ? `?${qs}` : ''}`);
+  }
+
+  async getTagCards(
+    tag: string,
+    params?: { category?: string; limit?: number; cursor?: string }
+  ): Promise<PaginatedResponse<EvidenceCard>> {
+    const searchParams = new URLSearchParams();
+    if (params?.category) searchParams.set('category', params.category);
+    if (params?.limit) searchParams.set('limit', String(params.limit));
+    if (params?.cursor) searchParams.set('cursor', params.cursor);
+    const qs = searchParams.toString();
+    return this.request(`/tags/${encodeURIComponent(tag)}/cards${qs ? `?${qs}` : ''}`);
+  }
+
+  // Search
+  async search(params: SearchQueryParams): Promise<SearchResponse> {
+    const searchParams = new URLSearchParams();
+    searchParams.set('q', params.q);
+    if (params.type) searchParams.set('type', params.type);
+    if (params.category) searchParams.set('category', params.category);
+    if (params.from) searchParams.set('from', params.from);
+    if (params.to) searchParams.set('to', params.to);
+    if (params.limit) searchParams.set('limit', String(params.limit));
+    if (params.cursor) searchParams.set('cursor', params.cursor);
+    return this.request(`/search?${searchParams.toString()}`);
+  }
+
   // Sources
   async getSource(sourceId: string): Promise<Source> {
     return this.request(`/sources/${sourceId}`);
@@ -236,6 +395,34 @@ class ApiClient {
     });
   }
 
+  async listSourceAlerts(params?: {
+    status?: SourceAlertStatus;
+    limit?: number;
+    cursor?: string;
+  }): Promise<SourceAlertsResponse> {
+    const searchParams = new URLSearchParams();
+    if (params?.status) searchParams.set('status', params.status);
+    if (params?.limit) searchParams.set('limit', String(params.limit));
+    if (params?.cursor) searchParams.set('cursor', params.cursor);
+    const qs = searchParams.toString();
+    return this.request(`/admin/source-alerts${qs ? `?${qs}` : ''}`);
+  }
+
+  async listCardSourceAlerts(cardId: string): Promise<{ items: SourceChangeAlert[] }> {
+    return this.request(`/admin/cards/${cardId}/source-alerts`);
+  }
+
+  async acknowledgeSourceAlert(
+    sourceId: string,
+    alertId: string,
+    note?: string
+  ): Promise<SourceChangeAlert> {
+    return this.request(`/admin/sources/${sourceId}/alerts/${alertId}/acknowledge`, {
+      method: 'POST',
+      body: JSON.stringify({ note }),
+    });
+  }
+
   // Admin: Cards
   async listAdminCards(params?: {
     status?: string;
@@ -254,6 +441,29 @@ class ApiClient {
     return this.request(`/admin/cards/${cardId}`);
   }
 
+  async getAdminCardVersions(cardId: string): Promise<{ items: CardVersionSummary[] }> {
+    return this.request(`/admin/cards/${cardId}/versions`);
+  }
+
+  async getAdminCardDiff(cardId: string, from: number, to: number): Promise<CardVersionDiff> {
+    return this.request(`/admin/cards/${cardId}/diff?from=${from}&to=${to}`);
+  }
+
+  async getCardApprovals(cardId: string): Promise<CardApprovalsResponse> {
+    return this.request(`/admin/cards/${cardId}/approvals`);
+  }
+
+  async approveCard(
+    cardId: string,
+    action: ApprovalAction,
+    note?: string
+  ): Promise<CardApprovalStatus> {
+    return this.request(`/admin/cards/${cardId}/approvals`, {
+      method: 'POST',
+      body: JSON.stringify({ action, note }),
+    });
+  }
+
   async getAdminStats(): Promise<DashboardStats> {
     return this.request('/admin/stats');
   }
@@ -287,6 +497,23 @@ class ApiClient {
     });
   }
 
+  async schedulePublish(cardId: string, data: SchedulePublishRequest): Promise<CardPublishSchedule> {
+    return this.request(`/admin/cards/${cardId}/schedule`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async unschedulePublish(cardId: string): Promise<CardPublishSchedule> {
+    return this.request(`/admin/cards/${cardId}/unschedule`, {
+      method: 'POST',
+    });
+  }
+
+  async getScheduledPublishes(): Promise<{ items: CardPublishSchedule[] }> {
+    return this.request('/admin/cards/scheduled');
+  }
+
   async disputeCard(cardId: string, reason: string): Promise<EvidenceCard> {
     return this.request(`/admin/cards/${cardId}/dispute`, {
       method: 'POST',
@@ -296,11 +523,12 @@ class ApiClient {
 
   async correctCard(
     cardId: string,
-    correctionNote: string
+    correctionNote: string,
+    material = true
   ): Promise<EvidenceCard> {
     return this.request(`/admin/cards/${cardId}/correct`, {
       method: 'POST',
-      body: JSON.stringify({ correctionNote }),
+      body: JSON.stringify({ correctionNote, material }),
     });
   }
 
@@ -323,6 +551,16 @@ class ApiClient {
     });
   }
 
+  async migrateStatusHistory(
+    cursor?: string,
+    dryRun = true
+  ): Promise<MigrateStatusHistoryResult> {
+    return this.request('/admin/cards/migrate-status-history', {
+      method: 'POST',
+      body: JSON.stringify({ cursor, dryRun }),
+    });
+  }
+
   // Admin: Intake
   async listIntake(params?: {
     status?: IntakeStatus;
@@ -341,6 +579,10 @@ class ApiClient {
     return this.request(`/admin/intake/${intakeId}`);
   }
 
+  async getIntakeCluster(clusterId: string): Promise<IntakeClusterResponse> {
+    return this.request(`/admin/intake/clusters/${clusterId}`);
+  }
+
   async rejectIntake(intakeId: string): Promise<IntakeItem> {
     return this.request(`/admin/intake/${intakeId}/reject`, {
       method: 'POST',
@@ -369,6 +611,59 @@ class ApiClient {
     });
   }
 
+  // Admin: Intake feeds
+  async getIntakeFeeds(): Promise<IntakeFeedsResponse> {
+    return this.request('/admin/feeds');
+  }
+
+  async createIntakeFeed(data: CreateIntakeFeedRequest): Promise<IntakeFeed> {
+    return this.request('/admin/feeds', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateIntakeFeed(feedId: string, data: UpdateIntakeFeedRequest): Promise<IntakeFeed> {
+    return this.request(`/admin/feeds/${feedId}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  // Preview a feed that hasn't been saved yet
+  async testFetchFeed(data: CreateIntakeFeedRequest): Promise<FeedPreview> {
+    return this.request('/admin/feeds/test-fetch', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async testFetchSavedFeed(feedId: string): Promise<FeedPreview> {
+    return this.request(`/admin/feeds/${feedId}/test-fetch`, {
+      method: 'POST',
+    });
+  }
+
+  async updateIntakeRails(data: UpdateIntakeRailsRequest): Promise<IntakeRailsConfig> {
+    return this.request('/admin/config/intake-rails', {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  // Admin: Intake runs and feed health
+  async getIntakeRuns(params?: { limit?: number; cursor?: string }): Promise<PaginatedResponse<IntakeRunSummary>> {
+    const searchParams = new URLSearchParams();
+    if (params?.limit) searchParams.set('limit', String(params.limit));
+    if (params?.cursor) searchParams.set('cursor', params.cursor);
+    const qs = searchParams.toString();
+    return this.request(`/admin/intake/runs${qs ? `?${qs}` : ''}`);
+  }
+
+  async getFeedHealth(): Promise<FeedHealthResponse> {
+    return this.request('/admin/intake/feed-health');
+  }
+
   // Admin: Relationships
   async listAdminRelationships(params?: {
     entityId?: string;
@@ -428,6 +723,57 @@ class ApiClient {
     });
   }
 
+  // Admin: Review threads
+  async listReviewThreads(
+    targetType: ReviewTargetType,
+    targetId: string
+  ): Promise<{ items: ReviewThread[] }> {
+    const collection = targetType === 'card' ? 'cards' : 'relationships';
+    return this.request(`/admin/${collection}/${targetId}/threads`);
+  }
+
+  async createReviewThread(
+    targetType: ReviewTargetType,
+    targetId: string,
+    data: CreateReviewThreadRequest
+  ): Promise<ReviewThread> {
+    const collection = targetType === 'card' ? 'cards' : 'relationships';
+    return this.request(`/admin/${collection}/${targetId}/threads`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async addReviewComment(threadId: string, body: string): Promise<ReviewThread> {
+    return this.request(`/admin/review-threads/${threadId}/comments`, {
+      method: 'POST',
+      body: JSON.stringify({ body }),
+    });
+  }
+
+  async resolveReviewThread(threadId: string): Promise<ReviewThread> {
+    return this.request(`/admin/review-threads/${threadId}/resolve`, {
+      method: 'POST',
+    });
+  }
+
+  async unresolveReviewThread(threadId: string): Promise<ReviewThread> {
+    return this.request(`/admin/review-threads/${threadId}/unresolve`, {
+      method: 'POST',
+    });
+  }
+
+  async listReviewMentions(params: {
+    handle: string;
+    limit?: number;
+    cursor?: string;
+  }): Promise<PaginatedResponse<ReviewMention>> {
+    const searchParams = new URLSearchParams({ handle: params.handle });
+    if (params.limit) searchParams.set('limit', String(params.limit));
+    if (params.cursor) searchParams.set('cursor', params.cursor);
+    return this.request(`/admin/review-threads/mentions?${searchParams.toString()}`);
+  }
+
   // Public: Relationships
   async getEntityRelationships(
     entityId: string,
@@ -481,6 +827,104 @@ class ApiClient {
       body: JSON.stringify({ alias }),
     });
   }
+
+  // Scoring weights
+  async getScoringWeights(): Promise<ScoringWeightsConfig> {
+    return this.request('/config/scoring-weights');
+  }
+
+  // Admin: Scoring weights
+  async getAdminScoringWeights(): Promise<ScoringWeightsResponse> {
+    return this.request('/admin/config/scoring-weights');
+  }
+
+  async createScoringWeights(
+    data: CreateScoringWeightsRequest
+  ): Promise<CreateScoringWeightsResponse> {
+    return this.request('/admin/config/scoring-weights', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async previewScoringWeights(weights: ScoringWeights): Promise<ScoringWeightsPreview> {
+    return this.request('/admin/config/scoring-weights/preview', {
+      method: 'POST',
+      body: JSON.stringify({ weights }),
+    });
+  }
+
+  async startRescore(): Promise<RescoreJob> {
+    return this.request('/admin/config/scoring-weights/rescore', {
+      method: 'POST',
+    });
+  }
+
+  // Admin: Tags
+  async mergeTags(data: MergeTagsRequest): Promise<TagMaintenanceResult> {
+    return this.request('/admin/tags/merge', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async normalizeTags(dryRun = true): Promise<TagMaintenanceResult> {
+    return this.request('/admin/tags/normalize', {
+      method: 'POST',
+      body: JSON.stringify({ dryRun }),
+    });
+  }
+
+  async rebuildTagIndex(cursor?: string): Promise<RebuildTagIndexResult> {
+    return this.request('/admin/tags/rebuild', {
+      method: 'POST',
+      body: JSON.stringify({ cursor }),
+    });
+  }
+
+  // Admin: Search
+  async rebuildSearchIndex(cursor?: string): Promise<RebuildSearchIndexResult> {
+    return this.request('/admin/search/rebuild', {
+      method: 'POST',
+      body: JSON.stringify({ cursor }),
+    });
+  }
+
+  // Admin: Corrections log
+  async rebuildCorrectionsLog(cursor?: string): Promise<RebuildCorrectionsLogResult> {
+    return this.request('/admin/corrections/rebuild', {
+      method: 'POST',
+      body: JSON.stringify({ cursor }),
+    });
+  }
+
+  // Admin: Replies
+  async listAdminReplies(params?: {
+    status?: ReplyStatus;
+    cursor?: string;
+    limit?: number;
+  }): Promise<PaginatedResponse<Reply>> {
+    const query = new URLSearchParams();
+    if (params?.status) query.set('status', params.status);
+    if (params?.cursor) query.set('cursor', params.cursor);
+    if (params?.limit) query.set('limit', params.limit.toString());
+    const queryString = query.toString();
+    return this.request(`/admin/replies${queryString ? `?${queryString}` : ''}`);
+  }
+
+  async publishReply(replyId: string, note?: string): Promise<Reply> {
+    return this.request(`/admin/replies/${replyId}/publish`, {
+      method: 'POST',
+      body: JSON.stringify({ note }),
+    });
+  }
+
+  async rejectReply(replyId: string, reason: string): Promise<Reply> {
+    return this.request(`/admin/replies/${replyId}/reject`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    });
+  }
 }
 
 export const api = new ApiClient();
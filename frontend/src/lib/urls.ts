@@ -0,0 +1,11 @@
+/**
+ * Whether a URL uses http or https. Links submitted by the public are only
+ * rendered as an href when this holds.
+ */
+export function isWebUrl(url: string): boolean {
+  try {
+    return ['http:', 'https:'].includes(new URL(url).protocol);
+  } catch {
+    return false;
+  }
+}
@@ -1,6 +1,29 @@
+import { useState, useEffect } from 'react';
+import type { ScoringWeights, ScoringWeightsConfig } from '@ledger/shared';
 import { DEFAULT_SCORING_WEIGHTS } from '@ledger/shared';
+import { api } from '../lib/api';
+
+const weightLabels: Array<[keyof ScoringWeights, string]> = [
+  ['severity', 'Severity'],
+  ['intent', 'Intent'],
+  ['scope', 'Scope'],
+  ['recidivism', 'Recidivism'],
+  ['deception', 'Deception'],
+  ['accountability', 'Accountability'],
+];
 
 export default function AboutPage() {
+  const [weightsConfig, setWeightsConfig] = useState<ScoringWeightsConfig | null>(null);
+
+  useEffect(() => {
+    api
+      .getScoringWeights()
+      .then(setWeightsConfig)
+      .catch((err) => console.error('Failed to load scoring weights:', err));
+  }, []);
+
+  const weights = weightsConfig?.weights ?? DEFAULT_SCORING_WEIGHTS;
+
   return (
     <div className="max-w-3xl mx-auto">
       <h1 className="text-3xl font-bold text-gray-900 mb-8">
@@ -63,6 +86,14 @@ export default function AboutPage() {
           <li>Documents are hashed upon upload</li>
           <li>Verification manifests are signed with our public key</li>
           <li>Original source URLs are preserved for independent verification</li>
+          <li>
+            Our public key is published at{' '}
+            <a href="/api/verification/public-key" className="text-primary-600 hover:text-primary-800">
+              /api/verification/public-key
+            </a>
+            , and the <code>ledger-verify</code> tool checks a downloaded document
+            against its manifest and signature without contacting us
+          </li>
         </ul>
       </section>
 
@@ -137,33 +168,37 @@ export default function AboutPage() {
               </tr>
             </thead>
             <tbody className="text-gray-700">
-              <tr>
-                <td className="py-1">Severity</td>
-                <td>{(DEFAULT_SCORING_WEIGHTS.severity * 100).toFixed(0)}%</td>
-              </tr>
-              <tr>
-                <td className="py-1">Intent</td>
-                <td>{(DEFAULT_SCORING_WEIGHTS.intent * 100).toFixed(0)}%</td>
-              </tr>
-              <tr>
-                <td className="py-1">Scope</td>
-                <td>{(DEFAULT_SCORING_WEIGHTS.scope * 100).toFixed(0)}%</td>
-              </tr>
-              <tr>
-                <td className="py-1">Recidivism</td>
-                <td>{(DEFAULT_SCORING_WEIGHTS.recidivism * 100).toFixed(0)}%</td>
-              </tr>
-              <tr>
-                <td className="py-1">Deception</td>
-                <td>{(DEFAULT_SCORING_WEIGHTS.deception * 100).toFixed(0)}%</td>
-              </tr>
-              <tr>
-                <td className="py-1">Accountability</td>
-                <td>{(DEFAULT_SCORING_WEIGHTS.accountability * 100).toFixed(0)}%</td>
-              </tr>
+              {weightLabels.map(([key, label]) => (
+                <tr key={key}>
+                  <td className="py-1">{label}</td>
+                  <td>{(weights[key] * 100).toFixed(0)}%</td>
+                </tr>
+              ))}
             </tbody>
           </table>
+          {weightsConfig && weightsConfig.versionNumber > 0 && (
+            <p className="text-xs text-gray-500 mt-3">
+              Weights version {weightsConfig.version}, in effect since{' '}
+              {new Date(weightsConfig.createdAt).toLocaleDateString()}.
+            </p>
+          )}
         </div>
+
+        <h3 className="text-lg font-medium text-gray-800 mt-6 mb-2">
+          Entity Scores
+        </h3>
+        <p className="text-gray-700 mb-4">
+          Each evidence card receives a score from 0 to 100: the weighted sum
+          of its signals, divided by the maximum possible value. An entity's
+          overall score is the average score of its published, disputed, and
+          corrected cards; per-category scores average the cards within each
+          category. Retracted cards and cards without signals are excluded.
+        </p>
+        <p className="text-gray-700">
+          Scores are recomputed whenever a card about the entity is published,
+          corrected, or retracted, and each score records the weight
+          configuration used to compute it.
+        </p>
       </section>
 
       {/* Privacy */}
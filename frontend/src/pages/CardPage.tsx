@@ -3,6 +3,9 @@ import { useParams, Link } from 'react-router-dom';
 import type { EvidenceCardWithEntities, Source } from '@ledger/shared';
 import { api } from '../lib/api';
 import ScoreDisplay from '../components/ScoreDisplay';
+import ReplySection from '../components/ReplySection';
+import StatusTimeline from '../components/StatusTimeline';
+import CardHistory from '../components/CardHistory';
 import { useToast } from '../components/Toast';
 
 const statusLabels: Record<string, string> = {
@@ -33,6 +36,7 @@ export default function CardPage() {
   const [sources, setSources] = useState<Source[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<'details' | 'history'>('details');
   const { showError } = useToast();
 
   useEffect(() => {
@@ -119,8 +123,8 @@ export default function CardPage() {
         <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4 mb-6">
           <h2 className="font-semibold text-yellow-800 mb-1">Disputed</h2>
           <p className="text-sm text-yellow-700">
-            This evidence card is currently being disputed. See counterpoint
-            section for details.
+            This evidence card is currently being disputed. See the status
+            history for details.
           </p>
         </div>
       )}
@@ -129,205 +133,253 @@ export default function CardPage() {
         <div className="bg-blue-50 border border-blue-200 rounded-md p-4 mb-6">
           <h2 className="font-semibold text-blue-800 mb-1">Corrected</h2>
           <p className="text-sm text-blue-700">
-            This evidence card has been corrected. See counterpoint section for
+            This evidence card has been corrected. See the status history for
             correction details.
           </p>
         </div>
       )}
 
-      {/* Main card */}
-      <article className="card p-8">
-        {/* Header */}
-        <div className="mb-6">
-          <div className="flex flex-wrap gap-2 mb-3">
-            <span
-              className={`badge ${
-                isRetracted
-                  ? 'badge-retracted'
-                  : card.status === 'PUBLISHED'
-                  ? 'badge-published'
-                  : card.status === 'DISPUTED'
-                  ? 'badge-disputed'
-                  : card.status === 'CORRECTED'
-                  ? 'badge-corrected'
-                  : 'badge-draft'
-              }`}
-            >
-              {statusLabels[card.status]}
-            </span>
-            <span className="badge bg-gray-100 text-gray-700">
-              {categoryLabels[card.category] || card.category}
-            </span>
-            <span
-              className={`badge ${
-                card.evidenceStrength === 'HIGH'
-                  ? 'bg-green-100 text-green-800'
-                  : card.evidenceStrength === 'MEDIUM'
-                  ? 'bg-yellow-100 text-yellow-800'
-                  : 'bg-gray-100 text-gray-600'
-              }`}
-            >
-              {card.evidenceStrength} evidence
-            </span>
-          </div>
-
-          <h1
-            className={`text-2xl font-bold text-gray-900 mb-2 ${
-              isRetracted ? 'line-through' : ''
+      {/* Tabs */}
+      <div className="border-b border-gray-200 mb-6">
+        <nav className="flex space-x-8">
+          <button
+            onClick={() => setActiveTab('details')}
+            className={`py-3 px-1 border-b-2 font-medium text-sm transition-colors ${
+              activeTab === 'details'
+                ? 'border-primary-600 text-primary-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
             }`}
           >
-            {card.title}
-          </h1>
-
-          <div className="flex flex-wrap gap-4 text-sm text-gray-500">
-            <span>
-              Event date:{' '}
-              {new Date(card.eventDate).toLocaleDateString()}
-            </span>
-            {card.publishDate && (
-              <span>
-                Published:{' '}
-                {new Date(card.publishDate).toLocaleDateString()}
-              </span>
-            )}
-            {card.jurisdiction && <span>Jurisdiction: {card.jurisdiction}</span>}
-            <span>Version: {card.version}</span>
-          </div>
-        </div>
-
-        {/* Claim */}
-        <div className="mb-6">
-          <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-2">
-            Claim
-          </h2>
-          <blockquote
-            className={`text-lg text-gray-900 border-l-4 border-primary-500 pl-4 ${
-              isRetracted ? 'line-through' : ''
+            Details
+          </button>
+          <button
+            onClick={() => setActiveTab('history')}
+            className={`py-3 px-1 border-b-2 font-medium text-sm transition-colors ${
+              activeTab === 'history'
+                ? 'border-primary-600 text-primary-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
             }`}
           >
-            {card.claim}
-          </blockquote>
-        </div>
+            History
+          </button>
+        </nav>
+      </div>
 
-        {/* Summary */}
-        <div className="mb-6">
-          <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-2">
-            Summary
-          </h2>
-          <p className="text-gray-700 leading-relaxed">{card.summary}</p>
+      {/* History Tab */}
+      {activeTab === 'history' && (
+        <div className="card p-8">
+          <CardHistory cardId={card.cardId} />
         </div>
+      )}
 
-        {/* Entities */}
-        {card.entities && card.entities.length > 0 && (
+      {/* Main card */}
+      {activeTab === 'details' && (
+        <article className="card p-8">
+          {/* Header */}
           <div className="mb-6">
-            <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-2">
-              Related Entities
-            </h2>
-            <div className="flex flex-wrap gap-2">
-              {card.entities.map((entity) => (
-                <Link
-                  key={entity.entityId}
-                  to={`/entities/${entity.entityId}`}
-                  className="btn-secondary text-sm"
-                >
-                  {entity.name}
-                </Link>
-              ))}
+            <div className="flex flex-wrap gap-2 mb-3">
+              <span
+                className={`badge ${
+                  isRetracted
+                    ? 'badge-retracted'
+                    : card.status === 'PUBLISHED'
+                    ? 'badge-published'
+                    : card.status === 'DISPUTED'
+                    ? 'badge-disputed'
+                    : card.status === 'CORRECTED'
+                    ? 'badge-corrected'
+                    : 'badge-draft'
+                }`}
+              >
+                {statusLabels[card.status]}
+              </span>
+              <span className="badge bg-gray-100 text-gray-700">
+                {categoryLabels[card.category] || card.category}
+              </span>
+              <span
+                className={`badge ${
+                  card.evidenceStrength === 'HIGH'
+                    ? 'bg-green-100 text-green-800'
+                    : card.evidenceStrength === 'MEDIUM'
+                    ? 'bg-yellow-100 text-yellow-800'
+                    : 'bg-gray-100 text-gray-600'
+                }`}
+              >
+                {card.evidenceStrength} evidence
+              </span>
+            </div>
+
+            <h1
+              className={`text-2xl font-bold text-gray-900 mb-2 ${
+                isRetracted ? 'line-through' : ''
+              }`}
+            >
+              {card.title}
+            </h1>
+
+            <div className="flex flex-wrap gap-4 text-sm text-gray-500">
+              <span>
+                Event date:{' '}
+                {new Date(card.eventDate).toLocaleDateString()}
+              </span>
+              {card.publishDate && (
+                <span>
+                  Published:{' '}
+                  {new Date(card.publishDate).toLocaleDateString()}
+                </span>
+              )}
+              {card.jurisdiction && <span>Jurisdiction: {card.jurisdiction}</span>}
+              <span>Version: {card.version}</span>
             </div>
           </div>
-        )}
 
-        {/* Counterpoint */}
-        {card.counterpoint && (
+          {/* Claim */}
           <div className="mb-6">
             <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-2">
-              Response / Counterpoint
+              Claim
             </h2>
-            <div className="bg-gray-50 border border-gray-200 rounded-md p-4">
-              <p className="text-gray-700 whitespace-pre-wrap">
-                {card.counterpoint}
-              </p>
-            </div>
+            <blockquote
+              className={`text-lg text-gray-900 border-l-4 border-primary-500 pl-4 ${
+                isRetracted ? 'line-through' : ''
+              }`}
+            >
+              {card.claim}
+            </blockquote>
           </div>
-        )}
 
-        {/* Score signals */}
-        {card.scoreSignals && (
+          {/* Summary */}
           <div className="mb-6">
-            <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-3">
-              Scoring Breakdown
+            <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-2">
+              Summary
             </h2>
-            <div className="bg-gray-50 border border-gray-200 rounded-md p-4">
-              <ScoreDisplay signals={card.scoreSignals} />
-            </div>
+            <p className="text-gray-700 leading-relaxed">{card.summary}</p>
           </div>
-        )}
 
-        {/* Sources */}
-        <div className="mb-6">
-          <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-3">
-            Sources ({sources.length})
-          </h2>
-          <div className="space-y-3">
-            {sources.map((source) => (
-              <div
-                key={source.sourceId}
-                className="flex items-start justify-between gap-4 p-3 bg-gray-50 border border-gray-200 rounded-md"
-              >
-                <div className="flex-1 min-w-0">
-                  <h3 className="font-medium text-gray-900 truncate">
-                    {source.title}
-                  </h3>
-                  <p className="text-sm text-gray-500">
-                    {source.publisher} &middot; {source.docType}
-                    {source.verificationStatus === 'VERIFIED' && (
-                      <span className="ml-2 text-green-600">✓ Verified</span>
-                    )}
-                  </p>
-                  {source.excerpt && (
-                    <p className="text-sm text-gray-600 mt-1 italic">
-                      "{source.excerpt}"
-                    </p>
-                  )}
-                  <a
-                    href={source.url}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="text-sm text-primary-600 hover:text-primary-800"
+          {/* Entities */}
+          {card.entities && card.entities.length > 0 && (
+            <div className="mb-6">
+              <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-2">
+                Related Entities
+              </h2>
+              <div className="flex flex-wrap gap-2">
+                {card.entities.map((entity) => (
+                  <Link
+                    key={entity.entityId}
+                    to={`/entities/${entity.entityId}`}
+                    className="btn-secondary text-sm"
                   >
-                    Original source →
-                  </a>
-                </div>
-                <button
-                  onClick={() => handleDownload(source.sourceId)}
-                  className="btn-secondary text-sm whitespace-nowrap"
-                >
-                  Download
-                </button>
+                    {entity.name}
+                  </Link>
+                ))}
               </div>
-            ))}
-          </div>
-        </div>
+            </div>
+          )}
 
-        {/* Tags */}
-        {card.tags && card.tags.length > 0 && (
-          <div>
-            <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-2">
-              Tags
+          {/* Status history (our own editorial record of disputes, corrections, retractions) */}
+          {card.statusHistory && card.statusHistory.length > 0 && (
+            <div className="mb-6">
+              <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-3">
+                Status History
+              </h2>
+              <StatusTimeline history={card.statusHistory} publicOnly />
+            </div>
+          )}
+
+          {/* Counterpoint (company response recorded by editors) */}
+          {card.counterpoint && (
+            <div className="mb-6">
+              <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-2">
+                Response / Counterpoint
+              </h2>
+              <div className="bg-gray-50 border border-gray-200 rounded-md p-4">
+                <p className="text-gray-700 whitespace-pre-wrap">
+                  {card.counterpoint}
+                </p>
+              </div>
+            </div>
+          )}
+
+          {/* Right of reply (submitted by the named entities, moderated) */}
+          <ReplySection cardId={card.cardId} entities={card.entities || []} />
+
+          {/* Score signals */}
+          {card.scoreSignals && (
+            <div className="mb-6">
+              <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-3">
+                Scoring Breakdown
+              </h2>
+              <div className="bg-gray-50 border border-gray-200 rounded-md p-4">
+                <ScoreDisplay signals={card.scoreSignals} />
+              </div>
+            </div>
+          )}
+
+          {/* Sources */}
+          <div className="mb-6">
+            <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-3">
+              Sources ({sources.length})
             </h2>
-            <div className="flex flex-wrap gap-2">
-              {card.tags.map((tag) => (
-                <span
-                  key={tag}
-                  className="px-2 py-1 bg-gray-100 text-gray-600 rounded text-sm"
+            <div className="space-y-3">
+              {sources.map((source) => (
+                <div
+                  key={source.sourceId}
+                  className="flex items-start justify-between gap-4 p-3 bg-gray-50 border border-gray-200 rounded-md"
                 >
-                  {tag}
-                </span>
+                  <div className="flex-1 min-w-0">
+                    <h3 className="font-medium text-gray-900 truncate">
+                      {source.title}
+                    </h3>
+                    <p className="text-sm text-gray-500">
+                      {source.publisher} &middot; {source.docType}
+                      {source.verificationStatus === 'VERIFIED' && (
+                        <span className="ml-2 text-green-600">✓ Verified</span>
+                      )}
+                    </p>
+                    {source.excerpt && (
+                      <p className="text-sm text-gray-600 mt-1 italic">
+                        "{source.excerpt}"
+                      </p>
+                    )}
+                    <a
+                      href={source.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-sm text-primary-600 hover:text-primary-800"
+                    >
+                      Original source →
+                    </a>
+                  </div>
+                  <button
+                    onClick={() => handleDownload(source.sourceId)}
+                    className="btn-secondary text-sm whitespace-nowrap"
+                  >
+                    Download
+                  </button>
+                </div>
               ))}
             </div>
           </div>
-        )}
-      </article>
+
+          {/* Tags */}
+          {card.tags && card.tags.length > 0 && (
+            <div>
+              <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-2">
+                Tags
+              </h2>
+              <div className="flex flex-wrap gap-2">
+                {card.tags.map((tag) => (
+                  <span
+                    key={tag}
+                    className="px-2 py-1 bg-gray-100 text-gray-600 rounded text-sm"
+                  >
+                    {tag}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+        </article>
+      )}
     </div>
   );
 }
@@ -1,4 +1,72 @@
+import { useState, useEffect } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import type { CorrectionEntry, CorrectionKind, CorrectionsMonth } from '@ledger/shared';
+import { api, API_BASE } from '../lib/api';
+
+const kindLabels: Record<CorrectionKind, string> = {
+  DISPUTED: 'Disputed',
+  CORRECTED: 'Corrected',
+  RETRACTED: 'Retracted',
+};
+
+const kindClasses: Record<CorrectionKind, string> = {
+  DISPUTED: 'badge-disputed',
+  CORRECTED: 'badge-corrected',
+  RETRACTED: 'badge-retracted',
+};
+
+function formatMonth(month: string): string {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(year, monthIndex - 1, 1).toLocaleDateString(undefined, {
+    month: 'short',
+    year: 'numeric',
+  });
+}
+
 export default function CorrectionsPage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const requestedMonth = searchParams.get('month') || undefined;
+
+  const [entries, setEntries] = useState<CorrectionEntry[]>([]);
+  const [months, setMonths] = useState<CorrectionsMonth[]>([]);
+  const [month, setMonth] = useState<string | undefined>();
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [cursor, setCursor] = useState<string | undefined>();
+  const [hasMore, setHasMore] = useState(false);
+
+  useEffect(() => {
+    loadCorrections();
+  }, [requestedMonth]);
+
+  async function loadCorrections(loadMore = false) {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const result = await api.listCorrections({
+        month: loadMore ? month : requestedMonth,
+        cursor: loadMore ? cursor : undefined,
+        limit: 20,
+      });
+
+      if (loadMore) {
+        setEntries((prev) => [...prev, ...result.items]);
+      } else {
+        setEntries(result.items);
+      }
+
+      setMonth(result.month);
+      setMonths(result.months);
+      setCursor(result.cursor);
+      setHasMore(result.hasMore);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load corrections');
+    } finally {
+      setLoading(false);
+    }
+  }
+
   return (
     <div className="max-w-3xl mx-auto">
       <h1 className="text-3xl font-bold text-gray-900 mb-8">
@@ -75,8 +143,8 @@ export default function CorrectionsPage() {
             reaffirmation.
           </li>
           <li>
-            All dispute communications are preserved in the card's counterpoint
-            section.
+            Every dispute, correction, and retraction is recorded with its reason
+            and date in the card's status history.
           </li>
         </ol>
       </section>
@@ -93,16 +161,103 @@ export default function CorrectionsPage() {
         </p>
       </section>
 
-      {/* Recent Corrections */}
+      {/* Corrections Log */}
       <section>
-        <h2 className="text-xl font-semibold text-gray-900 mb-4">
-          Recent Corrections
-        </h2>
-        <div className="bg-gray-50 border border-gray-200 rounded-md p-6 text-center">
-          <p className="text-gray-500">
-            No corrections have been made yet.
-          </p>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">
+            Corrections Log
+          </h2>
+          <a
+            href={`${API_BASE}/corrections/feed.atom`}
+            className="text-sm text-primary-600 hover:text-primary-800"
+          >
+            Subscribe (Atom)
+          </a>
         </div>
+
+        {months.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-4">
+            {months.map(({ month: value, count }) => (
+              <button
+                key={value}
+                onClick={() => setSearchParams({ month: value })}
+                className={value === month ? 'btn-primary text-sm' : 'btn-secondary text-sm'}
+              >
+                {formatMonth(value)} ({count})
+              </button>
+            ))}
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-4">
+            <p className="text-red-800">{error}</p>
+          </div>
+        )}
+
+        {!loading && !error && entries.length === 0 ? (
+          <div className="bg-gray-50 border border-gray-200 rounded-md p-6 text-center">
+            <p className="text-gray-500">
+              No corrections have been made yet.
+            </p>
+          </div>
+        ) : (
+          <ul className="space-y-3">
+            {entries.map((entry) => (
+              <li
+                key={`${entry.targetType}-${entry.targetId}-${entry.at}`}
+                className="card p-4"
+              >
+                <div className="flex flex-wrap items-center gap-2 mb-1 text-sm">
+                  <span className={`badge ${kindClasses[entry.kind]}`}>
+                    {kindLabels[entry.kind]}
+                  </span>
+                  <time dateTime={entry.at} className="text-gray-500">
+                    {new Date(entry.at).toLocaleDateString()}
+                  </time>
+                  {entry.version && (
+                    <span className="text-gray-500">
+                      &middot; version {entry.previousVersion ? `${entry.previousVersion} → ` : ''}
+                      {entry.version}
+                    </span>
+                  )}
+                  {entry.targetType === 'relationship' && (
+                    <span className="text-gray-500">&middot; relationship</span>
+                  )}
+                </div>
+                <Link
+                  to={
+                    entry.targetType === 'card'
+                      ? `/cards/${entry.targetId}`
+                      : `/entities/${entry.entityIds[0]}`
+                  }
+                  className="font-medium text-gray-900 hover:text-primary-600"
+                >
+                  {entry.title}
+                </Link>
+                {entry.reason && (
+                  <p className="text-sm text-gray-700 mt-1 whitespace-pre-wrap">
+                    {entry.reason}
+                  </p>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {loading && (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+          </div>
+        )}
+
+        {hasMore && !loading && (
+          <div className="flex justify-center mt-6">
+            <button onClick={() => loadCorrections(true)} className="btn-secondary">
+              Load More
+            </button>
+          </div>
+        )}
       </section>
     </div>
   );
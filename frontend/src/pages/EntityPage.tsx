@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react';
 import { useParams, Link, useNavigate } from 'react-router-dom';
 import type {
-  Entity,
+  EntityWithScore,
   EvidenceCard as EvidenceCardType,
   RelationshipWithEntities,
   EntitySummary,
@@ -10,6 +10,7 @@ import { api } from '../lib/api';
 import EvidenceCard from '../components/EvidenceCard';
 import EntitySummarySection from '../components/EntitySummarySection';
 import EntityGraph from '../components/EntityGraph';
+import { OverallScore } from '../components/ScoreDisplay';
 
 const entityTypes: Record<string, string> = {
   CORPORATION: 'Corporation',
@@ -23,7 +24,7 @@ const entityTypes: Record<string, string> = {
 export default function EntityPage() {
   const { entityId } = useParams<{ entityId: string }>();
   const navigate = useNavigate();
-  const [entity, setEntity] = useState<Entity | null>(null);
+  const [entity, setEntity] = useState<EntityWithScore | null>(null);
   const [cards, setCards] = useState<EvidenceCardType[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -179,6 +180,20 @@ export default function EntityPage() {
             )}
           </div>
 
+          {/* Score */}
+          {entity.aggregateScore && entity.aggregateScore.totalCards > 0 && (
+            <div className="w-40">
+              <OverallScore score={entity.aggregateScore.overallScore} />
+              <p className="text-xs text-gray-400 mt-2 text-center">
+                From {entity.aggregateScore.totalCards} scored card
+                {entity.aggregateScore.totalCards !== 1 ? 's' : ''} &middot;{' '}
+                <Link to="/about" className="hover:text-gray-600 underline">
+                  methodology
+                </Link>
+              </p>
+            </div>
+          )}
+
           {/* Stats */}
           <div className="text-right space-y-2">
             <div>
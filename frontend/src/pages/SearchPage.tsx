@@ -0,0 +1,350 @@
+import { useState, useEffect } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import type {
+  SearchResult,
+  SearchHighlight,
+  SearchFacets,
+  SearchResultType,
+} from '@ledger/shared';
+import { api } from '../lib/api';
+
+const typeLabels: Record<string, string> = {
+  card: 'Evidence Cards',
+  entity: 'Entities',
+  source: 'Sources',
+};
+
+const categoryLabels: Record<string, string> = {
+  labor: 'Labor',
+  consumer: 'Consumer',
+  environment: 'Environment',
+  procurement: 'Procurement',
+  privacy: 'Privacy',
+  lobbying: 'Lobbying',
+  fraud: 'Fraud',
+  governance: 'Governance',
+  other: 'Other',
+};
+
+const fieldLabels: Record<string, string> = {
+  title: 'Title',
+  claim: 'Claim',
+  summary: 'Summary',
+  tags: 'Tags',
+  name: 'Name',
+  aliases: 'Also known as',
+  publisher: 'Publisher',
+  excerpt: 'Excerpt',
+};
+
+/** Render a snippet with its matched ranges wrapped in <mark> */
+function HighlightedSnippet({ highlight }: { highlight: SearchHighlight }) {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  highlight.ranges.forEach(([start, end], index) => {
+    if (start > position) {
+      parts.push(highlight.snippet.slice(position, start));
+    }
+    parts.push(
+      <mark key={index} className="bg-yellow-100 text-gray-900 rounded px-0.5">
+        {highlight.snippet.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  parts.push(highlight.snippet.slice(position));
+
+  return <>{parts}</>;
+}
+
+function resultLink(result: SearchResult): string | undefined {
+  if (result.type === 'card') return `/cards/${result.id}`;
+  if (result.type === 'entity') return `/entities/${result.id}`;
+  return undefined;
+}
+
+export default function SearchPage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const q = searchParams.get('q') || '';
+  const type = searchParams.get('type') || '';
+  const category = searchParams.get('category') || '';
+  const from = searchParams.get('from') || '';
+  const to = searchParams.get('to') || '';
+
+  const [input, setInput] = useState(q);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [facets, setFacets] = useState<SearchFacets | null>(null);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [cursor, setCursor] = useState<string | undefined>();
+  const [hasMore, setHasMore] = useState(false);
+
+  useEffect(() => {
+    setInput(q);
+    if (q) {
+      runSearch();
+    } else {
+      setResults([]);
+      setFacets(null);
+      setTotal(0);
+      setHasMore(false);
+    }
+  }, [q, type, category, from, to]);
+
+  async function runSearch(loadMore = false) {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const result = await api.search({
+        q,
+        type: (type || undefined) as SearchResultType | undefined,
+        category: category || undefined,
+        from: from || undefined,
+        to: to || undefined,
+        cursor: loadMore ? cursor : undefined,
+        limit: 20,
+      });
+
+      if (loadMore) {
+        setResults((prev) => [...prev, ...result.items]);
+      } else {
+        setResults(result.items);
+      }
+
+      setFacets(result.facets);
+      setTotal(result.total);
+      setCursor(result.cursor);
+      setHasMore(result.hasMore);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Search failed');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function updateParam(key: string, value: string) {
+    const next = new URLSearchParams(searchParams);
+    if (value) {
+      next.set(key, value);
+    } else {
+      next.delete(key);
+    }
+    setSearchParams(next);
+  }
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    updateParam('q', input.trim());
+  }
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Search</h1>
+        <p className="text-gray-600">
+          Search published evidence cards, entities, and the sources they cite.
+        </p>
+      </div>
+
+      {/* Search form */}
+      <form onSubmit={handleSubmit} className="flex gap-2 mb-4">
+        <label htmlFor="search-query" className="sr-only">
+          Search query
+        </label>
+        <input
+          id="search-query"
+          type="search"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder="e.g. wage theft, EPA settlement..."
+          className="input flex-1 max-w-xl"
+        />
+        <button type="submit" className="btn-primary">
+          Search
+        </button>
+      </form>
+
+      {/* Date range */}
+      <div className="flex flex-wrap items-center gap-2 mb-6 text-sm text-gray-600">
+        <label htmlFor="search-from">From</label>
+        <input
+          id="search-from"
+          type="date"
+          value={from}
+          onChange={(e) => updateParam('from', e.target.value)}
+          className="input"
+        />
+        <label htmlFor="search-to">to</label>
+        <input
+          id="search-to"
+          type="date"
+          value={to}
+          onChange={(e) => updateParam('to', e.target.value)}
+          className="input"
+        />
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-6">
+        {/* Facets */}
+        {facets && (
+          <aside className="md:w-56 flex-shrink-0 space-y-6">
+            <div>
+              <h2 className="text-xs font-medium text-gray-500 uppercase mb-2">Type</h2>
+              <ul className="space-y-1 text-sm">
+                <li>
+                  <button
+                    onClick={() => updateParam('type', '')}
+                    className={!type ? 'font-semibold text-gray-900' : 'text-primary-600 hover:underline'}
+                  >
+                    All
+                  </button>
+                </li>
+                {Object.entries(facets.type).map(([value, count]) => (
+                  <li key={value}>
+                    <button
+                      onClick={() => updateParam('type', value)}
+                      className={type === value ? 'font-semibold text-gray-900' : 'text-primary-600 hover:underline'}
+                    >
+                      {typeLabels[value] || value}
+                    </button>{' '}
+                    <span className="text-gray-400">({count})</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            {Object.keys(facets.category).length > 0 && (
+              <div>
+                <h2 className="text-xs font-medium text-gray-500 uppercase mb-2">Category</h2>
+                <ul className="space-y-1 text-sm">
+                  <li>
+                    <button
+                      onClick={() => updateParam('category', '')}
+                      className={!category ? 'font-semibold text-gray-900' : 'text-primary-600 hover:underline'}
+                    >
+                      All
+                    </button>
+                  </li>
+                  {Object.entries(facets.category).map(([value, count]) => (
+                    <li key={value}>
+                      <button
+                        onClick={() => updateParam('category', value)}
+                        className={category === value ? 'font-semibold text-gray-900' : 'text-primary-600 hover:underline'}
+                      >
+                        {categoryLabels[value] || value}
+                      </button>{' '}
+                      <span className="text-gray-400">({count})</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </aside>
+        )}
+
+        {/* Results */}
+        <div className="flex-1 min-w-0">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-6">
+              <p className="text-red-800">{error}</p>
+            </div>
+          )}
+
+          {q && !loading && !error && (
+            <p className="text-sm text-gray-500 mb-4">
+              {total} result{total !== 1 ? 's' : ''} for "{q}"
+            </p>
+          )}
+
+          <ul className="space-y-4">
+            {results.map((result) => {
+              const link = resultLink(result);
+              return (
+                <li key={`${result.type}-${result.id}`} className="card p-4">
+                  <div className="flex items-center gap-2 mb-1 text-xs text-gray-500">
+                    <span className="badge bg-gray-100 text-gray-700">
+                      {typeLabels[result.type] || result.type}
+                    </span>
+                    {result.category && (
+                      <span>{categoryLabels[result.category] || result.category}</span>
+                    )}
+                    {result.date && (
+                      <time dateTime={result.date}>
+                        {new Date(result.date).toLocaleDateString()}
+                      </time>
+                    )}
+                  </div>
+
+                  {link ? (
+                    <Link
+                      to={link}
+                      className="text-lg font-semibold text-gray-900 hover:text-primary-600"
+                    >
+                      {result.title}
+                    </Link>
+                  ) : (
+                    <a
+                      href={result.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-lg font-semibold text-gray-900 hover:text-primary-600"
+                    >
+                      {result.title}
+                    </a>
+                  )}
+
+                  {result.subtitle && result.type !== 'card' && (
+                    <p className="text-sm text-gray-500">{result.subtitle}</p>
+                  )}
+
+                  {result.highlights.length > 0 && (
+                    <dl className="mt-2 space-y-1 text-sm text-gray-700">
+                      {result.highlights
+                        .filter((highlight) => highlight.field !== 'title' && highlight.field !== 'name')
+                        .map((highlight) => (
+                          <div key={highlight.field}>
+                            <dt className="inline text-gray-500">
+                              {fieldLabels[highlight.field] || highlight.field}:{' '}
+                            </dt>
+                            <dd className="inline">
+                              <HighlightedSnippet highlight={highlight} />
+                            </dd>
+                          </div>
+                        ))}
+                    </dl>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+
+          {/* Loading */}
+          {loading && (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+            </div>
+          )}
+
+          {/* Empty state */}
+          {q && !loading && !error && results.length === 0 && (
+            <div className="text-center py-12">
+              <p className="text-gray-500">No results found.</p>
+            </div>
+          )}
+
+          {/* Load more */}
+          {hasMore && !loading && (
+            <div className="flex justify-center mt-8">
+              <button onClick={() => runSearch(true)} className="btn-secondary">
+                Load More
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import type { EvidenceCard as EvidenceCardType } from '@ledger/shared';
+import { api } from '../lib/api';
+import EvidenceCard from '../components/EvidenceCard';
+
+export default function TagPage() {
+  const { tag } = useParams<{ tag: string }>();
+  const [cards, setCards] = useState<EvidenceCardType[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [cursor, setCursor] = useState<string | undefined>();
+  const [hasMore, setHasMore] = useState(false);
+
+  useEffect(() => {
+    if (tag) {
+      loadCards();
+    }
+  }, [tag]);
+
+  async function loadCards(loadMore = false) {
+    if (!tag) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const result = await api.getTagCards(tag, {
+        cursor: loadMore ? cursor : undefined,
+        limit: 20,
+      });
+
+      if (loadMore) {
+        setCards((prev) => [...prev, ...result.items]);
+      } else {
+        setCards(result.items);
+      }
+
+      setCursor(result.cursor);
+      setHasMore(result.hasMore);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load cards');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div>
+      {/* Breadcrumb */}
+      <nav className="mb-4 text-sm">
+        <Link to="/tags" className="text-primary-600 hover:text-primary-800">
+          Tags
+        </Link>
+        <span className="mx-2 text-gray-400">/</span>
+        <span className="text-gray-600">{tag}</span>
+      </nav>
+
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">#{tag}</h1>
+        <p className="text-gray-600">
+          Published evidence cards tagged "{tag}", most recent events first.
+        </p>
+      </div>
+
+      {/* Error */}
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-6">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {/* Cards */}
+      <div className="space-y-4">
+        {cards.map((card) => (
+          <EvidenceCard key={card.cardId} card={card} showEntities={true} />
+        ))}
+      </div>
+
+      {/* Loading */}
+      {loading && (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+        </div>
+      )}
+
+      {/* Empty state */}
+      {!loading && cards.length === 0 && !error && (
+        <div className="text-center py-12">
+          <p className="text-gray-500">No evidence cards with this tag.</p>
+        </div>
+      )}
+
+      {/* Load more */}
+      {hasMore && !loading && (
+        <div className="flex justify-center mt-8">
+          <button onClick={() => loadCards(true)} className="btn-secondary">
+            Load More
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import type { TagSummary } from '@ledger/shared';
+import { api } from '../lib/api';
+
+export default function TagsPage() {
+  const [tags, setTags] = useState<TagSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [cursor, setCursor] = useState<string | undefined>();
+  const [hasMore, setHasMore] = useState(false);
+
+  useEffect(() => {
+    loadTags();
+  }, []);
+
+  async function loadTags(loadMore = false) {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const result = await api.listTags({
+        cursor: loadMore ? cursor : undefined,
+        limit: 100,
+      });
+
+      if (loadMore) {
+        setTags((prev) => [...prev, ...result.items]);
+      } else {
+        setTags(result.items);
+      }
+
+      setCursor(result.cursor);
+      setHasMore(result.hasMore);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load tags');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Tags</h1>
+        <p className="text-gray-600">
+          Browse published evidence by topic. Counts exclude retracted cards.
+        </p>
+      </div>
+
+      {/* Error */}
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-6">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {/* Tags */}
+      <div className="flex flex-wrap gap-2">
+        {tags.map((tag) => (
+          <Link
+            key={tag.tag}
+            to={`/tags/${encodeURIComponent(tag.tag)}`}
+            className="inline-flex items-center gap-2 px-3 py-1.5 bg-gray-100 text-gray-700 rounded-full hover:bg-primary-100 hover:text-primary-900"
+          >
+            <span>{tag.tag}</span>
+            <span className="text-xs text-gray-500">{tag.cardCount}</span>
+          </Link>
+        ))}
+      </div>
+
+      {/* Loading */}
+      {loading && (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+        </div>
+      )}
+
+      {/* Empty state */}
+      {!loading && tags.length === 0 && (
+        <div className="text-center py-12">
+          <p className="text-gray-500">No tags yet.</p>
+        </div>
+      )}
+
+      {/* Load more */}
+      {hasMore && !loading && (
+        <div className="flex justify-center mt-8">
+          <button onClick={() => loadTags(true)} className="btn-secondary">
+            Load More
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -11,11 +11,21 @@ import type {
   MonetaryAmountType,
   AffectedCountUnit,
   EntitySearchResult,
+  EvidenceCard,
+  CardPublishSchedule,
+  UpdateCardRequest,
+  VersionConflictDetails,
 } from '@ledger/shared';
-import { api } from '../../lib/api';
+import { Permission } from '@ledger/shared';
+import { api, getVersionConflict } from '../../lib/api';
+import { useAuth } from '../../lib/AuthContext';
 import ErrorMessage from '../../components/ErrorMessage';
 import EntitySelector from '../../components/EntitySelector';
 import CreateEntityModal from '../../components/CreateEntityModal';
+import CardHistory from '../../components/CardHistory';
+import ReviewThreads from '../../components/ReviewThreads';
+import SourceChangeAlerts from '../../components/SourceChangeAlerts';
+import MergeConflictDialog from '../../components/MergeConflictDialog';
 
 const categories: Array<{ value: CardCategory; label: string }> = [
   { value: 'labor', label: 'Labor' },
@@ -76,9 +86,30 @@ const affectedCountUnits: Array<{ value: AffectedCountUnit; label: string }> = [
   { value: 'OTHER', label: 'Other' },
 ];
 
+// Field names for review thread anchors and save conflicts
+const fieldLabels: Record<string, string> = {
+  title: 'Title',
+  claim: 'Claim',
+  summary: 'Summary',
+  category: 'Category',
+  entityIds: 'Entities',
+  eventDate: 'Event date',
+  jurisdiction: 'Jurisdiction',
+  sourceRefs: 'Sources',
+  evidenceStrength: 'Evidence strength',
+  tags: 'Tags',
+  scoreSignals: 'Score signals',
+  counterpoint: 'Response / counterpoint',
+  claimStance: 'Claim stance',
+  claimType: 'Claim type',
+  monetaryAmount: 'Monetary amount',
+  affectedCount: 'Affected count',
+};
+
 export default function AdminCardEditPage() {
   const { cardId } = useParams<{ cardId: string }>();
   const navigate = useNavigate();
+  const { can } = useAuth();
   const isNew = !cardId;
 
   const [loading, setLoading] = useState(!isNew);
@@ -120,6 +151,19 @@ export default function AdminCardEditPage() {
   // Current card status (for edit mode)
   const [currentStatus, setCurrentStatus] = useState<string>('DRAFT');
 
+  // Scheduled publish state
+  const [publishSchedule, setPublishSchedule] = useState<CardPublishSchedule | null>(null);
+  const [scheduleAt, setScheduleAt] = useState('');
+  const [scheduleNote, setScheduleNote] = useState('');
+  const [activeTab, setActiveTab] = useState<'edit' | 'review' | 'history'>('edit');
+
+  // Version this form was loaded from, sent with saves so concurrent edits conflict
+  const [version, setVersion] = useState<number | null>(null);
+  const [conflict, setConflict] = useState<{
+    details: VersionConflictDetails<EvidenceCard>;
+    data: UpdateCardRequest;
+  } | null>(null);
+
   useEffect(() => {
     if (cardId) {
       loadCard();
@@ -170,6 +214,8 @@ export default function AdminCardEditPage() {
       setSourceRefs(card.sourceRefs);
       setResolvedSources(card.sources || []);
       setCurrentStatus(card.status);
+      setVersion(card.version);
+      setPublishSchedule(card.publishSchedule ?? null);
       if (card.scoreSignals) {
         setScoreSignals(card.scoreSignals);
       }
@@ -196,38 +242,74 @@ export default function AdminCardEditPage() {
   }
 
   async function handleSave() {
+    const data = {
+      title,
+      claim,
+      summary,
+      category,
+      eventDate,
+      jurisdiction: jurisdiction || undefined,
+      evidenceStrength,
+      counterpoint: counterpoint || undefined,
+      tags: tags ? tags.split(',').map((t) => t.trim()) : [],
+      entityIds: selectedEntities.map((e) => e.entityId),
+      sourceRefs,
+      scoreSignals,
+      // Claim metadata (only include if set)
+      claimStance: claimStance || undefined,
+      claimType: claimType || undefined,
+      monetaryAmount: monetaryAmount || undefined,
+      affectedCount: affectedCount || undefined,
+    };
+
     try {
       setSaving(true);
       setError(null);
 
-      const data = {
-        title,
-        claim,
-        summary,
-        category,
-        eventDate,
-        jurisdiction: jurisdiction || undefined,
-        evidenceStrength,
-        counterpoint: counterpoint || undefined,
-        tags: tags ? tags.split(',').map((t) => t.trim()) : [],
-        entityIds: selectedEntities.map((e) => e.entityId),
-        sourceRefs,
-        scoreSignals,
-        // Claim metadata (only include if set)
-        claimStance: claimStance || undefined,
-        claimType: claimType || undefined,
-        monetaryAmount: monetaryAmount || undefined,
-        affectedCount: affectedCount || undefined,
-      };
-
       if (isNew) {
         const card = await api.createCard(data);
         navigate(`/admin/cards/${card.cardId}/edit`);
       } else {
-        await api.updateCard(cardId!, data);
+        const card = await api.updateCard(cardId!, { ...data, expectedVersion: version ?? undefined });
+        setVersion(card.version);
+      }
+    } catch (err) {
+      const details = getVersionConflict<EvidenceCard>(err);
+      if (details && !isNew) {
+        setConflict({ details, data });
+      } else {
+        setError(err instanceof Error ? err : new Error('Failed to save card'));
       }
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  // Save again on top of the current version, taking the chosen fields from it
+  async function handleMerge(theirs: string[]) {
+    if (!conflict) return;
+    const { details, data } = conflict;
+    const merged: Record<string, unknown> = { ...data };
+    for (const field of theirs) {
+      merged[field] = (details.current as unknown as Record<string, unknown>)[field];
+    }
+
+    try {
+      setSaving(true);
+      await api.updateCard(cardId!, {
+        ...(merged as UpdateCardRequest),
+        expectedVersion: details.currentVersion,
+      });
+      setConflict(null);
+      await loadCard();
     } catch (err) {
-      setError(err instanceof Error ? err : new Error('Failed to save card'));
+      const next = getVersionConflict<EvidenceCard>(err);
+      if (next) {
+        setConflict({ details: next, data: merged as UpdateCardRequest });
+      } else {
+        setConflict(null);
+        setError(err instanceof Error ? err : new Error('Failed to save card'));
+      }
     } finally {
       setSaving(false);
     }
@@ -236,8 +318,9 @@ export default function AdminCardEditPage() {
   async function handleSubmitForReview() {
     try {
       setSaving(true);
-      await api.submitCard(cardId!);
+      const card = await api.submitCard(cardId!);
       setCurrentStatus('REVIEW');
+      setVersion(card.version);
     } catch (err) {
       setError(err instanceof Error ? err : new Error('Failed to submit card'));
     } finally {
@@ -248,8 +331,9 @@ export default function AdminCardEditPage() {
   async function handlePublish() {
     try {
       setSaving(true);
-      await api.publishCard(cardId!);
+      const card = await api.publishCard(cardId!);
       setCurrentStatus('PUBLISHED');
+      setVersion(card.version);
     } catch (err) {
       setError(err instanceof Error ? err : new Error('Failed to publish card'));
     } finally {
@@ -257,6 +341,39 @@ export default function AdminCardEditPage() {
     }
   }
 
+  async function handleSchedule() {
+    if (!scheduleAt) return;
+    try {
+      setSaving(true);
+      setError(null);
+      // datetime-local values are in the browser's timezone
+      const schedule = await api.schedulePublish(cardId!, {
+        scheduledPublishAt: new Date(scheduleAt).toISOString(),
+        note: scheduleNote || undefined,
+      });
+      setPublishSchedule(schedule);
+      setScheduleAt('');
+      setScheduleNote('');
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Failed to schedule publish'));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleUnschedule() {
+    try {
+      setSaving(true);
+      setError(null);
+      await api.unschedulePublish(cardId!);
+      setPublishSchedule(null);
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Failed to cancel scheduled publish'));
+    } finally {
+      setSaving(false);
+    }
+  }
+
   if (loading) {
     return (
       <div className="flex justify-center py-12">
@@ -280,319 +397,313 @@ export default function AdminCardEditPage() {
 
       <ErrorMessage error={error} onDismiss={() => setError(null)} />
 
-      <div className="card p-6 space-y-6">
-        {/* Title */}
-        <div>
-          <label htmlFor="title" className="label">
-            Title *
-          </label>
-          <input
-            id="title"
-            type="text"
-            value={title}
-            onChange={(e) => setTitle(e.target.value)}
-            className="input"
-            required
-          />
+      {!isNew && (
+        <div className="border-b border-gray-200 mb-6">
+          <nav className="flex space-x-8">
+            <button
+              onClick={() => setActiveTab('edit')}
+              className={`py-3 px-1 border-b-2 font-medium text-sm transition-colors ${
+                activeTab === 'edit'
+                  ? 'border-primary-600 text-primary-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              Edit
+            </button>
+            <button
+              onClick={() => setActiveTab('review')}
+              className={`py-3 px-1 border-b-2 font-medium text-sm transition-colors ${
+                activeTab === 'review'
+                  ? 'border-primary-600 text-primary-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              Review
+            </button>
+            <button
+              onClick={() => setActiveTab('history')}
+              className={`py-3 px-1 border-b-2 font-medium text-sm transition-colors ${
+                activeTab === 'history'
+                  ? 'border-primary-600 text-primary-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              History
+            </button>
+          </nav>
         </div>
-
-        {/* Claim */}
-        <div>
-          <label htmlFor="claim" className="label">
-            Claim * <span className="font-normal text-gray-500">(one sentence, falsifiable)</span>
-          </label>
-          <textarea
-            id="claim"
-            value={claim}
-            onChange={(e) => setClaim(e.target.value)}
-            className="input"
-            rows={2}
-            required
+      )}
+
+      {activeTab === 'review' && cardId && (
+        <div className="card p-6 space-y-6">
+          <SourceChangeAlerts cardId={cardId} />
+          <ReviewThreads
+            targetType="card"
+            targetId={cardId}
+            fields={fieldLabels}
+            sourceIds={sourceRefs}
+            open={currentStatus === 'DRAFT' || currentStatus === 'REVIEW'}
           />
         </div>
+      )}
 
-        {/* Summary */}
-        <div>
-          <label htmlFor="summary" className="label">
-            Summary * <span className="font-normal text-gray-500">(plain language explanation)</span>
-          </label>
-          <textarea
-            id="summary"
-            value={summary}
-            onChange={(e) => setSummary(e.target.value)}
-            className="input"
-            rows={4}
-            required
-          />
+      {activeTab === 'history' && cardId && (
+        <div className="card p-6">
+          <CardHistory cardId={cardId} admin />
         </div>
+      )}
 
-        {/* Category & Evidence Strength */}
-        <div className="grid gap-4 md:grid-cols-2">
-          <div>
-            <label htmlFor="category" className="label">
-              Category *
-            </label>
-            <select
-              id="category"
-              value={category}
-              onChange={(e) => setCategory(e.target.value as CardCategory)}
-              className="input"
-            >
-              {categories.map((cat) => (
-                <option key={cat.value} value={cat.value}>
-                  {cat.label}
-                </option>
-              ))}
-            </select>
-          </div>
+      {activeTab === 'edit' && (
+        <div className="card p-6 space-y-6">
+          {/* Title */}
           <div>
-            <label htmlFor="evidenceStrength" className="label">
-              Evidence Strength *
+            <label htmlFor="title" className="label">
+              Title *
             </label>
-            <select
-              id="evidenceStrength"
-              value={evidenceStrength}
-              onChange={(e) => setEvidenceStrength(e.target.value as EvidenceStrength)}
+            <input
+              id="title"
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
               className="input"
-            >
-              {evidenceStrengths.map((str) => (
-                <option key={str.value} value={str.value}>
-                  {str.label}
-                </option>
-              ))}
-            </select>
+              required
+            />
           </div>
-        </div>
 
-        {/* Event Date & Jurisdiction */}
-        <div className="grid gap-4 md:grid-cols-2">
+          {/* Claim */}
           <div>
-            <label htmlFor="eventDate" className="label">
-              Event Date *
+            <label htmlFor="claim" className="label">
+              Claim * <span className="font-normal text-gray-500">(one sentence, falsifiable)</span>
             </label>
-            <input
-              id="eventDate"
-              type="date"
-              value={eventDate}
-              onChange={(e) => setEventDate(e.target.value)}
+            <textarea
+              id="claim"
+              value={claim}
+              onChange={(e) => setClaim(e.target.value)}
               className="input"
+              rows={2}
               required
             />
           </div>
+
+          {/* Summary */}
           <div>
-            <label htmlFor="jurisdiction" className="label">
-              Jurisdiction
+            <label htmlFor="summary" className="label">
+              Summary * <span className="font-normal text-gray-500">(plain language explanation)</span>
             </label>
-            <input
-              id="jurisdiction"
-              type="text"
-              value={jurisdiction}
-              onChange={(e) => setJurisdiction(e.target.value)}
+            <textarea
+              id="summary"
+              value={summary}
+              onChange={(e) => setSummary(e.target.value)}
               className="input"
-              placeholder="e.g., US-FED, CA, NYC"
+              rows={4}
+              required
             />
           </div>
-        </div>
-
-        {/* Entities */}
-        <div>
-          <label className="label">
-            Entities *
-          </label>
-          <p className="text-xs text-gray-500 mb-2">
-            Search for existing entities or create new ones.
-          </p>
-          <EntitySelector
-            value={selectedEntities}
-            onChange={setSelectedEntities}
-            multiple={true}
-            allowCreate={true}
-            onCreateNew={handleCreateNewEntity}
-            placeholder="Search entities..."
-          />
-        </div>
-
-        {/* Sources */}
-        <div>
-          <label className="label">
-            Sources
-          </label>
-          {resolvedSources.length > 0 ? (
-            <div className="space-y-2">
-              {resolvedSources.map((source) => (
-                <div
-                  key={source.sourceId}
-                  className="flex items-center justify-between p-3 bg-gray-50 rounded-lg border"
-                >
-                  <div className="flex-1 min-w-0">
-                    <p className="font-medium text-gray-900 truncate">{source.title}</p>
-                    {source.url && (
-                      <a
-                        href={source.url}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="text-sm text-blue-600 hover:underline truncate block"
-                      >
-                        {source.url}
-                      </a>
-                    )}
-                  </div>
-                  <span
-                    className={`ml-3 px-2 py-1 text-xs font-medium rounded ${
-                      source.verificationStatus === 'VERIFIED'
-                        ? 'bg-green-100 text-green-800'
-                        : source.verificationStatus === 'PENDING'
-                        ? 'bg-yellow-100 text-yellow-800'
-                        : 'bg-gray-100 text-gray-800'
-                    }`}
-                  >
-                    {source.verificationStatus}
-                  </span>
-                </div>
-              ))}
-            </div>
-          ) : sourceRefs.length > 0 ? (
-            <p className="text-sm text-gray-500 italic">
-              {sourceRefs.length} source(s) linked (loading details...)
-            </p>
-          ) : (
-            <p className="text-sm text-gray-500 italic">
-              No sources linked. Sources are automatically linked when promoting from the Intake Inbox.
-            </p>
-          )}
-        </div>
-
-        {/* Counterpoint */}
-        <div>
-          <label htmlFor="counterpoint" className="label">
-            Counterpoint / Response
-          </label>
-          <textarea
-            id="counterpoint"
-            value={counterpoint}
-            onChange={(e) => setCounterpoint(e.target.value)}
-            className="input"
-            rows={3}
-            placeholder="Company response, rebuttal, or appeal result"
-          />
-        </div>
-
-        {/* Tags */}
-        <div>
-          <label htmlFor="tags" className="label">
-            Tags <span className="font-normal text-gray-500">(comma-separated)</span>
-          </label>
-          <input
-            id="tags"
-            type="text"
-            value={tags}
-            onChange={(e) => setTags(e.target.value)}
-            className="input"
-            placeholder="tag1, tag2, tag3"
-          />
-        </div>
-
-        {/* Claim Metadata Section */}
-        <div className="border-t border-gray-200 pt-6">
-          <h3 className="text-lg font-medium text-gray-900 mb-4">
-            Claim Metadata <span className="text-sm font-normal text-gray-500">(optional)</span>
-          </h3>
 
-          {/* Claim Stance & Type */}
-          <div className="grid gap-4 md:grid-cols-2 mb-4">
+          {/* Category & Evidence Strength */}
+          <div className="grid gap-4 md:grid-cols-2">
             <div>
-              <label htmlFor="claimStance" className="label">
-                Claim Stance
+              <label htmlFor="category" className="label">
+                Category *
               </label>
               <select
-                id="claimStance"
-                value={claimStance}
-                onChange={(e) => setClaimStance(e.target.value as ClaimStance | '')}
+                id="category"
+                value={category}
+                onChange={(e) => setCategory(e.target.value as CardCategory)}
                 className="input"
               >
-                <option value="">-- Select --</option>
-                {claimStances.map((s) => (
-                  <option key={s.value} value={s.value}>
-                    {s.label}
+                {categories.map((cat) => (
+                  <option key={cat.value} value={cat.value}>
+                    {cat.label}
                   </option>
                 ))}
               </select>
             </div>
             <div>
-              <label htmlFor="claimType" className="label">
-                Claim Type
+              <label htmlFor="evidenceStrength" className="label">
+                Evidence Strength *
               </label>
               <select
-                id="claimType"
-                value={claimType}
-                onChange={(e) => setClaimType(e.target.value as ClaimType | '')}
+                id="evidenceStrength"
+                value={evidenceStrength}
+                onChange={(e) => setEvidenceStrength(e.target.value as EvidenceStrength)}
                 className="input"
               >
-                <option value="">-- Select --</option>
-                {claimTypes.map((t) => (
-                  <option key={t.value} value={t.value}>
-                    {t.label}
+                {evidenceStrengths.map((str) => (
+                  <option key={str.value} value={str.value}>
+                    {str.label}
                   </option>
                 ))}
               </select>
             </div>
           </div>
 
-          {/* Monetary Amount */}
-          <div className="mb-4">
-            <label className="label">Monetary Amount</label>
-            <div className="grid gap-4 md:grid-cols-3">
-              <div>
-                <input
-                  type="number"
-                  placeholder="Amount in dollars"
-                  value={monetaryAmount ? monetaryAmount.value / 100 : ''}
-                  onChange={(e) => {
-                    const dollars = parseFloat(e.target.value);
-                    if (isNaN(dollars) || dollars === 0) {
-                      setMonetaryAmount(null);
-                    } else {
-                      setMonetaryAmount({
-                        value: Math.round(dollars * 100),
-                        currency: monetaryAmount?.currency || 'USD',
-                        type: monetaryAmount?.type || 'PENALTY',
-                      });
-                    }
-                  }}
-                  className="input"
-                />
+          {/* Event Date & Jurisdiction */}
+          <div className="grid gap-4 md:grid-cols-2">
+            <div>
+              <label htmlFor="eventDate" className="label">
+                Event Date *
+              </label>
+              <input
+                id="eventDate"
+                type="date"
+                value={eventDate}
+                onChange={(e) => setEventDate(e.target.value)}
+                className="input"
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="jurisdiction" className="label">
+                Jurisdiction
+              </label>
+              <input
+                id="jurisdiction"
+                type="text"
+                value={jurisdiction}
+                onChange={(e) => setJurisdiction(e.target.value)}
+                className="input"
+                placeholder="e.g., US-FED, CA, NYC"
+              />
+            </div>
+          </div>
+
+          {/* Entities */}
+          <div>
+            <label className="label">
+              Entities *
+            </label>
+            <p className="text-xs text-gray-500 mb-2">
+              Search for existing entities or create new ones.
+            </p>
+            <EntitySelector
+              value={selectedEntities}
+              onChange={setSelectedEntities}
+              multiple={true}
+              allowCreate={true}
+              onCreateNew={handleCreateNewEntity}
+              placeholder="Search entities..."
+            />
+          </div>
+
+          {/* Sources */}
+          <div>
+            <label className="label">
+              Sources
+            </label>
+            {resolvedSources.length > 0 ? (
+              <div className="space-y-2">
+                {resolvedSources.map((source) => (
+                  <div
+                    key={source.sourceId}
+                    className="flex items-center justify-between p-3 bg-gray-50 rounded-lg border"
+                  >
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-gray-900 truncate">{source.title}</p>
+                      {source.url && (
+                        <a
+                          href={source.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-sm text-blue-600 hover:underline truncate block"
+                        >
+                          {source.url}
+                        </a>
+                      )}
+                    </div>
+                    <span
+                      className={`ml-3 px-2 py-1 text-xs font-medium rounded ${
+                        source.verificationStatus === 'VERIFIED'
+                          ? 'bg-green-100 text-green-800'
+                          : source.verificationStatus === 'PENDING'
+                          ? 'bg-yellow-100 text-yellow-800'
+                          : 'bg-gray-100 text-gray-800'
+                      }`}
+                    >
+                      {source.verificationStatus}
+                    </span>
+                  </div>
+                ))}
               </div>
+            ) : sourceRefs.length > 0 ? (
+              <p className="text-sm text-gray-500 italic">
+                {sourceRefs.length} source(s) linked (loading details...)
+              </p>
+            ) : (
+              <p className="text-sm text-gray-500 italic">
+                No sources linked. Sources are automatically linked when promoting from the Intake Inbox.
+              </p>
+            )}
+          </div>
+
+          {/* Counterpoint */}
+          <div>
+            <label htmlFor="counterpoint" className="label">
+              Counterpoint / Response
+            </label>
+            <textarea
+              id="counterpoint"
+              value={counterpoint}
+              onChange={(e) => setCounterpoint(e.target.value)}
+              className="input"
+              rows={3}
+              placeholder="Company response, rebuttal, or appeal result"
+            />
+          </div>
+
+          {/* Tags */}
+          <div>
+            <label htmlFor="tags" className="label">
+              Tags <span className="font-normal text-gray-500">(comma-separated)</span>
+            </label>
+            <input
+              id="tags"
+              type="text"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              className="input"
+              placeholder="tag1, tag2, tag3"
+            />
+          </div>
+
+          {/* Claim Metadata Section */}
+          <div className="border-t border-gray-200 pt-6">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">
+              Claim Metadata <span className="text-sm font-normal text-gray-500">(optional)</span>
+            </h3>
+
+            {/* Claim Stance & Type */}
+            <div className="grid gap-4 md:grid-cols-2 mb-4">
               <div>
+                <label htmlFor="claimStance" className="label">
+                  Claim Stance
+                </label>
                 <select
-                  value={monetaryAmount?.currency || 'USD'}
-                  onChange={(e) => {
-                    if (monetaryAmount) {
-                      setMonetaryAmount({ ...monetaryAmount, currency: e.target.value });
-                    }
-                  }}
+                  id="claimStance"
+                  value={claimStance}
+                  onChange={(e) => setClaimStance(e.target.value as ClaimStance | '')}
                   className="input"
-                  disabled={!monetaryAmount}
                 >
-                  <option value="USD">USD</option>
-                  <option value="EUR">EUR</option>
-                  <option value="GBP">GBP</option>
+                  <option value="">-- Select --</option>
+                  {claimStances.map((s) => (
+                    <option key={s.value} value={s.value}>
+                      {s.label}
+                    </option>
+                  ))}
                 </select>
               </div>
               <div>
+                <label htmlFor="claimType" className="label">
+                  Claim Type
+                </label>
                 <select
-                  value={monetaryAmount?.type || ''}
-                  onChange={(e) => {
-                    if (monetaryAmount) {
-                      setMonetaryAmount({
-                        ...monetaryAmount,
-                        type: e.target.value as MonetaryAmountType,
-                      });
-                    }
-                  }}
+                  id="claimType"
+                  value={claimType}
+                  onChange={(e) => setClaimType(e.target.value as ClaimType | '')}
                   className="input"
-                  disabled={!monetaryAmount}
                 >
-                  {monetaryAmountTypes.map((t) => (
+                  <option value="">-- Select --</option>
+                  {claimTypes.map((t) => (
                     <option key={t.value} value={t.value}>
                       {t.label}
                     </option>
@@ -600,143 +711,276 @@ export default function AdminCardEditPage() {
                 </select>
               </div>
             </div>
-          </div>
 
-          {/* Affected Count */}
-          <div className="mb-4">
-            <label className="label">Affected Count</label>
-            <div className="grid gap-4 md:grid-cols-3">
-              <div>
-                <input
-                  type="number"
-                  placeholder="Count"
-                  value={affectedCount?.count || ''}
-                  onChange={(e) => {
-                    const count = parseInt(e.target.value);
-                    if (isNaN(count) || count === 0) {
-                      setAffectedCount(null);
-                    } else {
-                      setAffectedCount({
-                        count,
-                        unit: affectedCount?.unit || 'INDIVIDUALS',
-                        isEstimate: affectedCount?.isEstimate || false,
-                      });
-                    }
-                  }}
-                  className="input"
-                />
-              </div>
-              <div>
-                <select
-                  value={affectedCount?.unit || ''}
-                  onChange={(e) => {
-                    if (affectedCount) {
-                      setAffectedCount({
-                        ...affectedCount,
-                        unit: e.target.value as AffectedCountUnit,
-                      });
-                    }
-                  }}
-                  className="input"
-                  disabled={!affectedCount}
-                >
-                  {affectedCountUnits.map((u) => (
-                    <option key={u.value} value={u.value}>
-                      {u.label}
-                    </option>
-                  ))}
-                </select>
+            {/* Monetary Amount */}
+            <div className="mb-4">
+              <label className="label">Monetary Amount</label>
+              <div className="grid gap-4 md:grid-cols-3">
+                <div>
+                  <input
+                    type="number"
+                    placeholder="Amount in dollars"
+                    value={monetaryAmount ? monetaryAmount.value / 100 : ''}
+                    onChange={(e) => {
+                      const dollars = parseFloat(e.target.value);
+                      if (isNaN(dollars) || dollars === 0) {
+                        setMonetaryAmount(null);
+                      } else {
+                        setMonetaryAmount({
+                          value: Math.round(dollars * 100),
+                          currency: monetaryAmount?.currency || 'USD',
+                          type: monetaryAmount?.type || 'PENALTY',
+                        });
+                      }
+                    }}
+                    className="input"
+                  />
+                </div>
+                <div>
+                  <select
+                    value={monetaryAmount?.currency || 'USD'}
+                    onChange={(e) => {
+                      if (monetaryAmount) {
+                        setMonetaryAmount({ ...monetaryAmount, currency: e.target.value });
+                      }
+                    }}
+                    className="input"
+                    disabled={!monetaryAmount}
+                  >
+                    <option value="USD">USD</option>
+                    <option value="EUR">EUR</option>
+                    <option value="GBP">GBP</option>
+                  </select>
+                </div>
+                <div>
+                  <select
+                    value={monetaryAmount?.type || ''}
+                    onChange={(e) => {
+                      if (monetaryAmount) {
+                        setMonetaryAmount({
+                          ...monetaryAmount,
+                          type: e.target.value as MonetaryAmountType,
+                        });
+                      }
+                    }}
+                    className="input"
+                    disabled={!monetaryAmount}
+                  >
+                    {monetaryAmountTypes.map((t) => (
+                      <option key={t.value} value={t.value}>
+                        {t.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
               </div>
-              <div className="flex items-center">
-                <input
-                  type="checkbox"
-                  id="isEstimate"
-                  checked={affectedCount?.isEstimate || false}
-                  onChange={(e) => {
-                    if (affectedCount) {
-                      setAffectedCount({
-                        ...affectedCount,
-                        isEstimate: e.target.checked,
-                      });
-                    }
-                  }}
-                  className="mr-2"
-                  disabled={!affectedCount}
-                />
-                <label htmlFor="isEstimate" className="text-sm text-gray-600">
-                  Is Estimate
-                </label>
+            </div>
+
+            {/* Affected Count */}
+            <div className="mb-4">
+              <label className="label">Affected Count</label>
+              <div className="grid gap-4 md:grid-cols-3">
+                <div>
+                  <input
+                    type="number"
+                    placeholder="Count"
+                    value={affectedCount?.count || ''}
+                    onChange={(e) => {
+                      const count = parseInt(e.target.value);
+                      if (isNaN(count) || count === 0) {
+                        setAffectedCount(null);
+                      } else {
+                        setAffectedCount({
+                          count,
+                          unit: affectedCount?.unit || 'INDIVIDUALS',
+                          isEstimate: affectedCount?.isEstimate || false,
+                        });
+                      }
+                    }}
+                    className="input"
+                  />
+                </div>
+                <div>
+                  <select
+                    value={affectedCount?.unit || ''}
+                    onChange={(e) => {
+                      if (affectedCount) {
+                        setAffectedCount({
+                          ...affectedCount,
+                          unit: e.target.value as AffectedCountUnit,
+                        });
+                      }
+                    }}
+                    className="input"
+                    disabled={!affectedCount}
+                  >
+                    {affectedCountUnits.map((u) => (
+                      <option key={u.value} value={u.value}>
+                        {u.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex items-center">
+                  <input
+                    type="checkbox"
+                    id="isEstimate"
+                    checked={affectedCount?.isEstimate || false}
+                    onChange={(e) => {
+                      if (affectedCount) {
+                        setAffectedCount({
+                          ...affectedCount,
+                          isEstimate: e.target.checked,
+                        });
+                      }
+                    }}
+                    className="mr-2"
+                    disabled={!affectedCount}
+                  />
+                  <label htmlFor="isEstimate" className="text-sm text-gray-600">
+                    Is Estimate
+                  </label>
+                </div>
               </div>
             </div>
           </div>
-        </div>
 
-        {/* Score Signals */}
-        <div>
-          <h3 className="label mb-3">Score Signals (0-5)</h3>
-          <div className="grid gap-4 md:grid-cols-3">
-            {(Object.keys(scoreSignals) as Array<keyof ScoreSignals>).map((key) => (
-              <div key={key}>
-                <label htmlFor={key} className="text-sm text-gray-600 capitalize">
-                  {key}
-                </label>
-                <input
-                  id={key}
-                  type="number"
-                  min={0}
-                  max={5}
-                  value={scoreSignals[key]}
-                  onChange={(e) =>
-                    setScoreSignals({
-                      ...scoreSignals,
-                      [key]: parseInt(e.target.value) || 0,
-                    })
-                  }
-                  className="input"
-                />
-              </div>
-            ))}
+          {/* Score Signals */}
+          <div>
+            <h3 className="label mb-3">Score Signals (0-5)</h3>
+            <div className="grid gap-4 md:grid-cols-3">
+              {(Object.keys(scoreSignals) as Array<keyof ScoreSignals>).map((key) => (
+                <div key={key}>
+                  <label htmlFor={key} className="text-sm text-gray-600 capitalize">
+                    {key}
+                  </label>
+                  <input
+                    id={key}
+                    type="number"
+                    min={0}
+                    max={5}
+                    value={scoreSignals[key]}
+                    onChange={(e) =>
+                      setScoreSignals({
+                        ...scoreSignals,
+                        [key]: parseInt(e.target.value) || 0,
+                      })
+                    }
+                    className="input"
+                  />
+                </div>
+              ))}
+            </div>
           </div>
-        </div>
 
-        {/* Actions */}
-        <div className="flex flex-wrap gap-3 pt-4 border-t border-gray-200">
-          <button
-            onClick={handleSave}
-            disabled={saving}
-            className="btn-primary"
-          >
-            {saving ? 'Saving...' : 'Save Draft'}
-          </button>
-
-          {!isNew && currentStatus === 'DRAFT' && (
+          {/* Actions */}
+          <div className="flex flex-wrap gap-3 pt-4 border-t border-gray-200">
             <button
-              onClick={handleSubmitForReview}
+              onClick={handleSave}
               disabled={saving}
-              className="btn-secondary"
+              className="btn-primary"
             >
-              Submit for Review
+              {saving ? 'Saving...' : 'Save Draft'}
             </button>
-          )}
 
-          {!isNew && currentStatus === 'REVIEW' && (
+            {!isNew && currentStatus === 'DRAFT' && (
+              <button
+                onClick={handleSubmitForReview}
+                disabled={saving}
+                className="btn-secondary"
+              >
+                Submit for Review
+              </button>
+            )}
+
+            {!isNew && currentStatus === 'REVIEW' && can(Permission.CARD_PUBLISH) && (
+              <button
+                onClick={handlePublish}
+                disabled={saving}
+                className="btn-primary bg-green-600 hover:bg-green-700"
+              >
+                Publish
+              </button>
+            )}
+
             <button
-              onClick={handlePublish}
-              disabled={saving}
-              className="btn-primary bg-green-600 hover:bg-green-700"
+              onClick={() => navigate('/admin/dashboard')}
+              className="btn-secondary"
             >
-              Publish
+              Cancel
             </button>
-          )}
+          </div>
 
-          <button
-            onClick={() => navigate('/admin/dashboard')}
-            className="btn-secondary"
-          >
-            Cancel
-          </button>
+          {/* Scheduled publish */}
+          {!isNew && currentStatus === 'REVIEW' && can(Permission.CARD_PUBLISH) && (
+            <div className="pt-4 border-t border-gray-200">
+              <h3 className="text-sm font-medium text-gray-900 mb-2">Scheduled publish</h3>
+              {publishSchedule ? (
+                <div className="space-y-2">
+                  <p className="text-sm text-gray-700">
+                    Publishes{' '}
+                    <time dateTime={publishSchedule.scheduledPublishAt}>
+                      {new Date(publishSchedule.scheduledPublishAt).toLocaleString()}
+                    </time>{' '}
+                    as {publishSchedule.scheduledBy}
+                    {publishSchedule.note && <> &middot; {publishSchedule.note}</>}
+                  </p>
+                  {publishSchedule.lastError && (
+                    <p className="text-sm text-red-600">
+                      Blocked at last attempt: {publishSchedule.lastError}
+                    </p>
+                  )}
+                  <button onClick={handleUnschedule} disabled={saving} className="btn-secondary text-sm">
+                    Cancel schedule
+                  </button>
+                </div>
+              ) : (
+                <div className="flex flex-wrap items-end gap-3">
+                  <div>
+                    <label htmlFor="scheduleAt" className="label">Publish at</label>
+                    <input
+                      id="scheduleAt"
+                      type="datetime-local"
+                      value={scheduleAt}
+                      onChange={(e) => setScheduleAt(e.target.value)}
+                      className="input"
+                    />
+                  </div>
+                  <div className="flex-1 min-w-[12rem]">
+                    <label htmlFor="scheduleNote" className="label">Embargo note</label>
+                    <input
+                      id="scheduleNote"
+                      type="text"
+                      value={scheduleNote}
+                      onChange={(e) => setScheduleNote(e.target.value)}
+                      maxLength={2000}
+                      placeholder="Optional, e.g. agency embargo terms"
+                      className="input"
+                    />
+                  </div>
+                  <button
+                    onClick={handleSchedule}
+                    disabled={saving || !scheduleAt}
+                    className="btn-secondary"
+                  >
+                    Schedule
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
         </div>
-      </div>
+      )}
+
+      {conflict && (
+        <MergeConflictDialog
+          conflict={conflict.details}
+          labels={fieldLabels}
+          saving={saving}
+          onMerge={handleMerge}
+          onCancel={() => setConflict(null)}
+        />
+      )}
 
       {/* Create Entity Modal */}
       <CreateEntityModal
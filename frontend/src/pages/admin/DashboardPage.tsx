@@ -1,10 +1,11 @@
 import { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
-import type { DashboardStats } from '@ledger/shared';
+import type { CardPublishSchedule, DashboardStats } from '@ledger/shared';
 import { api } from '../../lib/api';
 
 export default function AdminDashboardPage() {
   const [stats, setStats] = useState<DashboardStats | null>(null);
+  const [scheduled, setScheduled] = useState<CardPublishSchedule[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -13,8 +14,12 @@ export default function AdminDashboardPage() {
 
   async function loadStats() {
     try {
-      const data = await api.getAdminStats();
+      const [data, schedules] = await Promise.all([
+        api.getAdminStats(),
+        api.getScheduledPublishes(),
+      ]);
       setStats(data);
+      setScheduled(schedules.items);
     } catch (err) {
       console.error('Failed to load stats:', err);
     } finally {
@@ -121,6 +126,41 @@ export default function AdminDashboardPage() {
         </Link>
       </div>
 
+      {/* Scheduled publishes, soonest first */}
+      <div className="card p-6 mb-8">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Scheduled</h2>
+        {loading ? (
+          <div className="text-center py-4 text-gray-500">-</div>
+        ) : scheduled.length === 0 ? (
+          <div className="text-center py-4 text-gray-500">No cards scheduled to publish.</div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {scheduled.map((schedule) => (
+              <li key={schedule.cardId} className="py-3 flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <Link
+                    to={`/admin/cards/${schedule.cardId}/edit`}
+                    className="text-sm font-medium text-primary-600 hover:text-primary-800"
+                  >
+                    {schedule.title}
+                  </Link>
+                  {schedule.note && <p className="text-xs text-gray-500">{schedule.note}</p>}
+                  {schedule.lastError && (
+                    <p className="text-xs text-red-600">Blocked: {schedule.lastError}</p>
+                  )}
+                </div>
+                <time
+                  dateTime={schedule.scheduledPublishAt}
+                  className="text-sm text-gray-600 whitespace-nowrap"
+                >
+                  {new Date(schedule.scheduledPublishAt).toLocaleString()}
+                </time>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
       {/* Recent activity placeholder */}
       <div className="card p-6">
         <h2 className="text-lg font-semibold text-gray-900 mb-4">
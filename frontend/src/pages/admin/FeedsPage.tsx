@@ -0,0 +1,764 @@
+import { useState, useEffect } from 'react';
+import type {
+  CreateIntakeFeedRequest,
+  FeedHealth,
+  FeedHealthStatus,
+  FeedKind,
+  FeedPreview,
+  HtmlListingConfig,
+  IntakeFeed,
+  IntakeRailsConfig,
+  IntakeRunSummary,
+} from '@ledger/shared';
+import { Permission } from '@ledger/shared';
+import { api } from '../../lib/api';
+import { useAuth } from '../../lib/AuthContext';
+import ErrorMessage from '../../components/ErrorMessage';
+import { useToast } from '../../components/Toast';
+
+interface FeedForm {
+  id: string;
+  name: string;
+  publisher: string;
+  kind: FeedKind;
+  url: string;
+  listing: string; // JSON, for HTML listing feeds
+  defaultTags: string;
+  perFeedCap: number;
+  enabled: boolean;
+}
+
+const emptyForm: FeedForm = {
+  id: '',
+  name: '',
+  publisher: '',
+  kind: 'feed',
+  url: '',
+  listing: '',
+  defaultTags: '',
+  perFeedCap: 5,
+  enabled: true,
+};
+
+const listingPlaceholder = `{
+  "item": "div.views-row",
+  "link": "h2 a",
+  "date": { "selector": "time", "attr": "datetime" },
+  "nextPage": "a[rel=next]",
+  "maxPages": 2
+}`;
+
+function formFromFeed(feed: IntakeFeed): FeedForm {
+  return {
+    id: feed.id,
+    name: feed.name,
+    publisher: feed.publisher,
+    kind: feed.kind ?? 'feed',
+    url: feed.url,
+    listing: feed.listing ? JSON.stringify(feed.listing, null, 2) : '',
+    defaultTags: feed.defaultTags.join(', '),
+    perFeedCap: feed.perFeedCap,
+    enabled: feed.enabled,
+  };
+}
+
+// Throws if the listing JSON doesn't parse, so the form can report it
+function requestFromForm(form: FeedForm): CreateIntakeFeedRequest {
+  let listing: HtmlListingConfig | undefined;
+  if (form.kind === 'html' && form.listing.trim()) {
+    try {
+      listing = JSON.parse(form.listing) as HtmlListingConfig;
+    } catch {
+      throw new Error('Listing selectors must be valid JSON');
+    }
+  }
+
+  return {
+    id: form.id.trim(),
+    name: form.name.trim(),
+    publisher: form.publisher.trim(),
+    kind: form.kind,
+    url: form.url.trim(),
+    listing,
+    defaultTags: form.defaultTags.split(',').map((t) => t.trim()).filter(Boolean),
+    perFeedCap: form.perFeedCap,
+    enabled: form.enabled,
+  };
+}
+
+export default function AdminFeedsPage() {
+  const [feeds, setFeeds] = useState<IntakeFeed[]>([]);
+  const [rails, setRails] = useState<IntakeRailsConfig | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const [editing, setEditing] = useState<IntakeFeed | null>(null);
+  const [showModal, setShowModal] = useState(false);
+  const [form, setForm] = useState<FeedForm>(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  const [preview, setPreview] = useState<FeedPreview | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+
+  const [editingRails, setEditingRails] = useState(false);
+  const [domains, setDomains] = useState('');
+  const [maxItemsPerRun, setMaxItemsPerRun] = useState(20);
+
+  const { can } = useAuth();
+  const { showError, showSuccess } = useToast();
+  const canEdit = can(Permission.CONFIG_WRITE);
+
+  useEffect(() => {
+    loadFeeds();
+  }, []);
+
+  async function loadFeeds() {
+    try {
+      setLoading(true);
+      const result = await api.getIntakeFeeds();
+      setFeeds(result.feeds);
+      setRails(result.rails);
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Failed to load feeds'));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function replaceFeed(updated: IntakeFeed) {
+    setFeeds((prev) => prev.map((f) => (f.id === updated.id ? updated : f)));
+  }
+
+  // Quick edits from the table; a version conflict reloads the list
+  async function quickUpdate(feed: IntakeFeed, changes: { enabled?: boolean; perFeedCap?: number }) {
+    try {
+      const updated = await api.updateIntakeFeed(feed.id, { ...changes, expectedVersion: feed.version });
+      replaceFeed(updated);
+      showSuccess(`${updated.name} saved`);
+    } catch (err) {
+      showError(err);
+      loadFeeds();
+    }
+  }
+
+  function openCreate() {
+    setEditing(null);
+    setForm(emptyForm);
+    setPreview(null);
+    setShowModal(true);
+  }
+
+  function openEdit(feed: IntakeFeed) {
+    setEditing(feed);
+    setForm(formFromFeed(feed));
+    setPreview(null);
+    setShowModal(true);
+  }
+
+  async function handleSave() {
+    try {
+      setSaving(true);
+      const data = requestFromForm(form);
+      if (editing) {
+        replaceFeed(await api.updateIntakeFeed(editing.id, { ...data, expectedVersion: editing.version }));
+        showSuccess('Feed updated');
+      } else {
+        const created = await api.createIntakeFeed(data);
+        setFeeds((prev) => [...prev, created].sort((a, b) => a.id.localeCompare(b.id)));
+        showSuccess('Feed added');
+      }
+      setShowModal(false);
+    } catch (err) {
+      showError(err);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function runPreview(fetchPreview: () => Promise<FeedPreview>) {
+    try {
+      setPreviewing(true);
+      setPreview(await fetchPreview());
+    } catch (err) {
+      showError(err);
+    } finally {
+      setPreviewing(false);
+    }
+  }
+
+  function openRailsEditor() {
+    if (!rails) return;
+    setDomains(rails.allowedDomains.join('\n'));
+    setMaxItemsPerRun(rails.maxItemsPerRun);
+    setEditingRails(true);
+  }
+
+  async function handleSaveRails() {
+    if (!rails) return;
+    try {
+      const updated = await api.updateIntakeRails({
+        ...rails,
+        maxItemsPerRun,
+        allowedDomains: domains.split('\n').map((d) => d.trim()).filter(Boolean),
+        expectedVersion: rails.version,
+      });
+      setRails(updated);
+      setEditingRails(false);
+      showSuccess('Rails updated');
+    } catch (err) {
+      showError(err);
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Intake Feeds</h1>
+        {canEdit && (
+          <button onClick={openCreate} className="btn-primary">
+            Add Feed
+          </button>
+        )}
+      </div>
+
+      <ErrorMessage error={error} onDismiss={() => setError(null)} />
+
+      {rails && (
+        <div className="card p-6 mb-6">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900 mb-1">Rails</h2>
+              <p className="text-sm text-gray-600">
+                Up to {rails.maxItemsPerRun} items per run, {rails.minDelayMsBetweenRequestsSameHost} ms
+                between requests to a host, {rails.fetchTimeoutMs / 1000}s fetch timeout.
+              </p>
+              <p className="text-sm text-gray-600 mt-1">
+                Allowed domains: {rails.allowedDomains.join(', ')}
+              </p>
+              <p className="text-xs text-gray-500 mt-2">
+                Version {rails.version}, updated {new Date(rails.updatedAt).toLocaleString()} by{' '}
+                {rails.updatedBy}
+              </p>
+            </div>
+            {canEdit && !editingRails && (
+              <button onClick={openRailsEditor} className="btn-secondary text-sm">
+                Edit
+              </button>
+            )}
+          </div>
+
+          {editingRails && (
+            <div className="mt-4 grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Allowed domains (one per line)
+                </label>
+                <textarea
+                  value={domains}
+                  onChange={(e) => setDomains(e.target.value)}
+                  className="input w-full h-32 font-mono text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Max items per run
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  value={maxItemsPerRun}
+                  onChange={(e) => setMaxItemsPerRun(Number(e.target.value))}
+                  className="input w-full"
+                />
+                <div className="flex gap-2 mt-4">
+                  <button onClick={handleSaveRails} className="btn-primary text-sm">
+                    Save Rails
+                  </button>
+                  <button onClick={() => setEditingRails(false)} className="btn-secondary text-sm">
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {!loading && feeds.length === 0 ? (
+        <div className="card p-8 text-center">
+          <p className="text-gray-500">No feeds configured.</p>
+        </div>
+      ) : (
+        <div className="card overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Feed</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Kind</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Per-run cap</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {feeds.map((feed) => (
+                <tr key={feed.id}>
+                  <td className="px-4 py-3">
+                    <div className="font-medium text-gray-900">{feed.name}</div>
+                    <div className="text-xs text-gray-500">
+                      {feed.publisher} &middot; <span className="font-mono">{feed.id}</span>
+                    </div>
+                    <a
+                      href={feed.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-xs text-primary-600 hover:text-primary-800 break-all"
+                    >
+                      {feed.url}
+                    </a>
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-600">
+                    {feed.kind === 'html' ? 'HTML listing' : 'Feed'}
+                  </td>
+                  <td className="px-4 py-3">
+                    {canEdit ? (
+                      <input
+                        type="number"
+                        min={1}
+                        max={50}
+                        defaultValue={feed.perFeedCap}
+                        key={`${feed.id}-${feed.version}`}
+                        onBlur={(e) => {
+                          const cap = Number(e.target.value);
+                          if (cap !== feed.perFeedCap) quickUpdate(feed, { perFeedCap: cap });
+                        }}
+                        className="input w-20 py-1 px-2 text-sm"
+                      />
+                    ) : (
+                      <span className="text-sm text-gray-600">{feed.perFeedCap}</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3">
+                    {canEdit ? (
+                      <button
+                        onClick={() => quickUpdate(feed, { enabled: !feed.enabled })}
+                        className={feed.enabled ? 'badge bg-green-100 text-green-800' : 'badge bg-gray-100 text-gray-600'}
+                        title={feed.enabled ? 'Click to disable' : 'Click to enable'}
+                      >
+                        {feed.enabled ? 'Enabled' : 'Disabled'}
+                      </button>
+                    ) : (
+                      <span className={feed.enabled ? 'badge bg-green-100 text-green-800' : 'badge bg-gray-100 text-gray-600'}>
+                        {feed.enabled ? 'Enabled' : 'Disabled'}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-right whitespace-nowrap">
+                    {canEdit && (
+                      <>
+                        <button
+                          onClick={() => {
+                            setShowModal(false);
+                            runPreview(() => api.testFetchSavedFeed(feed.id));
+                          }}
+                          className="btn-secondary text-sm mr-2"
+                          disabled={previewing}
+                        >
+                          Test Fetch
+                        </button>
+                        <button onClick={() => openEdit(feed)} className="btn-secondary text-sm">
+                          Edit
+                        </button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {loading && (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+        </div>
+      )}
+
+      {!showModal && (previewing || preview) && (
+        <div className="card p-6 mt-6">
+          <FeedPreviewPanel preview={preview} loading={previewing} onClose={() => setPreview(null)} />
+        </div>
+      )}
+
+      {!loading && (
+        <div className="card p-6 mt-6">
+          <FeedHealthPanel feeds={feeds} />
+        </div>
+      )}
+
+      {/* Create/Edit Modal */}
+      {showModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="p-6">
+              <h2 className="text-xl font-bold text-gray-900 mb-4">
+                {editing ? `Edit ${editing.name}` : 'New Feed'}
+              </h2>
+
+              <div className="grid grid-cols-2 gap-4 mb-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">ID *</label>
+                  <input
+                    value={form.id}
+                    onChange={(e) => setForm({ ...form, id: e.target.value })}
+                    className="input w-full font-mono"
+                    placeholder="osha_news_releases"
+                    disabled={!!editing}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Kind</label>
+                  <select
+                    value={form.kind}
+                    onChange={(e) => setForm({ ...form, kind: e.target.value as FeedKind })}
+                    className="input w-full"
+                  >
+                    <option value="feed">RSS, Atom or JSON Feed</option>
+                    <option value="html">HTML listing page</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+                  <input
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    className="input w-full"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Publisher *</label>
+                  <input
+                    value={form.publisher}
+                    onChange={(e) => setForm({ ...form, publisher: e.target.value })}
+                    className="input w-full"
+                  />
+                </div>
+              </div>
+
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-1">URL *</label>
+                <input
+                  value={form.url}
+                  onChange={(e) => setForm({ ...form, url: e.target.value })}
+                  className="input w-full"
+                  placeholder="https://"
+                />
+              </div>
+
+              {form.kind === 'html' && (
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Listing selectors (JSON) *
+                  </label>
+                  <textarea
+                    value={form.listing}
+                    onChange={(e) => setForm({ ...form, listing: e.target.value })}
+                    className="input w-full h-40 font-mono text-sm"
+                    placeholder={listingPlaceholder}
+                  />
+                </div>
+              )}
+
+              <div className="grid grid-cols-3 gap-4 mb-6">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Default tags (comma-separated)
+                  </label>
+                  <input
+                    value={form.defaultTags}
+                    onChange={(e) => setForm({ ...form, defaultTags: e.target.value })}
+                    className="input w-full"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Per-run cap</label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={50}
+                    value={form.perFeedCap}
+                    onChange={(e) => setForm({ ...form, perFeedCap: Number(e.target.value) })}
+                    className="input w-full"
+                  />
+                </div>
+                <label className="flex items-center gap-2 text-sm text-gray-700 mt-6">
+                  <input
+                    type="checkbox"
+                    checked={form.enabled}
+                    onChange={(e) => setForm({ ...form, enabled: e.target.checked })}
+                  />
+                  Enabled
+                </label>
+              </div>
+
+              {(previewing || preview) && (
+                <div className="border border-gray-200 rounded-lg p-4 mb-6">
+                  <FeedPreviewPanel preview={preview} loading={previewing} onClose={() => setPreview(null)} />
+                </div>
+              )}
+
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={() => {
+                    try {
+                      const draft = requestFromForm(form);
+                      runPreview(() => api.testFetchFeed(draft));
+                    } catch (err) {
+                      showError(err);
+                    }
+                  }}
+                  className="btn-secondary"
+                  disabled={previewing}
+                >
+                  Test Fetch
+                </button>
+                <button onClick={() => setShowModal(false)} className="btn-secondary">
+                  Cancel
+                </button>
+                <button onClick={handleSave} className="btn-primary" disabled={saving}>
+                  {saving ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function FeedPreviewPanel({
+  preview,
+  loading,
+  onClose,
+}: {
+  preview: FeedPreview | null;
+  loading: boolean;
+  onClose: () => void;
+}) {
+  if (loading) {
+    return <p className="text-sm text-gray-500">Fetching…</p>;
+  }
+  if (!preview) {
+    return null;
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold text-gray-900">
+          Test fetch: <span className="font-mono text-sm">{preview.feedId}</span>
+        </h3>
+        <button onClick={onClose} className="text-sm text-gray-500 hover:text-gray-700">
+          Close
+        </button>
+      </div>
+
+      {preview.error ? (
+        <p className="text-sm text-red-600">{preview.error}</p>
+      ) : (
+        <>
+          <p className="text-sm text-gray-600 mb-3">
+            {preview.itemCount} item{preview.itemCount !== 1 ? 's' : ''} parsed
+            {preview.itemCount > preview.items.length && `, showing the first ${preview.items.length}`}. Nothing
+            was ingested.
+          </p>
+          <ul className="divide-y divide-gray-100">
+            {preview.items.map((item) => (
+              <li key={item.link} className="py-2">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <a
+                      href={item.link}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-sm text-primary-600 hover:text-primary-800"
+                    >
+                      {item.title}
+                    </a>
+                    <p className="text-xs text-gray-500">
+                      {item.publishedAt ? new Date(item.publishedAt).toLocaleDateString() : 'Undated'}
+                    </p>
+                  </div>
+                  <div className="flex gap-1 shrink-0">
+                    {!item.allowed && <span className="badge bg-red-100 text-red-800">Domain not allowed</span>}
+                    {item.alreadyIngested && <span className="badge bg-gray-100 text-gray-600">Already ingested</span>}
+                    {item.allowed && !item.alreadyIngested && (
+                      <span className="badge bg-green-100 text-green-800">New</span>
+                    )}
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
+
+const healthBadges: Record<FeedHealthStatus, string> = {
+  HEALTHY: 'badge bg-green-100 text-green-800',
+  STALE: 'badge bg-yellow-100 text-yellow-800',
+  FAILING: 'badge bg-red-100 text-red-800',
+};
+
+// Flagged feeds first, the worst at the top
+const healthOrder: Record<FeedHealthStatus, number> = { FAILING: 0, STALE: 1, HEALTHY: 2 };
+
+function formatDate(value?: string): string {
+  return value ? new Date(value).toLocaleString() : '—';
+}
+
+function FeedHealthPanel({ feeds }: { feeds: IntakeFeed[] }) {
+  const [health, setHealth] = useState<FeedHealth[]>([]);
+  const [runs, setRuns] = useState<IntakeRunSummary[]>([]);
+  const [runsCursor, setRunsCursor] = useState<string | undefined>();
+  const [openRunId, setOpenRunId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { showError } = useToast();
+
+  useEffect(() => {
+    loadHealth();
+  }, []);
+
+  async function loadHealth() {
+    try {
+      setLoading(true);
+      const [healthResult, runsResult] = await Promise.all([api.getFeedHealth(), api.getIntakeRuns({ limit: 10 })]);
+      setHealth(healthResult.items);
+      setRuns(runsResult.items);
+      setRunsCursor(runsResult.cursor);
+    } catch (err) {
+      showError(err);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function loadMoreRuns() {
+    try {
+      const result = await api.getIntakeRuns({ limit: 10, cursor: runsCursor });
+      setRuns((prev) => [...prev, ...result.items]);
+      setRunsCursor(result.cursor);
+    } catch (err) {
+      showError(err);
+    }
+  }
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading feed health…</p>;
+  }
+
+  const names = new Map(feeds.map((f) => [f.id, f.name]));
+  const sorted = [...health].sort(
+    (a, b) => healthOrder[a.status] - healthOrder[b.status] || a.feedId.localeCompare(b.feedId)
+  );
+  const flagged = health.filter((h) => h.status !== 'HEALTHY').length;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-lg font-semibold text-gray-900">Feed Health</h2>
+        <button onClick={loadHealth} className="text-sm text-gray-500 hover:text-gray-700">
+          Refresh
+        </button>
+      </div>
+
+      {health.length === 0 ? (
+        <p className="text-sm text-gray-500">No intake runs recorded yet.</p>
+      ) : (
+        <>
+          <p className="text-sm text-gray-600 mb-3">
+            {flagged === 0 ? 'All feeds look healthy.' : `${flagged} feed${flagged !== 1 ? 's' : ''} need attention.`}
+          </p>
+          <div className="overflow-x-auto mb-6">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Feed</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Health</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Last success</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Last new item</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Failures in a row</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Avg new / run</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Parse errors</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {sorted.map((h) => (
+                  <tr key={h.feedId}>
+                    <td className="px-4 py-2">
+                      <div className="text-sm font-medium text-gray-900">{names.get(h.feedId) ?? h.feedId}</div>
+                      <div className="text-xs text-gray-500 font-mono">{h.feedId}</div>
+                    </td>
+                    <td className="px-4 py-2">
+                      <span className={healthBadges[h.status]}>{h.status}</span>
+                      {h.statusReason && <p className="text-xs text-gray-600 mt-1">{h.statusReason}</p>}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-600">{formatDate(h.lastSuccessAt)}</td>
+                    <td className="px-4 py-2 text-sm text-gray-600">{formatDate(h.lastNewItemAt)}</td>
+                    <td className="px-4 py-2 text-sm text-gray-600">{h.consecutiveFailures}</td>
+                    <td className="px-4 py-2 text-sm text-gray-600">{h.averageNewItems}</td>
+                    <td className="px-4 py-2 text-sm text-gray-600">{h.parseErrors}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      <h3 className="font-semibold text-gray-900 mb-2">Recent Runs</h3>
+      {runs.length === 0 ? (
+        <p className="text-sm text-gray-500">No runs yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {runs.map((run) => (
+            <li key={run.runId} className="py-2">
+              <button
+                onClick={() => setOpenRunId(openRunId === run.runId ? null : run.runId)}
+                className="w-full flex items-center justify-between text-left text-sm"
+              >
+                <span className="text-gray-900">{formatDate(run.completedAt)}</span>
+                <span className="text-gray-600">
+                  {run.totalIngested} ingested, {run.totalSkipped} skipped
+                  {run.feedResults.some((r) => r.fetchStatus === 'FETCH_ERROR' || r.fetchStatus === 'PARSE_ERROR') && (
+                    <span className="badge bg-red-100 text-red-800 ml-2">Errors</span>
+                  )}
+                </span>
+              </button>
+              {openRunId === run.runId && (
+                <ul className="mt-2 ml-4 space-y-1">
+                  {run.feedResults.map((result) => (
+                    <li key={result.feedId} className="text-xs text-gray-600">
+                      <span className="font-mono">{result.feedId}</span>: {result.fetchStatus.replace('_', ' ').toLowerCase()},{' '}
+                      {result.itemsIngested} ingested, {result.itemsSkipped} skipped
+                      {result.errors.length > 0 && <span className="text-red-600"> — {result.errors.join('; ')}</span>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {runsCursor && (
+        <button onClick={loadMoreRuns} className="btn-secondary text-sm mt-3">
+          Load more
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import type {
+  IntakeClusterResponse,
   IntakeItem,
   IntakeStatus,
   EntitySearchResult,
@@ -9,9 +10,11 @@ import type {
   SuggestedRelationship,
   SuggestedSource,
 } from '@ledger/shared';
+import { Permission } from '@ledger/shared';
 import { api } from '../../lib/api';
 import ErrorMessage from '../../components/ErrorMessage';
 import { useToast } from '../../components/Toast';
+import { useAuth } from '../../lib/AuthContext';
 import EntitySelector from '../../components/EntitySelector';
 import CreateEntityModal from '../../components/CreateEntityModal';
 
@@ -72,6 +75,7 @@ export default function IntakeInboxPage() {
   const [selectedItem, setSelectedItem] = useState<IntakeItem | null>(null);
   const [promoting, setPromoting] = useState(false);
   const { showError, showSuccess } = useToast();
+  const { can } = useAuth();
 
   // Promote form state
   const [selectedEntities, setSelectedEntities] = useState<EntitySearchResult[]>([]);
@@ -91,6 +95,11 @@ export default function IntakeInboxPage() {
   const [selectedRelationships, setSelectedRelationships] = useState<Set<number>>(new Set());
   const [suggestedSources, setSuggestedSources] = useState<SuggestedSource[]>([]);
 
+  // Story clusters, fetched when first opened
+  const [clusters, setClusters] = useState<Record<string, IntakeClusterResponse>>({});
+  const [openClusterId, setOpenClusterId] = useState<string | null>(null);
+  const [includeCluster, setIncludeCluster] = useState(true);
+
   useEffect(() => {
     loadItems();
   }, [statusFilter]);
@@ -140,8 +149,37 @@ export default function IntakeInboxPage() {
     }
   }
 
+  async function loadCluster(clusterId: string) {
+    if (clusters[clusterId]) return;
+    try {
+      const cluster = await api.getIntakeCluster(clusterId);
+      setClusters((prev) => ({ ...prev, [clusterId]: cluster }));
+    } catch (err) {
+      showError(err);
+    }
+  }
+
+  function toggleCluster(clusterId: string) {
+    if (openClusterId === clusterId) {
+      setOpenClusterId(null);
+    } else {
+      setOpenClusterId(clusterId);
+      loadCluster(clusterId);
+    }
+  }
+
+  // Other NEW items the promotion would attach as sources
+  function clusterCandidates(item: IntakeItem): IntakeItem[] {
+    const cluster = item.clusterId ? clusters[item.clusterId] : undefined;
+    return (cluster?.items ?? []).filter((i) => i.intakeId !== item.intakeId && i.status === 'NEW');
+  }
+
   function openPromoteModal(item: IntakeItem) {
     setSelectedItem(item);
+    setIncludeCluster(true);
+    if (item.clusterId) {
+      loadCluster(item.clusterId);
+    }
 
     // Pre-populate with matched entities from LLM extraction
     const matchedEntities: EntitySearchResult[] = (item.suggestedEntities || [])
@@ -250,15 +288,26 @@ export default function IntakeInboxPage() {
           description: rel.description,
         }));
 
-      await api.promoteIntake(selectedItem.intakeId, {
+      const result = await api.promoteIntake(selectedItem.intakeId, {
         entityIds: selectedEntities.map((e) => e.entityId),
         createEntities: newEntitiesToCreate.length > 0 ? newEntitiesToCreate : undefined,
         createRelationships: relationshipsToCreate.length > 0 ? relationshipsToCreate : undefined,
         cardSummary,
         tags: tagList,
+        includeCluster: includeCluster && clusterCandidates(selectedItem).length > 0 ? true : undefined,
       });
 
-      setItems((prev) => prev.filter((i) => i.intakeId !== selectedItem.intakeId));
+      const promotedIds = new Set([selectedItem.intakeId, ...(result.clusterIntakeIds ?? [])]);
+      setItems((prev) => prev.filter((i) => !promotedIds.has(i.intakeId)));
+      if (selectedItem.clusterId) {
+        // Member statuses have changed; refetch when next opened
+        const clusterId = selectedItem.clusterId;
+        setClusters((prev) => {
+          const next = { ...prev };
+          delete next[clusterId];
+          return next;
+        });
+      }
       setPromoting(false);
       setSelectedItem(null);
       showSuccess('Item promoted to evidence card');
@@ -288,7 +337,7 @@ export default function IntakeInboxPage() {
       <div className="flex items-center justify-between mb-6">
         <h1 className="text-2xl font-bold text-gray-900">Intake Inbox</h1>
         <div className="flex items-center gap-2">
-          {statusFilter === 'NEW' && items.some((i) => i.extractionStatus === 'FAILED') && (
+          {statusFilter === 'NEW' && can(Permission.INTAKE_REVIEW) && items.some((i) => i.extractionStatus === 'FAILED') && (
             <button
               onClick={handleRetryAllFailed}
               className="btn-secondary text-sm"
@@ -351,6 +400,30 @@ export default function IntakeInboxPage() {
                         Extraction failed
                       </span>
                     )}
+                    {item.snapshot ? (
+                      <span
+                        className="badge bg-gray-100 text-gray-700"
+                        title={`Captured ${formatDate(item.snapshot.capturedAt)}, sha256 ${item.snapshot.sha256}`}
+                      >
+                        Snapshot{item.linkedPdfSnapshots?.length ? ` + ${item.linkedPdfSnapshots.length} PDF` : ''}
+                      </span>
+                    ) : (
+                      item.snapshotError && (
+                        <span className="badge bg-yellow-100 text-yellow-800" title={item.snapshotError}>
+                          No snapshot
+                        </span>
+                      )
+                    )}
+                    {item.clusterId && (
+                      <button
+                        type="button"
+                        onClick={() => toggleCluster(item.clusterId!)}
+                        className="badge bg-blue-100 text-blue-800 hover:bg-blue-200"
+                        title="Other feeds reported the same story"
+                      >
+                        Story cluster{clusters[item.clusterId] ? ` (${clusters[item.clusterId].items.length})` : ''}
+                      </button>
+                    )}
                   </div>
                   <h2 className="text-lg font-semibold text-gray-900 mb-1 truncate">
                     <a
@@ -374,6 +447,35 @@ export default function IntakeInboxPage() {
                       <span>Tags: {item.suggestedTags.join(', ')}</span>
                     )}
                   </div>
+                  {item.clusterId && openClusterId === item.clusterId && (
+                    <div className="mt-3 border-l-2 border-blue-200 pl-3">
+                      {clusters[item.clusterId] ? (
+                        <ul className="space-y-1">
+                          {clusters[item.clusterId].items
+                            .filter((member) => member.intakeId !== item.intakeId)
+                            .map((member) => (
+                              <li key={member.intakeId} className="text-sm flex items-center gap-2">
+                                <span className="badge badge-secondary">{member.publisher}</span>
+                                <a
+                                  href={member.canonicalUrl}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="text-gray-700 hover:text-primary-600 truncate"
+                                >
+                                  {member.title}
+                                </a>
+                                <span className="text-xs text-gray-500 whitespace-nowrap">
+                                  {formatDate(member.publishedAt)}
+                                  {member.status !== 'NEW' && ` · ${member.status}`}
+                                </span>
+                              </li>
+                            ))}
+                        </ul>
+                      ) : (
+                        <p className="text-sm text-gray-500">Loading cluster...</p>
+                      )}
+                    </div>
+                  )}
                   {item.promotedCardId && (
                     <div className="mt-2">
                       <Link
@@ -388,19 +490,23 @@ export default function IntakeInboxPage() {
 
                 {item.status === 'NEW' && (
                   <div className="flex flex-col gap-2">
-                    <button
-                      onClick={() => openPromoteModal(item)}
-                      className="btn-primary text-sm bg-green-600 hover:bg-green-700"
-                    >
-                      Promote
-                    </button>
-                    <button
-                      onClick={() => handleReject(item)}
-                      className="btn-secondary text-sm text-red-600 hover:text-red-700"
-                    >
-                      Reject
-                    </button>
-                    {item.extractionStatus === 'FAILED' && (
+                    {can(Permission.INTAKE_PROMOTE) && (
+                      <button
+                        onClick={() => openPromoteModal(item)}
+                        className="btn-primary text-sm bg-green-600 hover:bg-green-700"
+                      >
+                        Promote
+                      </button>
+                    )}
+                    {can(Permission.INTAKE_REVIEW) && (
+                      <button
+                        onClick={() => handleReject(item)}
+                        className="btn-secondary text-sm text-red-600 hover:text-red-700"
+                      >
+                        Reject
+                      </button>
+                    )}
+                    {item.extractionStatus === 'FAILED' && can(Permission.INTAKE_REVIEW) && (
                       <button
                         onClick={() => handleRetryExtraction(item)}
                         className="btn-secondary text-sm"
@@ -661,6 +767,30 @@ export default function IntakeInboxPage() {
                 />
               </div>
 
+              {/* Story cluster */}
+              {clusterCandidates(selectedItem).length > 0 && (
+                <div className="mb-6">
+                  <label className="flex items-start gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={includeCluster}
+                      onChange={(e) => setIncludeCluster(e.target.checked)}
+                      className="mt-1"
+                    />
+                    <span>
+                      Attach all {clusterCandidates(selectedItem).length} other cluster URL
+                      {clusterCandidates(selectedItem).length !== 1 ? 's' : ''} as sources
+                      <span className="block text-xs text-gray-500">
+                        {clusterCandidates(selectedItem)
+                          .map((i) => i.publisher)
+                          .join(', ')}{' '}
+                        will be marked promoted with this item.
+                      </span>
+                    </span>
+                  </label>
+                </div>
+              )}
+
               {/* Actions */}
               <div className="flex justify-end gap-3">
                 <button
@@ -5,10 +5,17 @@ import type {
   Entity,
   RelationshipType,
   RelationshipStatus,
+  Relationship,
+  UpdateRelationshipRequest,
+  VersionConflictDetails,
 } from '@ledger/shared';
-import { api } from '../../lib/api';
+import { Permission } from '@ledger/shared';
+import { api, getVersionConflict } from '../../lib/api';
 import ErrorMessage from '../../components/ErrorMessage';
 import { useToast } from '../../components/Toast';
+import { useAuth } from '../../lib/AuthContext';
+import ReviewThreads from '../../components/ReviewThreads';
+import MergeConflictDialog from '../../components/MergeConflictDialog';
 
 const RELATIONSHIP_TYPES: { value: RelationshipType; label: string }[] = [
   { value: 'OWNS', label: 'Owns' },
@@ -26,6 +33,21 @@ const RELATIONSHIP_TYPES: { value: RelationshipType; label: string }[] = [
   { value: 'OTHER', label: 'Other' },
 ];
 
+// Relationship field names for review thread anchors and save conflicts
+const REVIEW_FIELDS: Record<string, string> = {
+  type: 'Type',
+  description: 'Description',
+  startDate: 'Start date',
+  endDate: 'End date',
+  ownershipPercentage: 'Ownership percentage',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  ...REVIEW_FIELDS,
+  sourceRefs: 'Sources',
+  status: 'Status',
+};
+
 const STATUS_OPTIONS: { value: RelationshipStatus | 'ALL'; label: string }[] = [
   { value: 'ALL', label: 'All' },
   { value: 'DRAFT', label: 'Draft' },
@@ -52,6 +74,7 @@ export default function RelationshipsPage() {
   const [error, setError] = useState<Error | null>(null);
   const [statusFilter, setStatusFilter] = useState<RelationshipStatus | 'ALL'>('ALL');
   const { showError, showSuccess } = useToast();
+  const { can } = useAuth();
   const [hasMore, setHasMore] = useState(false);
   const [cursor, setCursor] = useState<string | undefined>();
 
@@ -60,6 +83,10 @@ export default function RelationshipsPage() {
   const [editingRelationship, setEditingRelationship] = useState<RelationshipWithEntities | null>(null);
   const [entities, setEntities] = useState<Entity[]>([]);
   const [saving, setSaving] = useState(false);
+  const [conflict, setConflict] = useState<{
+    details: VersionConflictDetails<Relationship>;
+    data: UpdateRelationshipRequest;
+  } | null>(null);
 
   // Form state
   const [fromEntityId, setFromEntityId] = useState('');
@@ -75,6 +102,9 @@ export default function RelationshipsPage() {
   const [retractingId, setRetractingId] = useState<string | null>(null);
   const [retractReason, setRetractReason] = useState('');
 
+  // Relationship whose review threads are expanded
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
   useEffect(() => {
     loadRelationships();
   }, [statusFilter]);
@@ -157,36 +187,31 @@ export default function RelationshipsPage() {
       return;
     }
 
+    const sourceRefList = sourceRefs
+      .split(',')
+      .map((s) => s.trim())
+      .filter(Boolean);
+
+    const update: UpdateRelationshipRequest = {
+      type: relationType,
+      description: description || undefined,
+      startDate: startDate || undefined,
+      endDate: endDate || undefined,
+      ownershipPercentage: ownershipPercentage
+        ? parseFloat(ownershipPercentage)
+        : undefined,
+      sourceRefs: sourceRefList,
+    };
+
     try {
       setSaving(true);
-      const sourceRefList = sourceRefs
-        .split(',')
-        .map((s) => s.trim())
-        .filter(Boolean);
-
-      const data = {
-        fromEntityId,
-        toEntityId,
-        type: relationType,
-        description: description || undefined,
-        startDate: startDate || undefined,
-        endDate: endDate || undefined,
-        ownershipPercentage: ownershipPercentage
-          ? parseFloat(ownershipPercentage)
-          : undefined,
-        sourceRefs: sourceRefList,
-      };
+
+      const data = { ...update, fromEntityId, toEntityId, type: relationType };
 
       if (editingRelationship) {
         await api.updateRelationship(editingRelationship.relationshipId, {
-          type: relationType,
-          description: description || undefined,
-          startDate: startDate || undefined,
-          endDate: endDate || undefined,
-          ownershipPercentage: ownershipPercentage
-            ? parseFloat(ownershipPercentage)
-            : undefined,
-          sourceRefs: sourceRefList,
+          ...update,
+          expectedVersion: editingRelationship.version ?? 1,
         });
         showSuccess('Relationship updated');
       } else {
@@ -197,7 +222,44 @@ export default function RelationshipsPage() {
       setShowModal(false);
       loadRelationships();
     } catch (err) {
-      showError(err);
+      const details = getVersionConflict<Relationship>(err);
+      if (details && editingRelationship) {
+        setConflict({ details, data: update });
+      } else {
+        showError(err);
+      }
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  // Save again on top of the current version, taking the chosen fields from it
+  async function handleMerge(theirs: string[]) {
+    if (!conflict || !editingRelationship) return;
+    const { details, data } = conflict;
+    const merged: Record<string, unknown> = { ...data };
+    for (const field of theirs) {
+      merged[field] = (details.current as unknown as Record<string, unknown>)[field];
+    }
+
+    try {
+      setSaving(true);
+      await api.updateRelationship(editingRelationship.relationshipId, {
+        ...(merged as UpdateRelationshipRequest),
+        expectedVersion: details.currentVersion,
+      });
+      setConflict(null);
+      setShowModal(false);
+      loadRelationships();
+      showSuccess('Relationship updated');
+    } catch (err) {
+      const next = getVersionConflict<Relationship>(err);
+      if (next) {
+        setConflict({ details: next, data: merged as UpdateRelationshipRequest });
+      } else {
+        setConflict(null);
+        showError(err);
+      }
     } finally {
       setSaving(false);
     }
@@ -352,19 +414,29 @@ export default function RelationshipsPage() {
                         Edit
                       </button>
                       <button
-                        onClick={() => handlePublish(rel.relationshipId)}
-                        className="btn-primary text-sm bg-green-600 hover:bg-green-700"
-                        title={
-                          rel.sourceRefs.length === 0
-                            ? 'Add sources before publishing'
-                            : undefined
+                        onClick={() =>
+                          setReviewingId(reviewingId === rel.relationshipId ? null : rel.relationshipId)
                         }
+                        className="btn-secondary text-sm"
                       >
-                        Publish
+                        {reviewingId === rel.relationshipId ? 'Hide comments' : 'Comments'}
                       </button>
+                      {can(Permission.RELATIONSHIP_PUBLISH) && (
+                        <button
+                          onClick={() => handlePublish(rel.relationshipId)}
+                          className="btn-primary text-sm bg-green-600 hover:bg-green-700"
+                          title={
+                            rel.sourceRefs.length === 0
+                              ? 'Add sources before publishing'
+                              : undefined
+                          }
+                        >
+                          Publish
+                        </button>
+                      )}
                     </>
                   )}
-                  {rel.status === 'PUBLISHED' && (
+                  {rel.status === 'PUBLISHED' && can(Permission.RELATIONSHIP_RETRACT) && (
                     <button
                       onClick={() => {
                         setRetractingId(rel.relationshipId);
@@ -377,6 +449,17 @@ export default function RelationshipsPage() {
                   )}
                 </div>
               </div>
+              {reviewingId === rel.relationshipId && (
+                <div className="mt-4 pt-4 border-t border-gray-200">
+                  <ReviewThreads
+                    targetType="relationship"
+                    targetId={rel.relationshipId}
+                    fields={REVIEW_FIELDS}
+                    sourceIds={rel.sourceRefs}
+                    open={rel.status === 'DRAFT'}
+                  />
+                </div>
+              )}
             </div>
           ))}
         </div>
@@ -595,6 +678,16 @@ export default function RelationshipsPage() {
           </div>
         </div>
       )}
+
+      {conflict && (
+        <MergeConflictDialog
+          conflict={conflict.details}
+          labels={FIELD_LABELS}
+          saving={saving}
+          onMerge={handleMerge}
+          onCancel={() => setConflict(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,208 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import type { Reply, ReplyStatus } from '@ledger/shared';
+import { api } from '../../lib/api';
+import { isWebUrl } from '../../lib/urls';
+import ErrorMessage from '../../components/ErrorMessage';
+import { useToast } from '../../components/Toast';
+
+const statusTabs: Array<{ status: ReplyStatus; label: string }> = [
+  { status: 'PENDING', label: 'Pending' },
+  { status: 'PUBLISHED', label: 'Published' },
+  { status: 'REJECTED', label: 'Rejected' },
+];
+
+export default function AdminRepliesPage() {
+  const [status, setStatus] = useState<ReplyStatus>('PENDING');
+  const [replies, setReplies] = useState<Reply[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+  const [cursor, setCursor] = useState<string | undefined>();
+  const [hasMore, setHasMore] = useState(false);
+  const { showError, showSuccess } = useToast();
+
+  useEffect(() => {
+    loadReplies();
+  }, [status]);
+
+  async function loadReplies(loadMore = false) {
+    try {
+      setLoading(true);
+      const result = await api.listAdminReplies({
+        status,
+        cursor: loadMore ? cursor : undefined,
+        limit: 20,
+      });
+
+      if (loadMore) {
+        setReplies((prev) => [...prev, ...result.items]);
+      } else {
+        setReplies(result.items);
+      }
+
+      setCursor(result.cursor);
+      setHasMore(result.hasMore);
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Failed to load replies'));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handlePublish(replyId: string) {
+    const note = prompt('Moderation note (optional):');
+    if (note === null) return;
+
+    try {
+      await api.publishReply(replyId, note || undefined);
+      setReplies((prev) => prev.filter((r) => r.replyId !== replyId));
+      showSuccess('Reply published');
+    } catch (err) {
+      showError(err);
+    }
+  }
+
+  async function handleReject(replyId: string) {
+    const reason = prompt('Rejection reason:');
+    if (!reason) return;
+
+    try {
+      await api.rejectReply(replyId, reason);
+      setReplies((prev) => prev.filter((r) => r.replyId !== replyId));
+      showSuccess('Reply rejected');
+    } catch (err) {
+      showError(err);
+    }
+  }
+
+  return (
+    <div>
+      <h1 className="text-2xl font-bold text-gray-900 mb-6">Right-of-Reply Submissions</h1>
+
+      <div className="flex gap-2 mb-6">
+        {statusTabs.map((tab) => (
+          <button
+            key={tab.status}
+            onClick={() => setStatus(tab.status)}
+            className={status === tab.status ? 'btn-primary text-sm' : 'btn-secondary text-sm'}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      <ErrorMessage error={error} onDismiss={() => setError(null)} />
+
+      {!loading && replies.length === 0 ? (
+        <div className="card p-8 text-center">
+          <p className="text-gray-500">No {status.toLowerCase()} replies.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {replies.map((reply) => (
+            <div key={reply.replyId} className="card p-6">
+              <div className="flex items-start justify-between gap-4">
+                <div className="flex-1 min-w-0">
+                  <p className="text-xs text-gray-500 mb-2">
+                    Submitted {new Date(reply.submittedAt).toLocaleString()} on{' '}
+                    <Link
+                      to={`/cards/${reply.cardId}`}
+                      className="text-primary-600 hover:text-primary-800"
+                    >
+                      card {reply.cardId}
+                    </Link>
+                  </p>
+                  <h2 className="text-lg font-semibold text-gray-900 mb-1">
+                    {reply.submitterName}
+                    {reply.submitterTitle && (
+                      <span className="font-normal text-gray-500">, {reply.submitterTitle}</span>
+                    )}
+                  </h2>
+                  <p className="text-sm text-gray-500 mb-3">
+                    <a
+                      href={`mailto:${reply.submitterEmail}`}
+                      className="text-primary-600 hover:text-primary-800"
+                    >
+                      {reply.submitterEmail}
+                    </a>{' '}
+                    &middot; Entity{' '}
+                    <Link
+                      to={`/entities/${reply.entityId}`}
+                      className="text-primary-600 hover:text-primary-800"
+                    >
+                      {reply.entityId}
+                    </Link>
+                  </p>
+                  <p className="text-gray-700 whitespace-pre-wrap mb-2">{reply.body}</p>
+                  {reply.attachments && reply.attachments.length > 0 && (
+                    <ul className="text-sm space-y-1">
+                      {reply.attachments.map((attachment, i) => (
+                        <li key={i}>
+                          {isWebUrl(attachment.url) ? (
+                            <a
+                              href={attachment.url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-primary-600 hover:text-primary-800"
+                            >
+                              {attachment.title}
+                            </a>
+                          ) : (
+                            <span className="text-gray-700">{attachment.title}</span>
+                          )}
+                          <span className="text-gray-500 break-all"> &middot; {attachment.url}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {reply.attachmentSourceIds.length > 0 && (
+                    <p className="text-xs text-gray-500">
+                      {reply.attachmentSourceIds.length} attachment
+                      {reply.attachmentSourceIds.length !== 1 ? 's' : ''} added as pending sources
+                    </p>
+                  )}
+                  {reply.moderationNote && (
+                    <p className="text-sm text-gray-600 mt-2 italic">
+                      Note: {reply.moderationNote}
+                    </p>
+                  )}
+                </div>
+
+                {reply.status === 'PENDING' && (
+                  <div className="flex flex-col gap-2">
+                    <button
+                      onClick={() => handlePublish(reply.replyId)}
+                      className="btn-primary text-sm bg-green-600 hover:bg-green-700"
+                    >
+                      Publish
+                    </button>
+                    <button
+                      onClick={() => handleReject(reply.replyId)}
+                      className="btn-secondary text-sm text-red-600 hover:text-red-700"
+                    >
+                      Reject
+                    </button>
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {loading && (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+        </div>
+      )}
+
+      {hasMore && !loading && (
+        <div className="flex justify-center mt-8">
+          <button onClick={() => loadReplies(true)} className="btn-secondary">
+            Load More
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
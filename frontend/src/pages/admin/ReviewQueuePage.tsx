@@ -1,15 +1,19 @@
 import { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
-import type { EvidenceCard } from '@ledger/shared';
+import type { EvidenceCard, CardApprovalStatus } from '@ledger/shared';
+import { Permission } from '@ledger/shared';
 import { api } from '../../lib/api';
+import { useAuth } from '../../lib/AuthContext';
 import ErrorMessage from '../../components/ErrorMessage';
 import { useToast } from '../../components/Toast';
 
 export default function AdminReviewQueuePage() {
   const [cards, setCards] = useState<EvidenceCard[]>([]);
+  const [approvals, setApprovals] = useState<Record<string, CardApprovalStatus>>({});
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
   const { showError, showSuccess } = useToast();
+  const { can } = useAuth();
 
   useEffect(() => {
     loadReviewQueue();
@@ -25,6 +29,7 @@ export default function AdminReviewQueuePage() {
         (c) => c.status === 'DRAFT' || c.status === 'REVIEW'
       );
       setCards(reviewableCards);
+      await loadApprovals(reviewableCards.filter((c) => c.status === 'REVIEW'));
     } catch (err) {
       setError(err instanceof Error ? err : new Error('Failed to load queue'));
     } finally {
@@ -32,6 +37,39 @@ export default function AdminReviewQueuePage() {
     }
   }
 
+  // Publish sign-offs for cards awaiting review
+  async function loadApprovals(reviewCards: EvidenceCard[]) {
+    const results = await Promise.all(
+      reviewCards.map((card) => api.getCardApprovals(card.cardId))
+    );
+    const byCard: Record<string, CardApprovalStatus> = {};
+    for (const result of results) {
+      const publish = result.actions.find((a) => a.action === 'PUBLISH');
+      if (publish) {
+        byCard[result.cardId] = publish;
+      }
+    }
+    setApprovals(byCard);
+  }
+
+  async function handleApprove(cardId: string) {
+    const note = prompt('Approval note (optional):');
+    if (note === null) return;
+
+    try {
+      await api.approveCard(cardId, 'PUBLISH', note || undefined);
+      // Re-fetch rather than use the response so source blockers stay listed
+      const result = await api.getCardApprovals(cardId);
+      const publish = result.actions.find((a) => a.action === 'PUBLISH');
+      if (publish) {
+        setApprovals((prev) => ({ ...prev, [cardId]: publish }));
+      }
+      showSuccess('Approval recorded');
+    } catch (err) {
+      showError(err);
+    }
+  }
+
   async function handlePublish(cardId: string) {
     try {
       await api.publishCard(cardId);
@@ -94,6 +132,10 @@ export default function AdminReviewQueuePage() {
                     Event: {card.eventDate} &middot; Category: {card.category}{' '}
                     &middot; {card.sourceRefs.length} sources
                   </p>
+
+                  {approvals[card.cardId] && (
+                    <ApprovalSummary status={approvals[card.cardId]} />
+                  )}
                 </div>
 
                 <div className="flex flex-col gap-2">
@@ -103,12 +145,24 @@ export default function AdminReviewQueuePage() {
                   >
                     Review
                   </Link>
-                  <button
-                    onClick={() => handlePublish(card.cardId)}
-                    className="btn-primary text-sm bg-green-600 hover:bg-green-700"
-                  >
-                    Publish
-                  </button>
+                  {card.status === 'REVIEW' && can(Permission.CARD_APPROVE) && (
+                    <button
+                      onClick={() => handleApprove(card.cardId)}
+                      className="btn-secondary text-sm"
+                    >
+                      Approve
+                    </button>
+                  )}
+                  {can(Permission.CARD_PUBLISH) && (
+                    <button
+                      onClick={() => handlePublish(card.cardId)}
+                      disabled={(approvals[card.cardId]?.blocking.length ?? 0) > 0}
+                      title={approvals[card.cardId]?.blocking.join('\n')}
+                      className="btn-primary text-sm bg-green-600 hover:bg-green-700"
+                    >
+                      Publish
+                    </button>
+                  )}
                   <button
                     onClick={() => handleReject(card.cardId)}
                     className="btn-secondary text-sm text-red-600 hover:text-red-700"
@@ -124,3 +178,36 @@ export default function AdminReviewQueuePage() {
     </div>
   );
 }
+
+function ApprovalSummary({ status }: { status: CardApprovalStatus }) {
+  return (
+    <div className="mt-3 text-sm">
+      <p className="text-gray-700">
+        Approvals: {status.approvals.length}/{status.quorum}
+        {status.approvals.length > 0 && (
+          <span className="text-gray-500">
+            {' '}&middot; {status.approvals.map((a) => a.approvedBy).join(', ')}
+          </span>
+        )}
+      </p>
+      {status.approvals.some((a) => a.note) && (
+        <ul className="mt-1 text-xs text-gray-500">
+          {status.approvals
+            .filter((a) => a.note)
+            .map((a) => (
+              <li key={a.approvedBy}>
+                {a.approvedBy}: {a.note}
+              </li>
+            ))}
+        </ul>
+      )}
+      {status.blocking.length > 0 && (
+        <ul className="mt-1 text-xs text-amber-700 list-disc list-inside">
+          {status.blocking.map((reason) => (
+            <li key={reason}>{reason}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -180,6 +180,13 @@ export class LedgerStack extends cdk.Stack {
       sortKey: { name: 'GSI1SK', type: dynamodb.AttributeType.STRING },
     });
 
+    // GSI2: score ranking (fixed partition, zero-padded score sort key)
+    entitiesTable.addGlobalSecondaryIndex({
+      indexName: 'GSI2',
+      partitionKey: { name: 'GSI2PK', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'GSI2SK', type: dynamodb.AttributeType.STRING },
+    });
+
     // Cards table
     const cardsTable = new dynamodb.Table(this, 'CardsTable', {
       tableName: `${prefix}-cards`,
@@ -205,6 +212,8 @@ export class LedgerStack extends cdk.Stack {
     });
 
     // Sources table
+    // PK: SOURCE#{sourceId}, SK: META (source record)
+    // PK: SOURCE#{sourceId}, SK: CHANGE#{alertId} (change alerts from the source watcher)
     const sourcesTable = new dynamodb.Table(this, 'SourcesTable', {
       tableName: `${prefix}-sources`,
       partitionKey: { name: 'PK', type: dynamodb.AttributeType.STRING },
@@ -216,6 +225,13 @@ export class LedgerStack extends cdk.Stack {
         : cdk.RemovalPolicy.DESTROY,
     });
 
+    // GSI1: Change alerts by status (GSI1PK = SOURCE_ALERT#{status}, sparse)
+    sourcesTable.addGlobalSecondaryIndex({
+      indexName: 'GSI1',
+      partitionKey: { name: 'GSI1PK', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'GSI1SK', type: dynamodb.AttributeType.STRING },
+    });
+
     // Audit table
     const auditTable = new dynamodb.Table(this, 'AuditTable', {
       tableName: `${prefix}-audit`,
@@ -249,6 +265,17 @@ export class LedgerStack extends cdk.Stack {
       removalPolicy: cdk.RemovalPolicy.DESTROY, // Always destroy, just cache
     });
 
+    // Host politeness table (shared per-host fetch limits)
+    // PK: HOST#{host} (token bucket and Retry-After backoff)
+    // PK: ROBOTS#{host} (cached robots.txt rules)
+    const hostPolitenessTable = new dynamodb.Table(this, 'HostPolitenessTable', {
+      tableName: `${prefix}-host-politeness`,
+      partitionKey: { name: 'PK', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      timeToLiveAttribute: 'expiresAt',
+      removalPolicy: cdk.RemovalPolicy.DESTROY, // Short-lived state only
+    });
+
     // Intake table (for automated RSS ingestion)
     // PK: FEED#{feedId}, SK: TS#{publishedAtIso}#{intakeId}
     // GSI1: STATUS#{status}, GSI1SK: TS#{ingestedAt}
@@ -307,6 +334,116 @@ export class LedgerStack extends cdk.Stack {
       sortKey: { name: 'GSI2SK', type: dynamodb.AttributeType.STRING },
     });
 
+    // Config table (versioned runtime configuration)
+    // PK: SCORING_WEIGHTS, SK: V#{versionNumber} (immutable weight versions)
+    // PK: RESCORE_JOB, SK: JOB#{jobId} (bulk rescore progress)
+    const configTable = new dynamodb.Table(this, 'ConfigTable', {
+      tableName: `${prefix}-config`,
+      partitionKey: { name: 'PK', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'SK', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      pointInTimeRecoverySpecification: { pointInTimeRecoveryEnabled: true },
+      removalPolicy: environment === 'prod'
+        ? cdk.RemovalPolicy.RETAIN
+        : cdk.RemovalPolicy.DESTROY,
+    });
+
+    // Tag index table (public tag browsing)
+    // PK: TAG#{tag}, SK: CARD#{eventDate}#{cardId} (card snapshot per tag)
+    // PK: TAG#{tag}, SK: META (card count)
+    const tagIndexTable = new dynamodb.Table(this, 'TagIndexTable', {
+      tableName: `${prefix}-tag-index`,
+      partitionKey: { name: 'PK', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'SK', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      pointInTimeRecoverySpecification: { pointInTimeRecoveryEnabled: true },
+      removalPolicy: environment === 'prod'
+        ? cdk.RemovalPolicy.RETAIN
+        : cdk.RemovalPolicy.DESTROY,
+    });
+
+    // GSI1: List all tags (GSI1PK = TAGS, GSI1SK = tag)
+    tagIndexTable.addGlobalSecondaryIndex({
+      indexName: 'GSI1',
+      partitionKey: { name: 'GSI1PK', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'GSI1SK', type: dynamodb.AttributeType.STRING },
+    });
+
+    // Search index table (inverted index over cards, entities and sources)
+    // PK: TERM#{term}, SK: {type}#{id} (posting per document)
+    // PK: DOC#{type}#{id}, SK: META (indexed text and term list)
+    const searchIndexTable = new dynamodb.Table(this, 'SearchIndexTable', {
+      tableName: `${prefix}-search-index`,
+      partitionKey: { name: 'PK', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'SK', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY, // Rebuildable from the source tables
+    });
+
+    // Replies table (right-of-reply submissions from named entities)
+    // PK: REPLY#{replyId}, SK: META (reply record)
+    // PK: RATE#{clientHash}, SK: WINDOW#{hourStart} (submission counters, TTL-expired)
+    const repliesTable = new dynamodb.Table(this, 'RepliesTable', {
+      tableName: `${prefix}-replies`,
+      partitionKey: { name: 'PK', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'SK', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      pointInTimeRecoverySpecification: { pointInTimeRecoveryEnabled: true },
+      timeToLiveAttribute: 'expiresAt',
+      removalPolicy: environment === 'prod'
+        ? cdk.RemovalPolicy.RETAIN
+        : cdk.RemovalPolicy.DESTROY,
+    });
+
+    // GSI1: Moderation queue by status (GSI1PK = REPLY_STATUS#{status})
+    repliesTable.addGlobalSecondaryIndex({
+      indexName: 'GSI1',
+      partitionKey: { name: 'GSI1PK', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'GSI1SK', type: dynamodb.AttributeType.STRING },
+    });
+
+    // GSI2: Published replies per card (GSI2PK = CARD#{cardId}, sparse)
+    repliesTable.addGlobalSecondaryIndex({
+      indexName: 'GSI2',
+      partitionKey: { name: 'GSI2PK', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'GSI2SK', type: dynamodb.AttributeType.STRING },
+    });
+
+    // Corrections log table (public record of disputes, corrections, retractions)
+    // PK: MONTH#{YYYY-MM}, SK: {at}#{targetType}#{targetId} (log entry)
+    // PK: MONTHS, SK: {YYYY-MM} (entry count per month)
+    const correctionsTable = new dynamodb.Table(this, 'CorrectionsTable', {
+      tableName: `${prefix}-corrections`,
+      partitionKey: { name: 'PK', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'SK', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      pointInTimeRecoverySpecification: { pointInTimeRecoveryEnabled: true },
+      removalPolicy: environment === 'prod'
+        ? cdk.RemovalPolicy.RETAIN
+        : cdk.RemovalPolicy.DESTROY,
+    });
+
+    // Review threads table (reviewer discussion on draft cards and relationships)
+    // PK: THREAD#{threadId}, SK: META (thread with its comments)
+    // PK: MENTION#{handle}, SK: {createdAt}#{commentId} (@mentions per handle)
+    const reviewThreadsTable = new dynamodb.Table(this, 'ReviewThreadsTable', {
+      tableName: `${prefix}-review-threads`,
+      partitionKey: { name: 'PK', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'SK', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      pointInTimeRecoverySpecification: { pointInTimeRecoveryEnabled: true },
+      removalPolicy: environment === 'prod'
+        ? cdk.RemovalPolicy.RETAIN
+        : cdk.RemovalPolicy.DESTROY,
+    });
+
+    // GSI1: Threads per target (GSI1PK = TARGET#{card|relationship}#{id})
+    reviewThreadsTable.addGlobalSecondaryIndex({
+      indexName: 'GSI1',
+      partitionKey: { name: 'GSI1PK', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'GSI1SK', type: dynamodb.AttributeType.STRING },
+    });
+
     // ============================================================
     // Cognito User Pool
     // ============================================================
@@ -340,13 +477,32 @@ export class LedgerStack extends cdk.Stack {
         : cdk.RemovalPolicy.DESTROY,
     });
 
-    // Admin group - users must be in this group to access /admin/* routes
+    // Staff role groups - users need one of these to access /admin/* routes;
+    // the API maps each group to the permissions in @ledger/shared
     new cognito.CfnUserPoolGroup(this, 'AdminGroup', {
       userPoolId: userPool.userPoolId,
       groupName: 'admin',
       description: 'Administrators with full access to admin API endpoints',
     });
 
+    new cognito.CfnUserPoolGroup(this, 'PublisherGroup', {
+      userPoolId: userPool.userPoolId,
+      groupName: 'publisher',
+      description: 'Editors who can also publish and retract cards and relationships',
+    });
+
+    new cognito.CfnUserPoolGroup(this, 'EditorGroup', {
+      userPoolId: userPool.userPoolId,
+      groupName: 'editor',
+      description: 'Researchers who can also correct cards, review intake and moderate replies',
+    });
+
+    new cognito.CfnUserPoolGroup(this, 'ResearcherGroup', {
+      userPoolId: userPool.userPoolId,
+      groupName: 'researcher',
+      description: 'Draft cards, sources, entities and relationships',
+    });
+
     const userPoolClient = userPool.addClient('WebClient', {
       userPoolClientName: `${prefix}-web-client`,
       authFlows: {
@@ -396,8 +552,18 @@ export class LedgerStack extends cdk.Stack {
         IDEMPOTENCY_TABLE: idempotencyTable.tableName,
         INTAKE_TABLE: intakeTable.tableName,
         RELATIONSHIPS_TABLE: relationshipsTable.tableName,
+        CONFIG_TABLE: configTable.tableName,
+        HOST_POLITENESS_TABLE: hostPolitenessTable.tableName,
+        TAG_INDEX_TABLE: tagIndexTable.tableName,
+        SEARCH_INDEX_TABLE: searchIndexTable.tableName,
+        REPLIES_TABLE: repliesTable.tableName,
+        CORRECTIONS_TABLE: correctionsTable.tableName,
+        REVIEW_THREADS_TABLE: reviewThreadsTable.tableName,
+        PUBLIC_SITE_URL: domainName ? `https://${domainName}` : '',
         SOURCES_BUCKET: sourcesBucket.bucketName,
         KMS_SIGNING_KEY_ID: signingKey.keyId,
+        COGNITO_USER_POOL_ID: userPool.userPoolId,
+        COGNITO_CLIENT_ID: userPoolClient.userPoolClientId,
         LOG_LEVEL: environment === 'prod' ? 'info' : 'debug',
         READONLY_PARAM_NAME: readOnlyParam.parameterName,
       },
@@ -411,6 +577,13 @@ export class LedgerStack extends cdk.Stack {
     idempotencyTable.grantReadWriteData(apiFunction);
     intakeTable.grantReadWriteData(apiFunction);
     relationshipsTable.grantReadWriteData(apiFunction);
+    configTable.grantReadWriteData(apiFunction);
+    hostPolitenessTable.grantReadWriteData(apiFunction);
+    tagIndexTable.grantReadWriteData(apiFunction);
+    searchIndexTable.grantReadWriteData(apiFunction);
+    repliesTable.grantReadWriteData(apiFunction);
+    correctionsTable.grantReadWriteData(apiFunction);
+    reviewThreadsTable.grantReadWriteData(apiFunction);
     sourcesBucket.grantReadWrite(apiFunction);
     signingKey.grant(apiFunction, 'kms:Sign', 'kms:GetPublicKey');
     readOnlyParam.grantRead(apiFunction);
@@ -433,7 +606,7 @@ export class LedgerStack extends cdk.Stack {
       handler: 'handlers/intake-ingest.handler',
       code: lambda.Code.fromAsset('../../backend/dist'),
       memorySize: 512,
-      timeout: cdk.Duration.minutes(5), // RSS fetching may take time
+      timeout: cdk.Duration.minutes(10), // feed fetches, then page and PDF snapshots, all rate limited per host
       logGroup: intakeLogGroup,
       environment: {
         NODE_ENV: environment,
@@ -441,9 +614,11 @@ export class LedgerStack extends cdk.Stack {
         INTAKE_TABLE: intakeTable.tableName,
         SOURCES_TABLE: sourcesTable.tableName,
         SOURCES_BUCKET: sourcesBucket.bucketName,
+        CONFIG_TABLE: configTable.tableName,
+        HOST_POLITENESS_TABLE: hostPolitenessTable.tableName,
         KMS_SIGNING_KEY_ID: signingKey.keyId,
         LOG_LEVEL: environment === 'prod' ? 'info' : 'debug',
-        // Env overrides for feeds.json config (optional - defaults from feeds.json if not set)
+        // Env overrides for the stored intake rails (optional - stored values apply if not set)
         ...(process.env.INTAKE_MAX_ITEMS_PER_RUN && {
           INTAKE_MAX_ITEMS_PER_RUN: process.env.INTAKE_MAX_ITEMS_PER_RUN,
         }),
@@ -458,6 +633,8 @@ export class LedgerStack extends cdk.Stack {
 
     // Grant permissions to intake function
     intakeTable.grantReadWriteData(intakeIngestFunction);
+    configTable.grantReadWriteData(intakeIngestFunction); // feeds, rails, run history and feed health
+    hostPolitenessTable.grantReadWriteData(intakeIngestFunction);
     sourcesTable.grantReadWriteData(intakeIngestFunction);
     sourcesBucket.grantReadWrite(intakeIngestFunction);
     signingKey.grant(intakeIngestFunction, 'kms:Sign', 'kms:GetPublicKey');
@@ -502,6 +679,8 @@ export class LedgerStack extends cdk.Stack {
         AWS_NODEJS_CONNECTION_REUSE_ENABLED: '1',
         INTAKE_TABLE: intakeTable.tableName,
         ENTITIES_TABLE: entitiesTable.tableName,
+        CONFIG_TABLE: configTable.tableName,
+        HOST_POLITENESS_TABLE: hostPolitenessTable.tableName,
         ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY || '', // Set via GitHub secret
         ANTHROPIC_MODEL: process.env.ANTHROPIC_MODEL || 'claude-haiku-4-5-20251001',
         EXTRACTION_MAX_TOKENS: '8192',
@@ -517,6 +696,8 @@ export class LedgerStack extends cdk.Stack {
     // Grant permissions to extraction function
     intakeTable.grantReadWriteData(intakeExtractFunction);
     entitiesTable.grantReadData(intakeExtractFunction);
+    configTable.grantReadWriteData(intakeExtractFunction); // intake rails for article fetches; seeds on first use
+    hostPolitenessTable.grantReadWriteData(intakeExtractFunction);
 
     // Grant read access to the prompt bucket
     // If using sources bucket, grant read; if external bucket, it needs cross-account permissions set up separately
@@ -568,6 +749,11 @@ export class LedgerStack extends cdk.Stack {
         SOURCES_TABLE: sourcesTable.tableName,
         RELATIONSHIPS_TABLE: relationshipsTable.tableName,
         AUDIT_TABLE: auditTable.tableName,
+        CONFIG_TABLE: configTable.tableName,
+        HOST_POLITENESS_TABLE: hostPolitenessTable.tableName,
+        TAG_INDEX_TABLE: tagIndexTable.tableName,
+        SEARCH_INDEX_TABLE: searchIndexTable.tableName,
+        REVIEW_THREADS_TABLE: reviewThreadsTable.tableName,
         // S3
         SOURCES_BUCKET: sourcesBucket.bucketName,
         // KMS
@@ -593,6 +779,11 @@ export class LedgerStack extends cdk.Stack {
     cardsTable.grantReadWriteData(intakeEditorFunction);
     sourcesTable.grantReadWriteData(intakeEditorFunction);
     relationshipsTable.grantReadWriteData(intakeEditorFunction);
+    configTable.grantReadWriteData(intakeEditorFunction); // intake rails for snapshots; seeds on first use
+    hostPolitenessTable.grantReadWriteData(intakeEditorFunction);
+    tagIndexTable.grantReadWriteData(intakeEditorFunction);
+    searchIndexTable.grantReadWriteData(intakeEditorFunction);
+    reviewThreadsTable.grantReadData(intakeEditorFunction); // publish checks for open threads
     auditTable.grantWriteData(intakeEditorFunction);
     sourcesBucket.grantReadWrite(intakeEditorFunction);
     signingKey.grant(intakeEditorFunction, 'kms:Sign', 'kms:GetPublicKey');
@@ -618,6 +809,167 @@ export class LedgerStack extends cdk.Stack {
       })
     );
 
+    // ============================================================
+    // Scoring Rescore Lambda (bulk rescore after weight changes)
+    // ============================================================
+    const rescoreLogGroup = logs.LogGroup.fromLogGroupName(
+      this,
+      'RescoreLogGroup',
+      `/aws/lambda/${prefix}-scoring-rescore`
+    );
+
+    const scoringRescoreFunction = new lambda.Function(this, 'ScoringRescoreFunction', {
+      functionName: `${prefix}-scoring-rescore`,
+      runtime: lambda.Runtime.NODEJS_20_X,
+      handler: 'handlers/scoring-rescore.handler',
+      code: lambda.Code.fromAsset('../../backend/dist'),
+      memorySize: 512,
+      timeout: cdk.Duration.minutes(5),
+      logGroup: rescoreLogGroup,
+      environment: {
+        NODE_ENV: environment,
+        AWS_NODEJS_CONNECTION_REUSE_ENABLED: '1',
+        ENTITIES_TABLE: entitiesTable.tableName,
+        CARDS_TABLE: cardsTable.tableName,
+        CONFIG_TABLE: configTable.tableName,
+        RESCORE_BATCH_SIZE: '200',
+        LOG_LEVEL: environment === 'prod' ? 'info' : 'debug',
+      },
+    });
+
+    entitiesTable.grantReadWriteData(scoringRescoreFunction);
+    cardsTable.grantReadData(scoringRescoreFunction);
+    configTable.grantReadWriteData(scoringRescoreFunction);
+
+    // Schedule: every 5 minutes; picks up queued jobs and resumes partial ones
+    const rescoreScheduleRule = new events.Rule(this, 'RescoreScheduleRule', {
+      ruleName: `${prefix}-rescore-schedule`,
+      schedule: events.Schedule.rate(cdk.Duration.minutes(5)),
+      description: 'Bulk entity rescore after scoring weight changes',
+    });
+
+    rescoreScheduleRule.addTarget(
+      new eventsTargets.LambdaFunction(scoringRescoreFunction, {
+        retryAttempts: 2,
+      })
+    );
+
+    // ============================================================
+    // Scheduled Publish Lambda (embargoed and timed card releases)
+    // ============================================================
+    const scheduledPublishLogGroup = logs.LogGroup.fromLogGroupName(
+      this,
+      'ScheduledPublishLogGroup',
+      `/aws/lambda/${prefix}-scheduled-publish`
+    );
+
+    const scheduledPublishFunction = new lambda.Function(this, 'ScheduledPublishFunction', {
+      functionName: `${prefix}-scheduled-publish`,
+      runtime: lambda.Runtime.NODEJS_20_X,
+      handler: 'handlers/scheduled-publish.handler',
+      code: lambda.Code.fromAsset('../../backend/dist'),
+      memorySize: 512,
+      timeout: cdk.Duration.minutes(2),
+      logGroup: scheduledPublishLogGroup,
+      environment: {
+        NODE_ENV: environment,
+        AWS_NODEJS_CONNECTION_REUSE_ENABLED: '1',
+        ENTITIES_TABLE: entitiesTable.tableName,
+        CARDS_TABLE: cardsTable.tableName,
+        SOURCES_TABLE: sourcesTable.tableName,
+        AUDIT_TABLE: auditTable.tableName,
+        CONFIG_TABLE: configTable.tableName,
+        TAG_INDEX_TABLE: tagIndexTable.tableName,
+        SEARCH_INDEX_TABLE: searchIndexTable.tableName,
+        REVIEW_THREADS_TABLE: reviewThreadsTable.tableName,
+        LOG_LEVEL: environment === 'prod' ? 'info' : 'debug',
+        READONLY_PARAM_NAME: readOnlyParam.parameterName,
+      },
+    });
+
+    entitiesTable.grantReadWriteData(scheduledPublishFunction);
+    cardsTable.grantReadWriteData(scheduledPublishFunction);
+    sourcesTable.grantReadData(scheduledPublishFunction);
+    auditTable.grantWriteData(scheduledPublishFunction);
+    configTable.grantReadData(scheduledPublishFunction);
+    tagIndexTable.grantReadWriteData(scheduledPublishFunction);
+    searchIndexTable.grantReadWriteData(scheduledPublishFunction);
+    reviewThreadsTable.grantReadData(scheduledPublishFunction); // publish checks for open threads
+    readOnlyParam.grantRead(scheduledPublishFunction);
+
+    // Schedule: every 5 minutes, so releases land within 5 minutes of their time
+    const scheduledPublishRule = new events.Rule(this, 'ScheduledPublishRule', {
+      ruleName: `${prefix}-scheduled-publish`,
+      schedule: events.Schedule.rate(cdk.Duration.minutes(5)),
+      description: 'Publish REVIEW cards whose scheduled release time has passed',
+    });
+
+    scheduledPublishRule.addTarget(
+      new eventsTargets.LambdaFunction(scheduledPublishFunction, {
+        retryAttempts: 2,
+      })
+    );
+
+    // ============================================================
+    // Source Watch Lambda (re-checks pages behind promoted intake items)
+    // ============================================================
+    const sourceWatchLogGroup = logs.LogGroup.fromLogGroupName(
+      this,
+      'SourceWatchLogGroup',
+      `/aws/lambda/${prefix}-source-watch`
+    );
+
+    const sourceWatchFunction = new lambda.Function(this, 'SourceWatchFunction', {
+      functionName: `${prefix}-source-watch`,
+      runtime: lambda.Runtime.NODEJS_20_X,
+      handler: 'handlers/source-watch.handler',
+      code: lambda.Code.fromAsset('../../backend/dist'),
+      memorySize: 512,
+      timeout: cdk.Duration.minutes(10), // page fetches are rate limited per host
+      logGroup: sourceWatchLogGroup,
+      environment: {
+        NODE_ENV: environment,
+        AWS_NODEJS_CONNECTION_REUSE_ENABLED: '1',
+        INTAKE_TABLE: intakeTable.tableName,
+        CARDS_TABLE: cardsTable.tableName,
+        SOURCES_TABLE: sourcesTable.tableName,
+        AUDIT_TABLE: auditTable.tableName,
+        CONFIG_TABLE: configTable.tableName,
+        HOST_POLITENESS_TABLE: hostPolitenessTable.tableName,
+        SOURCES_BUCKET: sourcesBucket.bucketName,
+        KMS_SIGNING_KEY_ID: signingKey.keyId,
+        LOG_LEVEL: environment === 'prod' ? 'info' : 'debug',
+        ...(process.env.SOURCE_WATCH_CAPTURE_SNAPSHOTS && {
+          SOURCE_WATCH_CAPTURE_SNAPSHOTS: process.env.SOURCE_WATCH_CAPTURE_SNAPSHOTS,
+        }),
+        ...(process.env.SOURCE_WATCH_WINDOW_DAYS && {
+          SOURCE_WATCH_WINDOW_DAYS: process.env.SOURCE_WATCH_WINDOW_DAYS,
+        }),
+      },
+    });
+
+    intakeTable.grantReadData(sourceWatchFunction);
+    cardsTable.grantReadData(sourceWatchFunction); // sources cited by promoted cards
+    sourcesTable.grantReadWriteData(sourceWatchFunction);
+    auditTable.grantWriteData(sourceWatchFunction);
+    configTable.grantReadData(sourceWatchFunction); // intake rails
+    hostPolitenessTable.grantReadWriteData(sourceWatchFunction);
+    sourcesBucket.grantReadWrite(sourceWatchFunction);
+    signingKey.grant(sourceWatchFunction, 'kms:Sign', 'kms:GetPublicKey');
+
+    // Schedule: daily at 5 AM UTC, ahead of the 6 AM ingestion
+    const sourceWatchRule = new events.Rule(this, 'SourceWatchRule', {
+      ruleName: `${prefix}-source-watch`,
+      schedule: events.Schedule.cron({ minute: '0', hour: '5' }),
+      description: 'Re-fetch sources of recently promoted intake items and flag changed pages',
+    });
+
+    sourceWatchRule.addTarget(
+      new eventsTargets.LambdaFunction(sourceWatchFunction, {
+        retryAttempts: 2,
+      })
+    );
+
     // ============================================================
     // API Gateway
     // ============================================================
@@ -636,8 +988,10 @@ export class LedgerStack extends cdk.Stack {
               'Content-Type',
               'Authorization',
               'Idempotency-Key',
+              'If-Match',
               'X-Request-Id',
             ],
+            exposeHeaders: ['ETag'],
             maxAge: cdk.Duration.minutes(10),
           }
         : undefined,
@@ -660,11 +1014,21 @@ export class LedgerStack extends cdk.Stack {
       '/entities/search',
       '/cards',
       '/cards/{cardId}',
+      '/cards/{cardId}/replies',
+      '/cards/{cardId}/versions',
+      '/cards/{cardId}/diff',
       '/relationships',
       '/relationships/{relationshipId}',
       '/sources/{sourceId}',
       '/sources/{sourceId}/download',
       '/sources/{sourceId}/verification',
+      '/verification/public-key',
+      '/config/scoring-weights',
+      '/tags',
+      '/tags/{tag}/cards',
+      '/search',
+      '/corrections',
+      '/corrections/feed.atom',
     ];
 
     for (const path of publicPaths) {
@@ -682,6 +1046,15 @@ export class LedgerStack extends cdk.Stack {
       });
     }
 
+    // Public right-of-reply submissions (rate limited per client in the Lambda)
+    for (const path of ['/cards/{cardId}/replies', '/api/cards/{cardId}/replies']) {
+      httpApi.addRoutes({
+        path,
+        methods: [apigateway.HttpMethod.POST],
+        integration: lambdaIntegration,
+      });
+    }
+
     // Admin routes - both with and without /api prefix
     // Note: JWT auth is handled in Lambda, not API Gateway, to avoid 403s that CloudFront
     // error responses would intercept and turn into index.html
@@ -1,4 +1,5 @@
 // Common API types
+import type { CardFieldChange } from './cards';
 
 // Standard error response
 export interface ApiError {
@@ -26,9 +27,20 @@ export const ErrorCode = {
   FILE_TOO_LARGE: 'FILE_TOO_LARGE',
   INVALID_MIME_TYPE: 'INVALID_MIME_TYPE',
   IDEMPOTENCY_CONFLICT: 'IDEMPOTENCY_CONFLICT',
+  APPROVAL_REQUIRED: 'APPROVAL_REQUIRED',
 } as const;
 export type ErrorCode = (typeof ErrorCode)[keyof typeof ErrorCode];
 
+// Details of a 409 CONFLICT for an update made against a stale version.
+// `changes` compares the stored record (before) with the rejected update
+// applied to it (after), so a client can merge field by field and retry
+// with expectedVersion set to currentVersion.
+export interface VersionConflictDetails<T = unknown> {
+  currentVersion: number;
+  current: T;
+  changes: CardFieldChange[];
+}
+
 // Paginated response wrapper
 export interface PaginatedResponse<T> {
   items: T[];
@@ -0,0 +1,45 @@
+import type { CardStatus } from './enums';
+
+// Card transitions that need independent sign-off before they run
+export const ApprovalAction = {
+  PUBLISH: 'PUBLISH',
+  RETRACT: 'RETRACT',
+  CORRECT: 'CORRECT', // material corrections only
+} as const;
+export type ApprovalAction = (typeof ApprovalAction)[keyof typeof ApprovalAction];
+
+// One reviewer's sign-off on an action for a specific card version.
+// Editing the card creates a new version, so earlier sign-offs stop counting.
+export interface CardApproval {
+  cardId: string;
+  version: number;
+  action: ApprovalAction;
+  approvedBy: string;
+  approvedAt: string;
+  note?: string;
+}
+
+// Where an action stands against its quorum on the card's current version
+export interface CardApprovalStatus {
+  action: ApprovalAction;
+  version: number;
+  quorum: number;
+  approvals: CardApproval[];
+  remaining: number;
+  satisfied: boolean;
+  blocking: string[];          // human-readable reasons the action cannot run yet
+}
+
+export interface CardApprovalsResponse {
+  cardId: string;
+  version: number;
+  status: CardStatus;
+  ineligibleApprovers: string[]; // author and last editor of this version
+  actions: CardApprovalStatus[];
+}
+
+// Request DTO
+export interface ApproveCardRequest {
+  action: ApprovalAction;
+  note?: string;
+}
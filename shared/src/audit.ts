@@ -5,7 +5,7 @@ export interface AuditLogEntry {
   logId: string;
   actorUserId: string;
   action: AuditAction;
-  targetType: 'entity' | 'card' | 'source' | 'relationship' | 'config' | 'user' | 'intake';
+  targetType: 'entity' | 'card' | 'source' | 'relationship' | 'config' | 'user' | 'intake' | 'feed' | 'tag' | 'reply';
   targetId: string;
   timestamp: string;
   diff?: Record<string, unknown>;
@@ -17,10 +17,12 @@ export interface AuditLogEntry {
 // Idempotency record for safe retries
 export interface IdempotencyRecord {
   idempotencyKey: string;
+  status: 'IN_PROGRESS' | 'COMPLETED';
   createdAt: string;
-  expiresAt: string;
+  expiresAt: number; // epoch seconds (DynamoDB TTL attribute)
   requestFingerprint: string;
-  responsePayload: string;
-  statusCode: number;
+  responsePayload?: string; // set once COMPLETED
+  statusCode?: number; // set once COMPLETED
+  responseHeaders?: Record<string, string>; // set once COMPLETED; ETag etc.
   actorUserId: string;
 }
@@ -43,6 +43,15 @@ export interface AffectedCount {
   isEstimate?: boolean;
 }
 
+// One entry in a card's status timeline (editorial record, not the company response)
+export interface CardStatusChange {
+  status: CardStatus;
+  reason?: string;                  // dispute reason, correction note, retraction reason
+  actor: string;                    // userId that made the change
+  at: string;                       // ISO timestamp
+  version: number;                  // card version the change produced
+}
+
 // Evidence Card - the atomic unit of the platform
 export interface EvidenceCard {
   cardId: string;
@@ -58,6 +67,7 @@ export interface EvidenceCard {
   evidenceStrength: EvidenceStrength;
   status: CardStatus;
   counterpoint?: string;            // company response / rebuttal
+  statusHistory?: CardStatusChange[]; // oldest first; absent on cards not yet migrated
   tags: string[];
   scoreSignals?: ScoreSignals;
 
@@ -80,6 +90,7 @@ export interface EvidenceCard {
 export interface EvidenceCardWithEntities extends EvidenceCard {
   entities: Array<{ entityId: string; name: string }>;
   sources?: Array<{ sourceId: string; title: string; url?: string; verificationStatus: string }>;
+  publishSchedule?: CardPublishSchedule; // admin reads only
 }
 
 // Request DTOs
@@ -125,6 +136,8 @@ export interface UpdateCardRequest {
   monetaryAmount?: MonetaryAmount;
   affectedCount?: AffectedCount;
   relatedCardIds?: string[];
+  // Version the edit was based on; same as sending If-Match
+  expectedVersion?: number;
 }
 
 // Transition requests
@@ -151,6 +164,67 @@ export interface RetractCardRequest {
   reason: string;
 }
 
+// Backfill statusHistory from the legacy "[Dispute …]:" blocks in counterpoint
+export interface MigrateStatusHistoryRequest {
+  cursor?: string;
+  dryRun?: boolean;
+}
+
+export interface MigrateStatusHistoryResult {
+  cardsScanned: number;
+  cardsMigrated: number;
+  versionsRewritten: number;
+  dryRun: boolean;
+  cursor?: string;
+  hasMore: boolean;
+}
+
+// One stored version of a card, for the version list
+export interface CardVersionSummary {
+  version: number;
+  status: CardStatus;
+  title: string;
+  updatedAt: string;
+  updatedBy: string;
+  reason?: string;                  // status change note recorded with this version
+}
+
+// How a single field differs between two versions. Array fields also
+// report which items were added and removed.
+export interface CardFieldChange {
+  field: string;
+  change: 'added' | 'removed' | 'modified';
+  before?: unknown;
+  after?: unknown;
+  itemsAdded?: unknown[];
+  itemsRemoved?: unknown[];
+}
+
+export interface CardVersionDiff {
+  cardId: string;
+  from: CardVersionSummary;
+  to: CardVersionSummary;
+  changes: CardFieldChange[];
+}
+
+// A REVIEW card's pending publish time. Stored beside the card's versions
+// rather than on them, so scheduling or rescheduling keeps its approvals.
+export interface CardPublishSchedule {
+  cardId: string;
+  title: string;
+  scheduledPublishAt: string;       // ISO timestamp; stays unpublished until then
+  note?: string;                    // embargo terms or release notes
+  scheduledBy: string;              // the scheduled publish runs as this user
+  scheduledAt: string;
+  lastAttemptAt?: string;           // set when a due publish was blocked
+  lastError?: string;
+}
+
+export interface SchedulePublishRequest {
+  scheduledPublishAt: string;
+  note?: string;
+}
+
 // Scoring weights configuration
 export interface ScoringWeights {
   severity: number;
@@ -0,0 +1,70 @@
+import type { ScoringWeights } from './cards';
+
+// One immutable version of the scoring weights
+export interface ScoringWeightsConfig {
+  version: string; // e.g. "v3"; "default" when nothing has been stored yet
+  versionNumber: number;
+  weights: ScoringWeights;
+  note?: string;
+  createdAt: string;
+  createdBy: string;
+}
+
+export const RescoreJobStatus = {
+  PENDING: 'PENDING',
+  RUNNING: 'RUNNING',
+  COMPLETED: 'COMPLETED',
+} as const;
+export type RescoreJobStatus = (typeof RescoreJobStatus)[keyof typeof RescoreJobStatus];
+
+// Bulk rescore of every entity under a weights version
+export interface RescoreJob {
+  jobId: string;
+  weightConfigVersion: string;
+  status: RescoreJobStatus;
+  entitiesProcessed: number;
+  errors: number;
+  cursor?: string; // resume point for the next batch
+  createdAt: string;
+  createdBy: string;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+export interface ScoringWeightsResponse {
+  active: ScoringWeightsConfig;
+  history: ScoringWeightsConfig[];
+  latestJob?: RescoreJob;
+}
+
+// Request DTOs
+export interface CreateScoringWeightsRequest {
+  weights: ScoringWeights;
+  note?: string;
+}
+
+export interface CreateScoringWeightsResponse {
+  config: ScoringWeightsConfig;
+  job: RescoreJob;
+}
+
+export interface PreviewScoringWeightsRequest {
+  weights: ScoringWeights;
+}
+
+// How one entity's score and rank would move under proposed weights
+export interface ScoringRankShift {
+  entityId: string;
+  name: string;
+  currentScore: number;
+  proposedScore: number;
+  currentRank: number;
+  proposedRank: number;
+  rankChange: number; // positive = moves up the ranking
+}
+
+export interface ScoringWeightsPreview {
+  activeVersion: string;
+  proposedWeights: ScoringWeights;
+  entities: ScoringRankShift[];
+}
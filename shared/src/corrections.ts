@@ -0,0 +1,45 @@
+import type { PaginatedResponse } from './api';
+
+// Status changes that appear in the public corrections log
+export const CorrectionKind = {
+  DISPUTED: 'DISPUTED',
+  CORRECTED: 'CORRECTED',
+  RETRACTED: 'RETRACTED',
+} as const;
+export type CorrectionKind = (typeof CorrectionKind)[keyof typeof CorrectionKind];
+
+// One entry in the corrections log: a card transition or a relationship retraction
+export interface CorrectionEntry {
+  targetType: 'card' | 'relationship';
+  targetId: string;
+  title: string;                // card title, or "From → To" for relationships
+  kind: CorrectionKind;
+  reason?: string;
+  at: string;                   // ISO timestamp of the change
+  version?: number;             // card version the change produced
+  previousVersion?: number;     // card version it replaced
+  entityIds: string[];          // entities the entry concerns
+}
+
+// Months that have log entries, newest first
+export interface CorrectionsMonth {
+  month: string;                // YYYY-MM
+  count: number;
+}
+
+export interface CorrectionsLogResponse extends PaginatedResponse<CorrectionEntry> {
+  month: string;                // month the items belong to
+  months: CorrectionsMonth[];
+}
+
+export interface CorrectionsQueryParams {
+  month?: string;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface RebuildCorrectionsLogResult {
+  entriesWritten: number;
+  cursor?: string;
+  hasMore: boolean;
+}
@@ -18,6 +18,7 @@ export interface Entity {
   website?: string;
   parentEntityId?: string;
   identifiers?: EntityIdentifiers;
+  version?: number;      // bumped on every edit; absent on entities saved before versioning
   createdAt: string;
   updatedAt: string;
 }
@@ -53,6 +54,7 @@ export interface UpdateEntityRequest {
   website?: string;
   parentEntityId?: string;
   identifiers?: EntityIdentifiers;
+  expectedVersion?: number;   // reject with CONFLICT unless the entity is still at this version
 }
 
 // Relationship between entities
@@ -85,6 +87,9 @@ export interface Relationship {
   retractedAt?: string;
   retractedBy?: string;
 
+  // Bumped on every edit; absent on relationships saved before versioning
+  version?: number;
+
   // Audit fields
   createdAt: string;
   createdBy: string;
@@ -113,6 +118,7 @@ export interface UpdateRelationshipRequest {
   endDate?: string;
   sourceRefs?: string[];
   ownershipPercentage?: number;
+  expectedVersion?: number;
 }
 
 export interface RelationshipWithEntities extends Relationship {
@@ -143,22 +143,40 @@ export const AuditAction = {
   UPDATE_SOURCE: 'UPDATE_SOURCE',
   UPLOAD_SOURCE: 'UPLOAD_SOURCE',
   VERIFY_SOURCE: 'VERIFY_SOURCE',
+  SOURCE_RECAPTURED: 'SOURCE_RECAPTURED',
+  ACKNOWLEDGE_SOURCE_ALERT: 'ACKNOWLEDGE_SOURCE_ALERT',
   CREATE_CARD: 'CREATE_CARD',
   UPDATE_CARD: 'UPDATE_CARD',
   SUBMIT_CARD: 'SUBMIT_CARD',
   PUBLISH_CARD: 'PUBLISH_CARD',
+  SCHEDULE_CARD: 'SCHEDULE_CARD',
+  UNSCHEDULE_CARD: 'UNSCHEDULE_CARD',
   DISPUTE_CARD: 'DISPUTE_CARD',
   CORRECT_CARD: 'CORRECT_CARD',
   RETRACT_CARD: 'RETRACT_CARD',
   ARCHIVE_CARD: 'ARCHIVE_CARD',
   RESTORE_CARD: 'RESTORE_CARD',
+  APPROVE_CARD: 'APPROVE_CARD',
+  CREATE_REVIEW_THREAD: 'CREATE_REVIEW_THREAD',
+  COMMENT_REVIEW_THREAD: 'COMMENT_REVIEW_THREAD',
+  RESOLVE_REVIEW_THREAD: 'RESOLVE_REVIEW_THREAD',
+  UNRESOLVE_REVIEW_THREAD: 'UNRESOLVE_REVIEW_THREAD',
+  MIGRATE_STATUS_HISTORY: 'MIGRATE_STATUS_HISTORY',
   REJECT_INTAKE: 'REJECT_INTAKE',
   PROMOTE_INTAKE: 'PROMOTE_INTAKE',
   RETRY_EXTRACTION: 'RETRY_EXTRACTION',
+  CREATE_FEED: 'CREATE_FEED',
+  UPDATE_FEED: 'UPDATE_FEED',
+  UPDATE_INTAKE_RAILS: 'UPDATE_INTAKE_RAILS',
   CREATE_RELATIONSHIP: 'CREATE_RELATIONSHIP',
   UPDATE_RELATIONSHIP: 'UPDATE_RELATIONSHIP',
   PUBLISH_RELATIONSHIP: 'PUBLISH_RELATIONSHIP',
   RETRACT_RELATIONSHIP: 'RETRACT_RELATIONSHIP',
+  UPDATE_SCORING_WEIGHTS: 'UPDATE_SCORING_WEIGHTS',
+  MERGE_TAGS: 'MERGE_TAGS',
+  NORMALIZE_TAGS: 'NORMALIZE_TAGS',
+  PUBLISH_REPLY: 'PUBLISH_REPLY',
+  REJECT_REPLY: 'REJECT_REPLY',
   ADMIN_LOGIN: 'ADMIN_LOGIN',
   ADMIN_LOGOUT: 'ADMIN_LOGOUT',
   MFA_RESET: 'MFA_RESET',
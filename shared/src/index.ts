@@ -6,3 +6,11 @@ export * from './sources';
 export * from './audit';
 export * from './api';
 export * from './intake';
+export * from './config';
+export * from './tags';
+export * from './search';
+export * from './replies';
+export * from './corrections';
+export * from './permissions';
+export * from './approvals';
+export * from './review-threads';
@@ -1,6 +1,6 @@
 // Intake types for automated RSS ingestion
 
-import type { EntityType, RelationshipType } from './enums.js';
+import type { CardCategory, EntityType, RelationshipType } from './enums.js';
 
 export type IntakeStatus = 'NEW' | 'REVIEWED' | 'PROMOTED' | 'REJECTED';
 
@@ -113,12 +113,18 @@ export interface IntakeItem {
   extractedAt?: string;
   extractionError?: string;
 
-  // Snapshot info (if captured)
+  // Snapshots taken right after ingestion, before the page can change
   snapshot?: IntakeSnapshot;
+  linkedPdfSnapshots?: IntakeSnapshot[];  // PDFs the page links to
+  snapshotError?: string;
+
+  // Story cluster: other feeds' items about the same event
+  clusterId?: string;
 
   // Promotion tracking
   promotedSourceId?: string;
   promotedCardId?: string;
+  promotion?: IntakePromotion;  // latest promotion attempt, including rolled-back ones
 
   // LLM editor tracking
   editorStatus?: EditorStatus;
@@ -133,7 +139,29 @@ export interface IntakeItem {
   error?: string;
 }
 
+// Items from different feeds that report the same story (one settlement
+// announced by DOJ, FTC and SEC). Members are keyed so they can be read
+// directly; promoting one can attach the rest as sources.
+export interface IntakeClusterMember {
+  intakeId: string;
+  feedId: string;
+  publishedAt: string;
+}
+
+export interface IntakeCluster {
+  clusterId: string;
+  members: IntakeClusterMember[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface IntakeClusterResponse {
+  cluster: IntakeCluster;
+  items: IntakeItem[];
+}
+
 export interface IntakeSnapshot {
+  url: string;
   bucket: string;
   key: string;
   sha256: string;
@@ -142,12 +170,81 @@ export interface IntakeSnapshot {
   capturedAt: string;
 }
 
+// Promotion runs as a persisted plan of steps. IDs are assigned when the plan
+// is made, so a retried promotion finds what an interrupted one created, and
+// a failed one deletes it again instead of leaving orphans.
+export type PromotionStatus = 'IN_PROGRESS' | 'COMPLETED' | 'ROLLED_BACK' | 'ROLLBACK_FAILED';
+
+export type PromotionStepType =
+  | 'CREATE_ENTITY'
+  | 'CREATE_SOURCE'
+  | 'VERIFY_SOURCE'
+  | 'CAPTURE_SNAPSHOT'     // best effort; a failed capture doesn't fail the promotion
+  | 'CREATE_CARD'
+  | 'CREATE_RELATIONSHIP'
+  | 'MARK_PROMOTED';
+
+export type PromotionStepStatus = 'PENDING' | 'DONE' | 'SKIPPED' | 'FAILED' | 'ROLLED_BACK';
+
+export interface PromotionStep {
+  type: PromotionStepType;
+  targetId: string;        // record the step creates or acts on
+  status: PromotionStepStatus;
+  entity?: { name: string; type: EntityType };   // CREATE_ENTITY
+  relationship?: {                                // CREATE_RELATIONSHIP
+    fromEntityId: string;
+    toEntityId: string;
+    type: RelationshipType;
+    description?: string;
+  };
+  intakeId?: string;       // cluster member the step acts on, when not the promoted item
+  linkedPdfUrl?: string;   // PDF linked from the promoted page, for its source's steps
+  error?: string;
+}
+
+export interface IntakePromotion {
+  promotionId: string;
+  status: PromotionStatus;
+  fingerprint: string;     // hash of the request; a retry must match to resume
+  actorId: string;
+  sourceId: string;
+  cardId: string;
+  entityIds: string[];     // existing and newly created, in card order
+  card: { summary: string; category: CardCategory; tags: string[] };
+  steps: PromotionStep[];
+  revision: number;        // bumped on every save; guards against concurrent runs
+  startedAt: string;
+  updatedAt: string;
+  completedAt?: string;
+  error?: string;
+}
+
 // Feed configuration
+// 'feed' is RSS, Atom or JSON Feed; 'html' scrapes a listing page for
+// publishers that don't offer one
+export type FeedKind = 'feed' | 'html';
+
+// A CSS selector, relative to the listing item. Reads the element's text
+// (its href for links) unless `attr` names an attribute to read instead.
+export type ListingField = string | { selector: string; attr?: string };
+
+export interface HtmlListingConfig {
+  item: string;              // selector matching each entry on the page
+  link: ListingField;
+  title?: ListingField;      // defaults to the link's text
+  date?: ListingField;
+  summary?: ListingField;
+  nextPage?: string;         // selector for the link to the next page
+  maxPages?: number;         // pages to follow per run; default 1
+}
+
 export interface FeedConfig {
   id: string;
+  kind?: FeedKind;           // default 'feed'
   publisher: string;
   name: string;
   url: string;
+  listing?: HtmlListingConfig;  // required when kind is 'html'
   defaultTags: string[];
   perFeedCap: number;
   enabled: boolean;
@@ -171,6 +268,22 @@ export interface IntakeFeedsConfig {
   feeds: FeedConfig[];
 }
 
+// Feeds and rails as stored in the config table and edited from the admin
+// Feeds page. feeds.json only seeds the store on first use.
+export interface IntakeFeed extends FeedConfig {
+  version: number;           // optimistic concurrency
+  createdAt: string;
+  createdBy: string;         // 'seed' for feeds copied from feeds.json
+  updatedAt: string;
+  updatedBy: string;
+}
+
+export interface IntakeRailsConfig extends IntakeRails {
+  version: number;
+  updatedAt: string;
+  updatedBy: string;
+}
+
 // API types
 export interface IntakeListResponse {
   items: IntakeItem[];
@@ -200,6 +313,8 @@ export interface IntakePromoteRequest {
   // Card metadata
   tags?: string[];
   cardSummary: string;
+  // Attach the other NEW items in the item's story cluster as sources
+  includeCluster?: boolean;
 }
 
 export interface IntakePromoteResponse {
@@ -207,15 +322,55 @@ export interface IntakePromoteResponse {
   cardId: string;
   entityIds?: string[];        // All entity IDs linked to the card
   relationshipIds?: string[];  // All relationship IDs created (as DRAFT)
+  clusterIntakeIds?: string[]; // Cluster members promoted along with the item
+}
+
+export interface IntakeFeedsResponse {
+  feeds: IntakeFeed[];
+  rails: IntakeRailsConfig;
 }
 
+export type CreateIntakeFeedRequest = FeedConfig;
+
+export interface UpdateIntakeFeedRequest extends Partial<Omit<FeedConfig, 'id'>> {
+  expectedVersion?: number;
+}
+
+export interface UpdateIntakeRailsRequest extends IntakeRails {
+  expectedVersion?: number;
+}
+
+// One parsed item from a test fetch, with what ingestion would do with it
+export interface FeedPreviewItem {
+  title: string;
+  link: string;
+  canonicalUrl?: string;     // unset when the link is off the allowlist
+  publishedAt?: string;
+  allowed: boolean;
+  alreadyIngested: boolean;
+}
+
+// Result of fetching a feed without ingesting anything
+export interface FeedPreview {
+  feedId: string;
+  itemCount: number;         // items parsed, before the preview limit
+  items: FeedPreviewItem[];
+  error?: string;            // fetch or parse failure
+}
+
+// How fetching a feed went in a run. NOT_MODIFIED is a 304 to a conditional
+// GET: nothing to ingest, but the feed is working.
+export type FeedFetchStatus = 'OK' | 'NOT_MODIFIED' | 'FETCH_ERROR' | 'PARSE_ERROR';
+
 export interface IntakeIngestResult {
   feedId: string;
+  fetchStatus: FeedFetchStatus;
   itemsIngested: number;
   itemsSkipped: number;
   errors: string[];
 }
 
+// Stored for every ingestion run (GET /admin/intake/runs)
 export interface IntakeRunSummary {
   runId: string;
   startedAt: string;
@@ -223,4 +378,31 @@ export interface IntakeRunSummary {
   totalIngested: number;
   totalSkipped: number;
   feedResults: IntakeIngestResult[];
+}
+
+// FAILING: several runs in a row failed. STALE: fetches succeed but nothing
+// new has come in for a while, which usually means the feed moved or the
+// listing selectors stopped matching.
+export type FeedHealthStatus = 'HEALTHY' | 'FAILING' | 'STALE';
+
+// Per-feed stats kept up to date by each ingestion run
+export interface FeedHealth {
+  feedId: string;
+  trackedSince: string;      // first run that fetched the feed
+  lastRunId: string;
+  lastRunAt: string;
+  lastFetchStatus: FeedFetchStatus;
+  lastSuccessAt?: string;    // last run that fetched and parsed it (or got a 304)
+  lastNewItemAt?: string;
+  lastError?: string;
+  consecutiveFailures: number;
+  parseErrors: number;       // runs whose response could not be parsed
+  recentNewItems: number[];  // new items per successful run, oldest first
+  averageNewItems: number;   // mean of recentNewItems
+  status: FeedHealthStatus;
+  statusReason?: string;
+}
+
+export interface FeedHealthResponse {
+  items: FeedHealth[];
 }
\ No newline at end of file
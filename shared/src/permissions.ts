@@ -0,0 +1,83 @@
+// Staff roles, one Cognito group each. Roles are cumulative: each grants
+// everything the one before it does.
+export const Role = {
+  RESEARCHER: 'researcher',
+  EDITOR: 'editor',
+  PUBLISHER: 'publisher',
+  ADMIN: 'admin',
+} as const;
+export type Role = (typeof Role)[keyof typeof Role];
+
+// Actions checked per admin route
+export const Permission = {
+  ADMIN_READ: 'admin:read',                       // view drafts, intake, stats and other admin lists
+  CARD_CREATE: 'card:create',                     // create, edit and submit cards for review
+  CARD_APPROVE: 'card:approve',                   // sign off on publish, retract and material corrections
+  CARD_PUBLISH: 'card:publish',
+  CARD_CORRECT: 'card:correct',                   // dispute and correct published cards
+  CARD_RETRACT: 'card:retract',
+  CARD_ARCHIVE: 'card:archive',                   // archive and restore
+  SOURCE_CREATE: 'source:create',
+  ENTITY_WRITE: 'entity:write',
+  INTAKE_REVIEW: 'intake:review',                 // reject and retry extraction
+  INTAKE_PROMOTE: 'intake:promote',
+  RELATIONSHIP_CREATE: 'relationship:create',
+  RELATIONSHIP_PUBLISH: 'relationship:publish',
+  RELATIONSHIP_RETRACT: 'relationship:retract',
+  REPLY_MODERATE: 'reply:moderate',
+  TAG_WRITE: 'tag:write',
+  REVIEW_COMMENT: 'review:comment',               // open, reply to and resolve review threads
+  AUDIT_READ: 'audit:read',
+  CONFIG_WRITE: 'config:write',
+  MAINTENANCE_RUN: 'maintenance:run',             // index rebuilds and data migrations
+} as const;
+export type Permission = (typeof Permission)[keyof typeof Permission];
+
+const RESEARCHER_PERMISSIONS: Permission[] = [
+  Permission.ADMIN_READ,
+  Permission.CARD_CREATE,
+  Permission.SOURCE_CREATE,
+  Permission.ENTITY_WRITE,
+  Permission.RELATIONSHIP_CREATE,
+  Permission.REVIEW_COMMENT,
+];
+
+const EDITOR_PERMISSIONS: Permission[] = [
+  ...RESEARCHER_PERMISSIONS,
+  Permission.CARD_APPROVE,
+  Permission.CARD_CORRECT,
+  Permission.CARD_ARCHIVE,
+  Permission.INTAKE_REVIEW,
+  Permission.INTAKE_PROMOTE,
+  Permission.REPLY_MODERATE,
+  Permission.TAG_WRITE,
+];
+
+const PUBLISHER_PERMISSIONS: Permission[] = [
+  ...EDITOR_PERMISSIONS,
+  Permission.CARD_PUBLISH,
+  Permission.CARD_RETRACT,
+  Permission.RELATIONSHIP_PUBLISH,
+  Permission.RELATIONSHIP_RETRACT,
+];
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  researcher: RESEARCHER_PERMISSIONS,
+  editor: EDITOR_PERMISSIONS,
+  publisher: PUBLISHER_PERMISSIONS,
+  admin: Object.values(Permission),
+};
+
+// Union of the permissions granted by a user's Cognito groups; unknown groups grant nothing
+export function permissionsForGroups(groups: readonly string[]): Permission[] {
+  const granted = new Set<Permission>();
+  for (const group of groups) {
+    if (!Object.prototype.hasOwnProperty.call(ROLE_PERMISSIONS, group)) {
+      continue;
+    }
+    for (const permission of ROLE_PERMISSIONS[group as Role]) {
+      granted.add(permission);
+    }
+  }
+  return [...granted];
+}
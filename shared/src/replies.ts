@@ -0,0 +1,64 @@
+import type { Source } from './sources';
+
+export const ReplyStatus = {
+  PENDING: 'PENDING',     // awaiting moderation
+  PUBLISHED: 'PUBLISHED', // shown on the card page
+  REJECTED: 'REJECTED',   // not shown; reason kept for the record
+} as const;
+export type ReplyStatus = (typeof ReplyStatus)[keyof typeof ReplyStatus];
+
+// Right-of-reply submission from an entity named on a card
+export interface Reply {
+  replyId: string;
+  cardId: string;
+  entityId: string;             // must be one of the card's entityIds
+  submitterName: string;
+  submitterEmail: string;       // contact only; never shown publicly
+  submitterTitle?: string;      // e.g. "Head of Communications"
+  body: string;
+  attachments?: ReplyAttachmentRequest[]; // links as submitted, awaiting moderation
+  attachmentSourceIds: string[]; // Source records created from those links on publish
+  status: ReplyStatus;
+  submittedAt: string;
+  reviewedAt?: string;
+  reviewedBy?: string;
+  moderationNote?: string;      // publish note or rejection reason
+  publishedAt?: string;
+}
+
+// Published reply as shown on the card page (no contact details)
+export interface PublicReply {
+  replyId: string;
+  cardId: string;
+  entityId: string;
+  entityName: string;
+  submitterName: string;
+  submitterTitle?: string;
+  body: string;
+  attachments: Array<Pick<Source, 'sourceId' | 'title' | 'publisher' | 'url'>>;
+  publishedAt: string;
+}
+
+// Request DTOs
+export interface ReplyAttachmentRequest {
+  title: string;
+  url: string;
+  publisher?: string;
+}
+
+export interface CreateReplyRequest {
+  entityId: string;
+  submitterName: string;
+  submitterEmail: string;
+  submitterTitle?: string;
+  body: string;
+  attachments?: ReplyAttachmentRequest[];
+}
+
+export interface ModerateReplyRequest {
+  note?: string;
+}
+
+export interface RejectReplyRequest {
+  reason: string;
+}
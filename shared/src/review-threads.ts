@@ -0,0 +1,64 @@
+// Review discussion attached to draft cards and relationships
+
+export const ReviewTargetType = {
+  CARD: 'card',
+  RELATIONSHIP: 'relationship',
+} as const;
+export type ReviewTargetType = (typeof ReviewTargetType)[keyof typeof ReviewTargetType];
+
+export const ReviewThreadStatus = {
+  OPEN: 'OPEN',           // blocks publishing
+  RESOLVED: 'RESOLVED',
+} as const;
+export type ReviewThreadStatus = (typeof ReviewThreadStatus)[keyof typeof ReviewThreadStatus];
+
+// What part of the target a thread is about; omitted for general comments
+export interface ReviewAnchor {
+  field?: string;               // e.g. "claim", "summary", "ownershipPercentage"
+  sourceId?: string;            // one of the target's sourceRefs
+}
+
+export interface ReviewComment {
+  commentId: string;
+  authorId: string;
+  body: string;
+  mentions: string[];           // @handles found in the body
+  createdAt: string;
+}
+
+export interface ReviewThread {
+  threadId: string;
+  targetType: ReviewTargetType;
+  targetId: string;
+  version?: number;             // card version the thread was opened on (cards only)
+  anchor?: ReviewAnchor;
+  status: ReviewThreadStatus;
+  comments: ReviewComment[];
+  createdAt: string;
+  createdBy: string;
+  updatedAt: string;
+  resolvedAt?: string;
+  resolvedBy?: string;
+}
+
+// A comment that @mentions someone, for their mentions list
+export interface ReviewMention {
+  handle: string;
+  threadId: string;
+  commentId: string;
+  targetType: ReviewTargetType;
+  targetId: string;
+  authorId: string;
+  excerpt: string;
+  createdAt: string;
+}
+
+// Request DTOs
+export interface CreateReviewThreadRequest {
+  body: string;
+  anchor?: ReviewAnchor;
+}
+
+export interface AddReviewCommentRequest {
+  body: string;
+}
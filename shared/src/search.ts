@@ -0,0 +1,61 @@
+import type { PaginatedResponse } from './api';
+
+export const SearchResultType = {
+  CARD: 'card',
+  ENTITY: 'entity',
+  SOURCE: 'source',
+} as const;
+export type SearchResultType = (typeof SearchResultType)[keyof typeof SearchResultType];
+
+// A matched field with the character ranges of each query-term hit.
+// Ranges are [start, end) offsets into `snippet`; clients render the marks.
+export interface SearchHighlight {
+  field: string;
+  snippet: string;
+  ranges: Array<[number, number]>;
+}
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: string;
+  title: string;
+  subtitle?: string;   // entity type, source publisher, card claim
+  category?: string;   // cards only
+  date?: string;       // card event date, source retrieval date (YYYY-MM-DD)
+  url?: string;        // sources only: original public URL
+  score: number;
+  highlights: SearchHighlight[];
+}
+
+// Match counts across the whole result set, before pagination
+export interface SearchFacets {
+  type: Record<string, number>;
+  category: Record<string, number>;
+}
+
+export interface SearchResponse extends PaginatedResponse<SearchResult> {
+  query: string;
+  total: number;
+  facets: SearchFacets;
+}
+
+export interface SearchQueryParams {
+  q: string;
+  type?: SearchResultType;
+  category?: string;
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string;   // YYYY-MM-DD, inclusive
+  limit?: number;
+  cursor?: string;
+}
+
+// Request DTOs
+export interface RebuildSearchIndexRequest {
+  cursor?: string;
+}
+
+export interface RebuildSearchIndexResult {
+  documentsIndexed: number;
+  cursor?: string;
+  hasMore: boolean;
+}
@@ -1,3 +1,4 @@
+import type { PaginatedResponse } from './api';
 import type { DocType, VerificationStatus } from './enums';
 
 // Source - a public record or document
@@ -20,12 +21,67 @@ export interface Source {
   s3Key?: string;                 // private object key
   excerpt?: string;               // short quoted excerpt
   notes?: string;
+  previousSnapshots?: SourceSnapshotVersion[];  // earlier signed snapshots, oldest first
+  lastCheckedAt?: string;         // last time the source watcher fetched the URL
   createdAt: string;
   updatedAt: string;
   createdBy: string;
   updatedBy: string;
 }
 
+// A signed snapshot replaced by a later capture of the same URL. The object
+// and its manifest stay in S3 under their original keys.
+export interface SourceSnapshotVersion {
+  sha256: string;
+  byteLength: number;
+  mimeType: string;
+  s3Key: string;
+  retrievedAt: string;
+  verifiedAt?: string;
+  verificationManifestS3Key?: string;
+  verificationSignature?: string;
+  verificationKeyId?: string;
+}
+
+export const SourceAlertStatus = {
+  OPEN: 'OPEN',
+  ACKNOWLEDGED: 'ACKNOWLEDGED',
+} as const;
+export type SourceAlertStatus = (typeof SourceAlertStatus)[keyof typeof SourceAlertStatus];
+
+// One line of a text diff between two snapshots of a page
+export interface SourceDiffLine {
+  change: 'added' | 'removed' | 'context';
+  text: string;
+}
+
+// Raised when the page behind a source no longer matches its snapshot
+export interface SourceChangeAlert {
+  alertId: string;
+  sourceId: string;
+  url: string;
+  status: SourceAlertStatus;
+  detectedAt: string;
+  previousSha256: string;         // content last seen: the snapshot, or the previous alert's
+  previousS3Key: string;
+  currentSha256: string;          // what the URL serves now, kept unsigned in S3
+  currentS3Key: string;
+  mimeType: string;
+  diff: SourceDiffLine[];         // changed lines with some context; empty for PDFs
+  diffTruncated?: boolean;
+  cardIds: string[];              // cards known to cite the source
+  capturedSnapshot?: boolean;     // the new content was signed as the source's snapshot
+  acknowledgedAt?: string;
+  acknowledgedBy?: string;
+  note?: string;
+}
+
+export type SourceAlertsResponse = PaginatedResponse<SourceChangeAlert>;
+
+export interface AcknowledgeSourceAlertRequest {
+  note?: string;
+}
+
 // Verification manifest stored in S3
 export interface VerificationManifest {
   sourceId: string;
@@ -88,6 +144,14 @@ export interface SourceVerificationResponse {
   algorithm?: string;
 }
 
+// Public half of the manifest signing key, for offline verification
+export interface VerificationPublicKeyResponse {
+  keyId: string;
+  algorithm: string;
+  publicKey: string;              // base64 DER (SubjectPublicKeyInfo)
+  publicKeyPem: string;
+}
+
 // Allowed MIME types for uploads
 export const ALLOWED_MIME_TYPES = [
   'application/pdf',
@@ -0,0 +1,41 @@
+// Tag with the number of public (non-retracted) cards carrying it
+export interface TagSummary {
+  tag: string; // normalized form, e.g. "wage-theft"
+  cardCount: number;
+  updatedAt: string;
+}
+
+// Request DTOs
+export interface MergeTagsRequest {
+  from: string[];
+  into: string;
+  dryRun?: boolean;
+}
+
+export interface NormalizeTagsRequest {
+  dryRun?: boolean;
+}
+
+export interface RebuildTagIndexRequest {
+  cursor?: string;
+}
+
+// A card whose tag list was (or would be) rewritten by admin tag tooling
+export interface TagChange {
+  cardId: string;
+  before: string[];
+  after: string[];
+}
+
+export interface TagMaintenanceResult {
+  cardsChecked: number;
+  cardsUpdated: number;
+  changes: TagChange[];
+  dryRun: boolean;
+}
+
+export interface RebuildTagIndexResult {
+  cardsIndexed: number;
+  cursor?: string;
+  hasMore: boolean;
+}